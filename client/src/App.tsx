@@ -59,6 +59,8 @@ import GetQuote from "@/pages/GetQuote";
 import ScheduleAppointment from "@/pages/ScheduleAppointment";
 import ScheduleSiteVisit from "@/pages/ScheduleSiteVisit";
 import ScheduleService from "@/pages/ScheduleService";
+import ManageAppointment from "@/pages/ManageAppointment";
+import ResetPassword from "@/pages/ResetPassword";
 
 // Public view pages (for share links)
 import PublicQuoteView from "@/pages/PublicQuoteView";
@@ -334,12 +336,24 @@ function Router() {
           <ScheduleSiteVisit />
         </PublicLayout>
       )} />
+      <Route path="/appointments/:token" component={() => (
+        <PublicLayout>
+          <ManageAppointment />
+        </PublicLayout>
+      )} />
       <Route path="/get-service" component={() => (
         <PublicLayout>
           <ScheduleService />
         </PublicLayout>
       )} />
       
+      {/* Account recovery */}
+      <Route path="/reset-password" component={() => (
+        <PublicLayout>
+          <ResetPassword />
+        </PublicLayout>
+      )} />
+      
       <Route>
         {isAuthenticated ? <AuthenticatedRouter /> : <LandingPage />}
       </Route>
@@ -22,6 +22,9 @@ interface AppConfigDialogProps {
 export function AppConfigDialog({ open, onOpenChange }: AppConfigDialogProps) {
   const { toast } = useToast();
   const [selectedServices, setSelectedServices] = useState<string[]>([]);
+  const [reminderCadence, setReminderCadence] = useState('');
+  const [businessDays, setBusinessDays] = useState<number[]>([]);
+  const [holidayList, setHolidayList] = useState('');
 
   const { data: config, isLoading } = useQuery<SystemConfig>({
     queryKey: ['/api/system-config'],
@@ -56,6 +59,11 @@ export function AppConfigDialog({ open, onOpenChange }: AppConfigDialogProps) {
       serviceAgreementUrl: '',
       warrantyInfoUrl: '',
       privacyPolicyUrl: '',
+      invoiceRemindersEnabled: true,
+      businessHoursStart: '08:00',
+      businessHoursEnd: '17:00',
+      businessTimeZone: '',
+      laborCostPerHour: '',
     },
   });
 
@@ -82,8 +90,16 @@ export function AppConfigDialog({ open, onOpenChange }: AppConfigDialogProps) {
         serviceAgreementUrl: config.serviceAgreementUrl || '',
         warrantyInfoUrl: config.warrantyInfoUrl || '',
         privacyPolicyUrl: config.privacyPolicyUrl || '',
+        invoiceRemindersEnabled: config.invoiceRemindersEnabled ?? true,
+        businessHoursStart: config.businessHoursStart || '08:00',
+        businessHoursEnd: config.businessHoursEnd || '17:00',
+        businessTimeZone: config.businessTimeZone || '',
+        laborCostPerHour: config.laborCostPerHour || '',
       });
       setSelectedServices(config.selectedFrontpageServices || []);
+      setReminderCadence((config.invoiceReminderOffsets ?? [-3, 0, 7, 14]).join(', '));
+      setBusinessDays(config.businessDays ?? [1, 2, 3, 4, 5]);
+      setHolidayList((config.holidays ?? []).join('\n'));
     }
   }, [config, open, form]);
 
@@ -105,12 +121,54 @@ export function AppConfigDialog({ open, onOpenChange }: AppConfigDialogProps) {
   });
 
   const handleSubmit = async (values: UpdateSystemConfigType) => {
+    // Cadence is entered as comma-separated day offsets relative to the due date
+    const offsets = reminderCadence
+      .split(',')
+      .map(part => part.trim())
+      .filter(part => part !== '')
+      .map(part => Number(part));
+    if (offsets.some(offset => !Number.isInteger(offset))) {
+      toast({
+        title: "Invalid reminder cadence",
+        description: "Use whole numbers of days separated by commas, e.g. -3, 0, 7, 14",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Holidays are entered one date per line (or comma-separated)
+    const holidays = holidayList
+      .split(/[\n,]/)
+      .map(part => part.trim())
+      .filter(part => part !== '');
+    if (holidays.some(holiday => !/^\d{4}-\d{2}-\d{2}$/.test(holiday))) {
+      toast({
+        title: "Invalid holiday list",
+        description: "Enter holidays as YYYY-MM-DD dates, one per line",
+        variant: "destructive",
+      });
+      return;
+    }
+
     updateMutation.mutate({
       ...values,
+      businessTimeZone: values.businessTimeZone || null,
+      laborCostPerHour: values.laborCostPerHour || null,
       selectedFrontpageServices: selectedServices,
+      invoiceReminderOffsets: Array.from(new Set(offsets)).sort((a, b) => a - b),
+      businessDays: [...businessDays].sort((a, b) => a - b),
+      holidays: Array.from(new Set(holidays)).sort(),
     });
   };
 
+  const toggleBusinessDay = (day: number) => {
+    setBusinessDays(prev => 
+      prev.includes(day)
+        ? prev.filter(d => d !== day)
+        : [...prev, day]
+    );
+  };
+
   const toggleService = (serviceName: string) => {
     setSelectedServices(prev => 
       prev.includes(serviceName)
@@ -565,6 +623,152 @@ export function AppConfigDialog({ open, onOpenChange }: AppConfigDialogProps) {
                 </div>
               </div>
 
+              {/* Invoice Reminders */}
+              <div className="space-y-3">
+                <h3 className="font-semibold text-sm">Invoice Reminders</h3>
+
+                <FormField
+                  control={form.control}
+                  name="invoiceRemindersEnabled"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value ?? true}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                          data-testid="checkbox-invoice-reminders-enabled"
+                        />
+                      </FormControl>
+                      <FormLabel className="font-normal">Send automatic payment reminders</FormLabel>
+                    </FormItem>
+                  )}
+                />
+
+                <FormItem>
+                  <FormLabel>Reminder Cadence (days from due date)</FormLabel>
+                  <Input
+                    value={reminderCadence}
+                    onChange={(e) => setReminderCadence(e.target.value)}
+                    placeholder="-3, 0, 7, 14"
+                    data-testid="input-invoice-reminder-cadence"
+                  />
+                  <FormDescription>
+                    Negative numbers send before the due date, 0 on the due date, positive numbers after it
+                  </FormDescription>
+                </FormItem>
+              </div>
+
+              {/* Business Hours */}
+              <div className="space-y-3">
+                <h3 className="font-semibold text-sm">Business Hours & Labour</h3>
+                <FormDescription>
+                  Technician time outside these hours is classed as after-hours; time on a holiday uses the holiday rate
+                </FormDescription>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="businessHoursStart"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Opens</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="time" data-testid="input-business-hours-start" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="businessHoursEnd"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Closes</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="time" data-testid="input-business-hours-end" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="flex flex-wrap gap-3">
+                  {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((label, day) => (
+                    <div key={label} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`business-day-${day}`}
+                        checked={businessDays.includes(day)}
+                        onCheckedChange={() => toggleBusinessDay(day)}
+                        data-testid={`checkbox-business-day-${day}`}
+                      />
+                      <label htmlFor={`business-day-${day}`} className="text-sm font-medium leading-none cursor-pointer">
+                        {label}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="businessTimeZone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Time Zone</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            value={field.value || ''}
+                            placeholder="America/New_York"
+                            data-testid="input-business-time-zone"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="laborCostPerHour"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Labour Cost per Hour</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            value={field.value || ''}
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            placeholder="0.00"
+                            data-testid="input-labor-cost-per-hour"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormItem>
+                  <FormLabel>Holidays</FormLabel>
+                  <Textarea
+                    value={holidayList}
+                    onChange={(e) => setHolidayList(e.target.value)}
+                    placeholder={"2026-12-25\n2027-01-01"}
+                    rows={3}
+                    data-testid="input-holidays"
+                  />
+                  <FormDescription>
+                    One date per line (YYYY-MM-DD). Labour cost is used for job costing, not billing.
+                  </FormDescription>
+                </FormItem>
+              </div>
+
               {/* Frontpage Service Selection */}
               <div className="space-y-3">
                 <h3 className="font-semibold text-sm">Frontpage Services Display</h3>
@@ -0,0 +1,77 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+
+interface AppointmentSlot {
+  startsAt: string;
+  endsAt: string;
+}
+
+interface AppointmentSlotPickerProps {
+  appointmentTypeId: string;
+  date: string; // YYYY-MM-DD
+  onDateChange: (date: string) => void;
+  value: string; // ISO start time of the chosen slot
+  onChange: (startsAt: string) => void;
+}
+
+// Open start times for an appointment type, computed server-side from technicians' scheduled work
+export function AppointmentSlotPicker({ appointmentTypeId, date, onDateChange, value, onChange }: AppointmentSlotPickerProps) {
+  const { data: slots = [], isLoading, isError } = useQuery<AppointmentSlot[]>({
+    queryKey: ['/api/public/appointment-availability', appointmentTypeId, date],
+    queryFn: async () => {
+      const params = new URLSearchParams({ appointmentTypeId, date });
+      const response = await apiRequest('GET', `/api/public/appointment-availability?${params.toString()}`);
+      return response.json();
+    },
+    enabled: !!appointmentTypeId && !!date,
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="appointment-date">Date *</Label>
+        <Input
+          id="appointment-date"
+          type="date"
+          min={format(new Date(), 'yyyy-MM-dd')}
+          value={date}
+          onChange={(e) => {
+            onDateChange(e.target.value);
+            onChange("");
+          }}
+          data-testid="input-appointment-date"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Available Times *</Label>
+        {!appointmentTypeId || !date ? (
+          <p className="text-sm text-muted-foreground">Choose an appointment type and date to see open times.</p>
+        ) : isLoading ? (
+          <p className="text-sm text-muted-foreground">Checking availability...</p>
+        ) : isError ? (
+          <p className="text-sm text-destructive">Couldn't load availability. Please try again.</p>
+        ) : slots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No times are open on this date. Please try another day.</p>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+            {slots.map(slot => (
+              <Button
+                key={slot.startsAt}
+                type="button"
+                variant={value === slot.startsAt ? "default" : "outline"}
+                onClick={() => onChange(slot.startsAt)}
+                data-testid={`button-slot-${slot.startsAt}`}
+              >
+                {format(new Date(slot.startsAt), 'h:mm a')}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { AppointmentType, InsertAppointmentTypeType } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertAppointmentTypeSchema } from "@shared/schema";
+import { Plus, Edit, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+
+const kindLabels: Record<AppointmentType['kind'], string> = {
+  appointment: "Appointment",
+  site_visit: "Site Visit",
+};
+
+const emptyAppointmentType: InsertAppointmentTypeType = {
+  name: '',
+  description: '',
+  kind: 'appointment',
+  durationMinutes: 60,
+  bufferMinutes: 0,
+  isActive: true,
+  displayOrder: 0,
+};
+
+// What the public booking pages offer; slots come from business hours and the dispatch board
+export function AppointmentTypesManager() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingType, setEditingType] = useState<AppointmentType | null>(null);
+
+  const { data: appointmentTypes = [], isLoading } = useQuery<AppointmentType[]>({
+    queryKey: ['/api/appointment-types?includeInactive=true'],
+  });
+
+  const form = useForm<InsertAppointmentTypeType>({
+    resolver: zodResolver(insertAppointmentTypeSchema),
+    defaultValues: emptyAppointmentType,
+  });
+
+  const invalidateTypes = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/appointment-types?includeInactive=true'] });
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingType(null);
+    form.reset(emptyAppointmentType);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: InsertAppointmentTypeType) => {
+      const response = editingType
+        ? await apiRequest('PATCH', `/api/appointment-types/${editingType.id}`, values)
+        : await apiRequest('POST', '/api/appointment-types', values);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateTypes();
+      toast({ title: editingType ? "Appointment type updated" : "Appointment type created" });
+      closeDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save appointment type",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/appointment-types/${id}`);
+    },
+    onSuccess: () => {
+      invalidateTypes();
+      toast({ title: "Appointment type deleted" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete appointment type",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenDialog = (type?: AppointmentType) => {
+    setEditingType(type ?? null);
+    form.reset(type ? {
+      name: type.name,
+      description: type.description || '',
+      kind: type.kind,
+      durationMinutes: type.durationMinutes,
+      bufferMinutes: type.bufferMinutes,
+      isActive: type.isActive,
+      displayOrder: type.displayOrder ?? 0,
+    } : emptyAppointmentType);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm('Are you sure you want to delete this appointment type?')) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-4">
+          <div>
+            <CardTitle>Appointment Types</CardTitle>
+            <CardDescription>
+              Bookable appointments and site visits; open times follow the business hours in the app configuration
+            </CardDescription>
+          </div>
+          <Button onClick={() => handleOpenDialog()} data-testid="button-add-appointment-type">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Appointment Type
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading appointment types...</div>
+          ) : appointmentTypes.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No appointment types yet. Add one to open up online booking.
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Booking Page</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead>Travel Buffer</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {appointmentTypes.map((type) => (
+                    <TableRow key={type.id} data-testid={`row-appointment-type-${type.id}`}>
+                      <TableCell className="font-medium">{type.name}</TableCell>
+                      <TableCell>{kindLabels[type.kind]}</TableCell>
+                      <TableCell>{type.durationMinutes} min</TableCell>
+                      <TableCell>{type.bufferMinutes ? `${type.bufferMinutes} min` : '-'}</TableCell>
+                      <TableCell>
+                        <Badge variant={type.isActive ? "default" : "secondary"}>
+                          {type.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleOpenDialog(type)}
+                            data-testid={`button-edit-appointment-type-${type.id}`}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDelete(type.id)}
+                            data-testid={`button-delete-appointment-type-${type.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-lg" data-testid="dialog-appointment-type">
+          <DialogHeader>
+            <DialogTitle>{editingType ? 'Edit Appointment Type' : 'Add Appointment Type'}</DialogTitle>
+            <DialogDescription>
+              Customers book this from the appointment or site visit page
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="e.g., Initial Consultation" data-testid="input-appointment-type-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} value={field.value || ''} data-testid="textarea-appointment-type-description" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="kind"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Booking Page</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-appointment-type-kind">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="appointment">Schedule an Appointment</SelectItem>
+                        <SelectItem value="site_visit">Schedule a Site Visit</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="durationMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Duration (minutes)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="15"
+                          step="15"
+                          value={field.value}
+                          onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                          data-testid="input-appointment-type-duration"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="bufferMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Travel Buffer (minutes)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="5"
+                          value={field.value}
+                          onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                          data-testid="input-appointment-type-buffer"
+                        />
+                      </FormControl>
+                      <FormDescription>Kept clear before and after</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">Active</FormLabel>
+                      <FormDescription>Offer this type on the public booking page</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        data-testid="switch-appointment-type-active"
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-appointment-type">
+                  {saveMutation.isPending ? 'Saving...' : 'Save'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,90 @@
+import type { FileAttachment } from "@shared/schema";
+import { Paperclip, X } from "lucide-react";
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface AttachmentListProps {
+  attachments: FileAttachment[] | null | undefined;
+  // Share pages serve files through their token instead of the signed-in /objects route
+  hrefFor?: (attachment: FileAttachment) => string;
+  onRemove?: (attachment: FileAttachment) => void;
+}
+
+function RemoveButton({ attachment, onRemove }: { attachment: FileAttachment; onRemove: (attachment: FileAttachment) => void }) {
+  return (
+    <button
+      type="button"
+      onClick={() => onRemove(attachment)}
+      className="rounded-full bg-background text-muted-foreground hover:text-destructive"
+      aria-label={`Remove ${attachment.filename}`}
+      data-testid={`button-remove-attachment-${attachment.objectPath.split('/').pop()}`}
+    >
+      <X className="h-3 w-3" />
+    </button>
+  );
+}
+
+// Image thumbnails and download links for files stored against a comment, task or message
+export function AttachmentList({ attachments, hrefFor = (attachment) => attachment.objectPath, onRemove }: AttachmentListProps) {
+  if (!attachments || attachments.length === 0) {
+    return null;
+  }
+  const images = attachments.filter((attachment) => attachment.contentType.startsWith('image/'));
+  const files = attachments.filter((attachment) => !attachment.contentType.startsWith('image/'));
+
+  return (
+    <div className="space-y-2 mt-2">
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((attachment) => (
+            <div key={attachment.objectPath} className="relative">
+              <a
+                href={hrefFor(attachment)}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={attachment.filename}
+                data-testid={`link-attachment-${attachment.objectPath.split('/').pop()}`}
+              >
+                <img
+                  src={hrefFor(attachment)}
+                  alt={attachment.filename}
+                  loading="lazy"
+                  className="h-20 w-20 rounded-md border object-cover hover:opacity-90"
+                />
+              </a>
+              {onRemove && (
+                <div className="absolute right-1 top-1">
+                  <RemoveButton attachment={attachment} onRemove={onRemove} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {files.length > 0 && (
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {files.map((attachment) => (
+            <div key={attachment.objectPath} className="flex items-center gap-1">
+              <a
+                href={hrefFor(attachment)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 text-xs text-primary hover:underline"
+                data-testid={`link-attachment-${attachment.objectPath.split('/').pop()}`}
+              >
+                <Paperclip className="h-3 w-3" />
+                {attachment.filename}
+                <span className="text-muted-foreground">({formatSize(attachment.size)})</span>
+              </a>
+              {onRemove && <RemoveButton attachment={attachment} onRemove={onRemove} />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
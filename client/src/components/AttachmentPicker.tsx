@@ -0,0 +1,65 @@
+import { useEffect, useRef } from "react";
+import type { AttachmentUpload } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { ObjectUploader } from "@/components/ObjectUploader";
+import { Badge } from "@/components/ui/badge";
+import { Paperclip, X } from "lucide-react";
+
+interface AttachmentPickerProps {
+  value: AttachmentUpload[];
+  onChange: (uploads: AttachmentUpload[]) => void;
+  disabled?: boolean;
+}
+
+// Uploads files straight to object storage; they're attached when the comment or task they're sent with is saved
+export function AttachmentPicker({ value, onChange, disabled = false }: AttachmentPickerProps) {
+  // The uploader keeps its first callbacks, so read the current selection through a ref
+  const latest = useRef({ value, onChange });
+  useEffect(() => {
+    latest.current = { value, onChange };
+  }, [value, onChange]);
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((upload) => (
+            <Badge key={upload.uploadURL} variant="secondary" className="gap-1">
+              <Paperclip className="h-3 w-3" />
+              {upload.filename}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((entry) => entry.uploadURL !== upload.uploadURL))}
+                className="ml-1 rounded-full hover:bg-muted"
+                aria-label={`Remove ${upload.filename}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <ObjectUploader
+        maxNumberOfFiles={10}
+        maxFileSize={25 * 1024 * 1024}
+        buttonVariant="outline"
+        buttonSize="sm"
+        disabled={disabled}
+        onGetUploadParameters={async () => {
+          const response = await apiRequest('POST', '/api/attachments/upload', {});
+          const { uploadURL } = await response.json() as { uploadURL: string };
+          return { method: 'PUT' as const, url: uploadURL };
+        }}
+        onComplete={(result) => {
+          const uploaded = (result.successful ?? [])
+            .filter((file) => !!file.uploadURL)
+            .map((file) => ({ filename: file.name ?? 'file', uploadURL: file.uploadURL! }));
+          latest.current.onChange([...latest.current.value, ...uploaded]);
+        }}
+      >
+        <Paperclip className="h-4 w-4 mr-2" />
+        Attach Files
+      </ObjectUploader>
+    </div>
+  );
+}
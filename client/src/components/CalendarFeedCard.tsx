@@ -0,0 +1,137 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CalendarPlus, Copy, RefreshCw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface CalendarFeed {
+  active: boolean;
+  url: string | null; // Only returned when the link is issued; the server keeps just a hash
+  createdAt?: string;
+  lastAccessedAt?: string | null;
+}
+
+// The signed-in user's secret ICS subscription URL for phone and desktop calendar apps
+export function CalendarFeedCard() {
+  const { toast } = useToast();
+
+  const { data: feed, isLoading } = useQuery<CalendarFeed>({
+    queryKey: ['/api/calendar-feed'],
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/calendar-feed');
+      return response.json();
+    },
+    onSuccess: (data: CalendarFeed) => {
+      queryClient.setQueryData(['/api/calendar-feed'], data);
+      if (data.url) navigator.clipboard.writeText(data.url);
+      toast({ title: "Calendar link copied to clipboard" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to create calendar link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', '/api/calendar-feed');
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(['/api/calendar-feed'], { active: false, url: null });
+      toast({ title: "Calendar link turned off" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to turn off calendar link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyUrl = () => {
+    if (!feed?.url) return;
+    navigator.clipboard.writeText(feed.url);
+    toast({ title: "Calendar link copied to clipboard" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarPlus className="w-5 h-5 text-primary" />
+          Calendar Sync
+        </CardTitle>
+        <CardDescription>
+          Subscribe from Google, Outlook or Apple Calendar to see your bookings, due dates and appointments
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : feed?.active ? (
+          <>
+            {feed.url ? (
+              <div className="flex gap-2">
+                <Input value={feed.url} readOnly className="font-mono text-xs" data-testid="input-calendar-feed-url" />
+                <Button variant="outline" size="icon" onClick={copyUrl} data-testid="button-copy-calendar-feed">
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm">
+                Your calendar link is on. It is only shown when it is created, so get a new link if you need to copy it again.
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Anyone with this link can see your schedule.
+              {feed.lastAccessedAt
+                ? ` Last synced ${formatDistanceToNow(new Date(feed.lastAccessedAt), { addSuffix: true })}.`
+                : ' Not synced yet.'}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {feed.url && (
+                <Button variant="outline" size="sm" asChild>
+                  <a href={feed.url.replace(/^https?:/, 'webcal:')} data-testid="link-subscribe-calendar">Open in Calendar App</a>
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => resetMutation.mutate()}
+                disabled={resetMutation.isPending}
+                data-testid="button-reset-calendar-feed"
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                New Link
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-destructive"
+                onClick={() => revokeMutation.mutate()}
+                disabled={revokeMutation.isPending}
+                data-testid="button-revoke-calendar-feed"
+              >
+                Turn Off
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button onClick={() => resetMutation.mutate()} disabled={resetMutation.isPending} data-testid="button-create-calendar-feed">
+            {resetMutation.isPending ? 'Creating...' : 'Get Calendar Link'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
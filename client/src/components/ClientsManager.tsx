@@ -37,6 +37,7 @@ import { ClientDialog } from "@/components/ClientDialog";
 import { useAuth } from "@/hooks/useAuth";
 import { hasPermission } from "@shared/permissions";
 import type { User } from "@shared/schema";
+import { type SerializedUnitDetail, WarrantyLabel } from "@/components/SerialNumbersPanel";
 
 export default function ClientsManager() {
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
@@ -55,6 +56,12 @@ export default function ClientsManager() {
     queryKey: ["/api/clients"],
   });
 
+  // Serialised units installed at the selected client's sites
+  const { data: clientEquipment = [] } = useQuery<SerializedUnitDetail[]>({
+    queryKey: ["/api/clients", selectedClient?.id, "equipment"],
+    enabled: !!selectedClient,
+  });
+
   const createClientMutation = useMutation({
     mutationFn: (clientData: any) => apiRequest("POST", "/api/clients", clientData),
     onSuccess: () => {
@@ -389,6 +396,22 @@ export default function ClientsManager() {
                                 </div>
                               )}
 
+                              {clientEquipment.length > 0 && (
+                                <div>
+                                  <label className="text-sm font-medium text-muted-foreground">Installed Equipment &amp; Warranties</label>
+                                  <div className="mt-1 space-y-1" data-testid="list-client-equipment">
+                                    {clientEquipment.map(unit => (
+                                      <div key={unit.id} className="flex items-center justify-between gap-2 text-sm">
+                                        <span>
+                                          {unit.itemName} <span className="font-mono text-xs text-muted-foreground">{unit.serialNumber}</span>
+                                        </span>
+                                        <WarrantyLabel warrantyEndsAt={unit.warrantyEndsAt} />
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
+                              )}
+
                               <div className="pt-4 border-t">
                                 <div className="grid grid-cols-2 gap-4 text-sm text-muted-foreground">
                                   <div>
@@ -0,0 +1,276 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Plus, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency";
+import type { Quote, Invoice, ConvertQuoteToInvoiceType } from "@shared/schema";
+
+interface ConvertQuoteToInvoiceDialogProps {
+  quote: Quote;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ConversionMode = ConvertQuoteToInvoiceType['mode'];
+
+interface InstallmentRow {
+  percentage: string;
+  label: string;
+  dueDate: string;
+}
+
+const defaultSchedule: InstallmentRow[] = [
+  { percentage: '50', label: '', dueDate: '' },
+  { percentage: '50', label: '', dueDate: '' },
+];
+
+export function ConvertQuoteToInvoiceDialog({ quote, isOpen, onClose }: ConvertQuoteToInvoiceDialogProps) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<ConversionMode>('full');
+  const [depositPercentage, setDepositPercentage] = useState('50');
+  const [dueDate, setDueDate] = useState('');
+  const [installments, setInstallments] = useState<InstallmentRow[]>(defaultSchedule);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode('full');
+      setDepositPercentage('50');
+      setDueDate('');
+      setInstallments(defaultSchedule);
+    }
+  }, [isOpen]);
+
+  const { data: quoteInvoices = [] } = useQuery<Invoice[]>({
+    queryKey: ['/api/quotes', quote.id, 'invoices'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/quotes/${quote.id}/invoices`);
+      return response.json();
+    },
+    enabled: isOpen,
+  });
+
+  const quoteTotal = parseFloat(quote.total);
+  const billedTotal = quoteInvoices
+    .filter(invoice => invoice.status !== 'cancelled')
+    .reduce((sum, invoice) => sum + parseFloat(invoice.total), 0);
+  const remaining = Math.max(0, quoteTotal - billedTotal);
+  const scheduleTotal = installments.reduce((sum, row) => sum + (parseFloat(row.percentage) || 0), 0);
+
+  const convertMutation = useMutation({
+    mutationFn: async (data: ConvertQuoteToInvoiceType) => {
+      const response = await apiRequest('POST', `/api/quotes/${quote.id}/invoices`, data);
+      return response.json();
+    },
+    onSuccess: (created: Invoice[]) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes', quote.id, 'invoices'] });
+      toast({
+        title: created.length === 1 ? "Invoice created" : `${created.length} invoices created`,
+        description: created.map(invoice => invoice.invoiceNumber).join(', '),
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to create invoice",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    if (mode === 'full') {
+      convertMutation.mutate({ mode, dueDate: dueDate || undefined });
+    } else if (mode === 'deposit') {
+      convertMutation.mutate({ mode, percentage: parseFloat(depositPercentage), dueDate: dueDate || undefined });
+    } else {
+      convertMutation.mutate({
+        mode,
+        installments: installments.map(row => ({
+          percentage: parseFloat(row.percentage),
+          label: row.label || undefined,
+          dueDate: row.dueDate || undefined,
+        })),
+      });
+    }
+  };
+
+  const updateInstallment = (index: number, field: keyof InstallmentRow, value: string) => {
+    setInstallments(rows => rows.map((row, i) => i === index ? { ...row, [field]: value } : row));
+  };
+
+  const requestedAmount = mode === 'full'
+    ? quoteTotal
+    : mode === 'deposit'
+      ? quoteTotal * (parseFloat(depositPercentage) || 0) / 100
+      : quoteTotal * scheduleTotal / 100;
+  const exceedsRemaining = requestedAmount - remaining > 0.005;
+  const isScheduleInvalid = mode === 'schedule' && Math.abs(scheduleTotal - 100) > 0.001;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px]" data-testid="dialog-convert-quote">
+        <DialogHeader>
+          <DialogTitle>Create Invoice from Quote {quote.quoteNumber}</DialogTitle>
+          <DialogDescription>
+            Items, tax rate, terms and the lead/client are carried over from the quote.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-3 gap-4 p-4 bg-muted/50 rounded-lg text-sm">
+            <div>
+              <p className="text-muted-foreground">Quote Total</p>
+              <p className="font-medium">{formatCurrency(quoteTotal)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Already Invoiced</p>
+              <p className="font-medium">{formatCurrency(billedTotal)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Remaining</p>
+              <p className="font-medium text-primary" data-testid="text-remaining-to-bill">{formatCurrency(remaining)}</p>
+            </div>
+          </div>
+
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as ConversionMode)} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="full" id="mode-full" data-testid="radio-mode-full" />
+              <Label htmlFor="mode-full">Full amount</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="deposit" id="mode-deposit" data-testid="radio-mode-deposit" />
+              <Label htmlFor="mode-deposit">Deposit percentage</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="schedule" id="mode-schedule" data-testid="radio-mode-schedule" />
+              <Label htmlFor="mode-schedule">Progress billing schedule</Label>
+            </div>
+          </RadioGroup>
+
+          {mode === 'deposit' && (
+            <div className="space-y-2">
+              <Label htmlFor="deposit-percentage">Deposit (%)</Label>
+              <Input
+                id="deposit-percentage"
+                type="number"
+                min="1"
+                max="100"
+                step="0.01"
+                value={depositPercentage}
+                onChange={(e) => setDepositPercentage(e.target.value)}
+                data-testid="input-deposit-percentage"
+              />
+              <p className="text-sm text-muted-foreground">
+                {formatCurrency(requestedAmount)} of {formatCurrency(quoteTotal)}
+              </p>
+            </div>
+          )}
+
+          {(mode === 'full' || mode === 'deposit') && (
+            <div className="space-y-2">
+              <Label htmlFor="invoice-due-date">Due Date (Optional)</Label>
+              <Input
+                id="invoice-due-date"
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                data-testid="input-convert-duedate"
+              />
+            </div>
+          )}
+
+          {mode === 'schedule' && (
+            <div className="space-y-3">
+              {installments.map((row, index) => (
+                <div key={index} className="grid grid-cols-[90px_1fr_150px_auto] gap-2 items-end">
+                  <div className="space-y-1">
+                    {index === 0 && <Label className="text-xs">Percent</Label>}
+                    <Input
+                      type="number"
+                      min="1"
+                      max="100"
+                      step="0.01"
+                      value={row.percentage}
+                      onChange={(e) => updateInstallment(index, 'percentage', e.target.value)}
+                      data-testid={`input-installment-percentage-${index}`}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    {index === 0 && <Label className="text-xs">Label (Optional)</Label>}
+                    <Input
+                      value={row.label}
+                      placeholder={`Progress billing ${index + 1}`}
+                      onChange={(e) => updateInstallment(index, 'label', e.target.value)}
+                      data-testid={`input-installment-label-${index}`}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    {index === 0 && <Label className="text-xs">Due Date</Label>}
+                    <Input
+                      type="date"
+                      value={row.dueDate}
+                      onChange={(e) => updateInstallment(index, 'dueDate', e.target.value)}
+                      data-testid={`input-installment-duedate-${index}`}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={installments.length <= 2}
+                    onClick={() => setInstallments(rows => rows.filter((_, i) => i !== index))}
+                    data-testid={`button-remove-installment-${index}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setInstallments(rows => [...rows, { percentage: '', label: '', dueDate: '' }])}
+                  data-testid="button-add-installment"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Installment
+                </Button>
+                <span className={isScheduleInvalid ? "text-sm text-destructive" : "text-sm text-muted-foreground"}>
+                  Total: {scheduleTotal}%
+                </span>
+              </div>
+            </div>
+          )}
+
+          {exceedsRemaining && (
+            <p className="text-sm text-destructive" data-testid="text-overbill-warning">
+              This would bill more than the remaining {formatCurrency(remaining)} on the quote.
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={convertMutation.isPending || exceedsRemaining || isScheduleInvalid}
+              data-testid="button-confirm-convert"
+            >
+              {convertMutation.isPending ? 'Creating...' : mode === 'schedule' ? 'Create Invoices' : 'Create Invoice'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,572 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle, ChevronLeft, ChevronRight, GripVertical } from "lucide-react";
+import { addDays, addHours, differenceInMinutes, format, isSameDay, setHours, startOfDay, startOfWeek } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export type DispatchJobKind = 'project' | 'task' | 'ticket' | 'appointment';
+
+export interface DispatchAssignmentDetail {
+  id: string;
+  technicianId: string;
+  projectId: string | null;
+  taskId: string | null;
+  ticketId: string | null;
+  appointmentId: string | null;
+  startsAt: string;
+  endsAt: string;
+  notes: string | null;
+  kind: DispatchJobKind;
+  reference: string;
+  title: string;
+  status: string | null;
+  address: string | null;
+  hasConflict: boolean;
+}
+
+interface DispatchJob {
+  kind: DispatchJobKind;
+  id: string;
+  reference: string;
+  title: string;
+  status: string | null;
+  assignedToId: string | null;
+  dueDate: string | null;
+}
+
+// A dated project or task not yet booked on the board; it holds the technician for that day
+interface DispatchDatedWork {
+  kind: 'project' | 'task';
+  id: string;
+  reference: string;
+  title: string;
+  status: string | null;
+  technicianId: string;
+  startsAt: string;
+  endsAt: string;
+}
+
+type DispatchConflict = Pick<DispatchAssignmentDetail, 'id' | 'kind' | 'reference' | 'title' | 'startsAt' | 'endsAt'>;
+
+interface DispatchBoardData {
+  technicians: { id: string; name: string | null }[];
+  assignments: DispatchAssignmentDetail[];
+  datedWork: DispatchDatedWork[];
+  unscheduled: DispatchJob[];
+}
+
+// What is being dragged: a job from the unscheduled list or an existing booking
+type DragPayload =
+  | { type: 'job'; kind: DispatchJobKind; id: string }
+  | { type: 'assignment'; id: string };
+
+type PendingBooking =
+  | { method: 'POST'; body: Record<string, unknown>; conflicts: DispatchConflict[] }
+  | { method: 'PATCH'; id: string; body: Record<string, unknown>; conflicts: DispatchConflict[] };
+
+export const jobKindLabels: Record<DispatchJobKind, string> = {
+  project: "Project",
+  task: "Task",
+  ticket: "Ticket",
+  appointment: "Appointment",
+};
+
+export const jobKindColors: Record<DispatchJobKind, string> = {
+  project: "bg-blue-100 text-blue-900 border-blue-300 dark:bg-blue-950 dark:text-blue-100 dark:border-blue-800",
+  task: "bg-amber-100 text-amber-900 border-amber-300 dark:bg-amber-950 dark:text-amber-100 dark:border-amber-800",
+  ticket: "bg-purple-100 text-purple-900 border-purple-300 dark:bg-purple-950 dark:text-purple-100 dark:border-purple-800",
+  appointment: "bg-emerald-100 text-emerald-900 border-emerald-300 dark:bg-emerald-950 dark:text-emerald-100 dark:border-emerald-800",
+};
+
+const DAY_START_HOUR = 7;
+const DAY_END_HOUR = 19;
+const WORKDAY_START_HOUR = 8;
+// Default length of a new booking dropped on the board
+const defaultDurationHours: Record<DispatchJobKind, number> = { project: 8, task: 2, ticket: 2, appointment: 1 };
+
+const toLocalInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export function DispatchBoard() {
+  const { toast } = useToast();
+  const [view, setView] = useState<'week' | 'day'>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [kindFilter, setKindFilter] = useState<'all' | DispatchJobKind>('all');
+  const [pendingBooking, setPendingBooking] = useState<PendingBooking | null>(null);
+  const [editing, setEditing] = useState<DispatchAssignmentDetail | null>(null);
+  const [editForm, setEditForm] = useState({ startsAt: "", endsAt: "", notes: "" });
+
+  const rangeStart = view === 'week' ? startOfWeek(anchor, { weekStartsOn: 1 }) : startOfDay(anchor);
+  const rangeEnd = addDays(rangeStart, view === 'week' ? 7 : 1);
+  const days = Array.from({ length: 7 }, (_, i) => addDays(rangeStart, i));
+  const hours = Array.from({ length: DAY_END_HOUR - DAY_START_HOUR }, (_, i) => DAY_START_HOUR + i);
+
+  const { data: board, isLoading } = useQuery<DispatchBoardData>({
+    queryKey: ['/api/dispatch/board', rangeStart.toISOString(), rangeEnd.toISOString()],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: rangeStart.toISOString(), to: rangeEnd.toISOString() });
+      const response = await apiRequest('GET', `/api/dispatch/board?${params.toString()}`);
+      return response.json();
+    },
+  });
+
+  const technicians = board?.technicians ?? [];
+  const assignments = board?.assignments ?? [];
+  const datedWork = board?.datedWork ?? [];
+  const unscheduled = (board?.unscheduled ?? []).filter(job => kindFilter === 'all' || job.kind === kindFilter);
+
+  const invalidateBoard = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/dispatch/board'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+  };
+
+  const bookingMutation = useMutation({
+    mutationFn: async (booking: { method: 'POST' | 'PATCH'; id?: string; body: Record<string, unknown> }) => {
+      const url = booking.method === 'POST' ? '/api/dispatch/assignments' : `/api/dispatch/assignments/${booking.id}`;
+      const response = await apiRequest(booking.method, url, booking.body);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateBoard();
+      setPendingBooking(null);
+      setEditing(null);
+      toast({ title: "Schedule updated" });
+    },
+    onError: (error: any, booking) => {
+      // Double-booking: show what it clashes with and let the dispatcher decide
+      if (error.message.startsWith("409")) {
+        try {
+          const { conflicts } = JSON.parse(error.message.slice(error.message.indexOf(':') + 1));
+          if (Array.isArray(conflicts)) {
+            setPendingBooking(booking.method === 'POST'
+              ? { method: 'POST', body: booking.body, conflicts }
+              : { method: 'PATCH', id: booking.id!, body: booking.body, conflicts });
+            return;
+          }
+        } catch {
+          // Fall through to the generic error toast
+        }
+      }
+      toast({
+        title: "Failed to update schedule",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/dispatch/assignments/${id}`);
+    },
+    onSuccess: () => {
+      invalidateBoard();
+      setEditing(null);
+      toast({ title: "Booking removed" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to remove booking",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDrop = (event: React.DragEvent, technicianId: string, slotStart: Date) => {
+    event.preventDefault();
+    let payload: DragPayload;
+    try {
+      payload = JSON.parse(event.dataTransfer.getData('application/json'));
+    } catch {
+      return;
+    }
+
+    if (payload.type === 'job') {
+      const startsAt = view === 'week' ? setHours(slotStart, WORKDAY_START_HOUR) : slotStart;
+      const endsAt = addHours(startsAt, view === 'week' ? defaultDurationHours[payload.kind] : 2);
+      bookingMutation.mutate({
+        method: 'POST',
+        body: {
+          technicianId,
+          [`${payload.kind}Id`]: payload.id,
+          startsAt: startsAt.toISOString(),
+          endsAt: endsAt.toISOString(),
+        },
+      });
+      return;
+    }
+
+    const assignment = assignments.find(a => a.id === payload.id);
+    if (!assignment) return;
+    const currentStart = new Date(assignment.startsAt);
+    const durationMinutes = differenceInMinutes(new Date(assignment.endsAt), currentStart);
+    // The week view moves the booking to another day at the same time; the day view snaps to the hour
+    const startsAt = view === 'week'
+      ? new Date(slotStart.getFullYear(), slotStart.getMonth(), slotStart.getDate(), currentStart.getHours(), currentStart.getMinutes())
+      : slotStart;
+    if (assignment.technicianId === technicianId && startsAt.getTime() === currentStart.getTime()) return;
+    bookingMutation.mutate({
+      method: 'PATCH',
+      id: assignment.id,
+      body: {
+        technicianId,
+        startsAt: startsAt.toISOString(),
+        endsAt: new Date(startsAt.getTime() + durationMinutes * 60000).toISOString(),
+      },
+    });
+  };
+
+  const startDrag = (event: React.DragEvent, payload: DragPayload) => {
+    event.dataTransfer.setData('application/json', JSON.stringify(payload));
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
+  const openEdit = (assignment: DispatchAssignmentDetail) => {
+    setEditForm({
+      startsAt: toLocalInput(new Date(assignment.startsAt)),
+      endsAt: toLocalInput(new Date(assignment.endsAt)),
+      notes: assignment.notes || "",
+    });
+    setEditing(assignment);
+  };
+
+  const shiftRange = (direction: 1 | -1) => setAnchor(prev => addDays(prev, direction * (view === 'week' ? 7 : 1)));
+
+  const renderBlock = (assignment: DispatchAssignmentDetail, style?: React.CSSProperties) => (
+    <div
+      key={assignment.id}
+      draggable
+      onDragStart={(e) => startDrag(e, { type: 'assignment', id: assignment.id })}
+      onClick={() => openEdit(assignment)}
+      style={style}
+      className={`rounded border px-2 py-1 text-xs cursor-grab overflow-hidden ${jobKindColors[assignment.kind]} ${assignment.hasConflict ? 'ring-2 ring-destructive' : ''}`}
+      title={`${assignment.reference} - ${assignment.title}`}
+      data-testid={`dispatch-block-${assignment.id}`}
+    >
+      <div className="flex items-center gap-1 font-medium truncate">
+        {assignment.hasConflict && <AlertTriangle className="w-3 h-3 text-destructive shrink-0" />}
+        <span className="truncate">{assignment.reference}</span>
+      </div>
+      <div className="truncate">{assignment.title}</div>
+      <div className="opacity-75">
+        {format(new Date(assignment.startsAt), 'HH:mm')}-{format(new Date(assignment.endsAt), 'HH:mm')}
+      </div>
+    </div>
+  );
+
+  // Dated work isn't a booking, so it can't be dragged or edited here; booking the job replaces it
+  const renderDatedWork = (work: DispatchDatedWork) => (
+    <div
+      key={`${work.kind}-${work.id}`}
+      className={`rounded border border-dashed px-2 py-1 text-xs overflow-hidden opacity-80 ${jobKindColors[work.kind]}`}
+      title={`${jobKindLabels[work.kind]} ${work.reference} - ${work.title} (dated, not booked)`}
+      data-testid={`dispatch-dated-${work.kind}-${work.id}`}
+    >
+      <div className="font-medium truncate">{work.reference}</div>
+      <div className="truncate">{work.title}</div>
+      <div className="opacity-75">{work.kind === 'project' ? 'Starts' : 'Due'} this day</div>
+    </div>
+  );
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[260px_1fr]">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Unscheduled</CardTitle>
+          <CardDescription>Drag a job onto a technician</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Select value={kindFilter} onValueChange={(value) => setKindFilter(value as typeof kindFilter)}>
+            <SelectTrigger data-testid="select-dispatch-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Jobs</SelectItem>
+              <SelectItem value="project">Projects</SelectItem>
+              <SelectItem value="task">Tasks</SelectItem>
+              <SelectItem value="ticket">Tickets</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="space-y-2 max-h-[600px] overflow-y-auto">
+            {unscheduled.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Everything is booked.</p>
+            ) : (
+              unscheduled.map(job => (
+                <div
+                  key={`${job.kind}-${job.id}`}
+                  draggable
+                  onDragStart={(e) => startDrag(e, { type: 'job', kind: job.kind, id: job.id })}
+                  className={`flex items-start gap-2 rounded-md border p-2 cursor-grab ${jobKindColors[job.kind]}`}
+                  data-testid={`dispatch-job-${job.kind}-${job.id}`}
+                >
+                  <GripVertical className="w-4 h-4 mt-0.5 shrink-0 opacity-50" />
+                  <div className="min-w-0">
+                    <p className="text-xs font-mono">{jobKindLabels[job.kind]} {job.reference}</p>
+                    <p className="text-sm font-medium truncate">{job.title}</p>
+                    {job.dueDate && (
+                      <p className="text-xs opacity-75">Due {format(new Date(job.dueDate), 'MMM d')}</p>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="min-w-0">
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+          <div>
+            <CardTitle>Dispatch Board</CardTitle>
+            <CardDescription>
+              {view === 'week'
+                ? `${format(rangeStart, 'MMM d')} - ${format(addDays(rangeEnd, -1), 'MMM d, yyyy')}`
+                : format(rangeStart, 'EEEE, MMM d, yyyy')}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={view} onValueChange={(value) => setView(value as 'week' | 'day')}>
+              <SelectTrigger className="w-[110px]" data-testid="select-dispatch-view">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="week">Week</SelectItem>
+                <SelectItem value="day">Day</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={() => shiftRange(-1)} data-testid="button-dispatch-prev">
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" onClick={() => setAnchor(new Date())} data-testid="button-dispatch-today">
+              Today
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => shiftRange(1)} data-testid="button-dispatch-next">
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading schedule...</p>
+          ) : technicians.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No technicians to schedule.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <div className="min-w-[900px] border rounded-lg">
+                {/* Column headings */}
+                <div className="flex border-b bg-muted/50 text-xs font-medium">
+                  <div className="w-40 shrink-0 p-2">Technician</div>
+                  {view === 'week'
+                    ? days.map(day => (
+                      <div key={day.toISOString()} className={`flex-1 p-2 border-l ${isSameDay(day, new Date()) ? 'text-primary' : ''}`}>
+                        {format(day, 'EEE d')}
+                      </div>
+                    ))
+                    : hours.map(hour => (
+                      <div key={hour} className="flex-1 p-2 border-l">{String(hour).padStart(2, '0')}:00</div>
+                    ))}
+                </div>
+
+                {technicians.map(technician => {
+                  const technicianAssignments = assignments.filter(a => a.technicianId === technician.id);
+                  const technicianDatedWork = datedWork.filter(work => work.technicianId === technician.id);
+                  const dayStart = setHours(startOfDay(rangeStart), DAY_START_HOUR);
+                  const spanMinutes = (DAY_END_HOUR - DAY_START_HOUR) * 60;
+                  return (
+                    <div key={technician.id} className="flex border-b last:border-b-0 min-h-[88px]" data-testid={`dispatch-row-${technician.id}`}>
+                      <div className="w-40 shrink-0 p-2 text-sm font-medium space-y-1">
+                        <div>{technician.name}</div>
+                        {/* The day view's timeline is for bookings; dated work for the day sits under the name */}
+                        {view === 'day' && technicianDatedWork.map(work => renderDatedWork(work))}
+                      </div>
+                      {view === 'week' ? (
+                        days.map(day => (
+                          <div
+                            key={day.toISOString()}
+                            className="flex-1 border-l p-1 space-y-1 min-w-0"
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={(e) => handleDrop(e, technician.id, day)}
+                          >
+                            {technicianDatedWork
+                              .filter(work => isSameDay(new Date(work.startsAt), day))
+                              .map(work => renderDatedWork(work))}
+                            {technicianAssignments
+                              .filter(a => isSameDay(new Date(a.startsAt), day))
+                              .map(a => renderBlock(a))}
+                          </div>
+                        ))
+                      ) : (
+                        <div className="flex-1 relative">
+                          <div className="absolute inset-0 flex">
+                            {hours.map(hour => (
+                              <div
+                                key={hour}
+                                className="flex-1 border-l"
+                                onDragOver={(e) => e.preventDefault()}
+                                onDrop={(e) => handleDrop(e, technician.id, setHours(startOfDay(rangeStart), hour))}
+                              />
+                            ))}
+                          </div>
+                          {technicianAssignments.map(a => {
+                            // Clamp to the visible hours so early or late bookings still show
+                            const offset = Math.max(0, differenceInMinutes(new Date(a.startsAt), dayStart));
+                            const end = Math.min(spanMinutes, differenceInMinutes(new Date(a.endsAt), dayStart));
+                            return renderBlock(a, {
+                              position: 'absolute',
+                              top: 4,
+                              bottom: 4,
+                              left: `${(offset / spanMinutes) * 100}%`,
+                              width: `${(Math.max(end - offset, 30) / spanMinutes) * 100}%`,
+                            });
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Double-booking confirmation */}
+      <AlertDialog open={!!pendingBooking} onOpenChange={(open) => !open && setPendingBooking(null)}>
+        <AlertDialogContent data-testid="dialog-dispatch-conflict">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Technician already booked</AlertDialogTitle>
+            <AlertDialogDescription>This booking overlaps:</AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            {pendingBooking?.conflicts.map(conflict => (
+              <div key={`${conflict.kind}-${conflict.id}`} className="rounded-md border p-2 text-sm">
+                <p className="font-medium">{conflict.reference} - {conflict.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(conflict.startsAt), 'MMM d, HH:mm')} - {format(new Date(conflict.endsAt), 'HH:mm')}
+                </p>
+              </div>
+            ))}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingBooking && bookingMutation.mutate({
+                method: pendingBooking.method,
+                id: pendingBooking.method === 'PATCH' ? pendingBooking.id : undefined,
+                body: { ...pendingBooking.body, force: true },
+              })}
+              data-testid="button-confirm-double-book"
+            >
+              Double-book
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Edit Booking Dialog */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent data-testid="dialog-edit-dispatch">
+          <DialogHeader>
+            <DialogTitle>{editing && jobKindLabels[editing.kind]} {editing?.reference}</DialogTitle>
+            <DialogDescription>
+              {editing?.title}
+              {editing?.address && <span className="block">{editing.address}</span>}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {editing?.hasConflict && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertTriangle className="w-4 h-4" />
+                Overlaps another booking or dated job for this technician
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="dispatch-starts-at">Start</Label>
+                <Input
+                  id="dispatch-starts-at"
+                  type="datetime-local"
+                  value={editForm.startsAt}
+                  onChange={(e) => setEditForm({ ...editForm, startsAt: e.target.value })}
+                  data-testid="input-dispatch-starts-at"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="dispatch-ends-at">End</Label>
+                <Input
+                  id="dispatch-ends-at"
+                  type="datetime-local"
+                  value={editForm.endsAt}
+                  onChange={(e) => setEditForm({ ...editForm, endsAt: e.target.value })}
+                  data-testid="input-dispatch-ends-at"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dispatch-notes">Notes for the technician</Label>
+              <Textarea
+                id="dispatch-notes"
+                value={editForm.notes}
+                onChange={(e) => setEditForm({ ...editForm, notes: e.target.value })}
+                rows={3}
+                data-testid="input-dispatch-notes"
+              />
+            </div>
+            {editing?.status && <Badge variant="outline">{editing.status.replace('_', ' ')}</Badge>}
+          </div>
+          <div className="flex justify-between gap-2">
+            <Button
+              variant="outline"
+              className="text-destructive"
+              onClick={() => editing && deleteMutation.mutate(editing.id)}
+              disabled={deleteMutation.isPending}
+              data-testid="button-remove-dispatch"
+            >
+              {editing?.kind === 'appointment' ? 'Cancel Appointment' : 'Remove'}
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => editing && bookingMutation.mutate({
+                  method: 'PATCH',
+                  id: editing.id,
+                  body: {
+                    startsAt: new Date(editForm.startsAt).toISOString(),
+                    endsAt: new Date(editForm.endsAt).toISOString(),
+                    notes: editForm.notes || null,
+                  },
+                })}
+                disabled={bookingMutation.isPending || !editForm.startsAt || !editForm.endsAt}
+                data-testid="button-save-dispatch"
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -18,7 +18,7 @@ import { Download, FileText, Image as ImageIcon } from "lucide-react";
 import { type Lead, type Client, type SystemConfig, type ServiceType, type User } from "@shared/schema";
 import { FlyerTemplate } from "./FlyerTemplate";
 import { useToast } from "@/hooks/use-toast";
-import jsPDF from "jspdf";
+import { downloadPDF } from "@/lib/exportUtils";
 import html2canvas from "html2canvas";
 
 export default function FlyerBuilder() {
@@ -70,45 +70,29 @@ export default function FlyerBuilder() {
   };
 
   const handleDownloadPDF = async () => {
-    if (!flyerRef.current || !selectedRecipient) return;
+    if (!selectedRecipient) return;
 
     setIsGenerating(true);
     try {
-      const canvas = await html2canvas(flyerRef.current, {
-        scale: 2,
-        useCORS: true,
-        logging: false,
-        backgroundColor: '#ffffff'
-      });
-
-      const imgData = canvas.toDataURL('image/png');
-      const pdf = new jsPDF({
-        orientation: 'portrait',
-        unit: 'mm',
-        format: 'a4'
-      });
-
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = pdf.internal.pageSize.getHeight();
-      const imgWidth = canvas.width;
-      const imgHeight = canvas.height;
-      const ratio = Math.min(pdfWidth / imgWidth, pdfHeight / imgHeight);
-      const imgX = (pdfWidth - imgWidth * ratio) / 2;
-      const imgY = 0;
-
-      pdf.addImage(imgData, 'PNG', imgX, imgY, imgWidth * ratio, imgHeight * ratio);
       const recipientName = selectedRecipient.name || selectedRecipient.company || 'Client';
-      pdf.save(`${systemConfig?.companyName || 'FibreUS'}-Flyer-${recipientName.replace(/\s+/g, '-')}.pdf`);
+      await downloadPDF('/api/flyers/pdf', `${systemConfig?.companyName || 'FibreUS'}-Flyer-${recipientName.replace(/\s+/g, '-')}.pdf`, {
+        leadId: recipientType === "lead" ? selectedLeadId : undefined,
+        clientId: recipientType === "client" ? selectedClientId : undefined,
+        services: selectedServices,
+        salesPersonId: selectedSalesPersonId || undefined,
+        personalizedMessage: personalizedMessage || undefined,
+        showPricing,
+      });
 
       toast({
         title: "PDF Downloaded",
         description: "Your flyer has been downloaded as PDF successfully.",
       });
     } catch (error) {
-      console.error('PDF generation error:', error);
+      console.error('PDF download error:', error);
       toast({
         title: "Error",
-        description: "Failed to generate PDF. Please try again.",
+        description: "Failed to download PDF. Please try again.",
         variant: "destructive"
       });
     } finally {
@@ -160,7 +144,7 @@ export default function FlyerBuilder() {
 
   return (
     <div className="space-y-6">
-      {/* Hidden flyer for PDF/PNG generation (not scaled) */}
+      {/* Hidden flyer for PNG generation (not scaled) */}
       {selectedRecipient && selectedServices.length > 0 && (
         <div className="fixed -left-[9999px] top-0">
           <FlyerTemplate
@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { FileAttachment, InboundEmail, Project, Ticket } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { Ticket as TicketIcon, X } from "lucide-react";
+import { AttachmentList } from "@/components/AttachmentList";
+
+type InboundEmailDetail = InboundEmail & {
+  ticketNumber: string | null;
+  leadName: string | null;
+  handledByName: string | null;
+};
+
+type InboundEmailStatus = InboundEmail['status'];
+
+const statusLabels: Record<InboundEmailStatus, string> = {
+  unmatched: 'Needs triage',
+  threaded: 'Added to ticket',
+  converted: 'Ticket opened',
+  lead_created: 'New lead',
+  lead_updated: 'Added to lead',
+  ignored: 'Ignored',
+};
+
+const statusVariants: Record<InboundEmailStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  unmatched: 'destructive',
+  threaded: 'default',
+  converted: 'default',
+  lead_created: 'secondary',
+  lead_updated: 'secondary',
+  ignored: 'outline',
+};
+
+function outcomeOf(email: InboundEmailDetail): string {
+  if (email.ticketNumber && (email.status === 'threaded' || email.status === 'converted')) {
+    return `Ticket #${email.ticketNumber}`;
+  }
+  if (email.leadName) return email.leadName;
+  return email.statusReason || '—';
+}
+
+// Everything the mail gateway received; unmatched messages are opened as tickets or dismissed here
+export function InboundEmailsManager({ canManage }: { canManage: boolean }) {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<InboundEmailStatus | 'all'>('unmatched');
+  const [converting, setConverting] = useState<InboundEmailDetail | null>(null);
+  const [projectId, setProjectId] = useState('');
+  const [priority, setPriority] = useState<NonNullable<Ticket["priority"]>>('medium');
+
+  const { data: emails = [], isLoading } = useQuery<InboundEmailDetail[]>({
+    queryKey: [statusFilter === 'all' ? '/api/inbound-emails' : `/api/inbound-emails?status=${statusFilter}`],
+  });
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ['/api/projects'],
+    enabled: !!converting,
+  });
+
+  const invalidateEmails = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/inbound-emails'),
+    });
+  };
+
+  const closeDialog = () => {
+    setConverting(null);
+    setProjectId('');
+    setPriority('medium');
+  };
+
+  const convertMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/inbound-emails/${converting!.id}/ticket`, { projectId, priority });
+      return response.json();
+    },
+    onSuccess: (result: { ticket: { ticketNumber: string } }) => {
+      invalidateEmails();
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
+      closeDialog();
+      toast({ title: `Ticket #${result.ticket.ticketNumber} opened` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to open ticket",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/inbound-emails/${id}/dismiss`);
+      return response.json();
+    },
+    onSuccess: invalidateEmails,
+    onError: (error: any) => {
+      toast({
+        title: "Failed to dismiss email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0 pb-4">
+        <div>
+          <CardTitle>Inbound Email</CardTitle>
+          <CardDescription>
+            Replies quoting a ticket number are added to the ticket; mail from new senders becomes a lead
+          </CardDescription>
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as InboundEmailStatus | 'all')}>
+          <SelectTrigger className="w-[180px]" data-testid="select-inbound-email-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All messages</SelectItem>
+            {Object.entries(statusLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading inbound email...</p>
+        ) : emails.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No messages</p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Received</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Outcome</TableHead>
+                  {canManage && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {emails.map((email) => (
+                  <TableRow key={email.id} data-testid={`row-inbound-email-${email.id}`}>
+                    <TableCell className="whitespace-nowrap">{format(new Date(email.receivedAt), 'MMM d, h:mm a')}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{email.fromName || email.fromAddress}</div>
+                      {email.fromName && <div className="text-xs text-muted-foreground">{email.fromAddress}</div>}
+                    </TableCell>
+                    <TableCell className="max-w-xs">
+                      <div className="truncate" title={email.body}>{email.subject || '(no subject)'}</div>
+                      <AttachmentList attachments={email.attachments as FileAttachment[]} />
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariants[email.status]}>{statusLabels[email.status]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-xs">
+                      {outcomeOf(email)}
+                      {email.handledByName && <div className="text-xs">by {email.handledByName}</div>}
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        {email.status === 'unmatched' && (
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setConverting(email)}
+                              data-testid={`button-inbound-email-ticket-${email.id}`}
+                            >
+                              <TicketIcon className="h-4 w-4 mr-1" />
+                              Open Ticket
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => dismissMutation.mutate(email.id)}
+                              disabled={dismissMutation.isPending}
+                              data-testid={`button-inbound-email-dismiss-${email.id}`}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!converting} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Open Ticket from Email</DialogTitle>
+            <DialogDescription>
+              {converting ? `"${converting.subject || '(no subject)'}" from ${converting.fromAddress}` : ''}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select value={projectId} onValueChange={setProjectId}>
+                <SelectTrigger data-testid="select-inbound-email-project">
+                  <SelectValue placeholder="Select a project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>
+                      {project.ticketNumber} - {project.projectName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={priority} onValueChange={(value) => setPriority(value as typeof priority)}>
+                <SelectTrigger data-testid="select-inbound-email-priority">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                  <SelectItem value="urgent">Urgent</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+            <Button
+              onClick={() => convertMutation.mutate()}
+              disabled={!projectId || convertMutation.isPending}
+              data-testid="button-confirm-inbound-email-ticket"
+            >
+              {convertMutation.isPending ? "Opening..." : "Open Ticket"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -18,6 +18,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import type { InventoryItem } from "@shared/schema";
 
 interface InventoryDialogProps {
@@ -51,6 +52,8 @@ export function InventoryDialog({ item, open, onOpenChange, onSubmit, isPending
     unitPrice: "",
     supplier: "",
     location: "",
+    isSerialized: false,
+    warrantyMonths: "",
   });
 
   useEffect(() => {
@@ -67,6 +70,8 @@ export function InventoryDialog({ item, open, onOpenChange, onSubmit, isPending
         unitPrice: item?.unitPrice || "",
         supplier: item?.supplier || "",
         location: item?.location || "",
+        isSerialized: item?.isSerialized || false,
+        warrantyMonths: item?.warrantyMonths?.toString() || "",
       });
     }
   }, [open, item]);
@@ -78,12 +83,13 @@ export function InventoryDialog({ item, open, onOpenChange, onSubmit, isPending
       ...formData,
       unitCost: formData.unitCost ? formData.unitCost.toString() : undefined,
       unitPrice: formData.unitPrice ? formData.unitPrice.toString() : undefined,
+      warrantyMonths: formData.warrantyMonths ? parseInt(formData.warrantyMonths) : null,
     };
     
     onSubmit(submitData);
   };
 
-  const handleChange = (field: string, value: string | number) => {
+  const handleChange = (field: string, value: string | number | boolean) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
@@ -248,6 +254,35 @@ export function InventoryDialog({ item, open, onOpenChange, onSubmit, isPending
                 data-testid="input-supplier"
               />
             </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="isSerialized" className="text-right">
+                Serial Tracked
+              </Label>
+              <div className="col-span-3 flex items-center gap-2">
+                <Switch
+                  id="isSerialized"
+                  checked={formData.isSerialized}
+                  onCheckedChange={(checked) => handleChange("isSerialized", checked)}
+                  data-testid="switch-is-serialized"
+                />
+                <span className="text-sm text-muted-foreground">Record a serial number for every unit</span>
+              </div>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="warrantyMonths" className="text-right">
+                Warranty (months)
+              </Label>
+              <Input
+                id="warrantyMonths"
+                type="number"
+                min="0"
+                value={formData.warrantyMonths}
+                onChange={(e) => handleChange("warrantyMonths", e.target.value)}
+                className="col-span-3"
+                placeholder="e.g. 36"
+                data-testid="input-warranty-months"
+              />
+            </div>
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="location" className="text-right">
                 Location
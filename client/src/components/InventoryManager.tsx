@@ -13,6 +13,10 @@ import { Search, Plus, Edit, Trash2, ChevronLeft, ChevronRight, Download, Upload
 import { Badge } from "@/components/ui/badge";
 import { InventoryDialog } from "./InventoryDialog";
 import { VendorAccountsManager } from "./VendorAccountsManager";
+import { StockLocationsPanel } from "./StockLocationsPanel";
+import { PurchaseOrdersManager } from "./PurchaseOrdersManager";
+import { ReorderSuggestionsPanel } from "./ReorderSuggestionsPanel";
+import { SerialNumbersPanel } from "./SerialNumbersPanel";
 import { exportToCSV, downloadInventoryTemplate, parseCSV } from "@/lib/exportUtils";
 
 export function InventoryManager() {
@@ -27,6 +31,10 @@ export function InventoryManager() {
     <Tabs defaultValue="inventory" className="space-y-4">
       <TabsList>
         <TabsTrigger value="inventory" data-testid="tab-inventory">Inventory</TabsTrigger>
+        <TabsTrigger value="locations" data-testid="tab-inventory-locations">By Location</TabsTrigger>
+        <TabsTrigger value="reorder" data-testid="tab-reorder">Reorder</TabsTrigger>
+        <TabsTrigger value="purchase-orders" data-testid="tab-purchase-orders">Purchase Orders</TabsTrigger>
+        <TabsTrigger value="serials" data-testid="tab-serials">Serials</TabsTrigger>
         {canViewAccounts && <TabsTrigger value="accounts" data-testid="tab-accounts">Accounts</TabsTrigger>}
       </TabsList>
       
@@ -34,6 +42,22 @@ export function InventoryManager() {
         <InventoryContent />
       </TabsContent>
       
+      <TabsContent value="locations">
+        <StockLocationsPanel />
+      </TabsContent>
+      
+      <TabsContent value="reorder">
+        <ReorderSuggestionsPanel />
+      </TabsContent>
+      
+      <TabsContent value="purchase-orders">
+        <PurchaseOrdersManager />
+      </TabsContent>
+
+      <TabsContent value="serials">
+        <SerialNumbersPanel />
+      </TabsContent>
+
       {canViewAccounts && (
         <TabsContent value="accounts">
           <VendorAccountsManager />
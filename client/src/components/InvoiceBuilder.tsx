@@ -1,11 +1,11 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useRoute, useLocation } from "wouter";
-import type { PriceMatrix, Lead, Client, Quote, Invoice, InsertInvoiceType, SystemConfig, LegalDocuments, User } from "@shared/schema";
+import type { PriceMatrix, Lead, Client, Quote, Project, Invoice, InsertInvoiceType, SystemConfig, LegalDocuments, User } from "@shared/schema";
 import { insertInvoiceSchema } from "@shared/schema";
 import { formatCurrency } from "@/lib/currency";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -19,8 +19,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Plus, Trash2, FileText, DollarSign, Save, Download, Search, Share2, Printer } from "lucide-react";
-import jsPDF from "jspdf";
-import html2canvas from "html2canvas";
+import { downloadPDF } from "@/lib/exportUtils";
 import { format } from "date-fns";
 import { InvoicePreview } from "./InvoicePreview";
 
@@ -42,7 +41,7 @@ export default function InvoiceBuilder() {
   const [selectedItems, setSelectedItems] = useState<InvoiceItem[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const invoicePreviewRef = useRef<HTMLDivElement>(null);
+  const [isDownloadingPDF, setIsDownloadingPDF] = useState(false);
 
   const { data: priceMatrixItems = [], isLoading: priceMatrixLoading } = useQuery<PriceMatrix[]>({
     queryKey: ['/api/price-matrix/active'],
@@ -61,6 +60,10 @@ export default function InvoiceBuilder() {
     queryKey: ['/api/quotes'],
   });
 
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ['/api/projects'],
+  });
+
   const { data: systemConfig } = useQuery<SystemConfig>({
     queryKey: ['/api/system-config'],
   });
@@ -86,6 +89,7 @@ export default function InvoiceBuilder() {
       quoteId: '',
       leadId: '',
       clientId: '',
+      projectId: '',
       items: [],
       subtotal: '0.00',
       taxRate: '0.00',
@@ -155,6 +159,7 @@ export default function InvoiceBuilder() {
         quoteId: existingInvoice.quoteId || '',
         leadId: existingInvoice.leadId || '',
         clientId: existingInvoice.clientId || '',
+        projectId: existingInvoice.projectId || '',
         items: existingInvoice.items as any,
         subtotal: existingInvoice.subtotal,
         taxRate: existingInvoice.taxRate || '0.00',
@@ -227,6 +232,7 @@ export default function InvoiceBuilder() {
         // Auto-populate from quote
         form.setValue('leadId', selectedQuote.leadId ?? '');
         form.setValue('clientId', selectedQuote.clientId ?? '');
+        form.setValue('projectId', selectedQuote.projectId ?? '');
         form.setValue('taxRate', selectedQuote.taxRate ?? '0');
         
         // Handle percentage of quote if specified
@@ -358,8 +364,11 @@ export default function InvoiceBuilder() {
       leadId: values.leadId || undefined,
       clientId: values.clientId || undefined,
       quoteId: values.quoteId || undefined,
+      projectId: values.projectId || undefined,
       percentageOfQuote: values.percentageOfQuote || undefined,
       dueDate: values.dueDate || undefined,
+      // An existing invoice's status follows its payments; the builder doesn't change it
+      status: invoiceId ? undefined : values.status,
     };
 
     saveInvoiceMutation.mutate(invoiceData);
@@ -372,75 +381,29 @@ export default function InvoiceBuilder() {
   };
 
   const handleDownloadPDF = async () => {
-    if (!invoicePreviewRef.current) return;
-
-    try {
-      const canvas = await html2canvas(invoicePreviewRef.current, {
-        scale: 2,
-        useCORS: true,
-        logging: false,
-      });
-
-      const imgData = canvas.toDataURL('image/png');
-      const pdf = new jsPDF({
-        orientation: 'portrait',
-        unit: 'px',
-        format: 'letter',
+    // The PDF is rendered on the server from the saved invoice
+    if (!invoiceId) {
+      toast({
+        title: "Please save first",
+        description: "You need to save the invoice before downloading a PDF",
+        variant: "destructive",
       });
+      return;
+    }
 
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = pdf.internal.pageSize.getHeight();
-      const canvasWidth = canvas.width;
-      const canvasHeight = canvas.height;
-      const ratio = canvasWidth / pdfWidth;
-
-      let heightLeft = canvasHeight;
-      let position = 0;
-      let page = 0;
-
-      while (heightLeft > 0) {
-        if (page > 0) {
-          pdf.addPage();
-        }
-
-        const idealSliceHeight = pdfHeight * ratio;
-        const sourceY = page * idealSliceHeight;
-        const remainingHeight = canvasHeight - sourceY;
-        const sliceHeight = Math.min(Math.ceil(idealSliceHeight), remainingHeight);
-
-        const sliceCanvas = document.createElement('canvas');
-        sliceCanvas.width = canvasWidth;
-        sliceCanvas.height = sliceHeight;
-        const sliceCtx = sliceCanvas.getContext('2d');
-
-        if (sliceCtx) {
-          sliceCtx.drawImage(
-            canvas,
-            0, sourceY,
-            canvasWidth, sliceHeight,
-            0, 0,
-            canvasWidth, sliceHeight
-          );
-
-          const sliceImgData = sliceCanvas.toDataURL('image/png');
-          pdf.addImage(sliceImgData, 'PNG', 0, 0, pdfWidth, (sliceHeight / ratio));
-        }
-
-        heightLeft -= sliceHeight;
-        page++;
-      }
-
-      const invoiceNumber = form.watch('invoiceNumber') || 'DRAFT';
-      pdf.save(`Invoice-${invoiceNumber}.pdf`);
-
+    setIsDownloadingPDF(true);
+    try {
+      await downloadPDF(`/api/invoices/${invoiceId}/pdf`, `Invoice-${existingInvoice?.invoiceNumber || form.watch('invoiceNumber')}.pdf`);
       toast({ title: "PDF downloaded successfully" });
     } catch (error) {
-      console.error('PDF generation error:', error);
+      console.error('PDF download error:', error);
       toast({
-        title: "Failed to generate PDF",
+        title: "Failed to download PDF",
         description: "Please try again",
         variant: "destructive",
       });
+    } finally {
+      setIsDownloadingPDF(false);
     }
   };
 
@@ -609,6 +572,38 @@ export default function InvoiceBuilder() {
                   )}
                 />
 
+                {/* Project Selection */}
+                <FormField
+                  control={form.control}
+                  name="projectId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Project (Optional)</FormLabel>
+                      <Select
+                        value={field.value ?? ''}
+                        onValueChange={field.onChange}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-project">
+                            <SelectValue placeholder="Select a project" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {projects.map(project => (
+                            <SelectItem key={project.id} value={project.id}>
+                              {project.ticketNumber} - {project.projectName}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Counts this invoice towards the project's profitability
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 {/* Due Date */}
                 <FormField
                   control={form.control}
@@ -646,30 +641,19 @@ export default function InvoiceBuilder() {
                   )}
                 />
 
-                {/* Amount Paid */}
-                <FormField
-                  control={form.control}
-                  name="amountPaid"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Amount Paid</FormLabel>
-                      <FormControl>
-                        <Input
-                          {...field}
-                          type="number"
-                          step="0.01"
-                          min="0"
-                          placeholder="0.00"
-                          data-testid="input-amountpaid"
-                        />
-                      </FormControl>
-                      <FormDescription>
-                        Enter payment received (if any)
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                {/* Amount Paid (read-only, maintained by the payment ledger) */}
+                <FormItem>
+                  <FormLabel>Amount Paid</FormLabel>
+                  <Input
+                    value={formatCurrency(parseFloat(form.watch('amountPaid') || '0'))}
+                    readOnly
+                    disabled
+                    data-testid="input-amountpaid"
+                  />
+                  <FormDescription>
+                    Record payments from the invoice details once the invoice is saved
+                  </FormDescription>
+                </FormItem>
               </div>
 
               {/* Items Section */}
@@ -823,6 +807,7 @@ export default function InvoiceBuilder() {
                   type="button"
                   variant="outline"
                   onClick={handleDownloadPDF}
+                  disabled={isDownloadingPDF}
                   data-testid="button-download"
                 >
                   <Download className="w-4 h-4 mr-2" />
@@ -848,7 +833,6 @@ export default function InvoiceBuilder() {
 
       {/* Live Preview */}
       <InvoicePreview
-        ref={invoicePreviewRef}
         items={selectedItems}
         subtotal={subtotalValue}
         taxRate={taxRateValue}
@@ -3,14 +3,20 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import type { Invoice, User as UserType } from "@shared/schema";
 import { format } from "date-fns";
 import { Calendar, FileText, DollarSign, CreditCard, Share2 } from "lucide-react";
 import { formatCurrency } from "@/lib/currency";
 import { useAuth } from "@/hooks/useAuth";
+import { useState, useEffect } from "react";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { hasPermission } from "@shared/permissions";
 import { useToast } from "@/hooks/use-toast";
+import { InvoicePaymentsPanel } from "@/components/InvoicePaymentsPanel";
+import { ShareLinksPanel, shareLinksQueryKey } from "@/components/ShareLinksPanel";
 
 interface InvoiceDetailsModalProps {
   invoice: Invoice | null;
@@ -34,6 +40,31 @@ export function InvoiceDetailsModal({ invoice, isOpen, onClose, recipientName }:
   const typedUser = user as UserType | undefined;
   const { toast } = useToast();
 
+  const [remindersPaused, setRemindersPaused] = useState(false);
+
+  useEffect(() => {
+    setRemindersPaused(invoice?.remindersPaused ?? false);
+  }, [invoice?.id, invoice?.remindersPaused]);
+
+  const toggleRemindersMutation = useMutation({
+    mutationFn: async (paused: boolean) => {
+      const response = await apiRequest('PUT', `/api/invoices/${invoice!.id}/reminders`, { paused });
+      return response.json();
+    },
+    onSuccess: (_data, paused) => {
+      setRemindersPaused(paused);
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+      toast({ title: paused ? "Payment reminders paused" : "Payment reminders resumed" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update reminders",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const generateShareLinkMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest('POST', `/api/invoices/${invoice!.id}/share`, {});
@@ -42,6 +73,7 @@ export function InvoiceDetailsModal({ invoice, isOpen, onClose, recipientName }:
     onSuccess: (data: any) => {
       const shareUrl = `${window.location.origin}/invoice/${data.invoiceNumber}/${data.token}`;
       navigator.clipboard.writeText(shareUrl);
+      queryClient.invalidateQueries({ queryKey: shareLinksQueryKey('invoice', invoice!.id) });
       toast({ title: "Link copied to clipboard!" });
     },
     onError: (error: any) => {
@@ -57,6 +89,8 @@ export function InvoiceDetailsModal({ invoice, isOpen, onClose, recipientName }:
 
   const items = Array.isArray(invoice.items) ? (invoice.items as InvoiceItem[]) : [];
   const isClient = typedUser?.role === 'client';
+  const canManageFinancial = !!typedUser?.role && hasPermission(typedUser.role, 'manageFinancial');
+  const isAwaitingPayment = invoice.paymentStatus !== 'paid' && invoice.status !== 'cancelled';
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -116,6 +150,18 @@ export function InvoiceDetailsModal({ invoice, isOpen, onClose, recipientName }:
             <Badge className={getPaymentStatusColor(invoice.paymentStatus)}>
               Payment: {getStatusLabel(invoice.paymentStatus)}
             </Badge>
+            {canManageFinancial && isAwaitingPayment && (
+              <div className="flex items-center gap-2 ml-auto">
+                <Switch
+                  id="pause-reminders"
+                  checked={remindersPaused}
+                  onCheckedChange={(checked) => toggleRemindersMutation.mutate(checked)}
+                  disabled={toggleRemindersMutation.isPending}
+                  data-testid="switch-pause-reminders"
+                />
+                <Label htmlFor="pause-reminders" className="text-sm">Pause reminders</Label>
+              </div>
+            )}
           </div>
 
           {/* Key Information Grid */}
@@ -215,6 +261,13 @@ export function InvoiceDetailsModal({ invoice, isOpen, onClose, recipientName }:
             </div>
           </div>
 
+          {/* Payment Ledger for Staff */}
+          {!isClient && (
+            <div className="border-t pt-4">
+              <InvoicePaymentsPanel invoice={invoice} />
+            </div>
+          )}
+
           {/* Notes */}
           {invoice.notes && (
             <div className="space-y-2 border-t pt-4">
@@ -223,6 +276,13 @@ export function InvoiceDetailsModal({ invoice, isOpen, onClose, recipientName }:
             </div>
           )}
 
+          {/* Share links and access log for staff */}
+          {!isClient && (
+            <div className="border-t pt-4">
+              <ShareLinksPanel entityType="invoice" entityId={invoice.id} documentNumber={invoice.invoiceNumber} />
+            </div>
+          )}
+
           {/* Share Link Button for Staff */}
           {!isClient && (
             <>
@@ -0,0 +1,337 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Plus, Ban } from "lucide-react";
+import { format } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { hasPermission } from "@shared/permissions";
+import { formatCurrency } from "@/lib/currency";
+import { insertInvoicePaymentSchema, type Invoice, type InvoicePayment, type InsertInvoicePaymentType, type User as UserType } from "@shared/schema";
+
+const paymentMethods = [
+  { value: "cash", label: "Cash" },
+  { value: "check", label: "Check" },
+  { value: "card", label: "Card" },
+  { value: "bank_transfer", label: "Bank Transfer" },
+  { value: "ach", label: "ACH" },
+  { value: "other", label: "Other" },
+];
+
+const getMethodLabel = (method: string) =>
+  paymentMethods.find(m => m.value === method)?.label || method;
+
+interface InvoicePaymentsPanelProps {
+  invoice: Invoice;
+}
+
+export function InvoicePaymentsPanel({ invoice }: InvoicePaymentsPanelProps) {
+  const { user } = useAuth();
+  const typedUser = user as UserType | undefined;
+  const { toast } = useToast();
+  const [isRecordOpen, setIsRecordOpen] = useState(false);
+  const [voidingPayment, setVoidingPayment] = useState<InvoicePayment | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+
+  const canManage = !!typedUser?.role && hasPermission(typedUser.role, 'manageFinancial');
+
+  const { data: payments = [], isLoading } = useQuery<InvoicePayment[]>({
+    queryKey: ['/api/invoices', invoice.id, 'payments'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/invoices/${invoice.id}/payments`);
+      return response.json();
+    },
+  });
+
+  const form = useForm<InsertInvoicePaymentType>({
+    resolver: zodResolver(insertInvoicePaymentSchema),
+    defaultValues: {
+      amount: invoice.balanceDue || '0',
+      method: 'check',
+      reference: '',
+      notes: '',
+    },
+  });
+
+  const invalidateLedger = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/revenue'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/financial/metrics'] });
+  };
+
+  const recordPaymentMutation = useMutation({
+    mutationFn: async (data: InsertInvoicePaymentType) => {
+      const response = await apiRequest('POST', `/api/invoices/${invoice.id}/payments`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateLedger();
+      toast({ title: "Payment recorded" });
+      setIsRecordOpen(false);
+      form.reset();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to record payment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const voidPaymentMutation = useMutation({
+    mutationFn: async ({ paymentId, reason }: { paymentId: string; reason: string }) => {
+      const response = await apiRequest('POST', `/api/invoices/${invoice.id}/payments/${paymentId}/void`, { reason });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateLedger();
+      toast({ title: "Payment voided" });
+      setVoidingPayment(null);
+      setVoidReason("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to void payment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openRecordDialog = () => {
+    form.reset({
+      amount: invoice.balanceDue || '0',
+      method: 'check',
+      reference: '',
+      notes: '',
+      receivedAt: new Date(),
+    });
+    setIsRecordOpen(true);
+  };
+
+  const canRecord = canManage && invoice.status !== 'cancelled' && parseFloat(invoice.balanceDue || '0') > 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold">Payments</h4>
+        {canRecord && (
+          <Button size="sm" variant="outline" onClick={openRecordDialog} data-testid="button-record-payment">
+            <Plus className="h-4 w-4 mr-2" />
+            Record Payment
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading payments...</p>
+      ) : payments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+      ) : (
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                {canManage && <TableHead className="w-[80px]"></TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payments.map((payment) => (
+                <TableRow key={payment.id} data-testid={`row-payment-${payment.id}`}>
+                  <TableCell className="text-sm">
+                    {format(new Date(payment.receivedAt), 'MMM d, yyyy')}
+                  </TableCell>
+                  <TableCell className="text-sm">{getMethodLabel(payment.method)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {payment.reference || '-'}
+                    {payment.voidedAt && (
+                      <div className="text-xs text-destructive">
+                        Voided {format(new Date(payment.voidedAt), 'MMM d, yyyy')}
+                        {payment.voidReason && `: ${payment.voidReason}`}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {payment.voidedAt ? (
+                      <span className="line-through text-muted-foreground">{formatCurrency(payment.amount)}</span>
+                    ) : (
+                      formatCurrency(payment.amount)
+                    )}
+                  </TableCell>
+                  {canManage && (
+                    <TableCell className="text-right">
+                      {payment.voidedAt ? (
+                        <Badge variant="outline">Void</Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setVoidingPayment(payment)}
+                          data-testid={`button-void-payment-${payment.id}`}
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Record Payment Dialog */}
+      <Dialog open={isRecordOpen} onOpenChange={setIsRecordOpen}>
+        <DialogContent data-testid="dialog-record-payment">
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>
+              Invoice {invoice.invoiceNumber} - balance due {formatCurrency(invoice.balanceDue || '0')}
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => recordPaymentMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" step="0.01" min="0" data-testid="input-payment-amount" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="method"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Method</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-payment-method">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {paymentMethods.map(method => (
+                            <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="receivedAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Received On</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="date"
+                          value={field.value ? format(new Date(field.value), 'yyyy-MM-dd') : ''}
+                          onChange={(e) => field.onChange(e.target.value ? new Date(`${e.target.value}T12:00:00`) : undefined)}
+                          data-testid="input-payment-received"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="reference"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reference</FormLabel>
+                      <FormControl>
+                        <Input {...field} value={field.value || ''} placeholder="Check #, transaction ID" data-testid="input-payment-reference" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} value={field.value || ''} rows={2} data-testid="input-payment-notes" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsRecordOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={recordPaymentMutation.isPending} data-testid="button-submit-payment">
+                  {recordPaymentMutation.isPending ? 'Recording...' : 'Record Payment'}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Void Payment Dialog */}
+      <Dialog open={!!voidingPayment} onOpenChange={(open) => !open && setVoidingPayment(null)}>
+        <DialogContent data-testid="dialog-void-payment">
+          <DialogHeader>
+            <DialogTitle>Void Payment</DialogTitle>
+            <DialogDescription>
+              Voiding removes {voidingPayment ? formatCurrency(voidingPayment.amount) : ''} from this invoice and its linked revenue entry.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={voidReason}
+            onChange={(e) => setVoidReason(e.target.value)}
+            placeholder="Reason (e.g. check bounced, entered in error)"
+            rows={3}
+            data-testid="input-void-reason"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setVoidingPayment(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!voidReason.trim() || voidPaymentMutation.isPending}
+              onClick={() => voidingPayment && voidPaymentMutation.mutate({ paymentId: voidingPayment.id, reason: voidReason.trim() })}
+              data-testid="button-confirm-void-payment"
+            >
+              {voidPaymentMutation.isPending ? 'Voiding...' : 'Void Payment'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
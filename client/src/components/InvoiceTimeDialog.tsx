@@ -0,0 +1,116 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { format } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Invoice } from "@shared/schema";
+import { type TimeEntryDetail, totalMinutes } from "./TimeEntriesPanel";
+import { formatMinutes } from "./TimeClock";
+
+interface InvoiceTimeDialogProps {
+  invoice: Invoice | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Pulls approved, billable, not-yet-invoiced time onto a draft invoice
+export function InvoiceTimeDialog({ invoice, onOpenChange }: InvoiceTimeDialogProps) {
+  const { toast } = useToast();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const { data: entries = [], isLoading } = useQuery<TimeEntryDetail[]>({
+    queryKey: ['/api/time-entries', 'unbilled'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/time-entries?status=approved&unbilled=true');
+      return response.json();
+    },
+    enabled: !!invoice,
+  });
+  const billable = entries.filter(entry => entry.billable);
+
+  useEffect(() => {
+    setSelectedIds([]);
+  }, [invoice?.id]);
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/invoices/${invoice!.id}/time-entries`, { entryIds: selectedIds });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/time-entries'] });
+      toast({ title: "Time added to invoice" });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to add time",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(selected => selected !== id));
+  };
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl" data-testid="dialog-invoice-time">
+        <DialogHeader>
+          <DialogTitle>Add Approved Time</DialogTitle>
+          <DialogDescription>
+            Bill technician time on {invoice?.invoiceNumber} at the regular, after-hours and holiday service rates
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[400px] overflow-y-auto space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading time entries...</p>
+          ) : billable.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No approved time is waiting to be billed.</p>
+          ) : (
+            billable.map(entry => (
+              <label
+                key={entry.id}
+                className="flex items-start gap-3 rounded-md border p-3 cursor-pointer"
+                data-testid={`option-invoice-time-${entry.id}`}
+              >
+                <Checkbox
+                  checked={selectedIds.includes(entry.id)}
+                  onCheckedChange={(checked) => toggle(entry.id, checked === true)}
+                />
+                <div className="flex-1">
+                  <div className="flex justify-between gap-2">
+                    <p className="text-sm font-medium">
+                      {format(new Date(entry.startedAt), 'MMM d, yyyy')} - {entry.userName}
+                    </p>
+                    <p className="text-sm font-medium">{formatMinutes(totalMinutes(entry))}</p>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {[entry.projectTicketNumber, entry.rateTypeName || 'No rate type', entry.notes].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+              </label>
+            ))
+          )}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => addMutation.mutate()}
+            disabled={addMutation.isPending || selectedIds.length === 0}
+            data-testid="button-confirm-invoice-time"
+          >
+            {addMutation.isPending ? 'Adding...' : `Add ${selectedIds.length || ''} Entr${selectedIds.length === 1 ? 'y' : 'ies'}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
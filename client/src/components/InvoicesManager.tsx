@@ -1,4 +1,4 @@
-import { useState, useRef, useMemo, useEffect } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -17,13 +17,13 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
-import { Edit, Download, FileText, Trash2, Pencil, Search, ChevronLeft, ChevronRight } from "lucide-react";
+import { Edit, Download, FileText, Trash2, Pencil, Search, ChevronLeft, ChevronRight, Clock } from "lucide-react";
 import { format } from "date-fns";
-import jsPDF from "jspdf";
-import html2canvas from "html2canvas";
-import { InvoicePreview } from "@/components/InvoicePreview";
+import { downloadPDF } from "@/lib/exportUtils";
 import { formatCurrency } from "@/lib/currency";
 import { InvoiceDetailsModal } from "@/components/InvoiceDetailsModal";
+import { InvoiceTimeDialog } from "@/components/InvoiceTimeDialog";
+import { hasPermission } from "@shared/permissions";
 
 interface InvoiceItem {
   priceMatrixId: string;
@@ -47,14 +47,15 @@ export default function InvoicesManager() {
   const [searchTerm, setSearchTerm] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(20);
-  const [downloadingInvoice, setDownloadingInvoice] = useState<Invoice | null>(null);
-  const downloadPreviewRef = useRef<HTMLDivElement>(null);
+  const [downloadingInvoiceId, setDownloadingInvoiceId] = useState<string | null>(null);
   
   // Details modal state
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
+  const [billingTimeInvoice, setBillingTimeInvoice] = useState<Invoice | null>(null);
 
   const isClient = typedUser?.role === 'client';
+  const canManageFinancial = !!typedUser?.role && hasPermission(typedUser.role, 'manageFinancial');
 
   const { data: invoices = [], isLoading: invoicesLoading } = useQuery<Invoice[]>({
     queryKey: ['/api/invoices'],
@@ -88,9 +89,6 @@ export default function InvoicesManager() {
       taxRate: '0.00',
       taxAmount: '0.00',
       total: '0.00',
-      amountPaid: '0.00',
-      balanceDue: '0.00',
-      paymentStatus: 'unpaid',
       status: 'draft',
       dueDate: undefined,
       notes: '',
@@ -195,10 +193,8 @@ export default function InvoicesManager() {
       taxRate: invoice.taxRate || '0',
       taxAmount: invoice.taxAmount || '0',
       total: invoice.total,
-      amountPaid: invoice.amountPaid || '0',
-      balanceDue: invoice.balanceDue || '0',
-      paymentStatus: invoice.paymentStatus,
-      status: invoice.status,
+      // Paid, partial and overdue are derived on the server; leaving status unset keeps them
+      status: invoice.status === 'draft' || invoice.status === 'sent' || invoice.status === 'cancelled' ? invoice.status : undefined,
       dueDate: invoice.dueDate ? new Date(invoice.dueDate).toISOString().split('T')[0] : undefined,
       notes: invoice.notes || '',
     });
@@ -221,89 +217,19 @@ export default function InvoicesManager() {
   };
 
   const handleDownloadPDF = async (invoice: Invoice) => {
-    // Set the invoice to download, which will trigger rendering of the hidden preview
-    setDownloadingInvoice(invoice);
-    
-    // Wait for next render cycle
-    await new Promise(resolve => setTimeout(resolve, 100));
-    
-    if (!downloadPreviewRef.current) {
-      toast({
-        title: "Failed to generate PDF",
-        description: "Preview not ready",
-        variant: "destructive",
-      });
-      setDownloadingInvoice(null);
-      return;
-    }
-
+    setDownloadingInvoiceId(invoice.id);
     try {
-      const canvas = await html2canvas(downloadPreviewRef.current, {
-        scale: 2,
-        useCORS: true,
-        logging: false,
-      });
-
-      const imgData = canvas.toDataURL('image/png');
-      const pdf = new jsPDF({
-        orientation: 'portrait',
-        unit: 'px',
-        format: 'letter',
-      });
-
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = pdf.internal.pageSize.getHeight();
-      const canvasWidth = canvas.width;
-      const canvasHeight = canvas.height;
-      const ratio = canvasWidth / pdfWidth;
-
-      let heightLeft = canvasHeight;
-      let position = 0;
-      let page = 0;
-
-      while (heightLeft > 0) {
-        if (page > 0) {
-          pdf.addPage();
-        }
-
-        const idealSliceHeight = pdfHeight * ratio;
-        const sourceY = page * idealSliceHeight;
-        const remainingHeight = canvasHeight - sourceY;
-        const sliceHeight = Math.min(Math.ceil(idealSliceHeight), remainingHeight);
-
-        const sliceCanvas = document.createElement('canvas');
-        sliceCanvas.width = canvasWidth;
-        sliceCanvas.height = sliceHeight;
-        const sliceCtx = sliceCanvas.getContext('2d');
-
-        if (sliceCtx) {
-          sliceCtx.drawImage(
-            canvas,
-            0, sourceY,
-            canvasWidth, sliceHeight,
-            0, 0,
-            canvasWidth, sliceHeight
-          );
-
-          const sliceImgData = sliceCanvas.toDataURL('image/png');
-          pdf.addImage(sliceImgData, 'PNG', 0, 0, pdfWidth, (sliceHeight / ratio));
-        }
-
-        heightLeft -= sliceHeight;
-        page++;
-      }
-
-      pdf.save(`Invoice-${invoice.invoiceNumber}.pdf`);
+      await downloadPDF(`/api/invoices/${invoice.id}/pdf`, `Invoice-${invoice.invoiceNumber}.pdf`);
       toast({ title: "PDF downloaded successfully" });
     } catch (error) {
-      console.error('PDF generation error:', error);
+      console.error('PDF download error:', error);
       toast({
-        title: "Failed to generate PDF",
+        title: "Failed to download PDF",
         description: "Please try again",
         variant: "destructive",
       });
     } finally {
-      setDownloadingInvoice(null);
+      setDownloadingInvoiceId(null);
     }
   };
 
@@ -457,6 +383,20 @@ export default function InvoicesManager() {
                             <Pencil className="w-4 h-4" />
                           </Button>
                         )}
+                        {canManageFinancial && invoice.status === 'draft' && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setBillingTimeInvoice(invoice);
+                            }}
+                            title="Add approved time"
+                            data-testid={`button-invoice-time-${invoice.id}`}
+                          >
+                            <Clock className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="icon"
@@ -464,6 +404,7 @@ export default function InvoicesManager() {
                             e.stopPropagation();
                             handleDownloadPDF(invoice);
                           }}
+                          disabled={downloadingInvoiceId === invoice.id}
                           data-testid={`button-download-${invoice.id}`}
                         >
                           <Download className="w-4 h-4" />
@@ -536,6 +477,11 @@ export default function InvoicesManager() {
         </CardContent>
       </Card>
 
+      <InvoiceTimeDialog
+        invoice={billingTimeInvoice}
+        onOpenChange={(open) => !open && setBillingTimeInvoice(null)}
+      />
+
       {/* Edit Invoice Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
@@ -557,16 +503,13 @@ export default function InvoicesManager() {
                       <Select value={field.value} onValueChange={field.onChange}>
                         <FormControl>
                           <SelectTrigger data-testid="select-status">
-                            <SelectValue />
+                            <SelectValue placeholder="Set by payments" />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
                           <SelectItem value="draft">Draft</SelectItem>
                           <SelectItem value="sent">Sent</SelectItem>
-                          <SelectItem value="paid">Paid</SelectItem>
-                          <SelectItem value="partial">Partial</SelectItem>
                           <SelectItem value="cancelled">Cancelled</SelectItem>
-                          <SelectItem value="overdue">Overdue</SelectItem>
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -588,42 +531,16 @@ export default function InvoicesManager() {
                   )}
                 />
 
-                <FormField
-                  control={form.control}
-                  name="amountPaid"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Amount Paid</FormLabel>
-                      <FormControl>
-                        <Input {...field} type="number" step="0.01" min="0" data-testid="input-amountpaid" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="paymentStatus"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Payment Status</FormLabel>
-                      <Select value={field.value} onValueChange={field.onChange}>
-                        <FormControl>
-                          <SelectTrigger data-testid="select-payment-status">
-                            <SelectValue />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <SelectItem value="unpaid">Unpaid</SelectItem>
-                          <SelectItem value="partial">Partial</SelectItem>
-                          <SelectItem value="paid">Paid</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                {/* Payment totals come from the payment ledger (see invoice details) */}
+                {editingInvoice && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Payments</p>
+                    <div className="flex items-center gap-2 text-sm" data-testid="text-edit-amountpaid">
+                      <span>{formatCurrency(parseFloat(editingInvoice.amountPaid || '0'))} paid</span>
+                      {getPaymentStatusBadge(editingInvoice.paymentStatus)}
+                    </div>
+                  </div>
+                )}
               </div>
 
               <FormField
@@ -658,29 +575,6 @@ export default function InvoicesManager() {
         </DialogContent>
       </Dialog>
 
-      {/* Hidden Invoice Preview for PDF Download */}
-      {downloadingInvoice && (
-        <div className="fixed top-0 left-[-9999px]">
-          <InvoicePreview
-            ref={downloadPreviewRef}
-            items={Array.isArray(downloadingInvoice.items) ? downloadingInvoice.items as InvoiceItem[] : []}
-            subtotal={downloadingInvoice.subtotal}
-            taxRate={downloadingInvoice.taxRate || '0'}
-            taxAmount={downloadingInvoice.taxAmount || '0'}
-            total={downloadingInvoice.total}
-            amountPaid={downloadingInvoice.amountPaid || '0'}
-            balanceDue={downloadingInvoice.balanceDue || '0'}
-            paymentStatus={downloadingInvoice.paymentStatus}
-            dueDate={downloadingInvoice.dueDate || undefined}
-            notes={downloadingInvoice.notes || ''}
-            leadId={downloadingInvoice.leadId || undefined}
-            clientId={downloadingInvoice.clientId || undefined}
-            invoiceNumber={downloadingInvoice.invoiceNumber}
-            quoteId={downloadingInvoice.quoteId || undefined}
-          />
-        </div>
-      )}
-      
       {/* Invoice Details Modal */}
       <InvoiceDetailsModal
         invoice={selectedInvoice}
@@ -1,4 +1,6 @@
 import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -18,7 +20,8 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import type { Lead } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import type { Appointment, Lead } from "@shared/schema";
 
 interface LeadDialogProps {
   open: boolean;
@@ -36,6 +39,12 @@ export function LeadDialog({
   lead,
 }: LeadDialogProps) {
   const isEditMode = !!lead;
+
+  // Slots the lead booked from the public scheduling pages
+  const { data: appointments = [] } = useQuery<(Appointment & { appointmentTypeName: string })[]>({
+    queryKey: ['/api/leads', lead?.id, 'appointments'],
+    enabled: open && isEditMode,
+  });
   
   const [formData, setFormData] = useState({
     name: "",
@@ -266,6 +275,23 @@ export function LeadDialog({
                 data-testid="input-lead-notes"
               />
             </div>
+            {appointments.length > 0 && (
+              <div className="grid grid-cols-4 gap-4">
+                <Label className="text-right pt-1">Appointments</Label>
+                <div className="col-span-3 space-y-2">
+                  {appointments.map(appointment => (
+                    <div key={appointment.id} className="flex items-center justify-between gap-2 text-sm" data-testid={`lead-appointment-${appointment.id}`}>
+                      <span className={appointment.status === 'cancelled' ? 'line-through text-muted-foreground' : ''}>
+                        {appointment.appointmentTypeName} - {format(new Date(appointment.startsAt), 'MMM d, yyyy h:mm a')}
+                      </span>
+                      <Badge variant={appointment.status === 'cancelled' ? 'secondary' : 'outline'}>
+                        {appointment.status === 'cancelled' ? 'Cancelled' : 'Booked'}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-lead">
@@ -16,8 +16,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { loginSchema, registerSchema, type LoginType, type RegisterType } from "@shared/schema";
-import { Shield, Mail, Lock, User, Building2 } from "lucide-react";
+import { loginSchema, registerSchema, resetPasswordRequestSchema, type LoginType, type RegisterType, type ResetPasswordRequestType } from "@shared/schema";
+import { Shield, Mail, Lock, User, Building2, ArrowLeft } from "lucide-react";
 
 interface LoginDialogProps {
   children?: React.ReactNode;
@@ -28,7 +28,8 @@ interface LoginDialogProps {
 
 export default function LoginDialog({ children, open: controlledOpen, onOpenChange: controlledOnOpenChange, onSuccess }: LoginDialogProps) {
   const [internalOpen, setInternalOpen] = useState(false);
-  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [mode, setMode] = useState<'login' | 'register' | 'forgot'>('login');
+  const [resetRequested, setResetRequested] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
@@ -59,6 +60,14 @@ export default function LoginDialog({ children, open: controlledOpen, onOpenChan
     },
   });
 
+  // Forgot password form
+  const forgotForm = useForm<ResetPasswordRequestType>({
+    resolver: zodResolver(resetPasswordRequestSchema),
+    defaultValues: {
+      email: '',
+    },
+  });
+
   // Login mutation
   const loginMutation = useMutation({
     mutationFn: async (data: LoginType) => {
@@ -123,6 +132,29 @@ export default function LoginDialog({ children, open: controlledOpen, onOpenChan
     },
   });
 
+  // Forgot password mutation
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (data: ResetPasswordRequestType) => {
+      const response = await apiRequest('POST', '/api/auth/forgot-password', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      setResetRequested(true);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Request failed",
+        description: error.message || "Unable to send a reset link right now. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const switchMode = (nextMode: 'login' | 'register' | 'forgot') => {
+    setResetRequested(false);
+    setMode(nextMode);
+  };
+
   const onLoginSubmit = (data: LoginType) => {
     loginMutation.mutate(data);
   };
@@ -131,6 +163,10 @@ export default function LoginDialog({ children, open: controlledOpen, onOpenChan
     registerMutation.mutate(data);
   };
 
+  const onForgotSubmit = (data: ResetPasswordRequestType) => {
+    forgotPasswordMutation.mutate(data);
+  };
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       {children && (
@@ -142,38 +178,42 @@ export default function LoginDialog({ children, open: controlledOpen, onOpenChan
         <DialogHeader>
           <DialogTitle className="flex items-center">
             <Shield className="w-5 h-5 mr-2 text-primary" />
-            {mode === 'login' ? 'Sign In to FibreUS' : 'Create Your Account'}
+            {mode === 'login' ? 'Sign In to FibreUS' : mode === 'register' ? 'Create Your Account' : 'Reset Your Password'}
           </DialogTitle>
           <DialogDescription>
             {mode === 'login' 
               ? 'Access your security dashboard and manage your projects'
-              : 'Join FibreUS to manage your security services'
+              : mode === 'register'
+                ? 'Join FibreUS to manage your security services'
+                : "Enter your account email and we'll send you a link to choose a new password"
             }
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-6">
           {/* Auth Mode Toggle */}
-          <div className="flex justify-center">
-            <div className="flex bg-muted rounded-lg p-1">
-              <Button
-                variant={mode === 'login' ? 'default' : 'ghost'}
-                size="sm"
-                onClick={() => setMode('login')}
-                data-testid="button-switch-login"
-              >
-                Sign In
-              </Button>
-              <Button
-                variant={mode === 'register' ? 'default' : 'ghost'}
-                size="sm"
-                onClick={() => setMode('register')}
-                data-testid="button-switch-register"
-              >
-                Register
-              </Button>
+          {mode !== 'forgot' && (
+            <div className="flex justify-center">
+              <div className="flex bg-muted rounded-lg p-1">
+                <Button
+                  variant={mode === 'login' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => switchMode('login')}
+                  data-testid="button-switch-login"
+                >
+                  Sign In
+                </Button>
+                <Button
+                  variant={mode === 'register' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => switchMode('register')}
+                  data-testid="button-switch-register"
+                >
+                  Register
+                </Button>
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Email/Password Forms */}
           {mode === 'login' ? (
@@ -197,7 +237,22 @@ export default function LoginDialog({ children, open: controlledOpen, onOpenChan
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-auto p-0 text-xs text-primary hover:underline"
+                    onClick={() => {
+                      forgotForm.setValue('email', loginForm.getValues('email'));
+                      switchMode('forgot');
+                    }}
+                    data-testid="button-forgot-password"
+                  >
+                    Forgot password?
+                  </Button>
+                </div>
                 <div className="relative">
                   <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                   <Input
@@ -223,6 +278,65 @@ export default function LoginDialog({ children, open: controlledOpen, onOpenChan
                 {loginMutation.isPending ? 'Signing In...' : 'Sign In'}
               </Button>
             </form>
+          ) : mode === 'forgot' ? (
+            resetRequested ? (
+              <div className="space-y-4 text-center" data-testid="text-reset-requested">
+                <Mail className="w-10 h-10 mx-auto text-primary" />
+                <p className="text-sm text-muted-foreground">
+                  If an account exists for <span className="font-medium text-foreground">{forgotForm.getValues('email')}</span>,
+                  a password reset link is on its way. The link expires in 60 minutes.
+                </p>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => switchMode('login')}
+                  data-testid="button-back-to-login"
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to Sign In
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={forgotForm.handleSubmit(onForgotSubmit)} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="forgot-email">Email</Label>
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="forgot-email"
+                      type="email"
+                      placeholder="Enter your email"
+                      className="pl-10"
+                      data-testid="input-forgot-email"
+                      {...forgotForm.register('email')}
+                    />
+                  </div>
+                  {forgotForm.formState.errors.email && (
+                    <p className="text-sm text-destructive">{forgotForm.formState.errors.email.message}</p>
+                  )}
+                </div>
+
+                <Button 
+                  type="submit" 
+                  className="w-full" 
+                  disabled={forgotPasswordMutation.isPending}
+                  data-testid="button-forgot-submit"
+                >
+                  {forgotPasswordMutation.isPending ? 'Sending Link...' : 'Send Reset Link'}
+                </Button>
+
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="w-full"
+                  onClick={() => switchMode('login')}
+                  data-testid="button-cancel-forgot"
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to Sign In
+                </Button>
+              </form>
+            )
           ) : (
             <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
@@ -0,0 +1,436 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Client, MaintenanceAgreement, MaintenanceVisitType, User } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { Plus, Edit } from "lucide-react";
+
+export type MaintenanceAgreementDetail = MaintenanceAgreement & {
+  clientName: string;
+  visitTypeName: string;
+  serviceType: MaintenanceVisitType['serviceType'];
+  assignedToName: string | null;
+};
+
+const intervalOptions = [
+  { value: '1', label: 'Monthly' },
+  { value: '3', label: 'Quarterly' },
+  { value: '6', label: 'Every 6 months' },
+  { value: '12', label: 'Annually' },
+  { value: '24', label: 'Every 2 years' },
+];
+
+const statusLabels: Record<MaintenanceAgreement['status'], string> = {
+  active: 'Active',
+  paused: 'Paused',
+  ended: 'Ended',
+};
+
+const UNASSIGNED = 'unassigned';
+
+interface AgreementFormState {
+  clientId: string;
+  visitTypeId: string;
+  siteName: string;
+  siteAddress: string;
+  intervalMonths: string;
+  startDate: string;
+  endDate: string;
+  leadDays: string;
+  assignedToId: string;
+  status: MaintenanceAgreement['status'];
+  notes: string;
+}
+
+const emptyForm = (): AgreementFormState => ({
+  clientId: '',
+  visitTypeId: '',
+  siteName: '',
+  siteAddress: '',
+  intervalMonths: '3',
+  startDate: format(new Date(), 'yyyy-MM-dd'),
+  endDate: '',
+  leadDays: '14',
+  assignedToId: UNASSIGNED,
+  status: 'active',
+  notes: '',
+});
+
+const formatDate = (value: Date | string | null) => value ? format(new Date(value), 'MMM d, yyyy') : '—';
+
+// Date inputs give a calendar day; send it as local midnight rather than UTC
+const localDate = (value: string) => new Date(`${value}T00:00:00`);
+
+const intervalLabel = (months: number) =>
+  intervalOptions.find(option => option.value === String(months))?.label ?? `Every ${months} months`;
+
+// Client sites on preventive-maintenance contracts; visit tasks are generated ahead of each due date
+export function MaintenanceAgreementsManager() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<MaintenanceAgreementDetail | null>(null);
+  const [form, setForm] = useState<AgreementFormState>(emptyForm);
+
+  const { data: agreements = [], isLoading } = useQuery<MaintenanceAgreementDetail[]>({
+    queryKey: ['/api/maintenance-agreements'],
+  });
+
+  const { data: visitTypes = [] } = useQuery<MaintenanceVisitType[]>({
+    queryKey: ['/api/maintenance-visit-types'],
+  });
+
+  const { data: clients = [] } = useQuery<Client[]>({
+    queryKey: ['/api/clients'],
+    enabled: isDialogOpen && !editing,
+  });
+
+  const { data: usersData = [] } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+    enabled: isDialogOpen,
+  });
+  const technicians = usersData.filter(u => u.role === 'employee');
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditing(null);
+    setForm(emptyForm());
+  };
+
+  // The client's address and contract end fill in the site details unless already entered
+  const handleClientChange = (clientId: string) => {
+    const client = clients.find(c => c.id === clientId);
+    setForm({
+      ...form,
+      clientId,
+      siteAddress: form.siteAddress || client?.address || '',
+      endDate: form.endDate || (client?.contractEndDate ? format(new Date(client.contractEndDate), 'yyyy-MM-dd') : ''),
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: AgreementFormState) => {
+      const shared = {
+        visitTypeId: values.visitTypeId,
+        siteName: values.siteName,
+        siteAddress: values.siteAddress || null,
+        intervalMonths: values.intervalMonths,
+        endDate: values.endDate ? localDate(values.endDate) : null,
+        leadDays: values.leadDays || '14',
+        assignedToId: values.assignedToId === UNASSIGNED ? null : values.assignedToId,
+        notes: values.notes || null,
+      };
+      const response = editing
+        ? await apiRequest('PATCH', `/api/maintenance-agreements/${editing.id}`, { ...shared, status: values.status })
+        : await apiRequest('POST', '/api/maintenance-agreements', {
+            ...shared,
+            siteAddress: values.siteAddress || undefined,
+            notes: values.notes || undefined,
+            clientId: values.clientId,
+            startDate: localDate(values.startDate),
+          });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/maintenance-agreements'] });
+      toast({ title: editing ? "Agreement updated" : "Agreement created" });
+      closeDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save agreement",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenDialog = (agreement?: MaintenanceAgreementDetail) => {
+    setEditing(agreement ?? null);
+    setForm(agreement ? {
+      clientId: agreement.clientId,
+      visitTypeId: agreement.visitTypeId,
+      siteName: agreement.siteName,
+      siteAddress: agreement.siteAddress || '',
+      intervalMonths: String(agreement.intervalMonths),
+      startDate: format(new Date(agreement.startDate), 'yyyy-MM-dd'),
+      endDate: agreement.endDate ? format(new Date(agreement.endDate), 'yyyy-MM-dd') : '',
+      leadDays: String(agreement.leadDays),
+      assignedToId: agreement.assignedToId || UNASSIGNED,
+      status: agreement.status,
+      notes: agreement.notes || '',
+    } : emptyForm());
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(form);
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-4">
+          <div>
+            <CardTitle>Maintenance Agreements</CardTitle>
+            <CardDescription>
+              A task with the visit checklist is created for each visit, the set number of days before it is due
+            </CardDescription>
+          </div>
+          <Button onClick={() => handleOpenDialog()} data-testid="button-add-agreement">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Agreement
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading agreements...</div>
+          ) : agreements.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No maintenance agreements yet.
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Client / Site</TableHead>
+                    <TableHead>Visit</TableHead>
+                    <TableHead>Frequency</TableHead>
+                    <TableHead>Next Due</TableHead>
+                    <TableHead>Ends</TableHead>
+                    <TableHead>Technician</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {agreements.map((agreement) => (
+                    <TableRow key={agreement.id} data-testid={`row-agreement-${agreement.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{agreement.clientName}</div>
+                        <div className="text-xs text-muted-foreground">{agreement.siteName}</div>
+                      </TableCell>
+                      <TableCell>{agreement.visitTypeName}</TableCell>
+                      <TableCell>{intervalLabel(agreement.intervalMonths)}</TableCell>
+                      <TableCell>{agreement.status === 'active' ? formatDate(agreement.nextDueDate) : '—'}</TableCell>
+                      <TableCell>{agreement.endDate ? formatDate(agreement.endDate) : 'Open-ended'}</TableCell>
+                      <TableCell>{agreement.assignedToName || 'Unassigned'}</TableCell>
+                      <TableCell>
+                        <Badge variant={agreement.status === 'active' ? "default" : "secondary"}>
+                          {statusLabels[agreement.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleOpenDialog(agreement)}
+                          data-testid={`button-edit-agreement-${agreement.id}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Agreement" : "Add Agreement"}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? `${editing.clientName}. Changing the frequency keeps visits already created.`
+                : "The first visit is due on the start date."}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {!editing && (
+              <div className="space-y-2">
+                <Label>Client</Label>
+                <Select value={form.clientId} onValueChange={handleClientChange}>
+                  <SelectTrigger data-testid="select-agreement-client">
+                    <SelectValue placeholder="Select a client" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {clients.map((client) => (
+                      <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="agreement-site">Site Name</Label>
+                <Input
+                  id="agreement-site"
+                  placeholder="e.g., Head office"
+                  value={form.siteName}
+                  onChange={(e) => setForm({ ...form, siteName: e.target.value })}
+                  required
+                  data-testid="input-agreement-site"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Visit Type</Label>
+                <Select value={form.visitTypeId} onValueChange={(value) => setForm({ ...form, visitTypeId: value })}>
+                  <SelectTrigger data-testid="select-agreement-visit-type">
+                    <SelectValue placeholder="Select a visit type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {visitTypes.map((visitType) => (
+                      <SelectItem key={visitType.id} value={visitType.id}>{visitType.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="agreement-address">Site Address</Label>
+              <Textarea
+                id="agreement-address"
+                rows={2}
+                value={form.siteAddress}
+                onChange={(e) => setForm({ ...form, siteAddress: e.target.value })}
+                data-testid="input-agreement-address"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>Frequency</Label>
+                <Select value={form.intervalMonths} onValueChange={(value) => setForm({ ...form, intervalMonths: value })}>
+                  <SelectTrigger data-testid="select-agreement-interval">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {intervalOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="agreement-start">First Visit</Label>
+                <Input
+                  id="agreement-start"
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                  disabled={!!editing}
+                  required
+                  data-testid="input-agreement-start"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="agreement-end">End Date</Label>
+                <Input
+                  id="agreement-end"
+                  type="date"
+                  value={form.endDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                  data-testid="input-agreement-end"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="agreement-lead">Create (days ahead)</Label>
+                <Input
+                  id="agreement-lead"
+                  type="number"
+                  min="0"
+                  max="90"
+                  value={form.leadDays}
+                  onChange={(e) => setForm({ ...form, leadDays: e.target.value })}
+                  data-testid="input-agreement-lead"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Technician</Label>
+                <Select value={form.assignedToId} onValueChange={(value) => setForm({ ...form, assignedToId: value })}>
+                  <SelectTrigger data-testid="select-agreement-technician">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                    {technicians.map((technician) => (
+                      <SelectItem key={technician.id} value={technician.id}>
+                        {[technician.firstName, technician.lastName].filter(Boolean).join(' ') || technician.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {editing && (
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Select
+                    value={form.status}
+                    onValueChange={(value) => setForm({ ...form, status: value as AgreementFormState['status'] })}
+                  >
+                    <SelectTrigger data-testid="select-agreement-status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(statusLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {editing.status === 'paused' && form.status === 'active' && (
+                    <p className="text-xs text-muted-foreground">Visits that fell due while paused are skipped.</p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="agreement-notes">Notes</Label>
+              <Textarea
+                id="agreement-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                data-testid="input-agreement-notes"
+              />
+              <p className="text-xs text-muted-foreground">Added to each visit task, e.g. access instructions</p>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeDialog}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveMutation.isPending || !form.visitTypeId || (!editing && !form.clientId)}
+                data-testid="button-save-agreement"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,310 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { MaintenanceVisitType } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Edit, Trash2 } from "lucide-react";
+
+export const serviceTypeLabels: Record<MaintenanceVisitType['serviceType'], string> = {
+  cctv: 'CCTV Systems',
+  alarm: 'Alarm Systems',
+  access_control: 'Access Control',
+  intercom: 'Intercom Systems',
+  cloud_storage: 'Cloud Storage',
+  monitoring: 'Monitoring Services',
+  fiber_installation: 'Fiber Installation',
+  maintenance: 'Maintenance',
+};
+
+interface VisitTypeFormState {
+  name: string;
+  serviceType: MaintenanceVisitType['serviceType'];
+  description: string;
+  checklist: string; // One item per line
+  estimatedMinutes: string;
+  isActive: boolean;
+}
+
+const emptyForm: VisitTypeFormState = {
+  name: '',
+  serviceType: 'maintenance',
+  description: '',
+  checklist: '',
+  estimatedMinutes: '',
+  isActive: true,
+};
+
+// Kinds of preventive visit, e.g. quarterly camera cleaning, with the checklist each generated visit starts from
+export function MaintenanceVisitTypesManager() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<MaintenanceVisitType | null>(null);
+  const [form, setForm] = useState<VisitTypeFormState>(emptyForm);
+
+  const { data: visitTypes = [], isLoading } = useQuery<MaintenanceVisitType[]>({
+    queryKey: ['/api/maintenance-visit-types?includeInactive=true'],
+  });
+
+  const invalidateVisitTypes = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/maintenance-visit-types?includeInactive=true'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/maintenance-visit-types'] });
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditing(null);
+    setForm(emptyForm);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: VisitTypeFormState) => {
+      const payload = {
+        name: values.name,
+        serviceType: values.serviceType,
+        description: values.description || null,
+        checklist: values.checklist.split('\n').map(item => item.trim()).filter(Boolean),
+        estimatedMinutes: values.estimatedMinutes ? values.estimatedMinutes : null,
+        isActive: values.isActive,
+      };
+      const response = editing
+        ? await apiRequest('PATCH', `/api/maintenance-visit-types/${editing.id}`, payload)
+        : await apiRequest('POST', '/api/maintenance-visit-types', payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateVisitTypes();
+      toast({ title: editing ? "Visit type updated" : "Visit type created" });
+      closeDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save visit type",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/maintenance-visit-types/${id}`);
+    },
+    onSuccess: () => {
+      invalidateVisitTypes();
+      toast({ title: "Visit type deleted" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete visit type",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenDialog = (visitType?: MaintenanceVisitType) => {
+    setEditing(visitType ?? null);
+    setForm(visitType ? {
+      name: visitType.name,
+      serviceType: visitType.serviceType,
+      description: visitType.description || '',
+      checklist: (visitType.checklist as string[]).join('\n'),
+      estimatedMinutes: visitType.estimatedMinutes ? String(visitType.estimatedMinutes) : '',
+      isActive: visitType.isActive,
+    } : emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm('Are you sure you want to delete this visit type?')) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(form);
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-4">
+          <div>
+            <CardTitle>Visit Types</CardTitle>
+            <CardDescription>
+              Each generated visit copies its type's checklist; later edits only affect future visits
+            </CardDescription>
+          </div>
+          <Button onClick={() => handleOpenDialog()} data-testid="button-add-visit-type">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Visit Type
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading visit types...</div>
+          ) : visitTypes.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No visit types yet. Add one before setting up maintenance agreements.
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Service</TableHead>
+                    <TableHead>Checklist</TableHead>
+                    <TableHead>Estimated Time</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visitTypes.map((visitType) => (
+                    <TableRow key={visitType.id} data-testid={`row-visit-type-${visitType.id}`}>
+                      <TableCell className="font-medium">{visitType.name}</TableCell>
+                      <TableCell>{serviceTypeLabels[visitType.serviceType]}</TableCell>
+                      <TableCell>{(visitType.checklist as string[]).length} items</TableCell>
+                      <TableCell>{visitType.estimatedMinutes ? `${visitType.estimatedMinutes} min` : '—'}</TableCell>
+                      <TableCell>
+                        <Badge variant={visitType.isActive ? "default" : "secondary"}>
+                          {visitType.isActive ? "Active" : "Inactive"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleOpenDialog(visitType)}
+                            data-testid={`button-edit-visit-type-${visitType.id}`}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(visitType.id)}
+                            data-testid={`button-delete-visit-type-${visitType.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Visit Type" : "Add Visit Type"}</DialogTitle>
+            <DialogDescription>What technicians do on each preventive visit of this kind</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="visit-type-name">Name</Label>
+              <Input
+                id="visit-type-name"
+                placeholder="e.g., Quarterly camera cleaning"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+                data-testid="input-visit-type-name"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Service</Label>
+                <Select
+                  value={form.serviceType}
+                  onValueChange={(value) => setForm({ ...form, serviceType: value as VisitTypeFormState['serviceType'] })}
+                >
+                  <SelectTrigger data-testid="select-visit-type-service">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(serviceTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="visit-type-minutes">Estimated Minutes</Label>
+                <Input
+                  id="visit-type-minutes"
+                  type="number"
+                  min="5"
+                  value={form.estimatedMinutes}
+                  onChange={(e) => setForm({ ...form, estimatedMinutes: e.target.value })}
+                  data-testid="input-visit-type-minutes"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="visit-type-description">Description</Label>
+              <Textarea
+                id="visit-type-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                data-testid="input-visit-type-description"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="visit-type-checklist">Checklist</Label>
+              <Textarea
+                id="visit-type-checklist"
+                rows={6}
+                placeholder={"Clean camera lenses and housings\nCheck recording retention\nTest alarm sirens"}
+                value={form.checklist}
+                onChange={(e) => setForm({ ...form, checklist: e.target.value })}
+                data-testid="input-visit-type-checklist"
+              />
+              <p className="text-xs text-muted-foreground">One item per line</p>
+            </div>
+
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <Label htmlFor="visit-type-active">Active</Label>
+              <Switch
+                id="visit-type-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+                data-testid="switch-visit-type-active"
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-visit-type">
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
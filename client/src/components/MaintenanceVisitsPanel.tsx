@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { MaintenanceChecklistItem, MaintenanceVisit, Task } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { differenceInCalendarDays, format } from "date-fns";
+import { CheckCircle2, MapPin } from "lucide-react";
+
+export type MaintenanceVisitDetail = MaintenanceVisit & {
+  clientId: string;
+  clientName: string;
+  siteName: string;
+  siteAddress: string | null;
+  visitTypeName: string;
+  taskNumber: string | null;
+  taskStatus: Task['status'] | null;
+  assignedToId: string | null;
+  assignedToName: string | null;
+};
+
+const invalidateVisits = () => {
+  queryClient.invalidateQueries({ queryKey: ['/api/maintenance-visits/mine'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/maintenance-visits/overdue'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+};
+
+function VisitChecklist({ visit }: { visit: MaintenanceVisitDetail }) {
+  const { toast } = useToast();
+  const [notes, setNotes] = useState(visit.notes || "");
+  const checklist = visit.checklist as MaintenanceChecklistItem[];
+  const allDone = checklist.every(entry => entry.done);
+
+  const recordMutation = useMutation({
+    mutationFn: async (data: { checklist?: MaintenanceChecklistItem[]; notes?: string }) => {
+      const response = await apiRequest('PATCH', `/api/maintenance-visits/${visit.id}`, data);
+      return response.json();
+    },
+    onSuccess: invalidateVisits,
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save checklist",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/maintenance-visits/${visit.id}/complete`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateVisits();
+      toast({ title: "Visit completed" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to complete visit",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleItem = (index: number, done: boolean) => {
+    recordMutation.mutate({
+      checklist: checklist.map((entry, i) => i === index ? { ...entry, done } : entry),
+    });
+  };
+
+  return (
+    <div className="rounded-md border p-4 space-y-3" data-testid={`maintenance-visit-${visit.id}`}>
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <div className="font-medium">{visit.visitTypeName}</div>
+          <div className="text-sm text-muted-foreground">
+            {visit.clientName} - {visit.siteName}
+          </div>
+          {visit.siteAddress && (
+            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+              <MapPin className="h-3 w-3" />
+              {visit.siteAddress}
+            </div>
+          )}
+        </div>
+        <div className="text-right">
+          <Badge variant={new Date(visit.dueDate) < new Date() ? "destructive" : "outline"}>
+            Due {format(new Date(visit.dueDate), 'MMM d, yyyy')}
+          </Badge>
+          {visit.taskNumber && <div className="text-xs text-muted-foreground mt-1">{visit.taskNumber}</div>}
+        </div>
+      </div>
+
+      {checklist.length > 0 && (
+        <div className="space-y-2">
+          {checklist.map((entry, index) => (
+            <label key={index} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={entry.done}
+                onCheckedChange={(checked) => toggleItem(index, checked === true)}
+                disabled={recordMutation.isPending}
+                data-testid={`checkbox-visit-${visit.id}-${index}`}
+              />
+              <span className={entry.done ? "line-through text-muted-foreground" : ""}>{entry.item}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <Textarea
+        placeholder="Visit notes"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        onBlur={() => notes !== (visit.notes || "") && recordMutation.mutate({ notes })}
+        data-testid={`input-visit-notes-${visit.id}`}
+      />
+
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          onClick={() => completeMutation.mutate()}
+          disabled={!allDone || completeMutation.isPending}
+          data-testid={`button-complete-visit-${visit.id}`}
+        >
+          <CheckCircle2 className="h-4 w-4 mr-2" />
+          {completeMutation.isPending ? "Completing..." : "Complete Visit"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// The signed-in technician's open maintenance visits, worked through checklist by checklist
+export function MaintenanceVisitsPanel() {
+  const { data: visits = [], isLoading } = useQuery<MaintenanceVisitDetail[]>({
+    queryKey: ['/api/maintenance-visits/mine'],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Maintenance Visits</CardTitle>
+        <CardDescription>Tick off each checklist item on site, then complete the visit</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading visits...</p>
+        ) : visits.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No maintenance visits assigned to you</p>
+        ) : (
+          visits.map(visit => <VisitChecklist key={visit.id} visit={visit} />)
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Visits past their due date that nobody has completed, most overdue first
+export function OverdueMaintenanceList() {
+  const { data: visits = [], isLoading } = useQuery<MaintenanceVisitDetail[]>({
+    queryKey: ['/api/maintenance-visits/overdue'],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Overdue Maintenance</CardTitle>
+        <CardDescription>Contracted visits past their due date and not yet completed</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading overdue visits...</p>
+        ) : visits.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No overdue maintenance</p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Due</TableHead>
+                  <TableHead>Overdue</TableHead>
+                  <TableHead>Client / Site</TableHead>
+                  <TableHead>Visit</TableHead>
+                  <TableHead>Task</TableHead>
+                  <TableHead>Technician</TableHead>
+                  <TableHead>Checklist</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visits.map((visit) => {
+                  const checklist = visit.checklist as MaintenanceChecklistItem[];
+                  const days = differenceInCalendarDays(new Date(), new Date(visit.dueDate));
+                  return (
+                    <TableRow key={visit.id} data-testid={`row-overdue-visit-${visit.id}`}>
+                      <TableCell>{format(new Date(visit.dueDate), 'MMM d, yyyy')}</TableCell>
+                      <TableCell>
+                        <Badge variant="destructive">{days} day{days === 1 ? '' : 's'}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{visit.clientName}</div>
+                        <div className="text-xs text-muted-foreground">{visit.siteName}</div>
+                      </TableCell>
+                      <TableCell>{visit.visitTypeName}</TableCell>
+                      <TableCell>{visit.taskNumber || '—'}</TableCell>
+                      <TableCell>{visit.assignedToName || 'Unassigned'}</TableCell>
+                      <TableCell>
+                        {checklist.filter(entry => entry.done).length}/{checklist.length}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
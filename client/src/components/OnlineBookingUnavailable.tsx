@@ -0,0 +1,31 @@
+import { Phone } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface OnlineBookingUnavailableProps {
+  what: string; // e.g. "appointments", "site visits"
+  phoneNumber?: string | null;
+}
+
+// Shown on the public booking pages until an admin sets up an active appointment type to book
+export function OnlineBookingUnavailable({ what, phoneNumber }: OnlineBookingUnavailableProps) {
+  return (
+    <div className="container mx-auto px-4 py-16">
+      <Card className="max-w-2xl mx-auto text-center" data-testid="card-online-booking-unavailable">
+        <CardHeader>
+          <div className="mx-auto mb-4 w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center">
+            <Phone className="w-8 h-8 text-primary" />
+          </div>
+          <CardTitle className="text-3xl">Online Booking Unavailable</CardTitle>
+          <CardDescription className="text-lg mt-4">
+            We aren't taking {what} online right now
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">
+            Call us at <strong>{phoneNumber || "(555) 123-4567"}</strong> and we'll find a time that suits you.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
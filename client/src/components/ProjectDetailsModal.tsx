@@ -4,16 +4,24 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Separator } from "@/components/ui/separator";
-import type { Project, ProjectComment } from "@shared/schema";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { AttachmentUpload, FileAttachment, Project, ProjectComment } from "@shared/schema";
 import { format } from "date-fns";
 import { Calendar, User, FileText, DollarSign, Clock, CheckCircle, XCircle, Star, MessageSquare, Share2 } from "lucide-react";
 import { formatCurrency } from "@/lib/currency";
 import { useAuth } from "@/hooks/useAuth";
+import { hasPermission } from "@shared/permissions";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { User as UserType } from "@shared/schema";
 import { ProjectTicketsTab } from "./ProjectTicketsTab";
+import { ProjectEquipmentPanel } from "./ProjectEquipmentPanel";
+import { ProjectMaterialsPanel } from "./ProjectMaterialsPanel";
+import { ProjectProfitabilityTab } from "./ProjectProfitabilityTab";
+import { ShareLinksPanel, shareLinksQueryKey } from "@/components/ShareLinksPanel";
+import { AttachmentList } from "@/components/AttachmentList";
+import { AttachmentPicker } from "@/components/AttachmentPicker";
 
 interface ProjectDetailsModalProps {
   project: Project | null;
@@ -31,6 +39,8 @@ export function ProjectDetailsModal({ project, isOpen, onClose, clientName, tech
   const [rating, setRating] = useState(0);
   const [hoveredRating, setHoveredRating] = useState(0);
   const [commentText, setCommentText] = useState("");
+  const [pendingAttachments, setPendingAttachments] = useState<AttachmentUpload[]>([]);
+  const [activeTab, setActiveTab] = useState("overview");
 
   // Fetch project comments
   const { data: comments = [], isLoading: commentsLoading } = useQuery<(ProjectComment & { user: UserType })[]>({
@@ -68,7 +78,7 @@ export function ProjectDetailsModal({ project, isOpen, onClose, clientName, tech
 
   const submitCommentMutation = useMutation({
     mutationFn: async (comment: string) => {
-      const response = await apiRequest('POST', `/api/projects/${project!.id}/comments`, { comment });
+      const response = await apiRequest('POST', `/api/projects/${project!.id}/comments`, { comment, attachments: pendingAttachments });
       return response.json();
     },
     onSuccess: () => {
@@ -78,6 +88,7 @@ export function ProjectDetailsModal({ project, isOpen, onClose, clientName, tech
       });
       queryClient.invalidateQueries({ queryKey: ['/api/projects', project!.id, 'comments'] });
       setCommentText("");
+      setPendingAttachments([]);
     },
     onError: () => {
       toast({
@@ -96,6 +107,7 @@ export function ProjectDetailsModal({ project, isOpen, onClose, clientName, tech
     onSuccess: (data: any) => {
       const shareUrl = `${window.location.origin}/project/${data.projectNumber}/${data.token}`;
       navigator.clipboard.writeText(shareUrl);
+      queryClient.invalidateQueries({ queryKey: shareLinksQueryKey('project', project!.id) });
       toast({ title: "Link copied to clipboard!" });
     },
     onError: (error: any) => {
@@ -110,10 +122,11 @@ export function ProjectDetailsModal({ project, isOpen, onClose, clientName, tech
   if (!project) return null;
 
   const isClient = typedUser?.role === 'client';
+  const canViewFinancial = !!typedUser?.role && hasPermission(typedUser.role, 'viewFinancial');
   const canSubmitFeedback = isClient && !project.clientFeedback && project.status === 'completed';
 
   const handleSubmitComment = () => {
-    if (!commentText.trim()) {
+    if (!commentText.trim() && pendingAttachments.length === 0) {
       toast({
         title: "Missing comment",
         description: "Please enter a comment.",
@@ -173,7 +186,18 @@ export function ProjectDetailsModal({ project, isOpen, onClose, clientName, tech
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-6">
+        {canViewFinancial && (
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <TabsList className="mb-4">
+              <TabsTrigger value="overview" data-testid="tab-project-overview">Overview</TabsTrigger>
+              <TabsTrigger value="profitability" data-testid="tab-project-profitability">Profitability</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
+
+        {canViewFinancial && activeTab === 'profitability' && <ProjectProfitabilityTab projectId={project.id} />}
+
+        <div className={activeTab === 'overview' ? "space-y-6" : "hidden"}>
           {/* Status and Service Type */}
           <div className="flex flex-wrap items-center gap-3">
             <Badge className={getStatusColor(project.status || 'scheduled')}>
@@ -282,23 +306,26 @@ export function ProjectDetailsModal({ project, isOpen, onClose, clientName, tech
             </>
           )}
 
-          {/* Equipment Used */}
+          {/* Materials */}
+          <ProjectMaterialsPanel project={project} />
+
+          {/* Equipment recorded before materials were tracked against inventory */}
           {project.equipmentUsed && Array.isArray(project.equipmentUsed) && (project.equipmentUsed as any[]).length > 0 && (
-            <>
-              <Separator />
-              <div className="space-y-2">
-                <h4 className="text-sm font-semibold">Equipment Used</h4>
-                <ul className="list-disc list-inside space-y-1">
-                  {(project.equipmentUsed as any[]).map((item: any, index: number) => (
-                    <li key={index} className="text-sm text-muted-foreground">
-                      {typeof item === 'string' ? item : item.name || 'Unknown item'}
-                    </li>
-                  ))}
-                </ul>
-              </div>
-            </>
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Equipment Used (recorded before materials tracking)</h4>
+              <ul className="list-disc list-inside space-y-1">
+                {(project.equipmentUsed as any[]).map((item: any, index: number) => (
+                  <li key={index} className="text-sm text-muted-foreground">
+                    {typeof item === 'string' ? item : item.name || 'Unknown item'}
+                  </li>
+                ))}
+              </ul>
+            </div>
           )}
 
+          {/* Serialised Equipment */}
+          <ProjectEquipmentPanel projectId={project.id} />
+
           {/* Project Tickets Section */}
           <Separator />
           <ProjectTicketsTab projectId={project.id} />
@@ -338,6 +365,7 @@ export function ProjectDetailsModal({ project, isOpen, onClose, clientName, tech
                       </div>
                     </div>
                     <p className="text-sm whitespace-pre-wrap">{comment.comment}</p>
+                    <AttachmentList attachments={comment.attachments as FileAttachment[]} />
                   </div>
                 ))}
               </div>
@@ -352,14 +380,21 @@ export function ProjectDetailsModal({ project, isOpen, onClose, clientName, tech
                 rows={3}
                 data-testid="textarea-project-comment"
               />
-              <Button
-                onClick={handleSubmitComment}
-                disabled={submitCommentMutation.isPending || !commentText.trim()}
-                size="sm"
-                data-testid="button-submit-comment"
-              >
-                {submitCommentMutation.isPending ? 'Adding...' : 'Add Comment'}
-              </Button>
+              <div className="flex items-start justify-between gap-2">
+                <AttachmentPicker
+                  value={pendingAttachments}
+                  onChange={setPendingAttachments}
+                  disabled={submitCommentMutation.isPending}
+                />
+                <Button
+                  onClick={handleSubmitComment}
+                  disabled={submitCommentMutation.isPending || (!commentText.trim() && pendingAttachments.length === 0)}
+                  size="sm"
+                  data-testid="button-submit-comment"
+                >
+                  {submitCommentMutation.isPending ? 'Adding...' : 'Add Comment'}
+                </Button>
+              </div>
             </div>
           </div>
 
@@ -453,6 +488,13 @@ export function ProjectDetailsModal({ project, isOpen, onClose, clientName, tech
             </>
           )}
 
+          {/* Share links and access log for staff */}
+          {!isClient && (
+            <div className="border-t pt-4">
+              <ShareLinksPanel entityType="project" entityId={project.id} documentNumber={project.ticketNumber} />
+            </div>
+          )}
+
           {/* Share Link Button for Staff */}
           {!isClient && (
             <>
@@ -0,0 +1,292 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { HardDrive, Plus, Search, Undo2, Wrench } from "lucide-react";
+import { format } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { hasPermission } from "@shared/permissions";
+import type { StockLocation } from "@shared/schema";
+import { type SerializedUnitDetail, serialStatusLabels, getSerialStatusColor, WarrantyLabel } from "./SerialNumbersPanel";
+
+const UNASSIGNED = "unassigned";
+
+interface ProjectEquipmentPanelProps {
+  projectId: string;
+}
+
+export function ProjectEquipmentPanel({ projectId }: ProjectEquipmentPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canManage = !!user?.role && hasPermission(user.role, 'manageInventory');
+  const [isAllocateOpen, setIsAllocateOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [search, setSearch] = useState("");
+  const [installingUnit, setInstallingUnit] = useState<SerializedUnitDetail | null>(null);
+  const [installedAt, setInstalledAt] = useState("");
+  const [installLocationId, setInstallLocationId] = useState(UNASSIGNED);
+
+  const { data: units = [], isLoading } = useQuery<SerializedUnitDetail[]>({
+    queryKey: ['/api/projects', projectId, 'serials'],
+  });
+
+  const { data: available = [] } = useQuery<SerializedUnitDetail[]>({
+    queryKey: ['/api/serials', search, 'in_stock'],
+    queryFn: async () => {
+      const params = new URLSearchParams({ status: 'in_stock' });
+      if (search) params.set('search', search);
+      const response = await apiRequest('GET', `/api/serials?${params.toString()}`);
+      return response.json();
+    },
+    enabled: canManage && isAllocateOpen,
+  });
+
+  const { data: locations = [] } = useQuery<StockLocation[]>({
+    queryKey: ['/api/inventory/locations'],
+    enabled: canManage && !!installingUnit,
+  });
+
+  const invalidateSerials = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'serials'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/serials'] });
+  };
+
+  const allocateMutation = useMutation({
+    mutationFn: async (unitIds: string[]) => {
+      const response = await apiRequest('POST', `/api/projects/${projectId}/serials`, { unitIds });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSerials();
+      toast({ title: "Unit allocated to project" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to allocate unit",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const installMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/serials/${installingUnit!.id}/install`, {
+        installedAt: installedAt || undefined,
+        locationId: installLocationId === UNASSIGNED ? null : installLocationId,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSerials();
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory/items'] });
+      setInstallingUnit(null);
+      toast({ title: "Installation recorded" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to record installation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async (unitId: string) => {
+      const response = await apiRequest('POST', `/api/serials/${unitId}/release`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSerials();
+      toast({ title: "Unit returned to stock" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to release unit",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openInstallDialog = (unit: SerializedUnitDetail) => {
+    setInstalledAt(format(new Date(), 'yyyy-MM-dd'));
+    setInstallLocationId(UNASSIGNED);
+    setInstallingUnit(unit);
+  };
+
+  // Nothing to show clients or technicians until equipment is allocated
+  if (!canManage && !isLoading && units.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <Separator />
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="text-base font-semibold flex items-center gap-2">
+            <HardDrive className="w-4 h-4 text-primary" />
+            Installed Equipment
+          </h4>
+          {canManage && (
+            <Button size="sm" variant="outline" onClick={() => setIsAllocateOpen(true)} data-testid="button-allocate-serials">
+              <Plus className="w-4 h-4 mr-1" />
+              Allocate Serial
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading equipment...</p>
+        ) : units.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">No serialised equipment allocated yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {units.map(unit => (
+              <div key={unit.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3" data-testid={`project-serial-${unit.id}`}>
+                <div>
+                  <p className="text-sm font-medium">{unit.itemName}</p>
+                  <p className="text-xs text-muted-foreground font-mono">{unit.serialNumber}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  {unit.installedAt && (
+                    <div className="text-right">
+                      <p className="text-xs text-muted-foreground">Installed {format(new Date(unit.installedAt), 'MMM d, yyyy')}</p>
+                      <p className="text-xs">Warranty: <WarrantyLabel warrantyEndsAt={unit.warrantyEndsAt} /></p>
+                    </div>
+                  )}
+                  <Badge className={getSerialStatusColor(unit.status)}>{serialStatusLabels[unit.status]}</Badge>
+                  {canManage && unit.status === 'allocated' && (
+                    <>
+                      <Button size="sm" onClick={() => openInstallDialog(unit)} data-testid={`button-install-serial-${unit.id}`}>
+                        <Wrench className="w-4 h-4 mr-1" />
+                        Install
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => releaseMutation.mutate(unit.id)}
+                        disabled={releaseMutation.isPending}
+                        title="Return to stock"
+                        data-testid={`button-release-serial-${unit.id}`}
+                      >
+                        <Undo2 className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Allocate Serial Dialog */}
+        <Dialog open={isAllocateOpen} onOpenChange={setIsAllocateOpen}>
+          <DialogContent data-testid="dialog-allocate-serials">
+            <DialogHeader>
+              <DialogTitle>Allocate Serial Numbers</DialogTitle>
+              <DialogDescription>Reserve specific in-stock units for this project</DialogDescription>
+            </DialogHeader>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                setSearch(searchTerm.trim());
+              }}
+            >
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  placeholder="Search serial number..."
+                  className="pl-9"
+                  data-testid="input-allocate-serial-search"
+                />
+              </div>
+              <Button type="submit" variant="outline">Search</Button>
+            </form>
+            <div className="max-h-[320px] overflow-y-auto space-y-2">
+              {available.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">No in-stock units found.</p>
+              ) : (
+                available.map(unit => (
+                  <div key={unit.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                    <div>
+                      <p className="text-sm font-medium">{unit.itemName}</p>
+                      <p className="text-xs text-muted-foreground font-mono">{unit.serialNumber}</p>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => allocateMutation.mutate([unit.id])}
+                      disabled={allocateMutation.isPending}
+                      data-testid={`button-allocate-serial-${unit.id}`}
+                    >
+                      Allocate
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        {/* Install Serial Dialog */}
+        <Dialog open={!!installingUnit} onOpenChange={(open) => !open && setInstallingUnit(null)}>
+          <DialogContent data-testid="dialog-install-serial">
+            <DialogHeader>
+              <DialogTitle>Record Installation</DialogTitle>
+              <DialogDescription>
+                {installingUnit?.itemName} - <span className="font-mono">{installingUnit?.serialNumber}</span>
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="serial-installed-at">Install Date</Label>
+                <Input
+                  id="serial-installed-at"
+                  type="date"
+                  value={installedAt}
+                  onChange={(e) => setInstalledAt(e.target.value)}
+                  data-testid="input-serial-installed-at"
+                />
+                <p className="text-xs text-muted-foreground">Warranty end is calculated from the item's warranty period.</p>
+              </div>
+              <div className="space-y-2">
+                <Label>Taken From</Label>
+                <Select value={installLocationId} onValueChange={setInstallLocationId}>
+                  <SelectTrigger data-testid="select-serial-install-location">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Unassigned stock</SelectItem>
+                    {locations.map(location => (
+                      <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setInstallingUnit(null)}>
+                Cancel
+              </Button>
+              <Button onClick={() => installMutation.mutate()} disabled={installMutation.isPending} data-testid="button-confirm-install-serial">
+                {installMutation.isPending ? 'Saving...' : 'Record Installation'}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </>
+  );
+}
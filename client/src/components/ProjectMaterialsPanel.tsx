@@ -0,0 +1,355 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Boxes, Plus, PackageMinus, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/currency";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { hasPermission } from "@shared/permissions";
+import type { InventoryItem, Project, ProjectMaterial, StockLocation } from "@shared/schema";
+
+const UNASSIGNED = "unassigned";
+
+// Clients receive the material list without cost fields
+type ProjectMaterialDetail = Omit<ProjectMaterial, 'unitCost' | 'totalCost'> & {
+  unitCost?: string | null;
+  totalCost?: string;
+  sku: string;
+  itemName: string;
+  unitOfMeasure: string | null;
+  currentUnitCost?: string | null;
+  isSerialized: boolean;
+};
+
+interface ProjectMaterialsPanelProps {
+  project: Project;
+}
+
+export function ProjectMaterialsPanel({ project }: ProjectMaterialsPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isClient = user?.role === 'client';
+  const canManage = !!user?.role && (hasPermission(user.role, 'manageAllProjects') ||
+    (hasPermission(user.role, 'manageOwnProjects') && project.assignedTechnicianId === user.id));
+  // Picking from the catalogue needs inventory access; assigned technicians book usage against planned lines
+  const canPlan = canManage && !!user?.role && hasPermission(user.role, 'viewInventory');
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [newItemId, setNewItemId] = useState("");
+  const [newQuantity, setNewQuantity] = useState("1");
+  const [consuming, setConsuming] = useState<ProjectMaterialDetail | null>(null);
+  const [consumeQuantity, setConsumeQuantity] = useState("1");
+  const [consumeLocationId, setConsumeLocationId] = useState(UNASSIGNED);
+
+  const materialsQueryKey = ['/api/projects', project.id, 'materials'];
+
+  const { data: materials = [], isLoading } = useQuery<ProjectMaterialDetail[]>({
+    queryKey: materialsQueryKey,
+  });
+
+  const { data: items = [] } = useQuery<InventoryItem[]>({
+    queryKey: ["/api/inventory/items"],
+    enabled: canPlan && isAddOpen,
+  });
+
+  const { data: locations = [] } = useQuery<StockLocation[]>({
+    queryKey: ['/api/inventory/locations'],
+    enabled: canManage,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/projects/${project.id}/materials`, {
+        itemId: newItemId,
+        quantityPlanned: parseInt(newQuantity) || 0,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: materialsQueryKey });
+      setIsAddOpen(false);
+      toast({ title: "Material added to project" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to add material",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (materialId: string) => {
+      await apiRequest('DELETE', `/api/projects/${project.id}/materials/${materialId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: materialsQueryKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to remove material",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const consumeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/projects/${project.id}/materials/${consuming!.id}/consume`, {
+        quantity: parseInt(consumeQuantity),
+        locationId: consumeLocationId === UNASSIGNED ? null : consumeLocationId,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: materialsQueryKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory/items'] });
+      setConsuming(null);
+      toast({ title: "Material usage recorded" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to record usage",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openAddDialog = () => {
+    setNewItemId("");
+    setNewQuantity("1");
+    setIsAddOpen(true);
+  };
+
+  const openConsumeDialog = (material: ProjectMaterialDetail) => {
+    const remaining = material.quantityPlanned - material.quantityUsed;
+    setConsumeQuantity(String(remaining > 0 ? remaining : 1));
+    // Technicians usually draw from their own van
+    const ownVan = locations.find(location => location.type === 'van' && location.assignedUserId === user?.id);
+    setConsumeLocationId(ownVan?.id ?? UNASSIGNED);
+    setConsuming(material);
+  };
+
+  const materialCost = materials.reduce((sum, material) => sum + parseFloat(material.totalCost || '0'), 0);
+
+  if (!canManage && !isLoading && materials.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <Separator />
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="text-base font-semibold flex items-center gap-2">
+            <Boxes className="w-4 h-4 text-primary" />
+            Materials
+          </h4>
+          {canPlan && (
+            <Button size="sm" variant="outline" onClick={openAddDialog} data-testid="button-add-project-material">
+              <Plus className="w-4 h-4 mr-1" />
+              Add Material
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading materials...</p>
+        ) : materials.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">No materials planned yet.</p>
+        ) : (
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Planned</TableHead>
+                  <TableHead className="text-right">Used</TableHead>
+                  {!isClient && <TableHead className="text-right">Cost</TableHead>}
+                  {canManage && <TableHead className="w-[100px]" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {materials.map(material => (
+                  <TableRow key={material.id} data-testid={`row-project-material-${material.id}`}>
+                    <TableCell>
+                      <p className="text-sm font-medium">{material.itemName}</p>
+                      <p className="text-xs text-muted-foreground font-mono">{material.sku}</p>
+                    </TableCell>
+                    <TableCell className="text-right">{material.quantityPlanned} {material.unitOfMeasure || ''}</TableCell>
+                    <TableCell className="text-right">
+                      <span className={material.quantityUsed > material.quantityPlanned ? 'text-yellow-600 font-medium' : undefined}>
+                        {material.quantityUsed}
+                      </span>
+                    </TableCell>
+                    {!isClient && (
+                      <TableCell className="text-right">
+                        {material.quantityUsed > 0 ? (
+                          <>
+                            <p className="text-sm">{formatCurrency(material.totalCost || '0')}</p>
+                            <p className="text-xs text-muted-foreground">@ {formatCurrency(material.unitCost || '0')}</p>
+                          </>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">@ {formatCurrency(material.currentUnitCost || '0')}</span>
+                        )}
+                      </TableCell>
+                    )}
+                    {canManage && (
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          {!material.isSerialized && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => openConsumeDialog(material)}
+                              title="Record usage"
+                              data-testid={`button-consume-material-${material.id}`}
+                            >
+                              <PackageMinus className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {material.quantityUsed === 0 && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => removeMutation.mutate(material.id)}
+                              disabled={removeMutation.isPending}
+                              title="Remove"
+                              data-testid={`button-remove-material-${material.id}`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        {!isClient && materialCost > 0 && (
+          <p className="text-right text-sm font-semibold">Materials used: {formatCurrency(materialCost)}</p>
+        )}
+        {canManage && materials.some(material => material.isSerialized) && (
+          <p className="text-xs text-muted-foreground">Serial-tracked items are booked when their serial numbers are installed.</p>
+        )}
+
+        {/* Add Material Dialog */}
+        <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+          <DialogContent data-testid="dialog-add-project-material">
+            <DialogHeader>
+              <DialogTitle>Add Material</DialogTitle>
+              <DialogDescription>Plan stock for this project; it is only taken from inventory when used</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Item</Label>
+                <Select value={newItemId} onValueChange={setNewItemId}>
+                  <SelectTrigger data-testid="select-project-material-item">
+                    <SelectValue placeholder="Select inventory item" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {items.map(item => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {item.sku} - {item.name} ({item.quantityInStock ?? 0} in stock)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="project-material-quantity">Planned Quantity</Label>
+                <Input
+                  id="project-material-quantity"
+                  type="number"
+                  min="0"
+                  value={newQuantity}
+                  onChange={(e) => setNewQuantity(e.target.value)}
+                  data-testid="input-project-material-quantity"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsAddOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => addMutation.mutate()}
+                disabled={!newItemId || addMutation.isPending}
+                data-testid="button-save-project-material"
+              >
+                {addMutation.isPending ? 'Adding...' : 'Add'}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        {/* Record Usage Dialog */}
+        <Dialog open={!!consuming} onOpenChange={(open) => !open && setConsuming(null)}>
+          <DialogContent data-testid="dialog-consume-project-material">
+            <DialogHeader>
+              <DialogTitle>Record Material Usage</DialogTitle>
+              <DialogDescription>
+                {consuming?.itemName} - {consuming?.quantityUsed ?? 0} of {consuming?.quantityPlanned ?? 0} used so far
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="consume-quantity">Quantity Used</Label>
+                <Input
+                  id="consume-quantity"
+                  type="number"
+                  min="1"
+                  value={consumeQuantity}
+                  onChange={(e) => setConsumeQuantity(e.target.value)}
+                  data-testid="input-consume-quantity"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Taken From</Label>
+                <Select value={consumeLocationId} onValueChange={setConsumeLocationId}>
+                  <SelectTrigger data-testid="select-consume-location">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Unassigned stock</SelectItem>
+                    {locations.map(location => (
+                      <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Stock is taken out of inventory and its cost is added to the project total.
+              </p>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setConsuming(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => consumeMutation.mutate()}
+                disabled={!(parseInt(consumeQuantity) > 0) || consumeMutation.isPending}
+                data-testid="button-confirm-consume-material"
+              >
+                {consumeMutation.isPending ? 'Saving...' : 'Record Usage'}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </>
+  );
+}
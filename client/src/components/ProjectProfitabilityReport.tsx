@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/currency";
+import { exportToCSV } from "@/lib/exportUtils";
+import { type ProjectProfitability, marginColor } from "./ProjectProfitabilityTab";
+
+const statusOptions = [
+  { value: "all", label: "All Statuses" },
+  { value: "completed", label: "Completed" },
+  { value: "in_progress", label: "In Progress" },
+  { value: "scheduled", label: "Scheduled" },
+  { value: "on_hold", label: "On Hold" },
+];
+
+type SortKey = 'margin' | 'marginPercent' | 'invoiced' | 'totalCost';
+
+export function ProjectProfitabilityReport() {
+  const [status, setStatus] = useState("completed");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [sortKey, setSortKey] = useState<SortKey>('margin');
+
+  const { data: rows = [], isLoading } = useQuery<ProjectProfitability[]>({
+    queryKey: ['/api/financial/project-profitability', status, from, to],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (status !== 'all') params.set('status', status);
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      const response = await apiRequest('GET', `/api/financial/project-profitability?${params.toString()}`);
+      return response.json();
+    },
+  });
+
+  // Least profitable first, so problem jobs are at the top
+  const sortedRows = [...rows].sort((a, b) => (a[sortKey] ?? -Infinity) - (b[sortKey] ?? -Infinity));
+  const totals = rows.reduce(
+    (sum, row) => ({
+      quotedValue: sum.quotedValue + row.quotedValue,
+      invoiced: sum.invoiced + row.invoiced,
+      collected: sum.collected + row.collected,
+      totalCost: sum.totalCost + row.totalCost,
+      margin: sum.margin + row.margin,
+    }),
+    { quotedValue: 0, invoiced: 0, collected: 0, totalCost: 0, margin: 0 },
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle>Project Profitability</CardTitle>
+          <CardDescription>Invoiced and collected revenue against materials, labour and expenses per project</CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => exportToCSV(sortedRows, 'project-profitability')}
+          disabled={rows.length === 0}
+          data-testid="button-export-profitability"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Status</Label>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-[160px]" data-testid="select-profitability-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {statusOptions.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="profitability-from" className="text-xs">From</Label>
+            <Input id="profitability-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-profitability-from" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="profitability-to" className="text-xs">To</Label>
+            <Input id="profitability-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-profitability-to" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Sort By</Label>
+            <Select value={sortKey} onValueChange={(value) => setSortKey(value as SortKey)}>
+              <SelectTrigger className="w-[160px]" data-testid="select-profitability-sort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="margin">Margin</SelectItem>
+                <SelectItem value="marginPercent">Margin %</SelectItem>
+                <SelectItem value="invoiced">Invoiced</SelectItem>
+                <SelectItem value="totalCost">Total Cost</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Calculating job costs...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No projects match these filters.</p>
+        ) : (
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Project</TableHead>
+                  <TableHead className="text-right">Quoted</TableHead>
+                  <TableHead className="text-right">Invoiced</TableHead>
+                  <TableHead className="text-right">Collected</TableHead>
+                  <TableHead className="text-right">Materials</TableHead>
+                  <TableHead className="text-right">Labour</TableHead>
+                  <TableHead className="text-right">Expenses</TableHead>
+                  <TableHead className="text-right">Margin</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedRows.map(row => (
+                  <TableRow key={row.projectId} data-testid={`row-profitability-${row.projectId}`}>
+                    <TableCell>
+                      <p className="font-medium">{row.projectName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        <span className="font-mono">{row.ticketNumber}</span>
+                        {row.clientName && ` - ${row.clientName}`}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.quotedValue)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.invoiced)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.collected)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.materialsCost)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.laborCost)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.expensesCost)}</TableCell>
+                    <TableCell className="text-right">
+                      <p className={`font-medium ${marginColor(row.margin)}`}>{formatCurrency(row.margin)}</p>
+                      {row.marginPercent !== null && (
+                        <p className="text-xs text-muted-foreground">{row.marginPercent}%</p>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell className="font-semibold">{rows.length} project(s)</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.quotedValue)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.invoiced)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.collected)}</TableCell>
+                  <TableCell colSpan={3} className="text-right">{formatCurrency(totals.totalCost)} total cost</TableCell>
+                  <TableCell className={`text-right font-semibold ${marginColor(totals.margin)}`}>
+                    {formatCurrency(totals.margin)}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,120 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { TrendingUp, TrendingDown } from "lucide-react";
+import { formatCurrency } from "@/lib/currency";
+
+export interface ProjectProfitability {
+  projectId: string;
+  ticketNumber: string;
+  projectName: string;
+  status: string | null;
+  clientName: string | null;
+  quotedValue: number;
+  invoiced: number;
+  collected: number;
+  materialsCost: number;
+  laborHours: number;
+  laborCost: number;
+  expensesCost: number;
+  totalCost: number;
+  margin: number;
+  marginPercent: number | null;
+  projectedMargin: number;
+}
+
+export const marginColor = (margin: number) => margin < 0 ? 'text-destructive' : 'text-green-600';
+
+interface ProjectProfitabilityTabProps {
+  projectId: string;
+}
+
+export function ProjectProfitabilityTab({ projectId }: ProjectProfitabilityTabProps) {
+  const { data: profitability, isLoading } = useQuery<ProjectProfitability>({
+    queryKey: ['/api/projects', projectId, 'profitability'],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Calculating job costs...</p>;
+  }
+  if (!profitability) {
+    return <p className="text-sm text-muted-foreground">Profitability is not available for this project.</p>;
+  }
+
+  const revenueRows = [
+    { label: "Quoted (accepted)", value: profitability.quotedValue, testId: "quoted" },
+    { label: "Invoiced", value: profitability.invoiced, testId: "invoiced" },
+    { label: "Collected", value: profitability.collected, testId: "collected" },
+  ];
+  const costRows = [
+    { label: "Materials", value: profitability.materialsCost, testId: "materials" },
+    { label: `Labour (${profitability.laborHours}h approved)`, value: profitability.laborCost, testId: "labor" },
+    { label: "Expenses", value: profitability.expensesCost, testId: "expenses" },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card>
+          <CardContent className="pt-6 space-y-2">
+            <h4 className="text-sm font-semibold text-muted-foreground">Revenue</h4>
+            {revenueRows.map(row => (
+              <div key={row.testId} className="flex justify-between text-sm" data-testid={`text-profitability-${row.testId}`}>
+                <span>{row.label}</span>
+                <span className="font-medium">{formatCurrency(row.value)}</span>
+              </div>
+            ))}
+            {profitability.invoiced > profitability.collected && (
+              <p className="text-xs text-muted-foreground">
+                {formatCurrency(profitability.invoiced - profitability.collected)} still outstanding
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6 space-y-2">
+            <h4 className="text-sm font-semibold text-muted-foreground">Costs</h4>
+            {costRows.map(row => (
+              <div key={row.testId} className="flex justify-between text-sm" data-testid={`text-profitability-${row.testId}`}>
+                <span>{row.label}</span>
+                <span className="font-medium">{formatCurrency(row.value)}</span>
+              </div>
+            ))}
+            <Separator />
+            <div className="flex justify-between text-sm font-semibold">
+              <span>Total Cost</span>
+              <span>{formatCurrency(profitability.totalCost)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            {profitability.margin < 0 ? (
+              <TrendingDown className="w-6 h-6 text-destructive" />
+            ) : (
+              <TrendingUp className="w-6 h-6 text-green-600" />
+            )}
+            <div>
+              <p className="text-sm text-muted-foreground">Margin on invoiced work</p>
+              <p className={`text-2xl font-bold ${marginColor(profitability.margin)}`} data-testid="text-profitability-margin">
+                {formatCurrency(profitability.margin)}
+                {profitability.marginPercent !== null && (
+                  <span className="text-base font-medium ml-2">({profitability.marginPercent}%)</span>
+                )}
+              </p>
+            </div>
+          </div>
+          <div className="text-right">
+            <p className="text-sm text-muted-foreground">Projected margin on quote</p>
+            <p className={`text-lg font-semibold ${marginColor(profitability.projectedMargin)}`} data-testid="text-profitability-projected-margin">
+              {formatCurrency(profitability.projectedMargin)}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
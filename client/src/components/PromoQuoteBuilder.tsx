@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -19,9 +19,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Plus, Trash2, FileText, DollarSign, Save, Download, Search, Percent, Share2, Printer } from "lucide-react";
-import jsPDF from "jspdf";
-import html2canvas from "html2canvas";
-import { format } from "date-fns";
+import { downloadPDF } from "@/lib/exportUtils";
 import { QuotePreview } from "./QuotePreview";
 
 interface PromoQuoteItem {
@@ -45,7 +43,7 @@ export default function PromoQuoteBuilder() {
   const [selectedItems, setSelectedItems] = useState<PromoQuoteItem[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const quotePreviewRef = useRef<HTMLDivElement>(null);
+  const [isDownloadingPDF, setIsDownloadingPDF] = useState(false);
 
   const { data: priceMatrixItems = [], isLoading: priceMatrixLoading } = useQuery<PriceMatrix[]>({
     queryKey: ['/api/price-matrix/active'],
@@ -364,128 +362,32 @@ export default function PromoQuoteBuilder() {
   };
 
   const handleDownloadPDF = async () => {
-    if (selectedItems.length === 0) {
-      toast({
-        title: "No items to export",
-        description: "Please add items before generating a PDF",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    const leadId = form.watch('leadId');
-    const clientId = form.watch('clientId');
-    const selectedLead = leads.find(l => l.id === leadId);
-    const selectedClient = clients.find(c => c.id === clientId);
-    const recipient = selectedLead || selectedClient;
-
-    if (!recipient) {
+    // The PDF is rendered on the server from the saved quote
+    if (!quoteId) {
       toast({
-        title: "No recipient selected",
-        description: "Please select a lead or client before generating PDF",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    if (!quotePreviewRef.current) {
-      toast({
-        title: "Preview not ready",
-        description: "Please wait for the preview to load",
+        title: "Please save first",
+        description: "You need to save the quote before downloading a PDF",
         variant: "destructive",
       });
       return;
     }
 
+    setIsDownloadingPDF(true);
     try {
-      // Capture the preview component as an image
-      const canvas = await html2canvas(quotePreviewRef.current, {
-        scale: 2,
-        useCORS: true,
-        logging: false,
-        backgroundColor: '#ffffff',
-      });
-
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      const pageWidth = 210; // A4 width in mm
-      const pageHeight = 297; // A4 height in mm
-      
-      // Calculate how the image maps to PDF dimensions
-      const imgWidth = pageWidth;
-      const imgHeight = (canvas.height * pageWidth) / canvas.width;
-      const pageHeightInPixels = (canvas.width * pageHeight) / pageWidth;
-
-      let heightLeft = canvas.height;
-      let position = 0;
-      let page = 0;
-
-      while (heightLeft > 0) {
-        // Calculate slice height, clamped to remaining content
-        const idealSliceHeight = Math.ceil(pageHeightInPixels);
-        const actualSliceHeight = Math.min(idealSliceHeight, heightLeft);
-        
-        // Create a temporary canvas for each page
-        const pageCanvas = document.createElement('canvas');
-        pageCanvas.width = canvas.width;
-        pageCanvas.height = actualSliceHeight;
-        
-        const ctx = pageCanvas.getContext('2d');
-        if (ctx) {
-          // Draw the slice of the original canvas for this page
-          // Ensure we don't try to read past the end of the source canvas
-          const sourceHeight = Math.min(actualSliceHeight, canvas.height - position);
-          
-          ctx.drawImage(
-            canvas,
-            0,
-            position,
-            canvas.width,
-            sourceHeight,
-            0,
-            0,
-            canvas.width,
-            sourceHeight
-          );
-
-          const pageImgHeight = (actualSliceHeight * pageWidth) / pageCanvas.width;
-          
-          // Add new page if not the first page
-          if (page > 0) {
-            pdf.addPage();
-          }
-          
-          // Add the sliced image to the PDF
-          pdf.addImage(
-            pageCanvas.toDataURL('image/png'),
-            'PNG',
-            0,
-            0,
-            imgWidth,
-            pageImgHeight
-          );
-        }
-
-        // Update position based on actual slice height used
-        heightLeft -= actualSliceHeight;
-        position += actualSliceHeight;
-        page++;
-      }
-
-      const quoteNumber = form.watch('quoteNumber') || 'DRAFT';
-      const currentDate = format(new Date(), 'yyyy-MM-dd');
-      pdf.save(`promo-quote-${quoteNumber}-${currentDate}.pdf`);
-      
+      await downloadPDF(`/api/quotes/${quoteId}/pdf`, `Quote-${existingQuote?.quoteNumber || form.watch('quoteNumber')}.pdf`);
       toast({
         title: "PDF Downloaded",
         description: "Promotional quote has been downloaded successfully",
       });
     } catch (error) {
-      console.error('PDF generation error:', error);
+      console.error('PDF download error:', error);
       toast({
-        title: "Failed to generate PDF",
-        description: "An error occurred while creating the PDF",
+        title: "Failed to download PDF",
+        description: "Please try again",
         variant: "destructive",
       });
+    } finally {
+      setIsDownloadingPDF(false);
     }
   };
 
@@ -860,7 +762,7 @@ export default function PromoQuoteBuilder() {
                 type="button"
                 variant="outline"
                 onClick={handleDownloadPDF}
-                disabled={selectedItems.length === 0}
+                disabled={isDownloadingPDF}
                 data-testid="button-promo-download-pdf"
               >
                 <Download className="h-4 w-4 mr-2" />
@@ -975,7 +877,6 @@ export default function PromoQuoteBuilder() {
     </Card>
 
       <QuotePreview
-        ref={quotePreviewRef}
         items={selectedItems}
         subtotal={form.watch('subtotal') || '0.00'}
         taxRate={form.watch('taxRate') || '0.00'}
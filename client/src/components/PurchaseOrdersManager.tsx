@@ -0,0 +1,671 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Plus, Trash2, Send, PackageCheck, Ban, Pencil, AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/currency";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { hasPermission } from "@shared/permissions";
+import type { InventoryItem, PurchaseOrder, PurchaseOrderLine, StockLocation, Supplier } from "@shared/schema";
+
+type PurchaseOrderWithSupplier = PurchaseOrder & { supplierName: string };
+type PurchaseOrderLineDetail = PurchaseOrderLine & { sku: string; itemName: string; unitOfMeasure: string | null; isSerialized: boolean };
+type PurchaseOrderWithLines = PurchaseOrderWithSupplier & { lines: PurchaseOrderLineDetail[] };
+
+interface DraftLine {
+  itemId: string;
+  quantityOrdered: string;
+  unitCost: string;
+}
+
+const UNASSIGNED = "unassigned";
+
+const statusLabels: Record<PurchaseOrder['status'], string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_received: "Partially Received",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+const getStatusColor = (status: PurchaseOrder['status']) => {
+  switch (status) {
+    case 'sent':
+      return 'bg-blue-500/10 text-blue-500 border-blue-500/20';
+    case 'partially_received':
+      return 'bg-yellow-500/10 text-yellow-600 border-yellow-500/20';
+    case 'received':
+      return 'bg-green-500/10 text-green-500 border-green-500/20';
+    case 'cancelled':
+      return 'bg-red-500/10 text-red-500 border-red-500/20';
+    default:
+      return 'bg-gray-500/10 text-gray-500 border-gray-500/20';
+  }
+};
+
+// Enough to bring the item back to twice its minimum, so it doesn't show as low stock again straight away
+const suggestedQuantity = (item: InventoryItem) =>
+  Math.max((item.minimumStockLevel || 0) * 2 - (item.quantityInStock || 0), 1);
+
+const lineTotal = (lines: DraftLine[]) =>
+  lines.reduce((sum, line) => sum + (parseInt(line.quantityOrdered) || 0) * (parseFloat(line.unitCost) || 0), 0);
+
+export function PurchaseOrdersManager() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canManage = !!user?.role && hasPermission(user.role, 'manageInventory');
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [supplierId, setSupplierId] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [receiving, setReceiving] = useState<Record<string, string>>({});
+  const [receivingSerials, setReceivingSerials] = useState<Record<string, string>>({});
+  const [receiveLocationId, setReceiveLocationId] = useState(UNASSIGNED);
+
+  const { data: orders = [], isLoading } = useQuery<PurchaseOrderWithSupplier[]>({
+    queryKey: ['/api/purchase-orders'],
+  });
+
+  const { data: viewingOrder } = useQuery<PurchaseOrderWithLines>({
+    queryKey: ['/api/purchase-orders', viewingId],
+    enabled: !!viewingId,
+  });
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+    enabled: canManage,
+  });
+
+  const { data: items = [] } = useQuery<InventoryItem[]>({
+    queryKey: ["/api/inventory/items"],
+    enabled: canManage,
+  });
+
+  const { data: lowStockItems = [] } = useQuery<InventoryItem[]>({
+    queryKey: ["/api/inventory/low-stock"],
+    enabled: canManage,
+  });
+
+  const { data: locations = [] } = useQuery<StockLocation[]>({
+    queryKey: ['/api/inventory/locations'],
+    enabled: canManage,
+  });
+
+  const invalidateOrders = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders/supplier-totals'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        supplierId,
+        expectedDate: expectedDate || null,
+        notes: notes.trim() || null,
+        lines: lines.map(line => ({
+          itemId: line.itemId,
+          quantityOrdered: parseInt(line.quantityOrdered),
+          unitCost: parseFloat(line.unitCost).toFixed(2),
+        })),
+      };
+      const response = editingId
+        ? await apiRequest('PATCH', `/api/purchase-orders/${editingId}`, payload)
+        : await apiRequest('POST', '/api/purchase-orders', payload);
+      return response.json();
+    },
+    onSuccess: (order: PurchaseOrderWithLines) => {
+      invalidateOrders();
+      setIsFormOpen(false);
+      toast({ title: editingId ? `${order.poNumber} updated` : `${order.poNumber} drafted` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save purchase order",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action, body }: { id: string; action: 'send' | 'cancel' | 'receive'; body?: unknown }) => {
+      const response = await apiRequest('POST', `/api/purchase-orders/${id}/${action}`, body);
+      return response.json();
+    },
+    onSuccess: (order: PurchaseOrderWithLines, { action }) => {
+      invalidateOrders();
+      if (action === 'receive') {
+        queryClient.invalidateQueries({ queryKey: ["/api/inventory/items"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
+        queryClient.invalidateQueries({ queryKey: ['/api/inventory/transactions'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/inventory/locations'] });
+        setReceiving({});
+      }
+      const messages = { send: 'sent to supplier', cancel: 'cancelled', receive: 'received into stock' };
+      toast({ title: `${order.poNumber} ${messages[action]}` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Purchase order action failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openNewOrder = () => {
+    setEditingId(null);
+    setSupplierId("");
+    setExpectedDate("");
+    setNotes("");
+    setLines([]);
+    setIsFormOpen(true);
+  };
+
+  const openEditOrder = (order: PurchaseOrderWithLines) => {
+    setEditingId(order.id);
+    setSupplierId(order.supplierId);
+    setExpectedDate(order.expectedDate ? format(new Date(order.expectedDate), 'yyyy-MM-dd') : "");
+    setNotes(order.notes || "");
+    setLines(order.lines.map(line => ({
+      itemId: line.itemId,
+      quantityOrdered: String(line.quantityOrdered),
+      unitCost: line.unitCost,
+    })));
+    setViewingId(null);
+    setIsFormOpen(true);
+  };
+
+  const openOrder = (orderId: string) => {
+    setReceiving({});
+    setReceivingSerials({});
+    setReceiveLocationId(UNASSIGNED);
+    setViewingId(orderId);
+  };
+
+  const addLine = (item?: InventoryItem) => {
+    if (item && lines.some(line => line.itemId === item.id)) return;
+    setLines(current => [...current, {
+      itemId: item?.id || "",
+      quantityOrdered: String(item ? suggestedQuantity(item) : 1),
+      unitCost: item?.unitCost || "0.00",
+    }]);
+  };
+
+  const updateLine = (index: number, updates: Partial<DraftLine>) => {
+    setLines(current => current.map((line, i) => i === index ? { ...line, ...updates } : line));
+  };
+
+  // Low-stock items whose supplier field names the selected supplier are offered first
+  const selectedSupplier = suppliers.find(supplier => supplier.id === supplierId);
+  const matchesSupplier = (item: InventoryItem) =>
+    !!selectedSupplier && !!item.supplier &&
+    item.supplier.trim().toLowerCase() === selectedSupplier.companyName.trim().toLowerCase();
+  const suggestions = lowStockItems
+    .filter(item => !lines.some(line => line.itemId === item.id))
+    .sort((a, b) => Number(matchesSupplier(b)) - Number(matchesSupplier(a)));
+  const supplierSuggestions = suggestions.filter(matchesSupplier);
+
+  const canSave = !!supplierId && lines.length > 0 &&
+    lines.every(line => line.itemId && parseInt(line.quantityOrdered) > 0 && parseFloat(line.unitCost) >= 0);
+
+  const filteredOrders = orders.filter(order => {
+    if (statusFilter === 'all') return true;
+    if (statusFilter === 'open') return order.status === 'draft' || order.status === 'sent' || order.status === 'partially_received';
+    return order.status === statusFilter;
+  });
+
+  const parseSerials = (text: string | undefined) =>
+    (text || '').split(/[\n,]+/).map(serial => serial.trim()).filter(Boolean);
+
+  // Serial-tracked lines carry one serial number per unit received
+  const receiptLines = Object.entries(receiving)
+    .map(([lineId, quantity]) => {
+      const line = viewingOrder?.lines.find(orderLine => orderLine.id === lineId);
+      return {
+        lineId,
+        quantity: parseInt(quantity),
+        ...(line?.isSerialized ? { serialNumbers: parseSerials(receivingSerials[lineId]) } : {}),
+      };
+    })
+    .filter(line => line.quantity > 0);
+  const serialsMissing = receiptLines.some(line => line.serialNumbers && line.serialNumbers.length !== line.quantity);
+
+  const receiveAllOutstanding = () => {
+    if (!viewingOrder) return;
+    setReceiving(Object.fromEntries(viewingOrder.lines
+      .filter(line => line.quantityOrdered > line.quantityReceived)
+      .map(line => [line.id, String(line.quantityOrdered - line.quantityReceived)])));
+  };
+
+  const isReceivable = viewingOrder?.status === 'sent' || viewingOrder?.status === 'partially_received';
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle>Purchase Orders</CardTitle>
+          <CardDescription>Order stock from suppliers and receive deliveries into inventory</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[180px]" data-testid="select-po-status-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {canManage && (
+            <Button onClick={openNewOrder} data-testid="button-new-purchase-order">
+              <Plus className="h-4 w-4 mr-2" />
+              New PO
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading purchase orders...</p>
+        ) : filteredOrders.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No purchase orders found.</p>
+        ) : (
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>PO Number</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredOrders.map(order => (
+                  <TableRow
+                    key={order.id}
+                    className="cursor-pointer hover-elevate"
+                    onClick={() => openOrder(order.id)}
+                    data-testid={`row-purchase-order-${order.id}`}
+                  >
+                    <TableCell className="font-medium">{order.poNumber}</TableCell>
+                    <TableCell>{order.supplierName}</TableCell>
+                    <TableCell>
+                      <Badge className={getStatusColor(order.status)}>{statusLabels[order.status]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {order.expectedDate ? format(new Date(order.expectedDate), 'MMM d, yyyy') : '-'}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(order.total)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Draft / Edit Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" data-testid="dialog-purchase-order-form">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Purchase Order' : 'New Purchase Order'}</DialogTitle>
+            <DialogDescription>Drafts can be changed until they are sent to the supplier.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Supplier</Label>
+                <Select value={supplierId} onValueChange={setSupplierId}>
+                  <SelectTrigger data-testid="select-po-supplier">
+                    <SelectValue placeholder="Select supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers.filter(supplier => supplier.status === 'active' || supplier.id === supplierId).map(supplier => (
+                      <SelectItem key={supplier.id} value={supplier.id}>{supplier.companyName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="po-expected-date">Expected Delivery</Label>
+                <Input
+                  id="po-expected-date"
+                  type="date"
+                  value={expectedDate}
+                  onChange={(e) => setExpectedDate(e.target.value)}
+                  data-testid="input-po-expected-date"
+                />
+              </div>
+            </div>
+
+            {suggestions.length > 0 && (
+              <div className="rounded-md border border-yellow-200 bg-yellow-50 dark:border-yellow-900 dark:bg-yellow-950 p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                    Low stock suggestions
+                  </p>
+                  {supplierSuggestions.length > 0 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => supplierSuggestions.forEach(item => addLine(item))}
+                      data-testid="button-add-supplier-suggestions"
+                    >
+                      Add all from {selectedSupplier?.companyName}
+                    </Button>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {suggestions.map(item => (
+                    <Badge
+                      key={item.id}
+                      variant={matchesSupplier(item) ? 'default' : 'outline'}
+                      className="cursor-pointer"
+                      onClick={() => addLine(item)}
+                      data-testid={`badge-po-suggestion-${item.id}`}
+                    >
+                      <Plus className="h-3 w-3 mr-1" />
+                      {item.sku} ({item.quantityInStock ?? 0}/{item.minimumStockLevel ?? 0})
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Lines</Label>
+                <Button size="sm" variant="outline" onClick={() => addLine()} data-testid="button-add-po-line">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Line
+                </Button>
+              </div>
+              {lines.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Add items manually or from the low stock suggestions.</p>
+              ) : (
+                <div className="border rounded-lg overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Item</TableHead>
+                        <TableHead className="w-[110px]">Qty</TableHead>
+                        <TableHead className="w-[130px]">Unit Cost</TableHead>
+                        <TableHead className="text-right w-[110px]">Total</TableHead>
+                        <TableHead className="w-[50px]"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lines.map((line, index) => (
+                        <TableRow key={index} data-testid={`row-po-line-${index}`}>
+                          <TableCell>
+                            <Select
+                              value={line.itemId}
+                              onValueChange={(value) => updateLine(index, {
+                                itemId: value,
+                                unitCost: items.find(item => item.id === value)?.unitCost || line.unitCost,
+                              })}
+                            >
+                              <SelectTrigger data-testid={`select-po-line-item-${index}`}>
+                                <SelectValue placeholder="Select item" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {items.map(item => (
+                                  <SelectItem key={item.id} value={item.id}>{item.sku} - {item.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="1"
+                              value={line.quantityOrdered}
+                              onChange={(e) => updateLine(index, { quantityOrdered: e.target.value })}
+                              data-testid={`input-po-line-quantity-${index}`}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={line.unitCost}
+                              onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                              data-testid={`input-po-line-cost-${index}`}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency((parseInt(line.quantityOrdered) || 0) * (parseFloat(line.unitCost) || 0))}
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setLines(current => current.filter((_, i) => i !== index))}
+                              data-testid={`button-remove-po-line-${index}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              <p className="text-right font-semibold" data-testid="text-po-form-total">
+                Total {formatCurrency(lineTotal(lines))}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="po-notes">Notes for Supplier (Optional)</Label>
+              <Textarea
+                id="po-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                data-testid="input-po-notes"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!canSave || saveMutation.isPending}
+              data-testid="button-save-purchase-order"
+            >
+              {saveMutation.isPending ? 'Saving...' : editingId ? 'Save Changes' : 'Save Draft'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Order Details / Receiving Dialog */}
+      <Dialog open={!!viewingId} onOpenChange={(open) => !open && setViewingId(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" data-testid="dialog-purchase-order-details">
+          {!viewingOrder ? (
+            <p className="text-sm text-muted-foreground">Loading purchase order...</p>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {viewingOrder.poNumber}
+                  <Badge className={getStatusColor(viewingOrder.status)}>{statusLabels[viewingOrder.status]}</Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  {viewingOrder.supplierName}
+                  {viewingOrder.sentAt && ` - sent ${format(new Date(viewingOrder.sentAt), 'MMM d, yyyy')}`}
+                  {viewingOrder.expectedDate && ` - expected ${format(new Date(viewingOrder.expectedDate), 'MMM d, yyyy')}`}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="border rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Unit Cost</TableHead>
+                      <TableHead className="text-right">Ordered</TableHead>
+                      <TableHead className="text-right">Received</TableHead>
+                      {isReceivable && canManage && <TableHead className="w-[120px]">Receive Now</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {viewingOrder.lines.map(line => {
+                      const outstanding = line.quantityOrdered - line.quantityReceived;
+                      const receiveQuantity = parseInt(receiving[line.id] || '') || 0;
+                      return (
+                        <Fragment key={line.id}>
+                          <TableRow data-testid={`row-po-detail-line-${line.id}`}>
+                            <TableCell>
+                              <p className="font-medium">{line.itemName}</p>
+                              <p className="text-xs text-muted-foreground font-mono">{line.sku}</p>
+                            </TableCell>
+                            <TableCell className="text-right">{formatCurrency(line.unitCost)}</TableCell>
+                            <TableCell className="text-right">{line.quantityOrdered}</TableCell>
+                            <TableCell className="text-right">
+                              <span className={outstanding === 0 ? 'text-green-600 font-medium' : undefined}>
+                                {line.quantityReceived}
+                              </span>
+                            </TableCell>
+                            {isReceivable && canManage && (
+                              <TableCell>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  max={outstanding}
+                                  value={receiving[line.id] ?? ''}
+                                  onChange={(e) => setReceiving(current => ({ ...current, [line.id]: e.target.value }))}
+                                  disabled={outstanding === 0}
+                                  placeholder={outstanding > 0 ? `${outstanding} due` : 'Done'}
+                                  data-testid={`input-receive-quantity-${line.id}`}
+                                />
+                              </TableCell>
+                            )}
+                          </TableRow>
+                          {isReceivable && canManage && line.isSerialized && receiveQuantity > 0 && (
+                            <TableRow>
+                              <TableCell colSpan={5}>
+                                <Label className="text-xs">
+                                  Serial numbers ({parseSerials(receivingSerials[line.id]).length} of {receiveQuantity})
+                                </Label>
+                                <Textarea
+                                  value={receivingSerials[line.id] ?? ''}
+                                  onChange={(e) => setReceivingSerials(current => ({ ...current, [line.id]: e.target.value }))}
+                                  rows={Math.min(receiveQuantity, 6)}
+                                  placeholder="One per line"
+                                  className="font-mono mt-1"
+                                  data-testid={`input-receive-serials-${line.id}`}
+                                />
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+              <p className="text-right font-semibold">Total {formatCurrency(viewingOrder.total)}</p>
+              {viewingOrder.notes && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{viewingOrder.notes}</p>}
+
+              {isReceivable && canManage && (
+                <div className="flex flex-wrap items-end gap-3 rounded-md border p-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Receive Into</Label>
+                    <Select value={receiveLocationId} onValueChange={setReceiveLocationId}>
+                      <SelectTrigger className="w-[240px]" data-testid="select-receive-location">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNASSIGNED}>Unassigned stock</SelectItem>
+                        {locations.map(location => (
+                          <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button variant="outline" onClick={receiveAllOutstanding} data-testid="button-fill-outstanding">
+                    Fill Outstanding
+                  </Button>
+                  <Button
+                    onClick={() => actionMutation.mutate({
+                      id: viewingOrder.id,
+                      action: 'receive',
+                      body: {
+                        lines: receiptLines,
+                        locationId: receiveLocationId === UNASSIGNED ? null : receiveLocationId,
+                      },
+                    })}
+                    disabled={receiptLines.length === 0 || serialsMissing || actionMutation.isPending}
+                    data-testid="button-receive-purchase-order"
+                  >
+                    <PackageCheck className="h-4 w-4 mr-2" />
+                    Receive
+                  </Button>
+                </div>
+              )}
+
+              {canManage && (
+                <div className="flex justify-end gap-2">
+                  {viewingOrder.status === 'draft' && (
+                    <>
+                      <Button variant="outline" onClick={() => openEditOrder(viewingOrder)} data-testid="button-edit-purchase-order">
+                        <Pencil className="h-4 w-4 mr-2" />
+                        Edit
+                      </Button>
+                      <Button
+                        onClick={() => actionMutation.mutate({ id: viewingOrder.id, action: 'send' })}
+                        disabled={actionMutation.isPending}
+                        data-testid="button-send-purchase-order"
+                      >
+                        <Send className="h-4 w-4 mr-2" />
+                        Send to Supplier
+                      </Button>
+                    </>
+                  )}
+                  {viewingOrder.status !== 'received' && viewingOrder.status !== 'cancelled' && (
+                    <Button
+                      variant="outline"
+                      onClick={() => actionMutation.mutate({ id: viewingOrder.id, action: 'cancel' })}
+                      disabled={actionMutation.isPending}
+                      data-testid="button-cancel-purchase-order"
+                    >
+                      <Ban className="h-4 w-4 mr-2" />
+                      Cancel Order
+                    </Button>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
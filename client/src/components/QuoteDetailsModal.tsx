@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -5,12 +6,17 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Separator } from "@/components/ui/separator";
 import type { Quote, User as UserType } from "@shared/schema";
 import { format } from "date-fns";
-import { Calendar, FileText, DollarSign, CheckCircle, XCircle, Share2 } from "lucide-react";
+import { Calendar, FileText, DollarSign, CheckCircle, XCircle, Share2, Receipt, RefreshCw } from "lucide-react";
+import { useLocation } from "wouter";
 import { formatCurrency } from "@/lib/currency";
 import { useAuth } from "@/hooks/useAuth";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { hasPermission } from "@shared/permissions";
+import { ConvertQuoteToInvoiceDialog } from "@/components/ConvertQuoteToInvoiceDialog";
+import { QuoteRevisionsPanel } from "@/components/QuoteRevisionsPanel";
+import { ShareLinksPanel, shareLinksQueryKey } from "@/components/ShareLinksPanel";
 
 interface QuoteDetailsModalProps {
   quote: Quote | null;
@@ -33,6 +39,8 @@ export function QuoteDetailsModal({ quote, isOpen, onClose, recipientName }: Quo
   const { user } = useAuth();
   const typedUser = user as UserType | undefined;
   const { toast } = useToast();
+  const [isConvertOpen, setIsConvertOpen] = useState(false);
+  const [, setLocation] = useLocation();
 
   const approveQuoteMutation = useMutation({
     mutationFn: async () => {
@@ -47,10 +55,13 @@ export function QuoteDetailsModal({ quote, isOpen, onClose, recipientName }: Quo
       queryClient.invalidateQueries({ queryKey: ['/api/quotes'] });
       onClose();
     },
-    onError: () => {
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes'] });
       toast({
         title: "Error",
-        description: "Failed to approve quote. Please try again.",
+        description: error.message.includes('Quote has expired')
+          ? "This quote has expired and can no longer be approved."
+          : "Failed to approve quote. Please try again.",
         variant: "destructive",
       });
     },
@@ -69,10 +80,36 @@ export function QuoteDetailsModal({ quote, isOpen, onClose, recipientName }: Quo
       queryClient.invalidateQueries({ queryKey: ['/api/quotes'] });
       onClose();
     },
-    onError: () => {
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes'] });
       toast({
         title: "Error",
-        description: "Failed to reject quote. Please try again.",
+        description: error.message.includes('Quote has expired')
+          ? "This quote has expired and can no longer be rejected."
+          : "Failed to reject quote. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviseQuoteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/quotes/${quote!.id}/revise`);
+      return response.json();
+    },
+    onSuccess: (revised: Quote) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes'] });
+      toast({
+        title: "Revised quote created",
+        description: `${revised.quoteNumber} was created as a draft at current prices. Review it and send it again.`,
+      });
+      onClose();
+      setLocation(`/portal/admin/quotes/${revised.id}/edit`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to revise quote",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -86,6 +123,7 @@ export function QuoteDetailsModal({ quote, isOpen, onClose, recipientName }: Quo
     onSuccess: (data: any) => {
       const shareUrl = `${window.location.origin}/quote/${data.quoteNumber}/${data.token}`;
       navigator.clipboard.writeText(shareUrl);
+      queryClient.invalidateQueries({ queryKey: shareLinksQueryKey('quote', quote!.id) });
       toast({ title: "Link copied to clipboard!" });
     },
     onError: (error: any) => {
@@ -101,7 +139,14 @@ export function QuoteDetailsModal({ quote, isOpen, onClose, recipientName }: Quo
 
   const items = Array.isArray(quote.items) ? (quote.items as QuoteItem[]) : [];
   const isClient = typedUser?.role === 'client';
-  const canApproveReject = isClient && (quote.status === 'draft' || quote.status === 'sent');
+  // Quotes are valid through the end of their validUntil day
+  const isPastValidity = !!quote.validUntil &&
+    Date.now() >= new Date(quote.validUntil).getTime() + 24 * 60 * 60 * 1000;
+  const canApproveReject = isClient && (quote.status === 'draft' || quote.status === 'sent') && !isPastValidity;
+  const canViewRevisions = !isClient && !!typedUser?.role &&
+    (hasPermission(typedUser.role, 'manageSettings') || quote.createdById === typedUser.id);
+  const canRevise = !!typedUser?.role && hasPermission(typedUser.role, 'manageLeads') && quote.status === 'expired';
+  const canConvertToInvoice = !!typedUser?.role && hasPermission(typedUser.role, 'manageFinancial') && quote.status === 'accepted';
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -226,6 +271,14 @@ export function QuoteDetailsModal({ quote, isOpen, onClose, recipientName }: Quo
             </div>
           </div>
 
+          {/* Revision history for staff */}
+          {canViewRevisions && (
+            <>
+              <Separator />
+              <QuoteRevisionsPanel quote={quote} />
+            </>
+          )}
+
           {/* Notes */}
           {quote.notes && (
             <div className="space-y-2 border-t pt-4">
@@ -268,11 +321,41 @@ export function QuoteDetailsModal({ quote, isOpen, onClose, recipientName }: Quo
             </>
           )}
 
+          {/* Share links and access log for staff */}
+          {!isClient && (
+            <div className="border-t pt-4">
+              <ShareLinksPanel entityType="quote" entityId={quote.id} documentNumber={quote.quoteNumber} />
+            </div>
+          )}
+
           {/* Share Link Button for Staff */}
           {!isClient && (
             <>
               <Separator />
-              <div className="flex justify-end">
+              <div className="flex justify-end gap-2">
+                {canRevise && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => reviseQuoteMutation.mutate()}
+                    disabled={reviseQuoteMutation.isPending}
+                    data-testid="button-revise-quote"
+                  >
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    {reviseQuoteMutation.isPending ? 'Revising...' : 'Revise & Re-send'}
+                  </Button>
+                )}
+                {canConvertToInvoice && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setIsConvertOpen(true)}
+                    data-testid="button-convert-to-invoice"
+                  >
+                    <Receipt className="h-4 w-4 mr-2" />
+                    Create Invoice
+                  </Button>
+                )}
                 <Button
                   type="button"
                   onClick={() => generateShareLinkMutation.mutate()}
@@ -286,6 +369,14 @@ export function QuoteDetailsModal({ quote, isOpen, onClose, recipientName }: Quo
             </>
           )}
         </div>
+
+        {canConvertToInvoice && (
+          <ConvertQuoteToInvoiceDialog
+            quote={quote}
+            isOpen={isConvertOpen}
+            onClose={() => setIsConvertOpen(false)}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -32,6 +32,16 @@ interface QuoteItem {
   originalTotal?: number; // Optional: total before discount
 }
 
+// Signed client acceptance, shown in place of the blank signature lines
+export interface QuotePreviewAcceptance {
+  signerName: string;
+  signatureImage: string;
+  acceptedAt: string | Date;
+  revisionLabel: string;
+  termsVersion: string;
+  ipAddress?: string | null;
+}
+
 interface QuotePreviewProps {
   items: QuoteItem[];
   subtotal: string;
@@ -47,6 +57,7 @@ interface QuotePreviewProps {
   quoteId?: string;
   shareToken?: string;
   renderActions?: () => React.ReactNode;
+  acceptance?: QuotePreviewAcceptance | null;
 }
 
 export const QuotePreview = forwardRef<HTMLDivElement, QuotePreviewProps>(
@@ -66,6 +77,7 @@ export const QuotePreview = forwardRef<HTMLDivElement, QuotePreviewProps>(
       quoteId,
       shareToken,
       renderActions,
+      acceptance,
     },
     ref,
   ) => {
@@ -329,7 +341,37 @@ export const QuotePreview = forwardRef<HTMLDivElement, QuotePreviewProps>(
 
           <div className="space-y-4 p-4 bg-blue-50 dark:bg-blue-950/20 rounded-lg border border-blue-200 dark:border-blue-900 print:break-inside-avoid pt-[4px] pb-[4px] mt-[4px] mb-[4px] pl-[8px] pr-[8px]">
             <h3 className="font-semibold">APPROVAL</h3>
-            {renderActions ? (
+            {acceptance ? (
+              <>
+                <div className="grid grid-cols-2 gap-6">
+                  <div>
+                    <div className="border-b border-foreground/20 pb-1 mb-1 h-16 flex items-end">
+                      <img
+                        src={acceptance.signatureImage}
+                        alt={`Signature of ${acceptance.signerName}`}
+                        className="max-h-16 object-contain"
+                        data-testid="img-quote-signature"
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground" data-testid="text-quote-signer">
+                      Customer Signature: {acceptance.signerName}
+                    </p>
+                  </div>
+                  <div>
+                    <div className="border-b border-foreground/20 pb-1 mb-1 h-16 flex items-end">
+                      <span className="text-sm">{new Date(acceptance.acceptedAt).toLocaleString()}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">Date</p>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground italic">
+                  Signed electronically for Rev {acceptance.revisionLabel}, accepting terms version{" "}
+                  {acceptance.termsVersion}
+                  {acceptance.ipAddress ? ` from ${acceptance.ipAddress}` : ""}.
+                </p>
+                {renderActions && <div className="py-2">{renderActions()}</div>}
+              </>
+            ) : renderActions ? (
               <div className="py-2">{renderActions()}</div>
             ) : (
               <>
@@ -0,0 +1,234 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/currency";
+import type { Quote, QuoteRevision } from "@shared/schema";
+
+type LabeledRevision = QuoteRevision & { label: string };
+
+interface RevisionItem {
+  priceMatrixId?: string;
+  itemName: string;
+  unitPrice: string | number;
+  quantity: number;
+  total: number;
+}
+
+type ItemChange =
+  | { kind: 'added'; key: string; to: RevisionItem }
+  | { kind: 'removed'; key: string; from: RevisionItem }
+  | { kind: 'changed'; key: string; from: RevisionItem; to: RevisionItem };
+
+const getItems = (revision: LabeledRevision): RevisionItem[] =>
+  Array.isArray(revision.items) ? (revision.items as RevisionItem[]) : [];
+
+const itemKey = (item: RevisionItem) => item.priceMatrixId || item.itemName;
+
+// Matches line items by catalog entry (or name for custom items) and reports what changed between two revisions
+function diffRevisionItems(from: LabeledRevision, to: LabeledRevision): ItemChange[] {
+  const fromItems = new Map(getItems(from).map(item => [itemKey(item), item]));
+  const toItems = new Map(getItems(to).map(item => [itemKey(item), item]));
+  const changes: ItemChange[] = [];
+
+  for (const [key, before] of Array.from(fromItems)) {
+    const after = toItems.get(key);
+    if (!after) {
+      changes.push({ kind: 'removed', key, from: before });
+    } else if (
+      Number(before.quantity) !== Number(after.quantity) ||
+      parseFloat(String(before.unitPrice)) !== parseFloat(String(after.unitPrice))
+    ) {
+      changes.push({ kind: 'changed', key, from: before, to: after });
+    }
+  }
+  for (const [key, after] of Array.from(toItems)) {
+    if (!fromItems.has(key)) {
+      changes.push({ kind: 'added', key, to: after });
+    }
+  }
+  return changes;
+}
+
+interface QuoteRevisionsPanelProps {
+  quote: Quote;
+}
+
+export function QuoteRevisionsPanel({ quote }: QuoteRevisionsPanelProps) {
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+
+  const { data: revisions = [], isLoading } = useQuery<LabeledRevision[]>({
+    queryKey: ['/api/quotes', quote.id, 'revisions'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/quotes/${quote.id}/revisions`);
+      return response.json();
+    },
+  });
+
+  // Default to comparing the two most recent revisions
+  useEffect(() => {
+    if (revisions.length >= 2) {
+      setFromId(revisions[revisions.length - 2].id);
+      setToId(revisions[revisions.length - 1].id);
+    }
+  }, [revisions]);
+
+  const fromRevision = revisions.find(revision => revision.id === fromId);
+  const toRevision = revisions.find(revision => revision.id === toId);
+  const changes = fromRevision && toRevision ? diffRevisionItems(fromRevision, toRevision) : [];
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-semibold">Revisions</h4>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading revisions...</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No revisions yet. Revision A is recorded when the quote is sent.
+        </p>
+      ) : (
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Revision</TableHead>
+                <TableHead>Recorded</TableHead>
+                <TableHead className="text-right">Items</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {revisions.map((revision, index) => (
+                <TableRow key={revision.id} data-testid={`row-quote-revision-${revision.label}`}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      Rev {revision.label}
+                      {quote.acceptedRevisionId === revision.id && (
+                        <Badge className="bg-green-500/10 text-green-500 border-green-500/20">Accepted</Badge>
+                      )}
+                      {index === revisions.length - 1 && quote.acceptedRevisionId !== revision.id && (
+                        <Badge variant="outline">Latest</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {revision.createdAt ? format(new Date(revision.createdAt), 'MMM d, yyyy h:mm a') : '-'}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">{getItems(revision).length}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(revision.total)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {revisions.length >= 2 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Compare</Label>
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger className="w-[120px]" data-testid="select-revision-from">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {revisions.map(revision => (
+                    <SelectItem key={revision.id} value={revision.id}>Rev {revision.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">With</Label>
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger className="w-[120px]" data-testid="select-revision-to">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {revisions.map(revision => (
+                    <SelectItem key={revision.id} value={revision.id}>Rev {revision.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {fromRevision && toRevision && (
+              <p className="text-sm text-muted-foreground pb-2" data-testid="text-revision-total-change">
+                Total {formatCurrency(fromRevision.total)} → {formatCurrency(toRevision.total)}
+              </p>
+            )}
+          </div>
+
+          {fromRevision && toRevision && (
+            changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Line items are identical in both revisions.</p>
+            ) : (
+              <div className="border rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Change</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead className="text-right">Unit Price</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changes.map(change => (
+                      <TableRow key={`${change.kind}-${change.key}`} data-testid={`row-revision-diff-${change.kind}`}>
+                        {change.kind === 'added' && (
+                          <>
+                            <TableCell className="font-medium text-green-600">{change.to.itemName}</TableCell>
+                            <TableCell><Badge className="bg-green-500/10 text-green-500 border-green-500/20">Added</Badge></TableCell>
+                            <TableCell className="text-right">{change.to.quantity}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(change.to.unitPrice)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(change.to.total)}</TableCell>
+                          </>
+                        )}
+                        {change.kind === 'removed' && (
+                          <>
+                            <TableCell className="font-medium text-destructive line-through">{change.from.itemName}</TableCell>
+                            <TableCell><Badge className="bg-red-500/10 text-red-500 border-red-500/20">Removed</Badge></TableCell>
+                            <TableCell className="text-right line-through">{change.from.quantity}</TableCell>
+                            <TableCell className="text-right line-through">{formatCurrency(change.from.unitPrice)}</TableCell>
+                            <TableCell className="text-right line-through">{formatCurrency(change.from.total)}</TableCell>
+                          </>
+                        )}
+                        {change.kind === 'changed' && (
+                          <>
+                            <TableCell className="font-medium">{change.to.itemName}</TableCell>
+                            <TableCell><Badge variant="outline">Changed</Badge></TableCell>
+                            <TableCell className="text-right">
+                              {Number(change.from.quantity) !== Number(change.to.quantity)
+                                ? `${change.from.quantity} → ${change.to.quantity}`
+                                : change.to.quantity}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {parseFloat(String(change.from.unitPrice)) !== parseFloat(String(change.to.unitPrice))
+                                ? `${formatCurrency(change.from.unitPrice)} → ${formatCurrency(change.to.unitPrice)}`
+                                : formatCurrency(change.to.unitPrice)}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {formatCurrency(change.from.total)} → {formatCurrency(change.to.total)}
+                            </TableCell>
+                          </>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
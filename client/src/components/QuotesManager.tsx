@@ -1,4 +1,4 @@
-import { useState, useRef, useMemo, useEffect } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -20,9 +20,7 @@ import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Plus, Edit, Download, FileText, DollarSign, Trash2, Search, Pencil, ChevronLeft, ChevronRight } from "lucide-react";
 import { format } from "date-fns";
-import jsPDF from "jspdf";
-import html2canvas from "html2canvas";
-import { QuotePreview } from "@/components/QuotePreview";
+import { downloadPDF } from "@/lib/exportUtils";
 import { formatCurrency } from "@/lib/currency";
 import { QuoteDetailsModal } from "@/components/QuoteDetailsModal";
 
@@ -50,8 +48,7 @@ export default function QuotesManager() {
   const [searchTerm, setSearchTerm] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(20);
-  const [downloadingQuote, setDownloadingQuote] = useState<Quote | null>(null);
-  const downloadPreviewRef = useRef<HTMLDivElement>(null);
+  const [downloadingQuoteId, setDownloadingQuoteId] = useState<string | null>(null);
   
   // Details modal state
   const [selectedQuote, setSelectedQuote] = useState<Quote | null>(null);
@@ -224,131 +221,22 @@ export default function QuotesManager() {
   };
 
   const handleDownloadPDF = async (quote: Quote) => {
-    // Set the quote to download, which will trigger rendering of the hidden preview
-    setDownloadingQuote(quote);
-    
+    setDownloadingQuoteId(quote.id);
     try {
-      // Ensure all required queries are loaded before capturing PDF
-      await Promise.all([
-        queryClient.ensureQueryData({ queryKey: ['/api/system-config'] }),
-        queryClient.ensureQueryData({ queryKey: ['/api/legal-documents'] }),
-        queryClient.ensureQueryData({ queryKey: ['/api/leads'] }),
-        queryClient.ensureQueryData({ queryKey: ['/api/clients'] }),
-        queryClient.ensureQueryData({ queryKey: ['/api/service-types'] }),
-      ]);
-      
-      // Small delay to ensure DOM is fully rendered with loaded data
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      if (!downloadPreviewRef.current) {
-        toast({
-          title: "Preview not ready",
-          description: "Please try again",
-          variant: "destructive",
-        });
-        setDownloadingQuote(null);
-        return;
-      }
-    } catch (error) {
-      console.error('Failed to load required data:', error);
-      toast({
-        title: "Failed to load data",
-        description: "Please try again",
-        variant: "destructive",
-      });
-      setDownloadingQuote(null);
-      return;
-    }
-
-    try {
-      // Capture the preview component as an image
-      const canvas = await html2canvas(downloadPreviewRef.current, {
-        scale: 2,
-        useCORS: true,
-        logging: false,
-        backgroundColor: '#ffffff',
-      });
-
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      const pageWidth = 210; // A4 width in mm
-      const pageHeight = 297; // A4 height in mm
-      
-      // Calculate how the image maps to PDF dimensions
-      const imgWidth = pageWidth;
-      const pageHeightInPixels = (canvas.width * pageHeight) / pageWidth;
-
-      let heightLeft = canvas.height;
-      let position = 0;
-      let page = 0;
-
-      while (heightLeft > 0) {
-        // Calculate slice height, clamped to remaining content
-        const idealSliceHeight = Math.ceil(pageHeightInPixels);
-        const actualSliceHeight = Math.min(idealSliceHeight, heightLeft);
-        
-        // Create a temporary canvas for each page
-        const pageCanvas = document.createElement('canvas');
-        pageCanvas.width = canvas.width;
-        pageCanvas.height = actualSliceHeight;
-        
-        const ctx = pageCanvas.getContext('2d');
-        if (ctx) {
-          // Draw the slice of the original canvas for this page
-          // Ensure we don't try to read past the end of the source canvas
-          const sourceHeight = Math.min(actualSliceHeight, canvas.height - position);
-          
-          ctx.drawImage(
-            canvas,
-            0,
-            position,
-            canvas.width,
-            sourceHeight,
-            0,
-            0,
-            canvas.width,
-            sourceHeight
-          );
-
-          const pageImgHeight = (actualSliceHeight * pageWidth) / pageCanvas.width;
-          
-          // Add new page if not the first page
-          if (page > 0) {
-            pdf.addPage();
-          }
-          
-          // Add the sliced image to the PDF
-          pdf.addImage(
-            pageCanvas.toDataURL('image/png'),
-            'PNG',
-            0,
-            0,
-            imgWidth,
-            pageImgHeight
-          );
-        }
-
-        // Update position based on actual slice height used
-        heightLeft -= actualSliceHeight;
-        position += actualSliceHeight;
-        page++;
-      }
-
-      const currentDate = format(new Date(), 'yyyy-MM-dd');
-      pdf.save(`quote-${quote.quoteNumber}-${currentDate}.pdf`);
-      
+      await downloadPDF(`/api/quotes/${quote.id}/pdf`, `quote-${quote.quoteNumber}-${format(new Date(), 'yyyy-MM-dd')}.pdf`);
       toast({
         title: "PDF Downloaded",
         description: "Quote has been downloaded successfully",
       });
     } catch (error) {
-      console.error('PDF generation error:', error);
+      console.error('PDF download error:', error);
       toast({
-        title: "Failed to generate PDF",
+        title: "Failed to download PDF",
         description: "An error occurred while creating the PDF",
         variant: "destructive",
       });
     } finally {
-      setDownloadingQuote(null);
+      setDownloadingQuoteId(null);
     }
   };
 
@@ -559,6 +447,7 @@ export default function QuotesManager() {
                             e.stopPropagation();
                             handleDownloadPDF(quote);
                           }}
+                          disabled={downloadingQuoteId === quote.id}
                           data-testid={`button-download-${quote.id}`}
                         >
                           <Download className="h-4 w-4" />
@@ -1017,26 +906,6 @@ export default function QuotesManager() {
         </DialogContent>
       </Dialog>
 
-      {/* Hidden QuotePreview for PDF Download - matches QuoteBuilder rendering context */}
-      {downloadingQuote && (
-        <div className="fixed -left-[9999px] top-0 space-y-6 max-w-screen-lg">
-          <QuotePreview
-            ref={downloadPreviewRef}
-            items={Array.isArray(downloadingQuote.items) ? downloadingQuote.items as QuoteItem[] : []}
-            subtotal={downloadingQuote.subtotal}
-            taxRate={downloadingQuote.taxRate || '0'}
-            taxAmount={downloadingQuote.taxAmount || '0'}
-            total={downloadingQuote.total}
-            validUntil={downloadingQuote.validUntil ? new Date(downloadingQuote.validUntil).toISOString().split('T')[0] : undefined}
-            notes={downloadingQuote.notes || undefined}
-            leadId={downloadingQuote.leadId || undefined}
-            clientId={downloadingQuote.clientId || undefined}
-            projectId={downloadingQuote.projectId || undefined}
-            quoteNumber={downloadingQuote.quoteNumber}
-          />
-        </div>
-      )}
-      
       {/* Quote Details Modal */}
       <QuoteDetailsModal
         quote={selectedQuote}
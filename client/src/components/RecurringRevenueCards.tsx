@@ -0,0 +1,73 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Repeat, CalendarRange, Users, TrendingDown } from "lucide-react";
+import { formatCurrency } from "@/lib/currency";
+
+export interface RecurringRevenueMetrics {
+  mrr: number;
+  arr: number;
+  activeSubscriptions: number;
+  cancellingMrr: number;
+  byPlan: { planId: string; planName: string; subscriptions: number; mrr: number }[];
+}
+
+// MRR/ARR from active support subscriptions, normalised to a month whatever each plan's billing period
+export function RecurringRevenueCards() {
+  const { data: metrics, isLoading } = useQuery<RecurringRevenueMetrics>({
+    queryKey: ['/api/financial/recurring-revenue'],
+  });
+
+  const value = (amount: number | undefined) => isLoading ? "..." : formatCurrency(amount || 0);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+      <Card data-testid="card-mrr">
+        <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">Monthly Recurring Revenue</CardTitle>
+          <Repeat className="w-4 h-4 text-green-500" />
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold" data-testid="text-mrr">{value(metrics?.mrr)}</div>
+          {metrics && metrics.byPlan.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Largest: {metrics.byPlan[0].planName} ({formatCurrency(metrics.byPlan[0].mrr)})
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-arr">
+        <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">Annual Recurring Revenue</CardTitle>
+          <CalendarRange className="w-4 h-4 text-primary" />
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold" data-testid="text-arr">{value(metrics?.arr)}</div>
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-active-subscriptions">
+        <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">Active Subscriptions</CardTitle>
+          <Users className="w-4 h-4 text-blue-500" />
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold" data-testid="text-active-subscriptions">
+            {isLoading ? "..." : metrics?.activeSubscriptions ?? 0}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-cancelling-mrr">
+        <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">MRR Cancelling</CardTitle>
+          <TrendingDown className="w-4 h-4 text-red-500" />
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold" data-testid="text-cancelling-mrr">{value(metrics?.cancellingMrr)}</div>
+          <p className="text-xs text-muted-foreground mt-1">Ends at the close of the current period</p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
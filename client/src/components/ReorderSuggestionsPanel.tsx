@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardList } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { hasPermission } from "@shared/permissions";
+
+interface ReorderSuggestion {
+  itemId: string;
+  sku: string;
+  name: string;
+  unitOfMeasure: string | null;
+  unitCost: string | null;
+  quantityInStock: number;
+  quantityOnOrder: number;
+  minimumStockLevel: number;
+  usageInWindow: number;
+  averageDailyUsage: number;
+  daysOfStock: number | null;
+  supplierId: string | null;
+  supplierName: string | null;
+  leadTimeDays: number;
+  leadTimeSource: 'history' | 'supplier' | 'default';
+  reorderPoint: number;
+  suggestedQuantity: number;
+  needsReorder: boolean;
+}
+
+const windowOptions = [
+  { value: "30", label: "Last 30 days" },
+  { value: "60", label: "Last 60 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "180", label: "Last 180 days" },
+];
+
+const leadTimeSourceLabels: Record<ReorderSuggestion['leadTimeSource'], string> = {
+  history: "from deliveries",
+  supplier: "quoted",
+  default: "default",
+};
+
+export function ReorderSuggestionsPanel() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canManage = !!user?.role && hasPermission(user.role, 'manageInventory');
+  const [windowDays, setWindowDays] = useState("90");
+  const [includeAll, setIncludeAll] = useState(false);
+
+  const { data: suggestions = [], isLoading } = useQuery<ReorderSuggestion[]>({
+    queryKey: ['/api/inventory/reorder-suggestions', windowDays, includeAll],
+    queryFn: async () => {
+      const params = new URLSearchParams({ windowDays, includeAll: String(includeAll) });
+      const response = await apiRequest('GET', `/api/inventory/reorder-suggestions?${params.toString()}`);
+      return response.json();
+    },
+  });
+
+  const toOrder = suggestions.filter(suggestion => suggestion.needsReorder && suggestion.supplierId);
+  const withoutSupplier = suggestions.filter(suggestion => suggestion.needsReorder && !suggestion.supplierId);
+
+  // One draft PO per supplier, using each item's current unit cost
+  const draftOrdersMutation = useMutation({
+    mutationFn: async () => {
+      const bySupplier = new Map<string, ReorderSuggestion[]>();
+      for (const suggestion of toOrder) {
+        bySupplier.set(suggestion.supplierId!, [...(bySupplier.get(suggestion.supplierId!) || []), suggestion]);
+      }
+      for (const [supplierId, lines] of Array.from(bySupplier)) {
+        await apiRequest('POST', '/api/purchase-orders', {
+          supplierId,
+          lines: lines.map(line => ({
+            itemId: line.itemId,
+            quantityOrdered: line.suggestedQuantity,
+            unitCost: parseFloat(line.unitCost || '0').toFixed(2),
+          })),
+        });
+      }
+      return bySupplier.size;
+    },
+    onSuccess: (count: number) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders'] });
+      toast({ title: `${count} draft purchase order(s) created`, description: "Review and send them from the Purchase Orders tab." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to draft purchase orders",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle>Reorder Suggestions</CardTitle>
+          <CardDescription>
+            Based on project usage (net of returns) and sales, each supplier's lead time and stock already on order
+          </CardDescription>
+        </div>
+        {canManage && (
+          <Button
+            onClick={() => draftOrdersMutation.mutate()}
+            disabled={toOrder.length === 0 || draftOrdersMutation.isPending}
+            data-testid="button-draft-reorder-pos"
+          >
+            <ClipboardList className="h-4 w-4 mr-2" />
+            {draftOrdersMutation.isPending ? 'Drafting...' : 'Draft Purchase Orders'}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <Select value={windowDays} onValueChange={setWindowDays}>
+            <SelectTrigger className="w-[180px]" data-testid="select-reorder-window">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {windowOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Switch id="reorder-include-all" checked={includeAll} onCheckedChange={setIncludeAll} data-testid="switch-reorder-include-all" />
+            <Label htmlFor="reorder-include-all">Show all items</Label>
+          </div>
+          {withoutSupplier.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {withoutSupplier.length} item(s) need a supplier before they can be ordered.
+            </p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Calculating suggestions...</p>
+        ) : suggestions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Nothing needs reordering right now.</p>
+        ) : (
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">On Hand</TableHead>
+                  <TableHead className="text-right">On Order</TableHead>
+                  <TableHead className="text-right">Daily Use</TableHead>
+                  <TableHead className="text-right">Days Left</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead className="text-right">Reorder Point</TableHead>
+                  <TableHead className="text-right">Suggested</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suggestions.map(suggestion => (
+                  <TableRow key={suggestion.itemId} data-testid={`row-reorder-${suggestion.itemId}`}>
+                    <TableCell>
+                      <p className="font-medium">{suggestion.name}</p>
+                      <p className="text-xs text-muted-foreground font-mono">{suggestion.sku}</p>
+                    </TableCell>
+                    <TableCell className="text-right">{suggestion.quantityInStock}</TableCell>
+                    <TableCell className="text-right">{suggestion.quantityOnOrder || '-'}</TableCell>
+                    <TableCell className="text-right">{suggestion.averageDailyUsage}</TableCell>
+                    <TableCell className="text-right">
+                      {suggestion.daysOfStock === null ? '-' : (
+                        <span className={suggestion.daysOfStock <= suggestion.leadTimeDays ? 'text-destructive font-medium' : undefined}>
+                          {suggestion.daysOfStock}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <p className="text-sm">{suggestion.supplierName || 'No supplier'}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {suggestion.leadTimeDays} day lead time ({leadTimeSourceLabels[suggestion.leadTimeSource]})
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-right">{suggestion.reorderPoint}</TableCell>
+                    <TableCell className="text-right">
+                      {suggestion.needsReorder ? (
+                        <Badge className="bg-yellow-500/10 text-yellow-600 border-yellow-500/20">
+                          {suggestion.suggestedQuantity} {suggestion.unitOfMeasure || ''}
+                        </Badge>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">OK</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,6 +8,7 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertReportSchema, updateReportSchema, type Report, type User, type Task, type Project } from "@shared/schema";
@@ -17,6 +18,9 @@ import { format } from "date-fns";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { exportToCSV } from "@/lib/exportUtils";
+import { useAuth } from "@/hooks/useAuth";
+import { hasPermission } from "@shared/permissions";
+import { ProjectProfitabilityReport } from "./ProjectProfitabilityReport";
 
 type ReportsManagerProps = {
   role: 'employee' | 'manager' | 'admin';
@@ -31,6 +35,8 @@ export default function ReportsManager({ role, userId }: ReportsManagerProps) {
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(20);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const canViewFinancial = !!user?.role && hasPermission(user.role, 'viewFinancial');
 
   // Fetch reports based on role
   const { data: reports = [], isLoading: reportsLoading } = useQuery<Report[]>({
@@ -244,7 +250,7 @@ export default function ReportsManager({ role, userId }: ReportsManagerProps) {
     return <div className="text-center py-8">Loading reports...</div>;
   }
 
-  return (
+  const workReports = (
     <div className="space-y-4">
       <div className="flex justify-between items-center gap-2 flex-wrap">
         <div>
@@ -667,4 +673,21 @@ export default function ReportsManager({ role, userId }: ReportsManagerProps) {
       )}
     </div>
   );
+
+  if (!canViewFinancial) {
+    return workReports;
+  }
+
+  return (
+    <Tabs defaultValue="work-reports">
+      <TabsList className="mb-4">
+        <TabsTrigger value="work-reports" data-testid="tab-work-reports">Work Reports</TabsTrigger>
+        <TabsTrigger value="profitability" data-testid="tab-project-profitability-report">Project Profitability</TabsTrigger>
+      </TabsList>
+      <TabsContent value="work-reports">{workReports}</TabsContent>
+      <TabsContent value="profitability">
+        <ProjectProfitabilityReport />
+      </TabsContent>
+    </Tabs>
+  );
 }
@@ -0,0 +1,319 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Plus, Search, ShieldAlert } from "lucide-react";
+import { format, differenceInCalendarDays } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { hasPermission } from "@shared/permissions";
+import type { InventoryItem, SerializedUnit } from "@shared/schema";
+
+export type SerializedUnitDetail = SerializedUnit & {
+  sku: string;
+  itemName: string;
+  category: string;
+  projectName: string | null;
+  projectTicketNumber: string | null;
+  clientId: string | null;
+  clientName: string | null;
+};
+
+export const serialStatusLabels: Record<SerializedUnit['status'], string> = {
+  in_stock: "In Stock",
+  allocated: "Allocated",
+  installed: "Installed",
+  retired: "Retired",
+};
+
+export const getSerialStatusColor = (status: SerializedUnit['status']) => {
+  switch (status) {
+    case 'in_stock':
+      return 'bg-blue-500/10 text-blue-500 border-blue-500/20';
+    case 'allocated':
+      return 'bg-yellow-500/10 text-yellow-600 border-yellow-500/20';
+    case 'installed':
+      return 'bg-green-500/10 text-green-500 border-green-500/20';
+    default:
+      return 'bg-gray-500/10 text-gray-500 border-gray-500/20';
+  }
+};
+
+export function WarrantyLabel({ warrantyEndsAt }: { warrantyEndsAt: string | Date | null }) {
+  if (!warrantyEndsAt) return <span className="text-sm text-muted-foreground">-</span>;
+  const daysLeft = differenceInCalendarDays(new Date(warrantyEndsAt), new Date());
+  return (
+    <span className={daysLeft < 0 ? 'text-sm text-destructive' : daysLeft <= 90 ? 'text-sm text-yellow-600 font-medium' : 'text-sm'}>
+      {format(new Date(warrantyEndsAt), 'MMM d, yyyy')}
+      {daysLeft < 0 && ' (expired)'}
+    </span>
+  );
+}
+
+export function SerialNumbersPanel() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canManage = !!user?.role && hasPermission(user.role, 'manageInventory');
+  const canViewClients = !!user?.role && hasPermission(user.role, 'viewClients');
+  const [searchTerm, setSearchTerm] = useState("");
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [isRegisterOpen, setIsRegisterOpen] = useState(false);
+  const [registerItemId, setRegisterItemId] = useState("");
+  const [serialText, setSerialText] = useState("");
+
+  const { data: units = [], isLoading } = useQuery<SerializedUnitDetail[]>({
+    queryKey: ['/api/serials', search, statusFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (search) params.set('search', search);
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+      const response = await apiRequest('GET', `/api/serials?${params.toString()}`);
+      return response.json();
+    },
+  });
+
+  const { data: expiring = [] } = useQuery<SerializedUnitDetail[]>({
+    queryKey: ['/api/serials/warranty-expiring'],
+    enabled: canViewClients,
+  });
+
+  const { data: items = [] } = useQuery<InventoryItem[]>({
+    queryKey: ["/api/inventory/items"],
+    enabled: canManage,
+  });
+  const serializedItems = items.filter(item => item.isSerialized);
+
+  const serialNumbers = serialText.split(/[\n,]+/).map(serial => serial.trim()).filter(Boolean);
+
+  const registerMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/inventory/items/${registerItemId}/serials`, { serialNumbers });
+      return response.json();
+    },
+    onSuccess: (registered: SerializedUnit[]) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/serials'] });
+      setIsRegisterOpen(false);
+      toast({ title: `${registered.length} serial number(s) recorded` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to record serial numbers",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openRegisterDialog = () => {
+    setRegisterItemId("");
+    setSerialText("");
+    setIsRegisterOpen(true);
+  };
+
+  // Group expiring warranties by client so each client can be contacted once
+  const expiringByClient = expiring.reduce<Record<string, SerializedUnitDetail[]>>((groups, unit) => {
+    const key = unit.clientName || 'No client';
+    (groups[key] = groups[key] || []).push(unit);
+    return groups;
+  }, {});
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+          <div>
+            <CardTitle>Serial Numbers</CardTitle>
+            <CardDescription>Find any serialised unit and where it was installed</CardDescription>
+          </div>
+          {canManage && (
+            <Button onClick={openRegisterDialog} data-testid="button-register-serials">
+              <Plus className="h-4 w-4 mr-2" />
+              Record Serials
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="flex flex-wrap gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setSearch(searchTerm.trim());
+            }}
+          >
+            <div className="relative flex-1 min-w-[220px]">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Search serial number..."
+                className="pl-9"
+                data-testid="input-serial-search"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[160px]" data-testid="select-serial-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                {Object.entries(serialStatusLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" variant="outline" data-testid="button-serial-search">Search</Button>
+          </form>
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Searching...</p>
+          ) : units.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No serial numbers found.</p>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Serial</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Project / Client</TableHead>
+                    <TableHead>Installed</TableHead>
+                    <TableHead>Warranty Ends</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {units.map(unit => (
+                    <TableRow key={unit.id} data-testid={`row-serial-${unit.id}`}>
+                      <TableCell className="font-mono text-sm">{unit.serialNumber}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{unit.itemName}</p>
+                        <p className="text-xs text-muted-foreground font-mono">{unit.sku}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={getSerialStatusColor(unit.status)}>{serialStatusLabels[unit.status]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {unit.projectName ? (
+                          <>
+                            <p className="text-sm">{unit.projectName}</p>
+                            <p className="text-xs text-muted-foreground">{unit.clientName || unit.projectTicketNumber}</p>
+                          </>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {unit.installedAt ? format(new Date(unit.installedAt), 'MMM d, yyyy') : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <WarrantyLabel warrantyEndsAt={unit.warrantyEndsAt} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {canViewClients && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5 text-yellow-600" />
+              Warranties Expiring in 90 Days
+            </CardTitle>
+            <CardDescription>Installed equipment coming off manufacturer warranty, by client</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {expiring.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No warranties expire in the next 90 days.</p>
+            ) : (
+              Object.entries(expiringByClient).map(([clientName, clientUnits]) => (
+                <div key={clientName} className="space-y-2" data-testid={`group-warranty-client-${clientUnits[0].clientId ?? 'none'}`}>
+                  <h4 className="text-sm font-semibold">{clientName}</h4>
+                  <ul className="space-y-1">
+                    {clientUnits.map(unit => (
+                      <li key={unit.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span>
+                          {unit.itemName} <span className="font-mono text-xs text-muted-foreground">{unit.serialNumber}</span>
+                          {unit.projectName && <span className="text-muted-foreground"> - {unit.projectName}</span>}
+                        </span>
+                        <WarrantyLabel warrantyEndsAt={unit.warrantyEndsAt} />
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Record Serials Dialog */}
+      <Dialog open={isRegisterOpen} onOpenChange={setIsRegisterOpen}>
+        <DialogContent data-testid="dialog-register-serials">
+          <DialogHeader>
+            <DialogTitle>Record Serial Numbers</DialogTitle>
+            <DialogDescription>
+              For units already in stock. Serials for new deliveries are entered when the purchase order is received.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Item</Label>
+              <Select value={registerItemId} onValueChange={setRegisterItemId}>
+                <SelectTrigger data-testid="select-register-serial-item">
+                  <SelectValue placeholder="Select serial-tracked item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {serializedItems.map(item => (
+                    <SelectItem key={item.id} value={item.id}>{item.sku} - {item.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {serializedItems.length === 0 && (
+                <p className="text-xs text-muted-foreground">Turn on "Serial Tracked" for an item first.</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="serial-numbers">Serial Numbers</Label>
+              <Textarea
+                id="serial-numbers"
+                value={serialText}
+                onChange={(e) => setSerialText(e.target.value)}
+                rows={6}
+                placeholder="One per line (or comma separated)"
+                className="font-mono"
+                data-testid="input-serial-numbers"
+              />
+              <p className="text-xs text-muted-foreground">{serialNumbers.length} serial number(s)</p>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setIsRegisterOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => registerMutation.mutate()}
+              disabled={!registerItemId || serialNumbers.length === 0 || registerMutation.isPending}
+              data-testid="button-save-serials"
+            >
+              {registerMutation.isPending ? 'Saving...' : 'Record'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
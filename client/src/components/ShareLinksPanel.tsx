@@ -0,0 +1,314 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Plus, Copy, Ban, Eye } from "lucide-react";
+import { format } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ShareLink, ShareLinkView, ShareLinkEntityType } from "@shared/schema";
+
+type ShareLinkWithStats = ShareLink & { viewCount: number; lastViewedAt: string | null };
+
+const expiryOptions = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+const sharePaths: Record<ShareLinkEntityType, string> = {
+  quote: "quotes",
+  invoice: "invoices",
+  project: "projects",
+  ticket: "tickets",
+};
+
+export const shareLinksQueryKey = (entityType: ShareLinkEntityType, entityId: string) =>
+  ['/api/share-links', entityType, entityId];
+
+const getLinkStatus = (link: ShareLink): 'active' | 'expired' | 'revoked' => {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && new Date(link.expiresAt).getTime() <= Date.now()) return 'expired';
+  return 'active';
+};
+
+interface ShareLinksPanelProps {
+  entityType: ShareLinkEntityType;
+  entityId: string;
+  documentNumber: string;
+}
+
+export function ShareLinksPanel({ entityType, entityId, documentNumber }: ShareLinksPanelProps) {
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [label, setLabel] = useState("");
+  const [expiry, setExpiry] = useState("30");
+  const [viewingLink, setViewingLink] = useState<ShareLinkWithStats | null>(null);
+
+  const buildUrl = (token: string) => `${window.location.origin}/${entityType}/${documentNumber}/${token}`;
+
+  const { data: links = [], isLoading, isError } = useQuery<ShareLinkWithStats[]>({
+    queryKey: shareLinksQueryKey(entityType, entityId),
+    queryFn: async () => {
+      const params = new URLSearchParams({ entityType, entityId });
+      const response = await apiRequest('GET', `/api/share-links?${params.toString()}`);
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const { data: views = [], isLoading: isLoadingViews } = useQuery<ShareLinkView[]>({
+    queryKey: ['/api/share-links', viewingLink?.id, 'views'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/share-links/${viewingLink!.id}/views`);
+      return response.json();
+    },
+    enabled: !!viewingLink,
+  });
+
+  const createLinkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/${sharePaths[entityType]}/${entityId}/share`, {
+        label: label.trim() || undefined,
+        expiresInDays: expiry === 'never' ? null : parseInt(expiry),
+      });
+      return response.json();
+    },
+    onSuccess: (data: { token: string }) => {
+      queryClient.invalidateQueries({ queryKey: shareLinksQueryKey(entityType, entityId) });
+      navigator.clipboard.writeText(buildUrl(data.token));
+      toast({ title: "Link created and copied to clipboard" });
+      setIsCreateOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to create share link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeLinkMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      const response = await apiRequest('POST', `/api/share-links/${linkId}/revoke`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: shareLinksQueryKey(entityType, entityId) });
+      toast({ title: "Share link revoked" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to revoke share link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCreateDialog = () => {
+    setLabel("");
+    setExpiry("30");
+    setIsCreateOpen(true);
+  };
+
+  // Users who can't manage this document's links don't see the panel
+  if (isError) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold">Share Links</h4>
+        <Button size="sm" variant="outline" onClick={openCreateDialog} data-testid={`button-new-share-link-${entityType}`}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Link
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading share links...</p>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-muted-foreground">This {entityType} has not been shared yet.</p>
+      ) : (
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Link</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Views</TableHead>
+                <TableHead className="w-[120px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {links.map((link) => {
+                const status = getLinkStatus(link);
+                return (
+                  <TableRow key={link.id} data-testid={`row-share-link-${link.id}`}>
+                    <TableCell className="text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{link.label || 'Untitled link'}</span>
+                        {status !== 'active' && (
+                          <Badge variant="outline" className={status === 'revoked' ? 'text-destructive' : 'text-muted-foreground'}>
+                            {status === 'revoked' ? 'Revoked' : 'Expired'}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        Created {format(new Date(link.createdAt), 'MMM d, yyyy')}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {link.expiresAt ? format(new Date(link.expiresAt), 'MMM d, yyyy') : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {link.viewCount}
+                      {link.lastViewedAt && (
+                        <div className="text-xs text-muted-foreground">
+                          Last {format(new Date(link.lastViewedAt), 'MMM d, h:mm a')}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setViewingLink(link)}
+                          disabled={link.viewCount === 0}
+                          data-testid={`button-share-link-views-${link.id}`}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        {status === 'active' && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => {
+                                navigator.clipboard.writeText(buildUrl(link.token));
+                                toast({ title: "Link copied to clipboard!" });
+                              }}
+                              data-testid={`button-copy-share-link-${link.id}`}
+                            >
+                              <Copy className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => revokeLinkMutation.mutate(link.id)}
+                              disabled={revokeLinkMutation.isPending}
+                              data-testid={`button-revoke-share-link-${link.id}`}
+                            >
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* New Share Link Dialog */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent data-testid="dialog-new-share-link">
+          <DialogHeader>
+            <DialogTitle>New Share Link</DialogTitle>
+            <DialogDescription>
+              Anyone with the link can view {documentNumber} until it expires or is revoked.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="share-link-label">Recipient or Label (Optional)</Label>
+              <Input
+                id="share-link-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="e.g. Jane at Acme Corp"
+                maxLength={100}
+                data-testid="input-share-link-label"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Expires After</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger data-testid="select-share-link-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createLinkMutation.mutate()}
+              disabled={createLinkMutation.isPending}
+              data-testid="button-create-share-link"
+            >
+              {createLinkMutation.isPending ? 'Creating...' : 'Create & Copy Link'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Access Log Dialog */}
+      <Dialog open={!!viewingLink} onOpenChange={(open) => !open && setViewingLink(null)}>
+        <DialogContent className="sm:max-w-[700px]" data-testid="dialog-share-link-views">
+          <DialogHeader>
+            <DialogTitle>Link Views</DialogTitle>
+            <DialogDescription>
+              {viewingLink?.label || 'Untitled link'} - opened {viewingLink?.viewCount ?? 0} time(s)
+            </DialogDescription>
+          </DialogHeader>
+          {isLoadingViews ? (
+            <p className="text-sm text-muted-foreground">Loading views...</p>
+          ) : (
+            <div className="border rounded-lg overflow-hidden max-h-[400px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Opened</TableHead>
+                    <TableHead>IP Address</TableHead>
+                    <TableHead>Browser</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {views.map(view => (
+                    <TableRow key={view.id}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {format(new Date(view.viewedAt), 'MMM d, yyyy h:mm a')}
+                      </TableCell>
+                      <TableCell className="text-sm">{view.ipAddress || '-'}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground break-all">{view.userAgent || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Eraser } from "lucide-react";
+
+const CANVAS_WIDTH = 600;
+const CANVAS_HEIGHT = 180;
+
+interface SignaturePadProps {
+  // Receives the drawing as a PNG data URL, or null once cleared
+  onChange: (signature: string | null) => void;
+  disabled?: boolean;
+}
+
+export function SignaturePad({ onChange, disabled }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [hasSignature, setHasSignature] = useState(false);
+
+  // Pointer position in canvas pixels (the canvas is scaled to fit its container)
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * CANVAS_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    lastPointRef.current = getPoint(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !lastPointRef.current) return;
+
+    const point = getPoint(event);
+    ctx.strokeStyle = '#0f172a';
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(lastPointRef.current.x, lastPointRef.current.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+    setHasSignature(true);
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    if (hasSignature && canvasRef.current) {
+      onChange(canvasRef.current.toDataURL('image/png'));
+    }
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    setHasSignature(false);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative rounded-md border bg-white">
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          className="w-full h-[140px] touch-none cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+          data-testid="canvas-signature"
+        />
+        {!hasSignature && (
+          <p className="pointer-events-none absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+            Sign here
+          </p>
+        )}
+        <div className="pointer-events-none absolute left-6 right-6 bottom-8 border-b border-slate-300" />
+      </div>
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={handleClear}
+          disabled={disabled || !hasSignature}
+          data-testid="button-clear-signature"
+        >
+          <Eraser className="mr-2 h-4 w-4" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
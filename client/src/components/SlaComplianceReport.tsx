@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { format, subDays } from "date-fns";
+
+interface SlaComplianceRow {
+  id: string | null;
+  name: string;
+  tickets: number;
+  responseMet: number;
+  responseBreached: number;
+  resolutionMet: number;
+  resolutionBreached: number;
+  responseCompliance: number | null;
+  resolutionCompliance: number | null;
+}
+
+interface SlaComplianceReportData {
+  totals: SlaComplianceRow;
+  byClient: SlaComplianceRow[];
+  byTechnician: SlaComplianceRow[];
+}
+
+function ComplianceBadge({ percent }: { percent: number | null }) {
+  if (percent === null) return <span className="text-muted-foreground">—</span>;
+  const variant = percent >= 95 ? "default" : percent >= 80 ? "secondary" : "destructive";
+  return <Badge variant={variant}>{percent}%</Badge>;
+}
+
+function ComplianceTable({ title, firstColumn, rows }: { title: string; firstColumn: string; rows: SlaComplianceRow[] }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No tickets with SLA targets in this range</p>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{firstColumn}</TableHead>
+                <TableHead className="text-right">Tickets</TableHead>
+                <TableHead className="text-right">Response Met / Breached</TableHead>
+                <TableHead className="text-right">Response</TableHead>
+                <TableHead className="text-right">Resolution Met / Breached</TableHead>
+                <TableHead className="text-right">Resolution</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.id ?? 'none'} data-testid={`row-sla-compliance-${row.id ?? 'none'}`}>
+                  <TableCell className="font-medium">{row.name}</TableCell>
+                  <TableCell className="text-right">{row.tickets}</TableCell>
+                  <TableCell className="text-right">{row.responseMet} / {row.responseBreached}</TableCell>
+                  <TableCell className="text-right"><ComplianceBadge percent={row.responseCompliance} /></TableCell>
+                  <TableCell className="text-right">{row.resolutionMet} / {row.resolutionBreached}</TableCell>
+                  <TableCell className="text-right"><ComplianceBadge percent={row.resolutionCompliance} /></TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Share of first-response and resolution targets met for tickets opened in the range; running timers aren't counted yet
+export function SlaComplianceReport() {
+  const [from, setFrom] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  // Date inputs give calendar days; send the whole of both days in local time
+  const params = new URLSearchParams();
+  if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+
+  const { data: report, isLoading } = useQuery<SlaComplianceReportData>({
+    queryKey: [`/api/sla/compliance?${params.toString()}`],
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-end justify-between gap-4 flex-wrap space-y-0 pb-4">
+        <div>
+          <CardTitle>SLA Compliance</CardTitle>
+          <CardDescription>Tickets opened in the range, by client and by assigned technician</CardDescription>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="sla-report-from" className="text-xs">From</Label>
+            <Input id="sla-report-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-sla-report-from" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sla-report-to" className="text-xs">To</Label>
+            <Input id="sla-report-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-sla-report-to" />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !report ? (
+          <p className="text-sm text-muted-foreground">Loading SLA compliance...</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="rounded-md border p-4">
+                <div className="text-sm text-muted-foreground">Tickets with SLA</div>
+                <div className="text-2xl font-bold" data-testid="text-sla-tickets">{report.totals.tickets}</div>
+              </div>
+              <div className="rounded-md border p-4">
+                <div className="text-sm text-muted-foreground">First response met</div>
+                <div className="text-2xl font-bold" data-testid="text-sla-response-compliance">
+                  {report.totals.responseCompliance === null ? '—' : `${report.totals.responseCompliance}%`}
+                </div>
+              </div>
+              <div className="rounded-md border p-4">
+                <div className="text-sm text-muted-foreground">Resolution met</div>
+                <div className="text-2xl font-bold" data-testid="text-sla-resolution-compliance">
+                  {report.totals.resolutionCompliance === null ? '—' : `${report.totals.resolutionCompliance}%`}
+                </div>
+              </div>
+            </div>
+            <ComplianceTable title="By client" firstColumn="Client" rows={report.byClient} />
+            <ComplianceTable title="By technician" firstColumn="Technician" rows={report.byTechnician} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,379 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { SlaPolicy, SupportPlan } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Edit, Trash2 } from "lucide-react";
+
+type SlaPolicyDetail = SlaPolicy & {
+  supportPlanName: string | null;
+};
+
+interface SlaPolicyFormState {
+  name: string;
+  priority: SlaPolicy['priority'];
+  supportPlanId: string; // 'default' = clients without a plan-specific policy
+  firstResponseHours: string;
+  resolutionHours: string;
+  businessHoursOnly: boolean;
+  warningPercent: string;
+  isActive: boolean;
+}
+
+const emptyForm: SlaPolicyFormState = {
+  name: '',
+  priority: 'medium',
+  supportPlanId: 'default',
+  firstResponseHours: '4',
+  resolutionHours: '24',
+  businessHoursOnly: true,
+  warningPercent: '80',
+  isActive: true,
+};
+
+const priorityLabels: Record<SlaPolicy['priority'], string> = {
+  urgent: 'Urgent',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+function formatSlaMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+const hoursToMinutes = (value: string) => Math.round(parseFloat(value) * 60);
+
+// Response and resolution targets per ticket priority; a plan-specific policy overrides the default for that plan's clients
+export function SlaPoliciesManager({ canManage }: { canManage: boolean }) {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<SlaPolicyDetail | null>(null);
+  const [form, setForm] = useState<SlaPolicyFormState>(emptyForm);
+
+  const { data: policies = [], isLoading } = useQuery<SlaPolicyDetail[]>({
+    queryKey: ['/api/sla-policies'],
+  });
+
+  const { data: plans = [] } = useQuery<SupportPlan[]>({
+    queryKey: ['/api/support-plans'],
+    enabled: isDialogOpen && !editing,
+  });
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditing(null);
+    setForm(emptyForm);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: SlaPolicyFormState) => {
+      const targets = {
+        name: values.name,
+        firstResponseMinutes: hoursToMinutes(values.firstResponseHours),
+        resolutionMinutes: hoursToMinutes(values.resolutionHours),
+        businessHoursOnly: values.businessHoursOnly,
+        warningPercent: values.warningPercent,
+        isActive: values.isActive,
+      };
+      const response = editing
+        ? await apiRequest('PATCH', `/api/sla-policies/${editing.id}`, targets)
+        : await apiRequest('POST', '/api/sla-policies', {
+          ...targets,
+          priority: values.priority,
+          supportPlanId: values.supportPlanId === 'default' ? null : values.supportPlanId,
+        });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sla-policies'] });
+      toast({ title: editing ? "SLA policy updated" : "SLA policy created" });
+      closeDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save SLA policy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/sla-policies/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sla-policies'] });
+      toast({ title: "SLA policy deleted" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete SLA policy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenDialog = (policy?: SlaPolicyDetail) => {
+    setEditing(policy ?? null);
+    setForm(policy ? {
+      name: policy.name,
+      priority: policy.priority,
+      supportPlanId: policy.supportPlanId ?? 'default',
+      firstResponseHours: String(policy.firstResponseMinutes / 60),
+      resolutionHours: String(policy.resolutionMinutes / 60),
+      businessHoursOnly: policy.businessHoursOnly,
+      warningPercent: String(policy.warningPercent),
+      isActive: policy.isActive,
+    } : emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm('Delete this SLA policy? Tickets already opened under it keep their due dates.')) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(form);
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-4">
+          <div>
+            <CardTitle>SLA Policies</CardTitle>
+            <CardDescription>
+              Targets apply to tickets opened or re-prioritised after a change, and start now for open tickets no policy covered yet; resolved tickets pause the clock
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button onClick={() => handleOpenDialog()} data-testid="button-add-sla-policy">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Policy
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading SLA policies...</div>
+          ) : policies.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No SLA policies yet. Tickets are opened without response or resolution targets.
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Applies To</TableHead>
+                    <TableHead>Priority</TableHead>
+                    <TableHead>First Response</TableHead>
+                    <TableHead>Resolution</TableHead>
+                    <TableHead>Clock</TableHead>
+                    <TableHead>Status</TableHead>
+                    {canManage && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {policies.map((policy) => (
+                    <TableRow key={policy.id} data-testid={`row-sla-policy-${policy.id}`}>
+                      <TableCell className="font-medium">{policy.name}</TableCell>
+                      <TableCell>{policy.supportPlanName ?? 'All clients'}</TableCell>
+                      <TableCell>{priorityLabels[policy.priority]}</TableCell>
+                      <TableCell>{formatSlaMinutes(policy.firstResponseMinutes)}</TableCell>
+                      <TableCell>{formatSlaMinutes(policy.resolutionMinutes)}</TableCell>
+                      <TableCell>{policy.businessHoursOnly ? 'Business hours' : '24/7'}</TableCell>
+                      <TableCell>
+                        <Badge variant={policy.isActive ? "default" : "secondary"}>
+                          {policy.isActive ? "Active" : "Inactive"}
+                        </Badge>
+                      </TableCell>
+                      {canManage && (
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleOpenDialog(policy)}
+                              data-testid={`button-edit-sla-policy-${policy.id}`}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(policy.id)}
+                              data-testid={`button-delete-sla-policy-${policy.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit SLA Policy" : "Add SLA Policy"}</DialogTitle>
+            <DialogDescription>How quickly tickets of this priority must be answered and resolved</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sla-policy-name">Name</Label>
+              <Input
+                id="sla-policy-name"
+                placeholder="e.g., Urgent - Premium support"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+                data-testid="input-sla-policy-name"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select
+                  value={form.priority}
+                  onValueChange={(value) => setForm({ ...form, priority: value as SlaPolicyFormState['priority'] })}
+                  disabled={!!editing}
+                >
+                  <SelectTrigger data-testid="select-sla-policy-priority">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(priorityLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Support Plan</Label>
+                <Select
+                  value={form.supportPlanId}
+                  onValueChange={(value) => setForm({ ...form, supportPlanId: value })}
+                  disabled={!!editing}
+                >
+                  <SelectTrigger data-testid="select-sla-policy-plan">
+                    <SelectValue placeholder={editing?.supportPlanName ?? undefined} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">All clients (default)</SelectItem>
+                    {editing?.supportPlanId && (
+                      <SelectItem value={editing.supportPlanId}>{editing.supportPlanName}</SelectItem>
+                    )}
+                    {plans.map(plan => (
+                      <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sla-policy-response">First Response (hours)</Label>
+                <Input
+                  id="sla-policy-response"
+                  type="number"
+                  min="0.25"
+                  step="0.25"
+                  value={form.firstResponseHours}
+                  onChange={(e) => setForm({ ...form, firstResponseHours: e.target.value })}
+                  required
+                  data-testid="input-sla-policy-response"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sla-policy-resolution">Resolution (hours)</Label>
+                <Input
+                  id="sla-policy-resolution"
+                  type="number"
+                  min="0.25"
+                  step="0.25"
+                  value={form.resolutionHours}
+                  onChange={(e) => setForm({ ...form, resolutionHours: e.target.value })}
+                  required
+                  data-testid="input-sla-policy-resolution"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sla-policy-warning">Warn At (% of target elapsed)</Label>
+              <Input
+                id="sla-policy-warning"
+                type="number"
+                min="1"
+                max="99"
+                value={form.warningPercent}
+                onChange={(e) => setForm({ ...form, warningPercent: e.target.value })}
+                data-testid="input-sla-policy-warning"
+              />
+            </div>
+
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <Label htmlFor="sla-policy-business-hours">Business hours only</Label>
+                <p className="text-xs text-muted-foreground">Count only the opening hours set in Company Settings</p>
+              </div>
+              <Switch
+                id="sla-policy-business-hours"
+                checked={form.businessHoursOnly}
+                onCheckedChange={(checked) => setForm({ ...form, businessHoursOnly: checked })}
+                data-testid="switch-sla-policy-business-hours"
+              />
+            </div>
+
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <Label htmlFor="sla-policy-active">Active</Label>
+              <Switch
+                id="sla-policy-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+                data-testid="switch-sla-policy-active"
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-sla-policy">
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,437 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Plus, ArrowRightLeft, Warehouse, Truck, MapPin } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { hasPermission } from "@shared/permissions";
+import type { InventoryItem, StockLocation, User } from "@shared/schema";
+
+interface LocationStockItem {
+  itemId: string;
+  sku: string;
+  name: string;
+  category: string;
+  unitOfMeasure: string | null;
+  minimumStockLevel: number | null;
+  quantity: number;
+}
+
+type LocationType = StockLocation['type'];
+
+// Select items need a non-empty value, so unassigned stock gets a sentinel
+const UNASSIGNED = "unassigned";
+
+const locationTypeLabels: Record<LocationType, string> = {
+  warehouse: "Warehouse",
+  van: "Van",
+  job_site: "Job Site",
+};
+
+const locationTypeIcons: Record<LocationType, typeof Warehouse> = {
+  warehouse: Warehouse,
+  van: Truck,
+  job_site: MapPin,
+};
+
+const emptyLocation = { name: "", type: "van" as LocationType, assignedUserId: "", address: "" };
+const emptyTransfer = { itemId: "", fromLocationId: UNASSIGNED, toLocationId: "", quantity: "1", notes: "" };
+
+export function StockLocationsPanel() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canManage = !!user?.role && hasPermission(user.role, 'manageInventory');
+  const [selectedLocationId, setSelectedLocationId] = useState("");
+  const [isLocationOpen, setIsLocationOpen] = useState(false);
+  const [newLocation, setNewLocation] = useState(emptyLocation);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [transfer, setTransfer] = useState(emptyTransfer);
+
+  const { data: locations = [], isLoading: isLoadingLocations } = useQuery<StockLocation[]>({
+    queryKey: ['/api/inventory/locations'],
+  });
+
+  const { data: stock = [], isLoading: isLoadingStock } = useQuery<LocationStockItem[]>({
+    queryKey: ['/api/inventory/locations', selectedLocationId, 'stock'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/inventory/locations/${selectedLocationId}/stock`);
+      return response.json();
+    },
+    enabled: !!selectedLocationId,
+  });
+
+  const { data: items = [] } = useQuery<InventoryItem[]>({
+    queryKey: ["/api/inventory/items"],
+    enabled: canManage,
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    enabled: canManage,
+  });
+
+  // Technicians land on their own van; everyone else on the first location
+  useEffect(() => {
+    if (selectedLocationId || locations.length === 0) return;
+    const ownVan = locations.find(location => location.type === 'van' && location.assignedUserId === user?.id);
+    setSelectedLocationId((ownVan || locations[0]).id);
+  }, [locations, selectedLocationId, user?.id]);
+
+  const createLocationMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/inventory/locations', {
+        name: newLocation.name.trim(),
+        type: newLocation.type,
+        assignedUserId: newLocation.assignedUserId || null,
+        address: newLocation.address.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: (location: StockLocation) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory/locations'] });
+      setSelectedLocationId(location.id);
+      setIsLocationOpen(false);
+      toast({ title: "Location added" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to add location",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/inventory/transfers', {
+        itemId: transfer.itemId,
+        fromLocationId: transfer.fromLocationId === UNASSIGNED ? null : transfer.fromLocationId,
+        toLocationId: transfer.toLocationId === UNASSIGNED ? null : transfer.toLocationId,
+        quantity: parseInt(transfer.quantity),
+        notes: transfer.notes.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory/locations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory/transactions'] });
+      setIsTransferOpen(false);
+      toast({ title: "Stock transferred" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to transfer stock",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openLocationDialog = () => {
+    setNewLocation(emptyLocation);
+    setIsLocationOpen(true);
+  };
+
+  const openTransferDialog = (itemId = "") => {
+    setTransfer({ ...emptyTransfer, itemId, fromLocationId: itemId ? selectedLocationId : UNASSIGNED });
+    setIsTransferOpen(true);
+  };
+
+  const selectedLocation = locations.find(location => location.id === selectedLocationId);
+  const technicians = users.filter(candidate => candidate.role !== 'client');
+  const transferQuantity = parseInt(transfer.quantity);
+  const canSubmitTransfer = !!transfer.itemId && !!transfer.toLocationId &&
+    transfer.fromLocationId !== transfer.toLocationId && transferQuantity > 0;
+
+  const userName = (userId: string | null) => {
+    const assignee = users.find(candidate => candidate.id === userId);
+    return assignee ? `${assignee.firstName || ''} ${assignee.lastName || ''}`.trim() || assignee.email : null;
+  };
+
+  const renderLocationOptions = (includeUnassigned: boolean) => (
+    <>
+      {includeUnassigned && <SelectItem value={UNASSIGNED}>Unassigned stock</SelectItem>}
+      {locations.map(location => (
+        <SelectItem key={location.id} value={location.id}>
+          {location.name} ({locationTypeLabels[location.type]})
+        </SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle>Stock by Location</CardTitle>
+          <CardDescription>What is in the warehouse, on each van and at each job site</CardDescription>
+        </div>
+        {canManage && (
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={openLocationDialog} data-testid="button-add-stock-location">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Location
+            </Button>
+            <Button size="sm" onClick={() => openTransferDialog()} disabled={locations.length === 0} data-testid="button-transfer-stock">
+              <ArrowRightLeft className="h-4 w-4 mr-2" />
+              Transfer
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoadingLocations ? (
+          <p className="text-sm text-muted-foreground">Loading locations...</p>
+        ) : locations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {canManage ? "No stock locations yet. Add the warehouse and a van for each technician." : "No van has been assigned to you yet."}
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <Select value={selectedLocationId} onValueChange={setSelectedLocationId}>
+                <SelectTrigger className="w-[280px]" data-testid="select-stock-location">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>{renderLocationOptions(false)}</SelectContent>
+              </Select>
+              {selectedLocation && (
+                <div className="text-sm text-muted-foreground">
+                  {selectedLocation.assignedUserId && userName(selectedLocation.assignedUserId) && (
+                    <span>Assigned to {userName(selectedLocation.assignedUserId)}</span>
+                  )}
+                  {selectedLocation.address && <span className="ml-2">{selectedLocation.address}</span>}
+                </div>
+              )}
+            </div>
+
+            {isLoadingStock ? (
+              <p className="text-sm text-muted-foreground">Loading stock...</p>
+            ) : stock.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing is stocked at this location.</p>
+            ) : (
+              <div className="border rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>SKU</TableHead>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      {canManage && <TableHead className="w-[60px]"></TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stock.map(row => (
+                      <TableRow key={row.itemId} data-testid={`row-location-stock-${row.itemId}`}>
+                        <TableCell className="font-mono text-sm">{row.sku}</TableCell>
+                        <TableCell className="font-medium">{row.name}</TableCell>
+                        <TableCell className="text-sm">{row.category}</TableCell>
+                        <TableCell className="text-right">
+                          <span className={row.quantity < 0 ? 'text-destructive font-medium' : undefined}>
+                            {row.quantity}
+                          </span>
+                          {row.unitOfMeasure && <span className="text-xs text-muted-foreground ml-1">{row.unitOfMeasure}</span>}
+                        </TableCell>
+                        {canManage && (
+                          <TableCell className="text-right">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => openTransferDialog(row.itemId)}
+                              data-testid={`button-transfer-item-${row.itemId}`}
+                            >
+                              <ArrowRightLeft className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {locations.map(location => {
+                const Icon = locationTypeIcons[location.type];
+                return (
+                  <Badge
+                    key={location.id}
+                    variant={location.id === selectedLocationId ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => setSelectedLocationId(location.id)}
+                  >
+                    <Icon className="h-3 w-3 mr-1" />
+                    {location.name}
+                  </Badge>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      {/* Add Location Dialog */}
+      <Dialog open={isLocationOpen} onOpenChange={setIsLocationOpen}>
+        <DialogContent data-testid="dialog-add-stock-location">
+          <DialogHeader>
+            <DialogTitle>Add Stock Location</DialogTitle>
+            <DialogDescription>Vans are shown to the technician they are assigned to.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="stock-location-name">Name</Label>
+              <Input
+                id="stock-location-name"
+                value={newLocation.name}
+                onChange={(e) => setNewLocation({ ...newLocation, name: e.target.value })}
+                placeholder="e.g. Van 3"
+                data-testid="input-stock-location-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={newLocation.type} onValueChange={(value) => setNewLocation({ ...newLocation, type: value as LocationType })}>
+                <SelectTrigger data-testid="select-stock-location-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(locationTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {newLocation.type === 'van' && (
+              <div className="space-y-2">
+                <Label>Technician</Label>
+                <Select value={newLocation.assignedUserId} onValueChange={(value) => setNewLocation({ ...newLocation, assignedUserId: value })}>
+                  <SelectTrigger data-testid="select-stock-location-technician">
+                    <SelectValue placeholder="Select technician" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {technicians.map(technician => (
+                      <SelectItem key={technician.id} value={technician.id}>{userName(technician.id)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {newLocation.type !== 'van' && (
+              <div className="space-y-2">
+                <Label htmlFor="stock-location-address">Address</Label>
+                <Input
+                  id="stock-location-address"
+                  value={newLocation.address}
+                  onChange={(e) => setNewLocation({ ...newLocation, address: e.target.value })}
+                  data-testid="input-stock-location-address"
+                />
+              </div>
+            )}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setIsLocationOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createLocationMutation.mutate()}
+              disabled={!newLocation.name.trim() || createLocationMutation.isPending}
+              data-testid="button-save-stock-location"
+            >
+              {createLocationMutation.isPending ? 'Saving...' : 'Add Location'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Transfer Dialog */}
+      <Dialog open={isTransferOpen} onOpenChange={setIsTransferOpen}>
+        <DialogContent data-testid="dialog-transfer-stock">
+          <DialogHeader>
+            <DialogTitle>Transfer Stock</DialogTitle>
+            <DialogDescription>Move stock between the warehouse, vans and job sites.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Item</Label>
+              <Select value={transfer.itemId} onValueChange={(value) => setTransfer({ ...transfer, itemId: value })}>
+                <SelectTrigger data-testid="select-transfer-item">
+                  <SelectValue placeholder="Select item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {items.map(item => (
+                    <SelectItem key={item.id} value={item.id}>{item.sku} - {item.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Select value={transfer.fromLocationId} onValueChange={(value) => setTransfer({ ...transfer, fromLocationId: value })}>
+                  <SelectTrigger data-testid="select-transfer-from">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>{renderLocationOptions(true)}</SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <Select value={transfer.toLocationId} onValueChange={(value) => setTransfer({ ...transfer, toLocationId: value })}>
+                  <SelectTrigger data-testid="select-transfer-to">
+                    <SelectValue placeholder="Select location" />
+                  </SelectTrigger>
+                  <SelectContent>{renderLocationOptions(true)}</SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transfer-quantity">Quantity</Label>
+              <Input
+                id="transfer-quantity"
+                type="number"
+                min="1"
+                value={transfer.quantity}
+                onChange={(e) => setTransfer({ ...transfer, quantity: e.target.value })}
+                data-testid="input-transfer-quantity"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transfer-notes">Notes (Optional)</Label>
+              <Textarea
+                id="transfer-notes"
+                value={transfer.notes}
+                onChange={(e) => setTransfer({ ...transfer, notes: e.target.value })}
+                rows={2}
+                data-testid="input-transfer-notes"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setIsTransferOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => transferMutation.mutate()}
+              disabled={!canSubmitTransfer || transferMutation.isPending}
+              data-testid="button-submit-transfer"
+            >
+              {transferMutation.isPending ? 'Transferring...' : 'Transfer'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,551 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Client, Invoice, SupportPlan, SupportSubscription } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency";
+import { format } from "date-fns";
+import { Plus, Edit, XCircle, RotateCcw, FileText } from "lucide-react";
+
+type SupportSubscriptionDetail = SupportSubscription & {
+  clientName: string;
+  planName: string;
+  billingPeriod: string | null;
+  price: number;
+};
+
+interface SubscriptionFormState {
+  clientId: string;
+  planId: string;
+  startDate: string;
+  billingAnchor: string;
+  priceOverride: string;
+  taxRate: string;
+  paymentTermsDays: string;
+  autoSend: boolean;
+}
+
+const emptyForm = (): SubscriptionFormState => ({
+  clientId: '',
+  planId: '',
+  startDate: format(new Date(), 'yyyy-MM-dd'),
+  billingAnchor: '',
+  priceOverride: '',
+  taxRate: '0',
+  paymentTermsDays: '14',
+  autoSend: false,
+});
+
+// Plans that can't recur are left out; the server rejects them too
+const RECURRING_PERIODS = ['monthly', 'quarterly', 'semi-annual', 'annual', 'yearly'];
+
+const formatDate = (value: Date | string | null) => value ? format(new Date(value), 'MMM d, yyyy') : '—';
+
+// Date inputs give a calendar day; send it as local midnight rather than UTC
+const localDate = (value: string) => new Date(`${value}T00:00:00`);
+
+// Clients on recurring support plans; invoices are raised in advance by the hourly billing job
+export function SubscriptionsManager() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<SupportSubscriptionDetail | null>(null);
+  const [form, setForm] = useState<SubscriptionFormState>(emptyForm);
+  const [cancelling, setCancelling] = useState<SupportSubscriptionDetail | null>(null);
+  const [cancelAtPeriodEnd, setCancelAtPeriodEnd] = useState("true");
+  const [cancelReason, setCancelReason] = useState("");
+  const [invoicesFor, setInvoicesFor] = useState<SupportSubscriptionDetail | null>(null);
+
+  const { data: subscriptions = [], isLoading } = useQuery<SupportSubscriptionDetail[]>({
+    queryKey: ['/api/support-subscriptions'],
+  });
+
+  const { data: plans = [] } = useQuery<SupportPlan[]>({
+    queryKey: ['/api/support-plans'],
+  });
+
+  const { data: clients = [] } = useQuery<Client[]>({
+    queryKey: ['/api/clients'],
+    enabled: isDialogOpen && !editing,
+  });
+
+  const { data: subscriptionInvoices = [], isLoading: invoicesLoading } = useQuery<Invoice[]>({
+    queryKey: ['/api/support-subscriptions', invoicesFor?.id, 'invoices'],
+    enabled: !!invoicesFor,
+  });
+
+  const recurringPlans = plans.filter(plan => RECURRING_PERIODS.includes((plan.billingPeriod || '').trim().toLowerCase()));
+  // Changing plan mid-subscription keeps the billing period, so only offer matching plans
+  const selectablePlans = editing
+    ? recurringPlans.filter(plan => (plan.billingPeriod || '').trim().toLowerCase() === (editing.billingPeriod || '').trim().toLowerCase())
+    : recurringPlans;
+
+  const invalidateSubscriptions = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/support-subscriptions'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/financial/recurring-revenue'] });
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditing(null);
+    setForm(emptyForm());
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: SubscriptionFormState) => {
+      const shared = {
+        planId: values.planId,
+        priceOverride: values.priceOverride === '' ? null : values.priceOverride,
+        taxRate: values.taxRate || '0',
+        paymentTermsDays: values.paymentTermsDays || '14',
+        autoSend: values.autoSend,
+      };
+      const response = editing
+        ? await apiRequest('PUT', `/api/support-subscriptions/${editing.id}`, shared)
+        : await apiRequest('POST', '/api/support-subscriptions', {
+            ...shared,
+            clientId: values.clientId,
+            startDate: localDate(values.startDate),
+            billingAnchor: values.billingAnchor ? localDate(values.billingAnchor) : undefined,
+          });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSubscriptions();
+      toast({ title: editing ? "Subscription updated" : "Subscription created" });
+      closeDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save subscription",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async ({ id, atPeriodEnd, reason }: { id: string; atPeriodEnd: boolean; reason: string }) => {
+      const response = await apiRequest('POST', `/api/support-subscriptions/${id}/cancel`, {
+        atPeriodEnd,
+        reason: reason || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (subscription: SupportSubscriptionDetail) => {
+      invalidateSubscriptions();
+      toast({
+        title: subscription.status === 'cancelled' ? "Subscription cancelled" : "Subscription will cancel at period end",
+      });
+      setCancelling(null);
+      setCancelReason("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to cancel subscription",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('PUT', `/api/support-subscriptions/${id}`, { cancelAtPeriodEnd: false });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSubscriptions();
+      toast({ title: "Subscription will renew" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to resume subscription",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenDialog = (subscription?: SupportSubscriptionDetail) => {
+    setEditing(subscription ?? null);
+    setForm(subscription ? {
+      clientId: subscription.clientId,
+      planId: subscription.planId,
+      startDate: format(new Date(subscription.startDate), 'yyyy-MM-dd'),
+      billingAnchor: format(new Date(subscription.billingAnchor), 'yyyy-MM-dd'),
+      priceOverride: subscription.priceOverride ?? '',
+      taxRate: subscription.taxRate,
+      paymentTermsDays: String(subscription.paymentTermsDays),
+      autoSend: subscription.autoSend,
+    } : emptyForm());
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(form);
+  };
+
+  const statusBadge = (subscription: SupportSubscriptionDetail) => {
+    if (subscription.status === 'cancelled') {
+      return <Badge variant="secondary">Cancelled</Badge>;
+    }
+    if (subscription.cancelAtPeriodEnd) {
+      return <Badge variant="outline">Cancels {formatDate(subscription.currentPeriodEnd)}</Badge>;
+    }
+    return <Badge variant="default">Active</Badge>;
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-4">
+          <div>
+            <CardTitle>Support Subscriptions</CardTitle>
+            <CardDescription>
+              Each period is invoiced in advance; plan and price changes part-way through are prorated onto the next invoice
+            </CardDescription>
+          </div>
+          <Button onClick={() => handleOpenDialog()} data-testid="button-add-subscription">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Subscription
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading subscriptions...</div>
+          ) : subscriptions.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No subscriptions yet. Add one to start billing a client for a support plan.
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Plan</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Current Period</TableHead>
+                    <TableHead>Next Invoice</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {subscriptions.map((subscription) => (
+                    <TableRow key={subscription.id} data-testid={`row-subscription-${subscription.id}`}>
+                      <TableCell className="font-medium">{subscription.clientName}</TableCell>
+                      <TableCell>{subscription.planName}</TableCell>
+                      <TableCell>
+                        {formatCurrency(subscription.price)}
+                        <span className="text-muted-foreground"> / {subscription.billingPeriod}</span>
+                        {subscription.priceOverride !== null && (
+                          <Badge variant="outline" className="ml-2">Custom</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {subscription.currentPeriodStart
+                          ? `${formatDate(subscription.currentPeriodStart)} – ${formatDate(subscription.currentPeriodEnd)}`
+                          : 'Not yet billed'}
+                      </TableCell>
+                      <TableCell>
+                        {subscription.status === 'active' && !subscription.cancelAtPeriodEnd
+                          ? formatDate(subscription.nextBillingAt)
+                          : '—'}
+                      </TableCell>
+                      <TableCell>{statusBadge(subscription)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setInvoicesFor(subscription)}
+                            data-testid={`button-subscription-invoices-${subscription.id}`}
+                          >
+                            <FileText className="h-4 w-4" />
+                          </Button>
+                          {subscription.status === 'active' && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleOpenDialog(subscription)}
+                                data-testid={`button-edit-subscription-${subscription.id}`}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              {subscription.cancelAtPeriodEnd ? (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => resumeMutation.mutate(subscription.id)}
+                                  disabled={resumeMutation.isPending}
+                                  data-testid={`button-resume-subscription-${subscription.id}`}
+                                >
+                                  <RotateCcw className="h-4 w-4" />
+                                </Button>
+                              ) : (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setCancelling(subscription)}
+                                  data-testid={`button-cancel-subscription-${subscription.id}`}
+                                >
+                                  <XCircle className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Subscription" : "Add Subscription"}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? `${editing.clientName}. A new plan or price applies now, with the rest of the current period prorated.`
+                : "The first invoice is raised on the start date."}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {!editing && (
+              <div className="space-y-2">
+                <Label>Client</Label>
+                <Select value={form.clientId} onValueChange={(value) => setForm({ ...form, clientId: value })}>
+                  <SelectTrigger data-testid="select-subscription-client">
+                    <SelectValue placeholder="Select a client" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {clients.map((client) => (
+                      <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Plan</Label>
+              <Select value={form.planId} onValueChange={(value) => setForm({ ...form, planId: value })}>
+                <SelectTrigger data-testid="select-subscription-plan">
+                  <SelectValue placeholder="Select a plan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {selectablePlans.map((plan) => (
+                    <SelectItem key={plan.id} value={plan.id}>
+                      {plan.name} ({plan.rate ? formatCurrency(plan.rate) : 'no rate'} / {plan.billingPeriod})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {!editing && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="subscription-start">Start Date</Label>
+                  <Input
+                    id="subscription-start"
+                    type="date"
+                    value={form.startDate}
+                    onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                    required
+                    data-testid="input-subscription-start"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="subscription-anchor">Billing Anchor</Label>
+                  <Input
+                    id="subscription-anchor"
+                    type="date"
+                    value={form.billingAnchor}
+                    onChange={(e) => setForm({ ...form, billingAnchor: e.target.value })}
+                    data-testid="input-subscription-anchor"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Optional. Periods renew on this date; time before it is prorated.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="subscription-price">Price Override</Label>
+                <Input
+                  id="subscription-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Plan rate"
+                  value={form.priceOverride}
+                  onChange={(e) => setForm({ ...form, priceOverride: e.target.value })}
+                  data-testid="input-subscription-price"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="subscription-tax">Tax Rate (%)</Label>
+                <Input
+                  id="subscription-tax"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={form.taxRate}
+                  onChange={(e) => setForm({ ...form, taxRate: e.target.value })}
+                  data-testid="input-subscription-tax"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="subscription-terms">Due In (days)</Label>
+                <Input
+                  id="subscription-terms"
+                  type="number"
+                  min="0"
+                  max="120"
+                  value={form.paymentTermsDays}
+                  onChange={(e) => setForm({ ...form, paymentTermsDays: e.target.value })}
+                  data-testid="input-subscription-terms"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <Label htmlFor="subscription-auto-send">Send invoices automatically</Label>
+                <p className="text-xs text-muted-foreground">Off: invoices are created as drafts for review</p>
+              </div>
+              <Switch
+                id="subscription-auto-send"
+                checked={form.autoSend}
+                onCheckedChange={(checked) => setForm({ ...form, autoSend: checked })}
+                data-testid="switch-subscription-auto-send"
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeDialog}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveMutation.isPending || !form.planId || (!editing && !form.clientId)}
+                data-testid="button-save-subscription"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!cancelling} onOpenChange={(open) => !open && setCancelling(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Subscription</DialogTitle>
+            <DialogDescription>
+              {cancelling?.clientName} on {cancelling?.planName}. Cancelling immediately does not credit the unused part of the period.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <RadioGroup value={cancelAtPeriodEnd} onValueChange={setCancelAtPeriodEnd}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="true" id="cancel-period-end" />
+                <Label htmlFor="cancel-period-end">
+                  At the end of the current period{cancelling?.currentPeriodEnd ? ` (${formatDate(cancelling.currentPeriodEnd)})` : ''}
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="false" id="cancel-now" />
+                <Label htmlFor="cancel-now">Immediately</Label>
+              </div>
+            </RadioGroup>
+            <div className="space-y-2">
+              <Label htmlFor="cancel-reason">Reason</Label>
+              <Textarea
+                id="cancel-reason"
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                data-testid="input-cancel-reason"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelling(null)}>
+              Keep Subscription
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => cancelling && cancelMutation.mutate({
+                id: cancelling.id,
+                atPeriodEnd: cancelAtPeriodEnd === "true",
+                reason: cancelReason,
+              })}
+              disabled={cancelMutation.isPending}
+              data-testid="button-confirm-cancel-subscription"
+            >
+              {cancelMutation.isPending ? "Cancelling..." : "Cancel Subscription"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!invoicesFor} onOpenChange={(open) => !open && setInvoicesFor(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Subscription Invoices</DialogTitle>
+            <DialogDescription>{invoicesFor?.clientName} on {invoicesFor?.planName}</DialogDescription>
+          </DialogHeader>
+          {invoicesLoading ? (
+            <p className="text-sm text-muted-foreground">Loading invoices...</p>
+          ) : subscriptionInvoices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing has been billed yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Period Starting</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {subscriptionInvoices.map((invoice) => (
+                  <TableRow key={invoice.id}>
+                    <TableCell className="font-medium">{invoice.invoiceNumber}</TableCell>
+                    <TableCell>{formatDate(invoice.subscriptionPeriodStart)}</TableCell>
+                    <TableCell>{formatCurrency(invoice.total)}</TableCell>
+                    <TableCell className="capitalize">{invoice.status}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -43,6 +43,13 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { Building2, Mail, Phone, MapPin, Calendar, FileText, Plus, Pencil, Search, ChevronLeft, ChevronRight } from "lucide-react";
 import { insertSupplierSchema, type Supplier, type InsertSupplierType } from "@shared/schema";
 import { Switch } from "@/components/ui/switch";
+import { formatCurrency } from "@/lib/currency";
+
+interface SupplierOpenOrders {
+  supplierId: string;
+  openOrders: number;
+  openValue: number;
+}
 
 export default function SuppliersManager() {
   const [selectedSupplier, setSelectedSupplier] = useState<Supplier | null>(null);
@@ -59,6 +66,14 @@ export default function SuppliersManager() {
     queryKey: ["/api/suppliers"],
   });
 
+  const { data: openOrderTotals = [] } = useQuery<SupplierOpenOrders[]>({
+    queryKey: ["/api/purchase-orders/supplier-totals"],
+  });
+  const openOrdersBySupplier = useMemo(
+    () => new Map(openOrderTotals.map(total => [total.supplierId, total])),
+    [openOrderTotals]
+  );
+
   const createSupplier = useMutation({
     mutationFn: async (data: InsertSupplierType) => {
       const response = await fetch("/api/suppliers", {
@@ -202,6 +217,7 @@ export default function SuppliersManager() {
       website: "",
       taxId: "",
       paymentTerms: "",
+      leadTimeDays: null,
       notes: "",
     },
   });
@@ -411,19 +427,41 @@ export default function SuppliersManager() {
                         )}
                       />
                     </div>
-                    <FormField
-                      control={addForm.control}
-                      name="paymentTerms"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Payment Terms</FormLabel>
-                          <FormControl>
-                            <Input {...field} value={field.value || ""} placeholder="Net 30" data-testid="input-payment-terms" />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={addForm.control}
+                        name="paymentTerms"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Payment Terms</FormLabel>
+                            <FormControl>
+                              <Input {...field} value={field.value || ""} placeholder="Net 30" data-testid="input-payment-terms" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={addForm.control}
+                        name="leadTimeDays"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Lead Time (days)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="0"
+                                value={field.value ?? ""}
+                                onChange={(e) => field.onChange(e.target.value === "" ? null : parseInt(e.target.value))}
+                                placeholder="7"
+                                data-testid="input-lead-time-days"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
                     <FormField
                       control={addForm.control}
                       name="notes"
@@ -479,6 +517,7 @@ export default function SuppliersManager() {
                     <TableHead>Type</TableHead>
                     <TableHead>Contact</TableHead>
                     <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Open POs</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -534,6 +573,18 @@ export default function SuppliersManager() {
                         </Badge>
                       </div>
                     </TableCell>
+                    <TableCell className="text-right" data-testid={`text-open-po-value-${supplier.id}`}>
+                      {openOrdersBySupplier.has(supplier.id) ? (
+                        <div>
+                          <p className="font-medium">{formatCurrency(openOrdersBySupplier.get(supplier.id)!.openValue)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {openOrdersBySupplier.get(supplier.id)!.openOrders} order(s)
+                          </p>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <Button
@@ -685,6 +736,26 @@ export default function SuppliersManager() {
                 </div>
               )}
 
+              <div className="flex items-center gap-3">
+                <div>
+                  <p className="text-xs text-muted-foreground">Quoted Lead Time (days)</p>
+                  <p className="text-xs text-muted-foreground">Reorder suggestions use delivery history once POs are received</p>
+                </div>
+                <Input
+                  type="number"
+                  min="0"
+                  className="w-24"
+                  defaultValue={selectedSupplier.leadTimeDays ?? ""}
+                  onBlur={(e) => {
+                    const leadTimeDays = e.target.value === "" ? null : parseInt(e.target.value);
+                    if (leadTimeDays !== selectedSupplier.leadTimeDays) {
+                      updateSupplier.mutate({ id: selectedSupplier.id, updates: { leadTimeDays } });
+                    }
+                  }}
+                  data-testid="input-edit-lead-time-days"
+                />
+              </div>
+
               {selectedSupplier.notes && (
                 <div>
                   <p className="text-xs text-muted-foreground">Notes</p>
@@ -46,9 +46,11 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertTaskSchema, tasks, users, projects, type InsertTask } from "@shared/schema";
+import { insertTaskSchema, tasks, users, projects, type InsertTask, type AttachmentUpload, type FileAttachment } from "@shared/schema";
 import { Plus, Edit, Trash2, Calendar, User, Briefcase, Search, ChevronLeft, ChevronRight } from "lucide-react";
 import { format } from "date-fns";
+import { AttachmentList } from "@/components/AttachmentList";
+import { AttachmentPicker } from "@/components/AttachmentPicker";
 
 type SelectTask = typeof tasks.$inferSelect;
 type SelectUser = typeof users.$inferSelect;
@@ -193,6 +195,43 @@ export function TasksManager({ role, userId }: TasksManagerProps) {
     },
   });
 
+  // Files are attached to the saved task as soon as they finish uploading
+  const attachFilesMutation = useMutation({
+    mutationFn: async ({ id, attachments }: { id: string; attachments: AttachmentUpload[] }) => {
+      const response = await apiRequest("POST", `/api/tasks/${id}/attachments`, { attachments });
+      return await response.json() as SelectTask;
+    },
+    onSuccess: (task) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      setEditingTask(task);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to attach files",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeAttachmentMutation = useMutation({
+    mutationFn: async ({ id, objectPath }: { id: string; objectPath: string }) => {
+      const response = await apiRequest("DELETE", `/api/tasks/${id}/attachments?objectPath=${encodeURIComponent(objectPath)}`);
+      return await response.json() as SelectTask;
+    },
+    onSuccess: (task) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      setEditingTask(task);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove attachment",
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteTaskMutation = useMutation({
     mutationFn: async (id: string) => {
       return await apiRequest("DELETE", `/api/tasks/${id}`);
@@ -641,6 +680,26 @@ export function TasksManager({ role, userId }: TasksManagerProps) {
                 />
               </div>
 
+              {editingTask && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Attachments</p>
+                  <AttachmentList
+                    attachments={editingTask.attachments as FileAttachment[]}
+                    onRemove={(attachment) =>
+                      removeAttachmentMutation.mutate({ id: editingTask.id, objectPath: attachment.objectPath })}
+                  />
+                  <AttachmentPicker
+                    value={[]}
+                    onChange={(uploads) => {
+                      if (uploads.length > 0) {
+                        attachFilesMutation.mutate({ id: editingTask.id, attachments: uploads });
+                      }
+                    }}
+                    disabled={attachFilesMutation.isPending}
+                  />
+                </div>
+              )}
+
               <div className="flex justify-end gap-2">
                 <Button
                   type="button"
@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChevronLeft, ChevronRight, MapPin } from "lucide-react";
+import { addDays, format, isToday, startOfDay } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { type DispatchAssignmentDetail, jobKindLabels, jobKindColors } from "./DispatchBoard";
+
+// The signed-in technician's bookings from the dispatch board, one day at a time
+export function TechnicianDayView() {
+  const [day, setDay] = useState(() => startOfDay(new Date()));
+
+  const { data: schedule = [], isLoading } = useQuery<DispatchAssignmentDetail[]>({
+    queryKey: ['/api/dispatch/my-schedule', day.toISOString()],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: day.toISOString(), to: addDays(day, 1).toISOString() });
+      const response = await apiRequest('GET', `/api/dispatch/my-schedule?${params.toString()}`);
+      return response.json();
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle>Work Schedule</CardTitle>
+          <CardDescription>{isToday(day) ? 'Today' : format(day, 'EEEE')}, {format(day, 'MMM d, yyyy')}</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => setDay(prev => addDays(prev, -1))} data-testid="button-schedule-prev">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setDay(startOfDay(new Date()))} data-testid="button-schedule-today">
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setDay(prev => addDays(prev, 1))} data-testid="button-schedule-next">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading schedule...</p>
+        ) : schedule.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No scheduled work</p>
+        ) : (
+          <div className="space-y-3">
+            {schedule.map(booking => (
+              <div key={booking.id} className="flex gap-4 rounded-md border p-3" data-testid={`schedule-booking-${booking.id}`}>
+                <div className="w-24 shrink-0 text-sm">
+                  <p className="font-semibold">{format(new Date(booking.startsAt), 'h:mm a')}</p>
+                  <p className="text-muted-foreground">{format(new Date(booking.endsAt), 'h:mm a')}</p>
+                </div>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge className={jobKindColors[booking.kind]} variant="outline">{jobKindLabels[booking.kind]}</Badge>
+                    <span className="text-xs font-mono text-muted-foreground">{booking.reference}</span>
+                    {booking.hasConflict && <Badge variant="destructive">Overlaps</Badge>}
+                  </div>
+                  <p className="font-medium">{booking.title}</p>
+                  {booking.address && (
+                    <p className="text-sm text-muted-foreground flex items-center gap-1">
+                      <MapPin className="w-3 h-3" />
+                      {booking.address}
+                    </p>
+                  )}
+                  {booking.notes && <p className="text-sm text-muted-foreground italic">{booking.notes}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
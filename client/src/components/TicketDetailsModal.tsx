@@ -4,9 +4,11 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Separator } from "@/components/ui/separator";
-import type { Ticket, TicketComment, User as UserType } from "@shared/schema";
+import type { AttachmentUpload, FileAttachment, Ticket, TicketComment, User as UserType } from "@shared/schema";
 import { format } from "date-fns";
 import { Clock, User, MessageSquare, Share2, AlertCircle } from "lucide-react";
+import { AttachmentList } from "@/components/AttachmentList";
+import { AttachmentPicker } from "@/components/AttachmentPicker";
 import { useAuth } from "@/hooks/useAuth";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -25,6 +27,7 @@ export function TicketDetailsModal({ ticket, isOpen, onClose, onEdit }: TicketDe
   const typedUser = user as UserType | undefined;
   const { toast } = useToast();
   const [commentText, setCommentText] = useState("");
+  const [pendingAttachments, setPendingAttachments] = useState<AttachmentUpload[]>([]);
 
   // Fetch ticket comments
   const { data: comments = [], isLoading: commentsLoading } = useQuery<(TicketComment & { user: UserType })[]>({
@@ -38,7 +41,7 @@ export function TicketDetailsModal({ ticket, isOpen, onClose, onEdit }: TicketDe
 
   const submitCommentMutation = useMutation({
     mutationFn: async (comment: string) => {
-      const response = await apiRequest('POST', `/api/tickets/${ticket!.id}/comments`, { comment });
+      const response = await apiRequest('POST', `/api/tickets/${ticket!.id}/comments`, { comment, attachments: pendingAttachments });
       return response.json();
     },
     onSuccess: () => {
@@ -48,6 +51,7 @@ export function TicketDetailsModal({ ticket, isOpen, onClose, onEdit }: TicketDe
       });
       queryClient.invalidateQueries({ queryKey: ['/api/tickets', ticket!.id, 'comments'] });
       setCommentText("");
+      setPendingAttachments([]);
     },
     onError: () => {
       toast({
@@ -80,7 +84,7 @@ export function TicketDetailsModal({ ticket, isOpen, onClose, onEdit }: TicketDe
   if (!ticket) return null;
 
   const handleSubmitComment = () => {
-    if (!commentText.trim()) {
+    if (!commentText.trim() && pendingAttachments.length === 0) {
       toast({
         title: "Missing comment",
         description: "Please enter a comment.",
@@ -215,9 +219,11 @@ export function TicketDetailsModal({ ticket, isOpen, onClose, onEdit }: TicketDe
                       <div className="flex items-center gap-2">
                         <User className="h-4 w-4" />
                         <span className="text-sm font-medium" data-testid={`text-comment-author-${comment.id}`}>
-                          {comment.user.firstName && comment.user.lastName 
-                            ? `${comment.user.firstName} ${comment.user.lastName}`
-                            : comment.user.email || 'Unknown User'}
+                          {[comment.user.firstName, comment.user.lastName].filter(Boolean).join(' ') ||
+                            comment.user.email || 'Unknown User'}
+                          {comment.authorEmail && (
+                            <span className="ml-1 text-xs font-normal text-muted-foreground">via email</span>
+                          )}
                         </span>
                       </div>
                       <span className="text-xs text-muted-foreground" data-testid={`text-comment-date-${comment.id}`}>
@@ -227,6 +233,7 @@ export function TicketDetailsModal({ ticket, isOpen, onClose, onEdit }: TicketDe
                     <p className="text-sm whitespace-pre-wrap" data-testid={`text-comment-content-${comment.id}`}>
                       {comment.comment}
                     </p>
+                    <AttachmentList attachments={comment.attachments as FileAttachment[]} />
                   </div>
                 ))}
               </div>
@@ -242,10 +249,15 @@ export function TicketDetailsModal({ ticket, isOpen, onClose, onEdit }: TicketDe
                   className="min-h-[80px]"
                   data-testid="textarea-comment"
                 />
-                <div className="flex justify-end">
+                <div className="flex items-start justify-between gap-2">
+                  <AttachmentPicker
+                    value={pendingAttachments}
+                    onChange={setPendingAttachments}
+                    disabled={submitCommentMutation.isPending}
+                  />
                   <Button
                     onClick={handleSubmitComment}
-                    disabled={submitCommentMutation.isPending || !commentText.trim()}
+                    disabled={submitCommentMutation.isPending || (!commentText.trim() && pendingAttachments.length === 0)}
                     data-testid="button-submit-comment"
                   >
                     {submitCommentMutation.isPending ? "Adding..." : "Add Comment"}
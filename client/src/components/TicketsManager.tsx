@@ -7,12 +7,24 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Plus, Search, ChevronLeft, ChevronRight, AlertCircle, Eye, Pencil, Trash2 } from "lucide-react";
+import { Plus, Search, ChevronLeft, ChevronRight, AlertCircle, Eye, Pencil, Trash2, Timer } from "lucide-react";
 import { format } from "date-fns";
 import type { Ticket, TicketWithProject, User, Project } from "@shared/schema";
 import { TicketDetailsModal } from "@/components/TicketDetailsModal";
 import { TicketFormDialog } from "@/components/TicketFormDialog";
 
+type SlaState = 'none' | 'on_track' | 'at_risk' | 'breached' | 'paused' | 'met';
+
+// Breach flags come from the server's SLA monitor; a due date that has just passed counts as breached straight away
+function getSlaState(ticket: Ticket, now: Date): SlaState {
+  if (!ticket.resolutionDueAt) return 'none';
+  if (ticket.firstResponseBreached || ticket.resolutionBreached) return 'breached';
+  if (ticket.resolvedAt) return ticket.status === 'resolved' ? 'paused' : 'met';
+  const nextDue = ticket.firstRespondedAt ? ticket.resolutionDueAt : ticket.firstResponseDueAt;
+  if (nextDue && new Date(nextDue) <= now) return 'breached';
+  return ticket.slaWarnedAt ? 'at_risk' : 'on_track';
+}
+
 type TicketsManagerProps = {
   role: 'employee' | 'sales' | 'project_manager' | 'manager' | 'admin';
   userId: string;
@@ -27,6 +39,7 @@ export function TicketsManager({ role, userId }: TicketsManagerProps) {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [priorityFilter, setPriorityFilter] = useState<string>("all");
   const [projectFilter, setProjectFilter] = useState<string>("all");
+  const [slaFilter, setSlaFilter] = useState<string>("all");
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 20;
 
@@ -45,7 +58,18 @@ export function TicketsManager({ role, userId }: TicketsManagerProps) {
   // Reset to first page when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, statusFilter, priorityFilter, projectFilter]);
+  }, [searchTerm, statusFilter, priorityFilter, projectFilter, slaFilter]);
+
+  const now = new Date();
+  const slaCounts = useMemo(() => {
+    const counts = { breached: 0, at_risk: 0 };
+    for (const ticket of tickets) {
+      if (ticket.status === 'closed' || ticket.status === 'resolved') continue;
+      const state = getSlaState(ticket, new Date());
+      if (state === 'breached' || state === 'at_risk') counts[state]++;
+    }
+    return counts;
+  }, [tickets]);
 
   // Filter tickets
   const filteredTickets = useMemo(() => {
@@ -85,8 +109,14 @@ export function TicketsManager({ role, userId }: TicketsManagerProps) {
       result = result.filter(ticket => ticket.projectId === projectFilter);
     }
 
+    // SLA filter
+    if (slaFilter !== "all") {
+      const checkedAt = new Date();
+      result = result.filter(ticket => getSlaState(ticket, checkedAt) === slaFilter);
+    }
+
     return result;
-  }, [tickets, searchTerm, statusFilter, priorityFilter, projectFilter, users, projects]);
+  }, [tickets, searchTerm, statusFilter, priorityFilter, projectFilter, slaFilter, users, projects]);
 
   // Paginate filtered tickets
   const paginatedTickets = useMemo(() => {
@@ -119,6 +149,23 @@ export function TicketsManager({ role, userId }: TicketsManagerProps) {
     }
   };
 
+  const getSlaBadge = (ticket: Ticket) => {
+    const state = getSlaState(ticket, now);
+    const nextDue = ticket.firstRespondedAt ? ticket.resolutionDueAt : ticket.firstResponseDueAt;
+    const dueLabel = nextDue ? format(new Date(nextDue), 'MMM dd, HH:mm') : '';
+    switch (state) {
+      case 'breached': {
+        const missed = [ticket.firstResponseBreached && 'response', ticket.resolutionBreached && 'resolution'].filter(Boolean).join(' & ');
+        return <Badge variant="destructive" title={missed ? `Missed ${missed} target` : undefined} data-testid={`badge-sla-${ticket.id}`}>Breached</Badge>;
+      }
+      case 'at_risk': return <Badge className="bg-amber-500 hover:bg-amber-500 text-white" title={`Due ${dueLabel}`} data-testid={`badge-sla-${ticket.id}`}>At risk · {dueLabel}</Badge>;
+      case 'on_track': return <Badge variant="outline" title={ticket.firstRespondedAt ? 'Resolution due' : 'First response due'} data-testid={`badge-sla-${ticket.id}`}>{dueLabel}</Badge>;
+      case 'paused': return <Badge variant="secondary" title="Timer paused while resolved" data-testid={`badge-sla-${ticket.id}`}>Paused</Badge>;
+      case 'met': return <Badge variant="secondary" data-testid={`badge-sla-${ticket.id}`}>Met</Badge>;
+      default: return <span className="text-muted-foreground">-</span>;
+    }
+  };
+
   const canCreateTickets = ['manager', 'admin', 'project_manager'].includes(role);
   const canEditTickets = ['manager', 'admin', 'project_manager'].includes(role);
   const canDeleteTickets = ['manager', 'admin'].includes(role);
@@ -155,7 +202,16 @@ export function TicketsManager({ role, userId }: TicketsManagerProps) {
         </CardHeader>
         <CardContent className="space-y-4">
           {/* Search and Filters */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {(slaCounts.breached > 0 || slaCounts.at_risk > 0) && (
+            <div className="flex items-center gap-2 rounded-md border border-destructive/50 p-3 text-sm" data-testid="text-sla-summary">
+              <Timer className="h-4 w-4 text-destructive" />
+              <span>
+                {slaCounts.breached} open ticket{slaCounts.breached === 1 ? '' : 's'} past SLA, {slaCounts.at_risk} at risk
+              </span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
@@ -206,6 +262,20 @@ export function TicketsManager({ role, userId }: TicketsManagerProps) {
                 ))}
               </SelectContent>
             </Select>
+
+            <Select value={slaFilter} onValueChange={setSlaFilter}>
+              <SelectTrigger data-testid="select-sla-filter">
+                <SelectValue placeholder="Any SLA" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any SLA</SelectItem>
+                <SelectItem value="breached">Breached</SelectItem>
+                <SelectItem value="at_risk">At risk</SelectItem>
+                <SelectItem value="on_track">On track</SelectItem>
+                <SelectItem value="paused">Paused</SelectItem>
+                <SelectItem value="met">Met</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
 
           {/* Tickets Table */}
@@ -215,7 +285,7 @@ export function TicketsManager({ role, userId }: TicketsManagerProps) {
             <div className="text-center py-12">
               <AlertCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <p className="text-sm text-muted-foreground">
-                {searchTerm || statusFilter !== "all" || priorityFilter !== "all" || projectFilter !== "all"
+                {searchTerm || statusFilter !== "all" || priorityFilter !== "all" || projectFilter !== "all" || slaFilter !== "all"
                   ? "No tickets match your filters"
                   : "No tickets found"}
               </p>
@@ -233,6 +303,7 @@ export function TicketsManager({ role, userId }: TicketsManagerProps) {
                       <TableHead>Priority</TableHead>
                       <TableHead>Assigned To</TableHead>
                       <TableHead>Due Date</TableHead>
+                      <TableHead>SLA</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -267,6 +338,7 @@ export function TicketsManager({ role, userId }: TicketsManagerProps) {
                           <TableCell className="text-sm text-muted-foreground">
                             {ticket.dueDate ? format(new Date(ticket.dueDate), 'MMM dd, yyyy') : '-'}
                           </TableCell>
+                          <TableCell>{getSlaBadge(ticket)}</TableCell>
                           <TableCell className="text-right">
                             <div className="flex items-center justify-end gap-1" onClick={(e) => e.stopPropagation()}>
                               <Button
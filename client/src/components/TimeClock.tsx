@@ -0,0 +1,231 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Play, Square, Timer } from "lucide-react";
+import { format } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Project, RateType, Task, TimeEntry } from "@shared/schema";
+
+// Select items need a non-empty value, so "no selection" gets a sentinel
+const NONE = "none";
+
+export const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+export function TimeClock() {
+  const { toast } = useToast();
+  const [projectId, setProjectId] = useState(NONE);
+  const [taskId, setTaskId] = useState(NONE);
+  const [rateTypeId, setRateTypeId] = useState(NONE);
+  const [notes, setNotes] = useState("");
+  const [now, setNow] = useState(() => new Date());
+
+  const { data: running, isLoading } = useQuery<TimeEntry | null>({
+    queryKey: ['/api/time-entries/running'],
+  });
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ['/api/projects'],
+    enabled: !running,
+  });
+
+  const { data: tasks = [] } = useQuery<Task[]>({
+    queryKey: ['/api/tasks'],
+    enabled: !running,
+  });
+
+  const { data: rateTypes = [] } = useQuery<RateType[]>({
+    queryKey: ['/api/rate-types'],
+    enabled: !running,
+  });
+
+  // Keep the elapsed time ticking while clocked in
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  const openTasks = tasks.filter(task => task.status !== 'completed' && task.status !== 'cancelled'
+    && (projectId === NONE || task.projectId === projectId));
+
+  const invalidateTime = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/time-entries/running'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/time-entries'] });
+  };
+
+  const clockInMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/time-entries/clock-in', {
+        projectId: projectId === NONE ? null : projectId,
+        taskId: taskId === NONE ? null : taskId,
+        rateTypeId: rateTypeId === NONE ? null : rateTypeId,
+        notes: notes || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateTime();
+      setNow(new Date());
+      setNotes("");
+      toast({ title: "Clocked in" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to clock in",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const clockOutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/time-entries/clock-out', { notes: notes || undefined });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateTime();
+      setNotes("");
+      toast({ title: "Clocked out", description: "Your time has been submitted for approval." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to clock out",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const elapsedMinutes = running
+    ? Math.max(0, Math.floor((now.getTime() - new Date(running.startedAt).getTime()) / 60000))
+    : 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Timer className="w-5 h-5 text-primary" />
+            Time Clock
+          </CardTitle>
+          <CardDescription>Clock in when you start a job and out when you finish</CardDescription>
+        </div>
+        {running && (
+          <Badge className="bg-green-500 text-white" data-testid="badge-clocked-in">Clocked in</Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : running ? (
+          <div className="space-y-4">
+            <div>
+              <p className="text-3xl font-bold" data-testid="text-elapsed-time">{formatMinutes(elapsedMinutes)}</p>
+              <p className="text-sm text-muted-foreground">
+                Since {format(new Date(running.startedAt), 'h:mm a')}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="clock-out-notes">Work Notes</Label>
+              <Input
+                id="clock-out-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder={running.notes || "What did you work on?"}
+                data-testid="input-clock-out-notes"
+              />
+            </div>
+            <Button
+              variant="destructive"
+              onClick={() => clockOutMutation.mutate()}
+              disabled={clockOutMutation.isPending}
+              data-testid="button-clock-out"
+            >
+              <Square className="w-4 h-4 mr-2" />
+              {clockOutMutation.isPending ? 'Clocking out...' : 'Clock Out'}
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label>Project</Label>
+                <Select
+                  value={projectId}
+                  onValueChange={(value) => {
+                    setProjectId(value);
+                    setTaskId(NONE);
+                  }}
+                >
+                  <SelectTrigger data-testid="select-clock-project">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No project</SelectItem>
+                    {projects.map(project => (
+                      <SelectItem key={project.id} value={project.id}>
+                        {project.ticketNumber} - {project.projectName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Task</Label>
+                <Select value={taskId} onValueChange={setTaskId}>
+                  <SelectTrigger data-testid="select-clock-task">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No task</SelectItem>
+                    {openTasks.map(task => (
+                      <SelectItem key={task.id} value={task.id}>{task.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Rate</Label>
+                <Select value={rateTypeId} onValueChange={setRateTypeId}>
+                  <SelectTrigger data-testid="select-clock-rate-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Not specified</SelectItem>
+                    {rateTypes.map(rateType => (
+                      <SelectItem key={rateType.id} value={rateType.id}>{rateType.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="clock-in-notes">Notes</Label>
+              <Input
+                id="clock-in-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Optional"
+                data-testid="input-clock-in-notes"
+              />
+            </div>
+            <Button onClick={() => clockInMutation.mutate()} disabled={clockInMutation.isPending} data-testid="button-clock-in">
+              <Play className="w-4 h-4 mr-2" />
+              {clockInMutation.isPending ? 'Clocking in...' : 'Clock In'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,441 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Check, Plus, Trash2, X } from "lucide-react";
+import { format } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import type { Project, RateType, TimeEntry } from "@shared/schema";
+import { formatMinutes } from "./TimeClock";
+
+export type TimeEntryDetail = TimeEntry & {
+  userName: string | null;
+  projectName: string | null;
+  projectTicketNumber: string | null;
+  taskTitle: string | null;
+  ticketNumber: string | null;
+  rateTypeName: string | null;
+};
+
+const NONE = "none";
+
+export const timeEntryStatusLabels: Record<TimeEntry['status'], string> = {
+  running: "Running",
+  pending: "Awaiting Approval",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+const getStatusColor = (status: TimeEntry['status']) => {
+  switch (status) {
+    case 'running': return 'bg-blue-500 text-white';
+    case 'approved': return 'bg-green-500 text-white';
+    case 'rejected': return 'bg-red-500 text-white';
+    default: return 'bg-yellow-500 text-white';
+  }
+};
+
+export const totalMinutes = (entry: TimeEntry) => entry.regularMinutes + entry.afterHoursMinutes + entry.holidayMinutes;
+
+const emptyEntry = { date: "", startTime: "08:00", endTime: "17:00", projectId: NONE, rateTypeId: NONE, billable: "true", notes: "" };
+
+interface TimeEntriesPanelProps {
+  // "mine" is the technician's own timesheet; "approvals" lists everyone's time for review
+  mode: 'mine' | 'approvals';
+}
+
+export function TimeEntriesPanel({ mode }: TimeEntriesPanelProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isApprovals = mode === 'approvals';
+  const [statusFilter, setStatusFilter] = useState(isApprovals ? 'pending' : 'all');
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [newEntry, setNewEntry] = useState(emptyEntry);
+  const [rejectingEntry, setRejectingEntry] = useState<TimeEntryDetail | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  const { data: entries = [], isLoading } = useQuery<TimeEntryDetail[]>({
+    queryKey: ['/api/time-entries', mode, statusFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+      const response = await apiRequest('GET', `/api/time-entries?${params.toString()}`);
+      return response.json();
+    },
+  });
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ['/api/projects'],
+    enabled: isAddOpen,
+  });
+
+  const { data: rateTypes = [] } = useQuery<RateType[]>({
+    queryKey: ['/api/rate-types'],
+    enabled: isAddOpen,
+  });
+
+  const invalidateEntries = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/time-entries'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/time-entries', {
+        startedAt: new Date(`${newEntry.date}T${newEntry.startTime}`).toISOString(),
+        endedAt: new Date(`${newEntry.date}T${newEntry.endTime}`).toISOString(),
+        projectId: newEntry.projectId === NONE ? null : newEntry.projectId,
+        rateTypeId: newEntry.rateTypeId === NONE ? null : newEntry.rateTypeId,
+        billable: newEntry.billable === 'true',
+        notes: newEntry.notes || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateEntries();
+      setIsAddOpen(false);
+      toast({ title: "Time submitted for approval" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to add time",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/time-entries/${id}`);
+    },
+    onSuccess: () => {
+      invalidateEntries();
+      toast({ title: "Time entry deleted" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete time entry",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, approved, reason }: { id: string; approved: boolean; reason?: string }) => {
+      const response = await apiRequest('POST', `/api/time-entries/${id}/review`, { approved, rejectionReason: reason });
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateEntries();
+      setRejectingEntry(null);
+      toast({ title: variables.approved ? "Time approved" : "Time rejected" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to review time entry",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openAddDialog = () => {
+    setNewEntry({ ...emptyEntry, date: format(new Date(), 'yyyy-MM-dd') });
+    setIsAddOpen(true);
+  };
+
+  const totalShown = entries.reduce((sum, entry) => sum + totalMinutes(entry), 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle>{isApprovals ? 'Timesheet Approvals' : 'My Timesheet'}</CardTitle>
+          <CardDescription>
+            {isApprovals
+              ? 'Approve technician time before it is costed to jobs and billed'
+              : 'Time is split into regular, after-hours and holiday work using business hours'}
+          </CardDescription>
+        </div>
+        {!isApprovals && (
+          <Button variant="outline" onClick={openAddDialog} data-testid="button-add-time-entry">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Time
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[200px]" data-testid="select-time-status-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              {Object.entries(timeEntryStatusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground" data-testid="text-time-total">
+            {formatMinutes(totalShown)} shown
+          </p>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading time entries...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No time entries found.</p>
+        ) : (
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  {isApprovals && <TableHead>Technician</TableHead>}
+                  <TableHead>Work</TableHead>
+                  <TableHead className="text-right">Regular</TableHead>
+                  <TableHead className="text-right">After Hours</TableHead>
+                  <TableHead className="text-right">Holiday</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.id} data-testid={`row-time-entry-${entry.id}`}>
+                    <TableCell>
+                      <p className="font-medium">{format(new Date(entry.startedAt), 'MMM d, yyyy')}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(entry.startedAt), 'h:mm a')}
+                        {entry.endedAt && ` - ${format(new Date(entry.endedAt), 'h:mm a')}`}
+                      </p>
+                    </TableCell>
+                    {isApprovals && <TableCell>{entry.userName}</TableCell>}
+                    <TableCell>
+                      <p className="text-sm">
+                        {entry.projectTicketNumber ? `${entry.projectTicketNumber} - ${entry.projectName}` : 'General'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {[entry.taskTitle, entry.ticketNumber, entry.rateTypeName, !entry.billable && 'Non-billable'].filter(Boolean).join(' · ')}
+                      </p>
+                      {entry.notes && <p className="text-xs text-muted-foreground italic">{entry.notes}</p>}
+                    </TableCell>
+                    <TableCell className="text-right">{formatMinutes(entry.regularMinutes)}</TableCell>
+                    <TableCell className="text-right">{formatMinutes(entry.afterHoursMinutes)}</TableCell>
+                    <TableCell className="text-right">{formatMinutes(entry.holidayMinutes)}</TableCell>
+                    <TableCell>
+                      <Badge className={getStatusColor(entry.status)}>{timeEntryStatusLabels[entry.status]}</Badge>
+                      {entry.invoiceId && <p className="text-xs text-muted-foreground mt-1">Invoiced</p>}
+                      {entry.status === 'rejected' && entry.rejectionReason && (
+                        <p className="text-xs text-destructive mt-1">{entry.rejectionReason}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        {isApprovals && entry.status === 'pending' && entry.userId !== user?.id && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => reviewMutation.mutate({ id: entry.id, approved: true })}
+                              disabled={reviewMutation.isPending}
+                              title="Approve"
+                              data-testid={`button-approve-time-${entry.id}`}
+                            >
+                              <Check className="w-4 h-4 text-green-600" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => {
+                                setRejectionReason("");
+                                setRejectingEntry(entry);
+                              }}
+                              title="Reject"
+                              data-testid={`button-reject-time-${entry.id}`}
+                            >
+                              <X className="w-4 h-4 text-destructive" />
+                            </Button>
+                          </>
+                        )}
+                        {!isApprovals && (entry.status === 'pending' || entry.status === 'rejected') && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => deleteMutation.mutate(entry.id)}
+                            disabled={deleteMutation.isPending}
+                            title="Delete"
+                            data-testid={`button-delete-time-${entry.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {/* Add Time Dialog */}
+        <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+          <DialogContent data-testid="dialog-add-time-entry">
+            <DialogHeader>
+              <DialogTitle>Add Time</DialogTitle>
+              <DialogDescription>Record time you forgot to clock</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="time-entry-date">Date</Label>
+                  <Input
+                    id="time-entry-date"
+                    type="date"
+                    value={newEntry.date}
+                    onChange={(e) => setNewEntry({ ...newEntry, date: e.target.value })}
+                    data-testid="input-time-entry-date"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="time-entry-start">Start</Label>
+                  <Input
+                    id="time-entry-start"
+                    type="time"
+                    value={newEntry.startTime}
+                    onChange={(e) => setNewEntry({ ...newEntry, startTime: e.target.value })}
+                    data-testid="input-time-entry-start"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="time-entry-end">End</Label>
+                  <Input
+                    id="time-entry-end"
+                    type="time"
+                    value={newEntry.endTime}
+                    onChange={(e) => setNewEntry({ ...newEntry, endTime: e.target.value })}
+                    data-testid="input-time-entry-end"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Project</Label>
+                <Select value={newEntry.projectId} onValueChange={(value) => setNewEntry({ ...newEntry, projectId: value })}>
+                  <SelectTrigger data-testid="select-time-entry-project">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No project</SelectItem>
+                    {projects.map(project => (
+                      <SelectItem key={project.id} value={project.id}>
+                        {project.ticketNumber} - {project.projectName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Rate</Label>
+                  <Select value={newEntry.rateTypeId} onValueChange={(value) => setNewEntry({ ...newEntry, rateTypeId: value })}>
+                    <SelectTrigger data-testid="select-time-entry-rate-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Not specified</SelectItem>
+                      {rateTypes.map(rateType => (
+                        <SelectItem key={rateType.id} value={rateType.id}>{rateType.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Billable</Label>
+                  <Select value={newEntry.billable} onValueChange={(value) => setNewEntry({ ...newEntry, billable: value })}>
+                    <SelectTrigger data-testid="select-time-entry-billable">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="true">Billable</SelectItem>
+                      <SelectItem value="false">Non-billable</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="time-entry-notes">Notes</Label>
+                <Textarea
+                  id="time-entry-notes"
+                  value={newEntry.notes}
+                  onChange={(e) => setNewEntry({ ...newEntry, notes: e.target.value })}
+                  rows={2}
+                  data-testid="input-time-entry-notes"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsAddOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={createMutation.isPending || !newEntry.date}
+                data-testid="button-submit-time-entry"
+              >
+                {createMutation.isPending ? 'Submitting...' : 'Submit Time'}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        {/* Reject Time Dialog */}
+        <Dialog open={!!rejectingEntry} onOpenChange={(open) => !open && setRejectingEntry(null)}>
+          <DialogContent data-testid="dialog-reject-time-entry">
+            <DialogHeader>
+              <DialogTitle>Reject Time</DialogTitle>
+              <DialogDescription>
+                {rejectingEntry?.userName} - {rejectingEntry && format(new Date(rejectingEntry.startedAt), 'MMM d, yyyy')}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="time-rejection-reason">Reason</Label>
+              <Textarea
+                id="time-rejection-reason"
+                value={rejectionReason}
+                onChange={(e) => setRejectionReason(e.target.value)}
+                placeholder="Tell the technician what to correct"
+                rows={3}
+                data-testid="input-time-rejection-reason"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setRejectingEntry(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => rejectingEntry && reviewMutation.mutate({ id: rejectingEntry.id, approved: false, reason: rejectionReason || undefined })}
+                disabled={reviewMutation.isPending}
+                data-testid="button-confirm-reject-time"
+              >
+                Reject
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
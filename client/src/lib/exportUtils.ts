@@ -93,6 +93,34 @@ export function downloadCSVTemplate(headers: string[], filename: string) {
   document.body.removeChild(link);
 }
 
+// Download a server-rendered PDF (quotes, invoices, flyers) using the current session;
+// documents built from unsaved input (flyers) post it as the body
+export async function downloadPDF(url: string, filename: string, body?: unknown) {
+  const response = await fetch(url, body === undefined ? { credentials: 'include' } : {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    const text = (await response.text()) || response.statusText;
+    throw new Error(`${response.status}: ${text}`);
+  }
+
+  const blob = await response.blob();
+  const link = document.createElement('a');
+  const objectUrl = URL.createObjectURL(blob);
+  
+  link.setAttribute('href', objectUrl);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(objectUrl);
+}
+
 // Download inventory template with required headers
 export function downloadInventoryTemplate() {
   const headers = [
@@ -28,6 +28,8 @@ import SuppliersManager from "@/components/SuppliersManager";
 import { CertificationsManager } from "@/components/CertificationsManager";
 import { TeamMembersManager } from "@/components/TeamMembersManager";
 import { ServiceTypesManager } from "@/components/ServiceTypesManager";
+import { AppointmentTypesManager } from "@/components/AppointmentTypesManager";
+import { RecurringRevenueCards } from "@/components/RecurringRevenueCards";
 import { PriceMatrixManager } from "@/components/PriceMatrixManager";
 import { AppConfigDialog } from "@/components/AppConfigDialog";
 import type { User, Visitor, InventoryItem, FinancialLog } from "@shared/schema";
@@ -758,6 +760,9 @@ export default function AdminPortal() {
                 <TabsTrigger value="services" data-testid="subtab-services">
                   Service Types
                 </TabsTrigger>
+                <TabsTrigger value="appointments" data-testid="subtab-appointments">
+                  Appointment Types
+                </TabsTrigger>
                 <TabsTrigger value="pricing" data-testid="subtab-pricing">
                   Price Matrix
                 </TabsTrigger>
@@ -797,6 +802,10 @@ export default function AdminPortal() {
                 <ServiceTypesManager />
               </TabsContent>
 
+              <TabsContent value="appointments" className="space-y-4">
+                <AppointmentTypesManager />
+              </TabsContent>
+
               <TabsContent value="pricing" className="space-y-4">
                 <PriceMatrixManager />
               </TabsContent>
@@ -828,6 +837,8 @@ export default function AdminPortal() {
           </TabsContent>
 
           <TabsContent value="financial" className="space-y-4">
+            <RecurringRevenueCards />
+
             <Card>
               <CardHeader className="flex flex-row items-center justify-between gap-2">
                 <div>
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Building2, FileText, MessageSquare, Plus } from "lucide-react";
 import GetQuoteDialog from "@/components/GetQuoteDialog";
+import { CalendarFeedCard } from "@/components/CalendarFeedCard";
 import type { User } from "@shared/schema";
 
 export default function ClientPortal() {
@@ -128,6 +129,7 @@ export default function ClientPortal() {
                 </p>
               </CardContent>
             </Card>
+            <CalendarFeedCard />
           </TabsContent>
 
           <TabsContent value="messages" className="space-y-4">
@@ -22,7 +22,7 @@ import {
   DollarSign, MessageSquare, BarChart, Package, Truck,
   Home, UserCircle, Eye, Activity, Settings, Edit, Trash2,
   UserPlus, Download, AlertTriangle, FileDown, Upload, TrendingUp, TrendingDown, Gift,
-  Server, Database, Users2, Gauge, Search, ChevronLeft, ChevronRight, Ticket, KeyRound
+  Server, Database, Users2, Gauge, Search, ChevronLeft, ChevronRight, Ticket, KeyRound, MapPin, ScanBarcode, Repeat, CalendarClock, Timer, Inbox
 } from "lucide-react";
 import type { User, ServiceRequest, Project, Communication, Visitor, InventoryItem, FinancialLog, Activity as ActivityLog } from "@shared/schema";
 import { hasPermission } from "@shared/permissions";
@@ -45,6 +45,10 @@ import SuppliersManager from "@/components/SuppliersManager";
 import ActivitiesManager from "@/components/ActivitiesManager";
 import VisitorsManager from "@/components/VisitorsManager";
 import { VendorAccountsManager } from "@/components/VendorAccountsManager";
+import { StockLocationsPanel } from "@/components/StockLocationsPanel";
+import { PurchaseOrdersManager } from "@/components/PurchaseOrdersManager";
+import { ReorderSuggestionsPanel } from "@/components/ReorderSuggestionsPanel";
+import { SerialNumbersPanel } from "@/components/SerialNumbersPanel";
 import { ServiceTypesManager } from "@/components/ServiceTypesManager";
 import { AppConfigDialog } from "@/components/AppConfigDialog";
 import { LogoUploadDialog } from "@/components/LogoUploadDialog";
@@ -64,6 +68,14 @@ import ReferreesManager from "@/components/ReferreesManager";
 import ExpensesManager from "@/components/ExpensesManager";
 import RevenueManager from "@/components/RevenueManager";
 import FinancialLogs from "@/components/FinancialLogs";
+import { SubscriptionsManager } from "@/components/SubscriptionsManager";
+import { RecurringRevenueCards } from "@/components/RecurringRevenueCards";
+import { MaintenanceAgreementsManager } from "@/components/MaintenanceAgreementsManager";
+import { MaintenanceVisitTypesManager } from "@/components/MaintenanceVisitTypesManager";
+import { OverdueMaintenanceList } from "@/components/MaintenanceVisitsPanel";
+import { SlaPoliciesManager } from "@/components/SlaPoliciesManager";
+import { SlaComplianceReport } from "@/components/SlaComplianceReport";
+import { InboundEmailsManager } from "@/components/InboundEmailsManager";
 import { ProjectDetailsModal } from "@/components/ProjectDetailsModal";
 
 interface DashboardData {
@@ -1144,6 +1156,24 @@ export default function Dashboard() {
                     Tickets
                   </TabsTrigger>
                 )}
+                {hasPermission(userRole, 'viewAllProjects') && (
+                  <TabsTrigger value="sla" data-testid="tab-projects-sla">
+                    <Timer className="w-4 h-4 mr-2" />
+                    SLA
+                  </TabsTrigger>
+                )}
+                {hasPermission(userRole, 'viewAllProjects') && (
+                  <TabsTrigger value="email" data-testid="tab-projects-email">
+                    <Inbox className="w-4 h-4 mr-2" />
+                    Email
+                  </TabsTrigger>
+                )}
+                {hasPermission(userRole, 'manageAllTasks') && (
+                  <TabsTrigger value="maintenance" data-testid="tab-projects-maintenance">
+                    <CalendarClock className="w-4 h-4 mr-2" />
+                    Maintenance
+                  </TabsTrigger>
+                )}
               </TabsList>
 
               {/* Projects Overview Sub-Tab */}
@@ -1306,6 +1336,30 @@ export default function Dashboard() {
                   {typedUser && <TicketsManager role={userRole as 'employee' | 'sales' | 'project_manager' | 'manager' | 'admin'} userId={typedUser.id} />}
                 </TabsContent>
               )}
+
+              {/* SLA Sub-Tab */}
+              {hasPermission(userRole, 'viewAllProjects') && (
+                <TabsContent value="sla" className="mt-4 space-y-6">
+                  <SlaComplianceReport />
+                  <SlaPoliciesManager canManage={hasPermission(userRole, 'manageSettings')} />
+                </TabsContent>
+              )}
+
+              {/* Inbound Email Sub-Tab */}
+              {hasPermission(userRole, 'viewAllProjects') && (
+                <TabsContent value="email" className="mt-4 space-y-6">
+                  <InboundEmailsManager canManage={hasPermission(userRole, 'manageAllProjects')} />
+                </TabsContent>
+              )}
+
+              {/* Maintenance Sub-Tab */}
+              {hasPermission(userRole, 'manageAllTasks') && (
+                <TabsContent value="maintenance" className="mt-4 space-y-6">
+                  <OverdueMaintenanceList />
+                  <MaintenanceAgreementsManager />
+                  <MaintenanceVisitTypesManager />
+                </TabsContent>
+              )}
             </Tabs>
           </TabsContent>
 
@@ -1347,6 +1401,22 @@ export default function Dashboard() {
                   <Package className="w-4 h-4 mr-2" />
                   Stock
                 </TabsTrigger>
+                <TabsTrigger value="locations" data-testid="tab-inventory-locations">
+                  <MapPin className="w-4 h-4 mr-2" />
+                  Locations
+                </TabsTrigger>
+                <TabsTrigger value="reorder" data-testid="tab-inventory-reorder">
+                  <TrendingUp className="w-4 h-4 mr-2" />
+                  Reorder
+                </TabsTrigger>
+                <TabsTrigger value="purchase-orders" data-testid="tab-inventory-purchase-orders">
+                  <ClipboardList className="w-4 h-4 mr-2" />
+                  Purchase Orders
+                </TabsTrigger>
+                <TabsTrigger value="serials" data-testid="tab-inventory-serials">
+                  <ScanBarcode className="w-4 h-4 mr-2" />
+                  Serials
+                </TabsTrigger>
                 {hasPermission(userRole, 'viewSuppliers') && (
                   <TabsTrigger value="suppliers" data-testid="tab-inventory-suppliers">
                     <Truck className="w-4 h-4 mr-2" />
@@ -1521,6 +1591,26 @@ export default function Dashboard() {
             </Card>
               </TabsContent>
 
+              {/* Stock by Location Sub-Tab */}
+              <TabsContent value="locations" className="mt-4 space-y-4">
+                <StockLocationsPanel />
+              </TabsContent>
+
+              {/* Reorder Suggestions Sub-Tab */}
+              <TabsContent value="reorder" className="mt-4 space-y-4">
+                <ReorderSuggestionsPanel />
+              </TabsContent>
+
+              {/* Purchase Orders Sub-Tab */}
+              <TabsContent value="purchase-orders" className="mt-4 space-y-4">
+                <PurchaseOrdersManager />
+              </TabsContent>
+
+              {/* Serial Numbers Sub-Tab */}
+              <TabsContent value="serials" className="mt-4 space-y-4">
+                <SerialNumbersPanel />
+              </TabsContent>
+
               {/* Suppliers Sub-Tab */}
               {hasPermission(userRole, 'viewSuppliers') && (
                 <TabsContent value="suppliers" className="mt-4 space-y-4">
@@ -1593,7 +1683,9 @@ export default function Dashboard() {
               </Card>
             </div>
 
-            {/* Nested Tabs for Expenses, Revenue, and Logs */}
+            <RecurringRevenueCards />
+
+            {/* Nested Tabs for Expenses, Revenue, Subscriptions and Logs */}
             <Tabs defaultValue="expenses" className="w-full">
               <TabsList className="w-full justify-start flex-wrap h-auto gap-1">
                 <TabsTrigger value="expenses" data-testid="tab-financial-expenses">
@@ -1604,6 +1696,10 @@ export default function Dashboard() {
                   <TrendingUp className="w-4 h-4 mr-2" />
                   Revenue
                 </TabsTrigger>
+                <TabsTrigger value="subscriptions" data-testid="tab-financial-subscriptions">
+                  <Repeat className="w-4 h-4 mr-2" />
+                  Subscriptions
+                </TabsTrigger>
                 <TabsTrigger value="logs" data-testid="tab-financial-logs">
                   <FileText className="w-4 h-4 mr-2" />
                   Logs
@@ -1620,6 +1716,11 @@ export default function Dashboard() {
                 <RevenueManager />
               </TabsContent>
 
+              {/* Subscriptions Sub-Tab */}
+              <TabsContent value="subscriptions" className="mt-4">
+                <SubscriptionsManager />
+              </TabsContent>
+
               {/* Financial Logs Sub-Tab */}
               <TabsContent value="logs" className="mt-4">
                 <FinancialLogs />
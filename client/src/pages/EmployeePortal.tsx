@@ -7,6 +7,12 @@ import { Badge } from "@/components/ui/badge";
 import { Wrench, Clock, CheckCircle2, AlertCircle } from "lucide-react";
 import type { User } from "@shared/schema";
 import ReportsManager from "@/components/ReportsManager";
+import { StockLocationsPanel } from "@/components/StockLocationsPanel";
+import { TimeClock } from "@/components/TimeClock";
+import { TimeEntriesPanel } from "@/components/TimeEntriesPanel";
+import { TechnicianDayView } from "@/components/TechnicianDayView";
+import { CalendarFeedCard } from "@/components/CalendarFeedCard";
+import { MaintenanceVisitsPanel } from "@/components/MaintenanceVisitsPanel";
 
 export default function EmployeePortal() {
   const [activeTab, setActiveTab] = useState("tasks");
@@ -100,6 +106,8 @@ export default function EmployeePortal() {
           </Card>
         </div>
 
+        <TimeClock />
+
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
           <TabsList className="w-full justify-start flex-wrap h-auto gap-1">
             <TabsTrigger value="tasks" data-testid="tab-tasks">
@@ -108,6 +116,12 @@ export default function EmployeePortal() {
             <TabsTrigger value="schedule" data-testid="tab-schedule">
               Schedule
             </TabsTrigger>
+            <TabsTrigger value="time" data-testid="tab-time">
+              Timesheet
+            </TabsTrigger>
+            <TabsTrigger value="van" data-testid="tab-van">
+              My Van
+            </TabsTrigger>
             <TabsTrigger value="reports" data-testid="tab-reports">
               Work Reports
             </TabsTrigger>
@@ -127,22 +141,20 @@ export default function EmployeePortal() {
                 </p>
               </CardContent>
             </Card>
+            <MaintenanceVisitsPanel />
           </TabsContent>
 
           <TabsContent value="schedule" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>Work Schedule</CardTitle>
-                <CardDescription>
-                  Upcoming installations and maintenance
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <p className="text-sm text-muted-foreground">
-                  No scheduled work
-                </p>
-              </CardContent>
-            </Card>
+            <TechnicianDayView />
+            <CalendarFeedCard />
+          </TabsContent>
+
+          <TabsContent value="time" className="space-y-4">
+            <TimeEntriesPanel mode="mine" />
+          </TabsContent>
+
+          <TabsContent value="van" className="space-y-4">
+            <StockLocationsPanel />
           </TabsContent>
 
           <TabsContent value="reports" className="space-y-4">
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useRoute } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle, Calendar, CalendarPlus, MapPin } from "lucide-react";
+import { format } from "date-fns";
+import { AppointmentSlotPicker } from "@/components/AppointmentSlotPicker";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Appointment, AppointmentType } from "@shared/schema";
+
+type AppointmentDetail = Appointment & {
+  appointmentTypeName: string;
+  appointmentKind: AppointmentType['kind'];
+  durationMinutes: number;
+};
+
+// Reached from the link in the booking confirmation; the token is the only credential
+export default function ManageAppointment() {
+  const [, params] = useRoute("/appointments/:token");
+  const token = params?.token;
+  const { toast } = useToast();
+  const [date, setDate] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [reason, setReason] = useState("");
+  const [confirmingCancel, setConfirmingCancel] = useState(false);
+
+  const queryKey = ['/api/public/appointments', token];
+  const { data: appointment, isLoading, error } = useQuery<AppointmentDetail>({
+    queryKey,
+    enabled: !!token,
+  });
+
+  const onChanged = (updated: AppointmentDetail) => {
+    queryClient.setQueryData(queryKey, updated);
+    queryClient.invalidateQueries({ queryKey: ['/api/public/appointment-availability'] });
+    setDate("");
+    setStartsAt("");
+  };
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/public/appointments/${token}/reschedule`, { startsAt });
+      return response.json();
+    },
+    onSuccess: (updated: AppointmentDetail) => {
+      onChanged(updated);
+      toast({ title: "Appointment rescheduled", description: "We've emailed you the new time." });
+    },
+    onError: (error: any) => {
+      if (error.message?.startsWith("409")) {
+        queryClient.invalidateQueries({ queryKey: ['/api/public/appointment-availability'] });
+        setStartsAt("");
+      }
+      toast({
+        title: "Failed to reschedule",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/public/appointments/${token}/cancel`, { reason: reason || undefined });
+      return response.json();
+    },
+    onSuccess: (updated: AppointmentDetail) => {
+      onChanged(updated);
+      setConfirmingCancel(false);
+      toast({ title: "Appointment cancelled" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to cancel",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-2xl mx-auto space-y-6">
+          <Skeleton className="h-12 w-64" />
+          <Skeleton className="h-48 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!token || error || !appointment) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <Card className="max-w-md mx-auto">
+          <CardContent className="pt-6">
+            <div className="flex flex-col items-center text-center space-y-4">
+              <AlertCircle className="h-12 w-12 text-destructive" />
+              <h2 className="text-xl font-semibold">Appointment Not Found</h2>
+              <p className="text-muted-foreground">
+                This link appears to be invalid. Please check the link in your confirmation email or contact us.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const isCancelled = appointment.status === 'cancelled';
+  const canChange = !isCancelled && new Date(appointment.startsAt) > new Date();
+
+  return (
+    <div className="container mx-auto px-4 py-16">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Calendar className="w-5 h-5 text-primary" />
+                {appointment.appointmentTypeName}
+              </CardTitle>
+              <CardDescription>Booked for {appointment.name}</CardDescription>
+            </div>
+            <Badge variant={isCancelled ? "destructive" : "default"} data-testid="badge-appointment-status">
+              {isCancelled ? 'Cancelled' : 'Booked'}
+            </Badge>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <p className={`text-lg font-semibold ${isCancelled ? 'line-through text-muted-foreground' : ''}`} data-testid="text-appointment-time">
+              {format(new Date(appointment.startsAt), "EEEE, MMMM d, yyyy 'at' h:mm a")}
+            </p>
+            <p className="text-sm text-muted-foreground">{appointment.durationMinutes} minutes</p>
+            {appointment.address && (
+              <p className="text-sm text-muted-foreground flex items-center gap-1">
+                <MapPin className="w-3 h-3" />
+                {appointment.address}
+              </p>
+            )}
+            {isCancelled && appointment.cancellationReason && (
+              <p className="text-sm text-muted-foreground">Reason: {appointment.cancellationReason}</p>
+            )}
+            {!isCancelled && (
+              <div className="pt-2">
+                <Button variant="outline" size="sm" asChild data-testid="button-add-to-calendar">
+                  <a href={`/api/public/appointments/${token}/ics`}>
+                    <CalendarPlus className="w-4 h-4 mr-2" />
+                    Add to Calendar
+                  </a>
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {canChange && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Reschedule</CardTitle>
+                <CardDescription>Pick a new open time; your current slot is released once you confirm</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <AppointmentSlotPicker
+                  appointmentTypeId={appointment.appointmentTypeId}
+                  date={date}
+                  onDateChange={setDate}
+                  value={startsAt}
+                  onChange={setStartsAt}
+                />
+                <Button
+                  onClick={() => rescheduleMutation.mutate()}
+                  disabled={!startsAt || rescheduleMutation.isPending}
+                  data-testid="button-reschedule-appointment"
+                >
+                  {rescheduleMutation.isPending ? 'Rescheduling...' : 'Move Appointment'}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Cancel</CardTitle>
+                <CardDescription>Can't make it at all? Let us know and we'll free up the time</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {confirmingCancel ? (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="cancel-reason">Reason (Optional)</Label>
+                      <Textarea
+                        id="cancel-reason"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        rows={3}
+                        data-testid="textarea-cancel-reason"
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={() => setConfirmingCancel(false)}>
+                        Keep Appointment
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        onClick={() => cancelMutation.mutate()}
+                        disabled={cancelMutation.isPending}
+                        data-testid="button-confirm-cancel-appointment"
+                      >
+                        {cancelMutation.isPending ? 'Cancelling...' : 'Cancel Appointment'}
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <Button variant="outline" className="text-destructive" onClick={() => setConfirmingCancel(true)} data-testid="button-cancel-appointment">
+                    Cancel Appointment
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
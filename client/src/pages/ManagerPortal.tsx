@@ -16,6 +16,8 @@ import { Users, Briefcase, TrendingUp, DollarSign, Eye } from "lucide-react";
 import type { User, Visitor } from "@shared/schema";
 import ReportsManager from "@/components/ReportsManager";
 import { TasksManager } from "@/components/TasksManager";
+import { TimeEntriesPanel } from "@/components/TimeEntriesPanel";
+import { DispatchBoard } from "@/components/DispatchBoard";
 
 export default function ManagerPortal() {
   const [activeTab, setActiveTab] = useState("team");
@@ -118,6 +120,9 @@ export default function ManagerPortal() {
             <TabsTrigger value="team" data-testid="tab-team">
               Team Management
             </TabsTrigger>
+            <TabsTrigger value="dispatch" data-testid="tab-dispatch">
+              Dispatch
+            </TabsTrigger>
             <TabsTrigger value="projects" data-testid="tab-projects">
               Projects
             </TabsTrigger>
@@ -133,6 +138,9 @@ export default function ManagerPortal() {
             <TabsTrigger value="tasks" data-testid="tab-tasks">
               Tasks
             </TabsTrigger>
+            <TabsTrigger value="timesheets" data-testid="tab-timesheets">
+              Timesheets
+            </TabsTrigger>
             <TabsTrigger value="analytics" data-testid="tab-analytics">
               Performance
             </TabsTrigger>
@@ -154,6 +162,10 @@ export default function ManagerPortal() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="dispatch" className="space-y-4">
+            <DispatchBoard />
+          </TabsContent>
+
           <TabsContent value="projects" className="space-y-4">
             <Card>
               <CardHeader>
@@ -249,6 +261,10 @@ export default function ManagerPortal() {
             {user && <TasksManager role="manager" userId={user.id} />}
           </TabsContent>
 
+          <TabsContent value="timesheets" className="space-y-4">
+            <TimeEntriesPanel mode="approvals" />
+          </TabsContent>
+
           <TabsContent value="analytics" className="space-y-4">
             <Card>
               <CardHeader>
@@ -3,7 +3,8 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { InvoicePreview } from "@/components/InvoicePreview";
-import { AlertCircle, FileText, Phone, Mail, CheckCircle, Clock, DollarSign } from "lucide-react";
+import { AlertCircle, FileText, Phone, Mail, CheckCircle, Clock, DollarSign, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import type { Invoice, SystemConfig, User } from "@shared/schema";
 import { getQueryFn } from "@/lib/queryClient";
 import { formatCurrency } from "@/lib/currency";
@@ -215,6 +216,12 @@ export default function PublicInvoiceView() {
           <p className="text-muted-foreground">
             Invoice details and payment information
           </p>
+          <Button variant="outline" size="sm" asChild data-testid="button-download-invoice-pdf">
+            <a href={`/api/public/invoice/${params?.invoiceNumber}/${params?.token}/pdf`} download={`Invoice-${invoice.invoiceNumber}.pdf`}>
+              <Download className="mr-2 h-4 w-4" />
+              Download PDF
+            </a>
+          </Button>
         </div>
 
         <InvoicePreview
@@ -4,13 +4,14 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
-import { AlertCircle, Calendar, CheckCircle, Clock, DollarSign, FileText, User, AlertTriangle, Ticket as TicketIcon } from "lucide-react";
+import { AlertCircle, Calendar, CheckCircle, Clock, DollarSign, FileText, User, AlertTriangle, Ticket as TicketIcon, Paperclip } from "lucide-react";
 import { apiRequest, getQueryFn } from "@/lib/queryClient";
-import type { Project, User as UserType, Ticket, SystemConfig } from "@shared/schema";
+import type { Project, User as UserType, Ticket, SystemConfig, FileAttachment } from "@shared/schema";
 import { format } from "date-fns";
 import { formatCurrency } from "@/lib/currency";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { AttachmentList } from "@/components/AttachmentList";
 
 interface PublicProjectResponse {
   project: Project;
@@ -18,6 +19,7 @@ interface PublicProjectResponse {
   technicianName?: string;
   systemConfig: SystemConfig;
   tickets: Ticket[];
+  files: FileAttachment[];
 }
 
 export default function PublicProjectView() {
@@ -37,6 +39,7 @@ export default function PublicProjectView() {
   const project = response?.project;
   const systemConfig = response?.systemConfig;
   const tickets = response?.tickets || [];
+  const files = response?.files || [];
 
   if (isLoading) {
     return (
@@ -270,6 +273,21 @@ export default function PublicProjectView() {
           </Card>
         )}
 
+        {/* Files shared in project comments */}
+        {files.length > 0 && (
+          <Card className="p-6">
+            <h3 className="text-base font-semibold flex items-center gap-2 mb-2">
+              <Paperclip className="w-4 h-4 text-primary" />
+              Files ({files.length})
+            </h3>
+            <AttachmentList
+              attachments={files}
+              hrefFor={(attachment) =>
+                `/api/public/project/${params?.projectNumber}/${params?.token}/files/${attachment.objectPath.split('/').pop()}`}
+            />
+          </Card>
+        )}
+
         {/* Footer with contact info */}
         <Card className="p-6 bg-muted/50">
           <p className="text-sm text-muted-foreground text-center">
@@ -3,8 +3,9 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { QuotePreview } from "@/components/QuotePreview";
-import { AlertCircle, CheckCircle, XCircle, Phone, Mail, LogIn } from "lucide-react";
+import { QuotePreview, type QuotePreviewAcceptance } from "@/components/QuotePreview";
+import { SignaturePad } from "@/components/SignaturePad";
+import { AlertCircle, CheckCircle, XCircle, Phone, Mail, LogIn, Download } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient, getQueryFn } from "@/lib/queryClient";
 import type { SystemConfig, User } from "@shared/schema";
@@ -17,6 +18,8 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { useState } from "react";
 import type { Quote } from "@shared/schema";
@@ -28,6 +31,10 @@ interface QuoteWithToken extends Quote {
 
 interface PublicQuoteResponse {
   quote: QuoteWithToken;
+  revision: { revisionNumber: number; label: string } | null;
+  isBeingRevised: boolean;
+  legalTerms: { serviceAgreement: string | null; termsAndConditions: string | null; termsVersion: string };
+  acceptance: QuotePreviewAcceptance | null;
   clientInfo: any;
   leadInfo: any;
   systemConfig: SystemConfig;
@@ -40,6 +47,11 @@ export default function PublicQuoteView() {
   const [isRejectDialogOpen, setIsRejectDialogOpen] = useState(false);
   const [rejectionReason, setRejectionReason] = useState("");
   const [showLoginDialog, setShowLoginDialog] = useState(false);
+  const [isSignDialogOpen, setIsSignDialogOpen] = useState(false);
+  const [signerName, setSignerName] = useState("");
+  const [signature, setSignature] = useState<string | null>(null);
+  const [acceptTerms, setAcceptTerms] = useState(false);
+  const [approvalComments, setApprovalComments] = useState("");
 
   const { data: response, isLoading, error } = useQuery<PublicQuoteResponse>({
     queryKey: ["/api/public/quote", params?.quoteNumber, params?.token],
@@ -55,6 +67,8 @@ export default function PublicQuoteView() {
   const systemConfig = response?.systemConfig;
   const clientInfo = response?.clientInfo;
   const leadInfo = response?.leadInfo;
+  const revision = response?.revision;
+  const legalTerms = response?.legalTerms;
 
   // Check if current user owns this quote
   const isOwner = currentUser && (
@@ -63,26 +77,55 @@ export default function PublicQuoteView() {
   );
 
   const approveMutation = useMutation({
-    mutationFn: () => apiRequest("POST", `/api/public/quote/${params?.quoteNumber}/${params?.token}/approve`, {}),
+    mutationFn: () => apiRequest("POST", `/api/public/quote/${params?.quoteNumber}/${params?.token}/approve`, {
+      revision: revision?.revisionNumber,
+      signerName: signerName.trim(),
+      signature,
+      acceptTerms,
+      termsVersion: legalTerms?.termsVersion,
+      comments: approvalComments.trim() || undefined,
+    }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/public/quote", params?.quoteNumber, params?.token] });
+      setIsSignDialogOpen(false);
       toast({
         title: "Quote Approved",
         description: "Thank you! We've received your approval and will be in touch soon.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
+      // 409 means the quote expired or was already answered; refetch so the page shows its real state
+      if (error.message.startsWith("409")) {
+        queryClient.invalidateQueries({ queryKey: ["/api/public/quote", params?.quoteNumber, params?.token] });
+        if (error.message.includes("Terms have been updated")) {
+          // Keep the dialog open so the client can read the new terms and agree again
+          setAcceptTerms(false);
+        } else {
+          setIsSignDialogOpen(false);
+        }
+      }
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Failed to approve quote. Please try again or contact us directly.",
+        description: error.message.includes("Quote has expired")
+          ? "This quote has expired and can no longer be approved. Please contact us for an updated quote."
+          : error.message.includes("Terms have been updated")
+            ? "Our terms were updated while you were reviewing them. Please review the current terms and sign again."
+            : error.message.includes("revised")
+              ? "This quote has been updated since you opened it. Please review the latest revision."
+              : error.message.startsWith("400")
+                ? "Please type your name, draw your signature and accept the terms to approve this quote."
+                : "Failed to approve quote. Please try again or contact us directly.",
       });
     },
   });
 
   const rejectMutation = useMutation({
     mutationFn: (reason: string) => 
-      apiRequest("POST", `/api/public/quote/${params?.quoteNumber}/${params?.token}/reject`, { reason }),
+      apiRequest("POST", `/api/public/quote/${params?.quoteNumber}/${params?.token}/reject`, {
+        reason,
+        revision: revision?.revisionNumber,
+      }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/public/quote", params?.quoteNumber, params?.token] });
       setIsRejectDialogOpen(false);
@@ -92,7 +135,11 @@ export default function PublicQuoteView() {
         description: "We've received your response. Thank you for your consideration.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
+      if (error.message.startsWith("409")) {
+        queryClient.invalidateQueries({ queryKey: ["/api/public/quote", params?.quoteNumber, params?.token] });
+        setIsRejectDialogOpen(false);
+      }
       toast({
         variant: "destructive",
         title: "Error",
@@ -102,6 +149,14 @@ export default function PublicQuoteView() {
   });
 
   const handleApprove = () => {
+    setSignerName("");
+    setSignature(null);
+    setAcceptTerms(false);
+    setApprovalComments("");
+    setIsSignDialogOpen(true);
+  };
+
+  const handleSignAndApprove = () => {
     approveMutation.mutate();
   };
 
@@ -167,7 +222,13 @@ export default function PublicQuoteView() {
     );
   }
 
-  const canTakeAction = quote.status === 'sent' || quote.status === 'draft';
+  // Quotes are valid through the end of their validUntil day
+  const isPastValidity = !!quote.validUntil &&
+    Date.now() >= new Date(quote.validUntil).getTime() + 24 * 60 * 60 * 1000;
+  const isExpired = quote.status === 'expired' ||
+    ((quote.status === 'sent' || quote.status === 'draft') && isPastValidity);
+  const isBeingRevised = !!response?.isBeingRevised && !isExpired;
+  const canTakeAction = (quote.status === 'sent' || quote.status === 'draft') && !isExpired && !isBeingRevised;
   const isAccepted = quote.status === 'accepted';
   const isRejected = quote.status === 'rejected';
 
@@ -204,6 +265,34 @@ export default function PublicQuoteView() {
       );
     }
 
+    // If quote has passed its validity date
+    if (isExpired) {
+      return (
+        <div className="border-l-4 border-orange-500 bg-orange-50 dark:bg-orange-950/20 p-4 rounded">
+          <div className="flex items-center gap-3 text-orange-700 dark:text-orange-400">
+            <AlertCircle className="h-5 w-5" />
+            <p className="font-medium" data-testid="text-quote-expired">
+              This quote expired{quote.validUntil ? ` on ${new Date(quote.validUntil).toLocaleDateString()}` : ""} and can no longer be approved. Please contact us for an updated quote.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    // If staff are preparing a new revision
+    if (isBeingRevised) {
+      return (
+        <div className="border-l-4 border-blue-500 bg-blue-50 dark:bg-blue-950/20 p-4 rounded">
+          <div className="flex items-center gap-3 text-blue-700 dark:text-blue-400">
+            <AlertCircle className="h-5 w-5" />
+            <p className="font-medium" data-testid="text-quote-being-revised">
+              This quote is being updated. You will be able to respond once the revised quote has been sent.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
     // If quote can be actioned and user is the owner
     if (canTakeAction && isOwner) {
       return (
@@ -304,6 +393,12 @@ export default function PublicQuoteView() {
           <p className="text-muted-foreground">
             Please review the quote details below
           </p>
+          <Button variant="outline" size="sm" asChild data-testid="button-download-quote-pdf">
+            <a href={`/api/public/quote/${params.quoteNumber}/${params.token}/pdf`} download={`Quote-${quote.quoteNumber}.pdf`}>
+              <Download className="mr-2 h-4 w-4" />
+              Download PDF
+            </a>
+          </Button>
         </div>
 
         <QuotePreview
@@ -317,11 +412,98 @@ export default function PublicQuoteView() {
           leadId={quote.leadId || undefined}
           clientId={quote.clientId || undefined}
           projectId={quote.projectId || undefined}
-          quoteNumber={quote.quoteNumber}
+          quoteNumber={revision ? `${quote.quoteNumber} Rev ${revision.label}` : quote.quoteNumber}
           renderActions={renderActions}
+          acceptance={response?.acceptance}
         />
       </div>
 
+      <Dialog open={isSignDialogOpen} onOpenChange={setIsSignDialogOpen}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto" data-testid="dialog-sign-quote">
+          <DialogHeader>
+            <DialogTitle>Sign & Approve Quote</DialogTitle>
+            <DialogDescription>
+              Your typed name, signature and the time of signing will be recorded with
+              {revision ? ` revision ${revision.label} of` : ""} quote {quote.quoteNumber}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {(legalTerms?.serviceAgreement || legalTerms?.termsAndConditions) && (
+              <div className="space-y-3 max-h-[220px] overflow-y-auto rounded-md border bg-muted/30 p-3" data-testid="text-signing-terms">
+                {legalTerms?.serviceAgreement && (
+                  <div className="space-y-1">
+                    <h4 className="text-sm font-semibold">Service Agreement</h4>
+                    <p className="text-xs text-muted-foreground whitespace-pre-wrap">{legalTerms.serviceAgreement}</p>
+                  </div>
+                )}
+                {legalTerms?.termsAndConditions && (
+                  <div className="space-y-1">
+                    <h4 className="text-sm font-semibold">Terms and Conditions</h4>
+                    <p className="text-xs text-muted-foreground whitespace-pre-wrap">{legalTerms.termsAndConditions}</p>
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="accept-terms"
+                checked={acceptTerms}
+                onCheckedChange={(checked) => setAcceptTerms(checked === true)}
+                data-testid="checkbox-accept-terms"
+              />
+              <Label htmlFor="accept-terms" className="text-sm font-normal leading-snug">
+                I have read and agree to the {companyName} Service Agreement and Terms and Conditions
+                (version {legalTerms?.termsVersion}), and I authorize {companyName} to proceed with the work as quoted.
+              </Label>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="signer-name">Full Name</Label>
+              <Input
+                id="signer-name"
+                value={signerName}
+                onChange={(e) => setSignerName(e.target.value)}
+                placeholder="Type your full legal name"
+                maxLength={200}
+                data-testid="input-signer-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Signature</Label>
+              <SignaturePad onChange={setSignature} disabled={approveMutation.isPending} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="approval-comments">Comments (Optional)</Label>
+              <Textarea
+                id="approval-comments"
+                value={approvalComments}
+                onChange={(e) => setApprovalComments(e.target.value)}
+                rows={2}
+                maxLength={2000}
+                data-testid="input-approval-comments"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsSignDialogOpen(false)}
+              disabled={approveMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSignAndApprove}
+              disabled={approveMutation.isPending || !acceptTerms || !signature || signerName.trim().length < 2}
+              data-testid="button-sign-approve-quote"
+              className="bg-green-600 hover:bg-green-700 dark:bg-green-600 dark:hover:bg-green-700 text-white border border-green-700 dark:border-green-700"
+            >
+              <CheckCircle className="mr-2 h-4 w-4" />
+              {approveMutation.isPending ? "Approving..." : "Sign & Approve"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={isRejectDialogOpen} onOpenChange={setIsRejectDialogOpen}>
         <DialogContent data-testid="dialog-reject-quote">
           <DialogHeader>
@@ -6,7 +6,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
 import { AlertCircle, Clock, User, MessageSquare, AlertTriangle } from "lucide-react";
 import { apiRequest, getQueryFn } from "@/lib/queryClient";
-import type { Ticket, TicketComment, User as UserType, SystemConfig } from "@shared/schema";
+import type { Ticket, TicketComment, User as UserType, SystemConfig, FileAttachment } from "@shared/schema";
+import { AttachmentList } from "@/components/AttachmentList";
 import { format } from "date-fns";
 
 interface PublicTicketResponse {
@@ -176,9 +177,8 @@ export default function PublicTicketView() {
                     <div className="flex items-center gap-2">
                       <User className="h-4 w-4" />
                       <span className="text-sm font-medium">
-                        {comment.user.firstName && comment.user.lastName 
-                          ? `${comment.user.firstName} ${comment.user.lastName}`
-                          : comment.user.email || 'Unknown User'}
+                        {[comment.user.firstName, comment.user.lastName].filter(Boolean).join(' ') ||
+                          comment.user.email || 'Unknown User'}
                       </span>
                     </div>
                     {comment.createdAt && (
@@ -188,6 +188,11 @@ export default function PublicTicketView() {
                     )}
                   </div>
                   <p className="text-sm whitespace-pre-wrap">{comment.comment}</p>
+                  <AttachmentList
+                    attachments={comment.attachments as FileAttachment[]}
+                    hrefFor={(attachment) =>
+                      `/api/public/ticket/${params?.ticketNumber}/${params?.token}/files/${attachment.objectPath.split('/').pop()}`}
+                  />
                 </div>
               ))}
             </div>
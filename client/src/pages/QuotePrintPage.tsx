@@ -1,6 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { useRoute } from "wouter";
-import type { Quote } from "@shared/schema";
+import type { Quote, QuoteAcceptance } from "@shared/schema";
 import { PrintLayout } from "@/components/PrintLayout";
 import { QuotePreview } from "@/components/QuotePreview";
 
@@ -13,7 +13,12 @@ export default function QuotePrintPage() {
     enabled: !!quoteId,
   });
 
-  if (isLoading) {
+  const { data: acceptance, isLoading: isLoadingAcceptance } = useQuery<(QuoteAcceptance & { revisionLabel: string }) | null>({
+    queryKey: ['/api/quotes', quoteId, 'acceptance'],
+    enabled: !!quoteId && quote?.status === 'accepted',
+  });
+
+  if (isLoading || isLoadingAcceptance) {
     return (
       <PrintLayout>
         <div className="flex items-center justify-center py-12">
@@ -51,6 +56,7 @@ export default function QuotePrintPage() {
         quoteNumber={quote.quoteNumber || undefined}
         quoteId={quoteId}
         shareToken={quote.shareToken || undefined}
+        acceptance={acceptance}
       />
     </PrintLayout>
   );
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useSearch } from "wouter";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { resetPasswordSchema } from "@shared/schema";
+import LoginDialog from "@/components/LoginDialog";
+import { AlertCircle, CheckCircle, KeyRound } from "lucide-react";
+
+const resetFormSchema = resetPasswordSchema.omit({ token: true }).extend({
+  confirmPassword: z.string().min(1, "Please confirm your new password"),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type ResetFormData = z.infer<typeof resetFormSchema>;
+
+export default function ResetPassword() {
+  const search = useSearch();
+  const token = new URLSearchParams(search).get("token") || "";
+  const [isComplete, setIsComplete] = useState(false);
+  const [loginOpen, setLoginOpen] = useState(false);
+  const { toast } = useToast();
+
+  // Validate the link up front so an expired token doesn't waste the user's effort
+  const { data: tokenStatus, isLoading } = useQuery<{ valid: boolean }>({
+    queryKey: ["/api/auth/reset-password", token],
+    queryFn: async () => {
+      const res = await fetch(`/api/auth/reset-password/${encodeURIComponent(token)}`, {
+        credentials: "include",
+      });
+      return { valid: res.ok };
+    },
+    enabled: !!token,
+  });
+
+  const form = useForm<ResetFormData>({
+    resolver: zodResolver(resetFormSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (data: ResetFormData) => {
+      const response = await apiRequest("POST", "/api/auth/reset-password", {
+        token,
+        password: data.password,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setIsComplete(true);
+      form.reset();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Password reset failed",
+        description: error.message || "This link may have expired. Please request a new one.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (token && isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-md mx-auto space-y-4">
+          <Skeleton className="h-12 w-full" />
+          <Skeleton className="h-48 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!token || !tokenStatus?.valid) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <Card className="max-w-md mx-auto text-center">
+          <CardHeader>
+            <AlertCircle className="h-16 w-16 text-destructive mx-auto mb-4" />
+            <CardTitle className="text-2xl">Link Invalid or Expired</CardTitle>
+            <CardDescription className="mt-2">
+              Password reset links expire after 60 minutes and can only be used once.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <LoginDialog open={loginOpen} onOpenChange={setLoginOpen}>
+              <Button variant="outline" data-testid="button-request-new-link">
+                Sign In or Request a New Link
+              </Button>
+            </LoginDialog>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isComplete) {
+    return (
+      <div className="container mx-auto px-4 py-16">
+        <Card className="max-w-md mx-auto text-center">
+          <CardHeader>
+            <div className="mx-auto mb-4 w-16 h-16 bg-green-100 dark:bg-green-900 rounded-full flex items-center justify-center">
+              <CheckCircle className="w-10 h-10 text-green-600 dark:text-green-400" />
+            </div>
+            <CardTitle className="text-2xl">Password Updated</CardTitle>
+            <CardDescription className="mt-2">
+              You've been signed out of all devices. Sign in with your new password to continue.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <LoginDialog open={loginOpen} onOpenChange={setLoginOpen}>
+              <Button data-testid="button-sign-in-after-reset">Sign In</Button>
+            </LoginDialog>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-16">
+      <Card className="max-w-md mx-auto">
+        <CardHeader>
+          <div className="inline-flex items-center justify-center w-12 h-12 bg-primary/10 rounded-full mb-2">
+            <KeyRound className="w-6 h-6 text-primary" />
+          </div>
+          <CardTitle>Choose a New Password</CardTitle>
+          <CardDescription>
+            Use at least 8 characters with uppercase, lowercase, a number and a special character.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>New Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} data-testid="input-new-password" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirm New Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} data-testid="input-confirm-password" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={resetMutation.isPending}
+                data-testid="button-reset-password-submit"
+              >
+                {resetMutation.isPending ? "Updating Password..." : "Reset Password"}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -22,41 +23,39 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { apiRequest } from "@/lib/queryClient";
+import { AppointmentSlotPicker } from "@/components/AppointmentSlotPicker";
+import { OnlineBookingUnavailable } from "@/components/OnlineBookingUnavailable";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { CheckCircle, Calendar } from "lucide-react";
-import type { SystemConfig } from "@shared/schema";
+import { format } from "date-fns";
+import type { Appointment, AppointmentType, SystemConfig } from "@shared/schema";
 
 const appointmentFormSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
   email: z.string().email("Please enter a valid email address"),
   phone: z.string().min(10, "Please enter a valid phone number"),
   company: z.string().optional(),
-  appointmentType: z.enum([
-    "consultation",
-    "system_demo",
-    "quote_discussion",
-    "project_planning",
-    "follow_up",
-    "other"
-  ], { required_error: "Please select an appointment type" }),
-  preferredDate: z.string().min(1, "Please select a preferred date"),
-  preferredTime: z.enum(["morning", "afternoon", "evening"], {
-    required_error: "Please select a preferred time"
-  }),
+  appointmentTypeId: z.string().min(1, "Please select an appointment type"),
+  date: z.string(),
+  startsAt: z.string().min(1, "Please choose an available time"),
   notes: z.string().optional(),
 });
 
 type AppointmentFormData = z.infer<typeof appointmentFormSchema>;
 
 export default function ScheduleAppointment() {
-  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [booked, setBooked] = useState<Appointment | null>(null);
   const { toast } = useToast();
   
   const { data: systemConfig } = useQuery<SystemConfig>({
     queryKey: ['/api/system-config'],
   });
 
+  const { data: appointmentTypes = [], isLoading: typesLoading } = useQuery<AppointmentType[]>({
+    queryKey: ['/api/public/appointment-types?kind=appointment'],
+  });
+
   const form = useForm<AppointmentFormData>({
     resolver: zodResolver(appointmentFormSchema),
     defaultValues: {
@@ -64,25 +63,37 @@ export default function ScheduleAppointment() {
       email: "",
       phone: "",
       company: "",
-      appointmentType: "consultation",
-      preferredDate: "",
-      preferredTime: "morning",
+      appointmentTypeId: "",
+      date: "",
+      startsAt: "",
       notes: "",
     },
   });
 
-  const onSubmit = async (data: AppointmentFormData) => {
+  const onSubmit = async ({ date: _date, ...data }: AppointmentFormData) => {
     try {
-      await apiRequest("POST", "/api/public/appointment", data);
+      const response = await apiRequest("POST", "/api/public/appointment", data);
+      const result = await response.json();
 
-      setIsSubmitted(true);
+      setBooked(result.appointment);
       form.reset();
       
       toast({
-        title: "Appointment Request Submitted",
-        description: "We'll confirm your appointment within 24 hours.",
+        title: "Appointment Booked",
+        description: "A confirmation has been sent to your email.",
       });
-    } catch (error) {
+    } catch (error: any) {
+      if (error.message?.startsWith("409")) {
+        // Someone else took the slot while the form was open
+        form.setValue("startsAt", "");
+        queryClient.invalidateQueries({ queryKey: ['/api/public/appointment-availability'] });
+        toast({
+          title: "Time No Longer Available",
+          description: "That time was just booked. Please choose another.",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Submission Failed",
         description: "Please try again or contact us directly.",
@@ -91,7 +102,7 @@ export default function ScheduleAppointment() {
     }
   };
 
-  if (isSubmitted) {
+  if (booked) {
     return (
       <div className="container mx-auto px-4 py-16">
         <Card className="max-w-2xl mx-auto text-center">
@@ -99,19 +110,25 @@ export default function ScheduleAppointment() {
             <div className="mx-auto mb-4 w-16 h-16 bg-green-100 dark:bg-green-900 rounded-full flex items-center justify-center">
               <CheckCircle className="w-10 h-10 text-green-600 dark:text-green-400" />
             </div>
-            <CardTitle className="text-3xl">Appointment Requested!</CardTitle>
+            <CardTitle className="text-3xl">Appointment Booked!</CardTitle>
             <CardDescription className="text-lg mt-4">
-              Your appointment request has been received.
+              {format(new Date(booked.startsAt), "EEEE, MMMM d 'at' h:mm a")}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <p className="text-muted-foreground">
-              Our team will review your preferred time and contact you within 24 hours to confirm
-              your appointment details.
+              We've emailed a confirmation to {booked.email}. You can reschedule or cancel at any
+              time from the link in that email.
             </p>
-            <div className="pt-6">
+            <div className="pt-6 flex flex-wrap justify-center gap-2">
+              <Button variant="outline" asChild data-testid="button-manage-appointment">
+                <Link href={`/appointments/${booked.manageToken}`}>Manage Appointment</Link>
+              </Button>
+              <Button variant="outline" asChild data-testid="button-add-to-calendar">
+                <a href={`/api/public/appointments/${booked.manageToken}/ics`}>Add to Calendar</a>
+              </Button>
               <Button
-                onClick={() => setIsSubmitted(false)}
+                onClick={() => setBooked(null)}
                 variant="outline"
                 data-testid="button-schedule-another"
               >
@@ -124,6 +141,10 @@ export default function ScheduleAppointment() {
     );
   }
 
+
+  if (!typesLoading && appointmentTypes.length === 0) {
+    return <OnlineBookingUnavailable what="appointments" phoneNumber={systemConfig?.phoneNumber} />;
+  }
   return (
     <div className="container mx-auto px-4 py-16">
       <div className="max-w-3xl mx-auto">
@@ -139,9 +160,9 @@ export default function ScheduleAppointment() {
 
         <Card>
           <CardHeader>
-            <CardTitle>Appointment Request</CardTitle>
+            <CardTitle>Book an Appointment</CardTitle>
             <CardDescription>
-              Select your preferred date and time, and we'll confirm availability
+              Pick an open time and we'll reserve it for you straight away
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -219,23 +240,28 @@ export default function ScheduleAppointment() {
 
                 <FormField
                   control={form.control}
-                  name="appointmentType"
+                  name="appointmentTypeId"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Appointment Type *</FormLabel>
-                      <Select onValueChange={field.onChange} value={field.value}>
+                      <Select
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          form.setValue("startsAt", "");
+                        }}
+                        value={field.value}
+                      >
                         <FormControl>
                           <SelectTrigger data-testid="select-appointment-type">
                             <SelectValue placeholder="Select appointment type" />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          <SelectItem value="consultation">Initial Consultation</SelectItem>
-                          <SelectItem value="system_demo">System Demonstration</SelectItem>
-                          <SelectItem value="quote_discussion">Quote Discussion</SelectItem>
-                          <SelectItem value="project_planning">Project Planning</SelectItem>
-                          <SelectItem value="follow_up">Follow-up Meeting</SelectItem>
-                          <SelectItem value="other">Other</SelectItem>
+                          {appointmentTypes.map(type => (
+                            <SelectItem key={type.id} value={type.id}>
+                              {type.name} ({type.durationMinutes} min)
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -243,49 +269,22 @@ export default function ScheduleAppointment() {
                   )}
                 />
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <FormField
-                    control={form.control}
-                    name="preferredDate"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Preferred Date *</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="date"
-                            min={new Date().toISOString().split('T')[0]}
-                            {...field}
-                            data-testid="input-preferred-date"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="preferredTime"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Preferred Time *</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
-                          <FormControl>
-                            <SelectTrigger data-testid="select-preferred-time">
-                              <SelectValue placeholder="Select time preference" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            <SelectItem value="morning">Morning (9 AM - 12 PM)</SelectItem>
-                            <SelectItem value="afternoon">Afternoon (12 PM - 5 PM)</SelectItem>
-                            <SelectItem value="evening">Evening (5 PM - 7 PM)</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
+                <FormField
+                  control={form.control}
+                  name="startsAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <AppointmentSlotPicker
+                        appointmentTypeId={form.watch("appointmentTypeId")}
+                        date={form.watch("date")}
+                        onDateChange={(date) => form.setValue("date", date)}
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
                 <FormField
                   control={form.control}
@@ -313,7 +312,7 @@ export default function ScheduleAppointment() {
                     disabled={form.formState.isSubmitting}
                     data-testid="button-submit-appointment"
                   >
-                    {form.formState.isSubmitting ? "Submitting..." : "Request Appointment"}
+                    {form.formState.isSubmitting ? "Booking..." : "Book Appointment"}
                   </Button>
                 </div>
               </form>
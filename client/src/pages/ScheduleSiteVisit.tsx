@@ -1,8 +1,9 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -22,10 +23,13 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { apiRequest } from "@/lib/queryClient";
+import { AppointmentSlotPicker } from "@/components/AppointmentSlotPicker";
+import { OnlineBookingUnavailable } from "@/components/OnlineBookingUnavailable";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { CheckCircle, MapPin } from "lucide-react";
-import type { SystemConfig } from "@shared/schema";
+import { format } from "date-fns";
+import type { Appointment, AppointmentType, SystemConfig } from "@shared/schema";
 
 const siteVisitFormSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
@@ -48,23 +52,26 @@ const siteVisitFormSchema = z.object({
     "other"
   ], { required_error: "Please select a service type" }),
   squareFootage: z.string().optional(),
-  preferredDate: z.string().min(1, "Please select a preferred date"),
-  preferredTime: z.enum(["morning", "afternoon", "evening"], {
-    required_error: "Please select a preferred time"
-  }),
+  appointmentTypeId: z.string().min(1, "Please select a visit type"),
+  date: z.string(),
+  startsAt: z.string().min(1, "Please choose an available time"),
   specialRequirements: z.string().optional(),
 });
 
 type SiteVisitFormData = z.infer<typeof siteVisitFormSchema>;
 
 export default function ScheduleSiteVisit() {
-  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [booked, setBooked] = useState<Appointment | null>(null);
   const { toast } = useToast();
   
   const { data: systemConfig } = useQuery<SystemConfig>({
     queryKey: ['/api/system-config'],
   });
 
+  const { data: visitTypes = [], isLoading: typesLoading } = useQuery<AppointmentType[]>({
+    queryKey: ['/api/public/appointment-types?kind=site_visit'],
+  });
+
   const form = useForm<SiteVisitFormData>({
     resolver: zodResolver(siteVisitFormSchema),
     defaultValues: {
@@ -76,24 +83,45 @@ export default function ScheduleSiteVisit() {
       propertyType: "residential",
       serviceInterest: "cctv",
       squareFootage: "",
-      preferredDate: "",
-      preferredTime: "morning",
+      appointmentTypeId: "",
+      date: "",
+      startsAt: "",
       specialRequirements: "",
     },
   });
 
-  const onSubmit = async (data: SiteVisitFormData) => {
+  // Most sites offer a single kind of survey, so start with the first one selected
+  const appointmentTypeId = form.watch("appointmentTypeId");
+  useEffect(() => {
+    if (!appointmentTypeId && visitTypes.length > 0) {
+      form.setValue("appointmentTypeId", visitTypes[0].id);
+    }
+  }, [appointmentTypeId, visitTypes, form]);
+
+  const onSubmit = async ({ date: _date, specialRequirements, ...data }: SiteVisitFormData) => {
     try {
-      await apiRequest("POST", "/api/public/site-visit", data);
+      const response = await apiRequest("POST", "/api/public/site-visit", { ...data, notes: specialRequirements });
+      const result = await response.json();
 
-      setIsSubmitted(true);
+      setBooked(result.appointment);
       form.reset();
       
       toast({
-        title: "Site Visit Scheduled",
-        description: "We'll contact you to confirm the visit details.",
+        title: "Site Visit Booked",
+        description: "A confirmation has been sent to your email.",
       });
-    } catch (error) {
+    } catch (error: any) {
+      if (error.message?.startsWith("409")) {
+        // Someone else took the slot while the form was open
+        form.setValue("startsAt", "");
+        queryClient.invalidateQueries({ queryKey: ['/api/public/appointment-availability'] });
+        toast({
+          title: "Time No Longer Available",
+          description: "That time was just booked. Please choose another.",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Submission Failed",
         description: "Please try again or contact us directly.",
@@ -102,7 +130,7 @@ export default function ScheduleSiteVisit() {
     }
   };
 
-  if (isSubmitted) {
+  if (booked) {
     return (
       <div className="container mx-auto px-4 py-16">
         <Card className="max-w-2xl mx-auto text-center">
@@ -110,19 +138,25 @@ export default function ScheduleSiteVisit() {
             <div className="mx-auto mb-4 w-16 h-16 bg-green-100 dark:bg-green-900 rounded-full flex items-center justify-center">
               <CheckCircle className="w-10 h-10 text-green-600 dark:text-green-400" />
             </div>
-            <CardTitle className="text-3xl">Site Visit Requested!</CardTitle>
+            <CardTitle className="text-3xl">Site Visit Booked!</CardTitle>
             <CardDescription className="text-lg mt-4">
-              Your site survey request has been received.
+              {format(new Date(booked.startsAt), "EEEE, MMMM d 'at' h:mm a")}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <p className="text-muted-foreground">
-              Our technical team will review your request and contact you within 24 hours to
-              confirm the site visit details and schedule.
+              Our technician will meet you at {booked.address}. We've emailed a confirmation to{" "}
+              {booked.email} with a link to reschedule or cancel.
             </p>
-            <div className="pt-6">
+            <div className="pt-6 flex flex-wrap justify-center gap-2">
+              <Button variant="outline" asChild data-testid="button-manage-appointment">
+                <Link href={`/appointments/${booked.manageToken}`}>Manage Visit</Link>
+              </Button>
+              <Button variant="outline" asChild data-testid="button-add-to-calendar">
+                <a href={`/api/public/appointments/${booked.manageToken}/ics`}>Add to Calendar</a>
+              </Button>
               <Button
-                onClick={() => setIsSubmitted(false)}
+                onClick={() => setBooked(null)}
                 variant="outline"
                 data-testid="button-schedule-another"
               >
@@ -135,6 +169,10 @@ export default function ScheduleSiteVisit() {
     );
   }
 
+
+  if (!typesLoading && visitTypes.length === 0) {
+    return <OnlineBookingUnavailable what="site visits" phoneNumber={systemConfig?.phoneNumber} />;
+  }
   return (
     <div className="container mx-auto px-4 py-16">
       <div className="max-w-3xl mx-auto">
@@ -152,7 +190,7 @@ export default function ScheduleSiteVisit() {
           <CardHeader>
             <CardTitle>Site Survey Request</CardTitle>
             <CardDescription>
-              Provide your property details and we'll schedule a comprehensive security assessment
+              Provide your property details and pick an open time for a comprehensive security assessment
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -319,49 +357,55 @@ export default function ScheduleSiteVisit() {
                   )}
                 />
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {visitTypes.length > 1 && (
                   <FormField
                     control={form.control}
-                    name="preferredDate"
+                    name="appointmentTypeId"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Preferred Visit Date *</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="date"
-                            min={new Date().toISOString().split('T')[0]}
-                            {...field}
-                            data-testid="input-preferred-date"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="preferredTime"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Preferred Time *</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
+                        <FormLabel>Visit Type *</FormLabel>
+                        <Select
+                          onValueChange={(value) => {
+                            field.onChange(value);
+                            form.setValue("startsAt", "");
+                          }}
+                          value={field.value}
+                        >
                           <FormControl>
-                            <SelectTrigger data-testid="select-preferred-time">
-                              <SelectValue placeholder="Select time preference" />
+                            <SelectTrigger data-testid="select-visit-type">
+                              <SelectValue placeholder="Select visit type" />
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="morning">Morning (9 AM - 12 PM)</SelectItem>
-                            <SelectItem value="afternoon">Afternoon (12 PM - 5 PM)</SelectItem>
-                            <SelectItem value="evening">Evening (5 PM - 7 PM)</SelectItem>
+                            {visitTypes.map(type => (
+                              <SelectItem key={type.id} value={type.id}>
+                                {type.name} ({type.durationMinutes} min)
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-                </div>
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="startsAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <AppointmentSlotPicker
+                        appointmentTypeId={appointmentTypeId}
+                        date={form.watch("date")}
+                        onDateChange={(date) => form.setValue("date", date)}
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
                 <FormField
                   control={form.control}
@@ -389,7 +433,7 @@ export default function ScheduleSiteVisit() {
                     disabled={form.formState.isSubmitting}
                     data-testid="button-submit-site-visit"
                   >
-                    {form.formState.isSubmitting ? "Submitting..." : "Schedule Site Visit"}
+                    {form.formState.isSubmitting ? "Booking..." : "Book Site Visit"}
                   </Button>
                 </div>
               </form>
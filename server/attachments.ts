@@ -0,0 +1,51 @@
+import { ObjectNotFoundError, ObjectStorageService } from "./objectStorage";
+import { ObjectAccessGroupType, ObjectPermission, type ObjectAclPolicy } from "./objectAcl";
+import { InvalidRequestError } from "./errors";
+import type { AttachmentUpload, FileAttachment } from "@shared/schema";
+
+// Staff can always read attachments; with a project, so can everyone who can see that project (its client included)
+export function attachmentAclPolicy(owner: string, projectId?: string | null): ObjectAclPolicy {
+  const aclRules: ObjectAclPolicy['aclRules'] = [
+    { group: { type: ObjectAccessGroupType.STAFF, id: 'all' }, permission: ObjectPermission.READ },
+  ];
+  if (projectId) {
+    aclRules.push({ group: { type: ObjectAccessGroupType.PROJECT_MEMBERS, id: projectId }, permission: ObjectPermission.READ });
+  }
+  return { owner, visibility: 'private', aclRules };
+}
+
+// Takes ownership of files the browser uploaded to signed URLs; size and type come from storage, not the client
+export async function claimAttachmentUploads(
+  uploads: AttachmentUpload[],
+  owner: string,
+  projectId?: string | null,
+): Promise<FileAttachment[]> {
+  const objectStorage = new ObjectStorageService();
+  const claimed: FileAttachment[] = [];
+  for (const upload of uploads) {
+    try {
+      const stored = await objectStorage.claimUploadedObjectEntity(upload.uploadURL, attachmentAclPolicy(owner, projectId));
+      claimed.push({ filename: upload.filename, ...stored });
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        throw new InvalidRequestError("One of the attachments could not be found");
+      }
+      throw error;
+    }
+  }
+  return claimed;
+}
+
+// Re-scopes stored attachments, e.g. when an emailed message is filed against a project's ticket
+export async function shareAttachmentsWithProject(attachments: FileAttachment[], owner: string, projectId: string): Promise<void> {
+  const objectStorage = new ObjectStorageService();
+  for (const attachment of attachments) {
+    await objectStorage.trySetObjectEntityAclPolicy(attachment.objectPath, attachmentAclPolicy(owner, projectId));
+  }
+}
+
+export function findAttachment(attachmentLists: unknown[], objectPath: string): FileAttachment | undefined {
+  return attachmentLists
+    .flatMap(list => (Array.isArray(list) ? list as FileAttachment[] : []))
+    .find(attachment => attachment.objectPath === objectPath);
+}
@@ -0,0 +1,49 @@
+// Errors for requests that can't be carried out as asked. Routes answer them with their status
+// and message; anything else thrown from storage is unexpected and becomes a 500.
+export class RequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "RequestError";
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// The record the request refers to doesn't exist
+export class NotFoundError extends RequestError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = "NotFoundError";
+  }
+}
+
+// The request itself is invalid, e.g. an end date before its start date
+export class InvalidRequestError extends RequestError {
+  constructor(message: string) {
+    super(message, 400);
+    this.name = "InvalidRequestError";
+  }
+}
+
+// The user is signed in and allowed the action in general, but not on this record
+export class ForbiddenError extends RequestError {
+  constructor(message: string) {
+    super(message, 403);
+    this.name = "ForbiddenError";
+  }
+}
+
+// The request is valid but the record's current state doesn't allow it
+export class ConflictError extends RequestError {
+  constructor(message: string) {
+    super(message, 409);
+    this.name = "ConflictError";
+  }
+}
+
+// A dispatch booking would overlap others; carries them so the dispatcher can choose to double-book
+export class DispatchConflictError extends ConflictError {
+  constructor(readonly conflicts: unknown[]) {
+    super("Technician is already booked at that time");
+    this.name = "DispatchConflictError";
+  }
+}
@@ -0,0 +1,152 @@
+import { getAppBaseUrl } from "./mailer";
+import { businessDateOf, type BusinessHours } from "./timeClassification";
+import type { Appointment } from "@shared/schema";
+import type { UserSchedule } from "./storage";
+
+// iCalendar (RFC 5545) output for calendar subscriptions and single-appointment downloads.
+// Timed events are written in UTC; due dates become all-day events on the business calendar date.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string;
+  start: Date;
+  end: Date;
+  allDay?: boolean; // start/end are read as business calendar dates, end exclusive
+  cancelled?: boolean;
+  updatedAt?: Date | null;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Content lines are folded at 75 octets; continuation lines start with a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, 'utf8') > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export function buildCalendar(name: string, events: CalendarEvent[], hours: BusinessHours): string {
+  const formatDate = (date: Date) => businessDateOf(date, hours).replace(/-/g, '');
+  const stamp = formatDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//FibreUS//Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      ...(event.allDay
+        ? [`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(event.end)}`]
+        : [`DTSTART:${formatDateTime(event.start)}`, `DTEND:${formatDateTime(event.end)}`]),
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      ...(event.url ? [`URL:${event.url}`] : []),
+      ...(event.updatedAt ? [`LAST-MODIFIED:${formatDateTime(new Date(event.updatedAt))}`] : []),
+      `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+      'END:VEVENT',
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function uidFor(kind: string, id: string): string {
+  return `${kind}-${id}@${new URL(getAppBaseUrl()).hostname}`;
+}
+
+// A due date occupies its whole business day
+function dueDay(date: Date): { start: Date; end: Date; allDay: true } {
+  return { start: date, end: new Date(date.getTime() + DAY_MS), allDay: true };
+}
+
+type NamedAppointment = Appointment & { appointmentTypeName: string };
+
+function appointmentEvent(appointment: NamedAppointment): CalendarEvent {
+  return {
+    uid: uidFor('appointment', appointment.id),
+    summary: appointment.appointmentTypeName,
+    description: appointment.notes,
+    location: appointment.address,
+    url: `${getAppBaseUrl()}/appointments/${appointment.manageToken}`,
+    start: new Date(appointment.startsAt),
+    end: new Date(appointment.endsAt),
+    cancelled: appointment.status === 'cancelled',
+    updatedAt: appointment.updatedAt,
+  };
+}
+
+export function scheduleEvents(schedule: UserSchedule): CalendarEvent[] {
+  return [
+    ...schedule.bookings.map(booking => ({
+      uid: uidFor('dispatch', booking.id),
+      summary: `${booking.reference} ${booking.title}`.trim(),
+      description: booking.notes,
+      location: booking.address,
+      start: new Date(booking.startsAt),
+      end: new Date(booking.endsAt),
+      updatedAt: booking.updatedAt,
+    })),
+    ...schedule.projects.map(project => ({
+      uid: uidFor('project', project.id),
+      summary: `${project.ticketNumber} ${project.projectName}`,
+      description: `Project status: ${project.status?.replace('_', ' ')}`,
+      ...dueDay(new Date(project.startDate!)),
+      // Runs through the estimated completion day when there is one
+      ...(project.estimatedCompletionDate && project.estimatedCompletionDate > project.startDate!
+        ? { end: new Date(new Date(project.estimatedCompletionDate).getTime() + DAY_MS) }
+        : {}),
+      updatedAt: project.updatedAt,
+    })),
+    ...schedule.tasks.map(task => ({
+      uid: uidFor('task', task.id),
+      summary: `Due: ${task.title}`,
+      description: [task.ticketNumber, task.description].filter(Boolean).join('\n'),
+      ...dueDay(new Date(task.dueDate!)),
+      updatedAt: task.updatedAt,
+    })),
+    ...schedule.tickets.map(ticket => ({
+      uid: uidFor('ticket', ticket.id),
+      summary: `Due: ${ticket.title}`,
+      description: `${ticket.ticketNumber} on ${ticket.projectName}`,
+      ...dueDay(new Date(ticket.dueDate!)),
+      updatedAt: ticket.updatedAt,
+    })),
+    ...schedule.appointments.map(appointmentEvent),
+  ];
+}
+
+export function appointmentCalendar(appointment: NamedAppointment, companyName: string, hours: BusinessHours): string {
+  const event = appointmentEvent(appointment);
+  return buildCalendar(companyName, [{ ...event, summary: `${appointment.appointmentTypeName} with ${companyName}` }], hours);
+}
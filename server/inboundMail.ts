@@ -0,0 +1,226 @@
+import { createHash } from "crypto";
+import { storage, type InboundSender } from "./storage";
+import { InvalidRequestError } from "./errors";
+import { ObjectStorageService } from "./objectStorage";
+import { attachmentAclPolicy, shareAttachmentsWithProject } from "./attachments";
+import { parseMailMessage, type ParsedAttachment, type ParsedMail } from "./mimeParser";
+import { hasPermission } from "@shared/permissions";
+import type { FileAttachment, InboundEmail, InsertInboundEmail, Project, Ticket } from "@shared/schema";
+
+// Ticket numbers are YYMM plus a sequence, quoted in subjects as "Ticket #2411001" or "[#2411001]"
+const TICKET_REFERENCE = /(?:ticket\s*#?\s*|#)(\d{7,})\b/i;
+
+const MAX_LEAD_NOTE_LENGTH = 5000;
+
+// Out-of-office replies, bounces and list mail are recorded but never turned into comments or leads
+function isAutomatedMessage(mail: ParsedMail): boolean {
+  const autoSubmitted = mail.headers.get('auto-submitted')?.toLowerCase();
+  if (autoSubmitted && autoSubmitted !== 'no') return true;
+  const precedence = mail.headers.get('precedence')?.toLowerCase();
+  if (precedence && ['bulk', 'junk', 'list', 'auto_reply'].includes(precedence)) return true;
+  if (mail.headers.has('x-autoreply') || mail.headers.has('x-autorespond') || mail.headers.has('list-id')) return true;
+  return /^(mailer-daemon|postmaster|no-?reply)@/.test(mail.from?.address ?? '');
+}
+
+// Keeps only what the sender wrote above the quoted history of the thread
+export function stripQuotedReply(text: string): string {
+  const kept: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (/^On .+wrote:\s*$/.test(line) || /^-{2,}\s*Original Message\s*-{2,}/i.test(line) || /^_{10,}\s*$/.test(line)) {
+      break;
+    }
+    if (/^From:\s/.test(line) && kept.some(previous => previous.trim() !== '')) {
+      break; // Outlook puts a header block, not a "wrote:" line, above the quoted message
+    }
+    if (!line.startsWith('>')) {
+      kept.push(line);
+    }
+  }
+  return kept.join('\n').trim();
+}
+
+// Uploads into `stored` as it goes, so the caller can remove what was uploaded if filing the message fails part way
+async function storeAttachments(attachments: ParsedAttachment[], owner: string, stored: FileAttachment[]): Promise<FileAttachment[]> {
+  if (attachments.length === 0) {
+    return stored;
+  }
+  const objectStorage = new ObjectStorageService();
+  for (const attachment of attachments) {
+    // Staff only until the message is filed against a project
+    const objectPath = await objectStorage.uploadObjectEntity(attachment.content, attachment.contentType, attachmentAclPolicy(owner));
+    stored.push({
+      filename: attachment.filename.slice(0, 255),
+      contentType: attachment.contentType,
+      size: attachment.content.length,
+      objectPath,
+    });
+  }
+  return stored;
+}
+
+async function discardAttachments(stored: FileAttachment[]): Promise<void> {
+  const objectStorage = new ObjectStorageService();
+  for (const attachment of stored) {
+    try {
+      await objectStorage.deleteObjectEntity(attachment.objectPath);
+    } catch (error) {
+      console.error(`Failed to delete inbound attachment ${attachment.objectPath}:`, error);
+    }
+  }
+}
+
+// Staff may reply on the tickets they could comment on in the app; anyone else must be the project's client or lead
+function ticketAuthor(sender: InboundSender, ticket: Ticket, project: Project): { userId: string | null } | null {
+  const { user } = sender;
+  if (user && user.role && user.role !== 'client') {
+    if (user.role === 'employee') {
+      return project.assignedTechnicianId === user.id || ticket.assignedToId === user.id ? { userId: user.id } : null;
+    }
+    return hasPermission(user.role, 'viewOwnProjects') ? { userId: user.id } : null;
+  }
+  const ownsProject = (!!project.clientId && sender.clients.some(client => client.id === project.clientId)) ||
+    (!!project.leadId && sender.leads.some(lead => lead.id === project.leadId));
+  return ownsProject ? { userId: user?.id ?? null } : null;
+}
+
+async function threadOntoTicket(
+  email: InboundEmail,
+  mail: ParsedMail,
+  sender: InboundSender,
+  attachments: FileAttachment[],
+  ticketNumber: string,
+): Promise<Partial<InsertInboundEmail>> {
+  const ticket = await storage.getTicketByNumber(ticketNumber);
+  const project = ticket ? await storage.getProject(ticket.projectId) : undefined;
+  if (!ticket || !project) {
+    return { status: 'unmatched', attachments, statusReason: `Ticket #${ticketNumber} wasn't found` };
+  }
+  const author = ticketAuthor(sender, ticket, project);
+  if (!author) {
+    return {
+      status: 'unmatched',
+      ticketId: ticket.id,
+      attachments,
+      statusReason: `${email.fromAddress} isn't a contact on ticket #${ticket.ticketNumber}'s project`,
+    };
+  }
+
+  await shareAttachmentsWithProject(attachments, author.userId ?? email.fromAddress, project.id);
+  const comment = await storage.createTicketComment({
+    ticketId: ticket.id,
+    userId: author.userId,
+    authorName: author.userId ? null : email.fromName,
+    authorEmail: author.userId ? null : email.fromAddress,
+    comment: stripQuotedReply(mail.text) || mail.text || '(no message)',
+    attachments,
+  });
+  await storage.logActivity({
+    userId: author.userId,
+    action: 'create',
+    entityType: 'ticket_comment',
+    entityId: comment.id,
+    entityName: `Comment on ${ticket.title}`,
+    details: `Emailed reply from ${email.fromAddress}`,
+  });
+  return { status: 'threaded', ticketId: ticket.id, ticketCommentId: comment.id, attachments };
+}
+
+// Mail without a ticket reference: prospects become (or add to) leads; known clients and staff wait for triage
+async function routeToLead(
+  email: InboundEmail,
+  mail: ParsedMail,
+  sender: InboundSender,
+  attachments: FileAttachment[],
+): Promise<Partial<InsertInboundEmail>> {
+  if (sender.user && sender.user.role !== 'client') {
+    return { status: 'unmatched', attachments, statusReason: 'Sent by staff without a ticket number in the subject' };
+  }
+  if (sender.clients.length > 0) {
+    return {
+      status: 'unmatched',
+      attachments,
+      statusReason: `From client ${sender.clients[0].name}; open a ticket on one of their projects`,
+    };
+  }
+
+  const note = `Email received ${email.receivedAt.toISOString().slice(0, 10)}: ${email.subject || '(no subject)'}\n\n${mail.text}`
+    .slice(0, MAX_LEAD_NOTE_LENGTH);
+
+  const [existing] = sender.leads.filter(lead => lead.status !== 'converted' && lead.status !== 'lost');
+  if (existing) {
+    await storage.updateLead(existing.id, {
+      notes: existing.notes ? `${existing.notes}\n\n${note}` : note,
+    });
+    await storage.logActivity({
+      action: 'update',
+      entityType: 'lead',
+      entityId: existing.id,
+      entityName: existing.name,
+      details: `Email from ${email.fromAddress} added to notes`,
+    });
+    return { status: 'lead_updated', leadId: existing.id, attachments };
+  }
+
+  const lead = await storage.createLead({
+    name: email.fromName || email.fromAddress.split('@')[0],
+    email: email.fromAddress,
+    phone: '', // Not known from an email; sales fill it in
+    source: 'email',
+    status: 'new',
+    notes: note,
+  });
+  await storage.logActivity({
+    action: 'create',
+    entityType: 'lead',
+    entityId: lead.id,
+    entityName: lead.name,
+    details: `Lead created from an email by ${email.fromAddress}`,
+  });
+  return { status: 'lead_created', leadId: lead.id, attachments };
+}
+
+// Parses a raw RFC 822 message and files it as a ticket comment, a lead, or an unmatched message for staff.
+// The sender address is taken at face value, so the mail provider in front of this must reject spoofed mail.
+export async function processInboundEmail(raw: Buffer, now: Date = new Date()): Promise<{ email: InboundEmail; duplicate: boolean }> {
+  const mail = parseMailMessage(raw);
+  if (!mail.from) {
+    throw new InvalidRequestError('Message has no sender address');
+  }
+
+  const claim = await storage.claimInboundEmail({
+    // Messages without a Message-ID are recognised by their content instead
+    messageId: mail.messageId ?? `<${createHash('sha256').update(raw).digest('hex')}@inbound>`,
+    fromAddress: mail.from.address,
+    fromName: mail.from.name,
+    subject: mail.subject.slice(0, 998),
+    body: mail.text,
+    status: 'unmatched',
+    receivedAt: now,
+  });
+  if (claim.duplicate) {
+    return claim;
+  }
+  const { email } = claim;
+
+  const stored: FileAttachment[] = [];
+  try {
+    let outcome: Partial<InsertInboundEmail>;
+    if (isAutomatedMessage(mail)) {
+      outcome = { status: 'ignored', statusReason: 'Automatic reply or bulk mail' };
+    } else {
+      const sender = await storage.getInboundSender(email.fromAddress);
+      const attachments = await storeAttachments(mail.attachments, sender.user?.id ?? email.fromAddress, stored);
+      const ticketNumber = TICKET_REFERENCE.exec(mail.subject)?.[1];
+      outcome = ticketNumber
+        ? await threadOntoTicket(email, mail, sender, attachments, ticketNumber)
+        : await routeToLead(email, mail, sender, attachments);
+    }
+    const updated = await storage.updateInboundEmail(email.id, outcome);
+    return { email: updated ?? email, duplicate: false };
+  } catch (error) {
+    // Release the Message-ID so the provider's retry is processed from scratch, with its attachments uploaded afresh
+    await discardAttachments(stored);
+    await storage.deleteInboundEmail(email.id);
+    throw error;
+  }
+}
@@ -1,11 +1,25 @@
 import express, { type Request, Response, NextFunction } from "express";
-import { registerRoutes } from "./routes";
+import { registerRoutes, INBOUND_EMAIL_PATH, QUOTE_APPROVAL_PATH } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { registerJob, startScheduler } from "./scheduler";
+import { invoiceDunningJob } from "./invoiceReminders";
+import { quoteExpiryJob } from "./quoteExpiry";
+import { subscriptionBillingJob } from "./subscriptionBilling";
+import { maintenanceSchedulingJob } from "./maintenanceScheduling";
+import { slaMonitorJob } from "./slaMonitor";
 
 const app = express();
 app.set('trust proxy', 1);
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
+// The inbound mail gateway reads its own raw body once the sender is authenticated, so it is left unparsed here
+const isInboundEmail = (req: Request) => req.path.replace(/\/+$/, '') === INBOUND_EMAIL_PATH;
+const jsonParser = express.json();
+const quoteApprovalParser = express.json({ limit: '1mb' });
+const formParser = express.urlencoded({ extended: false });
+app.use((req, res, next) => {
+  if (isInboundEmail(req)) return next();
+  return QUOTE_APPROVAL_PATH.test(req.path) ? quoteApprovalParser(req, res, next) : jsonParser(req, res, next);
+});
+app.use((req, res, next) => isInboundEmail(req) ? next() : formParser(req, res, next));
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -68,5 +82,12 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    registerJob(invoiceDunningJob);
+    registerJob(quoteExpiryJob);
+    registerJob(subscriptionBillingJob);
+    registerJob(maintenanceSchedulingJob);
+    registerJob(slaMonitorJob);
+    startScheduler();
   });
 })();
@@ -0,0 +1,138 @@
+import { storage } from "./storage";
+import { sendNotification, getNotificationTransport } from "./notifications";
+import { getAppBaseUrl } from "./mailer";
+import type { ScheduledJob } from "./scheduler";
+import type { Invoice } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Used until an admin saves a cadence in the app configuration
+export const DEFAULT_INVOICE_REMINDER_OFFSETS = [-3, 0, 7, 14];
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+// Whole days between the due date and today (negative while the invoice is not yet due)
+function daysPastDue(dueDate: Date, now: Date): number {
+  return Math.round((startOfDay(now).getTime() - startOfDay(dueDate).getTime()) / DAY_MS);
+}
+
+function buildReminder(invoice: Invoice, days: number): { subject: string; body: string } {
+  const amount = `$${parseFloat(invoice.balanceDue).toFixed(2)}`;
+  const dueOn = new Date(invoice.dueDate!).toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" });
+
+  if (days < 0) {
+    return {
+      subject: `Upcoming payment: invoice ${invoice.invoiceNumber}`,
+      body: `This is a friendly reminder that invoice ${invoice.invoiceNumber} for ${amount} is due on ${dueOn}.`,
+    };
+  }
+  if (days === 0) {
+    return {
+      subject: `Payment due today: invoice ${invoice.invoiceNumber}`,
+      body: `Invoice ${invoice.invoiceNumber} for ${amount} is due today.`,
+    };
+  }
+  return {
+    subject: `Overdue: invoice ${invoice.invoiceNumber}`,
+    body: `Invoice ${invoice.invoiceNumber} was due on ${dueOn} and is now ${days} day${days === 1 ? "" : "s"} overdue. ` +
+      `The outstanding balance is ${amount}. If you have already sent payment, please disregard this message.`,
+  };
+}
+
+// Flags past-due invoices as overdue and sends the reminder for the latest cadence step that has come due
+export async function runInvoiceDunning(now: Date = new Date()): Promise<{ markedOverdue: number; remindersSent: number }> {
+  const config = await storage.getSystemConfig();
+  const remindersEnabled = config?.invoiceRemindersEnabled ?? true;
+  const offsets = [...(config?.invoiceReminderOffsets ?? DEFAULT_INVOICE_REMINDER_OFFSETS)].sort((a, b) => a - b);
+  const transport = getNotificationTransport();
+
+  let markedOverdue = 0;
+  let remindersSent = 0;
+
+  const awaitingPayment = await storage.getInvoicesAwaitingPayment();
+  for (const invoice of awaitingPayment) {
+    const days = daysPastDue(new Date(invoice.dueDate!), now);
+
+    if (days > 0 && invoice.status !== 'overdue') {
+      const updated = await storage.markInvoiceOverdue(invoice.id);
+      if (updated) {
+        markedOverdue++;
+        await storage.logActivity({
+          action: 'overdue',
+          entityType: 'invoice',
+          entityId: invoice.id,
+          entityName: invoice.invoiceNumber,
+          details: `Invoice is ${days} day(s) past due with $${invoice.balanceDue} outstanding`,
+        });
+      }
+    }
+
+    if (!remindersEnabled || invoice.remindersPaused || !invoice.recipientEmail) {
+      continue;
+    }
+
+    // Earlier steps that were missed (e.g. while paused) are skipped rather than sent in a burst
+    const step = offsets.filter(offset => offset <= days).pop();
+    if (step === undefined) {
+      continue;
+    }
+
+    // Claim the step before sending so overlapping runs can't send it twice
+    const claimed = await storage.recordInvoiceReminder({
+      invoiceId: invoice.id,
+      offsetDays: step,
+      channel: transport.name,
+      recipient: invoice.recipientEmail,
+    });
+    if (!claimed) {
+      continue;
+    }
+
+    const { subject, body } = buildReminder(invoice, days);
+    try {
+      // Only link the invoice while its latest share link is still usable
+      const shareLink = invoice.shareToken
+        ? await storage.resolveShareLink('invoice', invoice.shareToken, now)
+        : undefined;
+      await sendNotification({
+        recipientEmail: invoice.recipientEmail,
+        recipientName: invoice.recipientName,
+        subject,
+        body,
+        link: shareLink?.status === 'active'
+          ? `${getAppBaseUrl()}/invoice/${invoice.invoiceNumber}/${invoice.shareToken}`
+          : undefined,
+        entityType: 'invoice',
+        entityId: invoice.id,
+      });
+    } catch (error) {
+      // Release the claim so the step is retried on the next run instead of showing as sent
+      await storage.deleteInvoiceReminder(claimed.id);
+      console.error(`Failed to send reminder for invoice ${invoice.invoiceNumber}:`, error);
+      continue;
+    }
+
+    remindersSent++;
+    await storage.logActivity({
+      action: 'reminder_sent',
+      entityType: 'invoice',
+      entityId: invoice.id,
+      entityName: invoice.invoiceNumber,
+      details: `Payment reminder (${step >= 0 ? '+' : ''}${step} days) sent to ${invoice.recipientEmail}`,
+    });
+  }
+
+  return { markedOverdue, remindersSent };
+}
+
+export const invoiceDunningJob: ScheduledJob = {
+  name: "invoice-dunning",
+  intervalMs: 60 * 60 * 1000,
+  run: async (now) => {
+    await runInvoiceDunning(now);
+  },
+};
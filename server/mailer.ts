@@ -0,0 +1,146 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+
+// A single outbound message. `html` is optional; every message carries plain text.
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  from?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer | string;
+}
+
+// The transport is the pluggable part: swap it for SMTP or a provider API in production.
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// Writes messages to the server log. Default when no transport is configured.
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = "console";
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(
+      [
+        "----- outbound mail -----",
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        ...(message.attachments?.length
+          ? [`Attachments: ${message.attachments.map((a) => a.filename).join(", ")}`]
+          : []),
+        "",
+        message.text,
+        "-------------------------",
+      ].join("\n"),
+    );
+  }
+}
+
+// Writes each message as an .eml file into a local outbox directory (dev/test sink).
+export class FileMailTransport implements MailTransport {
+  readonly name = "file";
+
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.eml`;
+    await fs.writeFile(path.join(this.outboxDir, fileName), toRfc822(message), "utf8");
+  }
+}
+
+// Serialize a message as a minimal RFC 822 document
+function toRfc822(message: MailMessage): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+  ];
+
+  const parts: { contentType: string; body: string; filename?: string }[] = [
+    { contentType: "text/plain; charset=utf-8", body: message.text },
+  ];
+  if (message.html) {
+    parts.push({ contentType: "text/html; charset=utf-8", body: message.html });
+  }
+  for (const attachment of message.attachments || []) {
+    const content = typeof attachment.content === "string"
+      ? Buffer.from(attachment.content, "utf8")
+      : attachment.content;
+    parts.push({
+      contentType: attachment.contentType,
+      body: content.toString("base64"),
+      filename: attachment.filename,
+    });
+  }
+
+  if (parts.length === 1) {
+    return [...headers, `Content-Type: ${parts[0].contentType}`, "", parts[0].body, ""].join("\r\n");
+  }
+
+  const boundary = `----=_Part_${randomUUID()}`;
+  const lines = [...headers, `Content-Type: multipart/mixed; boundary="${boundary}"`, ""];
+  for (const part of parts) {
+    lines.push(`--${boundary}`, `Content-Type: ${part.contentType}`);
+    if (part.filename) {
+      lines.push(
+        "Content-Transfer-Encoding: base64",
+        `Content-Disposition: attachment; filename="${part.filename}"`,
+      );
+    }
+    lines.push("", part.body);
+  }
+  lines.push(`--${boundary}--`, "");
+  return lines.join("\r\n");
+}
+
+function createTransportFromEnv(): MailTransport {
+  switch ((process.env.MAIL_TRANSPORT || "console").toLowerCase()) {
+    case "file":
+      return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || path.resolve(process.cwd(), ".mail-outbox"));
+    case "console":
+    default:
+      return new ConsoleMailTransport();
+  }
+}
+
+let activeTransport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!activeTransport) {
+    activeTransport = createTransportFromEnv();
+  }
+  return activeTransport;
+}
+
+// Replace the transport at runtime (e.g. from a production bootstrap or a test harness)
+export function setMailTransport(transport: MailTransport): void {
+  activeTransport = transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const from = message.from || process.env.MAIL_FROM || "FibreUS <no-reply@fibreus.local>";
+  await getMailTransport().send({ ...message, from });
+}
+
+// Base URL used for links in outbound messages
+export function getAppBaseUrl(): string {
+  if (process.env.APP_BASE_URL) {
+    return process.env.APP_BASE_URL.replace(/\/$/, "");
+  }
+  const domain = process.env.REPLIT_DOMAINS ? process.env.REPLIT_DOMAINS.split(",")[0] : "localhost:5000";
+  const protocol = process.env.REPLIT_DOMAINS ? "https" : "http";
+  return `${protocol}://${domain}`;
+}
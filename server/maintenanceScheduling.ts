@@ -0,0 +1,52 @@
+import { storage } from "./storage";
+import type { ScheduledJob } from "./scheduler";
+
+// Creates the task and checklist for every maintenance visit that has come within its agreement's lead time,
+// and ends agreements that have run past their end date
+export async function runMaintenanceScheduling(now: Date = new Date()): Promise<{ scheduled: number; ended: number }> {
+  let scheduled = 0;
+  let ended = 0;
+
+  const due = await storage.getMaintenanceAgreementsDueForScheduling(now);
+  for (const agreement of due) {
+    const name = `${agreement.clientName} - ${agreement.siteName}`;
+    // One agreement failing shouldn't hold up the rest; it's retried on the next run
+    try {
+      let result = await storage.scheduleMaintenanceVisit(agreement.id, now);
+      while (result) {
+        if (result.task && result.visit) {
+          scheduled++;
+          await storage.logActivity({
+            action: 'scheduled',
+            entityType: 'maintenance_agreement',
+            entityId: agreement.id,
+            entityName: name,
+            details: `${agreement.visitTypeName} due ${result.visit.dueDate.toLocaleDateString("en-US")} created as task ${result.task.ticketNumber}`,
+          });
+        } else {
+          ended++;
+          await storage.logActivity({
+            action: 'ended',
+            entityType: 'maintenance_agreement',
+            entityId: agreement.id,
+            entityName: name,
+            details: 'Agreement ended: the next visit would fall after its end date',
+          });
+        }
+        result = await storage.scheduleMaintenanceVisit(agreement.id, now);
+      }
+    } catch (error) {
+      console.error(`Failed to schedule maintenance for ${name}:`, error);
+    }
+  }
+
+  return { scheduled, ended };
+}
+
+export const maintenanceSchedulingJob: ScheduledJob = {
+  name: "maintenance-scheduling",
+  intervalMs: 60 * 60 * 1000,
+  run: async (now) => {
+    await runMaintenanceScheduling(now);
+  },
+};
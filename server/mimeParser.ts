@@ -0,0 +1,266 @@
+// Just enough RFC 822 / MIME to read inbound mail: folded headers, encoded words, nested multiparts,
+// base64 and quoted-printable bodies, and attachments named through Content-Disposition or Content-Type.
+
+export interface MailAddress {
+  address: string; // Lower-cased
+  name: string | null;
+}
+
+export interface ParsedAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ParsedMail {
+  messageId: string | null;
+  from: MailAddress | null;
+  to: MailAddress[];
+  subject: string;
+  date: Date | null;
+  text: string; // The plain-text body, or the HTML body with markup stripped when that's all there is
+  html: string | null;
+  attachments: ParsedAttachment[];
+  headers: Map<string, string>; // First value of each header, keyed by lower-case name
+}
+
+interface MimePart {
+  headers: Array<[string, string]>;
+  body: string; // Raw bytes as latin1, still transfer-encoded
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+// Raw bytes are handled as latin1 strings so multipart boundaries can be found without corrupting binary parts
+function splitHeaderBlock(raw: string): MimePart {
+  const match = /\r?\n\r?\n/.exec(raw);
+  const headerText = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index + match[0].length) : '';
+
+  const headers: Array<[string, string]> = [];
+  for (const line of headerText.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      headers[headers.length - 1][1] += ` ${line.trim()}`;
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      // Headers should be 7-bit, but some clients send raw UTF-8
+      const value = Buffer.from(line.slice(colon + 1).trim(), 'latin1').toString('utf8');
+      headers.push([line.slice(0, colon).trim().toLowerCase(), value]);
+    }
+  }
+  return { headers, body };
+}
+
+function headerOf(part: MimePart, name: string): string | undefined {
+  return part.headers.find(([key]) => key === name)?.[1];
+}
+
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  const label = (charset || 'utf-8').toLowerCase();
+  if (label === 'us-ascii' || label === 'ascii') return bytes.toString('latin1');
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+function decodeQuotedPrintable(text: string, underscoresAreSpaces = false): Buffer {
+  const source = (underscoresAreSpaces ? text.replace(/_/g, ' ') : text).replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < source.length; i++) {
+    const hex = source.slice(i + 1, i + 3);
+    if (source[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(source.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// RFC 2047 encoded words, e.g. =?UTF-8?B?...?=; whitespace between adjacent words is dropped
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, '$1')
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : decodeQuotedPrintable(text, true);
+      return decodeCharset(bytes, charset);
+    });
+}
+
+// "type/subtype; name=value; name*=utf-8''encoded" with RFC 2231 continuations folded together
+function parseHeaderValue(header: string | undefined): HeaderValue {
+  if (!header) return { value: '', params: {} };
+  const segments = header.match(/(?:[^;"]+|"(?:\\.|[^"])*")+/g) ?? [];
+  const value = (segments.shift() ?? '').trim().toLowerCase();
+
+  const params: Record<string, string> = {};
+  const continued: Record<string, { index: number; text: string; encoded: boolean }[]> = {};
+  for (const segment of segments) {
+    const eq = segment.indexOf('=');
+    if (eq < 0) continue;
+    const rawName = segment.slice(0, eq).trim().toLowerCase();
+    let rawValue = segment.slice(eq + 1).trim();
+    if (rawValue.startsWith('"') && rawValue.endsWith('"')) {
+      rawValue = rawValue.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+    const extended = /^([^*]+)\*(\d+)?(\*)?$/.exec(rawName);
+    if (extended) {
+      const [, name, index, star] = extended;
+      (continued[name] ??= []).push({
+        index: index ? Number(index) : 0,
+        text: rawValue,
+        encoded: !!star || (!index && rawName.endsWith('*')),
+      });
+    } else {
+      params[rawName] = decodeEncodedWords(rawValue);
+    }
+  }
+
+  for (const [name, pieces] of Object.entries(continued)) {
+    pieces.sort((a, b) => a.index - b.index);
+    let charset = 'utf-8';
+    const bytes: Buffer[] = pieces.map((piece, position) => {
+      let text = piece.text;
+      if (piece.encoded && position === 0) {
+        const quote = /^([^']*)'[^']*'/.exec(text);
+        if (quote) {
+          charset = quote[1] || charset;
+          text = text.slice(quote[0].length);
+        }
+      }
+      return piece.encoded
+        ? Buffer.from(text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))), 'latin1')
+        : Buffer.from(text, 'latin1');
+    });
+    params[name] = decodeCharset(Buffer.concat(bytes), charset);
+  }
+  return { value, params };
+}
+
+function decodeTransfer(part: MimePart): Buffer {
+  const encoding = (headerOf(part, 'content-transfer-encoding') || '').trim().toLowerCase();
+  if (encoding === 'base64') return Buffer.from(part.body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(part.body);
+  return Buffer.from(part.body, 'latin1');
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  const lines = body.split(/\r?\n/);
+  let current: string[] | null = null;
+  for (const line of lines) {
+    if (line.startsWith(delimiter)) {
+      if (current) parts.push(current.join('\r\n'));
+      if (line.slice(delimiter.length).startsWith('--')) return parts;
+      current = [];
+      continue;
+    }
+    current?.push(line);
+  }
+  if (current) parts.push(current.join('\r\n'));
+  return parts;
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function collectParts(part: MimePart, mail: { text: string[]; html: string[]; attachments: ParsedAttachment[] }): void {
+  const contentType = parseHeaderValue(headerOf(part, 'content-type') || 'text/plain');
+  const disposition = parseHeaderValue(headerOf(part, 'content-disposition'));
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    for (const child of splitMultipart(part.body, contentType.params.boundary)) {
+      collectParts(splitHeaderBlock(child), mail);
+    }
+    return;
+  }
+
+  const filename = disposition.params.filename || contentType.params.name;
+  const isBodyText = contentType.value === 'text/plain' || contentType.value === 'text/html';
+  // Anything that isn't body text is kept as a file, as are text parts the sender explicitly attached
+  if (!isBodyText || (disposition.value === 'attachment' && filename)) {
+    const extension = contentType.value === 'message/rfc822' ? '.eml' : '';
+    mail.attachments.push({
+      filename: filename || `attachment-${mail.attachments.length + 1}${extension}`,
+      contentType: contentType.value || 'application/octet-stream',
+      content: decodeTransfer(part),
+    });
+    return;
+  }
+
+  const text = decodeCharset(decodeTransfer(part), contentType.params.charset);
+  if (contentType.value === 'text/html') {
+    mail.html.push(text);
+  } else {
+    mail.text.push(text);
+  }
+}
+
+// "Name <user@example.com>", "user@example.com (Name)" or a bare address; groups and lists are split on commas
+export function parseAddressList(header: string | undefined): MailAddress[] {
+  if (!header) return [];
+  const decoded = decodeEncodedWords(header);
+  const entries = decoded.match(/(?:[^,"]+|"(?:\\.|[^"])*")+/g) ?? [];
+  const addresses: MailAddress[] = [];
+  for (const entry of entries) {
+    const angle = /^(.*)<([^>]+)>/.exec(entry);
+    const bare = /([^\s<>()"]+@[^\s<>()"]+)(?:\s*\(([^)]*)\))?/.exec(entry);
+    const address = (angle?.[2] ?? bare?.[1])?.trim().toLowerCase();
+    if (!address || !address.includes('@')) continue;
+    const name = (angle ? angle[1] : bare?.[2] ?? '').trim().replace(/^"|"$/g, '').replace(/\\(.)/g, '$1').trim();
+    addresses.push({ address, name: name || null });
+  }
+  return addresses;
+}
+
+export function parseMailMessage(raw: Buffer): ParsedMail {
+  const root = splitHeaderBlock(raw.toString('latin1'));
+  const headers = new Map<string, string>();
+  for (const [name, value] of root.headers) {
+    if (!headers.has(name)) headers.set(name, value);
+  }
+
+  const collected = { text: [] as string[], html: [] as string[], attachments: [] as ParsedAttachment[] };
+  collectParts(root, collected);
+
+  const html = collected.html.length > 0 ? collected.html.join('\n') : null;
+  const text = collected.text.length > 0 ? collected.text.join('\n').trim() : html ? htmlToText(html) : '';
+  const date = headers.get('date') ? new Date(headers.get('date')!) : null;
+  const messageId = headers.get('message-id')?.trim() || null;
+
+  return {
+    messageId,
+    from: parseAddressList(headers.get('from'))[0] ?? null,
+    to: parseAddressList(headers.get('to')),
+    subject: decodeEncodedWords(headers.get('subject') ?? '').trim(),
+    date: date && !isNaN(date.getTime()) ? date : null,
+    text,
+    html,
+    attachments: collected.attachments,
+    headers,
+  };
+}
@@ -0,0 +1,74 @@
+import { sendMail } from "./mailer";
+
+// A notification addressed to a customer or staff member about a specific record
+export interface Notification {
+  recipientEmail: string;
+  recipientName?: string | null;
+  subject: string;
+  body: string;
+  link?: string;
+  entityType: string;
+  entityId: string;
+}
+
+// The transport decides how a notification is delivered (email, SMS, chat webhook, ...)
+export interface NotificationTransport {
+  readonly name: string;
+  deliver(notification: Notification): Promise<void>;
+}
+
+// Delivers notifications as plain-text email through the configured mail transport
+export class EmailNotificationTransport implements NotificationTransport {
+  readonly name = "email";
+
+  async deliver(notification: Notification): Promise<void> {
+    const greeting = notification.recipientName ? `Hello ${notification.recipientName},` : "Hello,";
+    const lines = [greeting, "", notification.body];
+    if (notification.link) {
+      lines.push("", notification.link);
+    }
+    await sendMail({
+      to: notification.recipientEmail,
+      subject: notification.subject,
+      text: lines.join("\n"),
+    });
+  }
+}
+
+// Only writes notifications to the server log (useful when outbound delivery is disabled)
+export class LogNotificationTransport implements NotificationTransport {
+  readonly name = "log";
+
+  async deliver(notification: Notification): Promise<void> {
+    console.log(
+      `[notification] ${notification.entityType}/${notification.entityId} -> ${notification.recipientEmail}: ${notification.subject}`,
+    );
+  }
+}
+
+function createTransportFromEnv(): NotificationTransport {
+  switch ((process.env.NOTIFICATION_TRANSPORT || "email").toLowerCase()) {
+    case "log":
+      return new LogNotificationTransport();
+    case "email":
+    default:
+      return new EmailNotificationTransport();
+  }
+}
+
+let activeTransport: NotificationTransport | null = null;
+
+export function getNotificationTransport(): NotificationTransport {
+  if (!activeTransport) {
+    activeTransport = createTransportFromEnv();
+  }
+  return activeTransport;
+}
+
+export function setNotificationTransport(transport: NotificationTransport): void {
+  activeTransport = transport;
+}
+
+export async function sendNotification(notification: Notification): Promise<void> {
+  await getNotificationTransport().deliver(notification);
+}
@@ -1,9 +1,16 @@
 import { File } from "@google-cloud/storage";
+import { storage } from "./storage";
+import { hasPermission } from "@shared/permissions";
 
 const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 
 // The type of the access group.
-export enum ObjectAccessGroupType {}
+export enum ObjectAccessGroupType {
+  // Everyone who can see the project (id = project id): its client, assigned technicians and project staff
+  PROJECT_MEMBERS = "project_members",
+  // Every signed-in user who isn't a client (id is unused)
+  STAFF = "staff",
+}
 
 // The logic user group that can access the object.
 export interface ObjectAccessGroup {
@@ -53,10 +60,54 @@ abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
   public abstract hasMember(userId: string): Promise<boolean>;
 }
 
+class ProjectMembersAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.PROJECT_MEMBERS, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const [user, project] = await Promise.all([storage.getUser(userId), storage.getProject(this.id)]);
+    if (!user?.role || !user.isActive || !project) {
+      return false;
+    }
+    if (user.role === "client") {
+      const [client, lead] = await Promise.all([
+        project.clientId ? storage.getClient(project.clientId) : undefined,
+        project.leadId ? storage.getLead(project.leadId) : undefined,
+      ]);
+      return client?.userId === userId || lead?.userId === userId;
+    }
+    if (user.role !== "employee") {
+      return hasPermission(user.role, "viewOwnProjects");
+    }
+    // Technicians see the projects and tickets they're assigned to
+    if (project.assignedTechnicianId === userId) {
+      return true;
+    }
+    const tickets = await storage.getTicketsByProject(project.id);
+    return tickets.some((ticket) => ticket.assignedToId === userId);
+  }
+}
+
+class StaffAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.STAFF, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const user = await storage.getUser(userId);
+    return !!user?.role && user.isActive && user.role !== "client";
+  }
+}
+
 function createObjectAccessGroup(
   group: ObjectAccessGroup,
 ): BaseObjectAccessGroup {
   switch (group.type) {
+    case ObjectAccessGroupType.PROJECT_MEMBERS:
+      return new ProjectMembersAccessGroup(group.id);
+    case ObjectAccessGroupType.STAFF:
+      return new StaffAccessGroup(group.id);
     default:
       throw new Error(`Unknown access group type: ${group.type}`);
   }
@@ -101,10 +152,15 @@ export async function canAccessObject({
   objectFile: File;
   requestedPermission: ObjectPermission;
 }): Promise<boolean> {
-  // When this function is called, the acl policy is required.
+  // Files stored before attachments were scoped have no policy, or a private one with no rules (inbound mail);
+  // staff can still read them
   const aclPolicy = await getObjectAclPolicy(objectFile);
-  if (!aclPolicy) {
-    return false;
+  if (!aclPolicy || (aclPolicy.visibility === "private" && !aclPolicy.aclRules?.length && aclPolicy.owner !== userId)) {
+    return (
+      requestedPermission === ObjectPermission.READ &&
+      !!userId &&
+      (await new StaffAccessGroup("all").hasMember(userId))
+    );
   }
 
   // Public objects are always accessible for read.
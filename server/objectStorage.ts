@@ -8,6 +8,7 @@ import {
   getObjectAclPolicy,
   setObjectAclPolicy,
 } from "./objectAcl";
+import { ConflictError } from "./errors";
 
 const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
 
@@ -154,6 +155,34 @@ export class ObjectStorageService {
     });
   }
 
+  // Uploads content received by the server itself (rather than through a signed URL) and returns its object path.
+  async uploadObjectEntity(
+    content: Buffer,
+    contentType: string,
+    aclPolicy: ObjectAclPolicy
+  ): Promise<string> {
+    const objectId = randomUUID();
+    const { bucketName, objectName } = parseObjectPath(
+      `${this.getPrivateObjectDir()}/uploads/${objectId}`
+    );
+    const objectFile = objectStorageClient.bucket(bucketName).file(objectName);
+    await objectFile.save(content, { contentType, resumable: false });
+    await setObjectAclPolicy(objectFile, aclPolicy);
+    return `/objects/uploads/${objectId}`;
+  }
+
+  // Deletes an object entity; one that no longer exists is already gone.
+  async deleteObjectEntity(objectPath: string): Promise<void> {
+    try {
+      const objectFile = await this.getObjectEntityFile(objectPath);
+      await objectFile.delete();
+    } catch (error) {
+      if (!(error instanceof ObjectNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+
   // Gets the object entity file from the object path.
   async getObjectEntityFile(objectPath: string): Promise<File> {
     if (!objectPath.startsWith("/objects/")) {
@@ -221,6 +250,29 @@ export class ObjectStorageService {
     return normalizedPath;
   }
 
+  // Sets the ACL policy on a file the client has just uploaded and returns its stored details.
+  // Objects that already carry a policy belong to something else, so they can't be claimed again.
+  async claimUploadedObjectEntity(
+    rawPath: string,
+    aclPolicy: ObjectAclPolicy
+  ): Promise<{ objectPath: string; contentType: string; size: number }> {
+    const objectPath = this.normalizeObjectEntityPath(rawPath);
+    if (!objectPath.startsWith("/objects/uploads/")) {
+      throw new ObjectNotFoundError();
+    }
+    const objectFile = await this.getObjectEntityFile(objectPath);
+    if (await getObjectAclPolicy(objectFile)) {
+      throw new ConflictError("Attachment is already in use");
+    }
+    await setObjectAclPolicy(objectFile, aclPolicy);
+    const [metadata] = await objectFile.getMetadata();
+    return {
+      objectPath,
+      contentType: metadata.contentType || "application/octet-stream",
+      size: Number(metadata.size ?? 0),
+    };
+  }
+
   // Checks if the user can access the object entity.
   async canAccessObjectEntity({
     userId,
@@ -0,0 +1,496 @@
+import { jsPDF } from "jspdf";
+import { storage } from "./storage";
+import { NotFoundError } from "./errors";
+import type { Quote, Invoice, SystemConfig, QuoteAcceptance, ServiceType, FlyerPdfType } from "@shared/schema";
+
+// Server-rendered quote, invoice and flyer PDFs. Text is drawn as vector text (standard Helvetica),
+// so the output is searchable and identical wherever it is downloaded, attached or archived.
+
+const PAGE_WIDTH = 595.28; // A4 in points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BRAND_COLOR: [number, number, number] = [30, 58, 95];
+const MUTED_COLOR: [number, number, number] = [100, 116, 139];
+
+interface PdfParty {
+  name: string;
+  company?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+}
+
+interface PdfLineItem {
+  itemName: string;
+  description?: string;
+  unit?: string;
+  unitPrice: string | number;
+  quantity: number;
+  total: string | number;
+}
+
+interface PdfSection {
+  heading: string;
+  body: string;
+}
+
+interface PdfSignature {
+  signerName: string;
+  signatureImage: string;
+  details: [string, string][];
+}
+
+interface PdfDocument {
+  title: string;
+  documentNumber: string;
+  details: [string, string][];
+  billTo?: PdfParty;
+  projectName?: string | null;
+  items: PdfLineItem[];
+  totals: { label: string; value: string; emphasis?: boolean }[];
+  sections: PdfSection[];
+  signature?: PdfSignature;
+}
+
+const formatMoney = (amount: string | number | null | undefined) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(
+    typeof amount === "number" ? amount : parseFloat(amount || "0") || 0,
+  );
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+
+// Tracks the write position and starts a new page when the next block would not fit
+class PdfCursor {
+  y = MARGIN;
+
+  constructor(readonly doc: jsPDF) {}
+
+  ensureSpace(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN) {
+      this.doc.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  paragraph(text: string, options: { size?: number; bold?: boolean; color?: [number, number, number]; width?: number; x?: number } = {}) {
+    const size = options.size ?? 10;
+    const lineHeight = size * 1.35;
+    this.doc.setFont("helvetica", options.bold ? "bold" : "normal");
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(...(options.color ?? [0, 0, 0]));
+    const lines: string[] = this.doc.splitTextToSize(text, options.width ?? CONTENT_WIDTH);
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      this.doc.text(line, options.x ?? MARGIN, this.y + size);
+      this.y += lineHeight;
+    }
+  }
+
+  rule() {
+    this.ensureSpace(12);
+    this.doc.setDrawColor(226, 232, 240);
+    this.doc.line(MARGIN, this.y + 6, PAGE_WIDTH - MARGIN, this.y + 6);
+    this.y += 12;
+  }
+}
+
+function drawHeader(cursor: PdfCursor, config: SystemConfig | undefined, pdf: PdfDocument) {
+  const { doc } = cursor;
+  const companyName = config?.companyName || "FibreUS";
+
+  doc.setFillColor(...BRAND_COLOR);
+  doc.rect(0, 0, PAGE_WIDTH, 96, "F");
+  doc.setTextColor(255, 255, 255);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(20);
+  doc.text(companyName, MARGIN, 42);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  doc.text(config?.headerTagline || "Electronic Security & Tech Services", MARGIN, 58);
+
+  const contact = [config?.phoneNumber, config?.contactEmail, config?.website].filter(Boolean) as string[];
+  contact.forEach((line, index) => doc.text(line, PAGE_WIDTH - MARGIN, 36 + index * 12, { align: "right" }));
+  if (config?.address) {
+    const addressLines: string[] = doc.splitTextToSize(config.address, 200);
+    doc.text(addressLines.slice(0, 2), MARGIN, 74);
+  }
+
+  cursor.y = 120;
+  doc.setTextColor(...BRAND_COLOR);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text(pdf.title, MARGIN, cursor.y + 18);
+
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(10);
+  const details: [string, string][] = [[`${pdf.title === "INVOICE" ? "Invoice" : "Quote"} #`, pdf.documentNumber], ...pdf.details];
+  details.forEach(([label, value], index) => {
+    const y = cursor.y + 10 + index * 14;
+    doc.setFont("helvetica", "bold");
+    doc.text(`${label}:`, PAGE_WIDTH - MARGIN - 120, y, { align: "right" });
+    doc.setFont("helvetica", "normal");
+    doc.text(value, PAGE_WIDTH - MARGIN, y, { align: "right" });
+  });
+  cursor.y += Math.max(32, 14 + details.length * 14);
+}
+
+function drawBillTo(cursor: PdfCursor, pdf: PdfDocument) {
+  if (pdf.billTo) {
+    const { name, company, email, phone, address } = pdf.billTo;
+    cursor.paragraph("Bill To:", { bold: true, size: 10 });
+    cursor.paragraph(company ? `${name} | ${company}` : name, { size: 10 });
+    const contact = [email, phone].filter(Boolean).join(" | ");
+    if (contact) cursor.paragraph(contact, { size: 9 });
+    if (address) cursor.paragraph(address, { size: 9, color: MUTED_COLOR });
+  }
+  if (pdf.projectName) {
+    cursor.y += 4;
+    cursor.paragraph(`Project: ${pdf.projectName}`, { size: 10, bold: true });
+  }
+  cursor.rule();
+}
+
+function drawItems(cursor: PdfCursor, items: PdfLineItem[]) {
+  const { doc } = cursor;
+  const columns = { item: MARGIN + 6, qty: MARGIN + 330, price: MARGIN + 410, total: PAGE_WIDTH - MARGIN - 6 };
+
+  const drawHeaderRow = () => {
+    cursor.ensureSpace(24);
+    doc.setFillColor(241, 245, 249);
+    doc.rect(MARGIN, cursor.y, CONTENT_WIDTH, 20, "F");
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(9);
+    doc.setTextColor(0, 0, 0);
+    doc.text("Item", columns.item, cursor.y + 13);
+    doc.text("Qty", columns.qty, cursor.y + 13, { align: "right" });
+    doc.text("Unit Price", columns.price, cursor.y + 13, { align: "right" });
+    doc.text("Total", columns.total, cursor.y + 13, { align: "right" });
+    cursor.y += 24;
+  };
+
+  drawHeaderRow();
+  for (const item of items) {
+    doc.setFontSize(9);
+    const nameLines: string[] = doc.splitTextToSize(item.itemName || "Item", 300);
+    const descriptionLines: string[] = item.description ? doc.splitTextToSize(item.description, 300) : [];
+    const rowHeight = (nameLines.length + descriptionLines.length) * 12 + 8;
+
+    if (cursor.y + rowHeight > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      cursor.y = MARGIN;
+      drawHeaderRow();
+    }
+
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(0, 0, 0);
+    doc.text(nameLines, columns.item, cursor.y + 9);
+    doc.setFont("helvetica", "normal");
+    if (descriptionLines.length > 0) {
+      doc.setTextColor(...MUTED_COLOR);
+      doc.text(descriptionLines, columns.item, cursor.y + 9 + nameLines.length * 12);
+      doc.setTextColor(0, 0, 0);
+    }
+    doc.text(`${item.quantity}${item.unit ? ` ${item.unit}` : ""}`, columns.qty, cursor.y + 9, { align: "right" });
+    doc.text(formatMoney(item.unitPrice), columns.price, cursor.y + 9, { align: "right" });
+    doc.text(formatMoney(item.total), columns.total, cursor.y + 9, { align: "right" });
+
+    cursor.y += rowHeight;
+    doc.setDrawColor(226, 232, 240);
+    doc.line(MARGIN, cursor.y - 3, PAGE_WIDTH - MARGIN, cursor.y - 3);
+  }
+  cursor.y += 6;
+}
+
+function drawTotals(cursor: PdfCursor, totals: PdfDocument["totals"]) {
+  const { doc } = cursor;
+  cursor.ensureSpace(totals.length * 16 + 8);
+  for (const { label, value, emphasis } of totals) {
+    doc.setFont("helvetica", emphasis ? "bold" : "normal");
+    doc.setFontSize(emphasis ? 12 : 10);
+    doc.setTextColor(...(emphasis ? BRAND_COLOR : [0, 0, 0] as [number, number, number]));
+    doc.text(label, PAGE_WIDTH - MARGIN - 120, cursor.y + 10, { align: "right" });
+    doc.text(value, PAGE_WIDTH - MARGIN - 6, cursor.y + 10, { align: "right" });
+    cursor.y += emphasis ? 18 : 15;
+  }
+  cursor.y += 8;
+}
+
+function drawSignature(cursor: PdfCursor, signature: PdfSignature) {
+  const { doc } = cursor;
+  cursor.rule();
+  cursor.ensureSpace(150);
+  cursor.paragraph("CLIENT ACCEPTANCE", { bold: true, size: 10 });
+  cursor.y += 4;
+
+  try {
+    const image = doc.getImageProperties(signature.signatureImage);
+    const scale = Math.min(200 / image.width, 70 / image.height, 1);
+    doc.addImage(signature.signatureImage, "PNG", MARGIN, cursor.y, image.width * scale, image.height * scale);
+    cursor.y += image.height * scale + 4;
+  } catch (error) {
+    // An unreadable image should not block the document; the typed name and audit details still print
+    console.error("Failed to embed quote signature:", error);
+  }
+
+  doc.setDrawColor(148, 163, 184);
+  doc.line(MARGIN, cursor.y, MARGIN + 220, cursor.y);
+  cursor.y += 4;
+  cursor.paragraph(signature.signerName, { bold: true, size: 10 });
+  for (const [label, value] of signature.details) {
+    cursor.paragraph(`${label}: ${value}`, { size: 8.5, color: MUTED_COLOR });
+  }
+}
+
+function drawFooter(doc: jsPDF, config: SystemConfig | undefined) {
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED_COLOR);
+    if (config?.footerTagline) {
+      doc.text(config.footerTagline, MARGIN, PAGE_HEIGHT - 24);
+    }
+    doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 24, { align: "right" });
+  }
+}
+
+function renderDocument(pdf: PdfDocument, config: SystemConfig | undefined): Buffer {
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  doc.setProperties({ title: `${pdf.title} ${pdf.documentNumber}`, creator: config?.companyName || "FibreUS" });
+
+  const cursor = new PdfCursor(doc);
+  drawHeader(cursor, config, pdf);
+  drawBillTo(cursor, pdf);
+  drawItems(cursor, pdf.items);
+  drawTotals(cursor, pdf.totals);
+
+  for (const section of pdf.sections) {
+    cursor.rule();
+    cursor.paragraph(section.heading, { bold: true, size: 10 });
+    cursor.y += 2;
+    cursor.paragraph(section.body, { size: 8.5, color: [51, 65, 85] });
+  }
+
+  if (pdf.signature) {
+    drawSignature(cursor, pdf.signature);
+  }
+
+  drawFooter(doc, config);
+  return Buffer.from(doc.output("arraybuffer"));
+}
+
+async function loadParty(clientId: string | null, leadId: string | null): Promise<PdfParty | undefined> {
+  const party = clientId ? await storage.getClient(clientId) : leadId ? await storage.getLead(leadId) : undefined;
+  return party ? { name: party.name, company: party.company, email: party.email, phone: party.phone, address: party.address } : undefined;
+}
+
+const getItems = (items: unknown): PdfLineItem[] => (Array.isArray(items) ? (items as PdfLineItem[]) : []);
+
+export interface QuotePdfOptions {
+  // Shown next to the quote number, e.g. "B" for the second revision
+  revisionLabel?: string;
+}
+
+function toPdfSignature(acceptance: QuoteAcceptance & { revisionLabel: string }): PdfSignature {
+  const details: [string, string][] = [
+    ["Signed", new Date(acceptance.acceptedAt).toLocaleString("en-US", { dateStyle: "long", timeStyle: "short", timeZone: "UTC" }) + " UTC"],
+    ["Revision", acceptance.revisionLabel],
+    ["Terms version", acceptance.termsVersion],
+  ];
+  if (acceptance.ipAddress) details.push(["IP address", acceptance.ipAddress]);
+  return { signerName: acceptance.signerName, signatureImage: acceptance.signatureImage, details };
+}
+
+export async function renderQuotePdf(quote: Quote, options: QuotePdfOptions = {}): Promise<Buffer> {
+  const [config, legalDocs, billTo, project, acceptance] = await Promise.all([
+    storage.getSystemConfig(),
+    storage.getLegalDocuments(),
+    loadParty(quote.clientId, quote.leadId),
+    quote.projectId ? storage.getProject(quote.projectId) : Promise.resolve(undefined),
+    quote.status === 'accepted' ? storage.getQuoteAcceptance(quote.id) : Promise.resolve(undefined),
+  ]);
+  // Signed quotes print the agreement and terms exactly as the client accepted them
+  const serviceAgreement = acceptance ? acceptance.serviceAgreement : legalDocs?.serviceAgreement;
+  const termsAndConditions = acceptance ? acceptance.termsAndConditions : legalDocs?.termsAndConditions;
+
+  const details: [string, string][] = [["Date", formatDate(quote.createdAt ?? new Date())]];
+  if (quote.validUntil) details.push(["Valid Until", formatDate(quote.validUntil)]);
+
+  const sections: PdfSection[] = [];
+  if (quote.notes) sections.push({ heading: "NOTES", body: quote.notes });
+  if (quote.termsAndConditions) sections.push({ heading: "QUOTE TERMS", body: quote.termsAndConditions });
+  if (legalDocs?.termsOfService) sections.push({ heading: "TERMS OF SERVICE", body: legalDocs.termsOfService });
+  if (serviceAgreement) sections.push({ heading: "SERVICE AGREEMENT", body: serviceAgreement });
+  if (termsAndConditions) sections.push({ heading: "TERMS AND CONDITIONS", body: termsAndConditions });
+
+  return renderDocument({
+    title: "QUOTE",
+    documentNumber: options.revisionLabel ? `${quote.quoteNumber} Rev ${options.revisionLabel}` : quote.quoteNumber,
+    details,
+    billTo,
+    projectName: project?.projectName,
+    items: getItems(quote.items),
+    totals: [
+      { label: "Subtotal:", value: formatMoney(quote.subtotal) },
+      { label: `Tax (${parseFloat(quote.taxRate || "0").toFixed(1)}%):`, value: formatMoney(quote.taxAmount) },
+      { label: "Total:", value: formatMoney(quote.total), emphasis: true },
+    ],
+    sections,
+    signature: acceptance ? toPdfSignature(acceptance) : undefined,
+  }, config);
+}
+
+export async function renderInvoicePdf(invoice: Invoice): Promise<Buffer> {
+  const [config, legalDocs, billTo] = await Promise.all([
+    storage.getSystemConfig(),
+    storage.getLegalDocuments(),
+    loadParty(invoice.clientId, invoice.leadId),
+  ]);
+
+  const details: [string, string][] = [["Date", formatDate(invoice.createdAt ?? new Date())]];
+  if (invoice.dueDate) details.push(["Due Date", formatDate(invoice.dueDate)]);
+
+  const sections: PdfSection[] = [];
+  if (invoice.notes) sections.push({ heading: "NOTES", body: invoice.notes });
+  if (invoice.termsAndConditions) sections.push({ heading: "INVOICE TERMS", body: invoice.termsAndConditions });
+  if (legalDocs?.termsAndConditions) sections.push({ heading: "TERMS AND CONDITIONS", body: legalDocs.termsAndConditions });
+
+  return renderDocument({
+    title: "INVOICE",
+    documentNumber: invoice.invoiceNumber,
+    details,
+    billTo,
+    items: getItems(invoice.items),
+    totals: [
+      { label: "Subtotal:", value: formatMoney(invoice.subtotal) },
+      { label: `Tax (${parseFloat(invoice.taxRate || "0").toFixed(1)}%):`, value: formatMoney(invoice.taxAmount) },
+      { label: "Total:", value: formatMoney(invoice.total), emphasis: true },
+      { label: "Amount Paid:", value: formatMoney(invoice.amountPaid) },
+      { label: "Balance Due:", value: formatMoney(invoice.balanceDue), emphasis: true },
+    ],
+    sections,
+  }, config);
+}
+
+const FLYER_HIGHLIGHTS: [string, string][] = [
+  ["Certified Professionals", "Licensed & insured technicians"],
+  ["24/7 Support", "Round-the-clock assistance"],
+  ["Latest Technology", "Cutting-edge equipment"],
+  ["Custom Solutions", "Tailored to your needs"],
+];
+
+// Service proposal flyer; the same content as the builder's preview, laid out as text
+export async function renderFlyerPdf(flyer: FlyerPdfType): Promise<Buffer> {
+  const [config, recipient, serviceTypes, salesPerson] = await Promise.all([
+    storage.getSystemConfig(),
+    flyer.clientId ? storage.getClient(flyer.clientId) : storage.getLead(flyer.leadId!),
+    storage.getServiceTypes(),
+    flyer.salesPersonId ? storage.getUser(flyer.salesPersonId) : Promise.resolve(undefined),
+  ]);
+  if (!recipient) {
+    throw new NotFoundError(flyer.clientId ? "Client not found" : "Lead not found");
+  }
+  const services = flyer.services
+    .map(name => serviceTypes.find(serviceType => serviceType.name === name))
+    .filter((serviceType): serviceType is ServiceType => !!serviceType);
+
+  const companyName = config?.companyName || "FibreUS";
+  const recipientName = recipient.name || recipient.company || "Valued Customer";
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  doc.setProperties({ title: `${companyName} Flyer - ${recipientName}`, creator: companyName });
+  const cursor = new PdfCursor(doc);
+
+  doc.setFillColor(...BRAND_COLOR);
+  doc.rect(0, 0, PAGE_WIDTH, 96, "F");
+  doc.setTextColor(255, 255, 255);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(22);
+  doc.text(companyName, MARGIN, 44);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text(config?.headerTagline || "Electronic Security & Fiber Optic Services", MARGIN, 62);
+  doc.setFontSize(9);
+  doc.text("Professional Solutions For", PAGE_WIDTH - MARGIN, 36, { align: "right" });
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  doc.text(recipient.company || recipient.name, PAGE_WIDTH - MARGIN, 52, { align: "right" });
+  if (recipient.address) {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    const addressLines: string[] = doc.splitTextToSize(recipient.address, 200);
+    doc.text(addressLines.slice(0, 2), PAGE_WIDTH - MARGIN, 66, { align: "right" });
+  }
+  cursor.y = 120;
+
+  if (flyer.personalizedMessage) {
+    cursor.paragraph(flyer.personalizedMessage, { size: 11 });
+  } else {
+    cursor.paragraph(`Dear ${recipientName},`, { bold: true, size: 14, color: BRAND_COLOR });
+    cursor.paragraph(
+      "Thank you for your interest in our security solutions. We're excited to present our professional services " +
+      "tailored to meet your specific needs. Our team of certified technicians is ready to enhance your security infrastructure.",
+      { size: 10 },
+    );
+  }
+  cursor.rule();
+
+  cursor.paragraph("Recommended Services for Your Business", { bold: true, size: 14, color: BRAND_COLOR });
+  cursor.y += 4;
+  for (const service of services) {
+    const price = parseFloat(service.minServiceFee || "0");
+    const discount = parseFloat(service.discountPercent || "0");
+    const pricing = flyer.showPricing && price > 0
+      ? discount > 0
+        ? [`Was ${formatMoney(price)}`, formatMoney(price - price * discount / 100), `${discount}% OFF`, "Starting at"]
+        : [formatMoney(price), "Starting at"]
+      : [];
+
+    cursor.ensureSpace(Math.max(40, pricing.length * 12));
+    const top = cursor.y;
+    pricing.forEach((line, index) => {
+      const isPrice = index === (discount > 0 ? 1 : 0);
+      doc.setFont("helvetica", isPrice ? "bold" : "normal");
+      doc.setFontSize(isPrice ? 12 : 8);
+      doc.setTextColor(...(isPrice ? BRAND_COLOR : MUTED_COLOR));
+      doc.text(line, PAGE_WIDTH - MARGIN, top + 11 + index * 12, { align: "right" });
+    });
+    cursor.paragraph(service.displayName, { bold: true, size: 11, color: BRAND_COLOR, width: CONTENT_WIDTH - 120 });
+    if (service.description) {
+      cursor.paragraph(service.description, { size: 9, color: [51, 65, 85], width: CONTENT_WIDTH - 120 });
+    }
+    cursor.y = Math.max(cursor.y, top + pricing.length * 12) + 8;
+  }
+  cursor.rule();
+
+  cursor.paragraph(`Why Partner With ${companyName}?`, { bold: true, size: 12, color: BRAND_COLOR });
+  for (const [heading, detail] of FLYER_HIGHLIGHTS) {
+    cursor.paragraph(`${heading} - ${detail}`, { size: 9.5 });
+  }
+  cursor.rule();
+
+  cursor.paragraph("Let's Get Started", { bold: true, size: 12, color: BRAND_COLOR });
+  cursor.y += 2;
+  cursor.paragraph("Company Contact", { bold: true, size: 9.5 });
+  cursor.paragraph(`Email: ${config?.contactEmail || "info@fibreus.com"}`, { size: 9 });
+  cursor.paragraph(`Phone: ${config?.phoneNumber || "1-800-FIBREUS"}`, { size: 9 });
+  cursor.paragraph(`Web: ${config?.website || "www.fibreus.com"}`, { size: 9 });
+  if (salesPerson) {
+    cursor.y += 6;
+    cursor.paragraph("Your Dedicated Sales Contact", { bold: true, size: 9.5 });
+    cursor.paragraph([salesPerson.firstName, salesPerson.lastName].filter(Boolean).join(" "), { size: 9 });
+    if (salesPerson.email) cursor.paragraph(salesPerson.email, { size: 9 });
+    if (salesPerson.phone) cursor.paragraph(salesPerson.phone, { size: 9 });
+  }
+  cursor.y += 6;
+  cursor.paragraph("Prepared for:", { bold: true, size: 9.5 });
+  cursor.paragraph(recipientName, { size: 9 });
+  if (recipient.company && recipient.name !== recipient.company) cursor.paragraph(recipient.company, { size: 9 });
+  if (recipient.email) cursor.paragraph(recipient.email, { size: 9, color: MUTED_COLOR });
+  if (recipient.phone) cursor.paragraph(recipient.phone, { size: 9, color: MUTED_COLOR });
+
+  drawFooter(doc, config);
+  return Buffer.from(doc.output("arraybuffer"));
+}
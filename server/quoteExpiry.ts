@@ -0,0 +1,25 @@
+import { storage } from "./storage";
+import type { ScheduledJob } from "./scheduler";
+
+// Moves sent quotes whose validity date has passed to 'expired'
+export async function expireStaleQuotes(now: Date = new Date()): Promise<number> {
+  const expired = await storage.expireStaleQuotes(now);
+  for (const quote of expired) {
+    await storage.logActivity({
+      action: 'expired',
+      entityType: 'quote',
+      entityId: quote.id,
+      entityName: quote.quoteNumber,
+      details: `Quote expired after its validity date of ${new Date(quote.validUntil!).toLocaleDateString("en-US")}`,
+    });
+  }
+  return expired.length;
+}
+
+export const quoteExpiryJob: ScheduledJob = {
+  name: "quote-expiry",
+  intervalMs: 60 * 60 * 1000,
+  run: async (now) => {
+    await expireStaleQuotes(now);
+  },
+};
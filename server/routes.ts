@@ -1,9 +1,17 @@
 // Session-based authentication routes
-import type { Express } from "express";
+import express, { type Express } from "express";
+import { timingSafeEqual } from "crypto";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { trackVisitor } from "./visitorMiddleware";
-import { hashPassword, verifyPassword, generateResetToken } from "./passwordUtils";
+import { hashPassword, verifyPassword, generateResetToken, hashResetToken, verifyResetToken } from "./passwordUtils";
+import { sendMail, getAppBaseUrl } from "./mailer";
+import { renderQuotePdf, renderInvoicePdf, renderFlyerPdf } from "./pdf";
+import { appointmentCalendar, buildCalendar, scheduleEvents } from "./ics";
+import { businessHoursFromConfig } from "./timeClassification";
+import { processInboundEmail } from "./inboundMail";
+import { claimAttachmentUploads, findAttachment, shareAttachmentsWithProject } from "./attachments";
+import { DispatchConflictError, RequestError } from "./errors";
 import { hasPermission } from "@shared/permissions";
 import { getSession } from "./replitAuth";
 import { db } from "./db";
@@ -19,6 +27,23 @@ import {
   changePasswordSchema,
   insertInventoryItemSchema,
   insertInventoryTransactionSchema,
+  reconcileInventorySchema,
+  inventoryTransactionSerialsSchema,
+  insertStockLocationSchema,
+  updateStockLocationSchema,
+  inventoryTransferSchema,
+  insertPurchaseOrderSchema,
+  updatePurchaseOrderSchema,
+  receivePurchaseOrderSchema,
+  reorderSuggestionsQuerySchema,
+  registerSerialsSchema,
+  allocateSerialsSchema,
+  installSerialSchema,
+  serialSearchQuerySchema,
+  insertProjectMaterialSchema,
+  updateProjectMaterialSchema,
+  consumeProjectMaterialSchema,
+  projectProfitabilityQuerySchema,
   insertProjectSchema,
   insertProjectCommentSchema,
   insertTicketSchema,
@@ -28,6 +53,24 @@ import {
   insertReportSchema,
   updateReportSchema,
   approveReportSchema,
+  clockInSchema,
+  clockOutSchema,
+  insertTimeEntrySchema,
+  updateTimeEntrySchema,
+  reviewTimeEntrySchema,
+  timeEntriesQuerySchema,
+  invoiceTimeEntriesSchema,
+  insertDispatchAssignmentSchema,
+  updateDispatchAssignmentSchema,
+  dispatchBoardQuerySchema,
+  insertAppointmentTypeSchema,
+  updateAppointmentTypeSchema,
+  appointmentAvailabilityQuerySchema,
+  bookAppointmentSchema,
+  bookSiteVisitSchema,
+  rescheduleAppointmentSchema,
+  cancelAppointmentSchema,
+  type Appointment,
   insertSalesRecordSchema,
   updateSalesRecordSchema,
   insertInquirySchema,
@@ -44,6 +87,7 @@ import {
   updateSystemConfigSchema,
   insertServiceTypeSchema,
   updateServiceTypeSchema,
+  flyerPdfSchema,
   insertCompanyCertificationSchema,
   updateCompanyCertificationSchema,
   insertTeamMemberSchema,
@@ -63,6 +107,23 @@ import {
   updateServiceRateSchema,
   insertSupportPlanSchema,
   updateSupportPlanSchema,
+  insertSupportSubscriptionSchema,
+  updateSupportSubscriptionSchema,
+  cancelSupportSubscriptionSchema,
+  supportSubscriptionQuerySchema,
+  insertMaintenanceVisitTypeSchema,
+  updateMaintenanceVisitTypeSchema,
+  insertMaintenanceAgreementSchema,
+  updateMaintenanceAgreementSchema,
+  maintenanceAgreementQuerySchema,
+  recordMaintenanceVisitSchema,
+  insertSlaPolicySchema,
+  updateSlaPolicySchema,
+  slaComplianceQuerySchema,
+  inboundEmailQuerySchema,
+  convertInboundEmailSchema,
+  attachmentUploadsSchema,
+  type FileAttachment,
   insertReferralProgramSchema,
   updateReferralProgramSchema,
   insertReferralCodeSchema,
@@ -74,6 +135,19 @@ import {
   updateExpenseSchema,
   insertRevenueSchema,
   updateRevenueSchema,
+  insertInvoicePaymentSchema,
+  voidInvoicePaymentSchema,
+  convertQuoteToInvoiceSchema,
+  invoiceRemindersPauseSchema,
+  createShareLinkSchema,
+  quoteAcceptanceSchema,
+  type QuoteInvoiceInstallment,
+  type ShareLink,
+  type ShareLinkEntityType,
+  type Quote,
+  type QuoteRevision,
+  type User,
+  type Project,
   type ServiceRequest, 
   type Communication 
 } from "@shared/schema";
@@ -133,6 +207,115 @@ async function logActivity(
   }
 }
 
+// Share links last 30 days unless a different lifetime is chosen when sharing
+const DEFAULT_SHARE_LINK_DAYS = 30;
+
+function buildShareUrl(entityType: ShareLinkEntityType, documentNumber: string, token: string): string {
+  const domain = process.env.REPLIT_DOMAINS ? process.env.REPLIT_DOMAINS.split(',')[0] : 'localhost:5000';
+  const protocol = process.env.REPLIT_DOMAINS ? 'https' : 'http';
+  return `${protocol}://${domain}/${entityType}/${documentNumber}/${token}`;
+}
+
+// Creates a new public link for a document from a share request body ({ label?, expiresInDays? })
+async function createDocumentShareLink(entityType: ShareLinkEntityType, entityId: string, userId: string, body: unknown): Promise<ShareLink> {
+  const { label, expiresInDays } = createShareLinkSchema.parse(body ?? {});
+  const crypto = await import('crypto');
+  const lifetimeDays = expiresInDays === undefined ? DEFAULT_SHARE_LINK_DAYS : expiresInDays;
+
+  return storage.createShareLink({
+    entityType,
+    entityId,
+    token: crypto.randomUUID(),
+    label: label || null,
+    expiresAt: lifetimeDays === null ? null : new Date(Date.now() + lifetimeDays * 24 * 60 * 60 * 1000),
+    createdById: userId,
+  });
+}
+
+// Loads a shared document's number and whether the user may manage its links (same rules as the share endpoints)
+async function getShareableDocument(user: User, entityType: ShareLinkEntityType, entityId: string): Promise<{ documentNumber: string; canManage: boolean } | undefined> {
+  const isManager = hasPermission(user.role, 'manageSettings');
+  switch (entityType) {
+    case 'quote': {
+      const quote = await storage.getQuote(entityId);
+      return quote && { documentNumber: quote.quoteNumber, canManage: isManager || quote.createdById === user.id };
+    }
+    case 'invoice': {
+      const invoice = await storage.getInvoice(entityId);
+      return invoice && { documentNumber: invoice.invoiceNumber, canManage: isManager || invoice.createdById === user.id };
+    }
+    case 'project': {
+      const project = await storage.getProject(entityId);
+      return project && { documentNumber: project.ticketNumber, canManage: isManager || project.assignedTechnicianId === user.id };
+    }
+    case 'ticket': {
+      const ticket = await storage.getTicket(entityId);
+      return ticket && { documentNumber: ticket.ticketNumber, canManage: isManager };
+    }
+  }
+}
+
+function shareLinkErrorMessage(documentLabel: string, status: 'expired' | 'revoked' | 'not_found'): string {
+  if (status === 'expired') return `${documentLabel} link has expired`;
+  if (status === 'revoked') return `${documentLabel} link has been revoked`;
+  return `${documentLabel} not found`;
+}
+
+// Adds an entry to a share link's access log; never blocks the public page
+async function recordShareLinkView(shareLinkId: string, req: any) {
+  try {
+    await storage.recordShareLinkView({
+      shareLinkId,
+      ipAddress: req.ip || req.connection?.remoteAddress,
+      userAgent: req.get('user-agent'),
+    });
+  } catch (error) {
+    console.error("Failed to record share link view:", error);
+  }
+}
+
+// Password reset links are valid for one hour
+const PASSWORD_RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+// Reset tokens are sent as "<recordId>.<secret>"; only the hash of the secret is stored
+async function findValidPasswordResetToken(rawToken: string) {
+  const [tokenId, secret] = rawToken.split('.');
+  if (!tokenId || !secret) {
+    return undefined;
+  }
+
+  const record = await storage.getPasswordResetToken(tokenId);
+  if (!record || record.usedAt || record.expiresAt.getTime() < Date.now()) {
+    return undefined;
+  }
+
+  const isValid = await verifyResetToken(record.tokenHash, secret);
+  return isValid ? record : undefined;
+}
+
+// Clients see the issued revision of a quote rather than any unsent edits
+function withPublishedRevision(quote: Quote, revision: QuoteRevision | undefined): Quote {
+  return revision
+    ? {
+        ...quote,
+        items: revision.items,
+        subtotal: revision.subtotal,
+        taxRate: revision.taxRate,
+        taxAmount: revision.taxAmount,
+        total: revision.total,
+        validUntil: revision.validUntil,
+        termsAndConditions: revision.termsAndConditions,
+      }
+    : quote;
+}
+
+function sendPdf(res: any, filename: string, pdf: Buffer) {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+  res.setHeader('Content-Length', pdf.length);
+  res.send(pdf);
+}
+
 // Helper to get client/lead IDs for a logged-in user
 async function getUserClientLeadIds(userId: string): Promise<{ clientIds: string[], leadIds: string[] }> {
   try {
@@ -154,6 +337,119 @@ async function getUserClientLeadIds(userId: string): Promise<{ clientIds: string
   }
 }
 
+// The mail provider authenticates with the shared secret, as an X-Inbound-Mail-Secret header or a basic-auth password
+function hasInboundMailSecret(req: any, secret: string): boolean {
+  let presented: string | undefined = req.get('x-inbound-mail-secret');
+  const authorization: string | undefined = req.get('authorization');
+  if (!presented && authorization?.startsWith('Basic ')) {
+    const credentials = Buffer.from(authorization.slice(6), 'base64').toString('utf8');
+    presented = credentials.slice(credentials.indexOf(':') + 1);
+  }
+  if (!presented) {
+    return false;
+  }
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(presented);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Checked before the body is read, so a post without the secret can't make the server buffer a 25 MB message
+function requireInboundMailSecret(req: any, res: any, next: any) {
+  const secret = process.env.INBOUND_MAIL_SECRET;
+  if (!secret) {
+    return res.status(503).json({ message: "Inbound email is not configured" });
+  }
+  if (!hasInboundMailSecret(req, secret)) {
+    return res.status(401).json({ message: "Invalid inbound mail secret" });
+  }
+  next();
+}
+
+// Providers either post the message itself or a form with it in a field (`email`, or Mailgun's `body-mime`)
+function inboundMessageFromBody(req: any): Buffer | undefined {
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return undefined;
+  }
+  if (!req.is('application/x-www-form-urlencoded')) {
+    return req.body;
+  }
+  const form = new URLSearchParams(req.body.toString('utf8'));
+  const message = form.get('email') ?? form.get('body-mime');
+  return message ? Buffer.from(message, 'utf8') : undefined;
+}
+
+// Streams a file listed on a shared ticket or project; share-page visitors have no session to check object ACLs against
+async function sendSharedAttachment(res: any, attachmentLists: unknown[], objectId: string) {
+  const attachment = findAttachment(attachmentLists, `/objects/uploads/${objectId}`);
+  if (!attachment) {
+    return res.status(404).json({ message: 'File not found' });
+  }
+  const { ObjectStorageService, ObjectNotFoundError } = await import("./objectStorage");
+  const objectStorageService = new ObjectStorageService();
+  let objectFile;
+  try {
+    objectFile = await objectStorageService.getObjectEntityFile(attachment.objectPath);
+  } catch (error) {
+    if (error instanceof ObjectNotFoundError) {
+      return res.status(404).json({ message: 'File not found' });
+    }
+    throw error;
+  }
+  res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`);
+  objectStorageService.downloadObject(objectFile, res);
+}
+
+// Materials can be planned and booked by project managers, or by the technician assigned to the project
+function canManageProjectMaterials(user: User, project: Project): boolean {
+  if (hasPermission(user.role, 'manageAllProjects')) return true;
+  return hasPermission(user.role, 'manageOwnProjects') && project.assignedTechnicianId === user.id;
+}
+
+// Staff who can only see their own projects see the ones assigned to them, as in the project list
+function canViewAssignedProject(user: User, project: Project): boolean {
+  if (hasPermission(user.role, 'viewAllProjects')) return true;
+  return hasPermission(user.role, 'viewOwnProjects') && project.assignedTechnicianId === user.id;
+}
+
+// What a customer sees of their booking on the public pages: no technician or lead record IDs
+function publicAppointment<T extends Appointment>({ technicianId: _technicianId, leadId: _leadId, ...appointment }: T) {
+  return appointment;
+}
+
+// Booking confirmations carry the link the customer uses to reschedule or cancel
+async function sendAppointmentEmail(appointment: Appointment, typeName: string, heading: string) {
+  const systemConfig = await storage.getSystemConfig();
+  const companyName = systemConfig?.companyName || 'FibreUS';
+  const calendar = appointmentCalendar({ ...appointment, appointmentTypeName: typeName }, companyName, businessHoursFromConfig(systemConfig));
+  const when = new Date(appointment.startsAt).toLocaleString('en-US', {
+    timeZone: systemConfig?.businessTimeZone || undefined,
+    dateStyle: 'full',
+    timeStyle: 'short',
+  });
+  try {
+    await sendMail({
+      to: appointment.email,
+      subject: `${heading}: ${typeName} with ${companyName}`,
+      text: [
+        `Hi ${appointment.name},`,
+        '',
+        `Your ${typeName.toLowerCase()} is booked for ${when}.`,
+        ...(appointment.address ? [`Location: ${appointment.address}`] : []),
+        '',
+        'Need to change it? Reschedule or cancel here:',
+        `${getAppBaseUrl()}/appointments/${appointment.manageToken}`,
+      ].join('\n'),
+      attachments: [{ filename: 'appointment.ics', contentType: 'text/calendar; charset=utf-8; method=PUBLISH', content: calendar }],
+    });
+  } catch (mailError) {
+    console.error("Failed to email appointment confirmation:", mailError);
+  }
+}
+
+export const INBOUND_EMAIL_PATH = "/api/inbound-email";
+// Quote approvals carry the drawn signature image (up to 500k characters), more than the default 100kb JSON limit
+export const QUOTE_APPROVAL_PATH = /^\/api\/public\/quote\/[^/]+\/[^/]+\/approve\/?$/;
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Session middleware must be configured before any routes that use sessions
   app.use(getSession());
@@ -510,6 +806,132 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     }
   });
 
+  // Password reset: request a reset link (always responds the same way to avoid account enumeration)
+  app.post('/api/auth/forgot-password', async (req: any, res) => {
+    try {
+      const { email } = resetPasswordRequestSchema.parse(req.body);
+      
+      const user = await storage.getUserByEmail(email);
+      if (user && user.isActive && user.passwordHash) {
+        // Only the most recent link should work
+        await storage.invalidatePasswordResetTokens(user.id);
+        
+        const secret = generateResetToken();
+        const record = await storage.createPasswordResetToken({
+          userId: user.id,
+          tokenHash: await hashResetToken(secret),
+          expiresAt: new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MS),
+          requestedIp: req.ip,
+        });
+        
+        const resetUrl = `${getAppBaseUrl()}/reset-password?token=${encodeURIComponent(`${record.id}.${secret}`)}`;
+        const systemConfig = await storage.getSystemConfig();
+        const companyName = systemConfig?.companyName || 'FibreUS';
+        
+        try {
+          await sendMail({
+            to: user.email!,
+            subject: `Reset your ${companyName} password`,
+            text: [
+              `Hi ${user.firstName || 'there'},`,
+              '',
+              `We received a request to reset the password for your ${companyName} account.`,
+              'Use the link below to choose a new password. The link expires in 60 minutes and can only be used once.',
+              '',
+              resetUrl,
+              '',
+              'If you did not request a password reset, you can ignore this message.',
+            ].join('\n'),
+          });
+        } catch (mailError) {
+          console.error("Failed to send password reset email:", mailError);
+        }
+        
+        await logActivity(
+          user.id,
+          'password_reset_requested',
+          'user',
+          user.id,
+          `${user.firstName} ${user.lastName}`,
+          'Password reset link requested',
+          req
+        );
+      }
+      
+      res.json({ message: "If an account exists for that email, a password reset link has been sent." });
+    } catch (error) {
+      console.error("Forgot password error:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid email address", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to process password reset request" });
+      }
+    }
+  });
+
+  // Password reset: check whether a link is still usable before showing the form
+  app.get('/api/auth/reset-password/:token', async (req: any, res) => {
+    try {
+      const record = await findValidPasswordResetToken(req.params.token);
+      if (!record) {
+        return res.status(400).json({ valid: false, message: "This password reset link is invalid or has expired" });
+      }
+      
+      res.json({ valid: true, expiresAt: record.expiresAt });
+    } catch (error) {
+      console.error("Reset token check error:", error);
+      res.status(500).json({ message: "Failed to verify reset link" });
+    }
+  });
+
+  // Password reset: set the new password and sign the user out everywhere
+  app.post('/api/auth/reset-password', async (req: any, res) => {
+    try {
+      const validatedData = resetPasswordSchema.parse(req.body);
+      
+      const record = await findValidPasswordResetToken(validatedData.token);
+      if (!record) {
+        return res.status(400).json({ message: "This password reset link is invalid or has expired" });
+      }
+      
+      const user = await storage.getUser(record.userId);
+      if (!user || !user.isActive) {
+        return res.status(400).json({ message: "This password reset link is invalid or has expired" });
+      }
+      
+      // Burn the token before changing anything so it cannot be replayed
+      if (!(await storage.markPasswordResetTokenUsed(record.id))) {
+        return res.status(400).json({ message: "This password reset link is invalid or has expired" });
+      }
+      await storage.invalidatePasswordResetTokens(user.id);
+      
+      const newPasswordHash = await hashPassword(validatedData.password);
+      await storage.setPassword(user.id, newPasswordHash);
+      
+      // Any existing session may belong to whoever knew the old password
+      await storage.deleteUserSessions(user.id);
+      
+      await logActivity(
+        user.id,
+        'password_reset',
+        'user',
+        user.id,
+        `${user.firstName} ${user.lastName}`,
+        'Password reset via emailed link; all sessions signed out',
+        req
+      );
+      
+      res.json({ message: "Password has been reset. Please sign in with your new password." });
+    } catch (error) {
+      console.error("Reset password error:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid password data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to reset password" });
+      }
+    }
+  });
+
   // Service request routes
   app.post("/api/service-requests", 
     isSessionAuthenticated,
@@ -996,14 +1418,14 @@ Sitemap: https://${req.get('host')}/sitemap.xml
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        // Generate crypto-random UUID for shareToken
-        const crypto = await import('crypto');
-        const shareToken = crypto.randomUUID();
+        // Each share creates a separate link (e.g. one per recipient) with its own expiry
+        const shareLink = await createDocumentShareLink('project', project.id, userId, req.body);
+        const shareToken = shareLink.token;
         
-        // Update project with shareToken and shareTokenCreatedAt
+        // Keep the newest token on the project for printed QR codes and older clients
         const updatedProject = await storage.updateProject(req.params.id, {
           shareToken,
-          shareTokenCreatedAt: new Date(),
+          shareTokenCreatedAt: shareLink.createdAt,
         });
         
         if (!updatedProject) {
@@ -1020,18 +1442,19 @@ Sitemap: https://${req.get('host')}/sitemap.xml
           req
         );
         
-        // Build shareable URL using ticketNumber
-        const domain = process.env.REPLIT_DOMAINS ? process.env.REPLIT_DOMAINS.split(',')[0] : 'localhost:5000';
-        const protocol = process.env.REPLIT_DOMAINS ? 'https' : 'http';
-        const shareUrl = `${protocol}://${domain}/project/${updatedProject.ticketNumber}/${shareToken}`;
+        const shareUrl = buildShareUrl('project', updatedProject.ticketNumber, shareToken);
         
         res.json({
           token: shareToken,
           projectNumber: updatedProject.ticketNumber,
           shareUrl,
           shareTokenCreatedAt: updatedProject.shareTokenCreatedAt,
+          shareLink,
         });
       } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid share link options", errors: error.errors });
+        }
         console.error("Error generating share token for project:", error);
         res.status(500).json({ message: "Failed to generate share token" });
       }
@@ -1125,14 +1548,16 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         }
       }
       
-      // Validate request body
+      // Validate request body; a comment may be just attachments
+      const uploads = attachmentUploadsSchema.parse(req.body.attachments ?? []);
       const validatedData = insertProjectCommentSchema.parse({
         projectId,
         userId,
-        comment: req.body.comment,
+        comment: req.body.comment ?? (uploads.length > 0 ? '' : undefined),
       });
       
-      const newComment = await storage.createProjectComment(validatedData);
+      const attachments = await claimAttachmentUploads(uploads, userId, project.id);
+      const newComment = await storage.createProjectComment({ ...validatedData, attachments });
       
       await logActivity(
         userId,
@@ -1152,6 +1577,9 @@ Sitemap: https://${req.get('host')}/sitemap.xml
           errors: error.errors 
         });
       }
+      if (error instanceof RequestError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error creating project comment:", error);
       res.status(500).json({ message: "Failed to create comment" });
     }
@@ -1366,6 +1794,11 @@ Sitemap: https://${req.get('host')}/sitemap.xml
       
       // Convert dueDate string to Date object if present
       const updates = { ...req.body };
+      // SLA timers are kept by the server from status and priority changes
+      for (const field of ['slaPolicyId', 'slaStartedAt', 'firstResponseDueAt', 'firstRespondedAt', 'resolutionDueAt', 'resolvedAt',
+        'slaPausedMinutes', 'firstResponseBreached', 'resolutionBreached', 'slaWarnedAt', 'slaWarningAt']) {
+        delete updates[field];
+      }
       if (updates.dueDate !== undefined) {
         if (typeof updates.dueDate === 'string') {
           // Empty string or whitespace should be null
@@ -1535,14 +1968,16 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         }
       }
       
-      // Validate request body
+      // Validate request body; a comment may be just attachments
+      const uploads = attachmentUploadsSchema.parse(req.body.attachments ?? []);
       const validatedData = insertTicketCommentSchema.parse({
         ticketId: req.params.id,
         userId,
-        comment: req.body.comment,
+        comment: req.body.comment ?? (uploads.length > 0 ? '' : undefined),
       });
       
-      const newComment = await storage.createTicketComment(validatedData);
+      const attachments = await claimAttachmentUploads(uploads, userId, project.id);
+      const newComment = await storage.createTicketComment({ ...validatedData, attachments });
       
       await logActivity(
         userId,
@@ -1562,6 +1997,9 @@ Sitemap: https://${req.get('host')}/sitemap.xml
           errors: error.errors 
         });
       }
+      if (error instanceof RequestError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error creating ticket comment:", error);
       res.status(500).json({ message: "Failed to create comment" });
     }
@@ -1590,14 +2028,14 @@ Sitemap: https://${req.get('host')}/sitemap.xml
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        // Generate crypto-random UUID for shareToken
-        const crypto = await import('crypto');
-        const shareToken = crypto.randomUUID();
+        // Each share creates a separate link (e.g. one per recipient) with its own expiry
+        const shareLink = await createDocumentShareLink('ticket', ticket.id, userId, req.body);
+        const shareToken = shareLink.token;
         
-        // Update ticket with shareToken and shareTokenCreatedAt
+        // Keep the newest token on the ticket for printed QR codes and older clients
         const updatedTicket = await storage.updateTicket(req.params.id, {
           shareToken,
-          shareTokenCreatedAt: new Date(),
+          shareTokenCreatedAt: shareLink.createdAt,
         });
         
         if (!updatedTicket) {
@@ -1614,189 +2052,459 @@ Sitemap: https://${req.get('host')}/sitemap.xml
           req
         );
         
-        // Build shareable URL using ticketNumber
-        const domain = process.env.REPLIT_DOMAINS ? process.env.REPLIT_DOMAINS.split(',')[0] : 'localhost:5000';
-        const protocol = process.env.REPLIT_DOMAINS ? 'https' : 'http';
-        const shareUrl = `${protocol}://${domain}/ticket/${updatedTicket.ticketNumber}/${shareToken}`;
+        const shareUrl = buildShareUrl('ticket', updatedTicket.ticketNumber, shareToken);
         
         res.json({
           token: shareToken,
           ticketNumber: updatedTicket.ticketNumber,
           shareUrl,
           shareTokenCreatedAt: updatedTicket.shareTokenCreatedAt,
+          shareLink,
         });
       } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid share link options", errors: error.errors });
+        }
         console.error("Error generating share token for ticket:", error);
         res.status(500).json({ message: "Failed to generate share token" });
       }
     }
   );
 
-  app.get("/api/technicians", isSessionAuthenticated, async (req: any, res) => {
-    try {
-      const userId = req.session.userId;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !user.role || !userId) {
-        return res.status(401).json({ message: "User not found" });
-      }
-      
-      if (user.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
-      const technicians = await storage.getTechnicians();
-      res.json(technicians);
-    } catch (error) {
-      console.error("Error fetching technicians:", error);
-      res.status(500).json({ message: "Failed to fetch technicians" });
-    }
-  });
-
-  // Visitor analytics routes
-  app.get("/api/analytics/visitors", 
+  // SLA policy routes
+  app.get("/api/sla-policies",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !user.role || !userId) {
-          return res.status(401).json({ message: "User not found" });
-        }
-        
-        // Check permission
-        if (!hasPermission(user.role, 'viewVisitors')) {
+        if (!user || !hasPermission(user.role, 'viewAllProjects')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const analytics = await storage.getVisitorAnalytics();
-        res.json(analytics);
+        const policies = await storage.getSlaPolicies();
+        res.json(policies);
       } catch (error) {
-        console.error("Error fetching visitor analytics:", error);
-        res.status(500).json({ message: "Failed to fetch visitor analytics" });
+        console.error("Error getting SLA policies:", error);
+        res.status(500).json({ message: "Failed to get SLA policies" });
       }
     }
   );
 
-  app.get("/api/analytics/recent-visitors", 
+  app.post("/api/sla-policies",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !user.role || !userId) {
-          return res.status(401).json({ message: "User not found" });
-        }
-        
-        // Check permission
-        if (!hasPermission(user.role, 'viewVisitors')) {
+        if (!user || !hasPermission(user.role, 'manageSettings')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const limit = parseInt(req.query.limit as string) || 50;
-        const visitors = await storage.getVisitors(limit);
-        res.json(visitors);
+        const validatedData = insertSlaPolicySchema.parse(req.body);
+        const policy = await storage.createSlaPolicy(validatedData);
+        
+        await logActivity(
+          userId,
+          'create',
+          'sla_policy',
+          policy.id,
+          policy.name,
+          `${policy.priority} priority: respond within ${policy.firstResponseMinutes} min, resolve within ${policy.resolutionMinutes} min`,
+          req
+        );
+        
+        res.status(201).json(policy);
       } catch (error) {
-        console.error("Error fetching recent visitors:", error);
-        res.status(500).json({ message: "Failed to fetch recent visitors" });
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Validation error", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error creating SLA policy:", error);
+        res.status(500).json({ message: "Failed to create SLA policy" });
       }
     }
   );
 
-  // User management routes (all authenticated users can read)
-  app.get("/api/users", 
+  app.patch("/api/sla-policies/:id",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !userId) {
-          return res.status(401).json({ message: "User not found" });
+        if (!user || !hasPermission(user.role, 'manageSettings')) {
+          return res.status(403).json({ message: "Permission denied" });
         }
         
-        // All authenticated users can read users table
-        const users = await storage.getAllUsers();
-        res.json(users);
+        const validatedData = updateSlaPolicySchema.parse(req.body);
+        const policy = await storage.updateSlaPolicy(req.params.id, validatedData);
+        if (!policy) {
+          return res.status(404).json({ message: "SLA policy not found" });
+        }
+        
+        await logActivity(
+          userId,
+          'update',
+          'sla_policy',
+          policy.id,
+          policy.name,
+          undefined,
+          req
+        );
+        
+        res.json(policy);
       } catch (error) {
-        console.error("Error fetching users:", error);
-        res.status(500).json({ message: "Failed to fetch users" });
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Validation error", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error updating SLA policy:", error);
+        res.status(500).json({ message: "Failed to update SLA policy" });
       }
     }
   );
 
-  app.post("/api/users", 
+  app.delete("/api/sla-policies/:id",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !user.role || !hasPermission(user.role, 'manageUsers')) {
+        if (!user || !hasPermission(user.role, 'manageSettings')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const { email, password, firstName, lastName, phone, company, role } = req.body;
-        
-        // Check if user already exists
-        const existingUser = await storage.getUserByEmail(email);
-        if (existingUser) {
-          return res.status(400).json({ message: "User already exists with this email" });
-        }
-        
-        // Hash the password
-        const passwordHash = await hashPassword(password);
-        
-        // Create user
-        const newUser = await storage.createUserWithPassword({
-          email,
-          passwordHash,
-          firstName,
-          lastName,
-          phone,
-          company,
-          role,
-        });
+        await storage.deleteSlaPolicy(req.params.id);
         
-        // Log activity
         await logActivity(
           userId,
-          'created',
-          'user',
-          newUser.id,
-          `${newUser.firstName} ${newUser.lastName}`,
-          `Created new user with role: ${newUser.role}`,
+          'delete',
+          'sla_policy',
+          req.params.id,
+          'SLA policy',
+          undefined,
           req
         );
         
-        res.status(201).json(newUser);
+        res.status(204).send();
       } catch (error) {
-        console.error("Error creating user:", error);
-        res.status(500).json({ message: "Failed to create user" });
+        console.error("Error deleting SLA policy:", error);
+        res.status(500).json({ message: "Failed to delete SLA policy" });
       }
     }
   );
 
-  app.put("/api/users/:id", 
+  // GET /api/sla/compliance - First-response and resolution compliance per client and technician
+  app.get("/api/sla/compliance",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !user.role || !hasPermission(user.role, 'manageUsers')) {
+        if (!user || !hasPermission(user.role, 'viewAllProjects')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const targetUserId = req.params.id;
-        const updates = req.body;
-        
-        // If password is being updated, hash it
-        if (updates.password) {
-          updates.passwordHash = await hashPassword(updates.password);
-          delete updates.password;
+        const query = slaComplianceQuerySchema.parse(req.query);
+        const report = await storage.getSlaComplianceReport(query);
+        res.json(report);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid report range", errors: error.errors });
+        }
+        console.error("Error getting SLA compliance report:", error);
+        res.status(500).json({ message: "Failed to get SLA compliance report" });
+      }
+    }
+  );
+
+  // POST /api/inbound-email - Raw RFC 822 message from the mail provider; replies thread onto tickets, new senders become leads.
+  // The global body parsers skip this path (see server/index.ts) so the message always arrives here unparsed.
+  app.post(INBOUND_EMAIL_PATH,
+    requireInboundMailSecret,
+    express.raw({ type: () => true, limit: '25mb' }),
+    async (req: any, res) => {
+      try {
+        const message = inboundMessageFromBody(req);
+        if (!message) {
+          return res.status(400).json({ message: "Expected a raw email message" });
+        }
+        
+        const { email, duplicate } = await processInboundEmail(message);
+        res.status(duplicate ? 200 : 201).json({ id: email.id, status: email.status, duplicate });
+      } catch (error) {
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error processing inbound email:", error);
+        res.status(500).json({ message: "Failed to process inbound email" });
+      }
+    }
+  );
+
+  // GET /api/inbound-emails - Gateway log, filtered by outcome, for triaging unmatched messages
+  app.get("/api/inbound-emails",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewAllProjects')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const query = inboundEmailQuerySchema.parse(req.query);
+        const emails = await storage.getInboundEmails(query);
+        res.json(emails);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid inbound email filter", errors: error.errors });
+        }
+        console.error("Error fetching inbound emails:", error);
+        res.status(500).json({ message: "Failed to fetch inbound emails" });
+      }
+    }
+  );
+
+  // POST /api/inbound-emails/:id/ticket - Open a ticket from an unmatched message
+  app.post("/api/inbound-emails/:id/ticket",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageAllProjects')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = convertInboundEmailSchema.parse(req.body);
+        const { email, ticket } = await storage.convertInboundEmailToTicket(req.params.id, validatedData, userId);
+        await shareAttachmentsWithProject(email.attachments as FileAttachment[], userId, ticket.projectId);
+        
+        await logActivity(
+          userId,
+          'create',
+          'ticket',
+          ticket.id,
+          ticket.title,
+          `Opened from an email by ${email.fromAddress}`,
+          req
+        );
+        
+        res.status(201).json({ email, ticket });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Validation error", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error converting inbound email:", error);
+        res.status(500).json({ message: "Failed to open ticket from email" });
+      }
+    }
+  );
+
+  // POST /api/inbound-emails/:id/dismiss - Mark an unmatched message as needing nothing further
+  app.post("/api/inbound-emails/:id/dismiss",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageAllProjects')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const email = await storage.dismissInboundEmail(req.params.id, userId);
+        res.json(email);
+      } catch (error) {
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error dismissing inbound email:", error);
+        res.status(500).json({ message: "Failed to dismiss email" });
+      }
+    }
+  );
+
+  app.get("/api/technicians", isSessionAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const user = await storage.getUser(userId);
+      
+      if (!user || !user.role || !userId) {
+        return res.status(401).json({ message: "User not found" });
+      }
+      
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+      
+      const technicians = await storage.getTechnicians();
+      res.json(technicians);
+    } catch (error) {
+      console.error("Error fetching technicians:", error);
+      res.status(500).json({ message: "Failed to fetch technicians" });
+    }
+  });
+
+  // Visitor analytics routes
+  app.get("/api/analytics/visitors", 
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !user.role || !userId) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        // Check permission
+        if (!hasPermission(user.role, 'viewVisitors')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const analytics = await storage.getVisitorAnalytics();
+        res.json(analytics);
+      } catch (error) {
+        console.error("Error fetching visitor analytics:", error);
+        res.status(500).json({ message: "Failed to fetch visitor analytics" });
+      }
+    }
+  );
+
+  app.get("/api/analytics/recent-visitors", 
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !user.role || !userId) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        // Check permission
+        if (!hasPermission(user.role, 'viewVisitors')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const limit = parseInt(req.query.limit as string) || 50;
+        const visitors = await storage.getVisitors(limit);
+        res.json(visitors);
+      } catch (error) {
+        console.error("Error fetching recent visitors:", error);
+        res.status(500).json({ message: "Failed to fetch recent visitors" });
+      }
+    }
+  );
+
+  // User management routes (all authenticated users can read)
+  app.get("/api/users", 
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !userId) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        // All authenticated users can read users table
+        const users = await storage.getAllUsers();
+        res.json(users);
+      } catch (error) {
+        console.error("Error fetching users:", error);
+        res.status(500).json({ message: "Failed to fetch users" });
+      }
+    }
+  );
+
+  app.post("/api/users", 
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !user.role || !hasPermission(user.role, 'manageUsers')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const { email, password, firstName, lastName, phone, company, role } = req.body;
+        
+        // Check if user already exists
+        const existingUser = await storage.getUserByEmail(email);
+        if (existingUser) {
+          return res.status(400).json({ message: "User already exists with this email" });
+        }
+        
+        // Hash the password
+        const passwordHash = await hashPassword(password);
+        
+        // Create user
+        const newUser = await storage.createUserWithPassword({
+          email,
+          passwordHash,
+          firstName,
+          lastName,
+          phone,
+          company,
+          role,
+        });
+        
+        // Log activity
+        await logActivity(
+          userId,
+          'created',
+          'user',
+          newUser.id,
+          `${newUser.firstName} ${newUser.lastName}`,
+          `Created new user with role: ${newUser.role}`,
+          req
+        );
+        
+        res.status(201).json(newUser);
+      } catch (error) {
+        console.error("Error creating user:", error);
+        res.status(500).json({ message: "Failed to create user" });
+      }
+    }
+  );
+
+  app.put("/api/users/:id", 
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !user.role || !hasPermission(user.role, 'manageUsers')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const targetUserId = req.params.id;
+        const updates = req.body;
+        
+        // If password is being updated, hash it
+        if (updates.password) {
+          updates.passwordHash = await hashPassword(updates.password);
+          delete updates.password;
         }
         
         const updatedUser = await storage.updateUser(targetUserId, updates);
@@ -1981,13 +2689,18 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         // Validate request body
         const validatedData = insertInventoryItemSchema.parse(req.body);
         
-        const newItem = await storage.createInventoryItem(validatedData);
+        const newItem = await storage.createInventoryItem(validatedData, userId, {
+          allowNegative: hasPermission(user.role, 'overrideNegativeStock'),
+        });
         res.status(201).json(newItem);
       } catch (error) {
         console.error("Error creating inventory item:", error);
         if (error instanceof z.ZodError) {
           return res.status(400).json({ message: "Invalid inventory item data", errors: error.errors });
         }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
         res.status(500).json({ message: "Failed to create inventory item" });
       }
     }
@@ -2005,9 +2718,18 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         }
         
         // Validate partial update data - pick only allowed fields
-        const allowedUpdates = insertInventoryItemSchema.partial().parse(req.body);
+        const { quantityInStock, ...allowedUpdates } = insertInventoryItemSchema.partial().parse(req.body);
+        
+        // Stock edits are booked as adjustments so the transaction history stays complete
+        const stockCount = quantityInStock !== undefined && quantityInStock !== null
+          ? {
+              quantity: quantityInStock,
+              performedById: userId,
+              options: { allowNegative: hasPermission(user.role, 'overrideNegativeStock') },
+            }
+          : undefined;
         
-        const updatedItem = await storage.updateInventoryItem(req.params.id, allowedUpdates);
+        const updatedItem = await storage.updateInventoryItem(req.params.id, allowedUpdates, stockCount);
         if (!updatedItem) {
           return res.status(404).json({ message: "Inventory item not found" });
         }
@@ -2018,6 +2740,9 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         if (error instanceof z.ZodError) {
           return res.status(400).json({ message: "Invalid inventory item data", errors: error.errors });
         }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
         res.status(500).json({ message: "Failed to update inventory item" });
       }
     }
@@ -2063,6 +2788,30 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     }
   );
 
+  app.get("/api/inventory/reorder-suggestions",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewInventory')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const options = reorderSuggestionsQuerySchema.parse(req.query);
+        const suggestions = await storage.getReorderSuggestions(options);
+        res.json(suggestions);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid reorder options", errors: error.errors });
+        }
+        console.error("Error computing reorder suggestions:", error);
+        res.status(500).json({ message: "Failed to compute reorder suggestions" });
+      }
+    }
+  );
+
   app.get("/api/inventory/transactions",
     isSessionAuthenticated,
     async (req: any, res) => {
@@ -2100,6 +2849,10 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         
         // Validate request body but exclude performedById from user input
         const validatedData = insertInventoryTransactionSchema.omit({ performedById: true }).parse(req.body);
+        const serialUnitIds = inventoryTransactionSerialsSchema.parse(req.body.serialUnitIds);
+        if (validatedData.transactionType === 'transfer') {
+          return res.status(400).json({ message: "Record transfers with /api/inventory/transfers" });
+        }
         
         // Always use session user ID for performedById (prevent spoofing)
         const transactionData = {
@@ -2107,27 +2860,233 @@ Sitemap: https://${req.get('host')}/sitemap.xml
           performedById: userId!,
         };
         
-        const newTransaction = await storage.createInventoryTransaction(transactionData);
+        // Stock may only go below zero for users allowed to override it
+        const newTransaction = await storage.createInventoryTransaction(transactionData, {
+          allowNegative: hasPermission(user.role, 'overrideNegativeStock'),
+          serialUnitIds,
+        });
         res.status(201).json(newTransaction);
       } catch (error) {
         console.error("Error creating inventory transaction:", error);
         if (error instanceof z.ZodError) {
           return res.status(400).json({ message: "Invalid transaction data", errors: error.errors });
         }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
         res.status(500).json({ message: "Failed to create inventory transaction" });
       }
     }
   );
 
-  // Task routes (managers create, employees view assigned)
-  app.post("/api/tasks",
+  app.post("/api/inventory/transfers",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'manageAllTasks')) {
+        if (!user || !hasPermission(user.role, 'manageInventory')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const transfer = inventoryTransferSchema.parse(req.body);
+        const transactions = await storage.transferInventory(transfer, userId, {
+          allowNegative: hasPermission(user.role, 'overrideNegativeStock'),
+        });
+        
+        await logActivity(
+          userId,
+          'transfer_inventory',
+          'inventory',
+          transfer.itemId,
+          null,
+          `Transferred ${transfer.quantity} unit(s) from ${transfer.fromLocationId ?? 'unassigned'} to ${transfer.toLocationId ?? 'unassigned'}`,
+          req
+        );
+        res.status(201).json(transactions);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Invalid transfer", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error transferring inventory:", error);
+        res.status(500).json({ message: "Failed to transfer inventory" });
+      }
+    }
+  );
+
+  // Stock locations: inventory staff see every location, technicians see the vans assigned to them
+  app.get("/api/inventory/locations",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        const locations = hasPermission(user.role, 'viewInventory')
+          ? await storage.getStockLocations({ includeInactive: req.query.includeInactive === 'true' })
+          : await storage.getStockLocations({ assignedUserId: userId });
+        res.json(locations);
+      } catch (error) {
+        console.error("Error fetching stock locations:", error);
+        res.status(500).json({ message: "Failed to fetch stock locations" });
+      }
+    }
+  );
+
+  app.post("/api/inventory/locations",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageInventory')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = insertStockLocationSchema.parse(req.body);
+        const location = await storage.createStockLocation(validatedData);
+        res.status(201).json(location);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid stock location data", errors: error.errors });
+        }
+        console.error("Error creating stock location:", error);
+        res.status(500).json({ message: "Failed to create stock location" });
+      }
+    }
+  );
+
+  app.patch("/api/inventory/locations/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageInventory')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = updateStockLocationSchema.parse(req.body);
+        const location = await storage.updateStockLocation(req.params.id, validatedData);
+        if (!location) {
+          return res.status(404).json({ message: "Stock location not found" });
+        }
+        
+        res.json(location);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid stock location data", errors: error.errors });
+        }
+        console.error("Error updating stock location:", error);
+        res.status(500).json({ message: "Failed to update stock location" });
+      }
+    }
+  );
+
+  app.get("/api/inventory/locations/:id/stock",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        const location = await storage.getStockLocation(req.params.id);
+        if (!location) {
+          return res.status(404).json({ message: "Stock location not found" });
+        }
+        
+        if (!hasPermission(user.role, 'viewInventory') && location.assignedUserId !== userId) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const stock = await storage.getLocationStock(location.id);
+        res.json(stock);
+      } catch (error) {
+        console.error("Error fetching location stock:", error);
+        res.status(500).json({ message: "Failed to fetch location stock" });
+      }
+    }
+  );
+
+  // Compares each item's stock level with the total of its transaction history
+  app.get("/api/inventory/reconciliation",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewInventory')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const discrepancies = await storage.getInventoryReconciliation();
+        res.json(discrepancies);
+      } catch (error) {
+        console.error("Error reconciling inventory:", error);
+        res.status(500).json({ message: "Failed to reconcile inventory" });
+      }
+    }
+  );
+
+  app.post("/api/inventory/reconciliation",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageInventory')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const { strategy, itemIds } = reconcileInventorySchema.parse(req.body);
+        const corrected = await storage.reconcileInventory(strategy, userId, itemIds);
+        
+        await logActivity(
+          userId,
+          'reconcile_inventory',
+          'inventory',
+          null,
+          null,
+          `Reconciled ${corrected.length} inventory item(s) using the ${strategy === 'history' ? 'transaction history' : 'recorded stock'}`,
+          req
+        );
+        
+        res.json(corrected);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid reconciliation request", errors: error.errors });
+        }
+        console.error("Error reconciling inventory:", error);
+        res.status(500).json({ message: "Failed to reconcile inventory" });
+      }
+    }
+  );
+
+  // Task routes (managers create, employees view assigned)
+  app.post("/api/tasks",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageAllTasks')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
@@ -2268,6 +3227,86 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     }
   );
 
+  // POST /api/tasks/:id/attachments - Attach uploaded files to a task; task files are for staff only
+  app.post("/api/tasks/:id/attachments",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !user.role || (!hasPermission(user.role, 'manageOwnTasks') && !hasPermission(user.role, 'manageAllTasks'))) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const task = await storage.getTask(req.params.id);
+        if (!task) {
+          return res.status(404).json({ message: "Task not found" });
+        }
+        if (!hasPermission(user.role, 'manageAllTasks') && task.assignedToId !== userId) {
+          return res.status(403).json({ message: "Access denied: You can only edit tasks assigned to you" });
+        }
+        
+        const uploads = attachmentUploadsSchema.min(1, "Choose a file to attach").parse(req.body.attachments);
+        const attachments = await claimAttachmentUploads(uploads, userId);
+        const updatedTask = await storage.addTaskAttachments(task.id, attachments);
+        
+        await logActivity(
+          userId,
+          'update',
+          'task',
+          task.id,
+          task.title,
+          `Attached ${attachments.map(attachment => attachment.filename).join(', ')}`,
+          req
+        );
+        
+        res.status(201).json(updatedTask);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid attachments", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error attaching files to task:", error);
+        res.status(500).json({ message: "Failed to attach files" });
+      }
+    }
+  );
+
+  // DELETE /api/tasks/:id/attachments?objectPath=... - Remove a file from a task
+  app.delete("/api/tasks/:id/attachments",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !user.role || (!hasPermission(user.role, 'manageOwnTasks') && !hasPermission(user.role, 'manageAllTasks'))) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const task = await storage.getTask(req.params.id);
+        if (!task) {
+          return res.status(404).json({ message: "Task not found" });
+        }
+        if (!hasPermission(user.role, 'manageAllTasks') && task.assignedToId !== userId) {
+          return res.status(403).json({ message: "Access denied: You can only edit tasks assigned to you" });
+        }
+        if (typeof req.query.objectPath !== 'string') {
+          return res.status(400).json({ message: "objectPath is required" });
+        }
+        
+        const updatedTask = await storage.removeTaskAttachment(task.id, req.query.objectPath);
+        res.json(updatedTask);
+      } catch (error) {
+        console.error("Error removing task attachment:", error);
+        res.status(500).json({ message: "Failed to remove attachment" });
+      }
+    }
+  );
+
   // Report routes
   app.post("/api/reports",
     isSessionAuthenticated,
@@ -2455,749 +3494,2280 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     }
   );
 
-  // Sales routes
-  app.post("/api/sales",
+  // Dispatch board routes
+  app.get("/api/dispatch/board",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !['sales', 'admin'].includes(user.role)) {
-          return res.status(403).json({ message: "Sales access required" });
+        if (!user || !hasPermission(user.role, 'assignProjects')) {
+          return res.status(403).json({ message: "Permission denied" });
         }
         
-        const validatedData = insertSalesRecordSchema.parse(req.body);
-        const newRecord = await storage.createSalesRecord(validatedData);
-        res.status(201).json(newRecord);
+        const { from, to } = dispatchBoardQuerySchema.parse(req.query);
+        const board = await storage.getDispatchBoard(from, to);
+        res.json(board);
       } catch (error) {
-        console.error("Error creating sales record:", error);
         if (error instanceof z.ZodError) {
-          return res.status(400).json({ message: "Invalid sales data", errors: error.errors });
+          return res.status(400).json({ message: error.errors[0]?.message || "Invalid date range", errors: error.errors });
         }
-        res.status(500).json({ message: "Failed to create sales record" });
+        console.error("Error fetching dispatch board:", error);
+        res.status(500).json({ message: "Failed to fetch dispatch board" });
       }
     }
   );
 
-  app.get("/api/sales",
+  app.get("/api/dispatch/my-schedule",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !['sales', 'admin'].includes(user.role)) {
-          return res.status(403).json({ message: "Sales access required" });
-        }
-        
-        const filters: any = {};
-        if (req.query.salesRepId) filters.salesRepId = req.query.salesRepId;
-        if (req.query.clientId) filters.clientId = req.query.clientId;
-        if (req.query.status) filters.status = req.query.status;
-        
-        // Sales role can only see their own records
-        if (user.role === 'sales') {
-          filters.salesRepId = userId;
+        if (!user || !hasPermission(user.role, 'manageOwnTasks')) {
+          return res.status(403).json({ message: "Permission denied" });
         }
         
-        const records = await storage.getSalesRecords(filters);
-        res.json(records);
+        const { from, to } = dispatchBoardQuerySchema.parse(req.query);
+        const schedule = await storage.getTechnicianSchedule(userId, from, to);
+        res.json(schedule);
       } catch (error) {
-        console.error("Error fetching sales records:", error);
-        res.status(500).json({ message: "Failed to fetch sales records" });
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Invalid date range", errors: error.errors });
+        }
+        console.error("Error fetching technician schedule:", error);
+        res.status(500).json({ message: "Failed to fetch schedule" });
       }
     }
   );
 
-  app.get("/api/sales/:id",
+  app.post("/api/dispatch/assignments",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !['sales', 'admin'].includes(user.role)) {
-          return res.status(403).json({ message: "Sales access required" });
+        if (!user || !hasPermission(user.role, 'assignProjects')) {
+          return res.status(403).json({ message: "Permission denied" });
         }
         
-        const record = await storage.getSalesRecord(req.params.id);
-        if (!record) {
-          return res.status(404).json({ message: "Sales record not found" });
-        }
+        const validatedData = insertDispatchAssignmentSchema.parse(req.body);
+        const { assignment, conflicts } = await storage.createDispatchAssignment(validatedData, userId);
+        const technician = await storage.getUser(assignment.technicianId);
         
-        // Sales role can only see their own records
-        if (user.role === 'sales' && record.salesRepId !== userId) {
-          return res.status(403).json({ message: "Access denied" });
-        }
+        await logActivity(
+          userId,
+          'dispatch',
+          'dispatch_assignment',
+          assignment.id,
+          `${technician?.firstName || ''} ${technician?.lastName || ''}`.trim() || technician?.email || assignment.technicianId,
+          conflicts.length > 0 ? `Double-booked over ${conflicts.length} existing booking(s)` : undefined,
+          req
+        );
         
-        res.json(record);
+        res.status(201).json(assignment);
       } catch (error) {
-        console.error("Error fetching sales record:", error);
-        res.status(500).json({ message: "Failed to fetch sales record" });
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Invalid assignment", errors: error.errors });
+        }
+        if (error instanceof DispatchConflictError) {
+          return res.status(error.status).json({ message: error.message, conflicts: error.conflicts });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error creating dispatch assignment:", error);
+        res.status(500).json({ message: "Failed to create dispatch assignment" });
       }
     }
   );
 
-  app.put("/api/sales/:id",
+  app.patch("/api/dispatch/assignments/:id",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !['sales', 'admin'].includes(user.role)) {
-          return res.status(403).json({ message: "Sales access required" });
+        if (!user || !hasPermission(user.role, 'assignProjects')) {
+          return res.status(403).json({ message: "Permission denied" });
         }
         
-        const record = await storage.getSalesRecord(req.params.id);
-        if (!record) {
-          return res.status(404).json({ message: "Sales record not found" });
+        const validatedData = updateDispatchAssignmentSchema.parse(req.body);
+        const updated = await storage.updateDispatchAssignment(req.params.id, validatedData);
+        if (!updated) {
+          return res.status(404).json({ message: "Dispatch assignment not found" });
         }
+        res.json(updated.assignment);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Invalid assignment", errors: error.errors });
+        }
+        if (error instanceof DispatchConflictError) {
+          return res.status(error.status).json({ message: error.message, conflicts: error.conflicts });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error updating dispatch assignment:", error);
+        res.status(500).json({ message: "Failed to update dispatch assignment" });
+      }
+    }
+  );
+
+  app.delete("/api/dispatch/assignments/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
         
-        // Sales role can only edit their own records
-        if (user.role === 'sales' && record.salesRepId !== userId) {
-          return res.status(403).json({ message: "Access denied" });
+        if (!user || !hasPermission(user.role, 'assignProjects')) {
+          return res.status(403).json({ message: "Permission denied" });
         }
         
-        const validatedData = updateSalesRecordSchema.parse(req.body);
-        const updatedRecord = await storage.updateSalesRecord(req.params.id, validatedData);
-        res.json(updatedRecord);
+        await storage.deleteDispatchAssignment(req.params.id);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error deleting dispatch assignment:", error);
+        res.status(500).json({ message: "Failed to delete dispatch assignment" });
+      }
+    }
+  );
+
+  // Calendar feed routes (the signed-in user's own secret ICS subscription URL)
+  const calendarFeedUrl = (token: string) => `${getAppBaseUrl()}/api/calendar/${token}.ics`;
+
+  app.get("/api/calendar-feed", isSessionAuthenticated, async (req: any, res) => {
+    try {
+      // The URL can't be rebuilt from the stored hash, so it is only returned when issued
+      const feed = await storage.getCalendarFeed(req.session.userId);
+      res.json(feed
+        ? { active: true, url: null, createdAt: feed.createdAt, lastAccessedAt: feed.lastAccessedAt }
+        : { active: false, url: null });
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feed" });
+    }
+  });
+
+  // Creates the feed, or replaces the token so any previously shared URL stops working
+  app.post("/api/calendar-feed", isSessionAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const { feed, token } = await storage.resetCalendarFeed(userId);
+      await logActivity(userId, 'reset_calendar_feed', 'user', userId, null, 'Calendar feed URL issued', req);
+      res.status(201).json({ active: true, url: calendarFeedUrl(token), createdAt: feed.createdAt, lastAccessedAt: feed.lastAccessedAt });
+    } catch (error) {
+      console.error("Error resetting calendar feed:", error);
+      res.status(500).json({ message: "Failed to create calendar feed" });
+    }
+  });
+
+  app.delete("/api/calendar-feed", isSessionAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      await storage.deleteCalendarFeed(userId);
+      await logActivity(userId, 'revoke_calendar_feed', 'user', userId, null, 'Calendar feed URL revoked', req);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking calendar feed:", error);
+      res.status(500).json({ message: "Failed to revoke calendar feed" });
+    }
+  });
+
+  // Preventive maintenance routes
+  app.get("/api/maintenance-visit-types",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageAllTasks')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const visitTypes = await storage.getMaintenanceVisitTypes(req.query.includeInactive === 'true');
+        res.json(visitTypes);
+      } catch (error) {
+        console.error("Error getting maintenance visit types:", error);
+        res.status(500).json({ message: "Failed to get maintenance visit types" });
+      }
+    }
+  );
+
+  app.post("/api/maintenance-visit-types",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageAllTasks')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = insertMaintenanceVisitTypeSchema.parse(req.body);
+        const visitType = await storage.createMaintenanceVisitType(validatedData);
+        res.status(201).json(visitType);
       } catch (error) {
-        console.error("Error updating sales record:", error);
         if (error instanceof z.ZodError) {
-          return res.status(400).json({ message: "Invalid sales data", errors: error.errors });
+          return res.status(400).json({ message: "Invalid visit type data", errors: error.errors });
         }
-        res.status(500).json({ message: "Failed to update sales record" });
+        console.error("Error creating maintenance visit type:", error);
+        res.status(500).json({ message: "Failed to create maintenance visit type" });
       }
     }
   );
 
-  app.delete("/api/sales/:id",
+  app.patch("/api/maintenance-visit-types/:id",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !['sales', 'admin'].includes(user.role)) {
-          return res.status(403).json({ message: "Sales access required" });
+        if (!user || !hasPermission(user.role, 'manageAllTasks')) {
+          return res.status(403).json({ message: "Permission denied" });
         }
         
-        const record = await storage.getSalesRecord(req.params.id);
-        if (!record) {
-          return res.status(404).json({ message: "Sales record not found" });
+        const validatedData = updateMaintenanceVisitTypeSchema.parse(req.body);
+        const visitType = await storage.updateMaintenanceVisitType(req.params.id, validatedData);
+        if (!visitType) {
+          return res.status(404).json({ message: "Visit type not found" });
+        }
+        res.json(visitType);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid update data", errors: error.errors });
         }
+        console.error("Error updating maintenance visit type:", error);
+        res.status(500).json({ message: "Failed to update maintenance visit type" });
+      }
+    }
+  );
+
+  app.delete("/api/maintenance-visit-types/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
         
-        // Sales role can only delete their own records
-        if (user.role === 'sales' && record.salesRepId !== userId) {
-          return res.status(403).json({ message: "Access denied" });
+        if (!user || !hasPermission(user.role, 'manageAllTasks')) {
+          return res.status(403).json({ message: "Permission denied" });
         }
         
-        await storage.deleteSalesRecord(req.params.id);
+        await storage.deleteMaintenanceVisitType(req.params.id);
         res.status(204).send();
       } catch (error) {
-        console.error("Error deleting sales record:", error);
-        res.status(500).json({ message: "Failed to delete sales record" });
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error deleting maintenance visit type:", error);
+        res.status(500).json({ message: "Failed to delete maintenance visit type" });
       }
     }
   );
 
-  // Financial logs routes (admin read-only)
-  app.get("/api/financial-logs",
+  app.get("/api/maintenance-agreements",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !user.role || !hasPermission(user.role, 'viewFinancial')) {
+        if (!user || !hasPermission(user.role, 'manageAllTasks')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const filters: any = {};
-        if (req.query.entityType) filters.entityType = req.query.entityType;
-        if (req.query.userId) filters.userId = req.query.userId;
-        if (req.query.logType) filters.logType = req.query.logType;
-        if (req.query.limit) filters.limit = parseInt(req.query.limit as string);
+        const filters = maintenanceAgreementQuerySchema.parse(req.query);
+        const agreements = await storage.getMaintenanceAgreements(filters);
+        res.json(agreements);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid agreement filters", errors: error.errors });
+        }
+        console.error("Error getting maintenance agreements:", error);
+        res.status(500).json({ message: "Failed to get maintenance agreements" });
+      }
+    }
+  );
+
+  app.get("/api/maintenance-agreements/:id/visits",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
         
-        const logs = await storage.getFinancialLogs(filters);
-        res.json(logs);
+        if (!user || !hasPermission(user.role, 'manageAllTasks')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const visits = await storage.getMaintenanceVisits({ agreementId: req.params.id });
+        res.json(visits);
       } catch (error) {
-        console.error("Error fetching financial logs:", error);
-        res.status(500).json({ message: "Failed to fetch financial logs" });
+        console.error("Error getting maintenance visits:", error);
+        res.status(500).json({ message: "Failed to get maintenance visits" });
       }
     }
   );
 
-  // Activity logs routes (admin read-only for audit trail)
-  app.get("/api/activities",
+  app.post("/api/maintenance-agreements",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !user.role || !hasPermission(user.role, 'viewActivities')) {
+        if (!user || !hasPermission(user.role, 'manageAllTasks')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const filters: any = {};
-        if (req.query.userId) filters.userId = req.query.userId;
-        if (req.query.entityType) filters.entityType = req.query.entityType;
-        if (req.query.action) filters.action = req.query.action;
-        if (req.query.limit) filters.limit = parseInt(req.query.limit as string);
+        const validatedData = insertMaintenanceAgreementSchema.parse(req.body);
+        const created = await storage.createMaintenanceAgreement(validatedData, userId);
+        const agreement = await storage.getMaintenanceAgreement(created.id);
         
-        const activities = await storage.getActivities(filters);
-        res.json(activities);
+        await logActivity(
+          userId,
+          'create',
+          'maintenance_agreement',
+          created.id,
+          `${agreement?.clientName} - ${created.siteName}`,
+          `${agreement?.visitTypeName} every ${created.intervalMonths} month(s) from ${created.startDate.toLocaleDateString("en-US")}`,
+          req
+        );
+        
+        res.status(201).json(agreement);
       } catch (error) {
-        console.error("Error fetching activities:", error);
-        res.status(500).json({ message: "Failed to fetch activities" });
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid agreement data", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error creating maintenance agreement:", error);
+        res.status(500).json({ message: "Failed to create maintenance agreement" });
       }
     }
   );
 
-  // Inquiry routes (quote requests and contact forms - public POST, sales/admin GET/UPDATE)
-  app.post("/api/inquiries", async (req, res) => {
-    try {
-      const validatedData = insertInquirySchema.parse(req.body);
-      const inquiry = await storage.createInquiry(validatedData);
-      res.status(201).json(inquiry);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid inquiry data", errors: error.errors });
+  app.patch("/api/maintenance-agreements/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageAllTasks')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = updateMaintenanceAgreementSchema.parse(req.body);
+        const updated = await storage.updateMaintenanceAgreement(req.params.id, validatedData);
+        const agreement = await storage.getMaintenanceAgreement(updated.id);
+        
+        await logActivity(
+          userId,
+          'update',
+          'maintenance_agreement',
+          updated.id,
+          `${agreement?.clientName} - ${updated.siteName}`,
+          validatedData.status ? `Status set to ${validatedData.status}` : undefined,
+          req
+        );
+        
+        res.json(agreement);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid update data", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error updating maintenance agreement:", error);
+        res.status(500).json({ message: "Failed to update maintenance agreement" });
       }
-      console.error("Error creating inquiry:", error);
-      res.status(500).json({ message: "Failed to create inquiry" });
     }
-  });
+  );
 
-  app.get("/api/inquiries",
+  // Visits past due and not yet completed, for managers to chase
+  app.get("/api/maintenance-visits/overdue",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'viewAllMessages')) {
+        if (!user || !hasPermission(user.role, 'manageAllTasks')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const filters: any = {};
-        if (req.query.type) filters.type = req.query.type;
-        if (req.query.status) filters.status = req.query.status;
-        if (req.query.assignedToId) filters.assignedToId = req.query.assignedToId;
+        const visits = await storage.getOverdueMaintenanceVisits(new Date());
+        res.json(visits);
+      } catch (error) {
+        console.error("Error getting overdue maintenance visits:", error);
+        res.status(500).json({ message: "Failed to get overdue maintenance visits" });
+      }
+    }
+  );
+
+  // Open visits whose task is assigned to the signed-in technician
+  app.get("/api/maintenance-visits/mine",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
         
-        const inquiries = await storage.getInquiries(filters);
-        res.json(inquiries);
+        if (!user || !hasPermission(user.role, 'viewOwnTasks')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const visits = await storage.getMaintenanceVisits({ assignedToId: userId, open: true });
+        res.json(visits);
       } catch (error) {
-        console.error("Error fetching inquiries:", error);
-        res.status(500).json({ message: "Failed to fetch inquiries" });
+        console.error("Error getting maintenance visits:", error);
+        res.status(500).json({ message: "Failed to get maintenance visits" });
       }
     }
   );
 
-  app.get("/api/inquiries/:id",
+  app.patch("/api/maintenance-visits/:id",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
+        if (!user) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
         
-        if (!user || !hasPermission(user.role, 'viewAllMessages')) {
+        const visit = await storage.getMaintenanceVisit(req.params.id);
+        if (!visit) {
+          return res.status(404).json({ message: "Maintenance visit not found" });
+        }
+        if (visit.assignedToId !== userId && !hasPermission(user.role, 'manageAllTasks')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const inquiry = await storage.getInquiry(req.params.id);
-        if (!inquiry) {
-          return res.status(404).json({ message: "Inquiry not found" });
+        const validatedData = recordMaintenanceVisitSchema.parse(req.body);
+        const updated = await storage.recordMaintenanceVisit(visit.id, validatedData);
+        res.json(updated);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid visit data", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error recording maintenance visit:", error);
+        res.status(500).json({ message: "Failed to record maintenance visit" });
+      }
+    }
+  );
+
+  app.post("/api/maintenance-visits/:id/complete",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        if (!user) {
+          return res.status(403).json({ message: "Permission denied" });
         }
         
-        res.json(inquiry);
+        const visit = await storage.getMaintenanceVisit(req.params.id);
+        if (!visit) {
+          return res.status(404).json({ message: "Maintenance visit not found" });
+        }
+        if (visit.assignedToId !== userId && !hasPermission(user.role, 'manageAllTasks')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const completed = await storage.completeMaintenanceVisit(visit.id, userId);
+        
+        await logActivity(
+          userId,
+          'complete',
+          'maintenance_visit',
+          visit.id,
+          `${visit.clientName} - ${visit.siteName}`,
+          `${visit.visitTypeName} due ${visit.dueDate.toLocaleDateString("en-US")} completed`,
+          req
+        );
+        
+        res.json(completed);
       } catch (error) {
-        console.error("Error fetching inquiry:", error);
-        res.status(500).json({ message: "Failed to fetch inquiry" });
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error completing maintenance visit:", error);
+        res.status(500).json({ message: "Failed to complete maintenance visit" });
       }
     }
   );
 
-  app.patch("/api/inquiries/:id",
+  // Time tracking routes
+  app.get("/api/time-entries",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'manageMessages')) {
+        if (!user || !hasPermission(user.role, 'manageOwnTasks')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const validatedData = updateInquirySchema.parse(req.body);
-        const inquiry = await storage.updateInquiry(req.params.id, validatedData);
+        const filters = timeEntriesQuerySchema.parse(req.query);
+        // Technicians only see their own timesheet
+        if (!hasPermission(user.role, 'approveReports')) {
+          filters.userId = userId;
+        }
+        
+        const entries = await storage.getTimeEntries(filters);
+        res.json(entries);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid filters", errors: error.errors });
+        }
+        console.error("Error fetching time entries:", error);
+        res.status(500).json({ message: "Failed to fetch time entries" });
+      }
+    }
+  );
+
+  app.get("/api/time-entries/running",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const entry = await storage.getRunningTimeEntry(req.session.userId);
+        res.json(entry ?? null);
+      } catch (error) {
+        console.error("Error fetching running time entry:", error);
+        res.status(500).json({ message: "Failed to fetch running time entry" });
+      }
+    }
+  );
+
+  app.post("/api/time-entries/clock-in",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageOwnTasks')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = clockInSchema.parse(req.body);
+        const entry = await storage.clockIn(userId, validatedData);
+        res.status(201).json(entry);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid clock-in data", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error clocking in:", error);
+        res.status(500).json({ message: "Failed to clock in" });
+      }
+    }
+  );
+
+  app.post("/api/time-entries/clock-out",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const { notes } = clockOutSchema.parse(req.body);
+        const entry = await storage.clockOut(req.session.userId, notes);
+        if (!entry) {
+          return res.status(409).json({ message: "Not clocked in" });
+        }
+        res.json(entry);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid clock-out data", errors: error.errors });
+        }
+        console.error("Error clocking out:", error);
+        res.status(500).json({ message: "Failed to clock out" });
+      }
+    }
+  );
+
+  app.post("/api/time-entries",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageOwnTasks')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = insertTimeEntrySchema.parse(req.body);
+        const entryUserId = validatedData.userId && hasPermission(user.role, 'approveReports') ? validatedData.userId : userId;
+        const entry = await storage.createTimeEntry(entryUserId, validatedData);
+        res.status(201).json(entry);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Invalid time entry", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error creating time entry:", error);
+        res.status(500).json({ message: "Failed to create time entry" });
+      }
+    }
+  );
+
+  app.patch("/api/time-entries/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !user.role) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        const entry = await storage.getTimeEntry(req.params.id);
+        if (!entry) {
+          return res.status(404).json({ message: "Time entry not found" });
+        }
+        if (entry.userId !== userId && !hasPermission(user.role, 'approveReports')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = updateTimeEntrySchema.parse(req.body);
+        const updated = await storage.updateTimeEntry(entry.id, validatedData);
+        res.json(updated);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid time entry", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error updating time entry:", error);
+        res.status(500).json({ message: "Failed to update time entry" });
+      }
+    }
+  );
+
+  app.delete("/api/time-entries/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !user.role) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        const entry = await storage.getTimeEntry(req.params.id);
+        if (!entry) {
+          return res.status(404).json({ message: "Time entry not found" });
+        }
+        if (entry.userId !== userId && !hasPermission(user.role, 'approveReports')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        await storage.deleteTimeEntry(entry.id);
+        res.status(204).send();
+      } catch (error) {
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error deleting time entry:", error);
+        res.status(500).json({ message: "Failed to delete time entry" });
+      }
+    }
+  );
+
+  app.post("/api/time-entries/:id/review",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'approveReports')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const { approved, rejectionReason } = reviewTimeEntrySchema.parse(req.body);
+        const entry = await storage.reviewTimeEntry(req.params.id, userId, approved, rejectionReason);
+        if (!entry) {
+          return res.status(404).json({ message: "Time entry not found" });
+        }
+        
+        await logActivity(
+          userId,
+          approved ? 'approve' : 'reject',
+          'time_entry',
+          entry.id,
+          entry.startedAt.toISOString().slice(0, 10),
+          approved ? undefined : rejectionReason,
+          req
+        );
+        
+        res.json(entry);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid review data", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error reviewing time entry:", error);
+        res.status(500).json({ message: "Failed to review time entry" });
+      }
+    }
+  );
+
+  // Bill approved time on a draft invoice
+  app.post("/api/invoices/:id/time-entries",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageFinancial')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const { entryIds } = invoiceTimeEntriesSchema.parse(req.body);
+        const invoice = await storage.addTimeEntriesToInvoice(req.params.id, entryIds);
+        
+        await logActivity(
+          userId,
+          'update',
+          'invoice',
+          invoice.id,
+          invoice.invoiceNumber,
+          `Added ${entryIds.length} time entr${entryIds.length === 1 ? 'y' : 'ies'} to the invoice`,
+          req
+        );
+        
+        res.json(invoice);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Invalid time entries", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error adding time to invoice:", error);
+        res.status(500).json({ message: "Failed to add time to invoice" });
+      }
+    }
+  );
+
+  // Sales routes
+  app.post("/api/sales",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !['sales', 'admin'].includes(user.role)) {
+          return res.status(403).json({ message: "Sales access required" });
+        }
+        
+        const validatedData = insertSalesRecordSchema.parse(req.body);
+        const newRecord = await storage.createSalesRecord(validatedData);
+        res.status(201).json(newRecord);
+      } catch (error) {
+        console.error("Error creating sales record:", error);
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid sales data", errors: error.errors });
+        }
+        res.status(500).json({ message: "Failed to create sales record" });
+      }
+    }
+  );
+
+  app.get("/api/sales",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !['sales', 'admin'].includes(user.role)) {
+          return res.status(403).json({ message: "Sales access required" });
+        }
+        
+        const filters: any = {};
+        if (req.query.salesRepId) filters.salesRepId = req.query.salesRepId;
+        if (req.query.clientId) filters.clientId = req.query.clientId;
+        if (req.query.status) filters.status = req.query.status;
+        
+        // Sales role can only see their own records
+        if (user.role === 'sales') {
+          filters.salesRepId = userId;
+        }
+        
+        const records = await storage.getSalesRecords(filters);
+        res.json(records);
+      } catch (error) {
+        console.error("Error fetching sales records:", error);
+        res.status(500).json({ message: "Failed to fetch sales records" });
+      }
+    }
+  );
+
+  app.get("/api/sales/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !['sales', 'admin'].includes(user.role)) {
+          return res.status(403).json({ message: "Sales access required" });
+        }
+        
+        const record = await storage.getSalesRecord(req.params.id);
+        if (!record) {
+          return res.status(404).json({ message: "Sales record not found" });
+        }
+        
+        // Sales role can only see their own records
+        if (user.role === 'sales' && record.salesRepId !== userId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        
+        res.json(record);
+      } catch (error) {
+        console.error("Error fetching sales record:", error);
+        res.status(500).json({ message: "Failed to fetch sales record" });
+      }
+    }
+  );
+
+  app.put("/api/sales/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !['sales', 'admin'].includes(user.role)) {
+          return res.status(403).json({ message: "Sales access required" });
+        }
+        
+        const record = await storage.getSalesRecord(req.params.id);
+        if (!record) {
+          return res.status(404).json({ message: "Sales record not found" });
+        }
+        
+        // Sales role can only edit their own records
+        if (user.role === 'sales' && record.salesRepId !== userId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        
+        const validatedData = updateSalesRecordSchema.parse(req.body);
+        const updatedRecord = await storage.updateSalesRecord(req.params.id, validatedData);
+        res.json(updatedRecord);
+      } catch (error) {
+        console.error("Error updating sales record:", error);
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid sales data", errors: error.errors });
+        }
+        res.status(500).json({ message: "Failed to update sales record" });
+      }
+    }
+  );
+
+  app.delete("/api/sales/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !['sales', 'admin'].includes(user.role)) {
+          return res.status(403).json({ message: "Sales access required" });
+        }
+        
+        const record = await storage.getSalesRecord(req.params.id);
+        if (!record) {
+          return res.status(404).json({ message: "Sales record not found" });
+        }
+        
+        // Sales role can only delete their own records
+        if (user.role === 'sales' && record.salesRepId !== userId) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        
+        await storage.deleteSalesRecord(req.params.id);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error deleting sales record:", error);
+        res.status(500).json({ message: "Failed to delete sales record" });
+      }
+    }
+  );
+
+  // Financial logs routes (admin read-only)
+  app.get("/api/financial-logs",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !user.role || !hasPermission(user.role, 'viewFinancial')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const filters: any = {};
+        if (req.query.entityType) filters.entityType = req.query.entityType;
+        if (req.query.userId) filters.userId = req.query.userId;
+        if (req.query.logType) filters.logType = req.query.logType;
+        if (req.query.limit) filters.limit = parseInt(req.query.limit as string);
+        
+        const logs = await storage.getFinancialLogs(filters);
+        res.json(logs);
+      } catch (error) {
+        console.error("Error fetching financial logs:", error);
+        res.status(500).json({ message: "Failed to fetch financial logs" });
+      }
+    }
+  );
+
+  // Activity logs routes (admin read-only for audit trail)
+  app.get("/api/activities",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !user.role || !hasPermission(user.role, 'viewActivities')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const filters: any = {};
+        if (req.query.userId) filters.userId = req.query.userId;
+        if (req.query.entityType) filters.entityType = req.query.entityType;
+        if (req.query.action) filters.action = req.query.action;
+        if (req.query.limit) filters.limit = parseInt(req.query.limit as string);
+        
+        const activities = await storage.getActivities(filters);
+        res.json(activities);
+      } catch (error) {
+        console.error("Error fetching activities:", error);
+        res.status(500).json({ message: "Failed to fetch activities" });
+      }
+    }
+  );
+
+  // Inquiry routes (quote requests and contact forms - public POST, sales/admin GET/UPDATE)
+  app.post("/api/inquiries", async (req, res) => {
+    try {
+      const validatedData = insertInquirySchema.parse(req.body);
+      const inquiry = await storage.createInquiry(validatedData);
+      res.status(201).json(inquiry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid inquiry data", errors: error.errors });
+      }
+      console.error("Error creating inquiry:", error);
+      res.status(500).json({ message: "Failed to create inquiry" });
+    }
+  });
+
+  app.get("/api/inquiries",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewAllMessages')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const filters: any = {};
+        if (req.query.type) filters.type = req.query.type;
+        if (req.query.status) filters.status = req.query.status;
+        if (req.query.assignedToId) filters.assignedToId = req.query.assignedToId;
+        
+        const inquiries = await storage.getInquiries(filters);
+        res.json(inquiries);
+      } catch (error) {
+        console.error("Error fetching inquiries:", error);
+        res.status(500).json({ message: "Failed to fetch inquiries" });
+      }
+    }
+  );
+
+  app.get("/api/inquiries/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewAllMessages')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const inquiry = await storage.getInquiry(req.params.id);
+        if (!inquiry) {
+          return res.status(404).json({ message: "Inquiry not found" });
+        }
+        
+        res.json(inquiry);
+      } catch (error) {
+        console.error("Error fetching inquiry:", error);
+        res.status(500).json({ message: "Failed to fetch inquiry" });
+      }
+    }
+  );
+
+  app.patch("/api/inquiries/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageMessages')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = updateInquirySchema.parse(req.body);
+        const inquiry = await storage.updateInquiry(req.params.id, validatedData);
+        
+        if (!inquiry) {
+          return res.status(404).json({ message: "Inquiry not found" });
+        }
+        
+        res.json(inquiry);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid update data", errors: error.errors });
+        }
+        console.error("Error updating inquiry:", error);
+        res.status(500).json({ message: "Failed to update inquiry" });
+      }
+    }
+  );
+
+  app.delete("/api/inquiries/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageMessages')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        await storage.deleteInquiry(req.params.id);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error deleting inquiry:", error);
+        res.status(500).json({ message: "Failed to delete inquiry" });
+      }
+    }
+  );
+
+  // ===== Lead Routes (CRM) =====
+  app.post("/api/leads",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageLeads')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = insertLeadSchema.parse(req.body);
+        const lead = await storage.createLead({
+          ...validatedData,
+          assignedToId: validatedData.assignedToId || userId,
+        });
+        
+        res.status(201).json(lead);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid lead data", errors: error.errors });
+        }
+        console.error("Error creating lead:", error);
+        res.status(500).json({ message: "Failed to create lead" });
+      }
+    }
+  );
+
+  app.post("/api/leads/convert-from-inquiry/:inquiryId",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageLeads')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const lead = await storage.convertInquiryToLead(req.params.inquiryId, userId);
+        res.status(201).json(lead);
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Inquiry not found') {
+          return res.status(404).json({ message: "Inquiry not found" });
+        }
+        if (error instanceof Error && error.message === 'Inquiry already converted to lead') {
+          return res.status(400).json({ message: "Inquiry already converted to lead" });
+        }
+        console.error("Error converting inquiry to lead:", error);
+        res.status(500).json({ message: "Failed to convert inquiry to lead" });
+      }
+    }
+  );
+
+  app.get("/api/leads",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewLeads')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const filters: any = {};
+        if (req.query.source) filters.source = req.query.source;
+        if (req.query.status) filters.status = req.query.status;
+        if (req.query.assignedToId) filters.assignedToId = req.query.assignedToId;
+        
+        const leads = await storage.getLeads(filters);
+        res.json(leads);
+      } catch (error) {
+        console.error("Error fetching leads:", error);
+        res.status(500).json({ message: "Failed to fetch leads" });
+      }
+    }
+  );
+
+  app.get("/api/leads/:id/appointments",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewLeads')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const appointments = await storage.getLeadAppointments(req.params.id);
+        res.json(appointments);
+      } catch (error) {
+        console.error("Error fetching lead appointments:", error);
+        res.status(500).json({ message: "Failed to fetch lead appointments" });
+      }
+    }
+  );
+
+  app.get("/api/leads/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewLeads')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const lead = await storage.getLead(req.params.id);
+        
+        if (!lead) {
+          return res.status(404).json({ message: "Lead not found" });
+        }
+        
+        res.json(lead);
+      } catch (error) {
+        console.error("Error fetching lead:", error);
+        res.status(500).json({ message: "Failed to fetch lead" });
+      }
+    }
+  );
+
+  app.patch("/api/leads/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageLeads')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = updateLeadSchema.parse(req.body);
+        const lead = await storage.updateLead(req.params.id, validatedData);
+        
+        if (!lead) {
+          return res.status(404).json({ message: "Lead not found" });
+        }
+        
+        res.json(lead);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid update data", errors: error.errors });
+        }
+        console.error("Error updating lead:", error);
+        res.status(500).json({ message: "Failed to update lead" });
+      }
+    }
+  );
+
+  app.delete("/api/leads/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageLeads')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        await storage.deleteLead(req.params.id);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error deleting lead:", error);
+        res.status(500).json({ message: "Failed to delete lead" });
+      }
+    }
+  );
+
+  // ===== Client Routes (CRM) =====
+  app.post("/api/clients",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageClients')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = insertClientSchema.parse(req.body);
+        const client = await storage.createClient(validatedData);
+        
+        res.status(201).json(client);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid client data", errors: error.errors });
+        }
+        console.error("Error creating client:", error);
+        res.status(500).json({ message: "Failed to create client" });
+      }
+    }
+  );
+
+  app.post("/api/clients/convert-from-lead/:leadId",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageLeads')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const { accountManagerId, ...additionalData } = req.body;
+        const client = await storage.convertLeadToClient(
+          req.params.leadId, 
+          accountManagerId || userId,
+          additionalData
+        );
+        res.status(201).json(client);
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Lead not found') {
+          return res.status(404).json({ message: "Lead not found" });
+        }
+        if (error instanceof Error && error.message === 'Lead already converted to client') {
+          return res.status(400).json({ message: "Lead already converted to client" });
+        }
+        console.error("Error converting lead to client:", error);
+        res.status(500).json({ message: "Failed to convert lead to client" });
+      }
+    }
+  );
+
+  app.get("/api/clients",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewClients')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const filters: any = {};
+        if (req.query.status) filters.status = req.query.status;
+        if (req.query.accountManagerId) filters.accountManagerId = req.query.accountManagerId;
+        
+        const clients = await storage.getClients(filters);
+        res.json(clients);
+      } catch (error) {
+        console.error("Error fetching clients:", error);
+        res.status(500).json({ message: "Failed to fetch clients" });
+      }
+    }
+  );
+
+  app.get("/api/clients/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewClients')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const client = await storage.getClient(req.params.id);
+        
+        if (!client) {
+          return res.status(404).json({ message: "Client not found" });
+        }
+        
+        res.json(client);
+      } catch (error) {
+        console.error("Error fetching client:", error);
+        res.status(500).json({ message: "Failed to fetch client" });
+      }
+    }
+  );
+
+  // Installed serialised equipment at a client's sites, soonest warranty expiry first
+  app.get("/api/clients/:id/equipment",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !user.role) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        if (user.role === 'client') {
+          const { clientIds } = await getUserClientLeadIds(userId);
+          if (!clientIds.includes(req.params.id)) {
+            return res.status(403).json({ message: "Permission denied" });
+          }
+        } else if (!hasPermission(user.role, 'viewClients')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const equipment = await storage.getClientEquipment(req.params.id);
+        res.json(equipment);
+      } catch (error) {
+        console.error("Error fetching client equipment:", error);
+        res.status(500).json({ message: "Failed to fetch client equipment" });
+      }
+    }
+  );
+
+  app.patch("/api/clients/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageClients')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = updateClientSchema.parse(req.body);
+        const client = await storage.updateClient(req.params.id, validatedData);
+        
+        if (!client) {
+          return res.status(404).json({ message: "Client not found" });
+        }
+        
+        res.json(client);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid update data", errors: error.errors });
+        }
+        console.error("Error updating client:", error);
+        res.status(500).json({ message: "Failed to update client" });
+      }
+    }
+  );
+
+  app.delete("/api/clients/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageClients')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        await storage.deleteClient(req.params.id);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error deleting client:", error);
+        res.status(500).json({ message: "Failed to delete client" });
+      }
+    }
+  );
+
+  // ===== Supplier Routes (Vendors, Suppliers, Partners) =====
+  app.post("/api/suppliers",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageSuppliers')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = insertSupplierSchema.parse(req.body);
+        const supplier = await storage.createSupplier(validatedData);
+        
+        res.status(201).json(supplier);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid supplier data", errors: error.errors });
+        }
+        console.error("Error creating supplier:", error);
+        res.status(500).json({ message: "Failed to create supplier" });
+      }
+    }
+  );
+
+  app.get("/api/suppliers",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewSuppliers')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const filters: any = {};
+        if (req.query.type) filters.type = req.query.type;
+        if (req.query.status) filters.status = req.query.status;
+        
+        const suppliers = await storage.getSuppliers(filters);
+        res.json(suppliers);
+      } catch (error) {
+        console.error("Error fetching suppliers:", error);
+        res.status(500).json({ message: "Failed to fetch suppliers" });
+      }
+    }
+  );
+
+  app.get("/api/suppliers/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewSuppliers')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const supplier = await storage.getSupplier(req.params.id);
+        if (!supplier) {
+          return res.status(404).json({ message: "Supplier not found" });
+        }
+        
+        res.json(supplier);
+      } catch (error) {
+        console.error("Error fetching supplier:", error);
+        res.status(500).json({ message: "Failed to fetch supplier" });
+      }
+    }
+  );
+
+  app.patch("/api/suppliers/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageSuppliers')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = updateSupplierSchema.parse(req.body);
+        const supplier = await storage.updateSupplier(req.params.id, validatedData);
+        
+        if (!supplier) {
+          return res.status(404).json({ message: "Supplier not found" });
+        }
+        
+        res.json(supplier);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid update data", errors: error.errors });
+        }
+        console.error("Error updating supplier:", error);
+        res.status(500).json({ message: "Failed to update supplier" });
+      }
+    }
+  );
+
+  app.delete("/api/suppliers/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageSuppliers')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        await storage.deleteSupplier(req.params.id);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error deleting supplier:", error);
+        res.status(500).json({ message: "Failed to delete supplier" });
+      }
+    }
+  );
+
+  // ===== Purchase Order Routes (stock ordered from suppliers) =====
+  app.get("/api/purchase-orders",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewInventory')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const filters: any = {};
+        if (req.query.supplierId) filters.supplierId = req.query.supplierId;
+        if (req.query.status) filters.status = req.query.status;
+        
+        const orders = await storage.getPurchaseOrders(filters);
+        res.json(orders);
+      } catch (error) {
+        console.error("Error fetching purchase orders:", error);
+        res.status(500).json({ message: "Failed to fetch purchase orders" });
+      }
+    }
+  );
+
+  app.get("/api/purchase-orders/supplier-totals",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
         
-        if (!inquiry) {
-          return res.status(404).json({ message: "Inquiry not found" });
+        if (!user || !hasPermission(user.role, 'viewSuppliers')) {
+          return res.status(403).json({ message: "Permission denied" });
         }
         
-        res.json(inquiry);
+        const totals = await storage.getSupplierOpenOrders();
+        res.json(totals);
       } catch (error) {
-        if (error instanceof z.ZodError) {
-          return res.status(400).json({ message: "Invalid update data", errors: error.errors });
-        }
-        console.error("Error updating inquiry:", error);
-        res.status(500).json({ message: "Failed to update inquiry" });
+        console.error("Error fetching supplier purchase order totals:", error);
+        res.status(500).json({ message: "Failed to fetch supplier purchase order totals" });
       }
     }
   );
 
-  app.delete("/api/inquiries/:id",
+  app.get("/api/purchase-orders/:id",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'manageMessages')) {
+        if (!user || !hasPermission(user.role, 'viewInventory')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        await storage.deleteInquiry(req.params.id);
-        res.status(204).send();
+        const order = await storage.getPurchaseOrder(req.params.id);
+        if (!order) {
+          return res.status(404).json({ message: "Purchase order not found" });
+        }
+        
+        res.json(order);
       } catch (error) {
-        console.error("Error deleting inquiry:", error);
-        res.status(500).json({ message: "Failed to delete inquiry" });
+        console.error("Error fetching purchase order:", error);
+        res.status(500).json({ message: "Failed to fetch purchase order" });
       }
     }
   );
 
-  // ===== Lead Routes (CRM) =====
-  app.post("/api/leads",
+  app.post("/api/purchase-orders",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'manageLeads')) {
+        if (!user || !hasPermission(user.role, 'manageInventory')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const validatedData = insertLeadSchema.parse(req.body);
-        const lead = await storage.createLead({
-          ...validatedData,
-          assignedToId: validatedData.assignedToId || userId,
-        });
+        const validatedData = insertPurchaseOrderSchema.parse(req.body);
+        const supplier = await storage.getSupplier(validatedData.supplierId);
+        if (!supplier) {
+          return res.status(404).json({ message: "Supplier not found" });
+        }
         
-        res.status(201).json(lead);
+        const order = await storage.createPurchaseOrder(validatedData, userId);
+        
+        await logActivity(
+          userId,
+          'create_purchase_order',
+          'purchase_order',
+          order.id,
+          order.poNumber,
+          `Drafted ${order.poNumber} for ${supplier.companyName} (${order.lines.length} line(s))`,
+          req
+        );
+        
+        res.status(201).json(order);
       } catch (error) {
         if (error instanceof z.ZodError) {
-          return res.status(400).json({ message: "Invalid lead data", errors: error.errors });
+          return res.status(400).json({ message: "Invalid purchase order data", errors: error.errors });
         }
-        console.error("Error creating lead:", error);
-        res.status(500).json({ message: "Failed to create lead" });
+        console.error("Error creating purchase order:", error);
+        res.status(500).json({ message: "Failed to create purchase order" });
       }
     }
   );
 
-  app.post("/api/leads/convert-from-inquiry/:inquiryId",
+  app.patch("/api/purchase-orders/:id",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'manageLeads')) {
+        if (!user || !hasPermission(user.role, 'manageInventory')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const lead = await storage.convertInquiryToLead(req.params.inquiryId, userId);
-        res.status(201).json(lead);
+        const validatedData = updatePurchaseOrderSchema.parse(req.body);
+        const order = await storage.updatePurchaseOrder(req.params.id, validatedData);
+        if (!order) {
+          return res.status(404).json({ message: "Purchase order not found" });
+        }
+        
+        res.json(order);
       } catch (error) {
-        if (error instanceof Error && error.message === 'Inquiry not found') {
-          return res.status(404).json({ message: "Inquiry not found" });
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid purchase order data", errors: error.errors });
         }
-        if (error instanceof Error && error.message === 'Inquiry already converted to lead') {
-          return res.status(400).json({ message: "Inquiry already converted to lead" });
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
         }
-        console.error("Error converting inquiry to lead:", error);
-        res.status(500).json({ message: "Failed to convert inquiry to lead" });
+        console.error("Error updating purchase order:", error);
+        res.status(500).json({ message: "Failed to update purchase order" });
       }
     }
   );
 
-  app.get("/api/leads",
+  app.post("/api/purchase-orders/:id/send",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'viewLeads')) {
+        if (!user || !hasPermission(user.role, 'manageInventory')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const filters: any = {};
-        if (req.query.source) filters.source = req.query.source;
-        if (req.query.status) filters.status = req.query.status;
-        if (req.query.assignedToId) filters.assignedToId = req.query.assignedToId;
+        const order = await storage.sendPurchaseOrder(req.params.id);
+        if (!order) {
+          return res.status(404).json({ message: "Purchase order not found" });
+        }
+        
+        // The order is sent once recorded; a mail failure shouldn't roll that back
+        const supplier = await storage.getSupplier(order.supplierId);
+        if (supplier?.email) {
+          const systemConfig = await storage.getSystemConfig();
+          const companyName = systemConfig?.companyName || 'FibreUS';
+          try {
+            await sendMail({
+              to: supplier.email,
+              subject: `Purchase order ${order.poNumber} from ${companyName}`,
+              text: [
+                `Hi ${supplier.contactPerson || 'there'},`,
+                '',
+                `Please supply the following against purchase order ${order.poNumber}:`,
+                '',
+                ...order.lines.map(line => `  ${line.quantityOrdered} x ${line.sku} ${line.itemName} @ $${parseFloat(line.unitCost).toFixed(2)}`),
+                '',
+                `Order total: $${parseFloat(order.total).toFixed(2)}`,
+                ...(order.expectedDate ? [`Requested delivery: ${new Date(order.expectedDate).toDateString()}`] : []),
+                ...(order.notes ? ['', order.notes] : []),
+                '',
+                `Please quote ${order.poNumber} on your invoice and delivery paperwork.`,
+              ].join('\n'),
+            });
+          } catch (mailError) {
+            console.error("Failed to email purchase order:", mailError);
+          }
+        }
         
-        const leads = await storage.getLeads(filters);
-        res.json(leads);
+        await logActivity(
+          userId,
+          'send_purchase_order',
+          'purchase_order',
+          order.id,
+          order.poNumber,
+          `Sent ${order.poNumber} to ${order.supplierName}`,
+          req
+        );
+        
+        res.json(order);
       } catch (error) {
-        console.error("Error fetching leads:", error);
-        res.status(500).json({ message: "Failed to fetch leads" });
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error sending purchase order:", error);
+        res.status(500).json({ message: "Failed to send purchase order" });
       }
     }
   );
 
-  app.get("/api/leads/:id",
+  app.post("/api/purchase-orders/:id/receive",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'viewLeads')) {
+        if (!user || !hasPermission(user.role, 'manageInventory')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const lead = await storage.getLead(req.params.id);
-        
-        if (!lead) {
-          return res.status(404).json({ message: "Lead not found" });
+        const receipt = receivePurchaseOrderSchema.parse(req.body);
+        const order = await storage.receivePurchaseOrder(req.params.id, receipt, userId);
+        if (!order) {
+          return res.status(404).json({ message: "Purchase order not found" });
         }
         
-        res.json(lead);
+        const units = receipt.lines.reduce((sum, line) => sum + line.quantity, 0);
+        await logActivity(
+          userId,
+          'receive_purchase_order',
+          'purchase_order',
+          order.id,
+          order.poNumber,
+          `Received ${units} unit(s) against ${order.poNumber}; order is now ${order.status.replace('_', ' ')}`,
+          req
+        );
+        
+        res.json(order);
       } catch (error) {
-        console.error("Error fetching lead:", error);
-        res.status(500).json({ message: "Failed to fetch lead" });
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid receipt data", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error receiving purchase order:", error);
+        res.status(500).json({ message: "Failed to receive purchase order" });
       }
     }
   );
 
-  app.patch("/api/leads/:id",
+  app.post("/api/purchase-orders/:id/cancel",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'manageLeads')) {
+        if (!user || !hasPermission(user.role, 'manageInventory')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const validatedData = updateLeadSchema.parse(req.body);
-        const lead = await storage.updateLead(req.params.id, validatedData);
-        
-        if (!lead) {
-          return res.status(404).json({ message: "Lead not found" });
+        const order = await storage.cancelPurchaseOrder(req.params.id);
+        if (!order) {
+          return res.status(404).json({ message: "Purchase order not found" });
         }
         
-        res.json(lead);
+        await logActivity(
+          userId,
+          'cancel_purchase_order',
+          'purchase_order',
+          order.id,
+          order.poNumber,
+          `Cancelled ${order.poNumber}`,
+          req
+        );
+        
+        res.json(order);
       } catch (error) {
-        if (error instanceof z.ZodError) {
-          return res.status(400).json({ message: "Invalid update data", errors: error.errors });
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
         }
-        console.error("Error updating lead:", error);
-        res.status(500).json({ message: "Failed to update lead" });
+        console.error("Error cancelling purchase order:", error);
+        res.status(500).json({ message: "Failed to cancel purchase order" });
       }
     }
   );
 
-  app.delete("/api/leads/:id",
+  // ===== Serial Number Routes (serialised units, allocation to jobs, warranties) =====
+  app.get("/api/serials",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'manageLeads')) {
+        if (!user || !hasPermission(user.role, 'viewInventory')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        await storage.deleteLead(req.params.id);
-        res.status(204).send();
+        const filters = serialSearchQuerySchema.parse(req.query);
+        const units = await storage.searchSerializedUnits(filters);
+        res.json(units);
       } catch (error) {
-        console.error("Error deleting lead:", error);
-        res.status(500).json({ message: "Failed to delete lead" });
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid search", errors: error.errors });
+        }
+        console.error("Error searching serial numbers:", error);
+        res.status(500).json({ message: "Failed to search serial numbers" });
       }
     }
   );
 
-  // ===== Client Routes (CRM) =====
-  app.post("/api/clients",
+  app.get("/api/serials/warranty-expiring",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'manageClients')) {
+        if (!user || !hasPermission(user.role, 'viewClients')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const validatedData = insertClientSchema.parse(req.body);
-        const client = await storage.createClient(validatedData);
-        
-        res.status(201).json(client);
+        const days = Math.min(Math.max(parseInt(req.query.days) || 90, 1), 730);
+        const units = await storage.getWarrantyExpiringUnits(days);
+        res.json(units);
       } catch (error) {
-        if (error instanceof z.ZodError) {
-          return res.status(400).json({ message: "Invalid client data", errors: error.errors });
-        }
-        console.error("Error creating client:", error);
-        res.status(500).json({ message: "Failed to create client" });
+        console.error("Error fetching expiring warranties:", error);
+        res.status(500).json({ message: "Failed to fetch expiring warranties" });
       }
     }
   );
 
-  app.post("/api/clients/convert-from-lead/:leadId",
+  app.post("/api/inventory/items/:id/serials",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'manageLeads')) {
+        if (!user || !hasPermission(user.role, 'manageInventory')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const { accountManagerId, ...additionalData } = req.body;
-        const client = await storage.convertLeadToClient(
-          req.params.leadId, 
-          accountManagerId || userId,
-          additionalData
-        );
-        res.status(201).json(client);
+        const validatedData = registerSerialsSchema.parse(req.body);
+        const units = await storage.registerSerializedUnits(req.params.id, validatedData);
+        res.status(201).json(units);
       } catch (error) {
-        if (error instanceof Error && error.message === 'Lead not found') {
-          return res.status(404).json({ message: "Lead not found" });
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Invalid serial numbers", errors: error.errors });
         }
-        if (error instanceof Error && error.message === 'Lead already converted to client') {
-          return res.status(400).json({ message: "Lead already converted to client" });
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
         }
-        console.error("Error converting lead to client:", error);
-        res.status(500).json({ message: "Failed to convert lead to client" });
+        console.error("Error registering serial numbers:", error);
+        res.status(500).json({ message: "Failed to register serial numbers" });
       }
     }
   );
 
-  app.get("/api/clients",
+  app.get("/api/projects/:id/serials",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'viewClients')) {
-          return res.status(403).json({ message: "Permission denied" });
+        if (!user || !user.role) {
+          return res.status(401).json({ message: "User not found" });
         }
         
-        const filters: any = {};
-        if (req.query.status) filters.status = req.query.status;
-        if (req.query.accountManagerId) filters.accountManagerId = req.query.accountManagerId;
+        const project = await storage.getProject(req.params.id);
+        if (!project) {
+          return res.status(404).json({ message: "Project not found" });
+        }
         
-        const clients = await storage.getClients(filters);
-        res.json(clients);
+        if (user.role === 'client') {
+          const { clientIds, leadIds } = await getUserClientLeadIds(userId);
+          const isOwner = (project.clientId && clientIds.includes(project.clientId)) ||
+                          (project.leadId && leadIds.includes(project.leadId));
+          if (!isOwner) {
+            return res.status(403).json({ message: "Permission denied" });
+          }
+        } else if (!canViewAssignedProject(user, project)) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const units = await storage.getProjectSerializedUnits(project.id);
+        // Clients only see what was actually installed at their site
+        res.json(user.role === 'client' ? units.filter(unit => unit.status === 'installed') : units);
       } catch (error) {
-        console.error("Error fetching clients:", error);
-        res.status(500).json({ message: "Failed to fetch clients" });
+        console.error("Error fetching project serial numbers:", error);
+        res.status(500).json({ message: "Failed to fetch project equipment" });
       }
     }
   );
 
-  app.get("/api/clients/:id",
+  app.post("/api/projects/:id/serials",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'viewClients')) {
+        if (!user || !hasPermission(user.role, 'manageInventory')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const client = await storage.getClient(req.params.id);
-        
-        if (!client) {
-          return res.status(404).json({ message: "Client not found" });
+        const project = await storage.getProject(req.params.id);
+        if (!project) {
+          return res.status(404).json({ message: "Project not found" });
         }
         
-        res.json(client);
+        const { unitIds } = allocateSerialsSchema.parse(req.body);
+        const units = await storage.allocateSerializedUnits(project.id, unitIds);
+        
+        await logActivity(
+          userId,
+          'allocate_serials',
+          'project',
+          project.id,
+          project.projectName,
+          `Allocated serial(s) ${units.map(unit => unit.serialNumber).join(', ')}`,
+          req
+        );
+        
+        res.json(units);
       } catch (error) {
-        console.error("Error fetching client:", error);
-        res.status(500).json({ message: "Failed to fetch client" });
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Invalid allocation", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error allocating serial numbers:", error);
+        res.status(500).json({ message: "Failed to allocate serial numbers" });
       }
     }
   );
 
-  app.patch("/api/clients/:id",
+  // ===== Project Material Routes =====
+  app.get("/api/projects/:id/materials",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'manageClients')) {
-          return res.status(403).json({ message: "Permission denied" });
+        if (!user || !user.role) {
+          return res.status(401).json({ message: "User not found" });
         }
         
-        const validatedData = updateClientSchema.parse(req.body);
-        const client = await storage.updateClient(req.params.id, validatedData);
+        const project = await storage.getProject(req.params.id);
+        if (!project) {
+          return res.status(404).json({ message: "Project not found" });
+        }
         
-        if (!client) {
-          return res.status(404).json({ message: "Client not found" });
+        if (user.role === 'client') {
+          const { clientIds, leadIds } = await getUserClientLeadIds(userId);
+          const isOwner = (project.clientId && clientIds.includes(project.clientId)) ||
+                          (project.leadId && leadIds.includes(project.leadId));
+          if (!isOwner) {
+            return res.status(403).json({ message: "Permission denied" });
+          }
+        } else if (!hasPermission(user.role, 'viewOwnProjects') && !hasPermission(user.role, 'viewAllProjects')) {
+          return res.status(403).json({ message: "Permission denied" });
         }
         
-        res.json(client);
-      } catch (error) {
-        if (error instanceof z.ZodError) {
-          return res.status(400).json({ message: "Invalid update data", errors: error.errors });
+        const materials = await storage.getProjectMaterials(project.id);
+        if (user.role === 'client') {
+          // Clients see what went into their job, not our costs
+          return res.json(materials.map(({ unitCost, totalCost, currentUnitCost, ...material }) => material));
         }
-        console.error("Error updating client:", error);
-        res.status(500).json({ message: "Failed to update client" });
+        res.json(materials);
+      } catch (error) {
+        console.error("Error fetching project materials:", error);
+        res.status(500).json({ message: "Failed to fetch project materials" });
       }
     }
   );
 
-  app.delete("/api/clients/:id",
+  app.post("/api/projects/:id/materials",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'manageClients')) {
+        if (!user || !user.role) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        const project = await storage.getProject(req.params.id);
+        if (!project) {
+          return res.status(404).json({ message: "Project not found" });
+        }
+        if (!canManageProjectMaterials(user, project)) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        await storage.deleteClient(req.params.id);
-        res.status(204).send();
+        const validatedData = insertProjectMaterialSchema.parse(req.body);
+        const material = await storage.addProjectMaterial(project.id, validatedData, userId);
+        res.status(201).json(material);
       } catch (error) {
-        console.error("Error deleting client:", error);
-        res.status(500).json({ message: "Failed to delete client" });
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid material data", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error adding project material:", error);
+        res.status(500).json({ message: "Failed to add project material" });
       }
     }
   );
 
-  // ===== Supplier Routes (Vendors, Suppliers, Partners) =====
-  app.post("/api/suppliers",
+  app.patch("/api/projects/:id/materials/:materialId",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'manageSuppliers')) {
-          return res.status(403).json({ message: "Permission denied" });
+        if (!user || !user.role) {
+          return res.status(401).json({ message: "User not found" });
         }
         
-        const validatedData = insertSupplierSchema.parse(req.body);
-        const supplier = await storage.createSupplier(validatedData);
+        const project = await storage.getProject(req.params.id);
+        const material = await storage.getProjectMaterial(req.params.materialId);
+        if (!project || !material || material.projectId !== project.id) {
+          return res.status(404).json({ message: "Project material not found" });
+        }
+        if (!canManageProjectMaterials(user, project)) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
         
-        res.status(201).json(supplier);
+        const validatedData = updateProjectMaterialSchema.parse(req.body);
+        const updated = await storage.updateProjectMaterial(material.id, validatedData);
+        res.json(updated);
       } catch (error) {
         if (error instanceof z.ZodError) {
-          return res.status(400).json({ message: "Invalid supplier data", errors: error.errors });
+          return res.status(400).json({ message: "Invalid material data", errors: error.errors });
         }
-        console.error("Error creating supplier:", error);
-        res.status(500).json({ message: "Failed to create supplier" });
+        console.error("Error updating project material:", error);
+        res.status(500).json({ message: "Failed to update project material" });
       }
     }
   );
 
-  app.get("/api/suppliers",
+  app.delete("/api/projects/:id/materials/:materialId",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'viewSuppliers')) {
+        if (!user || !user.role) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        const project = await storage.getProject(req.params.id);
+        const material = await storage.getProjectMaterial(req.params.materialId);
+        if (!project || !material || material.projectId !== project.id) {
+          return res.status(404).json({ message: "Project material not found" });
+        }
+        if (!canManageProjectMaterials(user, project)) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const filters: any = {};
-        if (req.query.type) filters.type = req.query.type;
-        if (req.query.status) filters.status = req.query.status;
-        
-        const suppliers = await storage.getSuppliers(filters);
-        res.json(suppliers);
+        await storage.deleteProjectMaterial(material.id);
+        res.json({ message: "Project material removed" });
       } catch (error) {
-        console.error("Error fetching suppliers:", error);
-        res.status(500).json({ message: "Failed to fetch suppliers" });
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error removing project material:", error);
+        res.status(500).json({ message: "Failed to remove project material" });
       }
     }
   );
 
-  app.get("/api/suppliers/:id",
+  app.post("/api/projects/:id/materials/:materialId/consume",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'viewSuppliers')) {
-          return res.status(403).json({ message: "Permission denied" });
+        if (!user || !user.role) {
+          return res.status(401).json({ message: "User not found" });
         }
         
-        const supplier = await storage.getSupplier(req.params.id);
-        if (!supplier) {
-          return res.status(404).json({ message: "Supplier not found" });
+        const project = await storage.getProject(req.params.id);
+        const material = await storage.getProjectMaterial(req.params.materialId);
+        if (!project || !material || material.projectId !== project.id) {
+          return res.status(404).json({ message: "Project material not found" });
+        }
+        if (!canManageProjectMaterials(user, project)) {
+          return res.status(403).json({ message: "Permission denied" });
         }
         
-        res.json(supplier);
+        const validatedData = consumeProjectMaterialSchema.parse(req.body);
+        const consumed = await storage.consumeProjectMaterial(material.id, validatedData, userId, {
+          allowNegative: hasPermission(user.role, 'overrideNegativeStock'),
+          notes: `Used on ${project.ticketNumber}`,
+        });
+        
+        await logActivity(
+          userId,
+          'consume_material',
+          'project',
+          project.id,
+          project.projectName,
+          `Used ${validatedData.quantity} unit(s) of material on the project`,
+          req
+        );
+        
+        res.json(consumed);
       } catch (error) {
-        console.error("Error fetching supplier:", error);
-        res.status(500).json({ message: "Failed to fetch supplier" });
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Invalid quantity", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error consuming project material:", error);
+        res.status(500).json({ message: "Failed to record material usage" });
       }
     }
   );
 
-  app.patch("/api/suppliers/:id",
+  app.post("/api/serials/:id/install",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'manageSuppliers')) {
+        if (!user || !hasPermission(user.role, 'manageInventory')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const validatedData = updateSupplierSchema.parse(req.body);
-        const supplier = await storage.updateSupplier(req.params.id, validatedData);
-        
-        if (!supplier) {
-          return res.status(404).json({ message: "Supplier not found" });
+        const validatedData = installSerialSchema.parse(req.body);
+        const unit = await storage.installSerializedUnit(req.params.id, validatedData, userId, {
+          allowNegative: hasPermission(user.role, 'overrideNegativeStock'),
+        });
+        if (!unit) {
+          return res.status(404).json({ message: "Serial unit not found" });
         }
         
-        res.json(supplier);
+        await logActivity(
+          userId,
+          'install_serial',
+          'project',
+          unit.projectId,
+          null,
+          `Installed serial ${unit.serialNumber}`,
+          req
+        );
+        
+        res.json(unit);
       } catch (error) {
         if (error instanceof z.ZodError) {
-          return res.status(400).json({ message: "Invalid update data", errors: error.errors });
+          return res.status(400).json({ message: "Invalid install data", errors: error.errors });
         }
-        console.error("Error updating supplier:", error);
-        res.status(500).json({ message: "Failed to update supplier" });
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error installing serial unit:", error);
+        res.status(500).json({ message: "Failed to install serial unit" });
       }
     }
   );
 
-  app.delete("/api/suppliers/:id",
+  app.post("/api/serials/:id/release",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'manageSuppliers')) {
+        if (!user || !hasPermission(user.role, 'manageInventory')) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        await storage.deleteSupplier(req.params.id);
-        res.status(204).send();
+        const unit = await storage.releaseSerializedUnit(req.params.id);
+        if (!unit) {
+          return res.status(404).json({ message: "Serial unit not found" });
+        }
+        
+        res.json(unit);
       } catch (error) {
-        console.error("Error deleting supplier:", error);
-        res.status(500).json({ message: "Failed to delete supplier" });
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error releasing serial unit:", error);
+        res.status(500).json({ message: "Failed to release serial unit" });
       }
     }
   );
@@ -3556,7 +6126,8 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'manageSettings')) {
+        // Technicians pick a rate type when clocking in
+        if (!user || (!hasPermission(user.role, 'manageSettings') && !hasPermission(user.role, 'manageOwnTasks'))) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
@@ -3740,7 +6311,8 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         const userId = req.session.userId;
         const user = await storage.getUser(userId);
         
-        if (!user || !hasPermission(user.role, 'manageSettings')) {
+        // Financial managers pick plans when setting up client subscriptions
+        if (!user || !(hasPermission(user.role, 'manageSettings') || hasPermission(user.role, 'manageFinancial'))) {
           return res.status(403).json({ message: "Permission denied" });
         }
         
@@ -3794,12 +6366,179 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         await storage.deleteSupportPlan(req.params.id);
         res.status(204).send();
       } catch (error) {
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
         console.error("Error deleting support plan:", error);
         res.status(500).json({ message: "Failed to delete support plan" });
       }
     }
   );
 
+  // Support subscription routes
+  app.get("/api/support-subscriptions",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewFinancial')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const filters = supportSubscriptionQuerySchema.parse(req.query);
+        const subscriptions = await storage.getSupportSubscriptions(filters);
+        res.json(subscriptions);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid subscription filters", errors: error.errors });
+        }
+        console.error("Error getting support subscriptions:", error);
+        res.status(500).json({ message: "Failed to get support subscriptions" });
+      }
+    }
+  );
+
+  app.get("/api/support-subscriptions/:id/invoices",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewFinancial')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const invoices = await storage.getSubscriptionInvoices(req.params.id);
+        res.json(invoices);
+      } catch (error) {
+        console.error("Error getting subscription invoices:", error);
+        res.status(500).json({ message: "Failed to get subscription invoices" });
+      }
+    }
+  );
+
+  app.post("/api/support-subscriptions",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageFinancial')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = insertSupportSubscriptionSchema.parse(req.body);
+        const created = await storage.createSupportSubscription(validatedData, userId);
+        const subscription = await storage.getSupportSubscription(created.id);
+        
+        await logActivity(
+          userId,
+          'create',
+          'support_subscription',
+          created.id,
+          `${subscription?.clientName} - ${subscription?.planName}`,
+          `Subscribed from ${created.startDate.toLocaleDateString("en-US")}`,
+          req
+        );
+        
+        res.status(201).json(subscription);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid subscription data", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error creating support subscription:", error);
+        res.status(500).json({ message: "Failed to create support subscription" });
+      }
+    }
+  );
+
+  app.put("/api/support-subscriptions/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageFinancial')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = updateSupportSubscriptionSchema.parse(req.body);
+        await storage.updateSupportSubscription(req.params.id, validatedData);
+        const subscription = await storage.getSupportSubscription(req.params.id);
+        
+        await logActivity(
+          userId,
+          'update',
+          'support_subscription',
+          req.params.id,
+          `${subscription?.clientName} - ${subscription?.planName}`,
+          undefined,
+          req
+        );
+        
+        res.json(subscription);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid subscription data", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error updating support subscription:", error);
+        res.status(500).json({ message: "Failed to update support subscription" });
+      }
+    }
+  );
+
+  app.post("/api/support-subscriptions/:id/cancel",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageFinancial')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = cancelSupportSubscriptionSchema.parse(req.body);
+        const cancelled = await storage.cancelSupportSubscription(req.params.id, validatedData);
+        const subscription = await storage.getSupportSubscription(req.params.id);
+        
+        await logActivity(
+          userId,
+          'cancel',
+          'support_subscription',
+          req.params.id,
+          `${subscription?.clientName} - ${subscription?.planName}`,
+          cancelled.status === 'cancelled'
+            ? `Cancelled immediately${validatedData.reason ? `: ${validatedData.reason}` : ''}`
+            : `Set to cancel on ${cancelled.currentPeriodEnd?.toLocaleDateString("en-US")}${validatedData.reason ? `: ${validatedData.reason}` : ''}`,
+          req
+        );
+        
+        res.json(subscription);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid cancellation", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error cancelling support subscription:", error);
+        res.status(500).json({ message: "Failed to cancel support subscription" });
+      }
+    }
+  );
+
   // Referral Program routes
   app.post("/api/referral-programs",
     isSessionAuthenticated,
@@ -3961,19 +6700,100 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         res.status(201).json({ lead, referral });
       } catch (error) {
         if (error instanceof z.ZodError) {
-          return res.status(400).json({ 
-            message: "Invalid referral submission data", 
-            errors: error.errors 
-          });
+          return res.status(400).json({ 
+            message: "Invalid referral submission data", 
+            errors: error.errors 
+          });
+        }
+        console.error("Error creating referral submission:", error);
+        res.status(500).json({ message: "Failed to create referral submission" });
+      }
+    }
+  );
+
+  // Service Types routes
+  app.post("/api/service-types",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageSettings')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = insertServiceTypeSchema.parse(req.body);
+        const serviceType = await storage.createServiceType(validatedData);
+        res.status(201).json(serviceType);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid service type data", errors: error.errors });
+        }
+        console.error("Error creating service type:", error);
+        res.status(500).json({ message: "Failed to create service type" });
+      }
+    }
+  );
+
+  app.get("/api/service-types",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const includeInactive = req.query.includeInactive === 'true';
+        const serviceTypes = await storage.getServiceTypes(includeInactive);
+        res.json(serviceTypes);
+      } catch (error) {
+        console.error("Error getting service types:", error);
+        res.status(500).json({ message: "Failed to get service types" });
+      }
+    }
+  );
+
+  app.get("/api/service-types/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const serviceType = await storage.getServiceType(req.params.id);
+        if (!serviceType) {
+          return res.status(404).json({ message: "Service type not found" });
+        }
+        res.json(serviceType);
+      } catch (error) {
+        console.error("Error getting service type:", error);
+        res.status(500).json({ message: "Failed to get service type" });
+      }
+    }
+  );
+
+  app.patch("/api/service-types/:id",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageSettings')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validatedData = updateServiceTypeSchema.parse(req.body);
+        const serviceType = await storage.updateServiceType(req.params.id, validatedData);
+        if (!serviceType) {
+          return res.status(404).json({ message: "Service type not found" });
+        }
+        res.json(serviceType);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid update data", errors: error.errors });
         }
-        console.error("Error creating referral submission:", error);
-        res.status(500).json({ message: "Failed to create referral submission" });
+        console.error("Error updating service type:", error);
+        res.status(500).json({ message: "Failed to update service type" });
       }
     }
   );
 
-  // Service Types routes
-  app.post("/api/service-types",
+  app.delete("/api/service-types/:id",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
@@ -3984,50 +6804,83 @@ Sitemap: https://${req.get('host')}/sitemap.xml
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const validatedData = insertServiceTypeSchema.parse(req.body);
-        const serviceType = await storage.createServiceType(validatedData);
-        res.status(201).json(serviceType);
+        await storage.deleteServiceType(req.params.id);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error deleting service type:", error);
+        res.status(500).json({ message: "Failed to delete service type" });
+      }
+    }
+  );
+
+  // Service proposal flyer for a lead or client, built from the selected service types
+  app.post("/api/flyers/pdf",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewLeads')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validated = flyerPdfSchema.parse(req.body);
+        const pdf = await renderFlyerPdf(validated);
+        sendPdf(res, 'Flyer.pdf', pdf);
       } catch (error) {
         if (error instanceof z.ZodError) {
-          return res.status(400).json({ message: "Invalid service type data", errors: error.errors });
+          return res.status(400).json({ message: "Invalid flyer data", errors: error.errors });
         }
-        console.error("Error creating service type:", error);
-        res.status(500).json({ message: "Failed to create service type" });
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error rendering flyer PDF:", error);
+        res.status(500).json({ message: "Failed to render flyer PDF" });
       }
     }
   );
 
-  app.get("/api/service-types",
+  // Appointment types offered on the public booking pages
+  app.get("/api/appointment-types",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
         const includeInactive = req.query.includeInactive === 'true';
-        const serviceTypes = await storage.getServiceTypes(includeInactive);
-        res.json(serviceTypes);
+        const types = await storage.getAppointmentTypes(includeInactive);
+        res.json(types);
       } catch (error) {
-        console.error("Error getting service types:", error);
-        res.status(500).json({ message: "Failed to get service types" });
+        console.error("Error getting appointment types:", error);
+        res.status(500).json({ message: "Failed to get appointment types" });
       }
     }
   );
 
-  app.get("/api/service-types/:id",
+  app.post("/api/appointment-types",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
-        const serviceType = await storage.getServiceType(req.params.id);
-        if (!serviceType) {
-          return res.status(404).json({ message: "Service type not found" });
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageSettings')) {
+          return res.status(403).json({ message: "Permission denied" });
         }
-        res.json(serviceType);
+        
+        const validatedData = insertAppointmentTypeSchema.parse(req.body);
+        const type = await storage.createAppointmentType(validatedData);
+        res.status(201).json(type);
       } catch (error) {
-        console.error("Error getting service type:", error);
-        res.status(500).json({ message: "Failed to get service type" });
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid appointment type data", errors: error.errors });
+        }
+        console.error("Error creating appointment type:", error);
+        res.status(500).json({ message: "Failed to create appointment type" });
       }
     }
   );
 
-  app.patch("/api/service-types/:id",
+  app.patch("/api/appointment-types/:id",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
@@ -4038,23 +6891,23 @@ Sitemap: https://${req.get('host')}/sitemap.xml
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        const validatedData = updateServiceTypeSchema.parse(req.body);
-        const serviceType = await storage.updateServiceType(req.params.id, validatedData);
-        if (!serviceType) {
-          return res.status(404).json({ message: "Service type not found" });
+        const validatedData = updateAppointmentTypeSchema.parse(req.body);
+        const type = await storage.updateAppointmentType(req.params.id, validatedData);
+        if (!type) {
+          return res.status(404).json({ message: "Appointment type not found" });
         }
-        res.json(serviceType);
+        res.json(type);
       } catch (error) {
         if (error instanceof z.ZodError) {
           return res.status(400).json({ message: "Invalid update data", errors: error.errors });
         }
-        console.error("Error updating service type:", error);
-        res.status(500).json({ message: "Failed to update service type" });
+        console.error("Error updating appointment type:", error);
+        res.status(500).json({ message: "Failed to update appointment type" });
       }
     }
   );
 
-  app.delete("/api/service-types/:id",
+  app.delete("/api/appointment-types/:id",
     isSessionAuthenticated,
     async (req: any, res) => {
       try {
@@ -4065,11 +6918,14 @@ Sitemap: https://${req.get('host')}/sitemap.xml
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        await storage.deleteServiceType(req.params.id);
+        await storage.deleteAppointmentType(req.params.id);
         res.status(204).send();
       } catch (error) {
-        console.error("Error deleting service type:", error);
-        res.status(500).json({ message: "Failed to delete service type" });
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error deleting appointment type:", error);
+        res.status(500).json({ message: "Failed to delete appointment type" });
       }
     }
   );
@@ -4461,6 +7317,51 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     }
   );
 
+  app.get("/api/quotes/:id/pdf",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        const quote = await storage.getQuote(req.params.id);
+        if (!quote) {
+          return res.status(404).json({ message: "Quote not found" });
+        }
+        
+        // Same audience as the quotes list: client users for their own quotes, staff with viewLeads
+        if (user.role === 'client') {
+          const { clientIds, leadIds } = await getUserClientLeadIds(userId);
+          const ownsQuote = (quote.clientId && clientIds.includes(quote.clientId)) ||
+            (quote.leadId && leadIds.includes(quote.leadId));
+          if (!ownsQuote) {
+            return res.status(403).json({ message: "Permission denied" });
+          }
+          
+          const revision = await storage.getPublishedQuoteRevision(quote);
+          const pdf = await renderQuotePdf(withPublishedRevision(quote, revision), { revisionLabel: revision?.label });
+          return sendPdf(res, `Quote-${quote.quoteNumber}.pdf`, pdf);
+        }
+        
+        if (!hasPermission(user.role, 'viewLeads') && quote.createdById !== userId) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        // Drafts have no issued revision for their current content, so they print unlabelled
+        const revision = quote.status !== 'draft' ? await storage.getPublishedQuoteRevision(quote) : undefined;
+        const pdf = await renderQuotePdf(quote, { revisionLabel: revision?.label });
+        sendPdf(res, `Quote-${quote.quoteNumber}.pdf`, pdf);
+      } catch (error) {
+        console.error("Error rendering quote PDF:", error);
+        res.status(500).json({ message: "Failed to render quote PDF" });
+      }
+    }
+  );
+
   app.post("/api/quotes",
     isSessionAuthenticated,
     async (req: any, res) => {
@@ -4520,7 +7421,7 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         }
         
         const validated = updateQuoteSchema.parse(req.body);
-        const updatedQuote = await storage.updateQuote(req.params.id, validated);
+        const updatedQuote = await storage.updateQuote(req.params.id, validated, userId);
         
         if (!updatedQuote) {
           return res.status(404).json({ message: "Quote not found" });
@@ -4541,6 +7442,9 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         if (error instanceof z.ZodError) {
           return res.status(400).json({ message: "Invalid update data", errors: error.errors });
         }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
         console.error("Error updating quote:", error);
         res.status(500).json({ message: "Failed to update quote" });
       }
@@ -4570,7 +7474,7 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         }
         
         const validated = updateQuoteSchema.parse(req.body);
-        const updatedQuote = await storage.updateQuote(req.params.id, validated);
+        const updatedQuote = await storage.updateQuote(req.params.id, validated, userId);
         
         if (!updatedQuote) {
           return res.status(404).json({ message: "Quote not found" });
@@ -4591,6 +7495,9 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         if (error instanceof z.ZodError) {
           return res.status(400).json({ message: "Invalid update data", errors: error.errors });
         }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
         console.error("Error updating quote:", error);
         res.status(500).json({ message: "Failed to update quote" });
       }
@@ -4628,6 +7535,70 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     }
   );
 
+  // Revision history (rev A, B, C...) of what was sent to the client
+  app.get("/api/quotes/:id/revisions",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        const quote = await storage.getQuote(req.params.id);
+        if (!quote) {
+          return res.status(404).json({ message: "Quote not found" });
+        }
+        
+        // Permission check: manageSettings OR createdById matches current user
+        const hasAccess = hasPermission(user.role, 'manageSettings') || quote.createdById === userId;
+        if (!hasAccess) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const revisions = await storage.getQuoteRevisions(quote.id);
+        res.json(revisions);
+      } catch (error) {
+        console.error("Error fetching quote revisions:", error);
+        res.status(500).json({ message: "Failed to fetch quote revisions" });
+      }
+    }
+  );
+
+  // Signed client acceptance (null until the quote is approved with a signature)
+  app.get("/api/quotes/:id/acceptance",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        const quote = await storage.getQuote(req.params.id);
+        if (!quote) {
+          return res.status(404).json({ message: "Quote not found" });
+        }
+        
+        // Permission check: manageSettings OR createdById matches current user
+        const hasAccess = hasPermission(user.role, 'manageSettings') || quote.createdById === userId;
+        if (!hasAccess) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const acceptance = await storage.getQuoteAcceptance(quote.id);
+        res.json(acceptance ?? null);
+      } catch (error) {
+        console.error("Error fetching quote acceptance:", error);
+        res.status(500).json({ message: "Failed to fetch quote acceptance" });
+      }
+    }
+  );
+
   app.post("/api/quotes/:id/share",
     isSessionAuthenticated,
     async (req: any, res) => {
@@ -4650,14 +7621,16 @@ Sitemap: https://${req.get('host')}/sitemap.xml
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        // Generate crypto-random UUID for shareToken
-        const crypto = await import('crypto');
-        const shareToken = crypto.randomUUID();
+        // Each share creates a separate link (e.g. one per recipient) with its own expiry
+        const shareLink = await createDocumentShareLink('quote', quote.id, userId, req.body);
+        const shareToken = shareLink.token;
         
-        // Update quote with shareToken and shareTokenCreatedAt
+        // Keep the newest token on the quote for printed QR codes and older clients
         const updatedQuote = await storage.updateQuote(req.params.id, {
           shareToken,
-          shareTokenCreatedAt: new Date(),
+          shareTokenCreatedAt: shareLink.createdAt,
+          // updateQuote clears validUntil when it is omitted
+          validUntil: quote.validUntil ? new Date(quote.validUntil).toISOString() : undefined,
         });
         
         if (!updatedQuote) {
@@ -4674,18 +7647,19 @@ Sitemap: https://${req.get('host')}/sitemap.xml
           req
         );
         
-        // Build shareable URL
-        const domain = process.env.REPLIT_DOMAINS ? process.env.REPLIT_DOMAINS.split(',')[0] : 'localhost:5000';
-        const protocol = process.env.REPLIT_DOMAINS ? 'https' : 'http';
-        const shareUrl = `${protocol}://${domain}/quote/${updatedQuote.quoteNumber}/${shareToken}`;
+        const shareUrl = buildShareUrl('quote', updatedQuote.quoteNumber, shareToken);
         
         res.json({
           token: shareToken,
           quoteNumber: updatedQuote.quoteNumber,
           shareUrl,
           shareTokenCreatedAt: updatedQuote.shareTokenCreatedAt,
+          shareLink,
         });
       } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid share link options", errors: error.errors });
+        }
         console.error("Error generating share token for quote:", error);
         res.status(500).json({ message: "Failed to generate share token" });
       }
@@ -4723,10 +7697,8 @@ Sitemap: https://${req.get('host')}/sitemap.xml
           return res.status(403).json({ message: "You can only approve your own quotes" });
         }
         
-        // Update quote status to accepted
-        const updatedQuote = await storage.updateQuote(req.params.id, {
-          status: 'accepted',
-        });
+        // Update quote status to accepted (refused once the quote has expired)
+        const updatedQuote = await storage.respondToQuote(req.params.id, 'accepted', { respondedById: userId });
         
         await logActivity(
           userId,
@@ -4740,6 +7712,9 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         
         res.json(updatedQuote);
       } catch (error) {
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
         console.error("Error approving quote:", error);
         res.status(500).json({ message: "Failed to approve quote" });
       }
@@ -4768,34 +7743,168 @@ Sitemap: https://${req.get('host')}/sitemap.xml
           return res.status(404).json({ message: "Quote not found" });
         }
         
-        // Verify client owns this quote
-        const { clientIds, leadIds } = await getUserClientLeadIds(userId);
-        const isOwner = (quote.clientId && clientIds.includes(quote.clientId)) ||
-                        (quote.leadId && leadIds.includes(quote.leadId));
+        // Verify client owns this quote
+        const { clientIds, leadIds } = await getUserClientLeadIds(userId);
+        const isOwner = (quote.clientId && clientIds.includes(quote.clientId)) ||
+                        (quote.leadId && leadIds.includes(quote.leadId));
+        
+        if (!isOwner) {
+          return res.status(403).json({ message: "You can only reject your own quotes" });
+        }
+        
+        // Update quote status to rejected (refused once the quote has expired)
+        const updatedQuote = await storage.respondToQuote(req.params.id, 'rejected', { respondedById: userId });
+        
+        await logActivity(
+          userId,
+          'reject',
+          'quote',
+          quote.id,
+          quote.quoteNumber,
+          'Client rejected quote',
+          req
+        );
+        
+        res.json(updatedQuote);
+      } catch (error) {
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error rejecting quote:", error);
+        res.status(500).json({ message: "Failed to reject quote" });
+      }
+    }
+  );
+
+  // Re-issue an expired quote as a new draft at current catalog prices
+  app.post("/api/quotes/:id/revise",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageLeads')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const original = await storage.getQuote(req.params.id);
+        if (!original) {
+          return res.status(404).json({ message: "Quote not found" });
+        }
+        
+        const revised = await storage.reviseQuote(original.id, userId);
+        
+        await logActivity(
+          userId,
+          'revise',
+          'quote',
+          revised.id,
+          revised.quoteNumber,
+          `Revised from expired quote ${original.quoteNumber} at current prices`,
+          req
+        );
+        
+        res.status(201).json(revised);
+      } catch (error) {
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error revising quote:", error);
+        res.status(500).json({ message: "Failed to revise quote" });
+      }
+    }
+  );
+
+  // Invoices raised against a quote
+  app.get("/api/quotes/:id/invoices",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewFinancial')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const quote = await storage.getQuote(req.params.id);
+        if (!quote) {
+          return res.status(404).json({ message: "Quote not found" });
+        }
+        
+        const quoteInvoices = await storage.getInvoices({ quoteId: quote.id });
+        res.json(quoteInvoices);
+      } catch (error) {
+        console.error("Error fetching quote invoices:", error);
+        res.status(500).json({ message: "Failed to fetch quote invoices" });
+      }
+    }
+  );
+
+  // Convert an accepted quote into one or more invoices (full, deposit, or progress schedule)
+  app.post("/api/quotes/:id/invoices",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageFinancial')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const quote = await storage.getQuote(req.params.id);
+        if (!quote) {
+          return res.status(404).json({ message: "Quote not found" });
+        }
+        
+        if (quote.status !== 'accepted') {
+          return res.status(400).json({ message: "Only accepted quotes can be converted to invoices" });
+        }
+        
+        const validated = convertQuoteToInvoiceSchema.parse(req.body);
         
-        if (!isOwner) {
-          return res.status(403).json({ message: "You can only reject your own quotes" });
+        let installments: QuoteInvoiceInstallment[];
+        if (validated.mode === 'full') {
+          installments = [{ percentage: 100, dueDate: validated.dueDate }];
+        } else if (validated.mode === 'deposit') {
+          installments = [{
+            percentage: validated.percentage,
+            label: `Deposit (${validated.percentage}%) for quote ${quote.quoteNumber}`,
+            dueDate: validated.dueDate,
+          }];
+        } else {
+          installments = validated.installments.map((installment, index) => ({
+            ...installment,
+            label: installment.label || `Progress billing ${index + 1} of ${validated.installments.length} (${installment.percentage}%) for quote ${quote.quoteNumber}`,
+          }));
         }
         
-        // Update quote status to rejected
-        const updatedQuote = await storage.updateQuote(req.params.id, {
-          status: 'rejected',
-        });
+        const createdInvoices = await storage.createInvoicesFromQuote(quote.id, installments, userId);
         
-        await logActivity(
-          userId,
-          'reject',
-          'quote',
-          quote.id,
-          quote.quoteNumber,
-          'Client rejected quote',
-          req
-        );
+        for (const invoice of createdInvoices) {
+          await logActivity(
+            userId,
+            'create',
+            'invoice',
+            invoice.id,
+            invoice.invoiceNumber,
+            `Generated from quote ${quote.quoteNumber} (${invoice.percentageOfQuote}%)`,
+            req
+          );
+        }
         
-        res.json(updatedQuote);
+        res.status(201).json(createdInvoices);
       } catch (error) {
-        console.error("Error rejecting quote:", error);
-        res.status(500).json({ message: "Failed to reject quote" });
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid conversion request", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error converting quote to invoice:", error);
+        res.status(500).json({ message: "Failed to convert quote to invoice" });
       }
     }
   );
@@ -4871,6 +7980,43 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     }
   );
 
+  app.get("/api/invoices/:id/pdf",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        const invoice = await storage.getInvoice(req.params.id);
+        if (!invoice) {
+          return res.status(404).json({ message: "Invoice not found" });
+        }
+        
+        // Same audience as the invoices list: client users for their own invoices, staff with viewFinancial
+        if (user.role === 'client') {
+          const { clientIds, leadIds } = await getUserClientLeadIds(userId);
+          const ownsInvoice = (invoice.clientId && clientIds.includes(invoice.clientId)) ||
+            (invoice.leadId && leadIds.includes(invoice.leadId));
+          if (!ownsInvoice) {
+            return res.status(403).json({ message: "Permission denied" });
+          }
+        } else if (!hasPermission(user.role, 'viewFinancial') && invoice.createdById !== userId) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const pdf = await renderInvoicePdf(invoice);
+        sendPdf(res, `Invoice-${invoice.invoiceNumber}.pdf`, pdf);
+      } catch (error) {
+        console.error("Error rendering invoice PDF:", error);
+        res.status(500).json({ message: "Failed to render invoice PDF" });
+      }
+    }
+  );
+
   app.post("/api/invoices",
     isSessionAuthenticated,
     async (req: any, res) => {
@@ -4912,6 +8058,9 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         if (error instanceof z.ZodError) {
           return res.status(400).json({ message: "Invalid invoice data", errors: error.errors });
         }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
         console.error("Error creating invoice:", error);
         res.status(500).json({ message: "Failed to create invoice" });
       }
@@ -4951,6 +8100,9 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         if (error instanceof z.ZodError) {
           return res.status(400).json({ message: "Invalid update data", errors: error.errors });
         }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
         console.error("Error updating invoice:", error);
         res.status(500).json({ message: "Failed to update invoice" });
       }
@@ -5001,6 +8153,9 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         if (error instanceof z.ZodError) {
           return res.status(400).json({ message: "Invalid update data", errors: error.errors });
         }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
         console.error("Error updating invoice:", error);
         res.status(500).json({ message: "Failed to update invoice" });
       }
@@ -5038,6 +8193,183 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     }
   );
 
+  // Invoice reminder routes (dunning history and per-invoice pause)
+  app.get("/api/invoices/:id/reminders",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'viewFinancial')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const reminders = await storage.getInvoiceReminders(req.params.id);
+        res.json(reminders);
+      } catch (error) {
+        console.error("Error fetching invoice reminders:", error);
+        res.status(500).json({ message: "Failed to fetch invoice reminders" });
+      }
+    }
+  );
+
+  app.put("/api/invoices/:id/reminders",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageFinancial')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const { paused } = invoiceRemindersPauseSchema.parse(req.body);
+        const updatedInvoice = await storage.setInvoiceRemindersPaused(req.params.id, paused);
+        
+        if (!updatedInvoice) {
+          return res.status(404).json({ message: "Invoice not found" });
+        }
+        
+        await logActivity(
+          userId,
+          paused ? 'reminders_paused' : 'reminders_resumed',
+          'invoice',
+          updatedInvoice.id,
+          updatedInvoice.invoiceNumber,
+          paused ? 'Paused payment reminders' : 'Resumed payment reminders',
+          req
+        );
+        
+        res.json(updatedInvoice);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid request", errors: error.errors });
+        }
+        console.error("Error updating invoice reminders:", error);
+        res.status(500).json({ message: "Failed to update invoice reminders" });
+      }
+    }
+  );
+
+  // Invoice payment routes (payment ledger)
+  app.get("/api/invoices/:id/payments",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        const invoice = await storage.getInvoice(req.params.id);
+        if (!invoice) {
+          return res.status(404).json({ message: "Invoice not found" });
+        }
+        
+        const hasAccess = hasPermission(user.role, 'viewFinancial') || invoice.createdById === userId;
+        if (!hasAccess) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const payments = await storage.getInvoicePayments(req.params.id);
+        res.json(payments);
+      } catch (error) {
+        console.error("Error fetching invoice payments:", error);
+        res.status(500).json({ message: "Failed to fetch invoice payments" });
+      }
+    }
+  );
+
+  app.post("/api/invoices/:id/payments",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageFinancial')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const validated = insertInvoicePaymentSchema.parse(req.body);
+        const { payment, invoice: updatedInvoice } = await storage.recordInvoicePayment(req.params.id, validated, userId);
+        
+        await logActivity(
+          userId,
+          'payment_recorded',
+          'invoice',
+          updatedInvoice.id,
+          updatedInvoice.invoiceNumber,
+          `Recorded ${payment.method} payment of $${payment.amount}`,
+          req
+        );
+        
+        res.status(201).json({ payment, invoice: updatedInvoice });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid payment data", errors: error.errors });
+        }
+        if (error instanceof RequestError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error recording invoice payment:", error);
+        res.status(500).json({ message: "Failed to record payment" });
+      }
+    }
+  );
+
+  app.post("/api/invoices/:id/payments/:paymentId/void",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !hasPermission(user.role, 'manageFinancial')) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const payment = await storage.getInvoicePayment(req.params.paymentId);
+        if (!payment || payment.invoiceId !== req.params.id) {
+          return res.status(404).json({ message: "Payment not found" });
+        }
+        
+        if (payment.voidedAt) {
+          return res.status(400).json({ message: "Payment has already been voided" });
+        }
+        
+        const { reason } = voidInvoicePaymentSchema.parse(req.body);
+        const result = await storage.voidInvoicePayment(payment.id, userId, reason);
+        
+        if (!result) {
+          return res.status(404).json({ message: "Payment not found" });
+        }
+        
+        await logActivity(
+          userId,
+          'payment_voided',
+          'invoice',
+          result.invoice.id,
+          result.invoice.invoiceNumber,
+          `Voided payment of $${payment.amount}: ${reason}`,
+          req
+        );
+        
+        res.json(result);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid void request", errors: error.errors });
+        }
+        console.error("Error voiding invoice payment:", error);
+        res.status(500).json({ message: "Failed to void payment" });
+      }
+    }
+  );
+
   app.post("/api/invoices/:id/share",
     isSessionAuthenticated,
     async (req: any, res) => {
@@ -5060,14 +8392,16 @@ Sitemap: https://${req.get('host')}/sitemap.xml
           return res.status(403).json({ message: "Permission denied" });
         }
         
-        // Generate crypto-random UUID for shareToken
-        const crypto = await import('crypto');
-        const shareToken = crypto.randomUUID();
+        // Each share creates a separate link (e.g. one per recipient) with its own expiry
+        const shareLink = await createDocumentShareLink('invoice', invoice.id, userId, req.body);
+        const shareToken = shareLink.token;
         
-        // Update invoice with shareToken and shareTokenCreatedAt
+        // Keep the newest token on the invoice for printed QR codes and older clients
         const updatedInvoice = await storage.updateInvoice(req.params.id, {
           shareToken,
-          shareTokenCreatedAt: new Date(),
+          shareTokenCreatedAt: shareLink.createdAt,
+          // updateInvoice clears dueDate when it is omitted
+          dueDate: invoice.dueDate ? new Date(invoice.dueDate).toISOString() : undefined,
         });
         
         if (!updatedInvoice) {
@@ -5084,18 +8418,19 @@ Sitemap: https://${req.get('host')}/sitemap.xml
           req
         );
         
-        // Build shareable URL
-        const domain = process.env.REPLIT_DOMAINS ? process.env.REPLIT_DOMAINS.split(',')[0] : 'localhost:5000';
-        const protocol = process.env.REPLIT_DOMAINS ? 'https' : 'http';
-        const shareUrl = `${protocol}://${domain}/invoice/${updatedInvoice.invoiceNumber}/${shareToken}`;
+        const shareUrl = buildShareUrl('invoice', updatedInvoice.invoiceNumber, shareToken);
         
         res.json({
           token: shareToken,
           invoiceNumber: updatedInvoice.invoiceNumber,
           shareUrl,
           shareTokenCreatedAt: updatedInvoice.shareTokenCreatedAt,
+          shareLink,
         });
       } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid share link options", errors: error.errors });
+        }
         console.error("Error generating share token for invoice:", error);
         res.status(500).json({ message: "Failed to generate share token" });
       }
@@ -5160,12 +8495,43 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     }
   );
 
+  // Upload URL for a comment or task attachment; the file is only usable once a comment or task claims it
+  app.post("/api/attachments/upload",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user || !user.role || !userId) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        const { ObjectStorageService } = await import("./objectStorage");
+        const objectStorageService = new ObjectStorageService();
+        const uploadURL = await objectStorageService.getObjectEntityUploadURL();
+        res.json({ uploadURL });
+      } catch (error) {
+        console.error("Error getting attachment upload URL:", error);
+        res.status(500).json({ message: "Failed to get upload URL" });
+      }
+    }
+  );
+
   app.get("/objects/:objectPath(*)",
-    async (req, res) => {
+    async (req: any, res) => {
       try {
-        const { ObjectStorageService, ObjectNotFoundError } = await import("./objectStorage");
+        const { ObjectStorageService } = await import("./objectStorage");
         const objectStorageService = new ObjectStorageService();
         const objectFile = await objectStorageService.getObjectEntityFile(req.path);
+        // Public objects such as logos need no session; attachments are checked against their ACL groups
+        const canAccess = await objectStorageService.canAccessObjectEntity({
+          userId: req.session?.userId,
+          objectFile,
+        });
+        if (!canAccess) {
+          return res.sendStatus(req.session?.userId ? 403 : 401);
+        }
         objectStorageService.downloadObject(objectFile, res);
       } catch (error: any) {
         console.error("Error serving object:", error);
@@ -5455,12 +8821,73 @@ Sitemap: https://${req.get('host')}/sitemap.xml
       if (!user || !hasPermission(user.role, 'viewFinancial')) {
         return res.status(403).json({ message: 'Permission denied' });
       }
-      
-      const metrics = await storage.getFinancialMetrics();
-      res.json(metrics);
+      
+      const metrics = await storage.getFinancialMetrics();
+      res.json(metrics);
+    } catch (error) {
+      console.error('Error fetching financial metrics:', error);
+      res.status(500).json({ message: 'Failed to fetch financial metrics' });
+    }
+  });
+
+  // GET /api/financial/project-profitability - Job costing across projects (viewFinancial permission)
+  app.get('/api/financial/project-profitability', isSessionAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const user = await storage.getUser(userId);
+      
+      if (!user || !hasPermission(user.role, 'viewFinancial')) {
+        return res.status(403).json({ message: 'Permission denied' });
+      }
+      
+      const filters = projectProfitabilityQuerySchema.parse(req.query);
+      const report = await storage.getProjectsProfitability(filters);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid report filters', errors: error.errors });
+      }
+      console.error('Error fetching project profitability:', error);
+      res.status(500).json({ message: 'Failed to fetch project profitability' });
+    }
+  });
+
+  // GET /api/financial/recurring-revenue - MRR/ARR from active support subscriptions (viewFinancial permission)
+  app.get('/api/financial/recurring-revenue', isSessionAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const user = await storage.getUser(userId);
+      
+      if (!user || !hasPermission(user.role, 'viewFinancial')) {
+        return res.status(403).json({ message: 'Permission denied' });
+      }
+      
+      const metrics = await storage.getRecurringRevenueMetrics();
+      res.json(metrics);
+    } catch (error) {
+      console.error('Error fetching recurring revenue:', error);
+      res.status(500).json({ message: 'Failed to fetch recurring revenue' });
+    }
+  });
+
+  // GET /api/projects/:id/profitability - Job costing for one project (viewFinancial permission)
+  app.get('/api/projects/:id/profitability', isSessionAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const user = await storage.getUser(userId);
+      
+      if (!user || !hasPermission(user.role, 'viewFinancial')) {
+        return res.status(403).json({ message: 'Permission denied' });
+      }
+      
+      const profitability = await storage.getProjectProfitability(req.params.id);
+      if (!profitability) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+      res.json(profitability);
     } catch (error) {
-      console.error('Error fetching financial metrics:', error);
-      res.status(500).json({ message: 'Failed to fetch financial metrics' });
+      console.error('Error fetching project profitability:', error);
+      res.status(500).json({ message: 'Failed to fetch project profitability' });
     }
   });
 
@@ -5662,6 +9089,11 @@ Sitemap: https://${req.get('host')}/sitemap.xml
       const { id } = req.params;
       const validatedData = updateRevenueSchema.parse(req.body);
       
+      // Revenue created from an invoice payment is owned by the payment ledger
+      if (await storage.getInvoicePaymentByRevenueId(id)) {
+        return res.status(409).json({ message: 'This revenue entry comes from an invoice payment. Void the payment instead.' });
+      }
+      
       const rev = await storage.updateRevenue(id, validatedData);
       
       if (!rev) {
@@ -5705,6 +9137,10 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         return res.status(404).json({ message: 'Revenue not found' });
       }
       
+      if (await storage.getInvoicePaymentByRevenueId(id)) {
+        return res.status(409).json({ message: 'This revenue entry comes from an invoice payment. Void the payment instead.' });
+      }
+      
       await storage.deleteRevenue(id);
       
       await logActivity(
@@ -5724,6 +9160,118 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     }
   });
 
+  // Share link management (links are created by the per-document share endpoints)
+  app.get("/api/share-links",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        const entityType = req.query.entityType as ShareLinkEntityType;
+        const entityId = req.query.entityId as string;
+        if (!['quote', 'invoice', 'project', 'ticket'].includes(entityType) || !entityId) {
+          return res.status(400).json({ message: "entityType and entityId are required" });
+        }
+        
+        const document = await getShareableDocument(user, entityType, entityId);
+        if (!document) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+        if (!document.canManage) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const links = await storage.getShareLinks(entityType, entityId);
+        res.json(links.map(link => ({
+          ...link,
+          shareUrl: buildShareUrl(entityType, document.documentNumber, link.token),
+        })));
+      } catch (error) {
+        console.error("Error fetching share links:", error);
+        res.status(500).json({ message: "Failed to fetch share links" });
+      }
+    }
+  );
+
+  app.get("/api/share-links/:id/views",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        const link = await storage.getShareLink(req.params.id);
+        if (!link) {
+          return res.status(404).json({ message: "Share link not found" });
+        }
+        
+        const document = await getShareableDocument(user, link.entityType, link.entityId);
+        if (!document?.canManage) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const views = await storage.getShareLinkViews(link.id);
+        res.json(views);
+      } catch (error) {
+        console.error("Error fetching share link views:", error);
+        res.status(500).json({ message: "Failed to fetch share link views" });
+      }
+    }
+  );
+
+  app.post("/api/share-links/:id/revoke",
+    isSessionAuthenticated,
+    async (req: any, res) => {
+      try {
+        const userId = req.session.userId;
+        const user = await storage.getUser(userId);
+        
+        if (!user) {
+          return res.status(401).json({ message: "User not found" });
+        }
+        
+        const link = await storage.getShareLink(req.params.id);
+        if (!link) {
+          return res.status(404).json({ message: "Share link not found" });
+        }
+        
+        const document = await getShareableDocument(user, link.entityType, link.entityId);
+        if (!document?.canManage) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const revoked = await storage.revokeShareLink(link.id, userId);
+        if (!revoked) {
+          return res.status(409).json({ message: "Share link is already revoked" });
+        }
+        
+        await logActivity(
+          userId,
+          'revoke_share_link',
+          link.entityType,
+          link.entityId,
+          document.documentNumber,
+          `Revoked share link${link.label ? ` for ${link.label}` : ''}`,
+          req
+        );
+        
+        res.json(revoked);
+      } catch (error) {
+        console.error("Error revoking share link:", error);
+        res.status(500).json({ message: "Failed to revoke share link" });
+      }
+    }
+  );
+
   // ===========================
   // PUBLIC API ENDPOINTS (No Authentication Required)
   // ===========================
@@ -5734,7 +9282,12 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     try {
       const { quoteNumber, token } = req.params;
       
-      const quote = await storage.getQuoteByShareToken(token);
+      const link = await storage.resolveShareLink('quote', token);
+      if (link.status !== 'active') {
+        return res.status(404).json({ message: shareLinkErrorMessage('Quote', link.status) });
+      }
+      
+      const quote = await storage.getQuote(link.entityId);
       
       if (!quote) {
         return res.status(404).json({ message: 'Quote not found' });
@@ -5745,15 +9298,7 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         return res.status(404).json({ message: 'Quote not found' });
       }
       
-      // Check if token is expired (30 days from creation)
-      if (quote.shareTokenCreatedAt) {
-        const tokenAge = Date.now() - new Date(quote.shareTokenCreatedAt).getTime();
-        const thirtyDaysInMs = 30 * 24 * 60 * 60 * 1000;
-        
-        if (tokenAge > thirtyDaysInMs) {
-          return res.status(404).json({ message: 'Quote link has expired' });
-        }
-      }
+      await recordShareLinkView(link.shareLinkId, req);
       
       // Fetch related data
       const systemConfig = await storage.getSystemConfig();
@@ -5768,8 +9313,25 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         leadInfo = await storage.getLead(quote.leadId);
       }
       
+      const revision = await storage.getPublishedQuoteRevision(quote);
+      const publishedQuote = withPublishedRevision(quote, revision);
+      const legalTerms = await storage.getQuoteLegalTerms();
+      const acceptance = quote.status === 'accepted' ? await storage.getQuoteAcceptance(quote.id) : undefined;
+      
       res.json({
-        quote,
+        quote: publishedQuote,
+        revision: revision ? { revisionNumber: revision.revisionNumber, label: revision.label } : null,
+        isBeingRevised: quote.status === 'draft' && !!revision,
+        legalTerms,
+        acceptance: acceptance
+          ? {
+              signerName: acceptance.signerName,
+              signatureImage: acceptance.signatureImage,
+              acceptedAt: acceptance.acceptedAt,
+              revisionLabel: acceptance.revisionLabel,
+              termsVersion: acceptance.termsVersion,
+            }
+          : null,
         clientInfo,
         leadInfo,
         systemConfig,
@@ -5780,13 +9342,44 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     }
   });
 
+  // GET /api/public/quote/:quoteNumber/:token/pdf - Download the issued quote as a PDF
+  app.get('/api/public/quote/:quoteNumber/:token/pdf', async (req: any, res) => {
+    try {
+      const { quoteNumber, token } = req.params;
+      
+      const link = await storage.resolveShareLink('quote', token);
+      if (link.status !== 'active') {
+        return res.status(404).json({ message: shareLinkErrorMessage('Quote', link.status) });
+      }
+      
+      const quote = await storage.getQuote(link.entityId);
+      if (!quote || quote.quoteNumber !== quoteNumber) {
+        return res.status(404).json({ message: 'Quote not found' });
+      }
+      
+      await recordShareLinkView(link.shareLinkId, req);
+      
+      const revision = await storage.getPublishedQuoteRevision(quote);
+      const pdf = await renderQuotePdf(withPublishedRevision(quote, revision), { revisionLabel: revision?.label });
+      sendPdf(res, `Quote-${quote.quoteNumber}.pdf`, pdf);
+    } catch (error) {
+      console.error('Error rendering public quote PDF:', error);
+      res.status(500).json({ message: 'Failed to render quote PDF' });
+    }
+  });
+
   // POST /api/public/quote/:quoteNumber/:token/approve - Approve quote
   app.post('/api/public/quote/:quoteNumber/:token/approve', async (req: any, res) => {
     try {
       const { quoteNumber, token } = req.params;
-      const { comments } = req.body;
+      const { signerName, signature, termsVersion, comments, revision } = quoteAcceptanceSchema.parse(req.body);
+      
+      const link = await storage.resolveShareLink('quote', token);
+      if (link.status !== 'active') {
+        return res.status(404).json({ message: shareLinkErrorMessage('Quote', link.status) });
+      }
       
-      const quote = await storage.getQuoteByShareToken(token);
+      const quote = await storage.getQuote(link.entityId);
       
       if (!quote) {
         return res.status(404).json({ message: 'Quote not found' });
@@ -5797,20 +9390,19 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         return res.status(404).json({ message: 'Quote not found' });
       }
       
-      // Check if token is expired (30 days from creation)
-      if (quote.shareTokenCreatedAt) {
-        const tokenAge = Date.now() - new Date(quote.shareTokenCreatedAt).getTime();
-        const thirtyDaysInMs = 30 * 24 * 60 * 60 * 1000;
-        
-        if (tokenAge > thirtyDaysInMs) {
-          return res.status(404).json({ message: 'Quote link has expired' });
-        }
-      }
-      
-      // Update quote status to accepted
-      const updatedQuote = await storage.updateQuote(quote.id, {
-        status: 'accepted',
-        notes: comments ? `${quote.notes || ''}\n\nClient Comments: ${comments}`.trim() : quote.notes,
+      // Update quote status to accepted and record the signature (refused once the quote has expired)
+      const updatedQuote = await storage.respondToQuote(quote.id, 'accepted', {
+        notes: comments ? `${quote.notes || ''}\n\nClient Comments: ${comments}`.trim() : undefined,
+        revisionNumber: revision,
+        signature: {
+          signerName,
+          signatureImage: signature,
+          termsVersion,
+          comments: comments || null,
+          ipAddress: req.ip || req.connection?.remoteAddress,
+          userAgent: req.get('user-agent'),
+          signedById: req.session?.userId || null,
+        },
       });
       
       // Log activity
@@ -5820,12 +9412,18 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         'quote',
         quote.id,
         quote.quoteNumber,
-        `Quote ${quote.quoteNumber} approved via public link${comments ? ` with comments: ${comments}` : ''}`,
+        `Quote ${quote.quoteNumber} approved and signed by ${signerName} via public link${comments ? ` with comments: ${comments}` : ''}`,
         req
       );
       
       res.json(updatedQuote);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || 'Invalid acceptance', errors: error.errors });
+      }
+      if (error instanceof RequestError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Error approving quote:', error);
       res.status(500).json({ message: 'Failed to approve quote' });
     }
@@ -5835,9 +9433,14 @@ Sitemap: https://${req.get('host')}/sitemap.xml
   app.post('/api/public/quote/:quoteNumber/:token/reject', async (req: any, res) => {
     try {
       const { quoteNumber, token } = req.params;
-      const { reason } = req.body;
+      const { reason, revision } = req.body;
+      
+      const link = await storage.resolveShareLink('quote', token);
+      if (link.status !== 'active') {
+        return res.status(404).json({ message: shareLinkErrorMessage('Quote', link.status) });
+      }
       
-      const quote = await storage.getQuoteByShareToken(token);
+      const quote = await storage.getQuote(link.entityId);
       
       if (!quote) {
         return res.status(404).json({ message: 'Quote not found' });
@@ -5848,20 +9451,10 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         return res.status(404).json({ message: 'Quote not found' });
       }
       
-      // Check if token is expired (30 days from creation)
-      if (quote.shareTokenCreatedAt) {
-        const tokenAge = Date.now() - new Date(quote.shareTokenCreatedAt).getTime();
-        const thirtyDaysInMs = 30 * 24 * 60 * 60 * 1000;
-        
-        if (tokenAge > thirtyDaysInMs) {
-          return res.status(404).json({ message: 'Quote link has expired' });
-        }
-      }
-      
-      // Update quote status to rejected
-      const updatedQuote = await storage.updateQuote(quote.id, {
-        status: 'rejected',
-        notes: reason ? `${quote.notes || ''}\n\nRejection Reason: ${reason}`.trim() : quote.notes,
+      // Update quote status to rejected (refused once the quote has expired)
+      const updatedQuote = await storage.respondToQuote(quote.id, 'rejected', {
+        notes: reason ? `${quote.notes || ''}\n\nRejection Reason: ${reason}`.trim() : undefined,
+        revisionNumber: Number.isInteger(revision) ? revision : undefined,
       });
       
       // Log activity
@@ -5877,6 +9470,9 @@ Sitemap: https://${req.get('host')}/sitemap.xml
       
       res.json(updatedQuote);
     } catch (error) {
+      if (error instanceof RequestError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Error rejecting quote:', error);
       res.status(500).json({ message: 'Failed to reject quote' });
     }
@@ -5888,16 +9484,20 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     try {
       const { token } = req.params;
       
-      const quote = await storage.getQuoteByShareToken(token);
+      // Old links go through the same expiry and revocation checks as the numbered ones
+      const link = await storage.resolveShareLink('quote', token);
+      if (link.status !== 'active') {
+        return res.status(404).json({ message: shareLinkErrorMessage('Quote', link.status) });
+      }
       
+      const quote = await storage.getQuote(link.entityId);
       if (!quote) {
         return res.status(404).json({ message: 'Quote not found' });
       }
       
-      // Redirect to new URL format with quote number
+      // Redirect to new URL format with quote number; the document itself is only served there
       res.json({
         redirectTo: `/quote/${quote.quoteNumber}/${token}`,
-        quote,
       });
     } catch (error) {
       console.error('Error handling legacy quote link:', error);
@@ -5911,7 +9511,12 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     try {
       const { invoiceNumber, token } = req.params;
       
-      const invoice = await storage.getInvoiceByShareToken(token);
+      const link = await storage.resolveShareLink('invoice', token);
+      if (link.status !== 'active') {
+        return res.status(404).json({ message: shareLinkErrorMessage('Invoice', link.status) });
+      }
+      
+      const invoice = await storage.getInvoice(link.entityId);
       
       if (!invoice) {
         return res.status(404).json({ message: 'Invoice not found' });
@@ -5922,15 +9527,7 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         return res.status(404).json({ message: 'Invoice not found' });
       }
       
-      // Check if token is expired (30 days from creation)
-      if (invoice.shareTokenCreatedAt) {
-        const tokenAge = Date.now() - new Date(invoice.shareTokenCreatedAt).getTime();
-        const thirtyDaysInMs = 30 * 24 * 60 * 60 * 1000;
-        
-        if (tokenAge > thirtyDaysInMs) {
-          return res.status(404).json({ message: 'Invoice link has expired' });
-        }
-      }
+      await recordShareLinkView(link.shareLinkId, req);
       
       // Fetch related data
       const systemConfig = await storage.getSystemConfig();
@@ -5957,22 +9554,51 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     }
   });
 
+  // GET /api/public/invoice/:invoiceNumber/:token/pdf - Download the invoice as a PDF
+  app.get('/api/public/invoice/:invoiceNumber/:token/pdf', async (req: any, res) => {
+    try {
+      const { invoiceNumber, token } = req.params;
+      
+      const link = await storage.resolveShareLink('invoice', token);
+      if (link.status !== 'active') {
+        return res.status(404).json({ message: shareLinkErrorMessage('Invoice', link.status) });
+      }
+      
+      const invoice = await storage.getInvoice(link.entityId);
+      if (!invoice || invoice.invoiceNumber !== invoiceNumber) {
+        return res.status(404).json({ message: 'Invoice not found' });
+      }
+      
+      await recordShareLinkView(link.shareLinkId, req);
+      
+      const pdf = await renderInvoicePdf(invoice);
+      sendPdf(res, `Invoice-${invoice.invoiceNumber}.pdf`, pdf);
+    } catch (error) {
+      console.error('Error rendering public invoice PDF:', error);
+      res.status(500).json({ message: 'Failed to render invoice PDF' });
+    }
+  });
+
   // Legacy redirect: GET /api/public/invoice/:token - Redirect to new format
   // NOTE: This MUST come after the specific routes to avoid matching them
   app.get('/api/public/invoice/:token', async (req: any, res) => {
     try {
       const { token } = req.params;
       
-      const invoice = await storage.getInvoiceByShareToken(token);
+      // Old links go through the same expiry and revocation checks as the numbered ones
+      const link = await storage.resolveShareLink('invoice', token);
+      if (link.status !== 'active') {
+        return res.status(404).json({ message: shareLinkErrorMessage('Invoice', link.status) });
+      }
       
+      const invoice = await storage.getInvoice(link.entityId);
       if (!invoice) {
         return res.status(404).json({ message: 'Invoice not found' });
       }
       
-      // Redirect to new URL format with invoice number
+      // Redirect to new URL format with invoice number; the document itself is only served there
       res.json({
         redirectTo: `/invoice/${invoice.invoiceNumber}/${token}`,
-        invoice,
       });
     } catch (error) {
       console.error('Error handling legacy invoice link:', error);
@@ -5985,26 +9611,23 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     try {
       const { projectNumber, token } = req.params;
       
-      const project = await storage.getProjectByShareToken(token);
+      const link = await storage.resolveShareLink('project', token);
+      if (link.status !== 'active') {
+        return res.status(404).json({ message: shareLinkErrorMessage('Project', link.status) });
+      }
+      
+      const project = await storage.getProject(link.entityId);
       
       if (!project) {
         return res.status(404).json({ message: 'Project not found' });
       }
       
       // Verify project number matches (security check)
-      if (project.projectNumber !== projectNumber) {
+      if (project.ticketNumber !== projectNumber) {
         return res.status(404).json({ message: 'Project not found' });
       }
       
-      // Check if token is expired (30 days from creation)
-      if (project.shareTokenCreatedAt) {
-        const tokenAge = Date.now() - new Date(project.shareTokenCreatedAt).getTime();
-        const thirtyDaysInMs = 30 * 24 * 60 * 60 * 1000;
-        
-        if (tokenAge > thirtyDaysInMs) {
-          return res.status(404).json({ message: 'Project link has expired' });
-        }
-      }
+      await recordShareLinkView(link.shareLinkId, req);
       
       // Fetch related data
       const systemConfig = await storage.getSystemConfig();
@@ -6034,12 +9657,19 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         }
       }
       
+      // Files attached to the project's comments, newest first
+      const comments = await storage.getProjectComments(project.id);
+      const files = comments
+        .flatMap(comment => (comment.attachments as FileAttachment[]).map(attachment => ({ ...attachment, createdAt: comment.createdAt })))
+        .reverse();
+      
       res.json({
         project,
         clientName,
         technicianName,
         systemConfig,
         tickets,
+        files,
       });
     } catch (error) {
       console.error('Error fetching public project:', error);
@@ -6047,12 +9677,39 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     }
   });
 
+  // GET /api/public/project/:projectNumber/:token/files/:objectId - A file attached to the shared project's comments
+  app.get('/api/public/project/:projectNumber/:token/files/:objectId', async (req: any, res) => {
+    try {
+      const { projectNumber, token, objectId } = req.params;
+      
+      const link = await storage.resolveShareLink('project', token);
+      if (link.status !== 'active') {
+        return res.status(404).json({ message: shareLinkErrorMessage('Project', link.status) });
+      }
+      const project = await storage.getProject(link.entityId);
+      if (!project || project.ticketNumber !== projectNumber) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+      
+      const comments = await storage.getProjectComments(project.id);
+      await sendSharedAttachment(res, comments.map(comment => comment.attachments), objectId);
+    } catch (error) {
+      console.error('Error serving public project file:', error);
+      res.status(500).json({ message: 'Failed to fetch file' });
+    }
+  });
+
   // GET /api/public/ticket/:ticketNumber/:token - Fetch ticket by number and shareToken
   app.get('/api/public/ticket/:ticketNumber/:token', async (req: any, res) => {
     try {
       const { ticketNumber, token } = req.params;
       
-      const ticket = await storage.getTicketByShareToken(token);
+      const link = await storage.resolveShareLink('ticket', token);
+      if (link.status !== 'active') {
+        return res.status(404).json({ message: shareLinkErrorMessage('Ticket', link.status) });
+      }
+      
+      const ticket = await storage.getTicket(link.entityId);
       
       if (!ticket) {
         return res.status(404).json({ message: 'Ticket not found' });
@@ -6063,15 +9720,7 @@ Sitemap: https://${req.get('host')}/sitemap.xml
         return res.status(404).json({ message: 'Ticket not found' });
       }
       
-      // Check if token is expired (30 days from creation)
-      if (ticket.shareTokenCreatedAt) {
-        const tokenAge = Date.now() - new Date(ticket.shareTokenCreatedAt).getTime();
-        const thirtyDaysInMs = 30 * 24 * 60 * 60 * 1000;
-        
-        if (tokenAge > thirtyDaysInMs) {
-          return res.status(404).json({ message: 'Ticket link has expired' });
-        }
-      }
+      await recordShareLinkView(link.shareLinkId, req);
       
       // Fetch related data
       const systemConfig = await storage.getSystemConfig();
@@ -6097,6 +9746,28 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     }
   });
 
+  // GET /api/public/ticket/:ticketNumber/:token/files/:objectId - A file attached to the shared ticket's comments
+  app.get('/api/public/ticket/:ticketNumber/:token/files/:objectId', async (req: any, res) => {
+    try {
+      const { ticketNumber, token, objectId } = req.params;
+      
+      const link = await storage.resolveShareLink('ticket', token);
+      if (link.status !== 'active') {
+        return res.status(404).json({ message: shareLinkErrorMessage('Ticket', link.status) });
+      }
+      const ticket = await storage.getTicket(link.entityId);
+      if (!ticket || ticket.ticketNumber !== ticketNumber) {
+        return res.status(404).json({ message: 'Ticket not found' });
+      }
+      
+      const comments = await storage.getTicketComments(ticket.id);
+      await sendSharedAttachment(res, comments.map(comment => comment.attachments), objectId);
+    } catch (error) {
+      console.error('Error serving public ticket file:', error);
+      res.status(500).json({ message: 'Failed to fetch file' });
+    }
+  });
+
   // Public form submission endpoints (no authentication required)
   
   // POST /api/public/quote-request - Submit quote request form
@@ -6126,56 +9797,226 @@ Sitemap: https://${req.get('host')}/sitemap.xml
     }
   });
 
-  // POST /api/public/appointment - Submit appointment request
+  // GET /api/public/appointment-types - Active appointment types for a booking page
+  app.get('/api/public/appointment-types', async (req: any, res) => {
+    try {
+      const types = await storage.getAppointmentTypes();
+      res.json(req.query.kind ? types.filter(type => type.kind === req.query.kind) : types);
+    } catch (error) {
+      console.error('Error fetching appointment types:', error);
+      res.status(500).json({ message: 'Failed to fetch appointment types' });
+    }
+  });
+
+  // GET /api/public/appointment-availability - Open start times for an appointment type on a date
+  app.get('/api/public/appointment-availability', async (req: any, res) => {
+    try {
+      const { appointmentTypeId, date } = appointmentAvailabilityQuerySchema.parse(req.query);
+      const slots = await storage.getAppointmentAvailability(appointmentTypeId, date);
+      res.json(slots);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid availability query', errors: error.errors });
+      }
+      if (error instanceof RequestError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error fetching appointment availability:', error);
+      res.status(500).json({ message: 'Failed to fetch availability' });
+    }
+  });
+
+  // POST /api/public/appointment - Book an appointment slot
   app.post('/api/public/appointment', async (req: any, res) => {
     try {
-      const { name, email, phone, company, appointmentType, preferredDate, preferredTime, notes } = req.body;
-      
-      // Create lead from appointment request
-      const leadData = {
-        name,
-        email,
-        phone,
-        company: company || null,
-        serviceType: appointmentType,
-        notes: `Appointment Request - Type: ${appointmentType}\n\nPreferred Date: ${preferredDate}\nPreferred Time: ${preferredTime}\n\nNotes: ${notes || 'None'}`,
+      const booking = bookAppointmentSchema.parse(req.body);
+      const type = await storage.getAppointmentType(booking.appointmentTypeId);
+      if (!type || !type.isActive || type.kind !== 'appointment') {
+        return res.status(404).json({ message: 'Appointment type not found' });
+      }
+      
+      const appointment = await storage.bookAppointment(booking, {
+        name: booking.name,
+        email: booking.email,
+        phone: booking.phone,
+        company: booking.company || null,
+        serviceType: type.name,
+        notes: `Appointment Booked - Type: ${type.name}\n\nNotes: ${booking.notes || 'None'}`,
         source: 'website' as const,
         status: 'new' as const,
-      };
-      
-      const lead = await storage.createLead(leadData);
+      });
+      await sendAppointmentEmail(appointment, type.name, 'Appointment confirmed');
       
-      res.json({ success: true, leadId: lead.id });
+      res.json({ success: true, leadId: appointment.leadId, appointment: publicAppointment(appointment) });
     } catch (error) {
-      console.error('Error creating appointment request:', error);
-      res.status(500).json({ message: 'Failed to submit appointment request' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid appointment details', errors: error.errors });
+      }
+      if (error instanceof RequestError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error booking appointment:', error);
+      res.status(500).json({ message: 'Failed to book appointment' });
     }
   });
 
-  // POST /api/public/site-visit - Submit site visit request
+  // POST /api/public/site-visit - Book a site visit slot
   app.post('/api/public/site-visit', async (req: any, res) => {
     try {
-      const { name, email, phone, company, propertyAddress, propertyType, serviceInterest, squareFootage, preferredDate, preferredTime, specialRequirements } = req.body;
-      
-      // Create lead from site visit request
-      const leadData = {
-        name,
-        email,
-        phone,
-        company: company || null,
-        serviceType: serviceInterest,
-        address: propertyAddress,
-        notes: `Site Visit Request - Property Type: ${propertyType}\n\nSquare Footage: ${squareFootage || 'Not specified'}\nPreferred Date: ${preferredDate}\nPreferred Time: ${preferredTime}\n\nSpecial Requirements: ${specialRequirements || 'None'}`,
+      const booking = bookSiteVisitSchema.parse(req.body);
+      const type = await storage.getAppointmentType(booking.appointmentTypeId);
+      if (!type || !type.isActive || type.kind !== 'site_visit') {
+        return res.status(404).json({ message: 'Appointment type not found' });
+      }
+      
+      const appointment = await storage.bookAppointment({ ...booking, address: booking.propertyAddress }, {
+        name: booking.name,
+        email: booking.email,
+        phone: booking.phone,
+        company: booking.company || null,
+        serviceType: booking.serviceInterest,
+        address: booking.propertyAddress,
+        notes: `Site Visit Booked - Type: ${type.name}\nProperty Type: ${booking.propertyType}\n\nSquare Footage: ${booking.squareFootage || 'Not specified'}\n\nSpecial Requirements: ${booking.notes || 'None'}`,
         source: 'website' as const,
         status: 'new' as const,
-      };
+      });
+      await sendAppointmentEmail(appointment, type.name, 'Site visit confirmed');
       
-      const lead = await storage.createLead(leadData);
+      res.json({ success: true, leadId: appointment.leadId, appointment: publicAppointment(appointment) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid site visit details', errors: error.errors });
+      }
+      if (error instanceof RequestError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error booking site visit:', error);
+      res.status(500).json({ message: 'Failed to book site visit' });
+    }
+  });
+
+  // GET /api/public/appointments/:token - Fetch a booking from its manage link
+  app.get('/api/public/appointments/:token', async (req: any, res) => {
+    try {
+      const appointment = await storage.getAppointmentByToken(req.params.token);
+      if (!appointment) {
+        return res.status(404).json({ message: 'Appointment not found' });
+      }
+      res.json(publicAppointment(appointment));
+    } catch (error) {
+      console.error('Error fetching appointment:', error);
+      res.status(500).json({ message: 'Failed to fetch appointment' });
+    }
+  });
+
+  // GET /api/public/appointments/:token/ics - Download a booking as a calendar event
+  app.get('/api/public/appointments/:token/ics', async (req: any, res) => {
+    try {
+      const appointment = await storage.getAppointmentByToken(req.params.token);
+      if (!appointment) {
+        return res.status(404).json({ message: 'Appointment not found' });
+      }
       
-      res.json({ success: true, leadId: lead.id });
+      const systemConfig = await storage.getSystemConfig();
+      const calendar = appointmentCalendar(appointment, systemConfig?.companyName || 'FibreUS', businessHoursFromConfig(systemConfig));
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="appointment.ics"');
+      res.send(calendar);
+    } catch (error) {
+      console.error('Error generating appointment calendar:', error);
+      res.status(500).json({ message: 'Failed to generate calendar event' });
+    }
+  });
+
+  // GET /api/calendar/:token.ics - A user's schedule as a subscribable calendar feed
+  app.get('/api/calendar/:token', async (req: any, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByToken(req.params.token.replace(/\.ics$/, ''));
+      const user = feed && await storage.getUser(feed.userId);
+      if (!feed || !user || !user.isActive) {
+        return res.status(404).json({ message: 'Calendar feed not found' });
+      }
+      
+      // Calendar apps re-download the whole feed, so keep it to recent and upcoming work
+      const since = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
+      const { clientIds, leadIds } = user.role === 'client'
+        ? await getUserClientLeadIds(user.id)
+        : { clientIds: [], leadIds: [] };
+      const schedule = await storage.getUserSchedule({ userId: user.id, clientIds, leadIds }, since);
+      const systemConfig = await storage.getSystemConfig();
+      await storage.recordCalendarFeedAccess(feed.id);
+      
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-store');
+      res.send(buildCalendar(`${systemConfig?.companyName || 'FibreUS'} Schedule`, scheduleEvents(schedule), businessHoursFromConfig(systemConfig)));
+    } catch (error) {
+      console.error('Error generating calendar feed:', error);
+      res.status(500).json({ message: 'Failed to generate calendar feed' });
+    }
+  });
+
+  // POST /api/public/appointments/:token/reschedule - Move a booking to another open slot
+  app.post('/api/public/appointments/:token/reschedule', async (req: any, res) => {
+    try {
+      const { startsAt } = rescheduleAppointmentSchema.parse(req.body);
+      const appointment = await storage.rescheduleAppointment(req.params.token, startsAt);
+      if (!appointment) {
+        return res.status(404).json({ message: 'Appointment not found' });
+      }
+      
+      await logActivity(
+        null,
+        'appointment_rescheduled',
+        'appointment',
+        appointment.id,
+        appointment.name,
+        `${appointment.appointmentTypeName} rescheduled via manage link to ${appointment.startsAt.toISOString()}`,
+        req
+      );
+      await sendAppointmentEmail(appointment, appointment.appointmentTypeName, 'Appointment rescheduled');
+      
+      res.json(publicAppointment(appointment));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid reschedule request', errors: error.errors });
+      }
+      if (error instanceof RequestError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error rescheduling appointment:', error);
+      res.status(500).json({ message: 'Failed to reschedule appointment' });
+    }
+  });
+
+  // POST /api/public/appointments/:token/cancel - Cancel a booking and free the technician
+  app.post('/api/public/appointments/:token/cancel', async (req: any, res) => {
+    try {
+      const { reason } = cancelAppointmentSchema.parse(req.body);
+      const appointment = await storage.cancelAppointment(req.params.token, reason);
+      if (!appointment) {
+        return res.status(404).json({ message: 'Appointment not found' });
+      }
+      
+      await logActivity(
+        null,
+        'appointment_cancelled',
+        'appointment',
+        appointment.id,
+        appointment.name,
+        `${appointment.appointmentTypeName} cancelled via manage link${reason ? ` with reason: ${reason}` : ''}`,
+        req
+      );
+      
+      res.json(publicAppointment(appointment));
     } catch (error) {
-      console.error('Error creating site visit request:', error);
-      res.status(500).json({ message: 'Failed to submit site visit request' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid cancellation request', errors: error.errors });
+      }
+      if (error instanceof RequestError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error cancelling appointment:', error);
+      res.status(500).json({ message: 'Failed to cancel appointment' });
     }
   });
 
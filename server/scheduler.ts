@@ -0,0 +1,52 @@
+import { log } from "./vite";
+
+// A recurring background job. Jobs must be idempotent: a run may be retried after a crash.
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: (now: Date) => Promise<void>;
+}
+
+const jobs: ScheduledJob[] = [];
+const timers: NodeJS.Timeout[] = [];
+const running = new Set<string>();
+
+export function registerJob(job: ScheduledJob): void {
+  jobs.push(job);
+}
+
+async function runJob(job: ScheduledJob): Promise<void> {
+  // Skip this tick if the previous run is still going
+  if (running.has(job.name)) {
+    return;
+  }
+  running.add(job.name);
+  try {
+    await job.run(new Date());
+  } catch (error) {
+    console.error(`Scheduled job "${job.name}" failed:`, error);
+  } finally {
+    running.delete(job.name);
+  }
+}
+
+// Starts every registered job. Set DISABLE_SCHEDULER=true to run the server without background jobs.
+export function startScheduler(): void {
+  if (process.env.DISABLE_SCHEDULER === "true") {
+    log("background scheduler disabled", "scheduler");
+    return;
+  }
+  for (const job of jobs) {
+    // First run shortly after boot so a restart doesn't delay work by a full interval
+    timers.push(setTimeout(() => runJob(job), 30 * 1000));
+    timers.push(setInterval(() => runJob(job), job.intervalMs));
+  }
+  log(`started with ${jobs.length} job(s)`, "scheduler");
+}
+
+export function stopScheduler(): void {
+  for (const timer of timers) {
+    clearTimeout(timer);
+  }
+  timers.length = 0;
+}
@@ -0,0 +1,100 @@
+import { storage, type SlaTimer } from "./storage";
+import { sendNotification } from "./notifications";
+import type { ScheduledJob } from "./scheduler";
+import type { Ticket } from "@shared/schema";
+
+const timerLabels: Record<SlaTimer, string> = {
+  first_response: 'first response',
+  resolution: 'resolution',
+};
+
+function formatDue(date: Date | null): string {
+  return date
+    ? date.toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })
+    : "now";
+}
+
+// Lets the assignee know a timer is close to, or past, its target
+async function notifyAssignee(ticket: Ticket, subject: string, body: string): Promise<void> {
+  if (!ticket.assignedToId) {
+    return;
+  }
+  const assignee = await storage.getUser(ticket.assignedToId);
+  if (!assignee?.email) {
+    return;
+  }
+  try {
+    await sendNotification({
+      recipientEmail: assignee.email,
+      recipientName: assignee.firstName,
+      subject,
+      body,
+      entityType: 'ticket',
+      entityId: ticket.id,
+    });
+  } catch (error) {
+    console.error(`Failed to send SLA notification for ticket ${ticket.ticketNumber}:`, error);
+  }
+}
+
+// Flags tickets whose first-response or resolution target has passed, and warns assignees as targets approach
+export async function runSlaMonitor(now: Date = new Date()): Promise<{ breached: number; warned: number }> {
+  let breached = 0;
+  let warned = 0;
+
+  const open = await storage.getTicketsForSlaMonitoring(now);
+  for (const candidate of open) {
+    // One ticket failing shouldn't hold up the rest; it's checked again on the next run
+    try {
+      const result = await storage.checkTicketSla(candidate.id, now);
+      if (!result) {
+        continue;
+      }
+      const { ticket } = result;
+
+      if (result.breached.length > 0) {
+        breached++;
+        const timers = result.breached.map(timer => timerLabels[timer]).join(' and ');
+        await storage.logActivity({
+          action: 'sla_breached',
+          entityType: 'ticket',
+          entityId: ticket.id,
+          entityName: ticket.title,
+          details: `Ticket #${ticket.ticketNumber} breached its ${timers} target`,
+        });
+        await notifyAssignee(
+          ticket,
+          `SLA breached: ticket #${ticket.ticketNumber}`,
+          `Ticket #${ticket.ticketNumber} "${ticket.title}" has missed its ${timers} target.`,
+        );
+      } else if (result.warning) {
+        warned++;
+        const due = result.warning === 'first_response' ? ticket.firstResponseDueAt : ticket.resolutionDueAt;
+        await storage.logActivity({
+          action: 'sla_warning',
+          entityType: 'ticket',
+          entityId: ticket.id,
+          entityName: ticket.title,
+          details: `Ticket #${ticket.ticketNumber} ${timerLabels[result.warning]} is due ${formatDue(due)}`,
+        });
+        await notifyAssignee(
+          ticket,
+          `SLA warning: ticket #${ticket.ticketNumber}`,
+          `Ticket #${ticket.ticketNumber} "${ticket.title}" needs its ${timerLabels[result.warning]} by ${formatDue(due)}.`,
+        );
+      }
+    } catch (error) {
+      console.error(`Failed to check SLA for ticket #${candidate.ticketNumber}:`, error);
+    }
+  }
+
+  return { breached, warned };
+}
+
+export const slaMonitorJob: ScheduledJob = {
+  name: "sla-monitor",
+  intervalMs: 5 * 60 * 1000,
+  run: async (now) => {
+    await runSlaMonitor(now);
+  },
+};
@@ -1,6 +1,7 @@
 // From javascript_database integration and business requirements
 import {
   users,
+  passwordResetTokens,
   serviceRequests,
   projects,
   projectComments,
@@ -10,6 +11,12 @@ import {
   visitors,
   inventoryItems,
   inventoryTransactions,
+  stockLocations,
+  inventoryStockLevels,
+  purchaseOrders,
+  purchaseOrderLines,
+  serializedUnits,
+  projectMaterials,
   tasks,
   reports,
   salesRecords,
@@ -26,19 +33,32 @@ import {
   teamMembers,
   priceMatrix,
   quotes,
+  quoteRevisions,
+  quoteAcceptances,
   invoices,
   legalDocuments,
   customLegalDocuments,
   rateTypes,
   serviceRates,
   supportPlans,
+  supportSubscriptions,
+  maintenanceVisitTypes,
+  maintenanceAgreements,
+  maintenanceVisits,
+  slaPolicies,
   referralPrograms,
   referralCodes,
   referrals,
   expenses,
   revenue,
+  invoicePayments,
+  invoiceReminders,
+  shareLinks,
+  shareLinkViews,
   type User,
   type UpsertUser,
+  type PasswordResetToken,
+  type InsertPasswordResetToken,
   type ServiceRequest,
   type InsertServiceRequestType,
   type Project,
@@ -56,6 +76,10 @@ import {
   type InventoryItem,
   type InsertInventoryItemType,
   type InventoryTransaction,
+  type StockLocation,
+  type InsertStockLocationType,
+  type UpdateStockLocationType,
+  type InventoryTransferType,
   type InsertInventoryTransactionType,
   type Task,
   type InsertTaskType,
@@ -101,6 +125,9 @@ import {
   type InsertPriceMatrixType,
   type UpdatePriceMatrixType,
   type Quote,
+  type QuoteRevision,
+  type QuoteAcceptance,
+  type InsertQuoteAcceptance,
   type InsertQuoteType,
   type UpdateQuoteType,
   type Invoice,
@@ -121,6 +148,29 @@ import {
   type SupportPlan,
   type InsertSupportPlanType,
   type UpdateSupportPlanType,
+  type SupportSubscription,
+  type InsertSupportSubscriptionType,
+  type UpdateSupportSubscriptionType,
+  type CancelSupportSubscriptionType,
+  type MaintenanceVisitType,
+  type MaintenanceAgreement,
+  type MaintenanceVisit,
+  type MaintenanceChecklistItem,
+  type InsertMaintenanceVisitTypeType,
+  type UpdateMaintenanceVisitTypeType,
+  type InsertMaintenanceAgreementType,
+  type UpdateMaintenanceAgreementType,
+  type RecordMaintenanceVisitType,
+  type SlaPolicy,
+  type InsertSlaPolicyType,
+  type UpdateSlaPolicyType,
+  inboundEmails,
+  type InboundEmail,
+  type InsertInboundEmail,
+  type InboundEmailQueryType,
+  type ConvertInboundEmailType,
+  type FileAttachment,
+  type SlaComplianceQueryType,
   type ReferralProgram,
   type InsertReferralProgramType,
   type UpdateReferralProgramType,
@@ -136,9 +186,645 @@ import {
   type Revenue,
   type InsertRevenueType,
   type UpdateRevenueType,
+  type InvoicePayment,
+  type InsertInvoicePaymentType,
+  type QuoteInvoiceInstallment,
+  type InvoiceReminder,
+  type InsertInvoiceReminder,
+  type ShareLink,
+  type InsertShareLink,
+  type ShareLinkView,
+  type InsertShareLinkView,
+  type ShareLinkEntityType,
+  type PurchaseOrder,
+  type PurchaseOrderLine,
+  type InsertPurchaseOrderType,
+  type UpdatePurchaseOrderType,
+  type ReceivePurchaseOrderType,
+  type ReorderSuggestionsQueryType,
+  type SerializedUnit,
+  type RegisterSerialsType,
+  type InstallSerialType,
+  type SerialSearchQueryType,
+  type ProjectMaterial,
+  type InsertProjectMaterialType,
+  type UpdateProjectMaterialType,
+  type ConsumeProjectMaterialType,
+  timeEntries,
+  type TimeEntry,
+  type ClockInType,
+  type InsertTimeEntryType,
+  type UpdateTimeEntryType,
+  type TimeEntriesQueryType,
+  dispatchAssignments,
+  type DispatchAssignment,
+  type InsertDispatchAssignmentType,
+  type UpdateDispatchAssignmentType,
+  appointmentTypes,
+  appointments,
+  type AppointmentType,
+  type Appointment,
+  type InsertAppointmentTypeType,
+  type UpdateAppointmentTypeType,
+  type BookAppointmentType,
+  calendarFeeds,
+  type CalendarFeed,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, or, sql, asc, getTableColumns } from "drizzle-orm";
+import { ConflictError, DispatchConflictError, ForbiddenError, InvalidRequestError, NotFoundError } from "./errors";
+import {
+  addBusinessMinutes,
+  businessDateOf,
+  businessDayWindow,
+  businessHoursFromConfig,
+  businessMinutesBetween,
+  calendarDayWindow,
+  classifyTime,
+  MAX_SHIFT_MINUTES,
+  priceTime,
+  type BusinessHours,
+} from "./timeClassification";
+import { eq, desc, and, or, sql, asc, getTableColumns, isNull, isNotNull, inArray, ne, lte, gte } from "drizzle-orm";
+import { createHash, randomUUID } from "crypto";
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Public booking offers a start time every half hour through the business day
+const APPOINTMENT_SLOT_STEP_MINUTES = 30;
+
+interface TechnicianBooking {
+  technicianId: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+// Start times that fit the appointment inside the business day and haven't already passed
+function appointmentSlots(type: AppointmentType, window: { opensAt: Date; closesAt: Date }, now: Date): AppointmentSlot[] {
+  const slots: AppointmentSlot[] = [];
+  const durationMs = type.durationMinutes * MINUTE_MS;
+  for (
+    let start = window.opensAt.getTime();
+    start + durationMs <= window.closesAt.getTime();
+    start += APPOINTMENT_SLOT_STEP_MINUTES * MINUTE_MS
+  ) {
+    if (start > now.getTime()) {
+      slots.push({ startsAt: new Date(start), endsAt: new Date(start + durationMs) });
+    }
+  }
+  return slots;
+}
+
+// First technician, in the given order, with nothing booked within the buffer of the slot
+function freeTechnicianFor(type: AppointmentType, slot: AppointmentSlot, technicianIds: string[], bookings: TechnicianBooking[]): string | undefined {
+  const bufferMs = type.bufferMinutes * MINUTE_MS;
+  const from = slot.startsAt.getTime() - bufferMs;
+  const to = slot.endsAt.getTime() + bufferMs;
+  return technicianIds.find(technicianId => !bookings.some(booking =>
+    booking.technicianId === technicianId
+    && booking.startsAt.getTime() < to
+    && booking.endsAt.getTime() > from));
+}
+
+// Months in each support plan billing period that can be subscribed to; anything else (e.g. "one-time") can't
+const SUBSCRIPTION_INTERVAL_MONTHS: Record<string, number> = {
+  monthly: 1,
+  quarterly: 3,
+  'semi-annual': 6,
+  annual: 12,
+  yearly: 12,
+};
+
+function planIntervalMonths(plan: SupportPlan): number | undefined {
+  return SUBSCRIPTION_INTERVAL_MONTHS[(plan.billingPeriod || '').trim().toLowerCase()];
+}
+
+// Same day of the month, pulled back to the last day when the target month is shorter (Jan 31 + 1 = Feb 28)
+function addCalendarMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(day, lastDay));
+  return result;
+}
+
+// First date after the given one that falls on the anchor plus whole intervals. A later anchor is returned
+// as is: callers never pass one more than an interval ahead (a billing anchor sits inside the first period).
+function nextIntervalBoundary(anchor: Date, intervalMonths: number, after: Date): Date {
+  if (anchor > after) {
+    return anchor;
+  }
+  const monthsElapsed = (after.getFullYear() - anchor.getFullYear()) * 12 + after.getMonth() - anchor.getMonth();
+  let periods = Math.floor(monthsElapsed / intervalMonths);
+  let boundary = addCalendarMonths(anchor, periods * intervalMonths);
+  while (boundary <= after) {
+    periods++;
+    boundary = addCalendarMonths(anchor, periods * intervalMonths);
+  }
+  return boundary;
+}
+
+// An invoice's status once its payments are counted; cancelled invoices stay cancelled and overdue ones stay overdue
+// until the balance is cleared
+function invoiceStatusForPayments(status: Invoice['status'], paymentStatus: Invoice['paymentStatus']): Invoice['status'] {
+  if (status === 'cancelled') {
+    return status;
+  }
+  if (paymentStatus === 'paid') {
+    return 'paid';
+  }
+  if (status === 'overdue') {
+    return status;
+  }
+  if (paymentStatus === 'partial') {
+    return 'partial';
+  }
+  return status === 'paid' || status === 'partial' ? 'sent' : status;
+}
+
+// First interval boundary on or after `now`, stepping on from `due`
+function nextDueOnOrAfter(anchor: Date, intervalMonths: number, due: Date, now: Date): Date {
+  while (due < now) {
+    due = nextIntervalBoundary(anchor, intervalMonths, due);
+  }
+  return due;
+}
+
+// Length of a full period ending at the given boundary; the first, anchor-aligned period may be shorter
+function subscriptionPeriodMs(subscription: SupportSubscription, periodStart: Date, periodEnd: Date): number {
+  if (periodStart < subscription.billingAnchor) {
+    return periodEnd.getTime() - addCalendarMonths(subscription.billingAnchor, -subscription.intervalMonths).getTime();
+  }
+  return periodEnd.getTime() - periodStart.getTime();
+}
+
+function subscriptionPrice(subscription: Pick<SupportSubscription, 'priceOverride'>, plan: Pick<SupportPlan, 'rate'>): number {
+  return parseFloat(subscription.priceOverride ?? plan.rate ?? '0');
+}
+
+function subscriptionLine(itemName: string, description: string, cents: number): SubscriptionLineItem {
+  const amount = cents / 100;
+  return { priceMatrixId: null, itemName, description, unit: 'period', unitPrice: amount, quantity: 1, total: amount };
+}
+
+function subscriptionLinesCents(items: SubscriptionLineItem[]): number {
+  return items.reduce((sum, item) => sum + Math.round(item.total * 100), 0);
+}
+
+function formatBillingDate(date: Date): string {
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+// SLA clocks count opening hours only, unless the policy runs around the clock
+function slaClockAdd(from: Date, minutes: number, policy: SlaPolicy, hours: BusinessHours): Date {
+  return policy.businessHoursOnly
+    ? addBusinessMinutes(from, minutes, hours)
+    : new Date(from.getTime() + minutes * MINUTE_MS);
+}
+
+function slaClockMinutes(from: Date, to: Date, policy: SlaPolicy, hours: BusinessHours): number {
+  return policy.businessHoursOnly
+    ? businessMinutesBetween(from, to, hours)
+    : Math.max(0, Math.round((to.getTime() - from.getTime()) / MINUTE_MS));
+}
+
+const isTicketStopped = (status: Ticket['status']) => status === 'resolved' || status === 'closed';
+
+// Tickets that were already open when a policy was added start their clocks then rather than when they were opened
+const slaStart = (ticket: Ticket, now: Date) => ticket.slaStartedAt ?? ticket.createdAt ?? now;
+
+// The first-response warning until the ticket is answered (or has missed it), then the resolution one
+function slaWarningTime(ticket: Ticket, responsePending: boolean, policy: SlaPolicy, hours: BusinessHours, now: Date): Date {
+  const share = policy.warningPercent / 100;
+  return responsePending
+    ? slaClockAdd(slaStart(ticket, now), Math.ceil(policy.firstResponseMinutes * share), policy, hours)
+    : slaClockAdd(slaStart(ticket, now), Math.ceil(policy.resolutionMinutes * share) + ticket.slaPausedMinutes, policy, hours);
+}
+
+function emptySlaComplianceRow(id: string | null, name: string): SlaComplianceRow {
+  return {
+    id,
+    name,
+    tickets: 0,
+    responseMet: 0,
+    responseBreached: 0,
+    resolutionMet: 0,
+    resolutionBreached: 0,
+    responseCompliance: null,
+    resolutionCompliance: null,
+  };
+}
+
+function compliancePercent(met: number, breached: number): number | null {
+  return met + breached > 0 ? Math.round((met / (met + breached)) * 1000) / 10 : null;
+}
+
+// Quotes stay valid through the whole of their validUntil day
+function isPastValidity(validUntil: Date | null, now: Date): boolean {
+  return !!validUntil && now.getTime() >= new Date(validUntil).getTime() + DAY_MS;
+}
+
+// Revision 0 is "A", 25 is "Z", 26 is "AA"
+export function formatRevisionLabel(revisionNumber: number): string {
+  let label = '';
+  let n = revisionNumber;
+  do {
+    label = String.fromCharCode(65 + (n % 26)) + label;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return label;
+}
+
+// Line items, pricing terms and validity date the client sees; changing any of these on a sent quote starts a new revision
+function quoteContentKey(quote: Pick<Quote, 'items' | 'subtotal' | 'taxRate' | 'total' | 'validUntil' | 'termsAndConditions'>): string {
+  // jsonb does not preserve key order, so compare objects with sorted keys
+  const sortKeys = (_key: string, value: unknown) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value;
+  return JSON.stringify([
+    quote.items,
+    parseFloat(quote.subtotal || '0'),
+    parseFloat(quote.taxRate || '0'),
+    parseFloat(quote.total || '0'),
+    quote.validUntil ? new Date(quote.validUntil).getTime() : null,
+    quote.termsAndConditions || '',
+  ], sortKeys);
+}
+
+// Fingerprint of the legal terms a client signs up to when approving a quote; any edit yields a new version
+function legalTermsVersion(docs: Pick<LegalDocuments, 'serviceAgreement' | 'termsAndConditions'> | undefined): string {
+  return createHash('sha256')
+    .update(JSON.stringify([docs?.serviceAgreement || '', docs?.termsAndConditions || '']))
+    .digest('hex')
+    .slice(0, 12);
+}
+
+// Calendar feed URLs carry a random token and only its hash is stored, so the table can't be used to read schedules
+function hashCalendarFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Links created before share_links existed were valid for 30 days from creation
+const LEGACY_SHARE_LINK_TTL_MS = 30 * DAY_MS;
+
+export type ShareLinkResolution =
+  | { status: 'active'; entityId: string; shareLinkId: string }
+  | { status: 'expired' | 'revoked' | 'not_found' };
+
+// Movement types that always take stock out; purchases and returns always add, adjustments keep their sign
+const STOCK_REMOVAL_TYPES: ReadonlySet<string> = new Set(['sale', 'project_usage', 'damage']);
+const STOCK_ADDITION_TYPES: ReadonlySet<string> = new Set(['purchase', 'return']);
+
+function signedStockQuantity(transactionType: string, quantity: number): number {
+  if (STOCK_REMOVAL_TYPES.has(transactionType)) return -Math.abs(quantity);
+  if (STOCK_ADDITION_TYPES.has(transactionType)) return Math.abs(quantity);
+  return quantity;
+}
+
+export interface InventoryStockOptions {
+  // Permit the movement to take stock below zero (requires the overrideNegativeStock permission)
+  allowNegative?: boolean;
+  notes?: string;
+  // Serial-tracked units leaving with a sale or write-off
+  serialUnitIds?: string[];
+}
+
+// A counted stock level to book alongside an item edit
+export interface InventoryStockCount {
+  quantity: number;
+  performedById: string;
+  options?: InventoryStockOptions;
+}
+
+export interface LocationStockItem {
+  itemId: string;
+  sku: string;
+  name: string;
+  category: string;
+  unitOfMeasure: string | null;
+  minimumStockLevel: number | null;
+  quantity: number;
+}
+
+// 'history' resets stock to the sum of its transactions; 'stock' keeps the recorded level and books the gap as an adjustment
+export type InventoryReconcileStrategy = 'history' | 'stock';
+
+export interface InventoryDiscrepancy {
+  itemId: string;
+  sku: string;
+  name: string;
+  quantityInStock: number;
+  transactionTotal: number;
+  difference: number;
+}
+
+export type PurchaseOrderLineDetail = PurchaseOrderLine & {
+  sku: string;
+  itemName: string;
+  unitOfMeasure: string | null;
+  isSerialized: boolean;
+};
+
+export type PurchaseOrderWithSupplier = PurchaseOrder & { supplierName: string };
+
+export type PurchaseOrderWithLines = PurchaseOrderWithSupplier & { lines: PurchaseOrderLineDetail[] };
+
+// Value still to be delivered on a supplier's sent and partially received orders
+export interface SupplierOpenOrders {
+  supplierId: string;
+  openOrders: number;
+  openValue: number;
+}
+
+function purchaseOrderTotal(lines: Array<{ quantityOrdered: number; unitCost: string }>): string {
+  return lines.reduce((sum, line) => sum + line.quantityOrdered * parseFloat(line.unitCost), 0).toFixed(2);
+}
+
+// Used when a supplier has neither delivery history nor a quoted lead time
+const DEFAULT_LEAD_TIME_DAYS = 7;
+
+export interface ReorderSuggestion {
+  itemId: string;
+  sku: string;
+  name: string;
+  unitOfMeasure: string | null;
+  unitCost: string | null;
+  quantityInStock: number;
+  quantityOnOrder: number;
+  minimumStockLevel: number;
+  usageInWindow: number;
+  averageDailyUsage: number;
+  daysOfStock: number | null; // null when the item hasn't been used in the window
+  supplierId: string | null;
+  supplierName: string | null;
+  leadTimeDays: number;
+  leadTimeSource: 'history' | 'supplier' | 'default';
+  reorderPoint: number;
+  suggestedQuantity: number;
+  needsReorder: boolean;
+}
+
+// A serial with the item it belongs to and, once allocated, the job and client it went to
+export type SerializedUnitDetail = SerializedUnit & {
+  sku: string;
+  itemName: string;
+  category: string;
+  projectName: string | null;
+  projectTicketNumber: string | null;
+  clientId: string | null;
+  clientName: string | null;
+};
+
+export type ProjectMaterialDetail = ProjectMaterial & {
+  sku: string;
+  itemName: string;
+  unitOfMeasure: string | null;
+  currentUnitCost: string | null;
+  isSerialized: boolean;
+};
+
+export type TimeEntryDetail = TimeEntry & {
+  userName: string | null;
+  projectName: string | null;
+  projectTicketNumber: string | null;
+  taskTitle: string | null;
+  ticketNumber: string | null;
+  rateTypeName: string | null;
+};
+
+export type DispatchJobKind = 'project' | 'task' | 'ticket' | 'appointment';
+
+export type DispatchAssignmentDetail = DispatchAssignment & {
+  kind: DispatchJobKind;
+  reference: string;
+  title: string;
+  status: string | null;
+  address: string | null;
+  hasConflict: boolean;
+};
+
+// An open project, task or ticket with nothing booked from now on
+export interface DispatchJob {
+  kind: DispatchJobKind;
+  id: string;
+  reference: string;
+  title: string;
+  status: string | null;
+  assignedToId: string | null;
+  dueDate: Date | null;
+}
+
+// A project start, task due date or scheduled service request not yet booked on the board; it holds
+// its technician for that business day (or the whole day when the business is closed)
+export interface DispatchDatedWork {
+  kind: 'project' | 'task';
+  id: string;
+  reference: string;
+  title: string;
+  status: string | null;
+  technicianId: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+// Something a new booking would overlap: another booking or dated work
+export type DispatchConflict = Pick<DispatchAssignmentDetail, 'id' | 'kind' | 'reference' | 'title' | 'startsAt' | 'endsAt'>;
+
+// The booking being moved, or the job being booked, doesn't clash with itself
+export interface DispatchConflictExclusion {
+  assignmentId?: string;
+  projectId?: string | null;
+  taskId?: string | null;
+}
+
+export interface DispatchBoard {
+  technicians: { id: string; name: string | null }[];
+  assignments: DispatchAssignmentDetail[];
+  datedWork: DispatchDatedWork[];
+  unscheduled: DispatchJob[];
+}
+
+export interface AppointmentSlot {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export type AppointmentDetail = Appointment & {
+  appointmentTypeName: string;
+  appointmentKind: AppointmentType['kind'];
+  durationMinutes: number;
+};
+
+// Everything with a date that a user's calendar feed shows
+export interface UserSchedule {
+  projects: Pick<Project, 'id' | 'ticketNumber' | 'projectName' | 'status' | 'startDate' | 'estimatedCompletionDate' | 'updatedAt'>[];
+  tasks: Pick<Task, 'id' | 'ticketNumber' | 'title' | 'description' | 'status' | 'dueDate' | 'updatedAt'>[];
+  tickets: (Pick<Ticket, 'id' | 'ticketNumber' | 'title' | 'status' | 'dueDate' | 'updatedAt'> & { projectName: string })[];
+  bookings: DispatchAssignmentDetail[];
+  appointments: AppointmentDetail[];
+}
+
+export type SupportSubscriptionDetail = SupportSubscription & {
+  clientName: string;
+  planName: string;
+  billingPeriod: string | null;
+  price: number; // Price override, or the plan rate
+};
+
+// An entry in invoices.items; prices on older invoices may be stored as strings
+export interface InvoiceLineItem {
+  priceMatrixId: string | null;
+  itemName: string;
+  description?: string;
+  unit?: string;
+  unitPrice: number | string;
+  quantity: number;
+  total: number | string;
+}
+
+// Same shape as invoice line items so pending proration lines can be copied onto the next invoice
+export interface SubscriptionLineItem {
+  priceMatrixId: null;
+  itemName: string;
+  description: string;
+  unit: string;
+  unitPrice: number;
+  quantity: number;
+  total: number;
+}
+
+// One step of the billing run: either the next period was invoiced, or a pending cancellation took effect
+// (with a closing invoice or credit when proration was still pending)
+export interface SubscriptionBillingResult {
+  subscription: SupportSubscription;
+  invoice?: Invoice;
+  renewal: boolean;
+  cancelled: boolean;
+}
+
+export interface RecurringRevenueMetrics {
+  mrr: number;
+  arr: number;
+  activeSubscriptions: number;
+  cancellingMrr: number; // Share of MRR set to cancel at the end of the current period
+  byPlan: { planId: string; planName: string; subscriptions: number; mrr: number }[];
+}
+
+export type MaintenanceAgreementDetail = MaintenanceAgreement & {
+  clientName: string;
+  visitTypeName: string;
+  serviceType: MaintenanceVisitType['serviceType'];
+  assignedToName: string | null;
+};
+
+export type MaintenanceVisitDetail = MaintenanceVisit & {
+  clientId: string;
+  clientName: string;
+  siteName: string;
+  siteAddress: string | null;
+  visitTypeName: string;
+  taskNumber: string | null;
+  taskStatus: Task['status'] | null;
+  assignedToId: string | null; // The visit task's assignee, who may differ from the agreement's default
+  assignedToName: string | null;
+};
+
+// One step of the scheduling run: either the next visit was generated, or the agreement ran past its end date
+export interface MaintenanceSchedulingResult {
+  agreement: MaintenanceAgreement;
+  visit?: MaintenanceVisit;
+  task?: Task;
+}
+
+export type SlaPolicyDetail = SlaPolicy & {
+  supportPlanName: string | null;
+};
+
+export type SlaTimer = 'first_response' | 'resolution';
+
+// One step of the SLA monitor: timers that just breached, or the warning sent as a timer nears its target
+export interface SlaCheckResult {
+  ticket: Ticket;
+  breached: SlaTimer[];
+  warning?: SlaTimer;
+}
+
+// Met/breached counts for a client or technician; timers still running count towards neither
+export interface SlaComplianceRow {
+  id: string | null; // null groups tickets without a client or assignee
+  name: string;
+  tickets: number;
+  responseMet: number;
+  responseBreached: number;
+  resolutionMet: number;
+  resolutionBreached: number;
+  responseCompliance: number | null; // Percent met of the decided timers; null until one is decided
+  resolutionCompliance: number | null;
+}
+
+export interface SlaComplianceReport {
+  totals: SlaComplianceRow;
+  byClient: SlaComplianceRow[];
+  byTechnician: SlaComplianceRow[];
+}
+
+export type InboundEmailDetail = InboundEmail & {
+  ticketNumber: string | null;
+  leadName: string | null;
+  handledByName: string | null;
+};
+
+// Everyone an inbound address could belong to: a login, and client or lead records by email or by that login
+export interface InboundSender {
+  user?: User;
+  clients: Client[];
+  leads: Lead[];
+}
+
+// Job costing: what the client agreed to and paid against what the job cost us
+export interface ProjectProfitability {
+  projectId: string;
+  ticketNumber: string;
+  projectName: string;
+  status: string | null;
+  clientName: string | null;
+  quotedValue: number; // Accepted quotes
+  invoiced: number; // Sent invoices raised against the project's quotes
+  collected: number;
+  materialsCost: number; // project_usage stock movements, net of returns
+  laborHours: number; // Approved time entries
+  laborCost: number; // laborHours at the configured labour cost per hour
+  expensesCost: number;
+  totalCost: number;
+  margin: number; // Invoiced less total cost
+  marginPercent: number | null;
+  projectedMargin: number; // Quoted value less total cost, for jobs not yet fully invoiced
+}
+
+export interface QuoteResponseOptions {
+  notes?: string | null;
+  // Revision the client was looking at; the response is refused if the quote has been revised since
+  revisionNumber?: number;
+  respondedById?: string | null;
+  // Signed acceptance evidence; recorded against the accepted revision
+  signature?: QuoteSignature;
+}
+
+export type QuoteSignature = Pick<InsertQuoteAcceptance,
+  'signerName' | 'signatureImage' | 'termsVersion' | 'comments' | 'ipAddress' | 'userAgent' | 'signedById'>;
+
+export interface QuoteLegalTerms {
+  serviceAgreement: string | null;
+  termsAndConditions: string | null;
+  termsVersion: string;
+}
 
 // Interface for storage operations
 export interface IStorage {
@@ -159,6 +845,13 @@ export interface IStorage {
   getAllUsers(): Promise<User[]>;
   updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
   deleteUser(id: string): Promise<void>;
+  deleteUserSessions(userId: string): Promise<void>;
+
+  // Password reset token operations
+  createPasswordResetToken(data: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetToken(id: string): Promise<PasswordResetToken | undefined>;
+  markPasswordResetTokenUsed(id: string): Promise<boolean>;
+  invalidatePasswordResetTokens(userId: string): Promise<void>;
   
   // Service request operations
   createServiceRequest(request: InsertServiceRequestType): Promise<ServiceRequest>;
@@ -208,16 +901,46 @@ export interface IStorage {
   }>;
   
   // Inventory operations
-  createInventoryItem(item: InsertInventoryItemType): Promise<InventoryItem>;
+  createInventoryItem(item: InsertInventoryItemType, performedById?: string, options?: InventoryStockOptions): Promise<InventoryItem>;
   getInventoryItems(includeInactive?: boolean): Promise<InventoryItem[]>;
   getInventoryItem(id: string): Promise<InventoryItem | undefined>;
-  updateInventoryItem(id: string, updates: Partial<InventoryItem>): Promise<InventoryItem | undefined>;
+  updateInventoryItem(id: string, updates: Partial<InventoryItem>, stockCount?: InventoryStockCount): Promise<InventoryItem | undefined>;
   deleteInventoryItem(id: string): Promise<void>;
   getLowStockItems(): Promise<InventoryItem[]>;
+  getReorderSuggestions(options: ReorderSuggestionsQueryType): Promise<ReorderSuggestion[]>;
   
-  // Inventory transaction operations
-  createInventoryTransaction(transaction: InsertInventoryTransactionType): Promise<InventoryTransaction>;
+  // Inventory transaction operations (transactions are the source of truth for stock levels)
+  createInventoryTransaction(transaction: InsertInventoryTransactionType, options?: InventoryStockOptions): Promise<InventoryTransaction>;
   getInventoryTransactions(itemId?: string, projectId?: string, limit?: number): Promise<InventoryTransaction[]>;
+  setInventoryStockLevel(itemId: string, quantity: number, performedById: string, options?: InventoryStockOptions): Promise<InventoryTransaction | undefined>;
+  getInventoryReconciliation(itemIds?: string[]): Promise<InventoryDiscrepancy[]>;
+  reconcileInventory(strategy: InventoryReconcileStrategy, performedById: string, itemIds?: string[]): Promise<InventoryDiscrepancy[]>;
+  transferInventory(transfer: InventoryTransferType, performedById: string, options?: InventoryStockOptions): Promise<InventoryTransaction[]>;
+
+  // Stock location operations (warehouse, vans, job sites)
+  getStockLocations(filters?: { assignedUserId?: string; includeInactive?: boolean }): Promise<StockLocation[]>;
+  getStockLocation(id: string): Promise<StockLocation | undefined>;
+  createStockLocation(location: InsertStockLocationType): Promise<StockLocation>;
+  updateStockLocation(id: string, updates: UpdateStockLocationType): Promise<StockLocation | undefined>;
+  getLocationStock(locationId: string): Promise<LocationStockItem[]>;
+
+  // Serial number operations (serialised units and warranties)
+  registerSerializedUnits(itemId: string, data: RegisterSerialsType): Promise<SerializedUnit[]>;
+  searchSerializedUnits(filters: SerialSearchQueryType): Promise<SerializedUnitDetail[]>;
+  getProjectSerializedUnits(projectId: string): Promise<SerializedUnitDetail[]>;
+  getClientEquipment(clientId: string): Promise<SerializedUnitDetail[]>;
+  getWarrantyExpiringUnits(withinDays: number): Promise<SerializedUnitDetail[]>;
+  allocateSerializedUnits(projectId: string, unitIds: string[]): Promise<SerializedUnit[]>;
+  releaseSerializedUnit(id: string): Promise<SerializedUnit | undefined>;
+  installSerializedUnit(id: string, data: InstallSerialType, performedById: string, options?: InventoryStockOptions): Promise<SerializedUnit | undefined>;
+
+  // Project material operations (planned vs. used inventory, costed into the project)
+  getProjectMaterials(projectId: string): Promise<ProjectMaterialDetail[]>;
+  getProjectMaterial(id: string): Promise<ProjectMaterial | undefined>;
+  addProjectMaterial(projectId: string, material: InsertProjectMaterialType, createdById: string): Promise<ProjectMaterial>;
+  updateProjectMaterial(id: string, updates: UpdateProjectMaterialType): Promise<ProjectMaterial | undefined>;
+  deleteProjectMaterial(id: string): Promise<void>;
+  consumeProjectMaterial(id: string, data: ConsumeProjectMaterialType, performedById: string, options?: InventoryStockOptions): Promise<ProjectMaterial | undefined>;
   
   // Business queries
   getClientDashboard(clientId: string): Promise<{
@@ -253,6 +976,8 @@ export interface IStorage {
   getTask(id: string): Promise<Task | undefined>;
   updateTask(id: string, updates: UpdateTaskType): Promise<Task | undefined>;
   deleteTask(id: string): Promise<void>;
+  addTaskAttachments(id: string, attachments: FileAttachment[]): Promise<Task | undefined>;
+  removeTaskAttachment(id: string, objectPath: string): Promise<Task | undefined>;
 
   // Report operations (employees CRUD own, managers approve/create)
   createReport(report: InsertReportType): Promise<Report>;
@@ -262,6 +987,48 @@ export interface IStorage {
   deleteReport(id: string): Promise<void>;
   approveReport(reportId: string, approverId: string, approved: boolean, rejectionReason?: string): Promise<Report | undefined>;
 
+  // Dispatch board (managers book technicians onto jobs)
+  getDispatchBoard(from: Date, to: Date): Promise<DispatchBoard>;
+  getTechnicianSchedule(technicianId: string, from: Date, to: Date): Promise<DispatchAssignmentDetail[]>;
+  getDispatchAssignment(id: string): Promise<DispatchAssignment | undefined>;
+  findDispatchConflicts(technicianId: string, window: AppointmentSlot, exclude?: DispatchConflictExclusion, executor?: typeof db | DbTransaction): Promise<DispatchConflict[]>;
+  createDispatchAssignment(assignment: InsertDispatchAssignmentType, createdById: string): Promise<{ assignment: DispatchAssignment; conflicts: DispatchConflict[] }>;
+  updateDispatchAssignment(id: string, updates: UpdateDispatchAssignmentType): Promise<{ assignment: DispatchAssignment; conflicts: DispatchConflict[] } | undefined>;
+  deleteDispatchAssignment(id: string): Promise<void>;
+
+  // Appointment booking (public scheduling pages)
+  getAppointmentTypes(includeInactive?: boolean): Promise<AppointmentType[]>;
+  getAppointmentType(id: string): Promise<AppointmentType | undefined>;
+  createAppointmentType(type: InsertAppointmentTypeType): Promise<AppointmentType>;
+  updateAppointmentType(id: string, updates: UpdateAppointmentTypeType): Promise<AppointmentType | undefined>;
+  deleteAppointmentType(id: string): Promise<void>;
+  getAppointmentAvailability(appointmentTypeId: string, date: string): Promise<AppointmentSlot[]>;
+  bookAppointment(booking: BookAppointmentType & { address?: string | null }, lead: InsertLeadType): Promise<Appointment>;
+  getAppointmentByToken(token: string): Promise<AppointmentDetail | undefined>;
+  getLeadAppointments(leadId: string): Promise<AppointmentDetail[]>;
+  rescheduleAppointment(token: string, startsAt: Date): Promise<AppointmentDetail | undefined>;
+  cancelAppointment(token: string, reason?: string): Promise<AppointmentDetail | undefined>;
+
+  // Calendar feeds (per-user secret ICS subscription URLs)
+  getCalendarFeed(userId: string): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  resetCalendarFeed(userId: string): Promise<{ feed: CalendarFeed; token: string }>;
+  deleteCalendarFeed(userId: string): Promise<void>;
+  recordCalendarFeedAccess(id: string): Promise<void>;
+  getUserSchedule(access: { userId: string; clientIds: string[]; leadIds: string[] }, since: Date): Promise<UserSchedule>;
+
+  // Time tracking (technicians clock in/out, approvers review, finance bills)
+  getTimeEntries(filters?: TimeEntriesQueryType): Promise<TimeEntryDetail[]>;
+  getTimeEntry(id: string): Promise<TimeEntry | undefined>;
+  getRunningTimeEntry(userId: string): Promise<TimeEntry | undefined>;
+  clockIn(userId: string, data: ClockInType): Promise<TimeEntry>;
+  clockOut(userId: string, notes?: string | null): Promise<TimeEntry | undefined>;
+  createTimeEntry(userId: string, entry: InsertTimeEntryType): Promise<TimeEntry>;
+  updateTimeEntry(id: string, updates: UpdateTimeEntryType): Promise<TimeEntry | undefined>;
+  deleteTimeEntry(id: string): Promise<void>;
+  reviewTimeEntry(id: string, approverId: string, approved: boolean, rejectionReason?: string): Promise<TimeEntry | undefined>;
+  addTimeEntriesToInvoice(invoiceId: string, entryIds: string[]): Promise<Invoice>;
+
   // Sales operations (sales role CRUD, admin full access)
   createSalesRecord(record: InsertSalesRecordType): Promise<SalesRecord>;
   getSalesRecords(filters?: { salesRepId?: string; clientId?: string; status?: string }): Promise<SalesRecord[]>;
@@ -269,8 +1036,12 @@ export interface IStorage {
   updateSalesRecord(id: string, updates: UpdateSalesRecordType): Promise<SalesRecord | undefined>;
   deleteSalesRecord(id: string): Promise<void>;
 
+  // Job costing (per-project P&L)
+  getProjectProfitability(projectId: string): Promise<ProjectProfitability | undefined>;
+  getProjectsProfitability(filters?: { status?: NonNullable<Project['status']>; from?: Date; to?: Date }): Promise<ProjectProfitability[]>;
+
   // Financial log operations (read-only for admin, written by system)
-  createFinancialLog(log: InsertFinancialLogType): Promise<FinancialLog>;
+  createFinancialLog(log: InsertFinancialLogType, executor?: typeof db | DbTransaction): Promise<FinancialLog>;
   getFinancialLogs(filters?: { entityType?: string; userId?: string; logType?: string; limit?: number }): Promise<FinancialLog[]>;
 
   // Activity log operations (audit trail)
@@ -307,6 +1078,16 @@ export interface IStorage {
   updateSupplier(id: string, updates: UpdateSupplierType): Promise<Supplier | undefined>;
   deleteSupplier(id: string): Promise<void>;
 
+  // Purchase Order operations
+  getPurchaseOrders(filters?: { supplierId?: string; status?: string }): Promise<PurchaseOrderWithSupplier[]>;
+  getPurchaseOrder(id: string): Promise<PurchaseOrderWithLines | undefined>;
+  createPurchaseOrder(order: InsertPurchaseOrderType, createdById: string): Promise<PurchaseOrderWithLines>;
+  updatePurchaseOrder(id: string, updates: UpdatePurchaseOrderType): Promise<PurchaseOrderWithLines | undefined>;
+  sendPurchaseOrder(id: string): Promise<PurchaseOrderWithLines | undefined>;
+  receivePurchaseOrder(id: string, receipt: ReceivePurchaseOrderType, performedById: string, options?: InventoryStockOptions): Promise<PurchaseOrderWithLines | undefined>;
+  cancelPurchaseOrder(id: string): Promise<PurchaseOrderWithLines | undefined>;
+  getSupplierOpenOrders(): Promise<SupplierOpenOrders[]>;
+
   // Vendor Account operations (credentials for vendor accounts)
   createVendorAccount(account: InsertVendorAccountType): Promise<VendorAccount>;
   getVendorAccounts(filters?: { isActive?: boolean }): Promise<VendorAccount[]>;
@@ -349,8 +1130,15 @@ export interface IStorage {
   getQuotes(filters?: { leadId?: string; clientId?: string; status?: string }): Promise<Quote[]>;
   getQuote(id: string): Promise<Quote | undefined>;
   getQuoteByShareToken(token: string): Promise<Quote | undefined>;
-  updateQuote(id: string, updates: UpdateQuoteType): Promise<Quote | undefined>;
+  updateQuote(id: string, updates: UpdateQuoteType, updatedById?: string | null): Promise<Quote | undefined>;
   deleteQuote(id: string): Promise<void>;
+  getQuoteRevisions(quoteId: string): Promise<(QuoteRevision & { label: string })[]>;
+  getPublishedQuoteRevision(quote: Quote): Promise<(QuoteRevision & { label: string }) | undefined>;
+  respondToQuote(id: string, status: 'accepted' | 'rejected', options?: QuoteResponseOptions, now?: Date): Promise<Quote>;
+  expireStaleQuotes(now?: Date): Promise<Quote[]>;
+  reviseQuote(id: string, createdById: string): Promise<Quote>;
+  getQuoteLegalTerms(): Promise<QuoteLegalTerms>;
+  getQuoteAcceptance(quoteId: string): Promise<(QuoteAcceptance & { revisionLabel: string }) | undefined>;
 
   // Invoice operations
   createInvoice(data: InsertInvoiceType): Promise<Invoice>;
@@ -359,6 +1147,33 @@ export interface IStorage {
   getInvoiceByShareToken(token: string): Promise<Invoice | undefined>;
   updateInvoice(id: string, updates: UpdateInvoiceType): Promise<Invoice | undefined>;
   deleteInvoice(id: string): Promise<void>;
+  getQuoteBilledTotal(quoteId: string): Promise<number>;
+  createInvoicesFromQuote(quoteId: string, installments: QuoteInvoiceInstallment[], createdById: string): Promise<Invoice[]>;
+
+  // Invoice reminder operations (overdue detection and dunning)
+  getInvoicesAwaitingPayment(): Promise<(Invoice & { recipientName: string | null; recipientEmail: string | null })[]>;
+  markInvoiceOverdue(id: string): Promise<Invoice | undefined>;
+  markInvoiceSent(id: string, shareLink: ShareLink): Promise<Invoice | undefined>;
+  setInvoiceRemindersPaused(id: string, paused: boolean): Promise<Invoice | undefined>;
+  getInvoiceReminders(invoiceId: string): Promise<InvoiceReminder[]>;
+  recordInvoiceReminder(reminder: InsertInvoiceReminder): Promise<InvoiceReminder | undefined>;
+  deleteInvoiceReminder(id: string): Promise<void>;
+
+  // Share link operations (public document links and their access log)
+  createShareLink(data: InsertShareLink): Promise<ShareLink>;
+  getShareLink(id: string): Promise<ShareLink | undefined>;
+  getShareLinks(entityType: ShareLinkEntityType, entityId: string): Promise<(ShareLink & { viewCount: number; lastViewedAt: Date | null })[]>;
+  revokeShareLink(id: string, revokedById: string): Promise<ShareLink | undefined>;
+  resolveShareLink(entityType: ShareLinkEntityType, token: string, now?: Date): Promise<ShareLinkResolution>;
+  recordShareLinkView(view: InsertShareLinkView): Promise<void>;
+  getShareLinkViews(shareLinkId: string): Promise<ShareLinkView[]>;
+
+  // Invoice payment operations (ledger; invoice totals are recomputed from it)
+  getInvoicePayments(invoiceId: string): Promise<InvoicePayment[]>;
+  getInvoicePayment(id: string): Promise<InvoicePayment | undefined>;
+  getInvoicePaymentByRevenueId(revenueId: string): Promise<InvoicePayment | undefined>;
+  recordInvoicePayment(invoiceId: string, data: InsertInvoicePaymentType, recordedById: string): Promise<{ payment: InvoicePayment; invoice: Invoice }>;
+  voidInvoicePayment(id: string, voidedById: string, reason: string): Promise<{ payment: InvoicePayment; invoice: Invoice } | undefined>;
 
   // Legal Documents operations
   getLegalDocuments(): Promise<LegalDocuments | undefined>;
@@ -390,6 +1205,54 @@ export interface IStorage {
   updateSupportPlan(id: string, updates: UpdateSupportPlanType): Promise<SupportPlan | undefined>;
   deleteSupportPlan(id: string): Promise<void>;
 
+  // Support subscription operations
+  getSupportSubscriptions(filters?: { clientId?: string; status?: SupportSubscription['status'] }): Promise<SupportSubscriptionDetail[]>;
+  getSupportSubscription(id: string): Promise<SupportSubscriptionDetail | undefined>;
+  createSupportSubscription(data: InsertSupportSubscriptionType, createdById: string): Promise<SupportSubscription>;
+  updateSupportSubscription(id: string, updates: UpdateSupportSubscriptionType, now?: Date): Promise<SupportSubscription>;
+  cancelSupportSubscription(id: string, data: CancelSupportSubscriptionType, now?: Date): Promise<SupportSubscription>;
+  getSubscriptionInvoices(subscriptionId: string): Promise<Invoice[]>;
+  getSupportSubscriptionsDueForBilling(now: Date): Promise<SupportSubscriptionDetail[]>;
+  billSupportSubscription(id: string, now: Date): Promise<SubscriptionBillingResult | undefined>;
+  getRecurringRevenueMetrics(): Promise<RecurringRevenueMetrics>;
+
+  // Preventive maintenance operations
+  getMaintenanceVisitTypes(includeInactive?: boolean): Promise<MaintenanceVisitType[]>;
+  createMaintenanceVisitType(data: InsertMaintenanceVisitTypeType): Promise<MaintenanceVisitType>;
+  updateMaintenanceVisitType(id: string, updates: UpdateMaintenanceVisitTypeType): Promise<MaintenanceVisitType | undefined>;
+  deleteMaintenanceVisitType(id: string): Promise<void>;
+  getMaintenanceAgreements(filters?: { clientId?: string; status?: MaintenanceAgreement['status'] }): Promise<MaintenanceAgreementDetail[]>;
+  getMaintenanceAgreement(id: string): Promise<MaintenanceAgreementDetail | undefined>;
+  createMaintenanceAgreement(data: InsertMaintenanceAgreementType, createdById: string, now?: Date): Promise<MaintenanceAgreement>;
+  updateMaintenanceAgreement(id: string, updates: UpdateMaintenanceAgreementType, now?: Date): Promise<MaintenanceAgreement>;
+  getMaintenanceAgreementsDueForScheduling(now: Date): Promise<MaintenanceAgreementDetail[]>;
+  scheduleMaintenanceVisit(agreementId: string, now: Date): Promise<MaintenanceSchedulingResult | undefined>;
+  getMaintenanceVisit(id: string): Promise<MaintenanceVisitDetail | undefined>;
+  getMaintenanceVisits(filters: { agreementId?: string; assignedToId?: string; open?: boolean }): Promise<MaintenanceVisitDetail[]>;
+  getOverdueMaintenanceVisits(now: Date): Promise<MaintenanceVisitDetail[]>;
+  recordMaintenanceVisit(id: string, data: RecordMaintenanceVisitType): Promise<MaintenanceVisit>;
+  completeMaintenanceVisit(id: string, completedById: string, now?: Date): Promise<MaintenanceVisit>;
+
+  // SLA operations
+  getSlaPolicies(): Promise<SlaPolicyDetail[]>;
+  createSlaPolicy(data: InsertSlaPolicyType): Promise<SlaPolicy>;
+  updateSlaPolicy(id: string, updates: UpdateSlaPolicyType): Promise<SlaPolicy | undefined>;
+  deleteSlaPolicy(id: string): Promise<void>;
+  getTicketsForSlaMonitoring(now: Date): Promise<Ticket[]>;
+  checkTicketSla(id: string, now: Date): Promise<SlaCheckResult | undefined>;
+  getSlaComplianceReport(query: SlaComplianceQueryType, now?: Date): Promise<SlaComplianceReport>;
+
+  // Inbound email operations
+  claimInboundEmail(data: InsertInboundEmail): Promise<{ email: InboundEmail; duplicate: boolean }>;
+  updateInboundEmail(id: string, updates: Partial<InsertInboundEmail>): Promise<InboundEmail | undefined>;
+  deleteInboundEmail(id: string): Promise<void>;
+  getInboundEmail(id: string): Promise<InboundEmailDetail | undefined>;
+  getInboundEmails(query: InboundEmailQueryType): Promise<InboundEmailDetail[]>;
+  getInboundSender(address: string): Promise<InboundSender>;
+  getTicketByNumber(ticketNumber: string): Promise<Ticket | undefined>;
+  convertInboundEmailToTicket(id: string, data: ConvertInboundEmailType, handledById: string): Promise<{ email: InboundEmail; ticket: Ticket }>;
+  dismissInboundEmail(id: string, handledById: string): Promise<InboundEmail>;
+
   // Referral Program operations
   createReferralProgram(data: InsertReferralProgramType): Promise<ReferralProgram>;
   getReferralPrograms(): Promise<ReferralProgram[]>;
@@ -414,9 +1277,9 @@ export interface IStorage {
 }
 
 export class DatabaseStorage implements IStorage {
-  // Helper function to generate ticket numbers
-  private async generateTicketNumber(prefix: string, table: any): Promise<string> {
-    const result = await db
+  // Helper function to generate ticket numbers (runs inside a transaction when given one)
+  private async generateTicketNumber(prefix: string, table: any, executor: typeof db | DbTransaction = db): Promise<string> {
+    const result = await executor
       .select({ ticketNumber: table.ticketNumber })
       .from(table)
       .orderBy(desc(table.ticketNumber))
@@ -512,6 +1375,46 @@ export class DatabaseStorage implements IStorage {
     await db.delete(users).where(eq(users.id, id));
   }
 
+  async deleteUserSessions(userId: string): Promise<void> {
+    // Sessions are stored by connect-pg-simple with the user id inside the sess JSON
+    await db.execute(sql`DELETE FROM sessions WHERE sess->>'userId' = ${userId}`);
+  }
+
+  // Password reset token operations
+  async createPasswordResetToken(data: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [token] = await db
+      .insert(passwordResetTokens)
+      .values(data)
+      .returning();
+    return token;
+  }
+
+  async getPasswordResetToken(id: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db.select().from(passwordResetTokens)
+      .where(eq(passwordResetTokens.id, id));
+    return token;
+  }
+
+  // Claims the token; false when it was already used, so two concurrent resets can't both go through
+  async markPasswordResetTokenUsed(id: string): Promise<boolean> {
+    const [claimed] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning({ id: passwordResetTokens.id });
+    return !!claimed;
+  }
+
+  async invalidatePasswordResetTokens(userId: string): Promise<void> {
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.userId, userId),
+        isNull(passwordResetTokens.usedAt)
+      ));
+  }
+
   // Service request operations
   async createServiceRequest(request: InsertServiceRequestType): Promise<ServiceRequest> {
     const [serviceRequest] = await db
@@ -611,6 +1514,7 @@ export class DatabaseStorage implements IStorage {
       projectId: projectComments.projectId,
       userId: projectComments.userId,
       comment: projectComments.comment,
+      attachments: projectComments.attachments,
       createdAt: projectComments.createdAt,
       user: {
         id: users.id,
@@ -665,8 +1569,17 @@ export class DatabaseStorage implements IStorage {
       ticketNumber = `${prefix}001`;
     }
     
+    const policy = await this.resolveSlaPolicy(ticket.projectId, ticket.priority ?? 'medium');
+    const hours = businessHoursFromConfig(await this.getSystemConfig());
+    const slaTimers = policy ? {
+      slaPolicyId: policy.id,
+      slaStartedAt: now,
+      firstResponseDueAt: slaClockAdd(now, policy.firstResponseMinutes, policy, hours),
+      resolutionDueAt: slaClockAdd(now, policy.resolutionMinutes, policy, hours),
+    } : {};
+
     const [newTicket] = await db.insert(tickets)
-      .values({ ...ticket, ticketNumber })
+      .values({ ...ticket, ticketNumber, ...slaTimers, createdAt: now })
       .returning();
     return newTicket;
   }
@@ -691,6 +1604,17 @@ export class DatabaseStorage implements IStorage {
       dueDate: tickets.dueDate,
       shareToken: tickets.shareToken,
       shareTokenCreatedAt: tickets.shareTokenCreatedAt,
+      slaPolicyId: tickets.slaPolicyId,
+      slaStartedAt: tickets.slaStartedAt,
+      firstResponseDueAt: tickets.firstResponseDueAt,
+      firstRespondedAt: tickets.firstRespondedAt,
+      resolutionDueAt: tickets.resolutionDueAt,
+      resolvedAt: tickets.resolvedAt,
+      slaPausedMinutes: tickets.slaPausedMinutes,
+      firstResponseBreached: tickets.firstResponseBreached,
+      resolutionBreached: tickets.resolutionBreached,
+      slaWarnedAt: tickets.slaWarnedAt,
+      slaWarningAt: tickets.slaWarningAt,
       createdAt: tickets.createdAt,
       updatedAt: tickets.updatedAt,
       project: {
@@ -717,8 +1641,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateTicket(id: string, updates: Partial<Ticket>): Promise<Ticket> {
+    const existing = await this.getTicket(id);
+    const slaChanges = existing ? await this.ticketSlaTransition(existing, updates, new Date()) : {};
     const [updatedTicket] = await db.update(tickets)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...updates, ...slaChanges, updatedAt: new Date() })
       .where(eq(tickets.id, id))
       .returning();
     return updatedTicket;
@@ -732,15 +1658,123 @@ export class DatabaseStorage implements IStorage {
     const [newComment] = await db.insert(ticketComments)
       .values(comment)
       .returning();
+    if (comment.userId) {
+      await this.recordTicketFirstResponse(comment.ticketId, comment.userId, newComment.createdAt ?? new Date());
+    }
     return newComment;
   }
 
+  // Plan-specific policies win over the default for the priority; a client on several plans gets the fastest
+  private async resolveSlaPolicy(projectId: string, priority: NonNullable<Ticket['priority']>): Promise<SlaPolicy | undefined> {
+    const [project] = await db.select({ clientId: projects.clientId }).from(projects).where(eq(projects.id, projectId));
+    const planIds = project?.clientId
+      ? (await db
+          .select({ planId: supportSubscriptions.planId })
+          .from(supportSubscriptions)
+          .where(and(eq(supportSubscriptions.clientId, project.clientId), eq(supportSubscriptions.status, 'active')))
+        ).map(row => row.planId)
+      : [];
+
+    const candidates = await db.select().from(slaPolicies)
+      .where(and(
+        eq(slaPolicies.priority, priority),
+        eq(slaPolicies.isActive, true),
+        planIds.length > 0
+          ? or(isNull(slaPolicies.supportPlanId), inArray(slaPolicies.supportPlanId, planIds))
+          : isNull(slaPolicies.supportPlanId),
+      ))
+      .orderBy(asc(slaPolicies.resolutionMinutes));
+    return candidates.find(policy => policy.supportPlanId !== null) ?? candidates[0];
+  }
+
+  // Resolving pauses the resolution clock and reopening resumes it; a priority change re-targets from the matching policy
+  private async ticketSlaTransition(ticket: Ticket, updates: Partial<Ticket>, now: Date): Promise<Partial<Ticket>> {
+    const changes: Partial<Ticket> = {};
+    const priorityChanged = updates.priority != null && updates.priority !== ticket.priority;
+    const wasStopped = isTicketStopped(ticket.status);
+    const isStopped = isTicketStopped(updates.status ?? ticket.status);
+    if (!ticket.slaPolicyId && !priorityChanged && isStopped === wasStopped) {
+      return changes;
+    }
+
+    const hours = businessHoursFromConfig(await this.getSystemConfig());
+    let policy: SlaPolicy | undefined;
+    if (ticket.slaPolicyId) {
+      [policy] = await db.select().from(slaPolicies).where(eq(slaPolicies.id, ticket.slaPolicyId));
+    }
+    let pausedMinutes = ticket.slaPausedMinutes;
+
+    if (isStopped && !wasStopped) {
+      changes.resolvedAt = now;
+      // Resolving isn't a response: an unanswered ticket keeps no response time and breaches if it was overdue
+      if (!ticket.firstRespondedAt && ticket.firstResponseDueAt && now > ticket.firstResponseDueAt) {
+        changes.firstResponseBreached = true;
+      }
+      if (ticket.resolutionDueAt && now > ticket.resolutionDueAt) changes.resolutionBreached = true;
+    } else if (!isStopped && wasStopped) {
+      if (ticket.resolvedAt && policy) {
+        pausedMinutes += slaClockMinutes(ticket.resolvedAt, now, policy, hours);
+      }
+      changes.resolvedAt = null;
+      changes.slaPausedMinutes = pausedMinutes;
+      changes.slaWarnedAt = null;
+      changes.slaWarningAt = null;
+    }
+
+    if (priorityChanged) {
+      policy = await this.resolveSlaPolicy(ticket.projectId, updates.priority!);
+      changes.slaPolicyId = policy?.id ?? null;
+      changes.slaWarnedAt = null;
+      changes.slaWarningAt = null;
+      if (!policy) {
+        changes.firstResponseDueAt = null;
+        changes.resolutionDueAt = null;
+      }
+    }
+
+    // Targets count from when the clocks started, pushed back by the time the ticket spent resolved
+    if (policy && (priorityChanged || changes.slaPausedMinutes !== undefined)) {
+      if (priorityChanged && !ticket.slaPolicyId) {
+        changes.slaStartedAt = now;
+      }
+      const openedAt = changes.slaStartedAt ?? slaStart(ticket, now);
+      if (priorityChanged && !ticket.firstRespondedAt) {
+        changes.firstResponseDueAt = slaClockAdd(openedAt, policy.firstResponseMinutes, policy, hours);
+      }
+      changes.resolutionDueAt = slaClockAdd(openedAt, policy.resolutionMinutes + pausedMinutes, policy, hours);
+    }
+    return changes;
+  }
+
+  // The first comment from staff stops the first-response clock
+  private async recordTicketFirstResponse(ticketId: string, authorId: string, respondedAt: Date): Promise<void> {
+    const [author] = await db.select({ role: users.role }).from(users).where(eq(users.id, authorId));
+    if (!author || author.role === 'client') {
+      return;
+    }
+    const ticket = await this.getTicket(ticketId);
+    if (!ticket || ticket.firstRespondedAt) {
+      return;
+    }
+    await db.update(tickets)
+      .set({
+        firstRespondedAt: respondedAt,
+        firstResponseBreached: ticket.firstResponseBreached || (!!ticket.firstResponseDueAt && respondedAt > ticket.firstResponseDueAt),
+        slaWarnedAt: null, // Free the warning for the resolution clock
+        slaWarningAt: null,
+      })
+      .where(and(eq(tickets.id, ticketId), isNull(tickets.firstRespondedAt)));
+  }
+
   async getTicketComments(ticketId: string): Promise<(TicketComment & { user: User })[]> {
     const comments = await db.select({
       id: ticketComments.id,
       ticketId: ticketComments.ticketId,
       userId: ticketComments.userId,
+      authorName: ticketComments.authorName,
+      authorEmail: ticketComments.authorEmail,
       comment: ticketComments.comment,
+      attachments: ticketComments.attachments,
       createdAt: ticketComments.createdAt,
       user: {
         id: users.id,
@@ -758,6 +1792,8 @@ export class DatabaseStorage implements IStorage {
       ...c,
       user: { 
         ...c.user,
+        // Emailed replies from a contact without a login show under the name they sent from
+        ...(c.user ? {} : { id: null, firstName: c.authorName || c.authorEmail, lastName: null, profileImageUrl: null }),
         email: null,
         passwordHash: null,
         role: null,
@@ -1266,13 +2302,177 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Job costing
+  async getProjectProfitability(projectId: string): Promise<ProjectProfitability | undefined> {
+    const [profitability] = await this.projectProfitabilityRows([eq(projects.id, projectId)]);
+    return profitability;
+  }
+
+  async getProjectsProfitability(filters?: { status?: NonNullable<Project['status']>; from?: Date; to?: Date }): Promise<ProjectProfitability[]> {
+    const conditions = [];
+    if (filters?.status) {
+      conditions.push(eq(projects.status, filters.status));
+    }
+    // Projects are reported in the period they were completed, or started if still open
+    const reportDate = sql`coalesce(${projects.actualCompletionDate}, ${projects.startDate}, ${projects.createdAt})`;
+    if (filters?.from) {
+      conditions.push(sql`${reportDate} >= ${filters.from}`);
+    }
+    if (filters?.to) {
+      // `to` is a calendar date, so the range ends at the following midnight to include that whole day
+      const end = new Date(filters.to);
+      end.setUTCDate(end.getUTCDate() + 1);
+      conditions.push(sql`${reportDate} < ${end}`);
+    }
+    return await this.projectProfitabilityRows(conditions);
+  }
+
+  // Aggregates each cost and revenue source per project separately so joins can't multiply the sums
+  private async projectProfitabilityRows(conditions: ReturnType<typeof eq>[]): Promise<ProjectProfitability[]> {
+    const projectRows = await db
+      .select({
+        projectId: projects.id,
+        ticketNumber: projects.ticketNumber,
+        projectName: projects.projectName,
+        status: projects.status,
+        clientName: clients.name,
+      })
+      .from(projects)
+      .leftJoin(clients, eq(projects.clientId, clients.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(projects.createdAt));
+    if (projectRows.length === 0) {
+      return [];
+    }
+    const projectIds = projectRows.map(row => row.projectId);
+
+    const quoted = await db
+      .select({
+        projectId: quotes.projectId,
+        total: sql<number>`coalesce(sum(${quotes.total}), 0)`.mapWith(Number),
+      })
+      .from(quotes)
+      .where(and(inArray(quotes.projectId, projectIds), eq(quotes.status, 'accepted')))
+      .groupBy(quotes.projectId);
+
+    // Invoices count towards the project they name, or else the project of the quote they bill
+    const invoiceProjectId = sql<string | null>`coalesce(${invoices.projectId}, ${quotes.projectId})`;
+    const invoiced = await db
+      .select({
+        projectId: invoiceProjectId,
+        total: sql<number>`coalesce(sum(${invoices.total}), 0)`.mapWith(Number),
+        collected: sql<number>`coalesce(sum(${invoices.amountPaid}), 0)`.mapWith(Number),
+      })
+      .from(invoices)
+      .leftJoin(quotes, eq(invoices.quoteId, quotes.id))
+      .where(and(inArray(invoiceProjectId, projectIds), sql`${invoices.status} not in ('draft', 'cancelled')`))
+      .groupBy(invoiceProjectId);
+
+    // Usage is stored as negative quantities and returns as positive, so negate to get cost consumed.
+    // Returns booked without a cost are credited at the item's unit cost rather than at nothing.
+    const materials = await db
+      .select({
+        projectId: inventoryTransactions.projectId,
+        total: sql<number>`coalesce(sum(
+          sign(-${inventoryTransactions.quantity})
+          * coalesce(
+            abs(${inventoryTransactions.totalCost}),
+            abs(${inventoryTransactions.quantity}) * coalesce(${inventoryTransactions.unitCost}, ${inventoryItems.unitCost}, 0)
+          )
+        ), 0)`.mapWith(Number),
+      })
+      .from(inventoryTransactions)
+      .innerJoin(inventoryItems, eq(inventoryTransactions.itemId, inventoryItems.id))
+      .where(and(
+        inArray(inventoryTransactions.projectId, projectIds),
+        inArray(inventoryTransactions.transactionType, ['project_usage', 'return']),
+      ))
+      .groupBy(inventoryTransactions.projectId);
+
+    const projectExpenses = await db
+      .select({
+        projectId: expenses.projectId,
+        total: sql<number>`coalesce(sum(${expenses.amount}), 0)`.mapWith(Number),
+      })
+      .from(expenses)
+      .where(inArray(expenses.projectId, projectIds))
+      .groupBy(expenses.projectId);
+
+    const labor = await db
+      .select({
+        projectId: timeEntries.projectId,
+        total: sql<number>`coalesce(sum(${timeEntries.regularMinutes} + ${timeEntries.afterHoursMinutes} + ${timeEntries.holidayMinutes}), 0) / 60.0`.mapWith(Number),
+      })
+      .from(timeEntries)
+      .where(and(inArray(timeEntries.projectId, projectIds), eq(timeEntries.status, 'approved')))
+      .groupBy(timeEntries.projectId);
+    const config = await this.getSystemConfig();
+    const laborCostPerHour = parseFloat(config?.laborCostPerHour || '0');
+
+    const byProject = (rows: { projectId: string | null; total: number }[]) =>
+      new Map(rows.map(row => [row.projectId, row.total]));
+    const quotedByProject = byProject(quoted);
+    const invoicedByProject = new Map(invoiced.map(row => [row.projectId, row]));
+    const materialsByProject = byProject(materials);
+    const expensesByProject = byProject(projectExpenses);
+    const laborHoursByProject = byProject(labor);
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    return projectRows.map(row => {
+      const quotedValue = quotedByProject.get(row.projectId) ?? 0;
+      const invoice = invoicedByProject.get(row.projectId);
+      const materialsCost = materialsByProject.get(row.projectId) ?? 0;
+      const laborHours = laborHoursByProject.get(row.projectId) ?? 0;
+      const laborCost = laborHours * laborCostPerHour;
+      const expensesCost = expensesByProject.get(row.projectId) ?? 0;
+      const totalCost = materialsCost + laborCost + expensesCost;
+      const invoicedTotal = invoice?.total ?? 0;
+      const margin = invoicedTotal - totalCost;
+      return {
+        ...row,
+        quotedValue: round(quotedValue),
+        invoiced: round(invoicedTotal),
+        collected: round(invoice?.collected ?? 0),
+        materialsCost: round(materialsCost),
+        laborHours: round(laborHours),
+        laborCost: round(laborCost),
+        expensesCost: round(expensesCost),
+        totalCost: round(totalCost),
+        margin: round(margin),
+        marginPercent: invoicedTotal > 0 ? round((margin / invoicedTotal) * 100) : null,
+        projectedMargin: round(quotedValue - totalCost),
+      };
+    });
+  }
+
   // Inventory operations
-  async createInventoryItem(item: InsertInventoryItemType): Promise<InventoryItem> {
-    const [newItem] = await db
-      .insert(inventoryItems)
-      .values(item)
-      .returning();
-    return newItem;
+  async createInventoryItem(item: InsertInventoryItemType, performedById?: string, options: InventoryStockOptions = {}): Promise<InventoryItem> {
+    const { quantityInStock, ...details } = item;
+    if (!quantityInStock || !performedById) {
+      const [newItem] = await db
+        .insert(inventoryItems)
+        .values(item)
+        .returning();
+      return newItem;
+    }
+
+    // Opening stock is booked as an adjustment so the item's history accounts for every unit
+    return await db.transaction(async (tx) => {
+      const [newItem] = await tx
+        .insert(inventoryItems)
+        .values({ ...details, quantityInStock: 0 })
+        .returning();
+      await this.applyInventoryTransaction(tx, {
+        itemId: newItem.id,
+        transactionType: 'adjustment',
+        quantity: quantityInStock,
+        unitCost: newItem.unitCost,
+        performedById,
+        notes: options.notes ?? 'Opening stock',
+      }, options);
+      const [stocked] = await tx.select().from(inventoryItems).where(eq(inventoryItems.id, newItem.id));
+      return stocked;
+    });
   }
 
   async getInventoryItems(includeInactive: boolean = false): Promise<InventoryItem[]> {
@@ -1291,13 +2491,23 @@ export class DatabaseStorage implements IStorage {
     return item;
   }
 
-  async updateInventoryItem(id: string, updates: Partial<InventoryItem>): Promise<InventoryItem | undefined> {
-    const [item] = await db
-      .update(inventoryItems)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(inventoryItems.id, id))
-      .returning();
-    return item;
+  // A stock count is booked in the same transaction as the field changes so the two can't drift apart
+  async updateInventoryItem(id: string, updates: Partial<InventoryItem>, stockCount?: InventoryStockCount): Promise<InventoryItem | undefined> {
+    return await db.transaction(async (tx) => {
+      if (stockCount) {
+        const [current] = await tx.select().from(inventoryItems).where(eq(inventoryItems.id, id)).for('update');
+        if (!current) {
+          return undefined;
+        }
+        await this.bookStockCount(tx, current, stockCount.quantity, stockCount.performedById, stockCount.options ?? {});
+      }
+      const [item] = await tx
+        .update(inventoryItems)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(inventoryItems.id, id))
+        .returning();
+      return item;
+    });
   }
 
   async deleteInventoryItem(id: string): Promise<void> {
@@ -1317,34 +2527,424 @@ export class DatabaseStorage implements IStorage {
       .orderBy(inventoryItems.name);
   }
 
-  // Inventory transaction operations
-  async createInventoryTransaction(transaction: InsertInventoryTransactionType): Promise<InventoryTransaction> {
-    // Create the transaction
-    const [newTransaction] = await db
-      .insert(inventoryTransactions)
-      .values(transaction)
-      .returning();
+  // Reorder point = usage over the supplier's lead time plus a safety buffer (never below the item's minimum);
+  // the suggested quantity tops stock plus open PO quantities back up to cover `coverDays` beyond that point
+  async getReorderSuggestions(options: ReorderSuggestionsQueryType): Promise<ReorderSuggestion[]> {
+    const since = new Date(Date.now() - options.windowDays * DAY_MS);
+    const items = await db.select().from(inventoryItems).where(eq(inventoryItems.isActive, true));
 
-    // Update the inventory item quantity
-    const item = await this.getInventoryItem(transaction.itemId);
-    if (item) {
-      const newQuantity = (item.quantityInStock || 0) + transaction.quantity;
-      await this.updateInventoryItem(transaction.itemId, {
-        quantityInStock: newQuantity
-      });
+    // Stock returned from a project wasn't consumed, so it comes off that window's usage
+    const usageRows = await db
+      .select({
+        itemId: inventoryTransactions.itemId,
+        used: sql<number>`greatest(coalesce(sum(-${inventoryTransactions.quantity}), 0), 0)`.mapWith(Number),
+      })
+      .from(inventoryTransactions)
+      .where(and(
+        or(
+          inArray(inventoryTransactions.transactionType, ['project_usage', 'sale']),
+          and(eq(inventoryTransactions.transactionType, 'return'), isNotNull(inventoryTransactions.projectId)),
+        ),
+        sql`${inventoryTransactions.createdAt} >= ${since}`
+      ))
+      .groupBy(inventoryTransactions.itemId);
+    const usage = new Map(usageRows.map(row => [row.itemId, row.used]));
+
+    const onOrderRows = await db
+      .select({
+        itemId: purchaseOrderLines.itemId,
+        outstanding: sql<number>`coalesce(sum(${purchaseOrderLines.quantityOrdered} - ${purchaseOrderLines.quantityReceived}), 0)`.mapWith(Number),
+      })
+      .from(purchaseOrderLines)
+      .innerJoin(purchaseOrders, eq(purchaseOrderLines.purchaseOrderId, purchaseOrders.id))
+      .where(inArray(purchaseOrders.status, ['sent', 'partially_received']))
+      .groupBy(purchaseOrderLines.itemId);
+    const onOrder = new Map(onOrderRows.map(row => [row.itemId, row.outstanding]));
+
+    // The supplier an item was last ordered from wins over the free-text supplier name on the item
+    const orderedFrom = await db
+      .select({ itemId: purchaseOrderLines.itemId, supplierId: purchaseOrders.supplierId })
+      .from(purchaseOrderLines)
+      .innerJoin(purchaseOrders, eq(purchaseOrderLines.purchaseOrderId, purchaseOrders.id))
+      .where(ne(purchaseOrders.status, 'cancelled'))
+      .orderBy(desc(purchaseOrders.createdAt));
+    const lastSupplier = new Map<string, string>();
+    for (const row of orderedFrom) {
+      if (!lastSupplier.has(row.itemId)) lastSupplier.set(row.itemId, row.supplierId);
     }
 
-    return newTransaction;
+    const supplierRows = await db.select().from(suppliers);
+    const suppliersById = new Map(supplierRows.map(supplier => [supplier.id, supplier]));
+    const suppliersByName = new Map(supplierRows.map(supplier => [supplier.companyName.trim().toLowerCase(), supplier]));
+
+    const leadTimeRows = await db
+      .select({
+        supplierId: purchaseOrders.supplierId,
+        days: sql<number>`avg(extract(epoch from (${purchaseOrders.receivedAt} - ${purchaseOrders.sentAt})) / 86400)`.mapWith(Number),
+      })
+      .from(purchaseOrders)
+      .where(and(
+        eq(purchaseOrders.status, 'received'),
+        isNotNull(purchaseOrders.sentAt),
+        isNotNull(purchaseOrders.receivedAt)
+      ))
+      .groupBy(purchaseOrders.supplierId);
+    const observedLeadTimes = new Map(leadTimeRows.map(row => [row.supplierId, Math.max(Math.ceil(row.days), 1)]));
+
+    const suggestions = items.map((item): ReorderSuggestion => {
+      const supplier = suppliersById.get(lastSupplier.get(item.id) ?? '') ??
+        (item.supplier ? suppliersByName.get(item.supplier.trim().toLowerCase()) : undefined);
+      let leadTimeDays = DEFAULT_LEAD_TIME_DAYS;
+      let leadTimeSource: ReorderSuggestion['leadTimeSource'] = 'default';
+      if (supplier && observedLeadTimes.has(supplier.id)) {
+        leadTimeDays = observedLeadTimes.get(supplier.id)!;
+        leadTimeSource = 'history';
+      } else if (supplier?.leadTimeDays) {
+        leadTimeDays = supplier.leadTimeDays;
+        leadTimeSource = 'supplier';
+      }
+
+      const used = usage.get(item.id) ?? 0;
+      const averageDailyUsage = used / options.windowDays;
+      const quantityInStock = item.quantityInStock || 0;
+      const quantityOnOrder = onOrder.get(item.id) ?? 0;
+      const minimumStockLevel = item.minimumStockLevel || 0;
+      const reorderPoint = Math.max(
+        Math.ceil(averageDailyUsage * leadTimeDays) + Math.ceil(averageDailyUsage * options.safetyDays),
+        minimumStockLevel
+      );
+      const position = quantityInStock + quantityOnOrder;
+      const needsReorder = reorderPoint > 0 && position <= reorderPoint;
+      const target = reorderPoint + Math.ceil(averageDailyUsage * options.coverDays);
+
+      return {
+        itemId: item.id,
+        sku: item.sku,
+        name: item.name,
+        unitOfMeasure: item.unitOfMeasure,
+        unitCost: item.unitCost,
+        quantityInStock,
+        quantityOnOrder,
+        minimumStockLevel,
+        usageInWindow: used,
+        averageDailyUsage: Math.round(averageDailyUsage * 100) / 100,
+        daysOfStock: averageDailyUsage > 0 ? Math.floor(quantityInStock / averageDailyUsage) : null,
+        supplierId: supplier?.id ?? null,
+        supplierName: supplier?.companyName ?? item.supplier ?? null,
+        leadTimeDays,
+        leadTimeSource,
+        reorderPoint,
+        suggestedQuantity: needsReorder ? Math.max(target - position, 1) : 0,
+        needsReorder,
+      };
+    });
+
+    return suggestions
+      .filter(suggestion => options.includeAll || suggestion.needsReorder)
+      .sort((a, b) =>
+        Number(b.needsReorder) - Number(a.needsReorder) ||
+        (a.daysOfStock ?? Infinity) - (b.daysOfStock ?? Infinity) ||
+        a.name.localeCompare(b.name)
+      );
   }
 
-  async getInventoryTransactions(itemId?: string, projectId?: string, limit: number = 100): Promise<InventoryTransaction[]> {
-    let query = db.select().from(inventoryTransactions);
-    
-    if (itemId && projectId) {
-      query = query.where(and(
-        eq(inventoryTransactions.itemId, itemId),
-        eq(inventoryTransactions.projectId, projectId)
-      ));
+  // Inventory transaction operations
+  async createInventoryTransaction(transaction: InsertInventoryTransactionType, options: InventoryStockOptions = {}): Promise<InventoryTransaction> {
+    return await db.transaction(async (tx) => {
+      const [item] = await tx.select().from(inventoryItems).where(eq(inventoryItems.id, transaction.itemId)).for('update');
+      if (item?.isSerialized && STOCK_REMOVAL_TYPES.has(transaction.transactionType)) {
+        await this.retireSerializedUnits(tx, item, transaction, options.serialUnitIds ?? []);
+      }
+      return await this.applyInventoryTransaction(tx, transaction, options);
+    });
+  }
+
+  // Serial-tracked stock can't leave anonymously: installs go through installSerializedUnit, and
+  // sales and write-offs retire the named units so their serials stop showing as in stock
+  private async retireSerializedUnits(
+    tx: DbTransaction,
+    item: InventoryItem,
+    transaction: InsertInventoryTransactionType,
+    unitIds: string[],
+  ): Promise<void> {
+    if (transaction.transactionType === 'project_usage') {
+      throw new ConflictError(`${item.sku} is serial-tracked; install its serial numbers instead`);
+    }
+    const quantity = Math.abs(transaction.quantity);
+    if (new Set(unitIds).size !== quantity || unitIds.length !== quantity) {
+      throw new InvalidRequestError(`Choose the ${quantity} serial number(s) of ${item.sku} that left stock`);
+    }
+    const units = await tx
+      .select()
+      .from(serializedUnits)
+      .where(and(inArray(serializedUnits.id, unitIds), eq(serializedUnits.itemId, item.id)))
+      .for('update');
+    if (units.length !== unitIds.length) {
+      throw new NotFoundError('Serial unit not found');
+    }
+    const unavailable = units.filter(unit => unit.status !== 'in_stock');
+    if (unavailable.length > 0) {
+      throw new ConflictError(`Serial unit is not in stock: ${unavailable.map(unit => unit.serialNumber).join(', ')}`);
+    }
+    await tx
+      .update(serializedUnits)
+      .set({ status: 'retired', updatedAt: new Date() })
+      .where(inArray(serializedUnits.id, unitIds));
+  }
+
+  // Locks the item, records the movement and moves the stock level in the same database transaction
+  private async applyInventoryTransaction(
+    tx: DbTransaction,
+    transaction: InsertInventoryTransactionType & { purchaseOrderId?: string },
+    options: InventoryStockOptions,
+  ): Promise<InventoryTransaction> {
+    const [item] = await tx
+      .select()
+      .from(inventoryItems)
+      .where(eq(inventoryItems.id, transaction.itemId))
+      .for('update');
+    if (!item) {
+      throw new NotFoundError('Inventory item not found');
+    }
+
+    if (transaction.transactionType === 'transfer') {
+      throw new InvalidRequestError('Transfers must be recorded with transferInventory');
+    }
+
+    const quantity = signedStockQuantity(transaction.transactionType, transaction.quantity);
+    const onHand = item.quantityInStock || 0;
+    if (onHand + quantity < 0 && !options.allowNegative) {
+      throw new ConflictError(`Insufficient stock for ${item.sku}: ${onHand} on hand, ${Math.abs(quantity)} requested`);
+    }
+    if (transaction.locationId) {
+      await this.moveLocationStock(tx, item, transaction.locationId, quantity, options);
+    }
+
+    const [newTransaction] = await tx
+      .insert(inventoryTransactions)
+      .values({ ...transaction, quantity })
+      .returning();
+    await tx
+      .update(inventoryItems)
+      .set({ quantityInStock: onHand + quantity, updatedAt: new Date() })
+      .where(eq(inventoryItems.id, item.id));
+    return newTransaction;
+  }
+
+  // Changes an item's quantity at one location; callers must already hold the item's row lock
+  private async moveLocationStock(
+    tx: DbTransaction,
+    item: InventoryItem,
+    locationId: string,
+    quantity: number,
+    options: InventoryStockOptions,
+  ): Promise<void> {
+    const [location] = await tx.select().from(stockLocations).where(eq(stockLocations.id, locationId));
+    if (!location) {
+      throw new NotFoundError('Stock location not found');
+    }
+
+    await tx
+      .insert(inventoryStockLevels)
+      .values({ itemId: item.id, locationId, quantity: 0 })
+      .onConflictDoNothing({ target: [inventoryStockLevels.itemId, inventoryStockLevels.locationId] });
+    const [level] = await tx
+      .select()
+      .from(inventoryStockLevels)
+      .where(and(eq(inventoryStockLevels.itemId, item.id), eq(inventoryStockLevels.locationId, locationId)));
+
+    if (level.quantity + quantity < 0 && !options.allowNegative) {
+      throw new ConflictError(`Insufficient stock for ${item.sku} at ${location.name}: ${level.quantity} on hand, ${Math.abs(quantity)} requested`);
+    }
+    await tx
+      .update(inventoryStockLevels)
+      .set({ quantity: level.quantity + quantity, updatedAt: new Date() })
+      .where(eq(inventoryStockLevels.id, level.id));
+  }
+
+  // Records a transfer as a pair of rows (out of the source, into the destination) so totals still reconcile
+  async transferInventory(transfer: InventoryTransferType, performedById: string, options: InventoryStockOptions = {}): Promise<InventoryTransaction[]> {
+    return await db.transaction(async (tx) => {
+      const [item] = await tx
+        .select()
+        .from(inventoryItems)
+        .where(eq(inventoryItems.id, transfer.itemId))
+        .for('update');
+      if (!item) {
+        throw new NotFoundError('Inventory item not found');
+      }
+
+      if (transfer.fromLocationId) {
+        await this.moveLocationStock(tx, item, transfer.fromLocationId, -transfer.quantity, options);
+      } else {
+        // Unassigned stock is whatever the locations don't account for
+        const [{ assigned }] = await tx
+          .select({ assigned: sql<number>`coalesce(sum(${inventoryStockLevels.quantity}), 0)`.mapWith(Number) })
+          .from(inventoryStockLevels)
+          .where(eq(inventoryStockLevels.itemId, item.id));
+        const unassigned = (item.quantityInStock || 0) - assigned;
+        if (unassigned < transfer.quantity && !options.allowNegative) {
+          throw new ConflictError(`Insufficient stock for ${item.sku}: ${Math.max(unassigned, 0)} unassigned, ${transfer.quantity} requested`);
+        }
+      }
+      if (transfer.toLocationId) {
+        await this.moveLocationStock(tx, item, transfer.toLocationId, transfer.quantity, options);
+      }
+
+      const transferId = randomUUID();
+      const movement = {
+        itemId: item.id,
+        transactionType: 'transfer' as const,
+        unitCost: item.unitCost,
+        transferId,
+        performedById,
+        notes: transfer.notes,
+      };
+      return await tx
+        .insert(inventoryTransactions)
+        .values([
+          { ...movement, quantity: -transfer.quantity, locationId: transfer.fromLocationId },
+          { ...movement, quantity: transfer.quantity, locationId: transfer.toLocationId },
+        ])
+        .returning();
+    });
+  }
+
+  // Brings an item to a counted stock level by recording the difference as an adjustment
+  async setInventoryStockLevel(itemId: string, quantity: number, performedById: string, options: InventoryStockOptions = {}): Promise<InventoryTransaction | undefined> {
+    return await db.transaction(async (tx) => {
+      const [item] = await tx
+        .select()
+        .from(inventoryItems)
+        .where(eq(inventoryItems.id, itemId))
+        .for('update');
+      if (!item) {
+        throw new NotFoundError('Inventory item not found');
+      }
+      return await this.bookStockCount(tx, item, quantity, performedById, options);
+    });
+  }
+
+  // Records the gap between the counted and recorded stock as an adjustment; the caller holds the item's row lock
+  private async bookStockCount(
+    tx: DbTransaction,
+    item: InventoryItem,
+    quantity: number,
+    performedById: string,
+    options: InventoryStockOptions,
+  ): Promise<InventoryTransaction | undefined> {
+    const difference = quantity - (item.quantityInStock || 0);
+    if (difference === 0) {
+      return undefined;
+    }
+    return await this.applyInventoryTransaction(tx, {
+      itemId: item.id,
+      transactionType: 'adjustment',
+      quantity: difference,
+      unitCost: item.unitCost,
+      performedById,
+      notes: options.notes ?? 'Stock count adjustment',
+    }, options);
+  }
+
+  async getInventoryReconciliation(itemIds?: string[], executor: typeof db | DbTransaction = db): Promise<InventoryDiscrepancy[]> {
+    const rows = await executor
+      .select({
+        itemId: inventoryItems.id,
+        sku: inventoryItems.sku,
+        name: inventoryItems.name,
+        quantityInStock: inventoryItems.quantityInStock,
+        transactionTotal: sql<number>`coalesce(sum(${inventoryTransactions.quantity}), 0)`.mapWith(Number),
+      })
+      .from(inventoryItems)
+      .leftJoin(inventoryTransactions, eq(inventoryTransactions.itemId, inventoryItems.id))
+      .where(itemIds && itemIds.length > 0 ? inArray(inventoryItems.id, itemIds) : undefined)
+      .groupBy(inventoryItems.id)
+      .orderBy(inventoryItems.sku);
+
+    return rows
+      .map(row => ({
+        ...row,
+        quantityInStock: row.quantityInStock || 0,
+        difference: (row.quantityInStock || 0) - row.transactionTotal,
+      }))
+      .filter(row => row.difference !== 0);
+  }
+
+  async reconcileInventory(strategy: InventoryReconcileStrategy, performedById: string, itemIds?: string[]): Promise<InventoryDiscrepancy[]> {
+    return await db.transaction(async (tx) => {
+      // Hold the items so no movement lands between the comparison and the correction
+      await tx
+        .select({ id: inventoryItems.id })
+        .from(inventoryItems)
+        .where(itemIds && itemIds.length > 0 ? inArray(inventoryItems.id, itemIds) : undefined)
+        .for('update');
+
+      const discrepancies = await this.getInventoryReconciliation(itemIds, tx);
+      for (const discrepancy of discrepancies) {
+        if (strategy === 'history') {
+          await tx
+            .update(inventoryItems)
+            .set({ quantityInStock: discrepancy.transactionTotal, updatedAt: new Date() })
+            .where(eq(inventoryItems.id, discrepancy.itemId));
+          await this.rebuildLocationStock(tx, discrepancy.itemId);
+          // A zero-quantity row keeps the correction in the item's history without unbalancing it again
+          await tx.insert(inventoryTransactions).values({
+            itemId: discrepancy.itemId,
+            transactionType: 'adjustment',
+            quantity: 0,
+            performedById,
+            notes: `Reconciliation: recorded stock reset from ${discrepancy.quantityInStock} to ${discrepancy.transactionTotal} and location stock rebuilt to match history`,
+          });
+        } else {
+          await tx.insert(inventoryTransactions).values({
+            itemId: discrepancy.itemId,
+            transactionType: 'adjustment',
+            quantity: discrepancy.difference,
+            performedById,
+            notes: 'Reconciliation: balance history to recorded stock',
+          });
+        }
+      }
+      return discrepancies;
+    });
+  }
+
+  // Resets an item's per-location quantities to what its located transactions add up to, so the locations
+  // agree with a total that has just been reset to history; callers must already hold the item's row lock
+  private async rebuildLocationStock(tx: DbTransaction, itemId: string): Promise<void> {
+    const located = await tx
+      .select({
+        locationId: inventoryTransactions.locationId,
+        quantity: sql<number>`coalesce(sum(${inventoryTransactions.quantity}), 0)`.mapWith(Number),
+      })
+      .from(inventoryTransactions)
+      .where(and(eq(inventoryTransactions.itemId, itemId), isNotNull(inventoryTransactions.locationId)))
+      .groupBy(inventoryTransactions.locationId);
+
+    await tx
+      .update(inventoryStockLevels)
+      .set({ quantity: 0, updatedAt: new Date() })
+      .where(eq(inventoryStockLevels.itemId, itemId));
+    for (const { locationId, quantity } of located) {
+      await tx
+        .insert(inventoryStockLevels)
+        .values({ itemId, locationId: locationId!, quantity })
+        .onConflictDoUpdate({
+          target: [inventoryStockLevels.itemId, inventoryStockLevels.locationId],
+          set: { quantity, updatedAt: new Date() },
+        });
+    }
+  }
+
+  async getInventoryTransactions(itemId?: string, projectId?: string, limit: number = 100): Promise<InventoryTransaction[]> {
+    let query = db.select().from(inventoryTransactions);
+    
+    if (itemId && projectId) {
+      query = query.where(and(
+        eq(inventoryTransactions.itemId, itemId),
+        eq(inventoryTransactions.projectId, projectId)
+      ));
     } else if (itemId) {
       query = query.where(eq(inventoryTransactions.itemId, itemId));
     } else if (projectId) {
@@ -1356,6 +2956,394 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  // Stock location operations
+  async getStockLocations(filters: { assignedUserId?: string; includeInactive?: boolean } = {}): Promise<StockLocation[]> {
+    const conditions = [];
+    if (filters.assignedUserId) {
+      conditions.push(eq(stockLocations.assignedUserId, filters.assignedUserId));
+    }
+    if (!filters.includeInactive) {
+      conditions.push(eq(stockLocations.isActive, true));
+    }
+    return await db
+      .select()
+      .from(stockLocations)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(stockLocations.type, stockLocations.name);
+  }
+
+  async getStockLocation(id: string): Promise<StockLocation | undefined> {
+    const [location] = await db.select().from(stockLocations).where(eq(stockLocations.id, id));
+    return location;
+  }
+
+  async createStockLocation(location: InsertStockLocationType): Promise<StockLocation> {
+    const [newLocation] = await db.insert(stockLocations).values(location).returning();
+    return newLocation;
+  }
+
+  async updateStockLocation(id: string, updates: UpdateStockLocationType): Promise<StockLocation | undefined> {
+    const [location] = await db
+      .update(stockLocations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(stockLocations.id, id))
+      .returning();
+    return location;
+  }
+
+  async getLocationStock(locationId: string): Promise<LocationStockItem[]> {
+    return await db
+      .select({
+        itemId: inventoryItems.id,
+        sku: inventoryItems.sku,
+        name: inventoryItems.name,
+        category: inventoryItems.category,
+        unitOfMeasure: inventoryItems.unitOfMeasure,
+        minimumStockLevel: inventoryItems.minimumStockLevel,
+        quantity: inventoryStockLevels.quantity,
+      })
+      .from(inventoryStockLevels)
+      .innerJoin(inventoryItems, eq(inventoryStockLevels.itemId, inventoryItems.id))
+      .where(and(eq(inventoryStockLevels.locationId, locationId), ne(inventoryStockLevels.quantity, 0)))
+      .orderBy(inventoryItems.name);
+  }
+
+  // Serial number operations
+  private serializedUnitDetailQuery(executor: typeof db | DbTransaction = db) {
+    return executor
+      .select({
+        ...getTableColumns(serializedUnits),
+        sku: inventoryItems.sku,
+        itemName: inventoryItems.name,
+        category: inventoryItems.category,
+        projectName: projects.projectName,
+        projectTicketNumber: projects.ticketNumber,
+        clientId: clients.id,
+        clientName: clients.name,
+      })
+      .from(serializedUnits)
+      .innerJoin(inventoryItems, eq(serializedUnits.itemId, inventoryItems.id))
+      .leftJoin(projects, eq(serializedUnits.projectId, projects.id))
+      .leftJoin(clients, eq(projects.clientId, clients.id));
+  }
+
+  // Callers must hold the item's row lock
+  private async insertSerializedUnits(
+    tx: DbTransaction,
+    item: InventoryItem,
+    serialNumbers: string[],
+    values: { purchaseOrderId?: string; notes?: string },
+  ): Promise<SerializedUnit[]> {
+    if (!item.isSerialized) {
+      throw new InvalidRequestError(`Item is not serial-tracked: ${item.sku}`);
+    }
+    const existing = await tx
+      .select({ serialNumber: serializedUnits.serialNumber })
+      .from(serializedUnits)
+      .where(and(eq(serializedUnits.itemId, item.id), inArray(serializedUnits.serialNumber, serialNumbers)));
+    if (existing.length > 0) {
+      throw new ConflictError(`Serial number already recorded for ${item.sku}: ${existing.map(unit => unit.serialNumber).join(', ')}`);
+    }
+    return await tx
+      .insert(serializedUnits)
+      .values(serialNumbers.map(serialNumber => ({ itemId: item.id, serialNumber, ...values })))
+      .returning();
+  }
+
+  // Serials can only be registered for units already in stock that don't have one yet
+  async registerSerializedUnits(itemId: string, data: RegisterSerialsType): Promise<SerializedUnit[]> {
+    return await db.transaction(async (tx) => {
+      const [item] = await tx.select().from(inventoryItems).where(eq(inventoryItems.id, itemId)).for('update');
+      if (!item) {
+        throw new NotFoundError('Inventory item not found');
+      }
+      
+      const [{ tracked }] = await tx
+        .select({ tracked: sql<number>`count(*)`.mapWith(Number) })
+        .from(serializedUnits)
+        .where(and(eq(serializedUnits.itemId, itemId), inArray(serializedUnits.status, ['in_stock', 'allocated'])));
+      const untracked = (item.quantityInStock || 0) - tracked;
+      if (item.isSerialized && data.serialNumbers.length > untracked) {
+        throw new ConflictError(`Only ${Math.max(untracked, 0)} untracked unit(s) of ${item.sku} in stock`);
+      }
+      return await this.insertSerializedUnits(tx, item, data.serialNumbers, { notes: data.notes });
+    });
+  }
+
+  async searchSerializedUnits(filters: SerialSearchQueryType): Promise<SerializedUnitDetail[]> {
+    const conditions = [];
+    if (filters.search) {
+      conditions.push(sql`${serializedUnits.serialNumber} ilike ${`%${filters.search}%`}`);
+    }
+    if (filters.itemId) {
+      conditions.push(eq(serializedUnits.itemId, filters.itemId));
+    }
+    if (filters.status) {
+      conditions.push(eq(serializedUnits.status, filters.status));
+    }
+    
+    return await this.serializedUnitDetailQuery()
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(serializedUnits.updatedAt))
+      .limit(200);
+  }
+
+  async getProjectSerializedUnits(projectId: string): Promise<SerializedUnitDetail[]> {
+    return await this.serializedUnitDetailQuery()
+      .where(eq(serializedUnits.projectId, projectId))
+      .orderBy(inventoryItems.name, serializedUnits.serialNumber);
+  }
+
+  async getClientEquipment(clientId: string): Promise<SerializedUnitDetail[]> {
+    return await this.serializedUnitDetailQuery()
+      .where(and(eq(projects.clientId, clientId), eq(serializedUnits.status, 'installed')))
+      .orderBy(asc(serializedUnits.warrantyEndsAt), inventoryItems.name);
+  }
+
+  async getWarrantyExpiringUnits(withinDays: number): Promise<SerializedUnitDetail[]> {
+    const now = new Date();
+    return await this.serializedUnitDetailQuery()
+      .where(and(
+        eq(serializedUnits.status, 'installed'),
+        sql`${serializedUnits.warrantyEndsAt} >= ${now}`,
+        lte(serializedUnits.warrantyEndsAt, new Date(now.getTime() + withinDays * DAY_MS))
+      ))
+      .orderBy(asc(serializedUnits.warrantyEndsAt));
+  }
+
+  // Reserves in-stock units for a job; they stay in stock until installed
+  async allocateSerializedUnits(projectId: string, unitIds: string[]): Promise<SerializedUnit[]> {
+    return await db.transaction(async (tx) => {
+      const units = await tx.select().from(serializedUnits).where(inArray(serializedUnits.id, unitIds)).for('update');
+      if (units.length !== unitIds.length) {
+        throw new NotFoundError('Serial unit not found');
+      }
+      const unavailable = units.filter(unit => unit.status !== 'in_stock');
+      if (unavailable.length > 0) {
+        throw new ConflictError(`Serial unit is not in stock: ${unavailable.map(unit => unit.serialNumber).join(', ')}`);
+      }
+      
+      return await tx
+        .update(serializedUnits)
+        .set({ status: 'allocated', projectId, allocatedAt: new Date(), updatedAt: new Date() })
+        .where(inArray(serializedUnits.id, unitIds))
+        .returning();
+    });
+  }
+
+  async releaseSerializedUnit(id: string): Promise<SerializedUnit | undefined> {
+    return await db.transaction(async (tx) => {
+      const [unit] = await tx.select().from(serializedUnits).where(eq(serializedUnits.id, id)).for('update');
+      if (!unit) {
+        return undefined;
+      }
+      if (unit.status !== 'allocated') {
+        throw new ConflictError('Only allocated units can be released');
+      }
+      
+      const [released] = await tx
+        .update(serializedUnits)
+        .set({ status: 'in_stock', projectId: null, allocatedAt: null, updatedAt: new Date() })
+        .where(eq(serializedUnits.id, id))
+        .returning();
+      return released;
+    });
+  }
+
+  // Books the unit out of stock as project usage and starts its warranty
+  async installSerializedUnit(
+    id: string,
+    data: InstallSerialType,
+    performedById: string,
+    options: InventoryStockOptions = {},
+  ): Promise<SerializedUnit | undefined> {
+    return await db.transaction(async (tx) => {
+      const [unit] = await tx.select().from(serializedUnits).where(eq(serializedUnits.id, id)).for('update');
+      if (!unit) {
+        return undefined;
+      }
+      if (unit.status !== 'allocated' || !unit.projectId) {
+        throw new ConflictError('Serial unit must be allocated to a project before it is installed');
+      }
+      
+      const [item] = await tx.select().from(inventoryItems).where(eq(inventoryItems.id, unit.itemId));
+      const inventoryTransaction = await this.applyInventoryTransaction(tx, {
+        itemId: unit.itemId,
+        transactionType: 'project_usage',
+        quantity: 1,
+        unitCost: item.unitCost,
+        totalCost: item.unitCost,
+        projectId: unit.projectId,
+        locationId: data.locationId ?? null,
+        performedById,
+        notes: `Installed serial ${unit.serialNumber}`,
+      }, options);
+
+      // Installed units count against the project's material line for the item, creating one if it wasn't planned
+      let [material] = await tx
+        .select()
+        .from(projectMaterials)
+        .where(and(eq(projectMaterials.projectId, unit.projectId), eq(projectMaterials.itemId, unit.itemId)))
+        .orderBy(asc(projectMaterials.createdAt))
+        .limit(1)
+        .for('update');
+      if (!material) {
+        [material] = await tx
+          .insert(projectMaterials)
+          .values({ projectId: unit.projectId, itemId: unit.itemId, createdById: performedById })
+          .returning();
+      }
+      await this.recordProjectMaterialCost(tx, material, item, 1, inventoryTransaction, performedById);
+      
+      const installedAt = data.installedAt ?? new Date();
+      let warrantyEndsAt = data.warrantyEndsAt ?? null;
+      if (data.warrantyEndsAt === undefined && item.warrantyMonths) {
+        warrantyEndsAt = new Date(installedAt);
+        warrantyEndsAt.setMonth(warrantyEndsAt.getMonth() + item.warrantyMonths);
+      }
+      
+      const [installed] = await tx
+        .update(serializedUnits)
+        .set({ status: 'installed', installedAt, warrantyEndsAt, updatedAt: new Date() })
+        .where(eq(serializedUnits.id, id))
+        .returning();
+      return installed;
+    });
+  }
+
+  // Project material operations
+  async getProjectMaterials(projectId: string): Promise<ProjectMaterialDetail[]> {
+    return await db
+      .select({
+        ...getTableColumns(projectMaterials),
+        sku: inventoryItems.sku,
+        itemName: inventoryItems.name,
+        unitOfMeasure: inventoryItems.unitOfMeasure,
+        currentUnitCost: inventoryItems.unitCost,
+        isSerialized: inventoryItems.isSerialized,
+      })
+      .from(projectMaterials)
+      .innerJoin(inventoryItems, eq(projectMaterials.itemId, inventoryItems.id))
+      .where(eq(projectMaterials.projectId, projectId))
+      .orderBy(asc(projectMaterials.createdAt));
+  }
+
+  async getProjectMaterial(id: string): Promise<ProjectMaterial | undefined> {
+    const [material] = await db.select().from(projectMaterials).where(eq(projectMaterials.id, id));
+    return material;
+  }
+
+  async addProjectMaterial(projectId: string, material: InsertProjectMaterialType, createdById: string): Promise<ProjectMaterial> {
+    const [item] = await db.select().from(inventoryItems).where(eq(inventoryItems.id, material.itemId));
+    if (!item) {
+      throw new NotFoundError('Inventory item not found');
+    }
+
+    const [newMaterial] = await db
+      .insert(projectMaterials)
+      .values({ ...material, projectId, createdById })
+      .returning();
+    return newMaterial;
+  }
+
+  async updateProjectMaterial(id: string, updates: UpdateProjectMaterialType): Promise<ProjectMaterial | undefined> {
+    const [material] = await db
+      .update(projectMaterials)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(projectMaterials.id, id))
+      .returning();
+    return material;
+  }
+
+  // Consumed materials are already costed into the project, so only unused plan lines can be removed
+  async deleteProjectMaterial(id: string): Promise<void> {
+    const material = await this.getProjectMaterial(id);
+    if (material && material.quantityUsed > 0) {
+      throw new ConflictError('Consumed materials cannot be removed');
+    }
+    await db.delete(projectMaterials).where(eq(projectMaterials.id, id));
+  }
+
+  // Books the stock out as project usage at the item's current cost and adds that cost to the project total
+  async consumeProjectMaterial(
+    id: string,
+    data: ConsumeProjectMaterialType,
+    performedById: string,
+    options: InventoryStockOptions = {},
+  ): Promise<ProjectMaterial | undefined> {
+    return await db.transaction(async (tx) => {
+      const [material] = await tx.select().from(projectMaterials).where(eq(projectMaterials.id, id)).for('update');
+      if (!material) {
+        return undefined;
+      }
+
+      const [item] = await tx.select().from(inventoryItems).where(eq(inventoryItems.id, material.itemId));
+      if (item.isSerialized) {
+        throw new ConflictError(`${item.sku} is serial-tracked; install its serial numbers instead`);
+      }
+      const unitCost = parseFloat(item.unitCost || '0');
+      const cost = unitCost * data.quantity;
+      const inventoryTransaction = await this.applyInventoryTransaction(tx, {
+        itemId: item.id,
+        transactionType: 'project_usage',
+        quantity: data.quantity,
+        unitCost: unitCost.toFixed(2),
+        totalCost: cost.toFixed(2),
+        projectId: material.projectId,
+        locationId: data.locationId ?? null,
+        performedById,
+        notes: options.notes,
+      }, options);
+
+      return await this.recordProjectMaterialCost(tx, material, item, data.quantity, inventoryTransaction, performedById);
+    });
+  }
+
+  // Adds consumed units to a material line and their cost to the project total, with a financial log entry
+  private async recordProjectMaterialCost(
+    tx: DbTransaction,
+    material: ProjectMaterial,
+    item: InventoryItem,
+    quantity: number,
+    inventoryTransaction: InventoryTransaction,
+    performedById: string,
+  ): Promise<ProjectMaterial> {
+    const cost = parseFloat(inventoryTransaction.totalCost || '0');
+    const quantityUsed = material.quantityUsed + quantity;
+    const materialCost = parseFloat(material.totalCost) + cost;
+    const [consumed] = await tx
+      .update(projectMaterials)
+      .set({
+        quantityUsed,
+        totalCost: materialCost.toFixed(2),
+        unitCost: (materialCost / quantityUsed).toFixed(2),
+        lastConsumedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(projectMaterials.id, material.id))
+      .returning();
+
+    const [project] = await tx.select().from(projects).where(eq(projects.id, material.projectId)).for('update');
+    const previousCost = parseFloat(project.totalCost || '0');
+    const newCost = (previousCost + cost).toFixed(2);
+    await tx
+      .update(projects)
+      .set({ totalCost: newCost, updatedAt: new Date() })
+      .where(eq(projects.id, project.id));
+    await this.createFinancialLog({
+      logType: 'project_cost_update',
+      entityType: 'project',
+      entityId: project.id,
+      userId: performedById,
+      previousValue: previousCost.toFixed(2),
+      newValue: newCost,
+      description: `Material cost added: ${quantity} x ${item.sku} at ${inventoryTransaction.unitCost || '0.00'}`,
+      metadata: { projectMaterialId: material.id, itemId: item.id, inventoryTransactionId: inventoryTransaction.id },
+    }, tx);
+
+    return consumed;
+  }
+
   // Task operations
   async createTask(task: InsertTaskType): Promise<Task> {
     const ticketNumber = await this.generateTicketNumber('TSK', tasks);
@@ -1405,6 +3393,35 @@ export class DatabaseStorage implements IStorage {
     await db.delete(tasks).where(eq(tasks.id, id));
   }
 
+  async addTaskAttachments(id: string, attachments: FileAttachment[]): Promise<Task | undefined> {
+    const [task] = await db
+      .update(tasks)
+      .set({
+        attachments: sql`${tasks.attachments} || ${JSON.stringify(attachments)}::jsonb`,
+        updatedAt: new Date(),
+      })
+      .where(eq(tasks.id, id))
+      .returning();
+    return task;
+  }
+
+  // Only unlists the file; the stored object is left in place
+  async removeTaskAttachment(id: string, objectPath: string): Promise<Task | undefined> {
+    return db.transaction(async (tx) => {
+      const [task] = await tx.select().from(tasks).where(eq(tasks.id, id)).for('update');
+      if (!task) {
+        return undefined;
+      }
+      const attachments = (task.attachments as FileAttachment[]).filter(attachment => attachment.objectPath !== objectPath);
+      const [updated] = await tx
+        .update(tasks)
+        .set({ attachments, updatedAt: new Date() })
+        .where(eq(tasks.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
   // Report operations
   async createReport(report: InsertReportType): Promise<Report> {
     const ticketNumber = await this.generateTicketNumber('RPT', reports);
@@ -1476,390 +3493,1652 @@ export class DatabaseStorage implements IStorage {
     return report;
   }
 
-  // Sales operations
-  async createSalesRecord(record: InsertSalesRecordType): Promise<SalesRecord> {
-    const [newRecord] = await db
-      .insert(salesRecords)
-      .values(record)
-      .returning();
+  // Dispatch board
+  async getDispatchBoard(from: Date, to: Date): Promise<DispatchBoard> {
+    const technicians = await this.getTechnicians();
+    const assignments = await this.dispatchAssignmentRows([
+      sql`${dispatchAssignments.startsAt} < ${to}`,
+      sql`${dispatchAssignments.endsAt} > ${from}`,
+    ]);
 
-    // Create financial log
-    await this.createFinancialLog({
-      logType: 'sales_record_created',
-      entityType: 'sales_record',
-      entityId: newRecord.id,
-      userId: record.salesRepId,
-      newValue: record.dealValue,
-      description: `Sales record created for deal value ${record.dealValue}`,
-      metadata: { status: newRecord.status },
-    });
+    // Jobs still open with nothing booked from now on
+    const now = new Date();
+    const notBooked = (
+      column: typeof dispatchAssignments.projectId | typeof dispatchAssignments.taskId | typeof dispatchAssignments.ticketId,
+      jobId: typeof projects.id | typeof tasks.id | typeof tickets.id,
+    ) => sql`not exists (
+      select 1 from ${dispatchAssignments} where ${column} = ${jobId} and ${dispatchAssignments.endsAt} > ${now}
+    )`;
+    const openProjects = await db
+      .select({
+        id: projects.id,
+        reference: projects.ticketNumber,
+        title: projects.projectName,
+        status: projects.status,
+        assignedToId: projects.assignedTechnicianId,
+        dueDate: projects.startDate,
+      })
+      .from(projects)
+      .where(and(
+        inArray(projects.status, ['approved', 'scheduled', 'in_progress']),
+        notBooked(dispatchAssignments.projectId, projects.id),
+      ))
+      .orderBy(asc(projects.startDate));
+    const openTasks = await db
+      .select({
+        id: tasks.id,
+        reference: tasks.ticketNumber,
+        title: tasks.title,
+        status: tasks.status,
+        assignedToId: tasks.assignedToId,
+        dueDate: tasks.dueDate,
+      })
+      .from(tasks)
+      .where(and(
+        inArray(tasks.status, ['pending', 'in_progress']),
+        notBooked(dispatchAssignments.taskId, tasks.id),
+      ))
+      .orderBy(asc(tasks.dueDate));
+    const openTickets = await db
+      .select({
+        id: tickets.id,
+        reference: tickets.ticketNumber,
+        title: tickets.title,
+        status: tickets.status,
+        assignedToId: tickets.assignedToId,
+        dueDate: tickets.dueDate,
+      })
+      .from(tickets)
+      .where(and(
+        inArray(tickets.status, ['open', 'in_progress']),
+        notBooked(dispatchAssignments.ticketId, tickets.id),
+      ))
+      .orderBy(asc(tickets.dueDate));
 
-    return newRecord;
+    const datedWork = await this.datedDispatchWork(db, from, to);
+
+    return {
+      technicians: technicians.map(technician => ({
+        id: technician.id,
+        name: [technician.firstName, technician.lastName].filter(Boolean).join(' ') || technician.email,
+      })),
+      assignments: assignments.map(assignment => ({
+        ...assignment,
+        hasConflict: assignment.hasConflict || datedWork.some(work =>
+          work.technicianId === assignment.technicianId
+          && work.startsAt < assignment.endsAt
+          && work.endsAt > assignment.startsAt),
+      })),
+      datedWork,
+      unscheduled: [
+        ...openProjects.map(job => ({ ...job, kind: 'project' as const })),
+        ...openTasks.map(job => ({ ...job, kind: 'task' as const })),
+        ...openTickets.map(job => ({ ...job, kind: 'ticket' as const })),
+      ],
+    };
   }
 
-  async getSalesRecords(filters?: { salesRepId?: string; clientId?: string; status?: string }): Promise<SalesRecord[]> {
-    let query = db.select().from(salesRecords);
-    
-    const conditions = [];
-    if (filters?.salesRepId) {
-      conditions.push(eq(salesRecords.salesRepId, filters.salesRepId));
-    }
-    if (filters?.clientId) {
-      conditions.push(eq(salesRecords.clientId, filters.clientId));
-    }
-    if (filters?.status) {
-      conditions.push(eq(salesRecords.status, filters.status));
+  async getTechnicianSchedule(technicianId: string, from: Date, to: Date): Promise<DispatchAssignmentDetail[]> {
+    return await this.dispatchAssignmentRows([
+      eq(dispatchAssignments.technicianId, technicianId),
+      sql`${dispatchAssignments.startsAt} < ${to}`,
+      sql`${dispatchAssignments.endsAt} > ${from}`,
+    ]);
+  }
+
+  async getDispatchAssignment(id: string): Promise<DispatchAssignment | undefined> {
+    const [assignment] = await db.select().from(dispatchAssignments).where(eq(dispatchAssignments.id, id));
+    return assignment;
+  }
+
+  // Bookings and dated work for the technician that overlap the window (touching end-to-start is not a clash)
+  async findDispatchConflicts(
+    technicianId: string,
+    window: AppointmentSlot,
+    exclude: DispatchConflictExclusion = {},
+    executor: typeof db | DbTransaction = db,
+  ): Promise<DispatchConflict[]> {
+    const conditions = [
+      eq(dispatchAssignments.technicianId, technicianId),
+      sql`${dispatchAssignments.startsAt} < ${window.endsAt}`,
+      sql`${dispatchAssignments.endsAt} > ${window.startsAt}`,
+    ];
+    if (exclude.assignmentId) {
+      conditions.push(ne(dispatchAssignments.id, exclude.assignmentId));
     }
-    
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
-    }
-    
-    return query.orderBy(desc(salesRecords.createdAt));
+    const bookings = await this.dispatchAssignmentRows(conditions, executor);
+    const datedWork = await this.datedDispatchWork(executor, window.startsAt, window.endsAt, technicianId);
+    return [
+      ...bookings,
+      ...datedWork.filter(work => !(work.kind === 'project' ? work.id === exclude.projectId : work.id === exclude.taskId)),
+    ];
+  }
+
+  // The conflict check and the write share a transaction holding the technician's row, the same lock
+  // public appointment booking takes, so two bookings can't both pass the check for the same time
+  async createDispatchAssignment(assignment: InsertDispatchAssignmentType, createdById: string): Promise<{ assignment: DispatchAssignment; conflicts: DispatchConflict[] }> {
+    const { force, ...values } = assignment;
+    return await db.transaction(async (tx) => {
+      await this.lockTechnician(tx, values.technicianId);
+      await this.assignDispatchedWork(tx, values);
+      const conflicts = await this.findDispatchConflicts(values.technicianId, values, {
+        projectId: values.projectId,
+        taskId: values.taskId,
+      }, tx);
+      if (conflicts.length > 0 && !force) {
+        throw new DispatchConflictError(conflicts);
+      }
+      const [newAssignment] = await tx
+        .insert(dispatchAssignments)
+        .values({ ...values, createdById })
+        .returning();
+      return { assignment: newAssignment, conflicts };
+    });
   }
 
-  async getSalesRecord(id: string): Promise<SalesRecord | undefined> {
-    const [record] = await db.select().from(salesRecords).where(eq(salesRecords.id, id));
-    return record;
+  async updateDispatchAssignment(id: string, updates: UpdateDispatchAssignmentType): Promise<{ assignment: DispatchAssignment; conflicts: DispatchConflict[] } | undefined> {
+    const { force, ...values } = updates;
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(dispatchAssignments).where(eq(dispatchAssignments.id, id)).for('update');
+      if (!current) {
+        return undefined;
+      }
+      const technicianId = values.technicianId ?? current.technicianId;
+      const startsAt = values.startsAt ?? current.startsAt;
+      const endsAt = values.endsAt ?? current.endsAt;
+      if (endsAt <= startsAt) {
+        throw new InvalidRequestError('End time must be after start time');
+      }
+      await this.lockTechnician(tx, technicianId);
+      const conflicts = await this.findDispatchConflicts(technicianId, { startsAt, endsAt }, { assignmentId: current.id }, tx);
+      if (conflicts.length > 0 && !force) {
+        throw new DispatchConflictError(conflicts);
+      }
+
+      const [assignment] = await tx
+        .update(dispatchAssignments)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(dispatchAssignments.id, id))
+        .returning();
+      if (values.technicianId) {
+        await this.assignDispatchedWork(tx, assignment);
+      }
+      if (assignment.appointmentId) {
+        // Moving an appointment on the board moves the customer's booking with it
+        await tx
+          .update(appointments)
+          .set({
+            technicianId: assignment.technicianId,
+            startsAt: assignment.startsAt,
+            endsAt: assignment.endsAt,
+            updatedAt: new Date(),
+          })
+          .where(eq(appointments.id, assignment.appointmentId));
+      }
+      return { assignment, conflicts };
+    });
   }
 
-  async updateSalesRecord(id: string, updates: UpdateSalesRecordType): Promise<SalesRecord | undefined> {
-    const existingRecord = await this.getSalesRecord(id);
-    
-    const [record] = await db
-      .update(salesRecords)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(salesRecords.id, id))
-      .returning();
+  async deleteDispatchAssignment(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [assignment] = await tx
+        .delete(dispatchAssignments)
+        .where(eq(dispatchAssignments.id, id))
+        .returning();
+      if (assignment?.appointmentId) {
+        // An appointment with nobody booked to attend it is cancelled
+        await tx
+          .update(appointments)
+          .set({ status: 'cancelled', cancelledAt: new Date(), updatedAt: new Date() })
+          .where(eq(appointments.id, assignment.appointmentId));
+      }
+    });
+  }
 
-    // Create financial log if deal value changed
-    if (updates.dealValue && existingRecord && updates.dealValue !== existingRecord.dealValue) {
-      await this.createFinancialLog({
-        logType: 'sales_record_updated',
-        entityType: 'sales_record',
-        entityId: id,
-        userId: record.salesRepId,
-        previousValue: existingRecord.dealValue,
-        newValue: updates.dealValue,
-        description: `Sales record deal value updated from ${existingRecord.dealValue} to ${updates.dealValue}`,
-      });
+  private async lockTechnician(tx: DbTransaction, technicianId: string): Promise<void> {
+    const [technician] = await tx
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.id, technicianId), eq(users.role, 'employee')))
+      .for('update');
+    if (!technician) {
+      throw new NotFoundError('Technician not found');
     }
+  }
 
-    return record;
+  // Booking a technician onto a job also makes them its assignee; a job that doesn't exist is a 404
+  private async assignDispatchedWork(
+    tx: DbTransaction,
+    assignment: Pick<InsertDispatchAssignmentType, 'technicianId' | 'projectId' | 'taskId' | 'ticketId'>,
+  ): Promise<void> {
+    if (assignment.projectId) {
+      const [project] = await tx
+        .update(projects)
+        .set({ assignedTechnicianId: assignment.technicianId, updatedAt: new Date() })
+        .where(eq(projects.id, assignment.projectId))
+        .returning({ id: projects.id });
+      if (!project) throw new NotFoundError('Project not found');
+    } else if (assignment.taskId) {
+      const [task] = await tx
+        .update(tasks)
+        .set({ assignedToId: assignment.technicianId, updatedAt: new Date() })
+        .where(eq(tasks.id, assignment.taskId))
+        .returning({ id: tasks.id });
+      if (!task) throw new NotFoundError('Task not found');
+    } else if (assignment.ticketId) {
+      const [ticket] = await tx
+        .update(tickets)
+        .set({ assignedToId: assignment.technicianId, updatedAt: new Date() })
+        .where(eq(tickets.id, assignment.ticketId))
+        .returning({ id: tickets.id });
+      if (!ticket) throw new NotFoundError('Ticket not found');
+    }
   }
 
-  async deleteSalesRecord(id: string): Promise<void> {
-    await db.delete(salesRecords).where(eq(salesRecords.id, id));
+  // Dated projects and tasks with nothing booked on the board, as the windows they hold their technician for
+  private async datedDispatchWork(
+    executor: typeof db | DbTransaction,
+    from: Date,
+    to: Date,
+    technicianId?: string,
+  ): Promise<DispatchDatedWork[]> {
+    const hours = businessHoursFromConfig(await this.getSystemConfig());
+    // Widened by a day each side so a date stored in another time zone still lands on its business day
+    const searchFrom = new Date(from.getTime() - DAY_MS);
+    const searchTo = new Date(to.getTime() + DAY_MS);
+    const notBooked = (column: typeof dispatchAssignments.projectId | typeof dispatchAssignments.taskId, jobId: typeof projects.id | typeof tasks.id) =>
+      sql`not exists (select 1 from ${dispatchAssignments} where ${column} = ${jobId})`;
+
+    const projectDate = sql<Date>`coalesce(${projects.startDate}, ${serviceRequests.scheduledDate})`.mapWith(projects.startDate);
+    const datedProjects = await executor
+      .select({
+        id: projects.id,
+        reference: projects.ticketNumber,
+        title: projects.projectName,
+        status: projects.status,
+        technicianId: projects.assignedTechnicianId,
+        date: projectDate,
+      })
+      .from(projects)
+      .leftJoin(serviceRequests, eq(projects.serviceRequestId, serviceRequests.id))
+      .where(and(
+        isNotNull(projects.assignedTechnicianId),
+        technicianId ? eq(projects.assignedTechnicianId, technicianId) : undefined,
+        inArray(projects.status, ['approved', 'scheduled', 'in_progress']),
+        sql`${projectDate} >= ${searchFrom}`,
+        sql`${projectDate} < ${searchTo}`,
+        notBooked(dispatchAssignments.projectId, projects.id),
+      ));
+    const datedTasks = await executor
+      .select({
+        id: tasks.id,
+        reference: tasks.ticketNumber,
+        title: tasks.title,
+        status: tasks.status,
+        technicianId: tasks.assignedToId,
+        date: tasks.dueDate,
+      })
+      .from(tasks)
+      .where(and(
+        isNotNull(tasks.assignedToId),
+        technicianId ? eq(tasks.assignedToId, technicianId) : undefined,
+        inArray(tasks.status, ['pending', 'in_progress']),
+        gte(tasks.dueDate, searchFrom),
+        lte(tasks.dueDate, searchTo),
+        notBooked(dispatchAssignments.taskId, tasks.id),
+      ));
+
+    type DatedRow = { id: string; reference: string; title: string; status: string | null; technicianId: string | null; date: Date | null };
+    const toWork = (kind: DispatchDatedWork['kind']) => (row: DatedRow): DispatchDatedWork => {
+      const date = businessDateOf(row.date!, hours);
+      const window = businessDayWindow(date, hours) ?? calendarDayWindow(date, hours);
+      return {
+        kind,
+        id: row.id,
+        reference: row.reference,
+        title: row.title,
+        status: row.status,
+        technicianId: row.technicianId!,
+        startsAt: window.opensAt,
+        endsAt: window.closesAt,
+      };
+    };
+    return [...datedProjects.map(toWork('project')), ...datedTasks.map(toWork('task'))]
+      .filter(work => work.startsAt < to && work.endsAt > from)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
   }
 
-  // Financial log operations
-  async createFinancialLog(log: InsertFinancialLogType): Promise<FinancialLog> {
-    const [newLog] = await db
-      .insert(financialLogs)
-      .values(log)
+  private async dispatchAssignmentRows(conditions: ReturnType<typeof eq>[], executor: typeof db | DbTransaction = db): Promise<DispatchAssignmentDetail[]> {
+    const rows = await executor
+      .select({
+        ...getTableColumns(dispatchAssignments),
+        projectNumber: projects.ticketNumber,
+        projectName: projects.projectName,
+        projectStatus: projects.status,
+        projectAddress: serviceRequests.address,
+        taskNumber: tasks.ticketNumber,
+        taskTitle: tasks.title,
+        taskStatus: tasks.status,
+        ticketNumber: tickets.ticketNumber,
+        ticketTitle: tickets.title,
+        ticketStatus: tickets.status,
+        appointmentTypeName: appointmentTypes.name,
+        appointmentName: appointments.name,
+        appointmentStatus: appointments.status,
+        appointmentAddress: appointments.address,
+      })
+      .from(dispatchAssignments)
+      .leftJoin(projects, eq(dispatchAssignments.projectId, projects.id))
+      .leftJoin(serviceRequests, eq(projects.serviceRequestId, serviceRequests.id))
+      .leftJoin(tasks, eq(dispatchAssignments.taskId, tasks.id))
+      .leftJoin(tickets, eq(dispatchAssignments.ticketId, tickets.id))
+      .leftJoin(appointments, eq(dispatchAssignments.appointmentId, appointments.id))
+      .leftJoin(appointmentTypes, eq(appointments.appointmentTypeId, appointmentTypes.id))
+      .where(and(...conditions))
+      .orderBy(asc(dispatchAssignments.startsAt));
+
+    return rows.map(({
+      projectNumber, projectName, projectStatus, projectAddress,
+      taskNumber, taskTitle, taskStatus, ticketNumber, ticketTitle, ticketStatus,
+      appointmentTypeName, appointmentName, appointmentStatus, appointmentAddress,
+      ...assignment
+    }) => {
+      const job = assignment.projectId
+        ? { kind: 'project' as const, reference: projectNumber, title: projectName, status: projectStatus }
+        : assignment.taskId
+          ? { kind: 'task' as const, reference: taskNumber, title: taskTitle, status: taskStatus }
+          : assignment.appointmentId
+            ? { kind: 'appointment' as const, reference: appointmentTypeName, title: appointmentName, status: appointmentStatus }
+            : { kind: 'ticket' as const, reference: ticketNumber, title: ticketTitle, status: ticketStatus };
+      return {
+        ...assignment,
+        ...job,
+        reference: job.reference ?? '',
+        title: job.title ?? '',
+        address: projectAddress ?? appointmentAddress,
+        // Overlaps another booking for the same technician in this result set
+        hasConflict: rows.some(other =>
+          other.id !== assignment.id
+          && other.technicianId === assignment.technicianId
+          && other.startsAt < assignment.endsAt
+          && other.endsAt > assignment.startsAt),
+      };
+    });
+  }
+
+  // Appointment booking
+  async getAppointmentTypes(includeInactive = false): Promise<AppointmentType[]> {
+    return await db
+      .select()
+      .from(appointmentTypes)
+      .where(includeInactive ? undefined : eq(appointmentTypes.isActive, true))
+      .orderBy(asc(appointmentTypes.displayOrder), asc(appointmentTypes.name));
+  }
+
+  async getAppointmentType(id: string): Promise<AppointmentType | undefined> {
+    const [type] = await db.select().from(appointmentTypes).where(eq(appointmentTypes.id, id));
+    return type;
+  }
+
+  async createAppointmentType(type: InsertAppointmentTypeType): Promise<AppointmentType> {
+    const [newType] = await db.insert(appointmentTypes).values(type).returning();
+    return newType;
+  }
+
+  async updateAppointmentType(id: string, updates: UpdateAppointmentTypeType): Promise<AppointmentType | undefined> {
+    const [type] = await db
+      .update(appointmentTypes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(appointmentTypes.id, id))
       .returning();
-    return newLog;
+    return type;
   }
 
-  async getFinancialLogs(filters?: { entityType?: string; userId?: string; logType?: string; limit?: number }): Promise<FinancialLog[]> {
-    let query = db.select().from(financialLogs);
-    
-    const conditions = [];
-    if (filters?.entityType) {
-      conditions.push(eq(financialLogs.entityType, filters.entityType));
-    }
-    if (filters?.userId) {
-      conditions.push(eq(financialLogs.userId, filters.userId));
+  async deleteAppointmentType(id: string): Promise<void> {
+    const [booked] = await db
+      .select({ id: appointments.id })
+      .from(appointments)
+      .where(eq(appointments.appointmentTypeId, id))
+      .limit(1);
+    if (booked) {
+      throw new ConflictError('Appointment type has bookings; deactivate it instead');
     }
-    if (filters?.logType) {
-      conditions.push(eq(financialLogs.logType, filters.logType));
+    await db.delete(appointmentTypes).where(eq(appointmentTypes.id, id));
+  }
+
+  // Start times on the date when at least one technician is clear of dispatch bookings, buffer included
+  async getAppointmentAvailability(appointmentTypeId: string, date: string): Promise<AppointmentSlot[]> {
+    const type = await this.getAppointmentType(appointmentTypeId);
+    if (!type || !type.isActive) {
+      throw new NotFoundError('Appointment type not found');
     }
-    
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
+    const window = businessDayWindow(date, businessHoursFromConfig(await this.getSystemConfig()));
+    if (!window) return [];
+
+    const slots = appointmentSlots(type, window, new Date());
+    if (slots.length === 0) return [];
+    const technicianIds = (await this.getTechnicians()).map(technician => technician.id);
+    const bookings = await this.technicianBookings(db, technicianIds, slots[0], slots[slots.length - 1], type);
+    return slots.filter(slot => freeTechnicianFor(type, slot, technicianIds, bookings));
+  }
+
+  async bookAppointment(booking: BookAppointmentType & { address?: string | null }, lead: InsertLeadType): Promise<Appointment> {
+    const type = await this.getAppointmentType(booking.appointmentTypeId);
+    if (!type || !type.isActive) {
+      throw new NotFoundError('Appointment type not found');
     }
-    
-    return query
-      .orderBy(desc(financialLogs.createdAt))
-      .limit(filters?.limit || 100);
+    const slot = { startsAt: booking.startsAt, endsAt: new Date(booking.startsAt.getTime() + type.durationMinutes * MINUTE_MS) };
+
+    return await db.transaction(async (tx) => {
+      const technicianId = await this.claimAppointmentSlot(tx, type, slot);
+      const [newLead] = await tx.insert(leads).values(lead).returning();
+      const [appointment] = await tx
+        .insert(appointments)
+        .values({
+          appointmentTypeId: type.id,
+          leadId: newLead.id,
+          technicianId,
+          startsAt: slot.startsAt,
+          endsAt: slot.endsAt,
+          name: booking.name,
+          email: booking.email,
+          phone: booking.phone,
+          company: booking.company || null,
+          address: booking.address || null,
+          notes: booking.notes || null,
+          manageToken: randomUUID(),
+        })
+        .returning();
+      await tx.insert(dispatchAssignments).values({
+        technicianId,
+        appointmentId: appointment.id,
+        startsAt: slot.startsAt,
+        endsAt: slot.endsAt,
+        notes: booking.notes || null,
+      });
+      return appointment;
+    });
   }
 
-  // Activity log operations
-  async logActivity(activity: InsertActivityType): Promise<Activity> {
-    const [result] = await db.insert(activities).values(activity).returning();
-    return result;
+  async getAppointmentByToken(token: string): Promise<AppointmentDetail | undefined> {
+    const [appointment] = await this.appointmentDetailQuery().where(eq(appointments.manageToken, token));
+    return appointment;
   }
 
-  async getActivities(filters?: { userId?: string; entityType?: string; action?: string; limit?: number }): Promise<Activity[]> {
-    let query = db.select().from(activities);
-    
-    const conditions = [];
-    if (filters?.userId) {
-      conditions.push(eq(activities.userId, filters.userId));
-    }
-    if (filters?.entityType) {
-      conditions.push(eq(activities.entityType, filters.entityType));
-    }
-    if (filters?.action) {
-      conditions.push(eq(activities.action, filters.action));
-    }
-    
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
+  async getLeadAppointments(leadId: string): Promise<AppointmentDetail[]> {
+    return await this.appointmentDetailQuery()
+      .where(eq(appointments.leadId, leadId))
+      .orderBy(desc(appointments.startsAt));
+  }
+
+  async rescheduleAppointment(token: string, startsAt: Date): Promise<AppointmentDetail | undefined> {
+    const appointment = await this.getAppointmentByToken(token);
+    if (!appointment) return undefined;
+    this.assertAppointmentChangeable(appointment);
+    const type = await this.getAppointmentType(appointment.appointmentTypeId);
+    if (!type) {
+      throw new NotFoundError('Appointment type not found');
     }
-    
-    return query
-      .orderBy(desc(activities.timestamp))
-      .limit(filters?.limit || 100);
+    const slot = { startsAt, endsAt: new Date(startsAt.getTime() + type.durationMinutes * MINUTE_MS) };
+
+    await db.transaction(async (tx) => {
+      const technicianId = await this.claimAppointmentSlot(tx, type, slot, appointment);
+      await tx
+        .update(appointments)
+        .set({ technicianId, ...slot, updatedAt: new Date() })
+        .where(eq(appointments.id, appointment.id));
+      await tx
+        .update(dispatchAssignments)
+        .set({ technicianId, ...slot, updatedAt: new Date() })
+        .where(eq(dispatchAssignments.appointmentId, appointment.id));
+    });
+    return await this.getAppointmentByToken(token);
   }
 
-  // Inquiry operations
-  async createInquiry(inquiry: InsertInquiryType): Promise<Inquiry> {
-    const [result] = await db.insert(inquiries).values(inquiry).returning();
-    return result;
+  async cancelAppointment(token: string, reason?: string): Promise<AppointmentDetail | undefined> {
+    const appointment = await this.getAppointmentByToken(token);
+    if (!appointment) return undefined;
+    this.assertAppointmentChangeable(appointment);
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(appointments)
+        .set({ status: 'cancelled', cancelledAt: new Date(), cancellationReason: reason || null, updatedAt: new Date() })
+        .where(eq(appointments.id, appointment.id));
+      await tx.delete(dispatchAssignments).where(eq(dispatchAssignments.appointmentId, appointment.id));
+    });
+    return await this.getAppointmentByToken(token);
   }
 
-  async getInquiries(filters?: { type?: string; status?: string; assignedToId?: string }): Promise<Inquiry[]> {
-    let query = db.select().from(inquiries);
-    
-    const conditions = [];
-    if (filters?.type) {
-      conditions.push(eq(inquiries.type, filters.type));
+  private assertAppointmentChangeable(appointment: Appointment): void {
+    if (appointment.status !== 'booked') {
+      throw new ConflictError('This appointment has been cancelled');
     }
-    if (filters?.status) {
-      conditions.push(eq(inquiries.status, filters.status));
+    if (appointment.startsAt <= new Date()) {
+      throw new ConflictError('Past appointments cannot be changed');
     }
-    if (filters?.assignedToId) {
-      conditions.push(eq(inquiries.assignedToId, filters.assignedToId));
+  }
+
+  // Locks the technicians so two visitors can't take the same slot, then picks one who is free for it.
+  // A reschedule keeps the current technician when they are still free.
+  private async claimAppointmentSlot(tx: DbTransaction, type: AppointmentType, slot: AppointmentSlot, current?: Appointment): Promise<string> {
+    const hours = businessHoursFromConfig(await this.getSystemConfig());
+    const window = businessDayWindow(businessDateOf(slot.startsAt, hours), hours);
+    const offered = window && appointmentSlots(type, window, new Date())
+      .some(candidate => candidate.startsAt.getTime() === slot.startsAt.getTime());
+    if (!offered) {
+      throw new ConflictError('That time is no longer available. Please choose another.');
     }
-    
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
+
+    const technicians = await tx
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.role, 'employee'))
+      .orderBy(users.firstName, users.lastName)
+      .for('update');
+    const technicianIds = technicians.map(technician => technician.id);
+    if (current && technicianIds.includes(current.technicianId)) {
+      technicianIds.sort((a, b) => Number(b === current.technicianId) - Number(a === current.technicianId));
     }
-    
-    return query.orderBy(desc(inquiries.createdAt));
+    const bookings = await this.technicianBookings(tx, technicianIds, slot, slot, type, current?.id);
+    const technicianId = freeTechnicianFor(type, slot, technicianIds, bookings);
+    if (!technicianId) {
+      throw new ConflictError('That time is no longer available. Please choose another.');
+    }
+    return technicianId;
+  }
+
+  // Dispatch bookings that could clash with slots from first to last, widened by the travel buffer
+  private async technicianBookings(
+    executor: typeof db | DbTransaction,
+    technicianIds: string[],
+    first: AppointmentSlot,
+    last: AppointmentSlot,
+    type: AppointmentType,
+    excludeAppointmentId?: string,
+  ): Promise<TechnicianBooking[]> {
+    if (technicianIds.length === 0) return [];
+    const bufferMs = type.bufferMinutes * MINUTE_MS;
+    const conditions = [
+      inArray(dispatchAssignments.technicianId, technicianIds),
+      sql`${dispatchAssignments.startsAt} < ${new Date(last.endsAt.getTime() + bufferMs)}`,
+      sql`${dispatchAssignments.endsAt} > ${new Date(first.startsAt.getTime() - bufferMs)}`,
+    ];
+    if (excludeAppointmentId) {
+      conditions.push(sql`${dispatchAssignments.appointmentId} is distinct from ${excludeAppointmentId}`);
+    }
+    return await executor
+      .select({
+        technicianId: dispatchAssignments.technicianId,
+        startsAt: dispatchAssignments.startsAt,
+        endsAt: dispatchAssignments.endsAt,
+      })
+      .from(dispatchAssignments)
+      .where(and(...conditions));
   }
 
-  async getInquiry(id: string): Promise<Inquiry | undefined> {
-    const [result] = await db.select().from(inquiries).where(eq(inquiries.id, id));
-    return result;
+  private appointmentDetailQuery() {
+    return db
+      .select({
+        ...getTableColumns(appointments),
+        appointmentTypeName: appointmentTypes.name,
+        appointmentKind: appointmentTypes.kind,
+        durationMinutes: appointmentTypes.durationMinutes,
+      })
+      .from(appointments)
+      .innerJoin(appointmentTypes, eq(appointments.appointmentTypeId, appointmentTypes.id))
+      .$dynamic();
+  }
+
+  // Calendar feeds
+  async getCalendarFeed(userId: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.userId, userId));
+    return feed;
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const tokenHash = hashCalendarFeedToken(token);
+    // Feeds issued before tokens were hashed still hold the plain UUID; only a UUID can match one
+    const candidates = UUID_PATTERN.test(token) ? [tokenHash, token] : [tokenHash];
+    const [feed] = await db.select().from(calendarFeeds).where(inArray(calendarFeeds.tokenHash, candidates));
+    if (feed && feed.tokenHash !== tokenHash) {
+      const [upgraded] = await db
+        .update(calendarFeeds)
+        .set({ tokenHash })
+        .where(eq(calendarFeeds.id, feed.id))
+        .returning();
+      return upgraded;
+    }
+    return feed;
   }
 
-  async updateInquiry(id: string, updates: UpdateInquiryType): Promise<Inquiry | undefined> {
-    const [result] = await db
-      .update(inquiries)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(inquiries.id, id))
+  // Issues a new token, replacing any existing one; the token is returned once and only its hash is kept
+  async resetCalendarFeed(userId: string): Promise<{ feed: CalendarFeed; token: string }> {
+    const token = randomUUID();
+    const tokenHash = hashCalendarFeedToken(token);
+    const [feed] = await db
+      .insert(calendarFeeds)
+      .values({ userId, tokenHash })
+      .onConflictDoUpdate({
+        target: calendarFeeds.userId,
+        set: { tokenHash, createdAt: new Date(), lastAccessedAt: null },
+      })
       .returning();
-    return result;
+    return { feed, token };
   }
 
-  async deleteInquiry(id: string): Promise<void> {
-    await db.delete(inquiries).where(eq(inquiries.id, id));
+  async deleteCalendarFeed(userId: string): Promise<void> {
+    await db.delete(calendarFeeds).where(eq(calendarFeeds.userId, userId));
   }
 
-  // Lead operations
-  async createLead(lead: InsertLeadType): Promise<Lead> {
-    const [result] = await db.insert(leads).values(lead).returning();
-    return result;
+  async recordCalendarFeedAccess(id: string): Promise<void> {
+    await db.update(calendarFeeds).set({ lastAccessedAt: new Date() }).where(eq(calendarFeeds.id, id));
   }
 
-  async getLeads(filters?: { source?: string; status?: string; assignedToId?: string }): Promise<Lead[]> {
-    let query = db.select().from(leads);
-    
+  // Work assigned to the user plus, for client accounts, their own projects, tickets and appointments
+  async getUserSchedule(access: { userId: string; clientIds: string[]; leadIds: string[] }, since: Date): Promise<UserSchedule> {
+    const { userId, clientIds, leadIds } = access;
+    const ownedProject = or(
+      eq(projects.assignedTechnicianId, userId),
+      clientIds.length > 0 ? inArray(projects.clientId, clientIds) : undefined,
+      leadIds.length > 0 ? inArray(projects.leadId, leadIds) : undefined,
+    );
+
+    const scheduledProjects = await db
+      .select({
+        id: projects.id,
+        ticketNumber: projects.ticketNumber,
+        projectName: projects.projectName,
+        status: projects.status,
+        startDate: projects.startDate,
+        estimatedCompletionDate: projects.estimatedCompletionDate,
+        updatedAt: projects.updatedAt,
+      })
+      .from(projects)
+      .where(and(
+        ownedProject,
+        isNotNull(projects.startDate),
+        ne(projects.status, 'cancelled'),
+        sql`coalesce(${projects.estimatedCompletionDate}, ${projects.startDate}) >= ${since}`,
+        // A project the user is booked onto already shows as those bookings
+        sql`not exists (
+          select 1 from ${dispatchAssignments}
+          where ${dispatchAssignments.projectId} = ${projects.id} and ${dispatchAssignments.technicianId} = ${userId}
+        )`,
+      ))
+      .orderBy(asc(projects.startDate));
+
+    const dueTasks = await db
+      .select({
+        id: tasks.id,
+        ticketNumber: tasks.ticketNumber,
+        title: tasks.title,
+        description: tasks.description,
+        status: tasks.status,
+        dueDate: tasks.dueDate,
+        updatedAt: tasks.updatedAt,
+      })
+      .from(tasks)
+      .where(and(
+        eq(tasks.assignedToId, userId),
+        ne(tasks.status, 'cancelled'),
+        sql`${tasks.dueDate} >= ${since}`,
+      ))
+      .orderBy(asc(tasks.dueDate));
+
+    const dueTickets = await db
+      .select({
+        id: tickets.id,
+        ticketNumber: tickets.ticketNumber,
+        title: tickets.title,
+        status: tickets.status,
+        dueDate: tickets.dueDate,
+        updatedAt: tickets.updatedAt,
+        projectName: projects.projectName,
+      })
+      .from(tickets)
+      .innerJoin(projects, eq(tickets.projectId, projects.id))
+      .where(and(
+        or(eq(tickets.assignedToId, userId), ownedProject),
+        inArray(tickets.status, ['open', 'in_progress']),
+        sql`${tickets.dueDate} >= ${since}`,
+      ))
+      .orderBy(asc(tickets.dueDate));
+
+    const bookings = await this.dispatchAssignmentRows([
+      eq(dispatchAssignments.technicianId, userId),
+      sql`${dispatchAssignments.endsAt} >= ${since}`,
+    ]);
+
+    const appointmentsBooked = leadIds.length > 0
+      ? await this.appointmentDetailQuery()
+        .where(and(inArray(appointments.leadId, leadIds), sql`${appointments.startsAt} >= ${since}`))
+        .orderBy(asc(appointments.startsAt))
+      : [];
+
+    return {
+      projects: scheduledProjects,
+      tasks: dueTasks,
+      tickets: dueTickets,
+      bookings,
+      appointments: appointmentsBooked,
+    };
+  }
+
+  // Time tracking
+  async getTimeEntries(filters?: TimeEntriesQueryType): Promise<TimeEntryDetail[]> {
     const conditions = [];
-    if (filters?.source) {
-      conditions.push(eq(leads.source, filters.source));
+    if (filters?.userId) {
+      conditions.push(eq(timeEntries.userId, filters.userId));
+    }
+    if (filters?.projectId) {
+      conditions.push(eq(timeEntries.projectId, filters.projectId));
     }
     if (filters?.status) {
-      conditions.push(eq(leads.status, filters.status));
+      conditions.push(eq(timeEntries.status, filters.status));
     }
-    if (filters?.assignedToId) {
-      conditions.push(eq(leads.assignedToId, filters.assignedToId));
+    if (filters?.from) {
+      conditions.push(sql`${timeEntries.startedAt} >= ${filters.from}`);
     }
-    
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
+    if (filters?.to) {
+      conditions.push(sql`${timeEntries.startedAt} <= ${filters.to}`);
+    }
+    if (filters?.unbilled) {
+      conditions.push(isNull(timeEntries.invoiceId));
     }
-    
-    return query.orderBy(desc(leads.createdAt));
-  }
 
-  async getLead(id: string): Promise<Lead | undefined> {
-    const [result] = await db.select().from(leads).where(eq(leads.id, id));
-    return result;
+    const rows = await db
+      .select({
+        ...getTableColumns(timeEntries),
+        userFirstName: users.firstName,
+        userLastName: users.lastName,
+        userEmail: users.email,
+        projectName: projects.projectName,
+        projectTicketNumber: projects.ticketNumber,
+        taskTitle: tasks.title,
+        ticketNumber: tickets.ticketNumber,
+        rateTypeName: rateTypes.name,
+      })
+      .from(timeEntries)
+      .innerJoin(users, eq(timeEntries.userId, users.id))
+      .leftJoin(projects, eq(timeEntries.projectId, projects.id))
+      .leftJoin(tasks, eq(timeEntries.taskId, tasks.id))
+      .leftJoin(tickets, eq(timeEntries.ticketId, tickets.id))
+      .leftJoin(rateTypes, eq(timeEntries.rateTypeId, rateTypes.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(timeEntries.startedAt));
+
+    return rows.map(({ userFirstName, userLastName, userEmail, ...entry }) => ({
+      ...entry,
+      userName: [userFirstName, userLastName].filter(Boolean).join(' ') || userEmail,
+    }));
   }
 
-  async updateLead(id: string, updates: UpdateLeadType): Promise<Lead | undefined> {
-    const [result] = await db
-      .update(leads)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(leads.id, id))
-      .returning();
-    return result;
+  async getTimeEntry(id: string): Promise<TimeEntry | undefined> {
+    const [entry] = await db.select().from(timeEntries).where(eq(timeEntries.id, id));
+    return entry;
   }
 
-  async deleteLead(id: string): Promise<void> {
-    await db.delete(leads).where(eq(leads.id, id));
+  async getRunningTimeEntry(userId: string): Promise<TimeEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(timeEntries)
+      .where(and(eq(timeEntries.userId, userId), eq(timeEntries.status, 'running')));
+    return entry;
   }
 
-  async convertInquiryToLead(inquiryId: string, assignedToId: string): Promise<Lead> {
-    const inquiry = await this.getInquiry(inquiryId);
-    if (!inquiry) {
-      throw new Error('Inquiry not found');
+  async clockIn(userId: string, data: ClockInType): Promise<TimeEntry> {
+    if (await this.getRunningTimeEntry(userId)) {
+      throw new ConflictError('Already clocked in');
     }
-    
-    if (inquiry.convertedLeadId) {
-      throw new Error('Inquiry already converted to lead');
+    // The unique index on running entries also catches a double tap that slips past the check
+    const [entry] = await db
+      .insert(timeEntries)
+      .values({
+        ...await this.resolveTimeEntryWork(data),
+        userId,
+        status: 'running',
+        startedAt: new Date(),
+      })
+      .onConflictDoNothing()
+      .returning();
+    if (!entry) {
+      throw new ConflictError('Already clocked in');
     }
-    
-    const [lead] = await db.insert(leads).values({
-      source: 'inquiry',
-      inquiryId: inquiry.id,
-      name: inquiry.name,
-      email: inquiry.email,
-      phone: inquiry.phone,
-      company: inquiry.company,
-      serviceType: inquiry.serviceType,
-      address: inquiry.address,
-      status: 'new',
-      assignedToId,
-      notes: inquiry.description || inquiry.notes || '',
-    }).returning();
-    
-    await this.updateInquiry(inquiryId, {
-      convertedLeadId: lead.id,
-      status: 'converted',
-    });
-    
-    return lead;
-  }
-
-  // Client operations
-  async createClient(client: InsertClientType): Promise<Client> {
-    const [result] = await db.insert(clients).values(client).returning();
-    return result;
+    return entry;
   }
 
-  async getClients(filters?: { status?: string; accountManagerId?: string }): Promise<Client[]> {
-    let query = db.select().from(clients);
+  async clockOut(userId: string, notes?: string | null): Promise<TimeEntry | undefined> {
+    const running = await this.getRunningTimeEntry(userId);
+    if (!running) {
+      return undefined;
+    }
+    const shiftLimit = new Date(running.startedAt.getTime() + MAX_SHIFT_MINUTES * 60 * 1000);
+    const capped = shiftLimit < new Date();
+    const endedAt = capped ? shiftLimit : new Date();
+    const [entry] = await db
+      .update(timeEntries)
+      .set({
+        ...await this.classifyTimeEntry(running.startedAt, endedAt),
+        endedAt,
+        status: 'pending',
+        notes: capped
+          ? [notes ?? running.notes, `Clock-out capped at ${MAX_SHIFT_MINUTES / 60} hours; check the end time`].filter(Boolean).join('\n')
+          : notes ?? running.notes,
+        updatedAt: new Date(),
+      })
+      .where(eq(timeEntries.id, running.id))
+      .returning();
+    return entry;
+  }
+
+  async createTimeEntry(userId: string, entry: InsertTimeEntryType): Promise<TimeEntry> {
+    const { startedAt, endedAt, userId: _userId, ...work } = entry;
+    const [newEntry] = await db
+      .insert(timeEntries)
+      .values({
+        ...await this.resolveTimeEntryWork(work),
+        ...await this.classifyTimeEntry(startedAt, endedAt),
+        userId,
+        status: 'pending',
+        startedAt,
+        endedAt,
+      })
+      .returning();
+    return newEntry;
+  }
+
+  async updateTimeEntry(id: string, updates: UpdateTimeEntryType): Promise<TimeEntry | undefined> {
+    const current = await this.getTimeEntry(id);
+    if (!current) {
+      return undefined;
+    }
+    if (current.status === 'approved') {
+      throw new ConflictError('Approved time entries cannot be changed');
+    }
+
+    const { startedAt, endedAt, ...work } = updates;
+    const changes: Partial<typeof timeEntries.$inferInsert> = { ...work, updatedAt: new Date() };
+    if (work.projectId !== undefined || work.taskId !== undefined || work.ticketId !== undefined) {
+      Object.assign(changes, await this.resolveTimeEntryWork({
+        projectId: work.projectId !== undefined ? work.projectId : current.projectId,
+        taskId: work.taskId !== undefined ? work.taskId : current.taskId,
+        ticketId: work.ticketId !== undefined ? work.ticketId : current.ticketId,
+      }));
+    }
+
+    // A running entry only gets its times and split when the technician clocks out
+    if (current.status !== 'running') {
+      const start = startedAt ?? current.startedAt;
+      const end = endedAt ?? current.endedAt!;
+      if (end <= start) {
+        throw new InvalidRequestError('End time must be after start time');
+      }
+      Object.assign(changes, await this.classifyTimeEntry(start, end), { startedAt: start, endedAt: end });
+      // Corrected entries go back to the approver
+      if (current.status === 'rejected') {
+        Object.assign(changes, { status: 'pending', rejectionReason: null });
+      }
+    }
+
+    const [entry] = await db
+      .update(timeEntries)
+      .set(changes)
+      .where(eq(timeEntries.id, id))
+      .returning();
+    return entry;
+  }
+
+  async deleteTimeEntry(id: string): Promise<void> {
+    const entry = await this.getTimeEntry(id);
+    if (entry?.status === 'approved') {
+      throw new ConflictError('Approved time entries cannot be changed');
+    }
+    await db.delete(timeEntries).where(eq(timeEntries.id, id));
+  }
+
+  async reviewTimeEntry(id: string, approverId: string, approved: boolean, rejectionReason?: string): Promise<TimeEntry | undefined> {
+    const current = await this.getTimeEntry(id);
+    if (!current) {
+      return undefined;
+    }
+    if (current.userId === approverId) {
+      throw new ForbiddenError('You cannot review your own time entries');
+    }
+    if (current.status === 'running' || current.invoiceId) {
+      throw new ConflictError('Only submitted time entries can be reviewed');
+    }
+
+    const [entry] = await db
+      .update(timeEntries)
+      .set({
+        status: approved ? 'approved' : 'rejected',
+        approvedById: approverId,
+        approvedAt: new Date(),
+        rejectionReason: approved ? null : rejectionReason,
+        updatedAt: new Date(),
+      })
+      .where(eq(timeEntries.id, id))
+      .returning();
+    return entry;
+  }
+
+  // Appends one line per entry and rate band to a draft invoice, then marks the entries billed
+  async addTimeEntriesToInvoice(invoiceId: string, entryIds: string[]): Promise<Invoice> {
+    return await db.transaction(async (tx) => {
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for('update');
+      if (!invoice) {
+        throw new NotFoundError('Invoice not found');
+      }
+      if (invoice.status !== 'draft') {
+        throw new ConflictError('Time can only be added to draft invoices');
+      }
+
+      const entries = await tx
+        .select({
+          ...getTableColumns(timeEntries),
+          userFirstName: users.firstName,
+          userLastName: users.lastName,
+          projectTicketNumber: projects.ticketNumber,
+          rateTypeName: rateTypes.name,
+        })
+        .from(timeEntries)
+        .innerJoin(users, eq(timeEntries.userId, users.id))
+        .leftJoin(projects, eq(timeEntries.projectId, projects.id))
+        .leftJoin(rateTypes, eq(timeEntries.rateTypeId, rateTypes.id))
+        .where(inArray(timeEntries.id, entryIds))
+        .orderBy(asc(timeEntries.startedAt))
+        .for('update', { of: timeEntries });
+      if (entries.length !== new Set(entryIds).size
+        || entries.some(entry => entry.status !== 'approved' || !entry.billable || entry.invoiceId)) {
+        throw new ConflictError('Only approved, billable time that has not been invoiced can be added');
+      }
+
+      // An invoice for one project's labour is linked to that project so it shows in job costing
+      const entryProjectIds = new Set(entries.map(entry => entry.projectId));
+      const labourProjectId = entryProjectIds.size === 1 ? entries[0].projectId : null;
+
+      const rates = await tx.select().from(serviceRates);
+      const newItems = entries.flatMap(entry => {
+        const rate = rates.find(r => r.rateTypeId === entry.rateTypeId);
+        const worker = [entry.userFirstName, entry.userLastName].filter(Boolean).join(' ');
+        const description = [
+          entry.startedAt.toISOString().slice(0, 10),
+          worker,
+          entry.projectTicketNumber,
+          entry.notes,
+        ].filter(Boolean).join(' - ');
+        return priceTime(entry, rate).map((charge): InvoiceLineItem => ({
+          priceMatrixId: null,
+          itemName: `${entry.rateTypeName || 'Labour'} (${charge.label})`,
+          description,
+          unit: 'hour',
+          unitPrice: charge.unitPrice,
+          quantity: charge.hours,
+          total: charge.total,
+        }));
+      });
+
+      const items = [...(Array.isArray(invoice.items) ? (invoice.items as InvoiceLineItem[]) : []), ...newItems];
+      const subtotal = items.reduce((sum, item) => sum + Number(item.total || 0), 0);
+      const taxAmount = subtotal * parseFloat(invoice.taxRate || '0') / 100;
+      const total = subtotal + taxAmount;
+      const balanceDue = total - parseFloat(invoice.amountPaid || '0');
+
+      const [updated] = await tx
+        .update(invoices)
+        .set({
+          items,
+          subtotal: subtotal.toFixed(2),
+          taxAmount: taxAmount.toFixed(2),
+          total: total.toFixed(2),
+          balanceDue: balanceDue.toFixed(2),
+          projectId: invoice.projectId ?? labourProjectId,
+          updatedAt: new Date(),
+        })
+        .where(eq(invoices.id, invoiceId))
+        .returning();
+
+      await tx
+        .update(timeEntries)
+        .set({ invoiceId, updatedAt: new Date() })
+        .where(inArray(timeEntries.id, entryIds));
+
+      return updated;
+    });
+  }
+
+  // Time logged against a task or ticket is also costed to the project it belongs to
+  private async resolveTimeEntryWork(work: ClockInType) {
+    let projectId = work.projectId ?? null;
+    if (work.ticketId) {
+      const ticket = await this.getTicket(work.ticketId);
+      if (!ticket) {
+        throw new NotFoundError('Ticket not found');
+      }
+      projectId = projectId ?? ticket.projectId;
+    }
+    if (work.taskId) {
+      const task = await this.getTask(work.taskId);
+      if (!task) {
+        throw new NotFoundError('Task not found');
+      }
+      projectId = projectId ?? task.projectId;
+    }
+    return { ...work, projectId };
+  }
+
+  private async classifyTimeEntry(startedAt: Date, endedAt: Date) {
+    const config = await this.getSystemConfig();
+    return classifyTime(startedAt, endedAt, businessHoursFromConfig(config));
+  }
+
+  // Sales operations
+  async createSalesRecord(record: InsertSalesRecordType): Promise<SalesRecord> {
+    const [newRecord] = await db
+      .insert(salesRecords)
+      .values(record)
+      .returning();
+
+    // Create financial log
+    await this.createFinancialLog({
+      logType: 'sales_record_created',
+      entityType: 'sales_record',
+      entityId: newRecord.id,
+      userId: record.salesRepId,
+      newValue: record.dealValue,
+      description: `Sales record created for deal value ${record.dealValue}`,
+      metadata: { status: newRecord.status },
+    });
+
+    return newRecord;
+  }
+
+  async getSalesRecords(filters?: { salesRepId?: string; clientId?: string; status?: string }): Promise<SalesRecord[]> {
+    let query = db.select().from(salesRecords);
     
     const conditions = [];
-    if (filters?.status) {
-      conditions.push(eq(clients.status, filters.status));
+    if (filters?.salesRepId) {
+      conditions.push(eq(salesRecords.salesRepId, filters.salesRepId));
     }
-    if (filters?.accountManagerId) {
-      conditions.push(eq(clients.accountManagerId, filters.accountManagerId));
+    if (filters?.clientId) {
+      conditions.push(eq(salesRecords.clientId, filters.clientId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(salesRecords.status, filters.status));
     }
     
     if (conditions.length > 0) {
       query = query.where(and(...conditions));
     }
     
-    return query.orderBy(desc(clients.createdAt));
+    return query.orderBy(desc(salesRecords.createdAt));
   }
 
-  async getClient(id: string): Promise<Client | undefined> {
-    const [result] = await db.select().from(clients).where(eq(clients.id, id));
-    return result;
+  async getSalesRecord(id: string): Promise<SalesRecord | undefined> {
+    const [record] = await db.select().from(salesRecords).where(eq(salesRecords.id, id));
+    return record;
   }
 
-  async updateClient(id: string, updates: UpdateClientType): Promise<Client | undefined> {
-    const [result] = await db
-      .update(clients)
+  async updateSalesRecord(id: string, updates: UpdateSalesRecordType): Promise<SalesRecord | undefined> {
+    const existingRecord = await this.getSalesRecord(id);
+    
+    const [record] = await db
+      .update(salesRecords)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(clients.id, id))
+      .where(eq(salesRecords.id, id))
       .returning();
-    return result;
+
+    // Create financial log if deal value changed
+    if (updates.dealValue && existingRecord && updates.dealValue !== existingRecord.dealValue) {
+      await this.createFinancialLog({
+        logType: 'sales_record_updated',
+        entityType: 'sales_record',
+        entityId: id,
+        userId: record.salesRepId,
+        previousValue: existingRecord.dealValue,
+        newValue: updates.dealValue,
+        description: `Sales record deal value updated from ${existingRecord.dealValue} to ${updates.dealValue}`,
+      });
+    }
+
+    return record;
   }
 
-  async deleteClient(id: string): Promise<void> {
-    await db.delete(clients).where(eq(clients.id, id));
+  async deleteSalesRecord(id: string): Promise<void> {
+    await db.delete(salesRecords).where(eq(salesRecords.id, id));
   }
 
-  async convertLeadToClient(leadId: string, accountManagerId: string, additionalData: Partial<Client> = {}): Promise<Client> {
-    const lead = await this.getLead(leadId);
-    if (!lead) {
-      throw new Error('Lead not found');
+  // Financial log operations
+  async createFinancialLog(log: InsertFinancialLogType, executor: typeof db | DbTransaction = db): Promise<FinancialLog> {
+    const [newLog] = await executor
+      .insert(financialLogs)
+      .values(log)
+      .returning();
+    return newLog;
+  }
+
+  async getFinancialLogs(filters?: { entityType?: string; userId?: string; logType?: string; limit?: number }): Promise<FinancialLog[]> {
+    let query = db.select().from(financialLogs);
+    
+    const conditions = [];
+    if (filters?.entityType) {
+      conditions.push(eq(financialLogs.entityType, filters.entityType));
+    }
+    if (filters?.userId) {
+      conditions.push(eq(financialLogs.userId, filters.userId));
+    }
+    if (filters?.logType) {
+      conditions.push(eq(financialLogs.logType, filters.logType));
     }
     
-    if (lead.status === 'converted') {
-      throw new Error('Lead already converted to client');
+    if (conditions.length > 0) {
+      query = query.where(and(...conditions));
     }
     
-    const [client] = await db.insert(clients).values({
-      leadId: lead.id,
-      accountManagerId,
-      name: lead.name,
-      email: lead.email,
-      phone: lead.phone,
-      company: lead.company,
-      address: lead.address,
-      status: 'active',
-      notes: lead.notes,
-      ...additionalData,
-    }).returning();
+    return query
+      .orderBy(desc(financialLogs.createdAt))
+      .limit(filters?.limit || 100);
+  }
+
+  // Activity log operations
+  async logActivity(activity: InsertActivityType): Promise<Activity> {
+    const [result] = await db.insert(activities).values(activity).returning();
+    return result;
+  }
+
+  async getActivities(filters?: { userId?: string; entityType?: string; action?: string; limit?: number }): Promise<Activity[]> {
+    let query = db.select().from(activities);
     
-    await this.updateLead(leadId, {
-      status: 'converted',
-    });
+    const conditions = [];
+    if (filters?.userId) {
+      conditions.push(eq(activities.userId, filters.userId));
+    }
+    if (filters?.entityType) {
+      conditions.push(eq(activities.entityType, filters.entityType));
+    }
+    if (filters?.action) {
+      conditions.push(eq(activities.action, filters.action));
+    }
     
-    return client;
+    if (conditions.length > 0) {
+      query = query.where(and(...conditions));
+    }
+    
+    return query
+      .orderBy(desc(activities.timestamp))
+      .limit(filters?.limit || 100);
   }
 
-  // Supplier operations
-  async createSupplier(supplier: InsertSupplierType): Promise<Supplier> {
-    const [result] = await db.insert(suppliers).values(supplier).returning();
+  // Inquiry operations
+  async createInquiry(inquiry: InsertInquiryType): Promise<Inquiry> {
+    const [result] = await db.insert(inquiries).values(inquiry).returning();
     return result;
   }
 
-  async getSuppliers(filters?: { type?: string; status?: string }): Promise<Supplier[]> {
-    let query = db.select().from(suppliers);
+  async getInquiries(filters?: { type?: string; status?: string; assignedToId?: string }): Promise<Inquiry[]> {
+    let query = db.select().from(inquiries);
     
     const conditions = [];
     if (filters?.type) {
-      conditions.push(eq(suppliers.type, filters.type));
+      conditions.push(eq(inquiries.type, filters.type));
     }
     if (filters?.status) {
-      conditions.push(eq(suppliers.status, filters.status));
+      conditions.push(eq(inquiries.status, filters.status));
+    }
+    if (filters?.assignedToId) {
+      conditions.push(eq(inquiries.assignedToId, filters.assignedToId));
     }
     
     if (conditions.length > 0) {
       query = query.where(and(...conditions));
     }
     
-    return query.orderBy(desc(suppliers.createdAt));
+    return query.orderBy(desc(inquiries.createdAt));
   }
 
-  async getSupplier(id: string): Promise<Supplier | undefined> {
-    const [result] = await db.select().from(suppliers).where(eq(suppliers.id, id));
+  async getInquiry(id: string): Promise<Inquiry | undefined> {
+    const [result] = await db.select().from(inquiries).where(eq(inquiries.id, id));
     return result;
   }
 
-  async updateSupplier(id: string, updates: UpdateSupplierType): Promise<Supplier | undefined> {
+  async updateInquiry(id: string, updates: UpdateInquiryType): Promise<Inquiry | undefined> {
     const [result] = await db
-      .update(suppliers)
+      .update(inquiries)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(suppliers.id, id))
+      .where(eq(inquiries.id, id))
       .returning();
     return result;
   }
 
-  async deleteSupplier(id: string): Promise<void> {
-    await db.delete(suppliers).where(eq(suppliers.id, id));
+  async deleteInquiry(id: string): Promise<void> {
+    await db.delete(inquiries).where(eq(inquiries.id, id));
   }
 
-  // Vendor Account operations
-  async createVendorAccount(account: InsertVendorAccountType): Promise<VendorAccount> {
-    const [result] = await db.insert(vendorAccounts).values(account).returning();
+  // Lead operations
+  async createLead(lead: InsertLeadType): Promise<Lead> {
+    const [result] = await db.insert(leads).values(lead).returning();
     return result;
   }
 
-  async getVendorAccounts(filters?: { isActive?: boolean }): Promise<VendorAccount[]> {
-    let query = db.select().from(vendorAccounts);
+  async getLeads(filters?: { source?: string; status?: string; assignedToId?: string }): Promise<Lead[]> {
+    let query = db.select().from(leads);
     
-    if (filters?.isActive !== undefined) {
-      query = query.where(eq(vendorAccounts.isActive, filters.isActive));
+    const conditions = [];
+    if (filters?.source) {
+      conditions.push(eq(leads.source, filters.source));
+    }
+    if (filters?.status) {
+      conditions.push(eq(leads.status, filters.status));
+    }
+    if (filters?.assignedToId) {
+      conditions.push(eq(leads.assignedToId, filters.assignedToId));
+    }
+    
+    if (conditions.length > 0) {
+      query = query.where(and(...conditions));
+    }
+    
+    return query.orderBy(desc(leads.createdAt));
+  }
+
+  async getLead(id: string): Promise<Lead | undefined> {
+    const [result] = await db.select().from(leads).where(eq(leads.id, id));
+    return result;
+  }
+
+  async updateLead(id: string, updates: UpdateLeadType): Promise<Lead | undefined> {
+    const [result] = await db
+      .update(leads)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(leads.id, id))
+      .returning();
+    return result;
+  }
+
+  async deleteLead(id: string): Promise<void> {
+    await db.delete(leads).where(eq(leads.id, id));
+  }
+
+  async convertInquiryToLead(inquiryId: string, assignedToId: string): Promise<Lead> {
+    const inquiry = await this.getInquiry(inquiryId);
+    if (!inquiry) {
+      throw new Error('Inquiry not found');
+    }
+    
+    if (inquiry.convertedLeadId) {
+      throw new Error('Inquiry already converted to lead');
+    }
+    
+    const [lead] = await db.insert(leads).values({
+      source: 'inquiry',
+      inquiryId: inquiry.id,
+      name: inquiry.name,
+      email: inquiry.email,
+      phone: inquiry.phone,
+      company: inquiry.company,
+      serviceType: inquiry.serviceType,
+      address: inquiry.address,
+      status: 'new',
+      assignedToId,
+      notes: inquiry.description || inquiry.notes || '',
+    }).returning();
+    
+    await this.updateInquiry(inquiryId, {
+      convertedLeadId: lead.id,
+      status: 'converted',
+    });
+    
+    return lead;
+  }
+
+  // Client operations
+  async createClient(client: InsertClientType): Promise<Client> {
+    const [result] = await db.insert(clients).values(client).returning();
+    return result;
+  }
+
+  async getClients(filters?: { status?: string; accountManagerId?: string }): Promise<Client[]> {
+    let query = db.select().from(clients);
+    
+    const conditions = [];
+    if (filters?.status) {
+      conditions.push(eq(clients.status, filters.status));
+    }
+    if (filters?.accountManagerId) {
+      conditions.push(eq(clients.accountManagerId, filters.accountManagerId));
+    }
+    
+    if (conditions.length > 0) {
+      query = query.where(and(...conditions));
+    }
+    
+    return query.orderBy(desc(clients.createdAt));
+  }
+
+  async getClient(id: string): Promise<Client | undefined> {
+    const [result] = await db.select().from(clients).where(eq(clients.id, id));
+    return result;
+  }
+
+  async updateClient(id: string, updates: UpdateClientType): Promise<Client | undefined> {
+    const [result] = await db
+      .update(clients)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(clients.id, id))
+      .returning();
+    return result;
+  }
+
+  async deleteClient(id: string): Promise<void> {
+    await db.delete(clients).where(eq(clients.id, id));
+  }
+
+  async convertLeadToClient(leadId: string, accountManagerId: string, additionalData: Partial<Client> = {}): Promise<Client> {
+    const lead = await this.getLead(leadId);
+    if (!lead) {
+      throw new Error('Lead not found');
+    }
+    
+    if (lead.status === 'converted') {
+      throw new Error('Lead already converted to client');
+    }
+    
+    const [client] = await db.insert(clients).values({
+      leadId: lead.id,
+      accountManagerId,
+      name: lead.name,
+      email: lead.email,
+      phone: lead.phone,
+      company: lead.company,
+      address: lead.address,
+      status: 'active',
+      notes: lead.notes,
+      ...additionalData,
+    }).returning();
+    
+    await this.updateLead(leadId, {
+      status: 'converted',
+    });
+    
+    return client;
+  }
+
+  // Supplier operations
+  async createSupplier(supplier: InsertSupplierType): Promise<Supplier> {
+    const [result] = await db.insert(suppliers).values(supplier).returning();
+    return result;
+  }
+
+  async getSuppliers(filters?: { type?: string; status?: string }): Promise<Supplier[]> {
+    let query = db.select().from(suppliers);
+    
+    const conditions = [];
+    if (filters?.type) {
+      conditions.push(eq(suppliers.type, filters.type));
+    }
+    if (filters?.status) {
+      conditions.push(eq(suppliers.status, filters.status));
+    }
+    
+    if (conditions.length > 0) {
+      query = query.where(and(...conditions));
+    }
+    
+    return query.orderBy(desc(suppliers.createdAt));
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    const [result] = await db.select().from(suppliers).where(eq(suppliers.id, id));
+    return result;
+  }
+
+  async updateSupplier(id: string, updates: UpdateSupplierType): Promise<Supplier | undefined> {
+    const [result] = await db
+      .update(suppliers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(suppliers.id, id))
+      .returning();
+    return result;
+  }
+
+  async deleteSupplier(id: string): Promise<void> {
+    await db.delete(suppliers).where(eq(suppliers.id, id));
+  }
+
+  // Purchase Order operations
+  private async generatePurchaseOrderNumber(executor: typeof db | DbTransaction = db): Promise<string> {
+    const year = new Date().getFullYear();
+    const result = await executor
+      .select({ poNumber: purchaseOrders.poNumber })
+      .from(purchaseOrders)
+      .orderBy(desc(purchaseOrders.poNumber))
+      .limit(1);
+    
+    if (result.length === 0) {
+      return `PO-${year}-00001`;
+    }
+    
+    const lastNumber = parseInt(result[0].poNumber.split('-')[2]);
+    return `PO-${year}-${(lastNumber + 1).toString().padStart(5, '0')}`;
+  }
+
+  async getPurchaseOrders(filters?: { supplierId?: string; status?: string }): Promise<PurchaseOrderWithSupplier[]> {
+    const conditions = [];
+    if (filters?.supplierId) {
+      conditions.push(eq(purchaseOrders.supplierId, filters.supplierId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(purchaseOrders.status, filters.status as PurchaseOrder['status']));
+    }
+    
+    return db
+      .select({ ...getTableColumns(purchaseOrders), supplierName: suppliers.companyName })
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(purchaseOrders.createdAt));
+  }
+
+  async getPurchaseOrder(id: string, executor: typeof db | DbTransaction = db): Promise<PurchaseOrderWithLines | undefined> {
+    const [order] = await executor
+      .select({ ...getTableColumns(purchaseOrders), supplierName: suppliers.companyName })
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .where(eq(purchaseOrders.id, id));
+    if (!order) {
+      return undefined;
+    }
+    
+    const lines = await executor
+      .select({
+        ...getTableColumns(purchaseOrderLines),
+        sku: inventoryItems.sku,
+        itemName: inventoryItems.name,
+        unitOfMeasure: inventoryItems.unitOfMeasure,
+        isSerialized: inventoryItems.isSerialized,
+      })
+      .from(purchaseOrderLines)
+      .innerJoin(inventoryItems, eq(purchaseOrderLines.itemId, inventoryItems.id))
+      .where(eq(purchaseOrderLines.purchaseOrderId, id))
+      .orderBy(asc(purchaseOrderLines.createdAt), asc(inventoryItems.name));
+    return { ...order, lines };
+  }
+
+  async createPurchaseOrder(order: InsertPurchaseOrderType, createdById: string): Promise<PurchaseOrderWithLines> {
+    return await db.transaction(async (tx) => {
+      const { lines, ...header } = order;
+      const [created] = await tx
+        .insert(purchaseOrders)
+        .values({
+          ...header,
+          poNumber: await this.generatePurchaseOrderNumber(tx),
+          total: purchaseOrderTotal(lines),
+          createdById,
+        })
+        .returning();
+      await tx.insert(purchaseOrderLines).values(lines.map(line => ({ ...line, purchaseOrderId: created.id })));
+      return (await this.getPurchaseOrder(created.id, tx))!;
+    });
+  }
+
+  async updatePurchaseOrder(id: string, updates: UpdatePurchaseOrderType): Promise<PurchaseOrderWithLines | undefined> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for('update');
+      if (!order) {
+        return undefined;
+      }
+      if (order.status !== 'draft') {
+        throw new ConflictError('Only draft purchase orders can be edited');
+      }
+      
+      const { lines, ...header } = updates;
+      if (lines) {
+        await tx.delete(purchaseOrderLines).where(eq(purchaseOrderLines.purchaseOrderId, id));
+        await tx.insert(purchaseOrderLines).values(lines.map(line => ({ ...line, purchaseOrderId: id })));
+      }
+      await tx
+        .update(purchaseOrders)
+        .set({ ...header, ...(lines ? { total: purchaseOrderTotal(lines) } : {}), updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, id));
+      return await this.getPurchaseOrder(id, tx);
+    });
+  }
+
+  async sendPurchaseOrder(id: string): Promise<PurchaseOrderWithLines | undefined> {
+    return await db.transaction(async (tx) => {
+      // Locked so a concurrent send or cancel waits and then fails the status check instead of emailing twice
+      const [order] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for('update');
+      if (!order) {
+        return undefined;
+      }
+      if (order.status !== 'draft') {
+        throw new ConflictError('Only draft purchase orders can be sent');
+      }
+      
+      await tx
+        .update(purchaseOrders)
+        .set({ status: 'sent', sentAt: new Date(), updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, id));
+      return await this.getPurchaseOrder(id, tx);
+    });
+  }
+
+  // Books each delivered quantity as a purchase transaction and takes the PO price as the item's new unit cost
+  async receivePurchaseOrder(
+    id: string,
+    receipt: ReceivePurchaseOrderType,
+    performedById: string,
+    options: InventoryStockOptions = {},
+  ): Promise<PurchaseOrderWithLines | undefined> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for('update');
+      if (!order) {
+        return undefined;
+      }
+      if (order.status !== 'sent' && order.status !== 'partially_received') {
+        throw new ConflictError('Purchase order is not open for receiving');
+      }
+      
+      const lines = await tx.select().from(purchaseOrderLines).where(eq(purchaseOrderLines.purchaseOrderId, id));
+      for (const received of receipt.lines) {
+        const line = lines.find(candidate => candidate.id === received.lineId);
+        if (!line) {
+          throw new NotFoundError('Purchase order line not found');
+        }
+        
+        const [item] = await tx.select().from(inventoryItems).where(eq(inventoryItems.id, line.itemId));
+        const outstanding = line.quantityOrdered - line.quantityReceived;
+        if (received.quantity > outstanding) {
+          throw new ConflictError(`Cannot receive more than ordered for ${item.sku}: ${outstanding} outstanding, ${received.quantity} received`);
+        }
+        if (item.isSerialized && received.serialNumbers?.length !== received.quantity) {
+          throw new InvalidRequestError(`Enter one serial number per unit received for ${item.sku}`);
+        }
+        
+        await this.applyInventoryTransaction(tx, {
+          itemId: line.itemId,
+          transactionType: 'purchase',
+          quantity: received.quantity,
+          unitCost: line.unitCost,
+          totalCost: (received.quantity * parseFloat(line.unitCost)).toFixed(2),
+          locationId: receipt.locationId ?? null,
+          purchaseOrderId: order.id,
+          performedById,
+          notes: receipt.notes || `Received against ${order.poNumber}`,
+        }, options);
+        await tx
+          .update(inventoryItems)
+          .set({ unitCost: line.unitCost, updatedAt: new Date() })
+          .where(eq(inventoryItems.id, line.itemId));
+        if (received.serialNumbers?.length) {
+          await this.insertSerializedUnits(tx, item, received.serialNumbers, { purchaseOrderId: order.id });
+        }
+        
+        line.quantityReceived += received.quantity;
+        await tx
+          .update(purchaseOrderLines)
+          .set({ quantityReceived: line.quantityReceived })
+          .where(eq(purchaseOrderLines.id, line.id));
+      }
+      
+      const fullyReceived = lines.every(line => line.quantityReceived >= line.quantityOrdered);
+      await tx
+        .update(purchaseOrders)
+        .set({
+          status: fullyReceived ? 'received' : 'partially_received',
+          receivedAt: fullyReceived ? new Date() : null,
+          updatedAt: new Date(),
+        })
+        .where(eq(purchaseOrders.id, id));
+      return await this.getPurchaseOrder(id, tx);
+    });
+  }
+
+  // Closes an order; anything already received stays in stock
+  async cancelPurchaseOrder(id: string): Promise<PurchaseOrderWithLines | undefined> {
+    return await db.transaction(async (tx) => {
+      // Locked against a receipt landing between the status check and the update
+      const [order] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for('update');
+      if (!order) {
+        return undefined;
+      }
+      if (order.status === 'received' || order.status === 'cancelled') {
+        throw new ConflictError(`Purchase order is already ${order.status}`);
+      }
+      
+      await tx
+        .update(purchaseOrders)
+        .set({ status: 'cancelled', cancelledAt: new Date(), updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, id));
+      return await this.getPurchaseOrder(id, tx);
+    });
+  }
+
+  async getSupplierOpenOrders(): Promise<SupplierOpenOrders[]> {
+    return db
+      .select({
+        supplierId: purchaseOrders.supplierId,
+        openOrders: sql<number>`count(distinct ${purchaseOrders.id})`.mapWith(Number),
+        openValue: sql<number>`coalesce(sum((${purchaseOrderLines.quantityOrdered} - ${purchaseOrderLines.quantityReceived}) * ${purchaseOrderLines.unitCost}), 0)`.mapWith(Number),
+      })
+      .from(purchaseOrders)
+      .innerJoin(purchaseOrderLines, eq(purchaseOrderLines.purchaseOrderId, purchaseOrders.id))
+      .where(inArray(purchaseOrders.status, ['sent', 'partially_received']))
+      .groupBy(purchaseOrders.supplierId);
+  }
+
+  // Vendor Account operations
+  async createVendorAccount(account: InsertVendorAccountType): Promise<VendorAccount> {
+    const [result] = await db.insert(vendorAccounts).values(account).returning();
+    return result;
+  }
+
+  async getVendorAccounts(filters?: { isActive?: boolean }): Promise<VendorAccount[]> {
+    let query = db.select().from(vendorAccounts);
+    
+    if (filters?.isActive !== undefined) {
+      query = query.where(eq(vendorAccounts.isActive, filters.isActive));
     }
     
     return query.orderBy(desc(vendorAccounts.createdAt));
@@ -2133,7 +5412,7 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async updateQuote(id: string, updates: UpdateQuoteType): Promise<Quote | undefined> {
+  async updateQuote(id: string, updates: UpdateQuoteType, updatedById: string | null = null): Promise<Quote | undefined> {
     // Transform validUntil string to Date object or null
     const transformedUpdates = {
       ...updates,
@@ -2141,72 +5420,304 @@ export class DatabaseStorage implements IStorage {
       updatedAt: new Date(),
     };
     
-    const [result] = await db
-      .update(quotes)
-      .set(transformedUpdates)
-      .where(eq(quotes.id, id))
-      .returning();
-    return result;
-  }
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(quotes).where(eq(quotes.id, id)).for('update');
+      if (!current) {
+        return undefined;
+      }
 
-  async deleteQuote(id: string): Promise<void> {
-    await db.delete(quotes).where(eq(quotes.id, id));
-  }
+      const next = { ...current, ...transformedUpdates } as Quote;
+      const contentChanged = quoteContentKey(current) !== quoteContentKey(next);
+      if (current.status === 'accepted' && contentChanged) {
+        throw new ConflictError('Accepted quotes cannot be edited');
+      }
 
-  // Invoice operations
-  async createInvoice(data: InsertInvoiceType): Promise<Invoice> {
-    // Generate invoice number if not provided
-    let invoiceNumber = data.invoiceNumber;
-    if (!invoiceNumber) {
-      const year = new Date().getFullYear();
-      const result = await db
-        .select({ invoiceNumber: invoices.invoiceNumber })
-        .from(invoices)
-        .orderBy(desc(invoices.invoiceNumber))
+      // Keep what the client was originally sent before overwriting it
+      if (current.status !== 'draft' && contentChanged) {
+        await this.ensureQuoteRevision(current, updatedById, tx);
+      }
+
+      const [result] = await tx
+        .update(quotes)
+        .set(transformedUpdates)
+        .where(eq(quotes.id, id))
+        .returning();
+
+      // Sending a quote, or changing one already sent, records the new revision
+      if (result.status !== 'draft' && (contentChanged || current.status === 'draft')) {
+        await this.ensureQuoteRevision(result, updatedById, tx);
+      }
+      return result;
+    });
+  }
+
+  // The revision shown to the client: the accepted one once approved, otherwise the latest sent
+  async getPublishedQuoteRevision(quote: Quote): Promise<(QuoteRevision & { label: string }) | undefined> {
+    const revisions = await this.getQuoteRevisions(quote.id);
+    if (quote.acceptedRevisionId) {
+      return revisions.find(revision => revision.id === quote.acceptedRevisionId);
+    }
+    return revisions[revisions.length - 1];
+  }
+
+  async getQuoteRevisions(quoteId: string): Promise<(QuoteRevision & { label: string })[]> {
+    const results = await db
+      .select()
+      .from(quoteRevisions)
+      .where(eq(quoteRevisions.quoteId, quoteId))
+      .orderBy(asc(quoteRevisions.revisionNumber));
+    return results.map(revision => ({ ...revision, label: formatRevisionLabel(revision.revisionNumber) }));
+  }
+
+  // Returns the latest revision if it matches the quote's current content, otherwise snapshots a new one
+  private async ensureQuoteRevision(quote: Quote, createdById: string | null, executor: typeof db | DbTransaction = db): Promise<QuoteRevision> {
+    const [latest] = await executor
+      .select()
+      .from(quoteRevisions)
+      .where(eq(quoteRevisions.quoteId, quote.id))
+      .orderBy(desc(quoteRevisions.revisionNumber))
+      .limit(1);
+    if (latest && quoteContentKey(latest) === quoteContentKey(quote)) {
+      return latest;
+    }
+
+    const [revision] = await executor
+      .insert(quoteRevisions)
+      .values({
+        quoteId: quote.id,
+        revisionNumber: latest ? latest.revisionNumber + 1 : 0,
+        items: quote.items,
+        subtotal: quote.subtotal,
+        taxRate: quote.taxRate,
+        taxAmount: quote.taxAmount,
+        total: quote.total,
+        validUntil: quote.validUntil,
+        termsAndConditions: quote.termsAndConditions,
+        createdById,
+      })
+      .returning();
+    return revision;
+  }
+
+  async deleteQuote(id: string): Promise<void> {
+    await db.delete(quotes).where(eq(quotes.id, id));
+  }
+
+  // Accepts or rejects a quote on the client's behalf, refusing once it has expired
+  async respondToQuote(id: string, status: 'accepted' | 'rejected', options: QuoteResponseOptions = {}, now: Date = new Date()): Promise<Quote> {
+    const outcome = await db.transaction(async (tx) => {
+      const [quote] = await tx.select().from(quotes).where(eq(quotes.id, id)).for('update');
+      if (!quote) {
+        throw new NotFoundError('Quote not found');
+      }
+      if (quote.status === 'expired') {
+        return { expired: true as const };
+      }
+      if (quote.status !== 'draft' && quote.status !== 'sent') {
+        throw new ConflictError(`Quote has already been ${quote.status}`);
+      }
+      if (isPastValidity(quote.validUntil, now)) {
+        // Record the expiry now rather than waiting for the next sweep
+        await tx.update(quotes).set({ status: 'expired', updatedAt: now }).where(eq(quotes.id, id));
+        return { expired: true as const };
+      }
+
+      // A draft with unsent changes is mid-revision; the client can only answer once it is re-sent
+      const [latest] = await tx
+        .select()
+        .from(quoteRevisions)
+        .where(eq(quoteRevisions.quoteId, id))
+        .orderBy(desc(quoteRevisions.revisionNumber))
         .limit(1);
-      
-      if (result.length === 0) {
-        invoiceNumber = `INV-${year}-00001`;
-      } else {
-        const lastInvoice = result[0].invoiceNumber;
-        const parts = lastInvoice.split('-');
-        const lastNumber = parseInt(parts[2]);
-        const nextNumber = lastNumber + 1;
-        invoiceNumber = `INV-${year}-${nextNumber.toString().padStart(5, '0')}`;
+      if (quote.status === 'draft' && latest && quoteContentKey(latest) !== quoteContentKey(quote)) {
+        throw new ConflictError('Quote is being revised');
+      }
+
+      const revision = await this.ensureQuoteRevision(quote, options.respondedById ?? null, tx);
+      if (options.revisionNumber !== undefined && options.revisionNumber !== revision.revisionNumber) {
+        throw new ConflictError('Quote has been revised');
+      }
+
+      if (status === 'accepted' && options.signature) {
+        // The client must have agreed to the terms currently on file
+        const [docs] = await tx.select().from(legalDocuments).limit(1);
+        if (legalTermsVersion(docs) !== options.signature.termsVersion) {
+          throw new ConflictError('Terms have been updated');
+        }
+        await tx.insert(quoteAcceptances).values({
+          ...options.signature,
+          quoteId: id,
+          revisionId: revision.id,
+          serviceAgreement: docs?.serviceAgreement ?? null,
+          termsAndConditions: docs?.termsAndConditions ?? null,
+          acceptedAt: now,
+        });
       }
+
+      const [updated] = await tx
+        .update(quotes)
+        .set({
+          status,
+          notes: options.notes === undefined ? quote.notes : options.notes,
+          // Freeze the revision the client approved
+          acceptedRevisionId: status === 'accepted' ? revision.id : quote.acceptedRevisionId,
+          updatedAt: now,
+        })
+        .where(eq(quotes.id, id))
+        .returning();
+      return { expired: false as const, quote: updated };
+    });
+
+    if (outcome.expired) {
+      throw new ConflictError('Quote has expired');
     }
-    
-    // Calculate initial balanceDue if not provided
-    const total = data.total || 0;
-    const amountPaid = data.amountPaid || 0;
-    const balanceDue = data.balanceDue !== undefined ? data.balanceDue : (total - amountPaid);
-    
-    // Transform dueDate string to Date object or undefined
-    const transformedData = {
-      ...data,
-      invoiceNumber,
-      balanceDue,
-      dueDate: data.dueDate ? new Date(data.dueDate) : undefined,
+    return outcome.quote;
+  }
+
+  async getQuoteLegalTerms(): Promise<QuoteLegalTerms> {
+    const docs = await this.getLegalDocuments();
+    return {
+      serviceAgreement: docs?.serviceAgreement ?? null,
+      termsAndConditions: docs?.termsAndConditions ?? null,
+      termsVersion: legalTermsVersion(docs),
     };
+  }
+
+  async getQuoteAcceptance(quoteId: string): Promise<(QuoteAcceptance & { revisionLabel: string }) | undefined> {
+    const [result] = await db
+      .select({ acceptance: quoteAcceptances, revisionNumber: quoteRevisions.revisionNumber })
+      .from(quoteAcceptances)
+      .innerJoin(quoteRevisions, eq(quoteAcceptances.revisionId, quoteRevisions.id))
+      .where(eq(quoteAcceptances.quoteId, quoteId))
+      .orderBy(desc(quoteAcceptances.acceptedAt))
+      .limit(1);
+    return result
+      ? { ...result.acceptance, revisionLabel: formatRevisionLabel(result.revisionNumber) }
+      : undefined;
+  }
+
+  async expireStaleQuotes(now: Date = new Date()): Promise<Quote[]> {
+    return await db
+      .update(quotes)
+      .set({ status: 'expired', updatedAt: now })
+      .where(and(
+        eq(quotes.status, 'sent'),
+        isNotNull(quotes.validUntil),
+        lte(quotes.validUntil, new Date(now.getTime() - DAY_MS))
+      ))
+      .returning();
+  }
+
+  // Re-issues an expired quote as a new draft, repricing catalog items at today's price matrix
+  async reviseQuote(id: string, createdById: string): Promise<Quote> {
+    const original = await this.getQuote(id);
+    if (!original) {
+      throw new NotFoundError('Quote not found');
+    }
+    if (original.status !== 'expired') {
+      throw new ConflictError('Only expired quotes can be revised');
+    }
+
+    const catalog = await this.getPriceMatrixItems(true);
+    const pricesById = new Map(catalog.filter(item => item.isActive).map(item => [item.id, item]));
+
+    const originalItems = Array.isArray(original.items) ? (original.items as any[]) : [];
+    let subtotalCents = 0;
+    const items = originalItems.map(item => {
+      const current = item.priceMatrixId ? pricesById.get(item.priceMatrixId) : undefined;
+      const unitPrice = current ? current.customerPrice : String(item.unitPrice);
+      const quantity = Number(item.quantity) || 0;
+      const totalCents = Math.round(parseFloat(unitPrice) * 100 * quantity);
+      subtotalCents += totalCents;
+      return {
+        ...item,
+        ...(current ? { itemName: current.item, description: current.description || '', unit: current.unit } : {}),
+        unitPrice,
+        total: totalCents / 100,
+      };
+    });
+
+    const taxRate = parseFloat(original.taxRate || '0');
+    const taxCents = Math.round(subtotalCents * taxRate / 100);
+
+    // Keep the same validity window the original quote was issued with
+    const issuedAt = original.createdAt ? new Date(original.createdAt) : new Date();
+    const windowDays = original.validUntil
+      ? Math.max(1, Math.round((new Date(original.validUntil).getTime() - issuedAt.getTime()) / DAY_MS))
+      : 30;
+
+    const quote = await this.createQuote({
+      leadId: original.leadId,
+      clientId: original.clientId,
+      projectId: original.projectId,
+      createdById,
+      status: 'draft',
+      items,
+      subtotal: (subtotalCents / 100).toFixed(2),
+      taxRate: original.taxRate,
+      taxAmount: (taxCents / 100).toFixed(2),
+      total: ((subtotalCents + taxCents) / 100).toFixed(2),
+      validUntil: new Date(Date.now() + windowDays * DAY_MS).toISOString().split('T')[0],
+      notes: original.notes,
+      termsAndConditions: original.termsAndConditions,
+    });
+
+    const [result] = await db
+      .update(quotes)
+      .set({ revisedFromId: original.id })
+      .where(eq(quotes.id, quote.id))
+      .returning();
+    return result;
+  }
+
+  // Invoice operations
+  // Helper function to generate the next invoice number (runs inside a transaction when given one)
+  private async generateInvoiceNumber(executor: typeof db | DbTransaction = db): Promise<string> {
+    const year = new Date().getFullYear();
+    const result = await executor
+      .select({ invoiceNumber: invoices.invoiceNumber })
+      .from(invoices)
+      .orderBy(desc(invoices.invoiceNumber))
+      .limit(1);
     
-    // Determine initial payment status
-    let paymentStatus = transformedData.paymentStatus;
-    if (!paymentStatus) {
-      if (balanceDue <= 0) {
-        paymentStatus = 'paid';
-      } else if (amountPaid > 0) {
-        paymentStatus = 'partial';
-      } else {
-        paymentStatus = 'unpaid';
-      }
+    if (result.length === 0) {
+      return `INV-${year}-00001`;
     }
     
-    const [result] = await db.insert(invoices).values({
-      ...transformedData,
-      balanceDue,
-      paymentStatus
-    }).returning();
-    return result;
+    const lastInvoice = result[0].invoiceNumber;
+    const parts = lastInvoice.split('-');
+    const lastNumber = parseInt(parts[2]);
+    const nextNumber = lastNumber + 1;
+    return `INV-${year}-${nextNumber.toString().padStart(5, '0')}`;
+  }
+
+  async createInvoice(data: InsertInvoiceType): Promise<Invoice> {
+    // New invoices start with nothing paid; payments are recorded through the ledger
+    const balanceDue = parseFloat(data.total || '0').toFixed(2);
+    
+    return db.transaction(async (tx) => {
+      if (data.quoteId) {
+        await this.checkQuoteBillingCap(tx, data.quoteId, parseFloat(data.total || '0'));
+      }
+
+      // Generate invoice number if not provided
+      const invoiceNumber = data.invoiceNumber || await this.generateInvoiceNumber(tx);
+      
+      // Transform dueDate string to Date object or undefined
+      const transformedData = {
+        ...data,
+        invoiceNumber,
+        dueDate: data.dueDate ? new Date(data.dueDate) : undefined,
+      };
+      
+      const [result] = await tx.insert(invoices).values({
+        ...transformedData,
+        amountPaid: '0',
+        balanceDue,
+        paymentStatus: parseFloat(balanceDue) <= 0 ? 'paid' : 'unpaid',
+      }).returning();
+      return result;
+    });
   }
 
   async getInvoices(filters?: { leadId?: string; clientId?: string; quoteId?: string; paymentStatus?: string }): Promise<(Invoice & { recipientName?: string })[]> {
@@ -2249,232 +5760,1740 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
-  async getInvoice(id: string): Promise<(Invoice & { recipientName?: string }) | undefined> {
-    const [result] = await db
-      .select({
-        ...getTableColumns(invoices),
-        clientName: clients.name,
-        leadName: leads.name,
-      })
-      .from(invoices)
-      .leftJoin(clients, eq(invoices.clientId, clients.id))
-      .leftJoin(leads, eq(invoices.leadId, leads.id))
-      .where(eq(invoices.id, id));
-    
-    if (!result) return undefined;
-    
-    const { clientName, leadName, ...invoice } = result;
-    return {
-      ...invoice,
-      recipientName: clientName || leadName || undefined
-    } as Invoice & { recipientName?: string };
+  async getInvoice(id: string): Promise<(Invoice & { recipientName?: string }) | undefined> {
+    const [result] = await db
+      .select({
+        ...getTableColumns(invoices),
+        clientName: clients.name,
+        leadName: leads.name,
+      })
+      .from(invoices)
+      .leftJoin(clients, eq(invoices.clientId, clients.id))
+      .leftJoin(leads, eq(invoices.leadId, leads.id))
+      .where(eq(invoices.id, id));
+    
+    if (!result) return undefined;
+    
+    const { clientName, leadName, ...invoice } = result;
+    return {
+      ...invoice,
+      recipientName: clientName || leadName || undefined
+    } as Invoice & { recipientName?: string };
+  }
+
+  async getInvoiceByShareToken(token: string): Promise<Invoice | undefined> {
+    const [result] = await db.select().from(invoices).where(eq(invoices.shareToken, token));
+    return result;
+  }
+
+  async updateInvoice(id: string, updates: UpdateInvoiceType): Promise<Invoice | undefined> {
+    const existing = await this.getInvoice(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    return db.transaction(async (tx) => {
+      // A new total or quote has to fit what's left to bill on the quote; the quote is locked before the invoice,
+      // in the same order as quote conversion
+      const quoteId = updates.quoteId !== undefined ? updates.quoteId : existing.quoteId;
+      const status = updates.status ?? existing.status;
+      if (quoteId && status !== 'cancelled' && (updates.total !== undefined || updates.quoteId !== undefined)) {
+        await this.checkQuoteBillingCap(tx, quoteId, parseFloat(updates.total ?? existing.total), id);
+      }
+
+      const [current] = await tx.select().from(invoices).where(eq(invoices.id, id)).for('update');
+      if (!current) {
+        return undefined;
+      }
+      
+      // Prepare updated data with date transformation
+      const updatedData: any = {
+        ...updates,
+        dueDate: updates.dueDate ? new Date(updates.dueDate) : null,
+        updatedAt: new Date(),
+      };
+      
+      // Recalculate balanceDue against the amount already paid through the payment ledger
+      const newTotal = parseFloat(updates.total !== undefined ? updates.total : current.total);
+      const newAmountPaid = parseFloat(current.amountPaid || '0');
+      updatedData.balanceDue = (newTotal - newAmountPaid).toFixed(2);
+      
+      // Update paymentStatus based on balance
+      if (parseFloat(updatedData.balanceDue) <= 0) {
+        updatedData.paymentStatus = 'paid';
+      } else if (newAmountPaid > 0) {
+        updatedData.paymentStatus = 'partial';
+      } else {
+        updatedData.paymentStatus = 'unpaid';
+      }
+      updatedData.status = invoiceStatusForPayments(updates.status ?? current.status, updatedData.paymentStatus);
+      
+      const [result] = await tx
+        .update(invoices)
+        .set(updatedData)
+        .where(eq(invoices.id, id))
+        .returning();
+      return result;
+    });
+  }
+
+  async deleteInvoice(id: string): Promise<void> {
+    await db.delete(invoices).where(eq(invoices.id, id));
+  }
+
+  // Sum of every non-cancelled invoice already raised against a quote
+  async getQuoteBilledTotal(quoteId: string, executor: typeof db | DbTransaction = db, excludeInvoiceId?: string): Promise<number> {
+    const [result] = await executor.select({
+      total: sql<string>`COALESCE(SUM(${invoices.total}::numeric), 0)`
+    }).from(invoices)
+      .where(and(
+        eq(invoices.quoteId, quoteId),
+        sql`${invoices.status} <> 'cancelled'`,
+        excludeInvoiceId ? ne(invoices.id, excludeInvoiceId) : undefined,
+      ));
+    return Number(result?.total || 0);
+  }
+
+  // Invoices raised against a quote can never add up to more than the quote. Locks the quote, so the caller's
+  // insert or update has to run in the same transaction for concurrent invoices not to both pass.
+  private async checkQuoteBillingCap(tx: DbTransaction, quoteId: string, total: number, excludeInvoiceId?: string): Promise<void> {
+    const [quote] = await tx.select().from(quotes).where(eq(quotes.id, quoteId)).for('update');
+    if (!quote) {
+      throw new NotFoundError('Quote not found');
+    }
+    const quoteTotalCents = Math.round(parseFloat(quote.total) * 100);
+    const billedCents = Math.round(await this.getQuoteBilledTotal(quoteId, tx, excludeInvoiceId) * 100);
+    if (billedCents + Math.round(total * 100) > quoteTotalCents) {
+      const remaining = Math.max(0, quoteTotalCents - billedCents) / 100;
+      throw new InvalidRequestError(`This invoice would exceed the quote total. Remaining to bill: $${remaining.toFixed(2)}`);
+    }
+  }
+
+  async createInvoicesFromQuote(quoteId: string, installments: QuoteInvoiceInstallment[], createdById: string): Promise<Invoice[]> {
+    return db.transaction(async (tx) => {
+      // Lock the quote so concurrent conversions can't both pass the over-billing check
+      const [quote] = await tx.select().from(quotes).where(eq(quotes.id, quoteId)).for('update');
+      if (!quote) {
+        throw new NotFoundError('Quote not found');
+      }
+      if (quote.status !== 'accepted') {
+        throw new InvalidRequestError('Only accepted quotes can be converted to invoices');
+      }
+
+      // Work in cents so the installments add up to the quote exactly
+      const quoteTotalCents = Math.round(parseFloat(quote.total) * 100);
+      const quoteSubtotalCents = Math.round(parseFloat(quote.subtotal) * 100);
+      const billedCents = Math.round(await this.getQuoteBilledTotal(quoteId, tx) * 100);
+
+      const totalPercentage = installments.reduce((sum, i) => sum + i.percentage, 0);
+      let allocatedCents = 0;
+      const amounts = installments.map((installment, index) => {
+        const isLastOfFullSchedule = index === installments.length - 1 && Math.abs(totalPercentage - 100) < 0.001;
+        const cents = isLastOfFullSchedule
+          ? quoteTotalCents - allocatedCents
+          : Math.round(quoteTotalCents * installment.percentage / 100);
+        allocatedCents += cents;
+        return cents;
+      });
+
+      if (billedCents + allocatedCents > quoteTotalCents) {
+        const remaining = Math.max(0, quoteTotalCents - billedCents) / 100;
+        throw new InvalidRequestError(`These invoices would exceed the quote total. Remaining to bill: $${remaining.toFixed(2)}`);
+      }
+
+      const quoteItems = Array.isArray(quote.items) ? (quote.items as any[]) : [];
+      const created: Invoice[] = [];
+
+      for (let index = 0; index < installments.length; index++) {
+        const installment = installments[index];
+        const totalCents = amounts[index];
+        const isFull = Math.abs(installment.percentage - 100) < 0.001;
+        const ratio = installment.percentage / 100;
+
+        const subtotalCents = isFull ? quoteSubtotalCents : Math.round(quoteSubtotalCents * ratio);
+        const items = isFull
+          ? quoteItems
+          : quoteItems.map(item => ({
+              ...item,
+              description: `${installment.percentage}% of quoted line${item.description ? ` - ${item.description}` : ''}`,
+              total: Math.round(parseFloat(String(item.total ?? 0)) * ratio * 100) / 100,
+            }));
+
+        const label = installment.label || (isFull ? undefined : `${installment.percentage}% of quote ${quote.quoteNumber}`);
+        const notes = [label, quote.notes].filter(Boolean).join('\n\n') || null;
+
+        const [invoice] = await tx.insert(invoices).values({
+          invoiceNumber: await this.generateInvoiceNumber(tx),
+          quoteId: quote.id,
+          leadId: quote.leadId,
+          clientId: quote.clientId,
+          projectId: quote.projectId,
+          createdById,
+          status: 'draft',
+          items,
+          subtotal: (subtotalCents / 100).toFixed(2),
+          taxRate: quote.taxRate,
+          taxAmount: ((totalCents - subtotalCents) / 100).toFixed(2),
+          total: (totalCents / 100).toFixed(2),
+          percentageOfQuote: installment.percentage.toFixed(2),
+          amountPaid: '0',
+          balanceDue: (totalCents / 100).toFixed(2),
+          paymentStatus: totalCents <= 0 ? 'paid' : 'unpaid',
+          dueDate: installment.dueDate ? new Date(installment.dueDate) : null,
+          notes,
+          termsAndConditions: quote.termsAndConditions,
+        }).returning();
+        created.push(invoice);
+      }
+
+      return created;
+    });
+  }
+
+  // Invoice reminder operations
+  async getInvoicesAwaitingPayment(): Promise<(Invoice & { recipientName: string | null; recipientEmail: string | null })[]> {
+    const results = await db
+      .select({
+        ...getTableColumns(invoices),
+        clientName: clients.name,
+        clientEmail: clients.email,
+        leadName: leads.name,
+        leadEmail: leads.email,
+      })
+      .from(invoices)
+      .leftJoin(clients, eq(invoices.clientId, clients.id))
+      .leftJoin(leads, eq(invoices.leadId, leads.id))
+      .where(and(
+        inArray(invoices.status, ['sent', 'partial', 'overdue']),
+        ne(invoices.paymentStatus, 'paid'),
+        isNotNull(invoices.dueDate),
+      ));
+
+    return results.map(r => {
+      const { clientName, clientEmail, leadName, leadEmail, ...invoice } = r;
+      return {
+        ...invoice,
+        recipientName: clientName || leadName || null,
+        recipientEmail: clientEmail || leadEmail || null,
+      };
+    });
+  }
+
+  async markInvoiceOverdue(id: string): Promise<Invoice | undefined> {
+    const [result] = await db
+      .update(invoices)
+      .set({ status: 'overdue', updatedAt: new Date() })
+      .where(and(eq(invoices.id, id), inArray(invoices.status, ['sent', 'partial'])))
+      .returning();
+    return result;
+  }
+
+  // Issues a draft that was emailed with the given share link
+  async markInvoiceSent(id: string, shareLink: ShareLink): Promise<Invoice | undefined> {
+    const [result] = await db
+      .update(invoices)
+      .set({ status: 'sent', shareToken: shareLink.token, shareTokenCreatedAt: shareLink.createdAt, updatedAt: new Date() })
+      .where(and(eq(invoices.id, id), eq(invoices.status, 'draft')))
+      .returning();
+    return result;
+  }
+
+  async setInvoiceRemindersPaused(id: string, paused: boolean): Promise<Invoice | undefined> {
+    const [result] = await db
+      .update(invoices)
+      .set({ remindersPaused: paused, updatedAt: new Date() })
+      .where(eq(invoices.id, id))
+      .returning();
+    return result;
+  }
+
+  async getInvoiceReminders(invoiceId: string): Promise<InvoiceReminder[]> {
+    return db.select().from(invoiceReminders)
+      .where(eq(invoiceReminders.invoiceId, invoiceId))
+      .orderBy(desc(invoiceReminders.sentAt));
+  }
+
+  // Returns undefined when this cadence step was already recorded for the invoice
+  async recordInvoiceReminder(reminder: InsertInvoiceReminder): Promise<InvoiceReminder | undefined> {
+    const [result] = await db
+      .insert(invoiceReminders)
+      .values(reminder)
+      .onConflictDoNothing({ target: [invoiceReminders.invoiceId, invoiceReminders.offsetDays] })
+      .returning();
+    return result;
+  }
+
+  async deleteInvoiceReminder(id: string): Promise<void> {
+    await db.delete(invoiceReminders).where(eq(invoiceReminders.id, id));
+  }
+
+  // Share link operations
+  async createShareLink(data: InsertShareLink): Promise<ShareLink> {
+    const [link] = await db.insert(shareLinks).values(data).returning();
+    return link;
+  }
+
+  async getShareLink(id: string): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.id, id));
+    return link;
+  }
+
+  async getShareLinks(entityType: ShareLinkEntityType, entityId: string): Promise<(ShareLink & { viewCount: number; lastViewedAt: Date | null })[]> {
+    const results = await db
+      .select({
+        ...getTableColumns(shareLinks),
+        viewCount: sql<number>`count(${shareLinkViews.id})::int`,
+        lastViewedAt: sql<Date | null>`max(${shareLinkViews.viewedAt})`.mapWith(shareLinkViews.viewedAt),
+      })
+      .from(shareLinks)
+      .leftJoin(shareLinkViews, eq(shareLinkViews.shareLinkId, shareLinks.id))
+      .where(and(eq(shareLinks.entityType, entityType), eq(shareLinks.entityId, entityId)))
+      .groupBy(shareLinks.id)
+      .orderBy(desc(shareLinks.createdAt));
+    return results;
+  }
+
+  async revokeShareLink(id: string, revokedById: string): Promise<ShareLink | undefined> {
+    return db.transaction(async (tx) => {
+      const [link] = await tx
+        .update(shareLinks)
+        .set({ revokedAt: new Date(), revokedById })
+        .where(and(eq(shareLinks.id, id), isNull(shareLinks.revokedAt)))
+        .returning();
+      if (!link) {
+        return undefined;
+      }
+
+      // The document keeps a copy of its latest token; clear it so nothing keeps handing out a dead link
+      const cleared = { shareToken: null, shareTokenCreatedAt: null };
+      switch (link.entityType) {
+        case 'quote':
+          await tx.update(quotes).set(cleared).where(and(eq(quotes.id, link.entityId), eq(quotes.shareToken, link.token)));
+          break;
+        case 'invoice':
+          await tx.update(invoices).set(cleared).where(and(eq(invoices.id, link.entityId), eq(invoices.shareToken, link.token)));
+          break;
+        case 'project':
+          await tx.update(projects).set(cleared).where(and(eq(projects.id, link.entityId), eq(projects.shareToken, link.token)));
+          break;
+        case 'ticket':
+          await tx.update(tickets).set(cleared).where(and(eq(tickets.id, link.entityId), eq(tickets.shareToken, link.token)));
+          break;
+      }
+      return link;
+    });
+  }
+
+  async resolveShareLink(entityType: ShareLinkEntityType, token: string, now: Date = new Date()): Promise<ShareLinkResolution> {
+    let [link]: (ShareLink | undefined)[] = await db.select().from(shareLinks).where(eq(shareLinks.token, token));
+    if (!link) {
+      link = await this.adoptLegacyShareToken(entityType, token);
+    }
+    if (!link || link.entityType !== entityType) {
+      return { status: 'not_found' };
+    }
+    if (link.revokedAt) {
+      return { status: 'revoked' };
+    }
+    if (link.expiresAt && link.expiresAt.getTime() <= now.getTime()) {
+      return { status: 'expired' };
+    }
+    return { status: 'active', entityId: link.entityId, shareLinkId: link.id };
+  }
+
+  // Moves a token stored on the document itself into share_links so it can be revoked and its views logged
+  private async adoptLegacyShareToken(entityType: ShareLinkEntityType, token: string): Promise<ShareLink | undefined> {
+    let legacy: { id: string; shareTokenCreatedAt: Date | null } | undefined;
+    switch (entityType) {
+      case 'quote':
+        legacy = await this.getQuoteByShareToken(token);
+        break;
+      case 'invoice':
+        legacy = await this.getInvoiceByShareToken(token);
+        break;
+      case 'project':
+        legacy = await this.getProjectByShareToken(token);
+        break;
+      case 'ticket':
+        legacy = await this.getTicketByShareToken(token);
+        break;
+    }
+    if (!legacy) {
+      return undefined;
+    }
+
+    await db
+      .insert(shareLinks)
+      .values({
+        entityType,
+        entityId: legacy.id,
+        token,
+        expiresAt: legacy.shareTokenCreatedAt
+          ? new Date(legacy.shareTokenCreatedAt.getTime() + LEGACY_SHARE_LINK_TTL_MS)
+          : null,
+        createdAt: legacy.shareTokenCreatedAt ?? new Date(),
+      })
+      .onConflictDoNothing({ target: shareLinks.token });
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.token, token));
+    return link;
+  }
+
+  async recordShareLinkView(view: InsertShareLinkView): Promise<void> {
+    await db.insert(shareLinkViews).values(view);
+  }
+
+  async getShareLinkViews(shareLinkId: string): Promise<ShareLinkView[]> {
+    return db.select().from(shareLinkViews)
+      .where(eq(shareLinkViews.shareLinkId, shareLinkId))
+      .orderBy(desc(shareLinkViews.viewedAt));
+  }
+
+  // Invoice payment operations
+  async getInvoicePayments(invoiceId: string): Promise<InvoicePayment[]> {
+    return db.select().from(invoicePayments)
+      .where(eq(invoicePayments.invoiceId, invoiceId))
+      .orderBy(desc(invoicePayments.receivedAt));
+  }
+
+  async getInvoicePayment(id: string): Promise<InvoicePayment | undefined> {
+    const [payment] = await db.select().from(invoicePayments).where(eq(invoicePayments.id, id));
+    return payment;
+  }
+
+  async getInvoicePaymentByRevenueId(revenueId: string): Promise<InvoicePayment | undefined> {
+    const [payment] = await db.select().from(invoicePayments).where(eq(invoicePayments.revenueId, revenueId));
+    return payment;
+  }
+
+  async recordInvoicePayment(invoiceId: string, data: InsertInvoicePaymentType, recordedById: string): Promise<{ payment: InvoicePayment; invoice: Invoice }> {
+    return db.transaction(async (tx) => {
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for('update');
+      if (!invoice) {
+        throw new NotFoundError('Invoice not found');
+      }
+      if (invoice.status === 'cancelled') {
+        throw new InvalidRequestError('Cannot record a payment against a cancelled invoice');
+      }
+
+      // Checked under the row lock so two concurrent payments can't both fit in the same balance
+      if (parseFloat(data.amount) > parseFloat(invoice.balanceDue) + 0.005) {
+        throw new InvalidRequestError(`Payment exceeds the balance due of ${invoice.balanceDue}`);
+      }
+
+      await this.recordOpeningInvoicePayment(tx, invoice, recordedById);
+
+      const { revenueSource, ...paymentData } = data;
+      const receivedAt = paymentData.receivedAt || new Date();
+
+      // Every payment is mirrored as a revenue row so financial metrics need no separate entry
+      const [revenueRow] = await tx.insert(revenue).values({
+        date: receivedAt,
+        source: revenueSource || 'service',
+        amount: paymentData.amount,
+        description: `Payment for invoice ${invoice.invoiceNumber}`,
+        clientId: invoice.clientId,
+        invoiceId: invoice.id,
+        createdById: recordedById,
+      }).returning();
+
+      const [payment] = await tx.insert(invoicePayments).values({
+        ...paymentData,
+        invoiceId,
+        receivedAt,
+        revenueId: revenueRow.id,
+        recordedById,
+      }).returning();
+
+      const updatedInvoice = await this.recalculateInvoicePayments(tx, invoice);
+      return { payment, invoice: updatedInvoice };
+    });
+  }
+
+  async voidInvoicePayment(id: string, voidedById: string, reason: string): Promise<{ payment: InvoicePayment; invoice: Invoice } | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(invoicePayments).where(eq(invoicePayments.id, id)).for('update');
+      if (!existing) {
+        return undefined;
+      }
+
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, existing.invoiceId)).for('update');
+
+      const [payment] = await tx.update(invoicePayments)
+        .set({
+          voidedAt: new Date(),
+          voidedById,
+          voidReason: reason,
+          revenueId: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(invoicePayments.id, id))
+        .returning();
+
+      if (existing.revenueId) {
+        await tx.delete(revenue).where(eq(revenue.id, existing.revenueId));
+      }
+
+      const updatedInvoice = await this.recalculateInvoicePayments(tx, invoice);
+      return { payment, invoice: updatedInvoice };
+    });
+  }
+
+  // Invoices paid before the payment ledger existed only carry amountPaid; the first ledger entry
+  // brings that amount across as an opening row so recalculating from the ledger doesn't lose it.
+  // No revenue row is created for it, since the original payment was recorded on its own.
+  private async recordOpeningInvoicePayment(tx: DbTransaction, invoice: Invoice, recordedById: string): Promise<void> {
+    const legacyPaid = parseFloat(invoice.amountPaid || '0');
+    if (legacyPaid <= 0) {
+      return;
+    }
+    const [existing] = await tx.select({ id: invoicePayments.id }).from(invoicePayments)
+      .where(eq(invoicePayments.invoiceId, invoice.id))
+      .limit(1);
+    if (existing) {
+      return;
+    }
+    await tx.insert(invoicePayments).values({
+      invoiceId: invoice.id,
+      amount: legacyPaid.toFixed(2),
+      method: 'other',
+      receivedAt: invoice.updatedAt ?? invoice.createdAt ?? new Date(),
+      notes: 'Opening balance: amount paid before payments were itemised',
+      recordedById,
+    });
+  }
+
+  // Derive amountPaid/balanceDue/paymentStatus/status from the non-voided payments
+  private async recalculateInvoicePayments(tx: DbTransaction, invoice: Invoice): Promise<Invoice> {
+    const [totals] = await tx.select({
+      paid: sql<string>`COALESCE(SUM(${invoicePayments.amount}::numeric), 0)`
+    }).from(invoicePayments)
+      .where(and(eq(invoicePayments.invoiceId, invoice.id), isNull(invoicePayments.voidedAt)));
+
+    const amountPaid = Number(totals?.paid || 0);
+    const balanceDue = parseFloat(invoice.total) - amountPaid;
+
+    let paymentStatus: Invoice['paymentStatus'];
+    if (balanceDue <= 0) {
+      paymentStatus = 'paid';
+    } else if (amountPaid > 0) {
+      paymentStatus = 'partial';
+    } else {
+      paymentStatus = 'unpaid';
+    }
+
+    const [updated] = await tx.update(invoices)
+      .set({
+        amountPaid: amountPaid.toFixed(2),
+        balanceDue: balanceDue.toFixed(2),
+        paymentStatus,
+        status: invoiceStatusForPayments(invoice.status, paymentStatus),
+        updatedAt: new Date(),
+      })
+      .where(eq(invoices.id, invoice.id))
+      .returning();
+    return updated;
+  }
+
+  // Legal Documents operations
+  async getLegalDocuments(): Promise<LegalDocuments | undefined> {
+    const [docs] = await db.select().from(legalDocuments).limit(1);
+    return docs;
+  }
+
+  async updateLegalDocuments(updates: UpdateLegalDocumentsType): Promise<LegalDocuments> {
+    const existing = await this.getLegalDocuments();
+    
+    if (existing) {
+      const [result] = await db
+        .update(legalDocuments)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(legalDocuments.id, existing.id))
+        .returning();
+      return result;
+    } else {
+      const [result] = await db
+        .insert(legalDocuments)
+        .values({ ...updates, updatedAt: new Date() })
+        .returning();
+      return result;
+    }
+  }
+
+  // Custom Legal Documents operations
+  async createCustomLegalDocument(data: InsertCustomLegalDocumentType): Promise<CustomLegalDocument> {
+    const [result] = await db.insert(customLegalDocuments).values(data).returning();
+    return result;
+  }
+
+  async getCustomLegalDocuments(): Promise<CustomLegalDocument[]> {
+    return db.select().from(customLegalDocuments).orderBy(desc(customLegalDocuments.createdAt));
+  }
+
+  async getCustomLegalDocument(id: string): Promise<CustomLegalDocument | undefined> {
+    const [result] = await db.select().from(customLegalDocuments).where(eq(customLegalDocuments.id, id));
+    return result;
+  }
+
+  async updateCustomLegalDocument(id: string, updates: UpdateCustomLegalDocumentType): Promise<CustomLegalDocument | undefined> {
+    const [result] = await db
+      .update(customLegalDocuments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(customLegalDocuments.id, id))
+      .returning();
+    return result;
+  }
+
+  async deleteCustomLegalDocument(id: string): Promise<void> {
+    await db.delete(customLegalDocuments).where(eq(customLegalDocuments.id, id));
+  }
+
+  // Rate Type operations
+  async createRateType(data: InsertRateTypeType): Promise<RateType> {
+    const [result] = await db.insert(rateTypes).values(data).returning();
+    
+    // Automatically create a service_rate record for this rate type
+    await db.insert(serviceRates).values({
+      rateTypeId: result.id,
+      regularRate: null,
+      afterHoursRate: null,
+      holidayRate: null,
+      notes: null,
+    });
+    
+    return result;
+  }
+
+  async getRateTypes(): Promise<RateType[]> {
+    return db.select().from(rateTypes).orderBy(asc(rateTypes.displayOrder));
+  }
+
+  async updateRateType(id: string, updates: UpdateRateTypeType): Promise<RateType | undefined> {
+    const [result] = await db
+      .update(rateTypes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(rateTypes.id, id))
+      .returning();
+    return result;
+  }
+
+  async deleteRateType(id: string): Promise<void> {
+    await db.delete(rateTypes).where(eq(rateTypes.id, id));
+  }
+
+  // Service Rate operations
+  async createServiceRate(data: InsertServiceRateType): Promise<ServiceRate> {
+    const cleanedData = {
+      ...data,
+      regularRate: data.regularRate === undefined ? null : data.regularRate,
+      afterHoursRate: data.afterHoursRate === undefined ? null : data.afterHoursRate,
+      holidayRate: data.holidayRate === undefined ? null : data.holidayRate,
+    };
+    const [result] = await db.insert(serviceRates).values(cleanedData).returning();
+    return result;
+  }
+
+  async getServiceRates(): Promise<ServiceRate[]> {
+    return db.select().from(serviceRates);
+  }
+
+  async getServiceRateByRateTypeId(rateTypeId: string): Promise<ServiceRate | undefined> {
+    const [result] = await db
+      .select()
+      .from(serviceRates)
+      .where(eq(serviceRates.rateTypeId, rateTypeId));
+    return result;
+  }
+
+  async updateServiceRate(id: string, updates: UpdateServiceRateType): Promise<ServiceRate | undefined> {
+    const cleanedUpdates = {
+      ...updates,
+      regularRate: updates.regularRate === undefined ? null : updates.regularRate,
+      afterHoursRate: updates.afterHoursRate === undefined ? null : updates.afterHoursRate,
+      holidayRate: updates.holidayRate === undefined ? null : updates.holidayRate,
+      updatedAt: new Date()
+    };
+    const [result] = await db
+      .update(serviceRates)
+      .set(cleanedUpdates)
+      .where(eq(serviceRates.id, id))
+      .returning();
+    return result;
+  }
+
+  async deleteServiceRate(id: string): Promise<void> {
+    await db.delete(serviceRates).where(eq(serviceRates.id, id));
+  }
+
+  // Support Plan operations
+  async createSupportPlan(data: InsertSupportPlanType): Promise<SupportPlan> {
+    const cleanedData = {
+      ...data,
+      rate: data.rate === undefined ? null : data.rate,
+    };
+    const [result] = await db.insert(supportPlans).values(cleanedData).returning();
+    return result;
+  }
+
+  async getSupportPlans(): Promise<SupportPlan[]> {
+    return db.select().from(supportPlans).orderBy(desc(supportPlans.createdAt));
+  }
+
+  async updateSupportPlan(id: string, updates: UpdateSupportPlanType): Promise<SupportPlan | undefined> {
+    const cleanedUpdates = {
+      ...updates,
+      rate: updates.rate === undefined ? null : updates.rate,
+      updatedAt: new Date()
+    };
+    const [result] = await db
+      .update(supportPlans)
+      .set(cleanedUpdates)
+      .where(eq(supportPlans.id, id))
+      .returning();
+    return result;
+  }
+
+  async deleteSupportPlan(id: string): Promise<void> {
+    const [subscription] = await db.select({ id: supportSubscriptions.id })
+      .from(supportSubscriptions)
+      .where(eq(supportSubscriptions.planId, id))
+      .limit(1);
+    if (subscription) {
+      throw new ConflictError('This plan has client subscriptions and cannot be deleted');
+    }
+    await db.delete(supportPlans).where(eq(supportPlans.id, id));
+  }
+
+  // Support subscription operations
+  async getSupportSubscriptions(filters?: { clientId?: string; status?: SupportSubscription['status'] }): Promise<SupportSubscriptionDetail[]> {
+    const conditions = [];
+    if (filters?.clientId) {
+      conditions.push(eq(supportSubscriptions.clientId, filters.clientId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(supportSubscriptions.status, filters.status));
+    }
+    return this.supportSubscriptionRows(conditions);
+  }
+
+  async getSupportSubscription(id: string): Promise<SupportSubscriptionDetail | undefined> {
+    const [subscription] = await this.supportSubscriptionRows([eq(supportSubscriptions.id, id)]);
+    return subscription;
+  }
+
+  async createSupportSubscription(data: InsertSupportSubscriptionType, createdById: string): Promise<SupportSubscription> {
+    const [plan] = await db.select().from(supportPlans).where(eq(supportPlans.id, data.planId));
+    if (!plan) {
+      throw new NotFoundError('Support plan not found');
+    }
+    const intervalMonths = planIntervalMonths(plan);
+    if (!intervalMonths) {
+      throw new InvalidRequestError('Only recurring support plans can be subscribed to');
+    }
+    if (data.priceOverride == null && plan.rate == null) {
+      throw new InvalidRequestError('The plan has no rate, so a price is required');
+    }
+    const [client] = await db.select({ id: clients.id }).from(clients).where(eq(clients.id, data.clientId));
+    if (!client) {
+      throw new NotFoundError('Client not found');
+    }
+
+    const billingAnchor = data.billingAnchor ?? data.startDate;
+    if (billingAnchor < data.startDate || billingAnchor >= addCalendarMonths(data.startDate, intervalMonths)) {
+      throw new InvalidRequestError('Billing anchor must fall within the first billing period');
+    }
+
+    const [result] = await db.insert(supportSubscriptions).values({
+      clientId: data.clientId,
+      planId: plan.id,
+      intervalMonths,
+      priceOverride: data.priceOverride ?? null,
+      taxRate: (data.taxRate ?? 0).toString(),
+      startDate: data.startDate,
+      billingAnchor,
+      nextBillingAt: data.startDate,
+      autoSend: data.autoSend ?? false,
+      paymentTermsDays: data.paymentTermsDays ?? 14,
+      createdById,
+    }).returning();
+    return result;
+  }
+
+  async updateSupportSubscription(id: string, updates: UpdateSupportSubscriptionType, now: Date = new Date()): Promise<SupportSubscription> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(supportSubscriptions).where(eq(supportSubscriptions.id, id)).for('update');
+      if (!current) {
+        throw new NotFoundError('Subscription not found');
+      }
+      if (current.status === 'cancelled') {
+        throw new ConflictError('This subscription has been cancelled');
+      }
+
+      const [currentPlan] = await tx.select().from(supportPlans).where(eq(supportPlans.id, current.planId));
+      let plan = currentPlan;
+      if (updates.planId && updates.planId !== current.planId) {
+        [plan] = await tx.select().from(supportPlans).where(eq(supportPlans.id, updates.planId));
+        if (!plan) {
+          throw new NotFoundError('Support plan not found');
+        }
+        if (planIntervalMonths(plan) !== current.intervalMonths) {
+          throw new InvalidRequestError('The new plan must have the same billing period');
+        }
+      }
+
+      const priceOverride = updates.priceOverride !== undefined ? updates.priceOverride : current.priceOverride;
+      if (priceOverride == null && plan.rate == null) {
+        throw new InvalidRequestError('The plan has no rate, so a price is required');
+      }
+
+      // The current period was billed in advance at the old price, so charge or credit the difference
+      // for the time left in it on the next invoice
+      const pendingAdjustments = [...(current.pendingAdjustments as SubscriptionLineItem[])];
+      const oldPrice = subscriptionPrice(current, currentPlan);
+      const newPrice = subscriptionPrice({ priceOverride }, plan);
+      if (current.currentPeriodStart && current.currentPeriodEnd
+        && current.currentPeriodStart <= now && current.currentPeriodEnd > now) {
+        const remainingMs = current.currentPeriodEnd.getTime() - now.getTime();
+        const fraction = remainingMs / subscriptionPeriodMs(current, current.currentPeriodStart, current.currentPeriodEnd);
+        const cents = Math.round((newPrice - oldPrice) * fraction * 100);
+        if (cents !== 0) {
+          const days = Math.ceil(remainingMs / DAY_MS);
+          pendingAdjustments.push(subscriptionLine(
+            'Proration',
+            `${currentPlan.name} at $${oldPrice.toFixed(2)} changed to ${plan.name} at $${newPrice.toFixed(2)} ` +
+              `with ${days} day${days === 1 ? '' : 's'} left in the period ending ${formatBillingDate(current.currentPeriodEnd)}`,
+            cents,
+          ));
+        }
+      }
+
+      const [result] = await tx.update(supportSubscriptions)
+        .set({
+          planId: plan.id,
+          priceOverride,
+          taxRate: updates.taxRate !== undefined ? updates.taxRate.toString() : current.taxRate,
+          autoSend: updates.autoSend ?? current.autoSend,
+          paymentTermsDays: updates.paymentTermsDays ?? current.paymentTermsDays,
+          cancelAtPeriodEnd: updates.cancelAtPeriodEnd ?? current.cancelAtPeriodEnd,
+          pendingAdjustments,
+          updatedAt: new Date(),
+        })
+        .where(eq(supportSubscriptions.id, id))
+        .returning();
+      return result;
+    });
+  }
+
+  async cancelSupportSubscription(id: string, data: CancelSupportSubscriptionType, now: Date = new Date()): Promise<SupportSubscription> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(supportSubscriptions).where(eq(supportSubscriptions.id, id)).for('update');
+      if (!current) {
+        throw new NotFoundError('Subscription not found');
+      }
+      if (current.status === 'cancelled') {
+        throw new ConflictError('This subscription has been cancelled');
+      }
+
+      // Until the first period is billed there is nothing to run out, so cancellation is immediate
+      const inPaidPeriod = !!current.currentPeriodEnd && current.currentPeriodEnd > now;
+      const [result] = await tx.update(supportSubscriptions)
+        .set(data.atPeriodEnd && inPaidPeriod
+          ? { cancelAtPeriodEnd: true, cancellationReason: data.reason || null, updatedAt: new Date() }
+          : {
+              status: 'cancelled',
+              cancelAtPeriodEnd: false,
+              cancelledAt: now,
+              cancellationReason: data.reason || null,
+              updatedAt: new Date(),
+            })
+        .where(eq(supportSubscriptions.id, id))
+        .returning();
+      return result;
+    });
+  }
+
+  async getSubscriptionInvoices(subscriptionId: string): Promise<Invoice[]> {
+    return db.select().from(invoices)
+      .where(eq(invoices.subscriptionId, subscriptionId))
+      .orderBy(desc(invoices.subscriptionPeriodStart));
+  }
+
+  async getSupportSubscriptionsDueForBilling(now: Date): Promise<SupportSubscriptionDetail[]> {
+    return this.supportSubscriptionRows([eq(supportSubscriptions.status, 'active'), lte(supportSubscriptions.nextBillingAt, now)]);
+  }
+
+  // Invoices the next period in advance, or ends a subscription whose cancellation was due.
+  // Returns undefined once nothing is due, so the billing run can call this until it catches up.
+  async billSupportSubscription(id: string, now: Date): Promise<SubscriptionBillingResult | undefined> {
+    return db.transaction(async (tx) => {
+      const [subscription] = await tx.select().from(supportSubscriptions).where(eq(supportSubscriptions.id, id)).for('update');
+      if (!subscription || subscription.status !== 'active' || subscription.nextBillingAt > now) {
+        return undefined;
+      }
+
+      if (subscription.cancelAtPeriodEnd) {
+        // Proration from plan changes in the last period is settled on a closing invoice, or a credit if it's negative
+        const adjustments = subscription.pendingAdjustments as SubscriptionLineItem[];
+        const invoice = adjustments.length > 0
+          ? await this.insertSubscriptionInvoice(tx, subscription, adjustments, subscription.nextBillingAt, now,
+              `Closing adjustments on cancellation, ${formatBillingDate(subscription.nextBillingAt)}`)
+          : undefined;
+        const [cancelled] = await tx.update(supportSubscriptions)
+          .set({
+            status: 'cancelled',
+            cancelAtPeriodEnd: false,
+            cancelledAt: subscription.nextBillingAt,
+            pendingAdjustments: [],
+            updatedAt: new Date(),
+          })
+          .where(eq(supportSubscriptions.id, id))
+          .returning();
+        return { subscription: cancelled, invoice, renewal: false, cancelled: true };
+      }
+
+      const [plan] = await tx.select().from(supportPlans).where(eq(supportPlans.id, subscription.planId));
+      const periodStart = subscription.nextBillingAt;
+      const periodEnd = nextIntervalBoundary(subscription.billingAnchor, subscription.intervalMonths, periodStart);
+      const periodMs = subscriptionPeriodMs(subscription, periodStart, periodEnd);
+      const billedMs = periodEnd.getTime() - periodStart.getTime();
+      const priceCents = Math.round(subscriptionPrice(subscription, plan) * 100 * billedMs / periodMs);
+
+      const lastDay = new Date(periodEnd.getTime() - DAY_MS);
+      const period = `${formatBillingDate(periodStart)} - ${formatBillingDate(lastDay)}`;
+      const items: SubscriptionLineItem[] = [
+        subscriptionLine(
+          plan.name,
+          billedMs < periodMs
+            ? `Support plan, ${period} (prorated ${Math.round(billedMs / DAY_MS)} of ${Math.round(periodMs / DAY_MS)} days)`
+            : `Support plan, ${period}`,
+          priceCents,
+        ),
+        ...(subscription.pendingAdjustments as SubscriptionLineItem[]),
+      ];
+
+      // A credit bigger than the period's charge is carried forward rather than raised as a negative invoice
+      const subtotalCents = subscriptionLinesCents(items);
+      const carried: SubscriptionLineItem[] = [];
+      if (subtotalCents < 0) {
+        items.push(subscriptionLine('Credit carried forward', 'Applied to the next invoice', -subtotalCents));
+        carried.push(subscriptionLine('Credit brought forward', `From the invoice for ${period}`, subtotalCents));
+      }
+      const invoice = await this.insertSubscriptionInvoice(tx, subscription, items, periodStart, now, `${plan.name} support plan, ${period}`);
+
+      const [renewed] = await tx.update(supportSubscriptions)
+        .set({
+          currentPeriodStart: periodStart,
+          currentPeriodEnd: periodEnd,
+          nextBillingAt: periodEnd,
+          pendingAdjustments: carried,
+          updatedAt: new Date(),
+        })
+        .where(eq(supportSubscriptions.id, id))
+        .returning();
+      return { subscription: renewed, invoice, renewal: subscription.currentPeriodEnd !== null, cancelled: false };
+    });
+  }
+
+  // Raised as a draft; the billing run sends it when the subscription is set to send invoices automatically.
+  // Only a closing credit on cancellation can come out negative.
+  private async insertSubscriptionInvoice(
+    tx: DbTransaction,
+    subscription: SupportSubscription,
+    items: SubscriptionLineItem[],
+    periodStart: Date,
+    now: Date,
+    notes: string,
+  ): Promise<Invoice> {
+    const subtotalCents = subscriptionLinesCents(items);
+    const taxCents = Math.round(subtotalCents * parseFloat(subscription.taxRate) / 100);
+    const totalCents = subtotalCents + taxCents;
+
+    const [invoice] = await tx.insert(invoices).values({
+      invoiceNumber: await this.generateInvoiceNumber(tx),
+      clientId: subscription.clientId,
+      createdById: subscription.createdById,
+      status: 'draft',
+      items,
+      subtotal: (subtotalCents / 100).toFixed(2),
+      taxRate: subscription.taxRate,
+      taxAmount: (taxCents / 100).toFixed(2),
+      total: (totalCents / 100).toFixed(2),
+      amountPaid: '0',
+      balanceDue: (totalCents / 100).toFixed(2),
+      paymentStatus: totalCents === 0 ? 'paid' : 'unpaid',
+      dueDate: new Date(now.getTime() + subscription.paymentTermsDays * DAY_MS),
+      notes,
+      subscriptionId: subscription.id,
+      subscriptionPeriodStart: periodStart,
+    }).returning();
+    return invoice;
+  }
+
+  // Recurring revenue from active subscriptions, normalised to a month whatever the billing period
+  async getRecurringRevenueMetrics(): Promise<RecurringRevenueMetrics> {
+    const active = await this.getSupportSubscriptions({ status: 'active' });
+    const byPlan = new Map<string, RecurringRevenueMetrics['byPlan'][number]>();
+    let mrr = 0;
+    let cancellingMrr = 0;
+
+    for (const subscription of active) {
+      const monthly = subscription.price / subscription.intervalMonths;
+      mrr += monthly;
+      if (subscription.cancelAtPeriodEnd) {
+        cancellingMrr += monthly;
+      }
+      const plan = byPlan.get(subscription.planId)
+        ?? { planId: subscription.planId, planName: subscription.planName, subscriptions: 0, mrr: 0 };
+      plan.subscriptions++;
+      plan.mrr += monthly;
+      byPlan.set(subscription.planId, plan);
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    return {
+      mrr: round(mrr),
+      arr: round(mrr * 12),
+      activeSubscriptions: active.length,
+      cancellingMrr: round(cancellingMrr),
+      byPlan: Array.from(byPlan.values())
+        .map(plan => ({ ...plan, mrr: round(plan.mrr) }))
+        .sort((a, b) => b.mrr - a.mrr),
+    };
+  }
+
+  private async supportSubscriptionRows(conditions: ReturnType<typeof eq>[]): Promise<SupportSubscriptionDetail[]> {
+    const rows = await db
+      .select({
+        ...getTableColumns(supportSubscriptions),
+        clientName: clients.name,
+        planName: supportPlans.name,
+        planRate: supportPlans.rate,
+        billingPeriod: supportPlans.billingPeriod,
+      })
+      .from(supportSubscriptions)
+      .innerJoin(clients, eq(supportSubscriptions.clientId, clients.id))
+      .innerJoin(supportPlans, eq(supportSubscriptions.planId, supportPlans.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(clients.name), desc(supportSubscriptions.createdAt));
+
+    return rows.map(({ planRate, ...row }) => ({
+      ...row,
+      price: subscriptionPrice(row, { rate: planRate }),
+    }));
+  }
+
+  // Preventive maintenance operations
+  async getMaintenanceVisitTypes(includeInactive = false): Promise<MaintenanceVisitType[]> {
+    return db.select().from(maintenanceVisitTypes)
+      .where(includeInactive ? undefined : eq(maintenanceVisitTypes.isActive, true))
+      .orderBy(asc(maintenanceVisitTypes.name));
+  }
+
+  async createMaintenanceVisitType(data: InsertMaintenanceVisitTypeType): Promise<MaintenanceVisitType> {
+    const [result] = await db.insert(maintenanceVisitTypes).values(data).returning();
+    return result;
+  }
+
+  async updateMaintenanceVisitType(id: string, updates: UpdateMaintenanceVisitTypeType): Promise<MaintenanceVisitType | undefined> {
+    const [result] = await db.update(maintenanceVisitTypes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(maintenanceVisitTypes.id, id))
+      .returning();
+    return result;
+  }
+
+  async deleteMaintenanceVisitType(id: string): Promise<void> {
+    const [agreement] = await db.select({ id: maintenanceAgreements.id })
+      .from(maintenanceAgreements)
+      .where(eq(maintenanceAgreements.visitTypeId, id))
+      .limit(1);
+    if (agreement) {
+      throw new ConflictError('Visit type is used by maintenance agreements; deactivate it instead');
+    }
+    await db.delete(maintenanceVisitTypes).where(eq(maintenanceVisitTypes.id, id));
+  }
+
+  async getMaintenanceAgreements(filters?: { clientId?: string; status?: MaintenanceAgreement['status'] }): Promise<MaintenanceAgreementDetail[]> {
+    const conditions = [];
+    if (filters?.clientId) {
+      conditions.push(eq(maintenanceAgreements.clientId, filters.clientId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(maintenanceAgreements.status, filters.status));
+    }
+    return this.maintenanceAgreementRows(conditions);
+  }
+
+  async getMaintenanceAgreement(id: string): Promise<MaintenanceAgreementDetail | undefined> {
+    const [agreement] = await this.maintenanceAgreementRows([eq(maintenanceAgreements.id, id)]);
+    return agreement;
+  }
+
+  async createMaintenanceAgreement(data: InsertMaintenanceAgreementType, createdById: string, now: Date = new Date()): Promise<MaintenanceAgreement> {
+    const [client] = await db.select().from(clients).where(eq(clients.id, data.clientId));
+    if (!client) {
+      throw new NotFoundError('Client not found');
+    }
+    const [visitType] = await db.select().from(maintenanceVisitTypes).where(eq(maintenanceVisitTypes.id, data.visitTypeId));
+    if (!visitType) {
+      throw new NotFoundError('Visit type not found');
+    }
+
+    // The client's contract end applies unless the agreement says otherwise (null = open-ended)
+    const endDate = data.endDate !== undefined ? data.endDate : client.contractEndDate;
+    if (endDate && endDate < data.startDate) {
+      throw new InvalidRequestError('End date must be after the start date');
+    }
+
+    const [result] = await db.insert(maintenanceAgreements).values({
+      clientId: client.id,
+      visitTypeId: visitType.id,
+      siteName: data.siteName,
+      siteAddress: data.siteAddress || client.address,
+      intervalMonths: data.intervalMonths,
+      startDate: data.startDate,
+      endDate,
+      // A back-dated agreement starts from its next visit rather than catching up on the periods already past
+      nextDueDate: nextDueOnOrAfter(data.startDate, data.intervalMonths, data.startDate, now),
+      leadDays: data.leadDays ?? 14,
+      assignedToId: data.assignedToId || null,
+      notes: data.notes || null,
+      createdById,
+    }).returning();
+    return result;
+  }
+
+  async updateMaintenanceAgreement(id: string, updates: UpdateMaintenanceAgreementType, now: Date = new Date()): Promise<MaintenanceAgreement> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(maintenanceAgreements).where(eq(maintenanceAgreements.id, id)).for('update');
+      if (!current) {
+        throw new NotFoundError('Maintenance agreement not found');
+      }
+      if (updates.visitTypeId && updates.visitTypeId !== current.visitTypeId) {
+        const [visitType] = await tx.select({ id: maintenanceVisitTypes.id }).from(maintenanceVisitTypes)
+          .where(eq(maintenanceVisitTypes.id, updates.visitTypeId));
+        if (!visitType) {
+          throw new NotFoundError('Visit type not found');
+        }
+      }
+      const endDate = updates.endDate !== undefined ? updates.endDate : current.endDate;
+      if (endDate && endDate < current.startDate) {
+        throw new InvalidRequestError('End date must be after the start date');
+      }
+
+      let nextDueDate = current.nextDueDate;
+      const intervalMonths = updates.intervalMonths ?? current.intervalMonths;
+      if (intervalMonths !== current.intervalMonths) {
+        // Keep the visits already generated and pick up the new interval from the start date after the last of them
+        const [last] = await tx.select({ dueDate: maintenanceVisits.dueDate }).from(maintenanceVisits)
+          .where(eq(maintenanceVisits.agreementId, id))
+          .orderBy(desc(maintenanceVisits.dueDate))
+          .limit(1);
+        nextDueDate = last
+          ? nextIntervalBoundary(current.startDate, intervalMonths, last.dueDate)
+          : nextDueOnOrAfter(current.startDate, intervalMonths, current.startDate, now);
+      }
+      // Visits that fell due while the agreement was paused are skipped rather than generated late
+      if (current.status === 'paused' && updates.status === 'active') {
+        nextDueDate = nextDueOnOrAfter(current.startDate, intervalMonths, nextDueDate, now);
+      }
+
+      const [result] = await tx.update(maintenanceAgreements)
+        .set({
+          visitTypeId: updates.visitTypeId ?? current.visitTypeId,
+          siteName: updates.siteName ?? current.siteName,
+          siteAddress: updates.siteAddress !== undefined ? updates.siteAddress : current.siteAddress,
+          intervalMonths,
+          endDate,
+          nextDueDate,
+          leadDays: updates.leadDays ?? current.leadDays,
+          assignedToId: updates.assignedToId !== undefined ? updates.assignedToId : current.assignedToId,
+          status: updates.status ?? current.status,
+          notes: updates.notes !== undefined ? updates.notes : current.notes,
+          updatedAt: new Date(),
+        })
+        .where(eq(maintenanceAgreements.id, id))
+        .returning();
+      return result;
+    });
+  }
+
+  async getMaintenanceAgreementsDueForScheduling(now: Date): Promise<MaintenanceAgreementDetail[]> {
+    return this.maintenanceAgreementRows([
+      eq(maintenanceAgreements.status, 'active'),
+      sql`${maintenanceAgreements.nextDueDate} - (${maintenanceAgreements.leadDays} * interval '1 day') <= ${now}`,
+    ]);
+  }
+
+  // Generates the task and checklist for the agreement's next visit once it is within the lead time, or ends
+  // an agreement that has run past its end date. Returns undefined when nothing is due yet, so the scheduling
+  // run can call this until it catches up.
+  async scheduleMaintenanceVisit(agreementId: string, now: Date): Promise<MaintenanceSchedulingResult | undefined> {
+    return db.transaction(async (tx) => {
+      const [agreement] = await tx.select().from(maintenanceAgreements).where(eq(maintenanceAgreements.id, agreementId)).for('update');
+      if (!agreement || agreement.status !== 'active') {
+        return undefined;
+      }
+
+      if (agreement.endDate && agreement.nextDueDate > agreement.endDate) {
+        const [ended] = await tx.update(maintenanceAgreements)
+          .set({ status: 'ended', updatedAt: new Date() })
+          .where(eq(maintenanceAgreements.id, agreementId))
+          .returning();
+        return { agreement: ended };
+      }
+      if (agreement.nextDueDate.getTime() - agreement.leadDays * DAY_MS > now.getTime()) {
+        return undefined;
+      }
+
+      const [visitType] = await tx.select().from(maintenanceVisitTypes).where(eq(maintenanceVisitTypes.id, agreement.visitTypeId));
+      const checklist = (visitType.checklist as string[]).map((item): MaintenanceChecklistItem => ({ item, done: false }));
+      const description = [
+        `${agreement.siteName}${agreement.siteAddress ? `, ${agreement.siteAddress}` : ''}`,
+        visitType.description,
+        checklist.length > 0 ? `Checklist:\n${checklist.map(entry => `- ${entry.item}`).join('\n')}` : null,
+        agreement.notes,
+      ].filter(Boolean).join('\n\n');
+
+      const [task] = await tx.insert(tasks).values({
+        ticketNumber: await this.generateTicketNumber('TSK', tasks, tx),
+        title: `${visitType.name} - ${agreement.siteName}`,
+        description,
+        status: 'pending',
+        priority: 'medium',
+        assignedToId: agreement.assignedToId,
+        createdById: agreement.createdById,
+        dueDate: agreement.nextDueDate,
+      }).returning();
+
+      const [visit] = await tx.insert(maintenanceVisits).values({
+        agreementId: agreement.id,
+        taskId: task.id,
+        dueDate: agreement.nextDueDate,
+        checklist,
+      }).returning();
+
+      const [advanced] = await tx.update(maintenanceAgreements)
+        .set({
+          nextDueDate: nextIntervalBoundary(agreement.startDate, agreement.intervalMonths, agreement.nextDueDate),
+          updatedAt: new Date(),
+        })
+        .where(eq(maintenanceAgreements.id, agreementId))
+        .returning();
+      return { agreement: advanced, visit, task };
+    });
+  }
+
+  async getMaintenanceVisit(id: string): Promise<MaintenanceVisitDetail | undefined> {
+    const [visit] = await this.maintenanceVisitRows([eq(maintenanceVisits.id, id)]);
+    return visit;
   }
 
-  async getInvoiceByShareToken(token: string): Promise<Invoice | undefined> {
-    const [result] = await db.select().from(invoices).where(eq(invoices.shareToken, token));
-    return result;
+  async getMaintenanceVisits(filters: { agreementId?: string; assignedToId?: string; open?: boolean }): Promise<MaintenanceVisitDetail[]> {
+    const conditions = [];
+    if (filters.agreementId) {
+      conditions.push(eq(maintenanceVisits.agreementId, filters.agreementId));
+    }
+    if (filters.assignedToId) {
+      conditions.push(eq(tasks.assignedToId, filters.assignedToId));
+    }
+    if (filters.open) {
+      conditions.push(isNull(maintenanceVisits.completedAt), this.maintenanceVisitTaskOpen());
+    }
+    return this.maintenanceVisitRows(conditions);
   }
 
-  async updateInvoice(id: string, updates: UpdateInvoiceType): Promise<Invoice | undefined> {
-    // Get current invoice to recalculate balanceDue if needed
-    const current = await this.getInvoice(id);
+  // Visits past their due date that haven't been completed, oldest first
+  async getOverdueMaintenanceVisits(now: Date): Promise<MaintenanceVisitDetail[]> {
+    return this.maintenanceVisitRows([
+      isNull(maintenanceVisits.completedAt),
+      this.maintenanceVisitTaskOpen(),
+      sql`${maintenanceVisits.dueDate} < ${now}`,
+    ]);
+  }
+
+  async recordMaintenanceVisit(id: string, data: RecordMaintenanceVisitType): Promise<MaintenanceVisit> {
+    const [current] = await db.select().from(maintenanceVisits).where(eq(maintenanceVisits.id, id));
     if (!current) {
-      return undefined;
+      throw new NotFoundError('Maintenance visit not found');
     }
-    
-    // Prepare updated data with date transformation
-    const updatedData: any = {
-      ...updates,
-      dueDate: updates.dueDate ? new Date(updates.dueDate) : null,
-      updatedAt: new Date(),
-    };
-    
-    // Recalculate balanceDue if total or amountPaid changed
-    const newTotal = updates.total !== undefined ? updates.total : current.total;
-    const newAmountPaid = updates.amountPaid !== undefined ? updates.amountPaid : current.amountPaid;
-    updatedData.balanceDue = newTotal - newAmountPaid;
-    
-    // Update paymentStatus based on balance
-    if (updatedData.balanceDue <= 0) {
-      updatedData.paymentStatus = 'paid';
-    } else if (newAmountPaid > 0) {
-      updatedData.paymentStatus = 'partial';
-    } else {
-      updatedData.paymentStatus = 'unpaid';
+    if (current.completedAt) {
+      throw new ConflictError('This visit has been completed');
     }
-    
-    const [result] = await db
-      .update(invoices)
-      .set(updatedData)
-      .where(eq(invoices.id, id))
+
+    const existing = current.checklist as MaintenanceChecklistItem[];
+    if (data.checklist && (data.checklist.length !== existing.length
+      || data.checklist.some((entry, index) => entry.item !== existing[index].item))) {
+      throw new InvalidRequestError('Checklist does not match this visit');
+    }
+
+    const [result] = await db.update(maintenanceVisits)
+      .set({
+        checklist: data.checklist ?? existing,
+        notes: data.notes !== undefined ? data.notes : current.notes,
+        updatedAt: new Date(),
+      })
+      .where(eq(maintenanceVisits.id, id))
       .returning();
     return result;
   }
 
-  async deleteInvoice(id: string): Promise<void> {
-    await db.delete(invoices).where(eq(invoices.id, id));
+  async completeMaintenanceVisit(id: string, completedById: string, now: Date = new Date()): Promise<MaintenanceVisit> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(maintenanceVisits).where(eq(maintenanceVisits.id, id)).for('update');
+      if (!current) {
+        throw new NotFoundError('Maintenance visit not found');
+      }
+      if (current.completedAt) {
+        throw new ConflictError('This visit has been completed');
+      }
+      if ((current.checklist as MaintenanceChecklistItem[]).some(entry => !entry.done)) {
+        throw new InvalidRequestError('Tick every checklist item before completing the visit');
+      }
+
+      const [result] = await tx.update(maintenanceVisits)
+        .set({ completedAt: now, completedById, updatedAt: new Date() })
+        .where(eq(maintenanceVisits.id, id))
+        .returning();
+      if (current.taskId) {
+        await tx.update(tasks)
+          .set({ status: 'completed', completedAt: now, updatedAt: new Date() })
+          .where(eq(tasks.id, current.taskId));
+      }
+      return result;
+    });
   }
 
-  // Legal Documents operations
-  async getLegalDocuments(): Promise<LegalDocuments | undefined> {
-    const [docs] = await db.select().from(legalDocuments).limit(1);
-    return docs;
+  // A visit whose task was closed from the task list counts as done even without the checklist
+  private maintenanceVisitTaskOpen() {
+    return or(isNull(tasks.id), sql`${tasks.status} NOT IN ('completed', 'cancelled')`)!;
   }
 
-  async updateLegalDocuments(updates: UpdateLegalDocumentsType): Promise<LegalDocuments> {
-    const existing = await this.getLegalDocuments();
-    
-    if (existing) {
-      const [result] = await db
-        .update(legalDocuments)
-        .set({ ...updates, updatedAt: new Date() })
-        .where(eq(legalDocuments.id, existing.id))
-        .returning();
-      return result;
-    } else {
-      const [result] = await db
-        .insert(legalDocuments)
-        .values({ ...updates, updatedAt: new Date() })
-        .returning();
-      return result;
-    }
+  private async maintenanceAgreementRows(conditions: ReturnType<typeof eq>[]): Promise<MaintenanceAgreementDetail[]> {
+    const rows = await db
+      .select({
+        ...getTableColumns(maintenanceAgreements),
+        clientName: clients.name,
+        visitTypeName: maintenanceVisitTypes.name,
+        serviceType: maintenanceVisitTypes.serviceType,
+        assignedFirstName: users.firstName,
+        assignedLastName: users.lastName,
+        assignedEmail: users.email,
+      })
+      .from(maintenanceAgreements)
+      .innerJoin(clients, eq(maintenanceAgreements.clientId, clients.id))
+      .innerJoin(maintenanceVisitTypes, eq(maintenanceAgreements.visitTypeId, maintenanceVisitTypes.id))
+      .leftJoin(users, eq(maintenanceAgreements.assignedToId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(clients.name), asc(maintenanceAgreements.siteName));
+
+    return rows.map(({ assignedFirstName, assignedLastName, assignedEmail, ...row }) => ({
+      ...row,
+      assignedToName: [assignedFirstName, assignedLastName].filter(Boolean).join(' ') || assignedEmail,
+    }));
   }
 
-  // Custom Legal Documents operations
-  async createCustomLegalDocument(data: InsertCustomLegalDocumentType): Promise<CustomLegalDocument> {
-    const [result] = await db.insert(customLegalDocuments).values(data).returning();
-    return result;
+  private async maintenanceVisitRows(conditions: ReturnType<typeof eq>[]): Promise<MaintenanceVisitDetail[]> {
+    const rows = await db
+      .select({
+        ...getTableColumns(maintenanceVisits),
+        clientId: maintenanceAgreements.clientId,
+        clientName: clients.name,
+        siteName: maintenanceAgreements.siteName,
+        siteAddress: maintenanceAgreements.siteAddress,
+        visitTypeName: maintenanceVisitTypes.name,
+        taskNumber: tasks.ticketNumber,
+        taskStatus: tasks.status,
+        assignedToId: tasks.assignedToId,
+        assignedFirstName: users.firstName,
+        assignedLastName: users.lastName,
+        assignedEmail: users.email,
+      })
+      .from(maintenanceVisits)
+      .innerJoin(maintenanceAgreements, eq(maintenanceVisits.agreementId, maintenanceAgreements.id))
+      .innerJoin(clients, eq(maintenanceAgreements.clientId, clients.id))
+      .innerJoin(maintenanceVisitTypes, eq(maintenanceAgreements.visitTypeId, maintenanceVisitTypes.id))
+      .leftJoin(tasks, eq(maintenanceVisits.taskId, tasks.id))
+      .leftJoin(users, eq(tasks.assignedToId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(maintenanceVisits.dueDate));
+
+    return rows.map(({ assignedFirstName, assignedLastName, assignedEmail, ...row }) => ({
+      ...row,
+      assignedToName: [assignedFirstName, assignedLastName].filter(Boolean).join(' ') || assignedEmail,
+    }));
   }
 
-  async getCustomLegalDocuments(): Promise<CustomLegalDocument[]> {
-    return db.select().from(customLegalDocuments).orderBy(desc(customLegalDocuments.createdAt));
+  // SLA operations
+  async getSlaPolicies(): Promise<SlaPolicyDetail[]> {
+    return db
+      .select({ ...getTableColumns(slaPolicies), supportPlanName: supportPlans.name })
+      .from(slaPolicies)
+      .leftJoin(supportPlans, eq(slaPolicies.supportPlanId, supportPlans.id))
+      .orderBy(sql`${supportPlans.name} NULLS FIRST`, desc(slaPolicies.priority));
   }
 
-  async getCustomLegalDocument(id: string): Promise<CustomLegalDocument | undefined> {
-    const [result] = await db.select().from(customLegalDocuments).where(eq(customLegalDocuments.id, id));
-    return result;
+  async createSlaPolicy(data: InsertSlaPolicyType): Promise<SlaPolicy> {
+    const supportPlanId = data.supportPlanId || null;
+    if (supportPlanId) {
+      const [plan] = await db.select({ id: supportPlans.id }).from(supportPlans).where(eq(supportPlans.id, supportPlanId));
+      if (!plan) {
+        throw new NotFoundError('Support plan not found');
+      }
+    }
+    const [duplicate] = await db.select({ id: slaPolicies.id }).from(slaPolicies)
+      .where(and(
+        eq(slaPolicies.priority, data.priority),
+        supportPlanId ? eq(slaPolicies.supportPlanId, supportPlanId) : isNull(slaPolicies.supportPlanId),
+      ));
+    if (duplicate) {
+      throw new ConflictError('An SLA policy already exists for this priority and plan');
+    }
+
+    const [policy] = await db.insert(slaPolicies).values({ ...data, supportPlanId }).returning();
+    if (policy.isActive) {
+      await this.startSlaForOpenTickets(policy.priority);
+    }
+    return policy;
   }
 
-  async updateCustomLegalDocument(id: string, updates: UpdateCustomLegalDocumentType): Promise<CustomLegalDocument | undefined> {
-    const [result] = await db
-      .update(customLegalDocuments)
+  // Targets apply to tickets opened or re-prioritised afterwards; running timers keep their due dates
+  async updateSlaPolicy(id: string, updates: UpdateSlaPolicyType): Promise<SlaPolicy | undefined> {
+    const [current] = await db.select().from(slaPolicies).where(eq(slaPolicies.id, id));
+    if (!current) {
+      return undefined;
+    }
+    const firstResponseMinutes = updates.firstResponseMinutes ?? current.firstResponseMinutes;
+    const resolutionMinutes = updates.resolutionMinutes ?? current.resolutionMinutes;
+    if (resolutionMinutes < firstResponseMinutes) {
+      throw new InvalidRequestError("Resolution target can't be shorter than the first response target");
+    }
+
+    const [policy] = await db.update(slaPolicies)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(customLegalDocuments.id, id))
+      .where(eq(slaPolicies.id, id))
       .returning();
-    return result;
+    if (policy.isActive && !current.isActive) {
+      await this.startSlaForOpenTickets(policy.priority);
+    }
+    return policy;
   }
 
-  async deleteCustomLegalDocument(id: string): Promise<void> {
-    await db.delete(customLegalDocuments).where(eq(customLegalDocuments.id, id));
+  // Open tickets of the priority that no policy covered yet (e.g. ones raised before SLAs were set up) pick up
+  // the policy that now matches, with their clocks starting now. A staff reply already on the ticket counts as
+  // its first response.
+  private async startSlaForOpenTickets(priority: NonNullable<Ticket['priority']>, now: Date = new Date()): Promise<void> {
+    const uncovered = await db.select().from(tickets)
+      .where(and(
+        isNull(tickets.slaPolicyId),
+        eq(tickets.priority, priority),
+        sql`${tickets.status} IN ('open', 'in_progress')`,
+      ));
+    if (uncovered.length === 0) {
+      return;
+    }
+    const hours = businessHoursFromConfig(await this.getSystemConfig());
+
+    for (const ticket of uncovered) {
+      const policy = await this.resolveSlaPolicy(ticket.projectId, priority);
+      if (!policy) {
+        continue;
+      }
+      const [firstReply] = await db.select({ createdAt: ticketComments.createdAt })
+        .from(ticketComments)
+        .innerJoin(users, eq(ticketComments.userId, users.id))
+        .where(and(eq(ticketComments.ticketId, ticket.id), ne(users.role, 'client')))
+        .orderBy(asc(ticketComments.createdAt))
+        .limit(1);
+      await db.update(tickets)
+        .set({
+          slaPolicyId: policy.id,
+          slaStartedAt: now,
+          firstResponseDueAt: slaClockAdd(now, policy.firstResponseMinutes, policy, hours),
+          firstRespondedAt: ticket.firstRespondedAt ?? firstReply?.createdAt ?? null,
+          resolutionDueAt: slaClockAdd(now, policy.resolutionMinutes, policy, hours),
+          slaPausedMinutes: 0,
+          firstResponseBreached: false,
+          resolutionBreached: false,
+          slaWarnedAt: null,
+          slaWarningAt: null,
+        })
+        .where(and(eq(tickets.id, ticket.id), isNull(tickets.slaPolicyId)));
+    }
   }
 
-  // Rate Type operations
-  async createRateType(data: InsertRateTypeType): Promise<RateType> {
-    const [result] = await db.insert(rateTypes).values(data).returning();
-    
-    // Automatically create a service_rate record for this rate type
-    await db.insert(serviceRates).values({
-      rateTypeId: result.id,
-      regularRate: null,
-      afterHoursRate: null,
-      holidayRate: null,
-      notes: null,
+  async deleteSlaPolicy(id: string): Promise<void> {
+    await db.delete(slaPolicies).where(eq(slaPolicies.id, id));
+  }
+
+  // Open tickets with a resolution timer that hasn't breached yet, and that have a target or warning due
+  // (or a warning time still to work out)
+  async getTicketsForSlaMonitoring(now: Date): Promise<Ticket[]> {
+    return db.select().from(tickets)
+      .where(and(
+        isNotNull(tickets.slaPolicyId),
+        isNull(tickets.resolvedAt),
+        eq(tickets.resolutionBreached, false),
+        sql`${tickets.status} IN ('open', 'in_progress')`,
+        or(
+          lte(tickets.resolutionDueAt, now),
+          and(isNull(tickets.firstRespondedAt), eq(tickets.firstResponseBreached, false), lte(tickets.firstResponseDueAt, now)),
+          and(isNull(tickets.slaWarnedAt), or(isNull(tickets.slaWarningAt), lte(tickets.slaWarningAt, now))),
+        ),
+      ))
+      .orderBy(asc(tickets.resolutionDueAt));
+  }
+
+  async checkTicketSla(id: string, now: Date): Promise<SlaCheckResult | undefined> {
+    const hours = businessHoursFromConfig(await this.getSystemConfig());
+    return db.transaction(async (tx) => {
+      const [ticket] = await tx.select().from(tickets).where(eq(tickets.id, id)).for('update');
+      if (!ticket?.slaPolicyId || ticket.resolvedAt || isTicketStopped(ticket.status)) {
+        return undefined;
+      }
+      const [policy] = await tx.select().from(slaPolicies).where(eq(slaPolicies.id, ticket.slaPolicyId));
+      if (!policy) {
+        return undefined;
+      }
+
+      const changes: Partial<Ticket> = {};
+      const breached: SlaTimer[] = [];
+      const responsePending = !ticket.firstRespondedAt && !ticket.firstResponseBreached;
+      if (responsePending && ticket.firstResponseDueAt && now >= ticket.firstResponseDueAt) {
+        changes.firstResponseBreached = true;
+        breached.push('first_response');
+      }
+      if (!ticket.resolutionBreached && ticket.resolutionDueAt && now >= ticket.resolutionDueAt) {
+        changes.resolutionBreached = true;
+        breached.push('resolution');
+      }
+
+      // One warning at a time: the first-response one, then (once answered) the resolution one.
+      // Its time is worked out once and kept, so each run only compares timestamps.
+      let warning: SlaTimer | undefined;
+      if (changes.firstResponseBreached) {
+        changes.slaWarningAt = null;
+      } else if (breached.length === 0 && !ticket.slaWarnedAt) {
+        const warningAt = ticket.slaWarningAt ?? slaWarningTime(ticket, responsePending, policy, hours, now);
+        if (now >= warningAt) {
+          warning = responsePending ? 'first_response' : 'resolution';
+          changes.slaWarnedAt = now;
+        } else if (!ticket.slaWarningAt) {
+          changes.slaWarningAt = warningAt;
+        }
+      }
+
+      if (Object.keys(changes).length === 0) {
+        return undefined;
+      }
+      const [updated] = await tx.update(tickets).set(changes).where(eq(tickets.id, id)).returning();
+      return breached.length > 0 || warning ? { ticket: updated, breached, warning } : undefined;
     });
-    
-    return result;
   }
 
-  async getRateTypes(): Promise<RateType[]> {
-    return db.select().from(rateTypes).orderBy(asc(rateTypes.displayOrder));
+  // Tickets opened in the range that had SLA timers, grouped by client and by current assignee
+  async getSlaComplianceReport(query: SlaComplianceQueryType, now: Date = new Date()): Promise<SlaComplianceReport> {
+    const conditions = [isNotNull(tickets.resolutionDueAt)];
+    if (query.from) conditions.push(gte(tickets.createdAt, query.from));
+    if (query.to) conditions.push(lte(tickets.createdAt, query.to));
+
+    const rows = await db
+      .select({
+        firstResponseDueAt: tickets.firstResponseDueAt,
+        firstRespondedAt: tickets.firstRespondedAt,
+        firstResponseBreached: tickets.firstResponseBreached,
+        resolutionDueAt: tickets.resolutionDueAt,
+        resolvedAt: tickets.resolvedAt,
+        resolutionBreached: tickets.resolutionBreached,
+        clientId: clients.id,
+        clientName: clients.name,
+        assignedToId: tickets.assignedToId,
+        assignedFirstName: users.firstName,
+        assignedLastName: users.lastName,
+        assignedEmail: users.email,
+      })
+      .from(tickets)
+      .innerJoin(projects, eq(tickets.projectId, projects.id))
+      .leftJoin(clients, eq(projects.clientId, clients.id))
+      .leftJoin(users, eq(tickets.assignedToId, users.id))
+      .where(and(...conditions));
+
+    const totals = emptySlaComplianceRow(null, 'All tickets');
+    const byClient = new Map<string | null, SlaComplianceRow>();
+    const byTechnician = new Map<string | null, SlaComplianceRow>();
+
+    for (const row of rows) {
+      // The monitor may not have flagged an overdue timer yet, so overdue and unanswered counts as breached
+      const responseBreached = row.firstResponseBreached || (!row.firstRespondedAt && !!row.firstResponseDueAt && row.firstResponseDueAt <= now);
+      const responseMet = !responseBreached && !!row.firstRespondedAt && !!row.firstResponseDueAt;
+      const resolutionBreached = row.resolutionBreached || (!row.resolvedAt && !!row.resolutionDueAt && row.resolutionDueAt <= now);
+      const resolutionMet = !resolutionBreached && !!row.resolvedAt;
+
+      const clientKey = row.clientId;
+      if (!byClient.has(clientKey)) {
+        byClient.set(clientKey, emptySlaComplianceRow(clientKey, row.clientName ?? 'No client'));
+      }
+      const technicianKey = row.assignedToId;
+      if (!byTechnician.has(technicianKey)) {
+        const name = [row.assignedFirstName, row.assignedLastName].filter(Boolean).join(' ') || row.assignedEmail;
+        byTechnician.set(technicianKey, emptySlaComplianceRow(technicianKey, name ?? 'Unassigned'));
+      }
+
+      for (const group of [totals, byClient.get(clientKey)!, byTechnician.get(technicianKey)!]) {
+        group.tickets++;
+        if (responseMet) group.responseMet++;
+        if (responseBreached) group.responseBreached++;
+        if (resolutionMet) group.resolutionMet++;
+        if (resolutionBreached) group.resolutionBreached++;
+      }
+    }
+
+    const finish = (row: SlaComplianceRow): SlaComplianceRow => ({
+      ...row,
+      responseCompliance: compliancePercent(row.responseMet, row.responseBreached),
+      resolutionCompliance: compliancePercent(row.resolutionMet, row.resolutionBreached),
+    });
+    const byName = (a: SlaComplianceRow, b: SlaComplianceRow) => a.name.localeCompare(b.name);
+    return {
+      totals: finish(totals),
+      byClient: Array.from(byClient.values()).map(finish).sort(byName),
+      byTechnician: Array.from(byTechnician.values()).map(finish).sort(byName),
+    };
   }
 
-  async updateRateType(id: string, updates: UpdateRateTypeType): Promise<RateType | undefined> {
-    const [result] = await db
-      .update(rateTypes)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(rateTypes.id, id))
+  // Records a message before it's processed, so a redelivery of the same Message-ID is recognised
+  async claimInboundEmail(data: InsertInboundEmail): Promise<{ email: InboundEmail; duplicate: boolean }> {
+    const [created] = await db.insert(inboundEmails)
+      .values(data)
+      .onConflictDoNothing({ target: inboundEmails.messageId })
       .returning();
-    return result;
+    if (created) {
+      return { email: created, duplicate: false };
+    }
+    const [existing] = await db.select().from(inboundEmails).where(eq(inboundEmails.messageId, data.messageId));
+    return { email: existing, duplicate: true };
   }
 
-  async deleteRateType(id: string): Promise<void> {
-    await db.delete(rateTypes).where(eq(rateTypes.id, id));
+  async updateInboundEmail(id: string, updates: Partial<InsertInboundEmail>): Promise<InboundEmail | undefined> {
+    const [updated] = await db.update(inboundEmails)
+      .set(updates)
+      .where(eq(inboundEmails.id, id))
+      .returning();
+    return updated;
   }
 
-  // Service Rate operations
-  async createServiceRate(data: InsertServiceRateType): Promise<ServiceRate> {
-    const cleanedData = {
-      ...data,
-      regularRate: data.regularRate === undefined ? null : data.regularRate,
-      afterHoursRate: data.afterHoursRate === undefined ? null : data.afterHoursRate,
-      holidayRate: data.holidayRate === undefined ? null : data.holidayRate,
-    };
-    const [result] = await db.insert(serviceRates).values(cleanedData).returning();
-    return result;
+  async deleteInboundEmail(id: string): Promise<void> {
+    await db.delete(inboundEmails).where(eq(inboundEmails.id, id));
   }
 
-  async getServiceRates(): Promise<ServiceRate[]> {
-    return db.select().from(serviceRates);
+  private async getInboundEmailRows(conditions: ReturnType<typeof eq>[]): Promise<InboundEmailDetail[]> {
+    const rows = await db
+      .select({
+        ...getTableColumns(inboundEmails),
+        ticketNumber: tickets.ticketNumber,
+        leadName: leads.name,
+        handledByFirstName: users.firstName,
+        handledByLastName: users.lastName,
+        handledByEmail: users.email,
+      })
+      .from(inboundEmails)
+      .leftJoin(tickets, eq(inboundEmails.ticketId, tickets.id))
+      .leftJoin(leads, eq(inboundEmails.leadId, leads.id))
+      .leftJoin(users, eq(inboundEmails.handledById, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(inboundEmails.receivedAt))
+      .limit(500);
+
+    return rows.map(({ handledByFirstName, handledByLastName, handledByEmail, ...row }) => ({
+      ...row,
+      handledByName: row.handledById
+        ? [handledByFirstName, handledByLastName].filter(Boolean).join(' ') || handledByEmail
+        : null,
+    }));
   }
 
-  async getServiceRateByRateTypeId(rateTypeId: string): Promise<ServiceRate | undefined> {
-    const [result] = await db
-      .select()
-      .from(serviceRates)
-      .where(eq(serviceRates.rateTypeId, rateTypeId));
-    return result;
+  async getInboundEmail(id: string): Promise<InboundEmailDetail | undefined> {
+    const [email] = await this.getInboundEmailRows([eq(inboundEmails.id, id)]);
+    return email;
   }
 
-  async updateServiceRate(id: string, updates: UpdateServiceRateType): Promise<ServiceRate | undefined> {
-    const cleanedUpdates = {
-      ...updates,
-      regularRate: updates.regularRate === undefined ? null : updates.regularRate,
-      afterHoursRate: updates.afterHoursRate === undefined ? null : updates.afterHoursRate,
-      holidayRate: updates.holidayRate === undefined ? null : updates.holidayRate,
-      updatedAt: new Date()
-    };
-    const [result] = await db
-      .update(serviceRates)
-      .set(cleanedUpdates)
-      .where(eq(serviceRates.id, id))
-      .returning();
-    return result;
+  async getInboundEmails(query: InboundEmailQueryType): Promise<InboundEmailDetail[]> {
+    return this.getInboundEmailRows(query.status ? [eq(inboundEmails.status, query.status)] : []);
   }
 
-  async deleteServiceRate(id: string): Promise<void> {
-    await db.delete(serviceRates).where(eq(serviceRates.id, id));
-  }
+  async getInboundSender(address: string): Promise<InboundSender> {
+    const user = await this.getUserByEmail(address);
+    const byEmail = (column: typeof clients.email | typeof leads.email) => sql`LOWER(${column}) = LOWER(${address})`;
 
-  // Support Plan operations
-  async createSupportPlan(data: InsertSupportPlanType): Promise<SupportPlan> {
-    const cleanedData = {
-      ...data,
-      rate: data.rate === undefined ? null : data.rate,
-    };
-    const [result] = await db.insert(supportPlans).values(cleanedData).returning();
-    return result;
+    const senderClients = await db.select().from(clients)
+      .where(user ? or(byEmail(clients.email), eq(clients.userId, user.id)) : byEmail(clients.email));
+    const senderLeads = await db.select().from(leads)
+      .where(user ? or(byEmail(leads.email), eq(leads.userId, user.id)) : byEmail(leads.email))
+      .orderBy(desc(leads.createdAt));
+    return { user, clients: senderClients, leads: senderLeads };
   }
 
-  async getSupportPlans(): Promise<SupportPlan[]> {
-    return db.select().from(supportPlans).orderBy(desc(supportPlans.createdAt));
+  async getTicketByNumber(ticketNumber: string): Promise<Ticket | undefined> {
+    const [ticket] = await db.select().from(tickets).where(eq(tickets.ticketNumber, ticketNumber));
+    return ticket;
   }
 
-  async updateSupportPlan(id: string, updates: UpdateSupportPlanType): Promise<SupportPlan | undefined> {
-    const cleanedUpdates = {
-      ...updates,
-      rate: updates.rate === undefined ? null : updates.rate,
-      updatedAt: new Date()
-    };
-    const [result] = await db
-      .update(supportPlans)
-      .set(cleanedUpdates)
-      .where(eq(supportPlans.id, id))
+  // The message becomes the ticket description; its attachments go on a first comment from the sender
+  async convertInboundEmailToTicket(id: string, data: ConvertInboundEmailType, handledById: string): Promise<{ email: InboundEmail; ticket: Ticket }> {
+    const [email] = await db.select().from(inboundEmails).where(eq(inboundEmails.id, id));
+    if (!email) {
+      throw new NotFoundError('Inbound email not found');
+    }
+    if (email.status !== 'unmatched') {
+      throw new ConflictError('This email has already been handled');
+    }
+    const project = await this.getProject(data.projectId);
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+
+    const ticket = await this.createTicket({
+      projectId: project.id,
+      title: (email.subject || `Email from ${email.fromName || email.fromAddress}`).slice(0, 255),
+      description: email.body,
+      priority: data.priority ?? 'medium',
+      createdById: handledById,
+    });
+
+    const attachments = email.attachments as FileAttachment[];
+    let ticketCommentId: string | null = null;
+    if (attachments.length > 0) {
+      const sender = await this.getUserByEmail(email.fromAddress);
+      const comment = await this.createTicketComment({
+        ticketId: ticket.id,
+        userId: sender?.id ?? null,
+        authorName: sender ? null : email.fromName,
+        authorEmail: sender ? null : email.fromAddress,
+        comment: 'Attachments from the original email',
+        attachments,
+      });
+      ticketCommentId = comment.id;
+    }
+
+    const [updated] = await db.update(inboundEmails)
+      .set({ status: 'converted', ticketId: ticket.id, ticketCommentId, handledById })
+      .where(eq(inboundEmails.id, id))
       .returning();
-    return result;
+    return { email: updated, ticket };
   }
 
-  async deleteSupportPlan(id: string): Promise<void> {
-    await db.delete(supportPlans).where(eq(supportPlans.id, id));
+  async dismissInboundEmail(id: string, handledById: string): Promise<InboundEmail> {
+    const [email] = await db.select().from(inboundEmails).where(eq(inboundEmails.id, id));
+    if (!email) {
+      throw new NotFoundError('Inbound email not found');
+    }
+    if (email.status !== 'unmatched') {
+      throw new ConflictError('This email has already been handled');
+    }
+    const [updated] = await db.update(inboundEmails)
+      .set({ status: 'ignored', statusReason: 'Dismissed by staff', handledById })
+      .where(eq(inboundEmails.id, id))
+      .returning();
+    return updated;
   }
 
   // Referral Program operations
@@ -0,0 +1,98 @@
+import { randomUUID } from "crypto";
+import { storage, type SupportSubscriptionDetail } from "./storage";
+import { sendNotification } from "./notifications";
+import { getAppBaseUrl } from "./mailer";
+import type { ScheduledJob } from "./scheduler";
+import type { Invoice } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SHARE_LINK_DAYS = 30;
+
+// Emails the client a link to the invoice and only then marks it sent. Returns false when the invoice
+// can't be delivered, leaving it as a draft for someone to send by hand.
+async function sendSubscriptionInvoice(subscription: SupportSubscriptionDetail, invoice: Invoice, now: Date): Promise<boolean> {
+  const client = await storage.getClient(subscription.clientId);
+  if (!client?.email) {
+    return false;
+  }
+
+  const shareLink = await storage.createShareLink({
+    entityType: 'invoice',
+    entityId: invoice.id,
+    token: randomUUID(),
+    label: client.email,
+    expiresAt: new Date(now.getTime() + SHARE_LINK_DAYS * DAY_MS),
+    createdById: subscription.createdById,
+  });
+  try {
+    await sendNotification({
+      recipientEmail: client.email,
+      recipientName: client.name,
+      subject: `Invoice ${invoice.invoiceNumber}: ${subscription.planName} support plan`,
+      body: `Your invoice ${invoice.invoiceNumber} for $${parseFloat(invoice.total).toFixed(2)} is ready.` +
+        (invoice.dueDate ? ` Payment is due by ${invoice.dueDate.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" })}.` : ''),
+      link: `${getAppBaseUrl()}/invoice/${invoice.invoiceNumber}/${shareLink.token}`,
+      entityType: 'invoice',
+      entityId: invoice.id,
+    });
+  } catch (error) {
+    await storage.revokeShareLink(shareLink.id, subscription.createdById);
+    console.error(`Failed to send subscription invoice ${invoice.invoiceNumber}:`, error);
+    return false;
+  }
+  return !!(await storage.markInvoiceSent(invoice.id, shareLink));
+}
+
+// Invoices every support subscription whose next period has started, catching up on any periods
+// missed while the server was down, and applies cancellations that were due at the period end
+export async function runSubscriptionBilling(now: Date = new Date()): Promise<{ invoiced: number; cancelled: number }> {
+  let invoiced = 0;
+  let cancelled = 0;
+
+  const due = await storage.getSupportSubscriptionsDueForBilling(now);
+  for (const subscription of due) {
+    const name = `${subscription.clientName} - ${subscription.planName}`;
+    // One subscription failing shouldn't hold up billing for the rest; it's retried on the next run
+    try {
+      let result = await storage.billSupportSubscription(subscription.id, now);
+      while (result) {
+        if (result.invoice) {
+          invoiced++;
+          // Credits are left as drafts so staff can decide how to refund or apply them
+          const sent = subscription.autoSend && parseFloat(result.invoice.total) > 0
+            && await sendSubscriptionInvoice(subscription, result.invoice, now);
+          await storage.logActivity({
+            action: result.renewal ? 'renewed' : 'invoiced',
+            entityType: 'support_subscription',
+            entityId: subscription.id,
+            entityName: name,
+            details: `Invoice ${result.invoice.invoiceNumber} for $${result.invoice.total} raised as ${sent ? 'sent' : 'draft'}`,
+          });
+        }
+        if (result.cancelled) {
+          cancelled++;
+          await storage.logActivity({
+            action: 'cancelled',
+            entityType: 'support_subscription',
+            entityId: subscription.id,
+            entityName: name,
+            details: 'Subscription ended at the close of its billing period',
+          });
+        }
+        result = await storage.billSupportSubscription(subscription.id, now);
+      }
+    } catch (error) {
+      console.error(`Failed to bill subscription ${name}:`, error);
+    }
+  }
+
+  return { invoiced, cancelled };
+}
+
+export const subscriptionBillingJob: ScheduledJob = {
+  name: "subscription-billing",
+  intervalMs: 60 * 60 * 1000,
+  run: async (now) => {
+    await runSubscriptionBilling(now);
+  },
+};
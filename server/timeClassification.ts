@@ -0,0 +1,230 @@
+import type { ServiceRate, SystemConfig } from "@shared/schema";
+
+const MINUTE_MS = 60 * 1000;
+
+// Longest shift a clock-out records; anything longer is a forgotten clock-out for the approver to correct
+export const MAX_SHIFT_MINUTES = 16 * 60;
+
+// Used until an admin saves business hours in the app configuration
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  start: '08:00',
+  end: '17:00',
+  days: [1, 2, 3, 4, 5],
+  holidays: [],
+  timeZone: null,
+};
+
+export interface BusinessHours {
+  start: string; // HH:mm
+  end: string; // HH:mm; earlier than start for an overnight shift
+  days: number[]; // 0 = Sunday
+  holidays: string[]; // YYYY-MM-DD in the business time zone
+  timeZone: string | null; // null = server time
+}
+
+export interface TimeClassification {
+  regularMinutes: number;
+  afterHoursMinutes: number;
+  holidayMinutes: number;
+}
+
+export interface TimeCharge {
+  label: string;
+  hours: number;
+  unitPrice: number;
+  total: number;
+}
+
+interface LocalMinute {
+  date: string; // YYYY-MM-DD
+  weekday: number;
+  minuteOfDay: number;
+}
+
+export function businessHoursFromConfig(config: SystemConfig | undefined): BusinessHours {
+  if (!config) return DEFAULT_BUSINESS_HOURS;
+  return {
+    start: config.businessHoursStart || DEFAULT_BUSINESS_HOURS.start,
+    end: config.businessHoursEnd || DEFAULT_BUSINESS_HOURS.end,
+    days: config.businessDays ?? DEFAULT_BUSINESS_HOURS.days,
+    holidays: config.holidays ?? [],
+    timeZone: config.businessTimeZone || null,
+  };
+}
+
+function parseClock(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+const weekdayIndex: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+function localMinuteReader(timeZone: string | null): (instant: Date) => LocalMinute {
+  if (!timeZone) {
+    return (instant) => ({
+      date: `${instant.getFullYear()}-${String(instant.getMonth() + 1).padStart(2, '0')}-${String(instant.getDate()).padStart(2, '0')}`,
+      weekday: instant.getDay(),
+      minuteOfDay: instant.getHours() * 60 + instant.getMinutes(),
+    });
+  }
+
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  });
+  return (instant) => {
+    const parts = Object.fromEntries(formatter.formatToParts(instant).map(part => [part.type, part.value]));
+    return {
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      weekday: weekdayIndex[parts.weekday],
+      minuteOfDay: Number(parts.hour) * 60 + Number(parts.minute),
+    };
+  };
+}
+
+// Walks the entry from one local boundary (opening, closing, midnight) to the next, so a shift costs a
+// handful of time zone lookups per day while DST changes and midnight crossings still land in the right bucket
+export function classifyTime(startedAt: Date, endedAt: Date, hours: BusinessHours): TimeClassification {
+  const result: TimeClassification = { regularMinutes: 0, afterHoursMinutes: 0, holidayMinutes: 0 };
+  const readLocal = localMinuteReader(hours.timeZone);
+  const openAt = parseClock(hours.start);
+  const closeAt = parseClock(hours.end);
+  const holidays = new Set(hours.holidays);
+  const businessDays = new Set(hours.days);
+  const boundaries = [openAt, closeAt, 24 * 60];
+
+  const bucketOf = (local: LocalMinute): keyof TimeClassification => {
+    if (holidays.has(local.date)) return 'holidayMinutes';
+    const withinHours = openAt <= closeAt
+      ? local.minuteOfDay >= openAt && local.minuteOfDay < closeAt
+      : local.minuteOfDay >= openAt || local.minuteOfDay < closeAt;
+    return businessDays.has(local.weekday) && withinHours ? 'regularMinutes' : 'afterHoursMinutes';
+  };
+  const minuteAt = (offset: number) => readLocal(new Date(startedAt.getTime() + offset * MINUTE_MS));
+
+  const totalMinutes = Math.round((endedAt.getTime() - startedAt.getTime()) / MINUTE_MS);
+  let offset = 0;
+  while (offset < totalMinutes) {
+    const local = minuteAt(offset);
+    const bucket = bucketOf(local);
+    const nextBoundary = Math.min(...boundaries.filter(boundary => boundary > local.minuteOfDay));
+    let step = Math.min(nextBoundary - local.minuteOfDay, totalMinutes - offset);
+    // A DST change inside the step moves the wall clock; shorten the step until it ends in the same bucket
+    while (step > 1 && bucketOf(minuteAt(offset + step - 1)) !== bucket) {
+      step = Math.ceil(step / 2);
+    }
+    result[bucket] += step;
+    offset += step;
+  }
+  return result;
+}
+
+// Wall-clock time in the business time zone to an instant; a second pass settles DST changeovers
+function localToInstant(date: string, minuteOfDay: number, timeZone: string | null): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  if (!timeZone) return new Date(year, month - 1, day, 0, minuteOfDay);
+
+  const readLocal = localMinuteReader(timeZone);
+  const wanted = Date.UTC(year, month - 1, day, 0, minuteOfDay);
+  let instant = wanted;
+  for (let pass = 0; pass < 2; pass++) {
+    const local = readLocal(new Date(instant));
+    const [localYear, localMonth, localDay] = local.date.split('-').map(Number);
+    instant += wanted - Date.UTC(localYear, localMonth - 1, localDay, 0, local.minuteOfDay);
+  }
+  return new Date(instant);
+}
+
+// The calendar date an instant falls on in the business time zone
+export function businessDateOf(instant: Date, hours: BusinessHours): string {
+  return localMinuteReader(hours.timeZone)(instant).date;
+}
+
+// Opening and closing instants for a calendar date, or null when the business is closed that day
+export function businessDayWindow(date: string, hours: BusinessHours): { opensAt: Date; closesAt: Date } | null {
+  const [year, month, day] = date.split('-').map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  if (hours.holidays.includes(date) || !hours.days.includes(weekday)) return null;
+
+  const openAt = parseClock(hours.start);
+  let closeAt = parseClock(hours.end);
+  if (closeAt <= openAt) closeAt += 24 * 60; // Overnight hours close the next morning
+  return {
+    opensAt: localToInstant(date, openAt, hours.timeZone),
+    closesAt: localToInstant(date, closeAt, hours.timeZone),
+  };
+}
+
+// Midnight to midnight of a calendar date in the business time zone
+export function calendarDayWindow(date: string, hours: BusinessHours): { opensAt: Date; closesAt: Date } {
+  return {
+    opensAt: localToInstant(date, 0, hours.timeZone),
+    closesAt: localToInstant(shiftDate(date, 1), 0, hours.timeZone),
+  };
+}
+
+function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// Longest stretch searched for opening hours before giving up on a configuration with none
+const MAX_BUSINESS_DAYS_SCANNED = 5 * 366;
+
+// Opening-hours minutes between two instants; starts a day early to catch overnight hours opened the evening before
+export function businessMinutesBetween(from: Date, to: Date, hours: BusinessHours): number {
+  if (to <= from) return 0;
+  const lastDate = businessDateOf(to, hours);
+  let elapsedMs = 0;
+  for (let date = shiftDate(businessDateOf(from, hours), -1); date <= lastDate; date = shiftDate(date, 1)) {
+    const window = businessDayWindow(date, hours);
+    if (!window) continue;
+    const start = Math.max(window.opensAt.getTime(), from.getTime());
+    const end = Math.min(window.closesAt.getTime(), to.getTime());
+    if (end > start) elapsedMs += end - start;
+  }
+  return Math.round(elapsedMs / MINUTE_MS);
+}
+
+// The instant a clock started at `from` has counted `minutes` of opening hours
+export function addBusinessMinutes(from: Date, minutes: number, hours: BusinessHours): Date {
+  let remainingMs = minutes * MINUTE_MS;
+  let date = shiftDate(businessDateOf(from, hours), -1);
+  for (let scanned = 0; scanned < MAX_BUSINESS_DAYS_SCANNED; scanned++, date = shiftDate(date, 1)) {
+    const window = businessDayWindow(date, hours);
+    if (!window) continue;
+    const start = Math.max(window.opensAt.getTime(), from.getTime());
+    const availableMs = window.closesAt.getTime() - start;
+    if (availableMs <= 0) continue;
+    if (remainingMs <= availableMs) return new Date(start + remainingMs);
+    remainingMs -= availableMs;
+  }
+  // No opening hours at all (e.g. every business day unticked): fall back to elapsed time
+  return new Date(from.getTime() + minutes * MINUTE_MS);
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Holiday time falls back to the after-hours rate, and both fall back to the regular rate
+export function priceTime(classification: TimeClassification, rate: ServiceRate | undefined): TimeCharge[] {
+  const regularRate = parseFloat(rate?.regularRate || '0');
+  const afterHoursRate = rate?.afterHoursRate ? parseFloat(rate.afterHoursRate) : regularRate;
+  const holidayRate = rate?.holidayRate ? parseFloat(rate.holidayRate) : afterHoursRate;
+
+  return [
+    { label: 'Regular', minutes: classification.regularMinutes, unitPrice: regularRate },
+    { label: 'After hours', minutes: classification.afterHoursMinutes, unitPrice: afterHoursRate },
+    { label: 'Holiday', minutes: classification.holidayMinutes, unitPrice: holidayRate },
+  ]
+    .filter(charge => charge.minutes > 0)
+    .map(charge => {
+      const hours = round(charge.minutes / 60);
+      return { label: charge.label, hours, unitPrice: charge.unitPrice, total: round(hours * charge.unitPrice) };
+    });
+}
@@ -33,6 +33,7 @@ export interface Permission {
   // Inventory
   viewInventory: boolean;
   manageInventory: boolean;
+  overrideNegativeStock: boolean; // Record transactions that take stock below zero
   
   // Suppliers
   viewSuppliers: boolean;
@@ -104,6 +105,7 @@ export const rolePermissions: Record<UserRole, Permission> = {
     // Inventory - no access
     viewInventory: false,
     manageInventory: false,
+    overrideNegativeStock: false,
     
     // Suppliers - no access
     viewSuppliers: false,
@@ -173,6 +175,7 @@ export const rolePermissions: Record<UserRole, Permission> = {
     // Inventory - no access
     viewInventory: false,
     manageInventory: false,
+    overrideNegativeStock: false,
     
     // Suppliers - no access
     viewSuppliers: false,
@@ -242,6 +245,7 @@ export const rolePermissions: Record<UserRole, Permission> = {
     // Inventory - no access
     viewInventory: false,
     manageInventory: false,
+    overrideNegativeStock: false,
     
     // Suppliers - FULL CRUD
     viewSuppliers: true,
@@ -311,6 +315,7 @@ export const rolePermissions: Record<UserRole, Permission> = {
     // Inventory - FULL CRUD
     viewInventory: true,
     manageInventory: true,
+    overrideNegativeStock: false,
     
     // Suppliers - FULL CRUD
     viewSuppliers: true,
@@ -380,6 +385,7 @@ export const rolePermissions: Record<UserRole, Permission> = {
     // Inventory - full access
     viewInventory: true,
     manageInventory: true,
+    overrideNegativeStock: true,
     
     // Suppliers - FULL CRUD
     viewSuppliers: true,
@@ -449,6 +455,7 @@ export const rolePermissions: Record<UserRole, Permission> = {
     // Inventory - full access
     viewInventory: true,
     manageInventory: true,
+    overrideNegativeStock: true,
     
     // Suppliers - full access
     viewSuppliers: true,
@@ -10,6 +10,8 @@ import {
   pgEnum,
   boolean,
   integer,
+  uniqueIndex,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -33,7 +35,16 @@ export const unitOfMeasureEnum = pgEnum('unit_of_measure', [
   'piece', 'box', 'roll', 'meter', 'foot', 'pair', 'set', 'kit'
 ]);
 export const transactionTypeEnum = pgEnum('transaction_type', [
-  'purchase', 'sale', 'adjustment', 'project_usage', 'return', 'damage'
+  'purchase', 'sale', 'adjustment', 'project_usage', 'return', 'damage', 'transfer'
+]);
+export const stockLocationTypeEnum = pgEnum('stock_location_type', [
+  'warehouse', 'van', 'job_site'
+]);
+export const purchaseOrderStatusEnum = pgEnum('purchase_order_status', [
+  'draft', 'sent', 'partially_received', 'received', 'cancelled'
+]);
+export const serialUnitStatusEnum = pgEnum('serial_unit_status', [
+  'in_stock', 'allocated', 'installed', 'retired'
 ]);
 export const reportStatusEnum = pgEnum('report_status', [
   'draft', 'submitted', 'approved', 'rejected'
@@ -44,10 +55,20 @@ export const taskStatusEnum = pgEnum('task_status', [
 export const ticketStatusEnum = pgEnum('ticket_status', [
   'open', 'in_progress', 'resolved', 'closed'
 ]);
+export const timeEntryStatusEnum = pgEnum('time_entry_status', [
+  'running', 'pending', 'approved', 'rejected'
+]);
+export const appointmentKindEnum = pgEnum('appointment_kind', ['appointment', 'site_visit']);
+export const appointmentStatusEnum = pgEnum('appointment_status', ['booked', 'cancelled']);
+export const subscriptionStatusEnum = pgEnum('subscription_status', ['active', 'cancelled']);
+export const maintenanceAgreementStatusEnum = pgEnum('maintenance_agreement_status', ['active', 'paused', 'ended']);
+export const inboundEmailStatusEnum = pgEnum('inbound_email_status', [
+  'threaded', 'lead_created', 'lead_updated', 'unmatched', 'converted', 'ignored'
+]);
 export const financialLogTypeEnum = pgEnum('financial_log_type', [
   'project_cost_update', 'quote_created', 'quote_updated', 'inventory_purchase', 'inventory_sale', 'sales_record_created', 'sales_record_updated'
 ]);
-export const leadSourceEnum = pgEnum('lead_source', ['manual', 'inquiry', 'referral', 'website']);
+export const leadSourceEnum = pgEnum('lead_source', ['manual', 'inquiry', 'referral', 'website', 'email']);
 export const leadStatusEnum = pgEnum('lead_status', ['new', 'contacted', 'qualified', 'converted', 'lost']);
 export const clientStatusEnum = pgEnum('client_status', ['potential', 'active', 'inactive', 'archived']);
 export const supplierTypeEnum = pgEnum('supplier_type', ['supplier', 'vendor', 'partner']);
@@ -55,6 +76,7 @@ export const supplierStatusEnum = pgEnum('supplier_status', ['active', 'inactive
 export const quoteStatusEnum = pgEnum('quote_status', ['draft', 'sent', 'accepted', 'rejected', 'expired']);
 export const invoiceStatusEnum = pgEnum('invoice_status', ['draft', 'sent', 'paid', 'partial', 'cancelled', 'overdue']);
 export const paymentStatusEnum = pgEnum('payment_status', ['unpaid', 'partial', 'paid']);
+export const paymentMethodEnum = pgEnum('payment_method', ['cash', 'check', 'card', 'bank_transfer', 'ach', 'other']);
 export const referralStatusEnum = pgEnum('referral_status', ['pending', 'contacted', 'qualified', 'converted', 'declined']);
 export const expenseCategoryEnum = pgEnum('expense_category', [
   'operations', 'equipment', 'payroll', 'marketing', 'utilities', 
@@ -63,6 +85,7 @@ export const expenseCategoryEnum = pgEnum('expense_category', [
 export const revenueSourceEnum = pgEnum('revenue_source', [
   'contract', 'service', 'installation', 'maintenance', 'consultation', 'recurring', 'other'
 ]);
+export const shareLinkEntityTypeEnum = pgEnum('share_link_entity_type', ['quote', 'invoice', 'project', 'ticket']);
 
 // Session storage table (mandatory for Replit Auth)
 export const sessions = pgTable(
@@ -93,6 +116,28 @@ export const users = pgTable("users", {
   index("idx_users_email_lower").on(sql`LOWER(${table.email})`),
 ]);
 
+// Password reset tokens (only the Argon2 hash of the secret is stored)
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: text("token_hash").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // set once the token has been redeemed or superseded
+  requestedIp: varchar("requested_ip"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_password_reset_tokens_user").on(table.userId),
+]);
+
+// Secret iCalendar feed URL per user; regenerating swaps the token so old subscriptions stop syncing
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: varchar("token").notNull().unique(), // SHA-256 of the URL token; the URL itself is only shown when issued
+  lastAccessedAt: timestamp("last_accessed_at"), // last time a calendar app polled the feed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Service requests from clients
 export const serviceRequests = pgTable("service_requests", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -128,7 +173,7 @@ export const projects = pgTable("projects", {
   estimatedCompletionDate: timestamp("estimated_completion_date"),
   actualCompletionDate: timestamp("actual_completion_date"),
   totalCost: decimal("total_cost", { precision: 10, scale: 2 }),
-  equipmentUsed: jsonb("equipment_used"), // JSON array of equipment
+  equipmentUsed: jsonb("equipment_used"), // Legacy free-form equipment list; read-only, superseded by project_materials
   workNotes: text("work_notes"),
   clientFeedback: text("client_feedback"),
   clientRating: integer("client_rating"), // 1-5 stars
@@ -144,6 +189,7 @@ export const projectComments = pgTable("project_comments", {
   projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
   userId: varchar("user_id").notNull().references(() => users.id),
   comment: text("comment").notNull(),
+  attachments: jsonb("attachments").default([]).notNull(), // Array of {filename, contentType, size, objectPath}
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -161,6 +207,18 @@ export const tickets = pgTable("tickets", {
   dueDate: timestamp("due_date"),
   shareToken: varchar("share_token"),
   shareTokenCreatedAt: timestamp("share_token_created_at"),
+  // SLA timers, set from the matching policy when the ticket is created or its priority changes
+  slaPolicyId: varchar("sla_policy_id").references((): AnyPgColumn => slaPolicies.id, { onDelete: 'set null' }),
+  slaStartedAt: timestamp("sla_started_at"), // When the clocks started: on creation, or when a policy was added while the ticket was open
+  firstResponseDueAt: timestamp("first_response_due_at"),
+  firstRespondedAt: timestamp("first_responded_at"),
+  resolutionDueAt: timestamp("resolution_due_at"),
+  resolvedAt: timestamp("resolved_at"), // Set while resolved or closed; the resolution timer is paused meanwhile
+  slaPausedMinutes: integer("sla_paused_minutes").default(0).notNull(), // Clock time spent resolved before being reopened
+  firstResponseBreached: boolean("first_response_breached").default(false).notNull(),
+  resolutionBreached: boolean("resolution_breached").default(false).notNull(),
+  slaWarnedAt: timestamp("sla_warned_at"),
+  slaWarningAt: timestamp("sla_warning_at"), // When the pending warning falls due; null until the monitor works it out
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -169,8 +227,11 @@ export const tickets = pgTable("tickets", {
 export const ticketComments = pgTable("ticket_comments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   ticketId: varchar("ticket_id").notNull().references(() => tickets.id, { onDelete: 'cascade' }),
-  userId: varchar("user_id").notNull().references(() => users.id),
+  userId: varchar("user_id").references(() => users.id), // Null for replies emailed in by a client contact without a login
+  authorName: varchar("author_name"), // Who sent an emailed reply when there's no user
+  authorEmail: varchar("author_email"),
   comment: text("comment").notNull(),
+  attachments: jsonb("attachments").default([]).notNull(), // Array of {filename, contentType, size, objectPath}
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -218,11 +279,52 @@ export const inventoryItems = pgTable("inventory_items", {
   supplier: varchar("supplier"),
   location: varchar("location"), // warehouse location
   imageUrl: varchar("image_url"),
+  isSerialized: boolean("is_serialized").default(false).notNull(), // Each unit carries its own serial number
+  warrantyMonths: integer("warranty_months"), // Manufacturer warranty from the install date
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Serialised units of an inventory item, followed from receipt to installation at a client site
+export const serializedUnits = pgTable("serialized_units", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  itemId: varchar("item_id").notNull().references(() => inventoryItems.id),
+  serialNumber: varchar("serial_number").notNull(),
+  status: serialUnitStatusEnum("status").notNull().default('in_stock'),
+  projectId: varchar("project_id").references(() => projects.id), // Set once allocated to a job
+  purchaseOrderId: varchar("purchase_order_id").references((): AnyPgColumn => purchaseOrders.id), // PO it was received on, if any
+  receivedAt: timestamp("received_at").defaultNow(),
+  allocatedAt: timestamp("allocated_at"),
+  installedAt: timestamp("installed_at"),
+  warrantyEndsAt: timestamp("warranty_ends_at"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_serialized_units_item_serial").on(table.itemId, table.serialNumber),
+  index("idx_serialized_units_serial").on(table.serialNumber),
+  index("idx_serialized_units_project").on(table.projectId),
+]);
+
+// Materials planned for a project and what was actually consumed from inventory
+export const projectMaterials = pgTable("project_materials", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  itemId: varchar("item_id").notNull().references(() => inventoryItems.id),
+  quantityPlanned: integer("quantity_planned").notNull().default(0),
+  quantityUsed: integer("quantity_used").notNull().default(0),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }), // Average cost of the units consumed, fixed at time of use
+  totalCost: decimal("total_cost", { precision: 10, scale: 2 }).notNull().default('0'),
+  notes: text("notes"),
+  createdById: varchar("created_by_id").references(() => users.id),
+  lastConsumedAt: timestamp("last_consumed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_project_materials_project").on(table.projectId),
+]);
+
 // Inventory transactions for tracking stock movements
 export const inventoryTransactions = pgTable("inventory_transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -232,11 +334,40 @@ export const inventoryTransactions = pgTable("inventory_transactions", {
   unitCost: decimal("unit_cost", { precision: 10, scale: 2 }),
   totalCost: decimal("total_cost", { precision: 10, scale: 2 }),
   projectId: varchar("project_id").references(() => projects.id), // if used in a project
+  locationId: varchar("location_id").references((): AnyPgColumn => stockLocations.id), // null = stock not yet assigned to a location
+  transferId: varchar("transfer_id"), // Pairs the out/in rows of a transfer between locations
+  purchaseOrderId: varchar("purchase_order_id").references((): AnyPgColumn => purchaseOrders.id), // Set when stock was received against a PO
   performedById: varchar("performed_by_id").notNull().references(() => users.id),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_inventory_transactions_transfer").on(table.transferId),
+]);
+
+// Stock locations (warehouse, technician vans, job sites)
+export const stockLocations = pgTable("stock_locations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  type: stockLocationTypeEnum("type").notNull(),
+  assignedUserId: varchar("assigned_user_id").references(() => users.id), // Technician driving the van
+  projectId: varchar("project_id").references(() => projects.id), // Job site's project
+  address: text("address"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Quantity of each item held at each location; the remainder of quantityInStock is unassigned
+export const inventoryStockLevels = pgTable("inventory_stock_levels", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  itemId: varchar("item_id").notNull().references(() => inventoryItems.id, { onDelete: 'cascade' }),
+  locationId: varchar("location_id").notNull().references(() => stockLocations.id, { onDelete: 'cascade' }),
+  quantity: integer("quantity").default(0).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_inventory_stock_levels_item_location").on(table.itemId, table.locationId),
+]);
+
 // Tasks created by managers
 export const tasks = pgTable("tasks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -250,6 +381,7 @@ export const tasks = pgTable("tasks", {
   projectId: varchar("project_id").references(() => projects.id),
   dueDate: timestamp("due_date"),
   completedAt: timestamp("completed_at"),
+  attachments: jsonb("attachments").default([]).notNull(), // Array of {filename, contentType, size, objectPath}; staff only
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -272,6 +404,54 @@ export const reports = pgTable("reports", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Technician labour, clocked against a project, task or ticket
+export const timeEntries = pgTable("time_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  projectId: varchar("project_id").references(() => projects.id),
+  taskId: varchar("task_id").references(() => tasks.id),
+  ticketId: varchar("ticket_id").references(() => tickets.id),
+  rateTypeId: varchar("rate_type_id").references(() => rateTypes.id), // Service rate the time is billed at
+  status: timeEntryStatusEnum("status").notNull().default('running'),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at"), // null while the technician is still clocked in
+  // Split of the worked minutes against the business-hours configuration, set when the entry is closed
+  regularMinutes: integer("regular_minutes").notNull().default(0),
+  afterHoursMinutes: integer("after_hours_minutes").notNull().default(0),
+  holidayMinutes: integer("holiday_minutes").notNull().default(0),
+  billable: boolean("billable").notNull().default(true),
+  notes: text("notes"),
+  approvedById: varchar("approved_by_id").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+  rejectionReason: text("rejection_reason"),
+  invoiceId: varchar("invoice_id").references((): AnyPgColumn => invoices.id), // Set once billed
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_time_entries_user_started").on(table.userId, table.startedAt),
+  index("idx_time_entries_project").on(table.projectId),
+  uniqueIndex("idx_time_entries_user_running").on(table.userId).where(sql`${table.status} = 'running'`),
+]);
+
+// Dispatch board: a technician booked onto a project, task, ticket or appointment for a time window
+export const dispatchAssignments = pgTable("dispatch_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  technicianId: varchar("technician_id").notNull().references(() => users.id),
+  // Exactly one of these is set
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: 'cascade' }),
+  taskId: varchar("task_id").references(() => tasks.id, { onDelete: 'cascade' }),
+  ticketId: varchar("ticket_id").references(() => tickets.id, { onDelete: 'cascade' }),
+  appointmentId: varchar("appointment_id").references((): AnyPgColumn => appointments.id, { onDelete: 'cascade' }), // Booked from the public scheduling pages
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  notes: text("notes"),
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_dispatch_assignments_technician_starts").on(table.technicianId, table.startsAt),
+]);
+
 // Sales records for sales role
 export const salesRecords = pgTable("sales_records", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -345,6 +525,45 @@ export const leads = pgTable("leads", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Appointment types offered on the public scheduling pages
+export const appointmentTypes = pgTable("appointment_types", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  kind: appointmentKindEnum("kind").notNull().default('appointment'), // Which booking page offers it
+  durationMinutes: integer("duration_minutes").notNull().default(60),
+  bufferMinutes: integer("buffer_minutes").notNull().default(0), // Travel time kept clear either side
+  isActive: boolean("is_active").default(true).notNull(),
+  displayOrder: integer("display_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A slot booked by a prospect; the manage token lets them reschedule or cancel without an account
+export const appointments = pgTable("appointments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentTypeId: varchar("appointment_type_id").notNull().references(() => appointmentTypes.id),
+  leadId: varchar("lead_id").references(() => leads.id, { onDelete: 'cascade' }),
+  technicianId: varchar("technician_id").notNull().references(() => users.id),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  status: appointmentStatusEnum("status").notNull().default('booked'),
+  name: varchar("name").notNull(),
+  email: varchar("email").notNull(),
+  phone: varchar("phone").notNull(),
+  company: varchar("company"),
+  address: text("address"),
+  notes: text("notes"),
+  manageToken: varchar("manage_token").notNull().unique(),
+  cancelledAt: timestamp("cancelled_at"),
+  cancellationReason: text("cancellation_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_appointments_lead").on(table.leadId),
+  index("idx_appointments_starts").on(table.startsAt),
+]);
+
 // Clients - current customers converted from leads
 export const clients = pgTable("clients", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -383,6 +602,7 @@ export const suppliers = pgTable("suppliers", {
   servicesProvided: text("services_provided"), // Description of services/products
   status: supplierStatusEnum("status").notNull().default('active'),
   paymentTerms: varchar("payment_terms"), // Net 30, Net 60, etc.
+  leadTimeDays: integer("lead_time_days"), // Quoted days from order to delivery; PO history overrides it once available
   taxId: varchar("tax_id"),
   rating: integer("rating"), // 1-5 stars
   notes: text("notes"),
@@ -409,6 +629,34 @@ export const vendorAccounts = pgTable("vendor_accounts", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Purchase Orders - stock ordered from a supplier and received into inventory
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  poNumber: varchar("po_number").notNull().unique(), // Format: PO-YYYY-NNNNN
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id),
+  status: purchaseOrderStatusEnum("status").notNull().default('draft'),
+  expectedDate: timestamp("expected_date"),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull().default('0'),
+  notes: text("notes"),
+  sentAt: timestamp("sent_at"),
+  receivedAt: timestamp("received_at"), // Set once every line is fully received
+  cancelledAt: timestamp("cancelled_at"),
+  createdById: varchar("created_by_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("idx_purchase_orders_supplier").on(table.supplierId)]);
+
+// Purchase Order Lines - one inventory item per line, received in one or more deliveries
+export const purchaseOrderLines = pgTable("purchase_order_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseOrderId: varchar("purchase_order_id").notNull().references(() => purchaseOrders.id, { onDelete: 'cascade' }),
+  itemId: varchar("item_id").notNull().references(() => inventoryItems.id),
+  quantityOrdered: integer("quantity_ordered").notNull(),
+  quantityReceived: integer("quantity_received").notNull().default(0),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("idx_purchase_order_lines_order").on(table.purchaseOrderId)]);
+
 // Activities - audit log for system actions
 export const activities = pgTable("activities", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -450,6 +698,18 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
   }),
   communications: many(communications),
   comments: many(projectComments),
+  materials: many(projectMaterials),
+}));
+
+export const projectMaterialsRelations = relations(projectMaterials, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectMaterials.projectId],
+    references: [projects.id],
+  }),
+  item: one(inventoryItems, {
+    fields: [projectMaterials.itemId],
+    references: [inventoryItems.id],
+  }),
 }));
 
 export const projectCommentsRelations = relations(projectComments, ({ one }) => ({
@@ -511,6 +771,7 @@ export const tasksRelations = relations(tasks, ({ one, many }) => ({
     references: [projects.id],
   }),
   reports: many(reports),
+  timeEntries: many(timeEntries),
 }));
 
 export const reportsRelations = relations(reports, ({ one }) => ({
@@ -532,6 +793,63 @@ export const reportsRelations = relations(reports, ({ one }) => ({
   }),
 }));
 
+export const timeEntriesRelations = relations(timeEntries, ({ one }) => ({
+  user: one(users, {
+    fields: [timeEntries.userId],
+    references: [users.id],
+  }),
+  project: one(projects, {
+    fields: [timeEntries.projectId],
+    references: [projects.id],
+  }),
+  task: one(tasks, {
+    fields: [timeEntries.taskId],
+    references: [tasks.id],
+  }),
+  ticket: one(tickets, {
+    fields: [timeEntries.ticketId],
+    references: [tickets.id],
+  }),
+}));
+
+export const dispatchAssignmentsRelations = relations(dispatchAssignments, ({ one }) => ({
+  technician: one(users, {
+    fields: [dispatchAssignments.technicianId],
+    references: [users.id],
+  }),
+  project: one(projects, {
+    fields: [dispatchAssignments.projectId],
+    references: [projects.id],
+  }),
+  task: one(tasks, {
+    fields: [dispatchAssignments.taskId],
+    references: [tasks.id],
+  }),
+  ticket: one(tickets, {
+    fields: [dispatchAssignments.ticketId],
+    references: [tickets.id],
+  }),
+  appointment: one(appointments, {
+    fields: [dispatchAssignments.appointmentId],
+    references: [appointments.id],
+  }),
+}));
+
+export const appointmentsRelations = relations(appointments, ({ one }) => ({
+  appointmentType: one(appointmentTypes, {
+    fields: [appointments.appointmentTypeId],
+    references: [appointmentTypes.id],
+  }),
+  lead: one(leads, {
+    fields: [appointments.leadId],
+    references: [leads.id],
+  }),
+  technician: one(users, {
+    fields: [appointments.technicianId],
+    references: [users.id],
+  }),
+}));
+
 export const salesRecordsRelations = relations(salesRecords, ({ one }) => ({
   client: one(users, {
     fields: [salesRecords.clientId],
@@ -565,6 +883,9 @@ export const activitiesRelations = relations(activities, ({ one }) => ({
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 
+export type InsertPasswordResetToken = typeof passwordResetTokens.$inferInsert;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
 export type InsertServiceRequest = typeof serviceRequests.$inferInsert;
 export type ServiceRequest = typeof serviceRequests.$inferSelect;
 
@@ -626,6 +947,7 @@ export const updateServiceRequestSchema = z.object({
 export const insertProjectSchema = createInsertSchema(projects).omit({
   id: true,
   ticketNumber: true,
+  equipmentUsed: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
@@ -635,9 +957,27 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
   totalCost: z.union([z.string(), z.number()]).transform(val => String(val)).optional(),
 });
 
+// A file stored in object storage and listed on the record it belongs to
+export const fileAttachmentSchema = z.object({
+  filename: z.string().min(1).max(255),
+  contentType: z.string().max(255),
+  size: z.number().int().min(0),
+  objectPath: z.string().startsWith('/objects/'),
+});
+
+// A file the browser has just uploaded to a signed URL; the server claims it and records a FileAttachment
+export const attachmentUploadSchema = z.object({
+  filename: z.string().trim().min(1).max(255),
+  uploadURL: z.string().min(1),
+});
+
+export const attachmentUploadsSchema = z.array(attachmentUploadSchema).max(10, "Attach at most 10 files at a time");
+
 export const insertProjectCommentSchema = createInsertSchema(projectComments).omit({
   id: true,
   createdAt: true,
+}).extend({
+  attachments: z.array(fileAttachmentSchema).optional(),
 });
 
 export const insertTicketSchema = createInsertSchema(tickets).omit({
@@ -647,6 +987,17 @@ export const insertTicketSchema = createInsertSchema(tickets).omit({
   updatedAt: true,
   shareToken: true,
   shareTokenCreatedAt: true,
+  slaPolicyId: true,
+  slaStartedAt: true,
+  firstResponseDueAt: true,
+  firstRespondedAt: true,
+  resolutionDueAt: true,
+  resolvedAt: true,
+  slaPausedMinutes: true,
+  firstResponseBreached: true,
+  resolutionBreached: true,
+  slaWarnedAt: true,
+  slaWarningAt: true,
 }).extend({
   dueDate: z.coerce.date().optional(),
 });
@@ -654,6 +1005,8 @@ export const insertTicketSchema = createInsertSchema(tickets).omit({
 export const insertTicketCommentSchema = createInsertSchema(ticketComments).omit({
   id: true,
   createdAt: true,
+}).extend({
+  attachments: z.array(fileAttachmentSchema).optional(),
 });
 
 export const insertCommunicationSchema = createInsertSchema(communications).omit({
@@ -675,6 +1028,38 @@ export const insertInventoryItemSchema = createInsertSchema(inventoryItems).omit
 export const insertInventoryTransactionSchema = createInsertSchema(inventoryTransactions).omit({
   id: true,
   createdAt: true,
+  transferId: true, // Set by /api/inventory/transfers
+  purchaseOrderId: true, // Set when receiving a purchase order
+});
+
+// Serial-tracked stock that is sold or written off names the units that left
+export const inventoryTransactionSerialsSchema = z.array(z.string().min(1)).max(500).optional();
+
+export const insertStockLocationSchema = createInsertSchema(stockLocations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateStockLocationSchema = insertStockLocationSchema.partial();
+
+// Moves stock between locations; a null location means unassigned stock
+export const inventoryTransferSchema = z.object({
+  itemId: z.string().min(1),
+  fromLocationId: z.string().nullable(),
+  toLocationId: z.string().nullable(),
+  quantity: z.number().int().positive("Quantity must be at least 1"),
+  notes: z.string().max(500).optional(),
+}).refine(transfer => transfer.fromLocationId !== transfer.toLocationId, {
+  message: "Choose two different locations",
+  path: ["toLocationId"],
+});
+
+export const reconcileInventorySchema = z.object({
+  // stock: keep stock and record a balancing adjustment; history: reset stock, and each location's stock, to the transaction totals.
+  // Items stocked before the ledger have no opening transaction, so resetting them to history must be asked for.
+  strategy: z.enum(['history', 'stock']).default('stock'),
+  itemIds: z.array(z.string()).optional(),
 });
 
 // Authentication schemas for email/password system
@@ -716,11 +1101,18 @@ export type InsertServiceRequestType = z.infer<typeof insertServiceRequestSchema
 export type ClientInsertServiceRequestType = z.infer<typeof clientInsertServiceRequestSchema>;
 export type UpdateServiceRequestType = z.infer<typeof updateServiceRequestSchema>;
 export type InsertProjectType = z.infer<typeof insertProjectSchema>;
+export type InsertTicketCommentType = z.infer<typeof insertTicketCommentSchema>;
 export type InsertProjectCommentType = z.infer<typeof insertProjectCommentSchema>;
 export type InsertCommunicationType = z.infer<typeof insertCommunicationSchema>;
 export type InsertVisitorType = z.infer<typeof insertVisitorSchema>;
 export type InsertInventoryItemType = z.infer<typeof insertInventoryItemSchema>;
 export type InsertInventoryTransactionType = z.infer<typeof insertInventoryTransactionSchema>;
+export type ReconcileInventoryType = z.infer<typeof reconcileInventorySchema>;
+export type StockLocation = typeof stockLocations.$inferSelect;
+export type InsertStockLocationType = z.infer<typeof insertStockLocationSchema>;
+export type UpdateStockLocationType = z.infer<typeof updateStockLocationSchema>;
+export type InventoryStockLevel = typeof inventoryStockLevels.$inferSelect;
+export type InventoryTransferType = z.infer<typeof inventoryTransferSchema>;
 
 export type InsertTask = typeof tasks.$inferInsert;
 export type Task = typeof tasks.$inferSelect;
@@ -740,6 +1132,7 @@ export const insertTaskSchema = createInsertSchema(tasks).omit({
   createdAt: true,
   updatedAt: true,
   completedAt: true,
+  attachments: true,
 }).extend({
   dueDate: z.coerce.date().optional(),
 });
@@ -749,6 +1142,7 @@ export const updateTaskSchema = createInsertSchema(tasks).omit({
   createdAt: true,
   updatedAt: true,
   createdById: true,
+  attachments: true,
 }).extend({
   dueDate: z.coerce.date().optional(),
   completedAt: z.coerce.date().optional(),
@@ -898,6 +1292,247 @@ export const updateVendorAccountSchema = createInsertSchema(vendorAccounts).omit
   vendorUrl: z.string().url("Invalid URL").optional().or(z.literal('')),
 }).partial();
 
+const purchaseOrderLineInputSchema = z.object({
+  itemId: z.string().min(1, "Select an item"),
+  quantityOrdered: z.number().int().positive("Quantity must be at least 1"),
+  unitCost: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter a valid unit cost"),
+});
+
+export const insertPurchaseOrderSchema = z.object({
+  supplierId: z.string().min(1, "Select a supplier"),
+  expectedDate: z.coerce.date().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  lines: z.array(purchaseOrderLineInputSchema).min(1, "Add at least one line"),
+});
+
+// Drafts can be edited freely; lines, when given, replace the existing ones
+export const updatePurchaseOrderSchema = insertPurchaseOrderSchema.partial();
+
+// One delivery against a sent PO; quantities are per line and may be partial
+export const receivePurchaseOrderSchema = z.object({
+  lines: z.array(z.object({
+    lineId: z.string().min(1),
+    quantity: z.number().int().positive("Quantity must be at least 1"),
+    serialNumbers: z.array(z.string().trim().min(1).max(100)).optional(), // Required for serial-tracked items, one per unit
+  })).min(1, "Receive at least one line"),
+  locationId: z.string().nullable().optional(),
+  notes: z.string().max(500).optional(),
+});
+
+const serialNumberListSchema = z.array(z.string().trim().min(1).max(100))
+  .min(1, "Enter at least one serial number")
+  .max(500)
+  .refine(serials => new Set(serials).size === serials.length, "Serial numbers must be unique");
+
+// Records serials for units already counted in stock (e.g. stock on hand before tracking began)
+export const registerSerialsSchema = z.object({
+  serialNumbers: serialNumberListSchema,
+  notes: z.string().max(500).optional(),
+});
+
+export const allocateSerialsSchema = z.object({
+  unitIds: z.array(z.string().min(1)).min(1, "Select at least one unit"),
+});
+
+// Installing consumes the unit from stock; warranty defaults to the item's warranty months from the install date
+export const installSerialSchema = z.object({
+  installedAt: z.coerce.date().optional(),
+  warrantyEndsAt: z.coerce.date().nullable().optional(),
+  locationId: z.string().nullable().optional(), // Van or warehouse the unit was taken from
+});
+
+export const serialSearchQuerySchema = z.object({
+  search: z.string().trim().optional(),
+  itemId: z.string().optional(),
+  status: z.enum(['in_stock', 'allocated', 'installed', 'retired']).optional(),
+});
+
+export const insertProjectMaterialSchema = z.object({
+  itemId: z.string().min(1, "Item is required"),
+  quantityPlanned: z.coerce.number().int().min(0).default(0),
+  notes: z.string().max(500).nullable().optional(),
+});
+
+export const updateProjectMaterialSchema = insertProjectMaterialSchema.omit({ itemId: true }).partial();
+
+// Consuming books a project_usage stock movement and adds its cost to the project
+export const consumeProjectMaterialSchema = z.object({
+  quantity: z.coerce.number().int().positive("Quantity must be at least 1"),
+  locationId: z.string().nullable().optional(), // Van or warehouse the stock came from
+});
+
+// Clocking in opens a running entry; where the work is done is optional until clock-out
+export const clockInSchema = z.object({
+  projectId: z.string().nullable().optional(),
+  taskId: z.string().nullable().optional(),
+  ticketId: z.string().nullable().optional(),
+  rateTypeId: z.string().nullable().optional(),
+  billable: z.boolean().optional(),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+export const clockOutSchema = z.object({
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+// Manual entries are submitted for approval straight away
+export const insertTimeEntrySchema = clockInSchema.extend({
+  userId: z.string().optional(), // Approvers can log time for someone else
+  startedAt: z.coerce.date(),
+  endedAt: z.coerce.date(),
+}).refine(data => data.endedAt > data.startedAt, {
+  message: "End time must be after start time",
+  path: ["endedAt"],
+}).refine(data => data.endedAt.getTime() - data.startedAt.getTime() <= 24 * 60 * 60 * 1000, {
+  message: "Enter a separate entry for each day",
+  path: ["endedAt"],
+});
+
+export const updateTimeEntrySchema = clockInSchema.extend({
+  startedAt: z.coerce.date(),
+  endedAt: z.coerce.date(),
+}).partial();
+
+export const reviewTimeEntrySchema = z.object({
+  approved: z.boolean(),
+  rejectionReason: z.string().max(500).optional(),
+});
+
+export const timeEntriesQuerySchema = z.object({
+  userId: z.string().optional(),
+  projectId: z.string().optional(),
+  status: z.enum(timeEntryStatusEnum.enumValues).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  unbilled: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+});
+
+export const invoiceTimeEntriesSchema = z.object({
+  entryIds: z.array(z.string()).min(1, "Select at least one time entry"),
+});
+
+// Dispatchers can knowingly double-book a technician by resending with force
+const dispatchWindowSchema = z.object({
+  technicianId: z.string().min(1, "Technician is required"),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  notes: z.string().max(1000).nullable().optional(),
+  force: z.boolean().optional(),
+});
+
+export const insertDispatchAssignmentSchema = dispatchWindowSchema.extend({
+  projectId: z.string().nullable().optional(),
+  taskId: z.string().nullable().optional(),
+  ticketId: z.string().nullable().optional(),
+}).refine(data => [data.projectId, data.taskId, data.ticketId].filter(Boolean).length === 1, {
+  message: "Choose one project, task or ticket",
+  path: ["projectId"],
+}).refine(data => data.endsAt > data.startsAt, {
+  message: "End time must be after start time",
+  path: ["endsAt"],
+});
+
+export const updateDispatchAssignmentSchema = dispatchWindowSchema.partial();
+
+export const dispatchBoardQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+}).refine(data => data.to > data.from && data.to.getTime() - data.from.getTime() <= 62 * 24 * 60 * 60 * 1000, {
+  message: "Choose a range of up to 62 days",
+});
+
+export const insertAppointmentTypeSchema = createInsertSchema(appointmentTypes).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  durationMinutes: z.number().int().min(15, "At least 15 minutes").max(480, "At most 8 hours"),
+  bufferMinutes: z.number().int().min(0).max(240),
+});
+
+export const updateAppointmentTypeSchema = insertAppointmentTypeSchema.partial();
+
+export const appointmentAvailabilityQuerySchema = z.object({
+  appointmentTypeId: z.string().min(1, "Appointment type is required"),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+});
+
+// Public booking pages; the slot comes from the availability endpoint
+export const bookAppointmentSchema = z.object({
+  appointmentTypeId: z.string().min(1, "Choose an appointment type"),
+  startsAt: z.coerce.date(),
+  name: z.string().min(2, "Name is required").max(200),
+  email: z.string().email("Enter a valid email address"),
+  phone: z.string().min(7, "Enter a valid phone number").max(50),
+  company: z.string().max(200).optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+export const bookSiteVisitSchema = bookAppointmentSchema.extend({
+  propertyAddress: z.string().min(5, "Property address is required").max(500),
+  propertyType: z.string().min(1).max(50),
+  serviceInterest: z.string().min(1).max(50),
+  squareFootage: z.string().max(50).optional(),
+});
+
+export const rescheduleAppointmentSchema = z.object({
+  startsAt: z.coerce.date(),
+});
+
+export const cancelAppointmentSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+// Reorder engine tuning: usage window, safety buffer and how many days each order should cover
+export const reorderSuggestionsQuerySchema = z.object({
+  windowDays: z.coerce.number().int().min(7).max(365).default(90),
+  safetyDays: z.coerce.number().int().min(0).max(90).default(7),
+  coverDays: z.coerce.number().int().min(1).max(180).default(30),
+  includeAll: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+});
+
+// Cross-project profitability report filters; dates bound when the project completed (or started, if open)
+export const projectProfitabilityQuerySchema = z.object({
+  status: z.enum(requestStatusEnum.enumValues).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+export type InsertPurchaseOrderType = z.infer<typeof insertPurchaseOrderSchema>;
+export type UpdatePurchaseOrderType = z.infer<typeof updatePurchaseOrderSchema>;
+export type ReceivePurchaseOrderType = z.infer<typeof receivePurchaseOrderSchema>;
+export type ProjectMaterial = typeof projectMaterials.$inferSelect;
+export type InsertProjectMaterialType = z.infer<typeof insertProjectMaterialSchema>;
+export type UpdateProjectMaterialType = z.infer<typeof updateProjectMaterialSchema>;
+export type ConsumeProjectMaterialType = z.infer<typeof consumeProjectMaterialSchema>;
+export type ProjectProfitabilityQueryType = z.infer<typeof projectProfitabilityQuerySchema>;
+export type TimeEntry = typeof timeEntries.$inferSelect;
+export type DispatchAssignment = typeof dispatchAssignments.$inferSelect;
+export type InsertDispatchAssignmentType = z.infer<typeof insertDispatchAssignmentSchema>;
+export type UpdateDispatchAssignmentType = z.infer<typeof updateDispatchAssignmentSchema>;
+export type DispatchBoardQueryType = z.infer<typeof dispatchBoardQuerySchema>;
+export type AppointmentType = typeof appointmentTypes.$inferSelect;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type Appointment = typeof appointments.$inferSelect;
+export type InsertAppointmentTypeType = z.infer<typeof insertAppointmentTypeSchema>;
+export type UpdateAppointmentTypeType = z.infer<typeof updateAppointmentTypeSchema>;
+export type BookAppointmentType = z.infer<typeof bookAppointmentSchema>;
+export type BookSiteVisitType = z.infer<typeof bookSiteVisitSchema>;
+export type ClockInType = z.infer<typeof clockInSchema>;
+export type ClockOutType = z.infer<typeof clockOutSchema>;
+export type InsertTimeEntryType = z.infer<typeof insertTimeEntrySchema>;
+export type UpdateTimeEntryType = z.infer<typeof updateTimeEntrySchema>;
+export type ReviewTimeEntryType = z.infer<typeof reviewTimeEntrySchema>;
+export type TimeEntriesQueryType = z.infer<typeof timeEntriesQuerySchema>;
+export type InvoiceTimeEntriesType = z.infer<typeof invoiceTimeEntriesSchema>;
+export type ReorderSuggestionsQueryType = z.infer<typeof reorderSuggestionsQuerySchema>;
+export type SerializedUnit = typeof serializedUnits.$inferSelect;
+export type RegisterSerialsType = z.infer<typeof registerSerialsSchema>;
+export type InstallSerialType = z.infer<typeof installSerialSchema>;
+export type SerialSearchQueryType = z.infer<typeof serialSearchQuerySchema>;
+
 export type VendorAccount = typeof vendorAccounts.$inferSelect;
 export type InsertVendorAccountType = z.infer<typeof insertVendorAccountSchema>;
 export type UpdateVendorAccountType = z.infer<typeof updateVendorAccountSchema>;
@@ -962,6 +1597,16 @@ export const systemConfig = pgTable("system_config", {
   privacyPolicyUrl: varchar("privacy_policy_url"),
   // Frontpage Service Selection
   selectedFrontpageServices: text("selected_frontpage_services").array(),
+  // Invoice reminders: days relative to the due date (negative = before, 0 = on the due date)
+  invoiceRemindersEnabled: boolean("invoice_reminders_enabled").default(true).notNull(),
+  invoiceReminderOffsets: integer("invoice_reminder_offsets").array().default(sql`ARRAY[-3, 0, 7, 14]`),
+  // Business hours used to classify time entries as regular, after-hours or holiday work
+  businessHoursStart: varchar("business_hours_start").default('08:00').notNull(), // HH:mm
+  businessHoursEnd: varchar("business_hours_end").default('17:00').notNull(), // HH:mm
+  businessDays: integer("business_days").array().default(sql`ARRAY[1, 2, 3, 4, 5]`), // 0 = Sunday
+  holidays: varchar("holidays").array(), // YYYY-MM-DD
+  businessTimeZone: varchar("business_time_zone"), // IANA zone; null = server time
+  laborCostPerHour: decimal("labor_cost_per_hour", { precision: 10, scale: 2 }), // Loaded technician cost for job costing
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -1043,10 +1688,50 @@ export const quotes = pgTable("quotes", {
   termsAndConditions: text("terms_and_conditions"),
   shareToken: varchar("share_token").unique(),
   shareTokenCreatedAt: timestamp("share_token_created_at"),
+  revisedFromId: varchar("revised_from_id").references((): AnyPgColumn => quotes.id, { onDelete: 'set null' }), // Expired quote this one was re-issued from
+  acceptedRevisionId: varchar("accepted_revision_id").references((): AnyPgColumn => quoteRevisions.id), // Revision the client approved (frozen)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Quote revisions table (immutable snapshots of what the client was sent: rev A, B, C...)
+export const quoteRevisions = pgTable("quote_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  quoteId: varchar("quote_id").notNull().references(() => quotes.id, { onDelete: 'cascade' }),
+  revisionNumber: integer("revision_number").notNull(), // 0 = rev A
+  items: jsonb("items").notNull(),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).default('0'),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).default('0'),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  validUntil: timestamp("valid_until"),
+  termsAndConditions: text("terms_and_conditions"),
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_quote_revisions_quote_number").on(table.quoteId, table.revisionNumber),
+]);
+
+// Quote acceptances (signed client approval of a specific quote revision)
+export const quoteAcceptances = pgTable("quote_acceptances", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  quoteId: varchar("quote_id").notNull().references(() => quotes.id, { onDelete: 'cascade' }),
+  revisionId: varchar("revision_id").notNull().references(() => quoteRevisions.id, { onDelete: 'cascade' }),
+  signerName: varchar("signer_name").notNull(), // Typed full name
+  signatureImage: text("signature_image").notNull(), // Drawn signature as a PNG data URL
+  // Legal terms exactly as presented when the client signed
+  termsVersion: varchar("terms_version").notNull(),
+  serviceAgreement: text("service_agreement"),
+  termsAndConditions: text("terms_and_conditions"),
+  comments: text("comments"),
+  ipAddress: varchar("ip_address"),
+  userAgent: text("user_agent"),
+  signedById: varchar("signed_by_id").references(() => users.id), // Set when the client was signed in
+  acceptedAt: timestamp("accepted_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_quote_acceptances_quote").on(table.quoteId),
+]);
+
 // Invoices table (formal invoices sent to leads/clients)
 export const invoices = pgTable("invoices", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1054,6 +1739,7 @@ export const invoices = pgTable("invoices", {
   quoteId: varchar("quote_id").references(() => quotes.id),
   leadId: varchar("lead_id").references(() => leads.id),
   clientId: varchar("client_id").references(() => clients.id),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: 'set null' }), // Job billed, for job costing; falls back to the quote's project
   createdById: varchar("created_by_id").notNull().references(() => users.id),
   status: invoiceStatusEnum("status").default('draft').notNull(),
   items: jsonb("items").notNull(), // Array of {priceMatrixId, itemName, description, unit, unitPrice, quantity, total}
@@ -1068,11 +1754,56 @@ export const invoices = pgTable("invoices", {
   dueDate: timestamp("due_date"),
   notes: text("notes"),
   termsAndConditions: text("terms_and_conditions"),
+  remindersPaused: boolean("reminders_paused").default(false).notNull(),
   shareToken: varchar("share_token").unique(),
   shareTokenCreatedAt: timestamp("share_token_created_at"),
+  subscriptionId: varchar("subscription_id").references((): AnyPgColumn => supportSubscriptions.id, { onDelete: 'set null' }), // Set when raised by subscription billing
+  subscriptionPeriodStart: timestamp("subscription_period_start"), // Billing period this invoice covers
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  // One invoice per subscription period, so a retried billing run can't bill twice
+  uniqueIndex("idx_invoices_subscription_period").on(table.subscriptionId, table.subscriptionPeriodStart),
+]);
+
+// Invoice Reminders table (one row per dunning reminder sent, so each cadence step fires once)
+export const invoiceReminders = pgTable("invoice_reminders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id").notNull().references(() => invoices.id, { onDelete: 'cascade' }),
+  offsetDays: integer("offset_days").notNull(), // Cadence step that triggered this reminder
+  channel: varchar("channel").notNull(), // Notification transport used
+  recipient: varchar("recipient").notNull(),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_invoice_reminders_invoice_offset").on(table.invoiceId, table.offsetDays),
+]);
+
+// Share Links table (public, tokenized links to quotes, invoices, projects and tickets)
+export const shareLinks = pgTable("share_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entityType: shareLinkEntityTypeEnum("entity_type").notNull(),
+  entityId: varchar("entity_id").notNull(),
+  token: varchar("token").notNull().unique(),
+  label: varchar("label"), // e.g. the recipient the link was sent to
+  expiresAt: timestamp("expires_at"), // null = never expires
+  revokedAt: timestamp("revoked_at"),
+  revokedById: varchar("revoked_by_id").references(() => users.id),
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_share_links_entity").on(table.entityType, table.entityId),
+]);
+
+// Share Link Views table (access log for public links)
+export const shareLinkViews = pgTable("share_link_views", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shareLinkId: varchar("share_link_id").notNull().references(() => shareLinks.id, { onDelete: 'cascade' }),
+  viewedAt: timestamp("viewed_at").defaultNow().notNull(),
+  ipAddress: varchar("ip_address"),
+  userAgent: text("user_agent"),
+}, (table) => [
+  index("idx_share_link_views_link").on(table.shareLinkId),
+]);
 
 // Legal Documents table (stores legal content)
 export const legalDocuments = pgTable("legal_documents", {
@@ -1129,6 +1860,126 @@ export const supportPlans = pgTable("support_plans", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Support Subscriptions table (a client signed up to a recurring support plan, billed in advance each period)
+export const supportSubscriptions = pgTable("support_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id").notNull().references(() => clients.id, { onDelete: 'cascade' }),
+  planId: varchar("plan_id").notNull().references(() => supportPlans.id),
+  status: subscriptionStatusEnum("status").default('active').notNull(),
+  intervalMonths: integer("interval_months").notNull(), // Taken from the plan's billing period when subscribed
+  priceOverride: decimal("price_override", { precision: 10, scale: 2 }), // null = plan rate
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).default('0').notNull(),
+  startDate: timestamp("start_date").notNull(),
+  billingAnchor: timestamp("billing_anchor").notNull(), // Periods run from this date in whole intervals; time before it is prorated
+  currentPeriodStart: timestamp("current_period_start"), // Last period invoiced
+  currentPeriodEnd: timestamp("current_period_end"),
+  nextBillingAt: timestamp("next_billing_at").notNull(),
+  pendingAdjustments: jsonb("pending_adjustments").default([]).notNull(), // Proration lines added to the next invoice
+  autoSend: boolean("auto_send").default(false).notNull(), // Issue invoices as sent rather than draft
+  paymentTermsDays: integer("payment_terms_days").default(14).notNull(),
+  cancelAtPeriodEnd: boolean("cancel_at_period_end").default(false).notNull(),
+  cancelledAt: timestamp("cancelled_at"),
+  cancellationReason: text("cancellation_reason"),
+  createdById: varchar("created_by_id").notNull().references(() => users.id), // Recorded as the creator of generated invoices
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_support_subscriptions_client").on(table.clientId),
+  index("idx_support_subscriptions_next_billing").on(table.status, table.nextBillingAt),
+]);
+
+// Maintenance Visit Types table (recurring preventive work, e.g. camera cleaning, and the checklist followed on site)
+export const maintenanceVisitTypes = pgTable("maintenance_visit_types", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(),
+  serviceType: serviceTypeEnum("service_type").notNull().default('maintenance'),
+  description: text("description"),
+  checklist: jsonb("checklist").default([]).notNull(), // Array of checklist item labels
+  estimatedMinutes: integer("estimated_minutes"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Maintenance Agreements table (a client site under a preventive-maintenance contract for one visit type)
+export const maintenanceAgreements = pgTable("maintenance_agreements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id").notNull().references(() => clients.id, { onDelete: 'cascade' }),
+  visitTypeId: varchar("visit_type_id").notNull().references(() => maintenanceVisitTypes.id),
+  siteName: varchar("site_name", { length: 255 }).notNull(),
+  siteAddress: text("site_address"),
+  intervalMonths: integer("interval_months").notNull(), // 3 = quarterly, 12 = annual
+  startDate: timestamp("start_date").notNull(), // First visit is due on this date; later ones follow at the interval
+  endDate: timestamp("end_date"), // No visits are generated after this; null = runs until ended
+  nextDueDate: timestamp("next_due_date").notNull(), // Earliest visit not yet generated
+  leadDays: integer("lead_days").default(14).notNull(), // How far ahead of the due date the visit task is created
+  assignedToId: varchar("assigned_to_id").references(() => users.id), // Technician given the generated tasks
+  status: maintenanceAgreementStatusEnum("status").default('active').notNull(),
+  notes: text("notes"),
+  createdById: varchar("created_by_id").notNull().references(() => users.id), // Recorded as the creator of generated tasks
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_maintenance_agreements_client").on(table.clientId),
+  index("idx_maintenance_agreements_next_due").on(table.status, table.nextDueDate),
+]);
+
+// Maintenance Visits table (one per due date of an agreement, with its checklist as completed on site)
+export const maintenanceVisits = pgTable("maintenance_visits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  agreementId: varchar("agreement_id").notNull().references(() => maintenanceAgreements.id, { onDelete: 'cascade' }),
+  taskId: varchar("task_id").references(() => tasks.id, { onDelete: 'set null' }),
+  dueDate: timestamp("due_date").notNull(),
+  checklist: jsonb("checklist").notNull(), // Array of {item, done, note}, copied from the visit type when generated
+  notes: text("notes"),
+  completedAt: timestamp("completed_at"),
+  completedById: varchar("completed_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // One visit per due date, so a retried scheduling run can't create duplicates
+  uniqueIndex("idx_maintenance_visits_agreement_due").on(table.agreementId, table.dueDate),
+  index("idx_maintenance_visits_due").on(table.dueDate),
+]);
+
+// SLA Policies table (first-response and resolution targets per ticket priority, optionally per support plan)
+export const slaPolicies = pgTable("sla_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(),
+  priority: priorityEnum("priority").notNull(),
+  supportPlanId: varchar("support_plan_id").references(() => supportPlans.id, { onDelete: 'cascade' }), // null = clients without a plan-specific policy
+  firstResponseMinutes: integer("first_response_minutes").notNull(),
+  resolutionMinutes: integer("resolution_minutes").notNull(),
+  businessHoursOnly: boolean("business_hours_only").default(true).notNull(), // false = timers run around the clock
+  warningPercent: integer("warning_percent").default(80).notNull(), // Warn the assignee once this share of a target has elapsed
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_sla_policies_priority").on(table.priority, table.supportPlanId),
+]);
+
+// Inbound Emails table (every message received by the mail gateway and what it became)
+export const inboundEmails = pgTable("inbound_emails", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  messageId: varchar("message_id").notNull().unique(), // So a redelivered message is only processed once
+  fromAddress: varchar("from_address").notNull(),
+  fromName: varchar("from_name"),
+  subject: varchar("subject", { length: 998 }).notNull().default(''),
+  body: text("body").notNull().default(''), // Plain text, quoted history included
+  attachments: jsonb("attachments").default([]).notNull(), // Array of {filename, contentType, size, objectPath}
+  status: inboundEmailStatusEnum("status").notNull(),
+  statusReason: text("status_reason"), // Why a message was left unmatched or ignored
+  ticketId: varchar("ticket_id").references(() => tickets.id, { onDelete: 'set null' }),
+  ticketCommentId: varchar("ticket_comment_id").references(() => ticketComments.id, { onDelete: 'set null' }),
+  leadId: varchar("lead_id").references(() => leads.id, { onDelete: 'set null' }),
+  handledById: varchar("handled_by_id").references(() => users.id), // Staff who triaged an unmatched message
+  receivedAt: timestamp("received_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_inbound_emails_status").on(table.status, table.receivedAt),
+]);
+
 // Referral Programs table (stores different referral program types with reward structures)
 export const referralPrograms = pgTable("referral_programs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1203,17 +2054,51 @@ export const revenue = pgTable("revenue", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Invoice Payments table (ledger of payments received against an invoice)
+export const invoicePayments = pgTable("invoice_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id").notNull().references(() => invoices.id, { onDelete: 'cascade' }),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  method: paymentMethodEnum("method").notNull(),
+  reference: varchar("reference"), // Check number, card authorization, transfer ID, etc.
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  notes: text("notes"),
+  revenueId: varchar("revenue_id").references(() => revenue.id, { onDelete: 'set null' }), // Revenue row created for this payment
+  recordedById: varchar("recorded_by_id").notNull().references(() => users.id),
+  voidedAt: timestamp("voided_at"),
+  voidedById: varchar("voided_by_id").references(() => users.id),
+  voidReason: text("void_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("idx_invoice_payments_invoice").on(table.invoiceId)]);
+
 export const insertSystemConfigSchema = createInsertSchema(systemConfig).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+const isValidTimeZone = (zone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
 export const updateSystemConfigSchema = createInsertSchema(systemConfig).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
-}).partial();
+}).partial().extend({
+  invoiceReminderOffsets: z.array(z.number().int().min(-90).max(365)).max(12).nullable().optional(),
+  businessHoursStart: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm").optional(),
+  businessHoursEnd: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm").optional(),
+  businessDays: z.array(z.number().int().min(0).max(6)).max(7).nullable().optional(),
+  holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")).nullable().optional(),
+  businessTimeZone: z.string().refine(isValidTimeZone, "Unknown time zone").nullable().optional(),
+});
 
 export const insertServiceTypeSchema = createInsertSchema(serviceTypes).omit({
   id: true,
@@ -1227,6 +2112,16 @@ export const updateServiceTypeSchema = createInsertSchema(serviceTypes).omit({
   updatedAt: true,
 }).partial();
 
+// Service proposal flyer for a lead or a client, rendered as a PDF on the server
+export const flyerPdfSchema = z.object({
+  leadId: z.string().optional(),
+  clientId: z.string().optional(),
+  services: z.array(z.string()).min(1, "Select at least one service"),
+  salesPersonId: z.string().optional(),
+  personalizedMessage: z.string().max(2000).optional(),
+  showPricing: z.boolean().default(false),
+}).refine(data => !!data.leadId !== !!data.clientId, { message: "Choose either a lead or a client" });
+
 export const insertCompanyCertificationSchema = createInsertSchema(companyCertifications).omit({
   id: true,
   createdAt: true,
@@ -1257,6 +2152,7 @@ export type UpdateSystemConfigType = z.infer<typeof updateSystemConfigSchema>;
 export type ServiceType = typeof serviceTypes.$inferSelect;
 export type InsertServiceTypeType = z.infer<typeof insertServiceTypeSchema>;
 export type UpdateServiceTypeType = z.infer<typeof updateServiceTypeSchema>;
+export type FlyerPdfType = z.infer<typeof flyerPdfSchema>;
 export type CompanyCertification = typeof companyCertifications.$inferSelect;
 export type InsertCompanyCertificationType = z.infer<typeof insertCompanyCertificationSchema>;
 export type UpdateCompanyCertificationType = z.infer<typeof updateCompanyCertificationSchema>;
@@ -1290,6 +2186,8 @@ export const insertQuoteSchema = createInsertSchema(quotes).omit({
   updatedAt: true,
   shareToken: true,
   shareTokenCreatedAt: true,
+  revisedFromId: true,
+  acceptedRevisionId: true,
 }).extend({
   quoteNumber: z.string().optional(),
   validUntil: z.string().optional(),
@@ -1301,11 +2199,30 @@ export const updateQuoteSchema = createInsertSchema(quotes).omit({
   updatedAt: true,
   shareToken: true,
   shareTokenCreatedAt: true,
+  revisedFromId: true,
+  acceptedRevisionId: true,
 }).partial().extend({
   validUntil: z.string().optional(),
 });
 
+// Public quote approval: typed name, drawn signature and agreement to the current legal terms
+export const quoteAcceptanceSchema = z.object({
+  signerName: z.string().trim().min(2, "Please type your full name").max(200),
+  signature: z.string()
+    .regex(/^data:image\/png;base64,[A-Za-z0-9+/=]+$/, "Please draw your signature")
+    .max(500_000, "Signature image is too large"),
+  acceptTerms: z.literal(true, { errorMap: () => ({ message: "You must accept the terms to approve this quote" }) }),
+  termsVersion: z.string().min(1),
+  comments: z.string().trim().max(2000).optional(),
+  revision: z.number().int().min(0).optional(),
+});
+
+export type QuoteAcceptanceType = z.infer<typeof quoteAcceptanceSchema>;
+
 export type Quote = typeof quotes.$inferSelect;
+export type QuoteRevision = typeof quoteRevisions.$inferSelect;
+export type QuoteAcceptance = typeof quoteAcceptances.$inferSelect;
+export type InsertQuoteAcceptance = typeof quoteAcceptances.$inferInsert;
 export type InsertQuoteType = z.infer<typeof insertQuoteSchema>;
 export type UpdateQuoteType = z.infer<typeof updateQuoteSchema>;
 
@@ -1315,6 +2232,12 @@ export const insertInvoiceSchema = createInsertSchema(invoices).omit({
   updatedAt: true,
   shareToken: true,
   shareTokenCreatedAt: true,
+  amountPaid: true, // Derived from invoice payments
+  balanceDue: true,
+  paymentStatus: true,
+  remindersPaused: true, // Toggled via /api/invoices/:id/reminders
+  subscriptionId: true, // Set only by subscription billing
+  subscriptionPeriodStart: true,
 }).extend({
   invoiceNumber: z.string().optional(),
   dueDate: z.string().optional(),
@@ -1326,14 +2249,83 @@ export const updateInvoiceSchema = createInsertSchema(invoices).omit({
   updatedAt: true,
   shareToken: true,
   shareTokenCreatedAt: true,
+  amountPaid: true, // Derived from invoice payments
+  balanceDue: true,
+  paymentStatus: true,
+  remindersPaused: true, // Toggled via /api/invoices/:id/reminders
+  subscriptionId: true, // Set only by subscription billing
+  subscriptionPeriodStart: true,
 }).partial().extend({
   dueDate: z.string().optional(),
+  // Paid, partial and overdue follow from the payments and the due date, so only the lifecycle can be set
+  status: z.enum(['draft', 'sent', 'cancelled']).optional(),
 });
 
 export type Invoice = typeof invoices.$inferSelect;
 export type InsertInvoiceType = z.infer<typeof insertInvoiceSchema>;
 export type UpdateInvoiceType = z.infer<typeof updateInvoiceSchema>;
 
+export const invoiceRemindersPauseSchema = z.object({
+  paused: z.boolean(),
+});
+
+export type InvoiceReminder = typeof invoiceReminders.$inferSelect;
+export type InsertInvoiceReminder = typeof invoiceReminders.$inferInsert;
+
+export const createShareLinkSchema = z.object({
+  label: z.string().trim().max(100).optional(),
+  // Days until the link stops working; null creates a link that never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+export type ShareLinkEntityType = typeof shareLinkEntityTypeEnum.enumValues[number];
+export type ShareLink = typeof shareLinks.$inferSelect;
+export type InsertShareLink = typeof shareLinks.$inferInsert;
+export type ShareLinkView = typeof shareLinkViews.$inferSelect;
+export type InsertShareLinkView = typeof shareLinkViews.$inferInsert;
+export type CreateShareLinkType = z.infer<typeof createShareLinkSchema>;
+
+// Quote-to-invoice conversion: full amount, a single deposit, or a progress-billing schedule
+const quoteBillingPercentage = z.coerce.number()
+  .gt(0, "Percentage must be greater than zero")
+  .max(100, "Percentage cannot exceed 100");
+
+export const quoteInvoiceInstallmentSchema = z.object({
+  percentage: quoteBillingPercentage,
+  label: z.string().optional(),
+  dueDate: z.string().optional(),
+});
+
+export const convertQuoteToInvoiceSchema = z.discriminatedUnion("mode", [
+  z.object({
+    mode: z.literal("full"),
+    dueDate: z.string().optional(),
+  }),
+  z.object({
+    mode: z.literal("deposit"),
+    percentage: quoteBillingPercentage,
+    dueDate: z.string().optional(),
+  }),
+  z.object({
+    mode: z.literal("schedule"),
+    installments: z.array(quoteInvoiceInstallmentSchema).min(2, "A schedule needs at least two installments"),
+  }),
+]).superRefine((data, ctx) => {
+  if (data.mode === "schedule") {
+    const totalPercentage = data.installments.reduce((sum, i) => sum + i.percentage, 0);
+    if (Math.abs(totalPercentage - 100) > 0.001) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["installments"],
+        message: `Installments must add up to 100% (currently ${totalPercentage}%)`,
+      });
+    }
+  }
+});
+
+export type QuoteInvoiceInstallment = z.infer<typeof quoteInvoiceInstallmentSchema>;
+export type ConvertQuoteToInvoiceType = z.infer<typeof convertQuoteToInvoiceSchema>;
+
 export const insertLegalDocumentsSchema = createInsertSchema(legalDocuments).omit({
   id: true,
   createdAt: true,
@@ -1458,6 +2450,166 @@ export type SupportPlan = typeof supportPlans.$inferSelect;
 export type InsertSupportPlanType = z.infer<typeof insertSupportPlanSchema>;
 export type UpdateSupportPlanType = z.infer<typeof updateSupportPlanSchema>;
 
+const subscriptionPriceField = z.union([
+  z.string().transform(val => val === '' ? null : val),
+  z.number().transform(val => val.toString()),
+  z.null(),
+]).refine(val => val === null || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0), "Price must be zero or more");
+
+export const insertSupportSubscriptionSchema = z.object({
+  clientId: z.string().min(1, "Client is required"),
+  planId: z.string().min(1, "Plan is required"),
+  startDate: z.coerce.date(),
+  billingAnchor: z.coerce.date().optional(), // Defaults to the start date
+  priceOverride: subscriptionPriceField.optional(),
+  taxRate: z.coerce.number().min(0).max(100).optional(),
+  autoSend: z.boolean().optional(),
+  paymentTermsDays: z.coerce.number().int().min(0).max(120).optional(),
+});
+
+// Changing the plan or price mid-period prorates the difference onto the next invoice
+export const updateSupportSubscriptionSchema = z.object({
+  planId: z.string().min(1).optional(),
+  priceOverride: subscriptionPriceField.optional(),
+  taxRate: z.coerce.number().min(0).max(100).optional(),
+  autoSend: z.boolean().optional(),
+  paymentTermsDays: z.coerce.number().int().min(0).max(120).optional(),
+  cancelAtPeriodEnd: z.boolean().optional(),
+});
+
+export const supportSubscriptionQuerySchema = z.object({
+  clientId: z.string().optional(),
+  status: z.enum(subscriptionStatusEnum.enumValues).optional(),
+});
+
+export const cancelSupportSubscriptionSchema = z.object({
+  atPeriodEnd: z.boolean().default(true),
+  reason: z.string().max(1000).optional(),
+});
+
+export type SupportSubscription = typeof supportSubscriptions.$inferSelect;
+export type InsertSupportSubscriptionType = z.infer<typeof insertSupportSubscriptionSchema>;
+export type UpdateSupportSubscriptionType = z.infer<typeof updateSupportSubscriptionSchema>;
+export type CancelSupportSubscriptionType = z.infer<typeof cancelSupportSubscriptionSchema>;
+
+export const insertMaintenanceVisitTypeSchema = createInsertSchema(maintenanceVisitTypes).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(255),
+  checklist: z.array(z.string().trim().min(1).max(500)).max(100).default([]),
+  estimatedMinutes: z.coerce.number().int().min(5).max(24 * 60).nullable().optional(),
+});
+
+export const updateMaintenanceVisitTypeSchema = insertMaintenanceVisitTypeSchema.partial();
+
+const maintenanceIntervalMonths = z.coerce.number().int().min(1, "Interval must be at least a month").max(60);
+
+export const insertMaintenanceAgreementSchema = z.object({
+  clientId: z.string().min(1, "Client is required"),
+  visitTypeId: z.string().min(1, "Visit type is required"),
+  siteName: z.string().trim().min(1, "Site name is required").max(255),
+  siteAddress: z.string().optional(), // Defaults to the client's address
+  intervalMonths: maintenanceIntervalMonths,
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullable().optional(), // Defaults to the client's contract end date
+  leadDays: z.coerce.number().int().min(0).max(90).optional(),
+  assignedToId: z.string().nullable().optional(),
+  notes: z.string().optional(),
+});
+
+// Changing the interval reschedules from the next visit not yet generated
+export const updateMaintenanceAgreementSchema = z.object({
+  visitTypeId: z.string().min(1).optional(),
+  siteName: z.string().trim().min(1).max(255).optional(),
+  siteAddress: z.string().nullable().optional(),
+  intervalMonths: maintenanceIntervalMonths.optional(),
+  endDate: z.coerce.date().nullable().optional(),
+  leadDays: z.coerce.number().int().min(0).max(90).optional(),
+  assignedToId: z.string().nullable().optional(),
+  status: z.enum(maintenanceAgreementStatusEnum.enumValues).optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const maintenanceChecklistItemSchema = z.object({
+  item: z.string(),
+  done: z.boolean(),
+  note: z.string().max(1000).optional(),
+});
+
+export const maintenanceAgreementQuerySchema = z.object({
+  clientId: z.string().optional(),
+  status: z.enum(maintenanceAgreementStatusEnum.enumValues).optional(),
+});
+
+// What the technician records on site; completing the visit is a separate step
+export const recordMaintenanceVisitSchema = z.object({
+  checklist: z.array(maintenanceChecklistItemSchema).optional(),
+  notes: z.string().max(5000).nullable().optional(),
+});
+
+export type MaintenanceVisitType = typeof maintenanceVisitTypes.$inferSelect;
+export type MaintenanceAgreement = typeof maintenanceAgreements.$inferSelect;
+export type MaintenanceVisit = typeof maintenanceVisits.$inferSelect;
+export type MaintenanceChecklistItem = z.infer<typeof maintenanceChecklistItemSchema>;
+export type InsertMaintenanceVisitTypeType = z.infer<typeof insertMaintenanceVisitTypeSchema>;
+export type UpdateMaintenanceVisitTypeType = z.infer<typeof updateMaintenanceVisitTypeSchema>;
+export type InsertMaintenanceAgreementType = z.infer<typeof insertMaintenanceAgreementSchema>;
+export type UpdateMaintenanceAgreementType = z.infer<typeof updateMaintenanceAgreementSchema>;
+export type RecordMaintenanceVisitType = z.infer<typeof recordMaintenanceVisitSchema>;
+
+export const insertSlaPolicySchema = createInsertSchema(slaPolicies).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(255),
+  supportPlanId: z.string().nullable().optional(),
+  firstResponseMinutes: z.coerce.number().int().min(1, "First response target must be at least a minute"),
+  resolutionMinutes: z.coerce.number().int().min(1, "Resolution target must be at least a minute"),
+  warningPercent: z.coerce.number().int().min(1).max(99).optional(),
+}).refine(policy => policy.resolutionMinutes >= policy.firstResponseMinutes, {
+  message: "Resolution target can't be shorter than the first response target",
+  path: ["resolutionMinutes"],
+});
+
+export const updateSlaPolicySchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  firstResponseMinutes: z.coerce.number().int().min(1).optional(),
+  resolutionMinutes: z.coerce.number().int().min(1).optional(),
+  businessHoursOnly: z.boolean().optional(),
+  warningPercent: z.coerce.number().int().min(1).max(99).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const slaComplianceQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type SlaPolicy = typeof slaPolicies.$inferSelect;
+export type InsertSlaPolicyType = z.infer<typeof insertSlaPolicySchema>;
+export type UpdateSlaPolicyType = z.infer<typeof updateSlaPolicySchema>;
+export type SlaComplianceQueryType = z.infer<typeof slaComplianceQuerySchema>;
+
+export const inboundEmailQuerySchema = z.object({
+  status: z.enum(inboundEmailStatusEnum.enumValues).optional(),
+});
+
+// Staff turning an unmatched message into a ticket
+export const convertInboundEmailSchema = z.object({
+  projectId: z.string().min(1, "Project is required"),
+  priority: z.enum(priorityEnum.enumValues).optional(),
+});
+
+export type InboundEmail = typeof inboundEmails.$inferSelect;
+export type InsertInboundEmail = typeof inboundEmails.$inferInsert;
+export type FileAttachment = z.infer<typeof fileAttachmentSchema>;
+export type AttachmentUpload = z.infer<typeof attachmentUploadSchema>;
+export type InboundEmailQueryType = z.infer<typeof inboundEmailQuerySchema>;
+export type ConvertInboundEmailType = z.infer<typeof convertInboundEmailSchema>;
+
 // Referral Programs schemas
 export const insertReferralProgramSchema = createInsertSchema(referralPrograms).omit({
   id: true,
@@ -1583,6 +2735,34 @@ export type Revenue = typeof revenue.$inferSelect;
 export type InsertRevenueType = z.infer<typeof insertRevenueSchema>;
 export type UpdateRevenueType = z.infer<typeof updateRevenueSchema>;
 
+// Invoice Payments schemas
+export const insertInvoicePaymentSchema = createInsertSchema(invoicePayments).omit({
+  id: true,
+  invoiceId: true,
+  revenueId: true,
+  recordedById: true,
+  voidedAt: true,
+  voidedById: true,
+  voidReason: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  amount: z.union([z.string(), z.number()])
+    .transform(val => String(val))
+    .refine(val => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Amount must be greater than zero"),
+  receivedAt: z.coerce.date().optional(),
+  reference: z.string().transform(val => val === '' ? undefined : val).optional(),
+  revenueSource: z.enum(revenueSourceEnum.enumValues).optional(), // Source for the linked revenue row
+});
+
+export const voidInvoicePaymentSchema = z.object({
+  reason: z.string().min(1, "A reason is required to void a payment"),
+});
+
+export type InvoicePayment = typeof invoicePayments.$inferSelect;
+export type InsertInvoicePaymentType = z.infer<typeof insertInvoicePaymentSchema>;
+export type VoidInvoicePaymentType = z.infer<typeof voidInvoicePaymentSchema>;
+
 // Authentication types
 export type RegisterType = z.infer<typeof registerSchema>;
 export type LoginType = z.infer<typeof loginSchema>;